@@ -1,10 +1,20 @@
-import { createSignal, createResource, Show, Suspense, lazy } from "solid-js";
+import { createSignal, createResource, createEffect, Show, Suspense, lazy } from "solid-js";
 import type { RouteSectionProps } from "@solidjs/router";
 import AppShell from "~/components/layout/AppShell";
 import AppErrorBoundary from "~/components/ui/ErrorBoundary";
+import VaultUnlock from "~/components/ui/VaultUnlock";
 import { onboardingStore } from "~/stores/onboarding";
 import { settingsStore } from "~/stores/settings";
-import { initializeApp, activateOPFS } from "~/services/init";
+import { diaryStore } from "~/stores/diary";
+import { recorderStore } from "~/stores/recorder";
+import { initializeStorage, initializeApp, activateOPFS, activateIndexedDB } from "~/services/init";
+import { vault } from "~/services/storage/vault";
+import { isVaultMigrating } from "~/services/storage/vault-migration";
+import { isBackupRunning } from "~/services/backup/status";
+import { editManager } from "~/services/editor/manager";
+import { migrationManager } from "~/services/storage/migration";
+import { offloadManager } from "~/services/storage/offload";
+import { videoRepairManager } from "~/services/storage/video-repair";
 import type { StorageProviderType } from "~/models/types";
 
 const OnboardingWizard = lazy(
@@ -18,26 +28,71 @@ export default function App(props: RouteSectionProps) {
     onboardingStore.isCompleted(),
   );
 
-  // Initialize app (storage providers + load entries) once onboarded
-  const [initialized] = createResource(onboarded, async (isOnboarded) => {
-    if (!isOnboarded) return false;
-    await initializeApp();
+  // Open the storage providers once onboarded — that's also where an
+  // enabled vault is found if this browser didn't know about it
+  const [storageReady] = createResource(onboarded, async (ready) => {
+    if (!ready) return false;
+    await initializeStorage();
     return true;
   });
 
+  // Initialize the rest of the app (load entries) once the storage is open
+  // and, with the encrypted vault enabled, unlocked. Unlocking again after
+  // an auto-lock only reloads the entries.
+  let booted = false;
+  const [initialized] = createResource(
+    () => !!storageReady() && !vault.isLocked(),
+    async (ready) => {
+      if (!ready) return false;
+      if (booted) {
+        await diaryStore.loadEntries();
+      } else {
+        await initializeApp();
+        booted = true;
+      }
+      return true;
+    },
+  );
+
+  // Auto-lock the vault after inactivity — never while an unsaved take exists or a long job is running
+  createEffect(() => {
+    vault.configureAutoLock(settingsStore.settings().vaultAutoLockMinutes, () => {
+      const status = recorderStore.status();
+      const unsavedTake = status === "recording" || status === "paused" || status === "stopped";
+      return (
+        unsavedTake ||
+        isVaultMigrating() ||
+        isBackupRunning() ||
+        editManager.isRendering() ||
+        migrationManager.isRunning() ||
+        offloadManager.isRunning() ||
+        videoRepairManager.isRunning()
+      );
+    });
+  });
+
+  // Locking drops decrypted entries (titles, thumbnails, blob URLs) from memory
+  createEffect(() => {
+    if (booted && vault.isLocked()) diaryStore.unloadEntries();
+  });
+
   async function handleOnboardingComplete(choice: StorageProviderType) {
     // Save onboarding state
     onboardingStore.complete(choice);
     // Update settings with the chosen provider
     settingsStore.updateSettings({ activeStorageProvider: choice });
 
-    // If they chose OPFS, activate it now
-    if (choice === "opfs") {
-      const ok = await activateOPFS();
-      if (!ok) {
-        // OPFS failed — fall back to ephemeral silently
-        settingsStore.updateSettings({ activeStorageProvider: "ephemeral" });
+    // If they chose OPFS or IndexedDB, activate it now
+    if (choice === "opfs" || choice === "indexeddb") {
+      let active: StorageProviderType = choice;
+      if (choice === "opfs" && !(await activateOPFS())) {
+        // OPFS failed — fall back to IndexedDB silently
+        active = "indexeddb";
+      }
+      if (active === "indexeddb" && !(await activateIndexedDB())) {
+        active = "ephemeral";
       }
+      settingsStore.updateSettings({ activeStorageProvider: active });
     }
     // Filesystem is already activated by StorageStep (which calls activateFilesystem)
     // before invoking onComplete — no extra work needed here.
@@ -54,19 +109,21 @@ export default function App(props: RouteSectionProps) {
         </Suspense>
       }
     >
-      <Show
-        when={initialized()}
-        fallback={
-          <div class="min-h-[100dvh] flex items-center justify-center">
-            <p class="font-mono text-sm text-text-secondary animate-pulse">
-              Initializing...
-            </p>
-          </div>
-        }
-      >
-        <AppErrorBoundary>
-          <AppShell>{props.children}</AppShell>
-        </AppErrorBoundary>
+      <Show when={!vault.isLocked()} fallback={<VaultUnlock />}>
+        <Show
+          when={initialized()}
+          fallback={
+            <div class="min-h-[100dvh] flex items-center justify-center">
+              <p class="font-mono text-sm text-text-secondary animate-pulse">
+                Initializing...
+              </p>
+            </div>
+          }
+        >
+          <AppErrorBoundary>
+            <AppShell>{props.children}</AppShell>
+          </AppErrorBoundary>
+        </Show>
       </Show>
     </Show>
   );
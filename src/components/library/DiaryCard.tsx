@@ -1,14 +1,22 @@
 import { Show } from "solid-js";
 import type { DiaryEntry } from "~/models/types";
 import { formatDuration, formatDate } from "~/utils/time";
+import type { TranscriptMatch } from "~/utils/search";
 import StorageBadge from "~/components/ui/StorageBadge";
+import { editedDuration } from "~/services/editor/segments";
+import { overallSyncStatus } from "~/services/cloud/records";
 
 interface DiaryCardProps {
   entry: DiaryEntry;
+  /** Transcript excerpt that matched the current search, if any */
+  match?: TranscriptMatch | null;
   onClick: () => void;
 }
 
 export default function DiaryCard(props: DiaryCardProps) {
+  /** One badge for all of the entry's cloud connections */
+  const syncStatus = () => overallSyncStatus(props.entry);
+
   return (
     <button
       class="flex flex-col rounded-lg border border-border-default bg-bg-secondary active:bg-bg-elevated card-hover transition-all duration-200 overflow-hidden cursor-pointer text-left w-full"
@@ -39,9 +47,19 @@ export default function DiaryCard(props: DiaryCardProps) {
         </h3>
         <div class="flex items-center gap-3 text-xs text-text-secondary font-mono">
           <span>{formatDate(props.entry.createdAt)}</span>
-          <span>{formatDuration(props.entry.duration)}</span>
+          <span>{formatDuration(editedDuration(props.entry.edit, props.entry.duration))}</span>
         </div>
 
+        {/* Transcript match */}
+        <Show when={props.match}>
+          {(match) => (
+            <p class="text-xs text-text-secondary leading-snug line-clamp-2">
+              <span class="font-mono text-accent-cyan/70 mr-1">{formatDuration(match().start)}</span>
+              {match().snippet}
+            </p>
+          )}
+        </Show>
+
         {/* Tags */}
         <Show when={props.entry.tags.length > 0}>
           <div class="flex flex-wrap gap-1 mt-1">
@@ -59,7 +77,7 @@ export default function DiaryCard(props: DiaryCardProps) {
           <StorageBadge provider={props.entry.storageProvider} compact />
 
           {/* Cloud sync status badges */}
-          <Show when={props.entry.cloudSync?.status === "synced"}>
+          <Show when={syncStatus() === "synced"}>
             <span class="inline-flex items-center gap-0.5 text-[10px] font-mono text-accent-green" title="Synced to cloud">
               <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor">
                 <path d="M4.5 13a3.5 3.5 0 0 1-.654-6.938A4.5 4.5 0 0 1 12.5 5.5h.5a3 3 0 0 1 0 6H13" />
@@ -68,7 +86,7 @@ export default function DiaryCard(props: DiaryCardProps) {
               Synced
             </span>
           </Show>
-          <Show when={props.entry.cloudSync?.status === "cloud-only"}>
+          <Show when={syncStatus() === "cloud-only"}>
             <span class="inline-flex items-center gap-0.5 text-[10px] font-mono text-accent-cyan/80" title="Stored in cloud only">
               <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor">
                 <path d="M4.5 13a3.5 3.5 0 0 1-.654-6.938A4.5 4.5 0 0 1 12.5 5.5h.5a3 3 0 0 1 0 6H13" />
@@ -77,7 +95,7 @@ export default function DiaryCard(props: DiaryCardProps) {
               Cloud
             </span>
           </Show>
-          <Show when={props.entry.cloudSync?.status === "pending" || props.entry.cloudSync?.status === "uploading"}>
+          <Show when={syncStatus() === "pending" || syncStatus() === "uploading"}>
             <span class="inline-flex items-center gap-0.5 text-[10px] font-mono text-accent-amber animate-pulse" title="Uploading to cloud">
               <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor">
                 <path d="M4.5 13a3.5 3.5 0 0 1-.654-6.938A4.5 4.5 0 0 1 12.5 5.5h.5a3 3 0 0 1 0 6H13" />
@@ -86,7 +104,7 @@ export default function DiaryCard(props: DiaryCardProps) {
               Syncing...
             </span>
           </Show>
-          <Show when={props.entry.cloudSync?.status === "failed"}>
+          <Show when={syncStatus() === "failed"}>
             <span class="inline-flex items-center gap-0.5 text-[10px] font-mono text-accent-red" title="Cloud sync failed">
               <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor">
                 <path d="M4.5 13a3.5 3.5 0 0 1-.654-6.938A4.5 4.5 0 0 1 12.5 5.5h.5a3 3 0 0 1 0 6H13" />
@@ -95,8 +113,48 @@ export default function DiaryCard(props: DiaryCardProps) {
             </span>
           </Show>
 
-          {/* Legacy cloud status (backward compat) — shown only if no cloudSync */}
-          <Show when={!props.entry.cloudSync}>
+          {/* Sync rule overrides */}
+          <Show when={props.entry.syncOverride === "pin"}>
+            <span class="inline-flex items-center gap-0.5 text-[10px] font-mono text-accent-cyan/80" title="Pinned to cloud — always uploaded">
+              <svg width="10" height="10" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.5">
+                <path d="M6 2h4l-.5 4 2.5 2.5H4L6.5 6 6 2zM8 8.5V14" />
+              </svg>
+              Pinned
+            </span>
+          </Show>
+          <Show when={props.entry.syncOverride === "local-only"}>
+            <span class="inline-flex items-center gap-0.5 text-[10px] font-mono text-text-secondary" title="Kept on this device only — never uploaded">
+              <svg width="10" height="10" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.5">
+                <path d="M4.5 13a3.5 3.5 0 0 1-.654-6.938A4.5 4.5 0 0 1 12.5 5.5h.5a3 3 0 0 1 0 6H13M3 3l10 10" />
+              </svg>
+              Local only
+            </span>
+          </Show>
+
+          {/* Screen recordings */}
+          <Show when={props.entry.screenLayout}>
+            <span class="inline-flex items-center gap-0.5 text-[10px] font-mono text-text-secondary" title="Screen recording">
+              <svg width="10" height="10" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.5">
+                <rect x="1.5" y="2.5" width="13" height="9" rx="1" />
+                <path d="M5.5 14h5" />
+              </svg>
+              Screen
+            </span>
+          </Show>
+
+          {/* Audio entries */}
+          <Show when={props.entry.mediaKind === "audio"}>
+            <span class="inline-flex items-center gap-0.5 text-[10px] font-mono text-text-secondary" title="Audio entry">
+              <svg width="10" height="10" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.5">
+                <rect x="5.5" y="1.5" width="5" height="8" rx="2.5" />
+                <path d="M3 7.5a5 5 0 0 0 10 0M8 12.5v2" />
+              </svg>
+              Audio
+            </span>
+          </Show>
+
+          {/* Legacy cloud status (backward compat) — shown only if no cloudSyncs */}
+          <Show when={!syncStatus()}>
             <Show when={props.entry.cloudStatus === "uploaded"}>
               <span class="text-[10px] font-mono text-accent-green">
                 Synced
@@ -1,20 +1,55 @@
-import { Show, createSignal, createEffect, onMount, onCleanup } from "solid-js";
-import type { DiaryEntry } from "~/models/types";
+import { Show, For, createSignal, createEffect, onMount, onCleanup } from "solid-js";
+import type { CloudSyncOverride, DiaryEntry, EditSegment, StorageProviderType } from "~/models/types";
 import { formatDuration, formatDate, formatTime } from "~/utils/time";
 import { downloadBlob } from "~/utils/video";
 import { formatBytes, getExtensionForMimeType } from "~/utils/format";
 import { storageManager } from "~/services/storage/manager";
+import { migrationManager } from "~/services/storage/migration";
+import { offloadManager } from "~/services/storage/offload";
+import { STORAGE_PROVIDER_LABELS, getStorageProviderLabel } from "~/services/storage/registry";
 import { cloudSyncManager } from "~/services/cloud/manager";
+import { cloudStreaming, type CloudStream } from "~/services/cloud/stream";
+import { canAutoSync } from "~/services/cloud/rules";
 import { cloudStore } from "~/stores/cloud";
-import { GoogleDriveProvider } from "~/services/cloud/google-drive";
+import { diaryStore } from "~/stores/diary";
+import { settingsStore } from "~/stores/settings";
+import { transcriptionManager } from "~/services/transcription/manager";
+import { editedDuration, resolvePlaybackTime } from "~/services/editor/segments";
+import { getConnectionLabel } from "~/services/cloud/registry";
+import {
+  isBackedUp,
+  isCloudOnly as hasCloudOnlyRecord,
+  overallSyncStatus,
+  syncRecord,
+  videoRecords,
+} from "~/services/cloud/records";
+import type { CloudSyncEntryStatus, CloudSyncInfo } from "~/services/cloud/types";
 import Button from "~/components/ui/Button";
 import StorageBadge from "~/components/ui/StorageBadge";
+import EntryEditor from "./EntryEditor";
+import WaveformScrubber from "./WaveformScrubber";
 import { toastStore } from "~/stores/toast";
 
+/** How each state of a connection's copy reads in the "Cloud copies" list */
+const COPY_STATUS_LABELS: Record<CloudSyncEntryStatus, string> = {
+  synced: "Backed up",
+  "cloud-only": "Cloud only",
+  uploading: "Uploading...",
+  pending: "Pending upload",
+  failed: "Sync failed",
+};
+
 interface DiaryDetailProps {
   entry: DiaryEntry;
+  /** Seconds to start playback at (e.g. from a transcript search match) */
+  initialTime?: number;
   onClose: () => void;
   onDelete: (id: string) => void;
+  /**
+   * Called with the entry's new copy after "Move to…" (its ID may have
+   * changed) or after its offloaded video was downloaded back
+   */
+  onMoved?: (entry: DiaryEntry) => void;
 }
 
 export default function DiaryDetail(props: DiaryDetailProps) {
@@ -22,11 +57,40 @@ export default function DiaryDetail(props: DiaryDetailProps) {
   const [videoBlob, setVideoBlob] = createSignal<Blob | null>(null);
   const [loadingVideo, setLoadingVideo] = createSignal(false);
   const [isCloudOnly, setIsCloudOnly] = createSignal(false);
+  /** Whether a video sealed in the vault plays through a stream rather than a blob */
+  const [streamingSealed, setStreamingSealed] = createSignal(false);
   const [isOffline, setIsOffline] = createSignal(!navigator.onLine);
   const [reconnecting, setReconnecting] = createSignal(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = createSignal(false);
+  const [currentTime, setCurrentTime] = createSignal(0);
+  const [editing, setEditing] = createSignal(false);
+  const [previewSegments, setPreviewSegments] = createSignal<EditSegment[] | null>(null);
+  const [showMoveMenu, setShowMoveMenu] = createSignal(false);
+  const [moving, setMoving] = createSignal(false);
+  const [editingDetails, setEditingDetails] = createSignal(false);
+  const [titleInput, setTitleInput] = createSignal("");
+  const [tagsInput, setTagsInput] = createSignal("");
+  const [savingDetails, setSavingDetails] = createSignal(false);
+  /** Buffered spans of a streaming video, as fractions of its duration */
+  const [buffered, setBuffered] = createSignal<Array<{ start: number; end: number }>>([]);
+
+  // props.entry is a snapshot — read the transcript from the store so one
+  // that finishes while the dialog is open shows up
+  const transcript = () =>
+    diaryStore.entries().find((e) => e.id === props.entry.id)?.transcript ?? props.entry.transcript;
+  const transcriptionJob = () => transcriptionManager.jobs()[props.entry.id];
+  // Same for the edit, which the editor below changes
+  const current = () => diaryStore.entries().find((e) => e.id === props.entry.id) ?? props.entry;
+  const isAudio = () => current().mediaKind === "audio";
+  /** Whether the file has a picture — audio entries only with a recorded visualizer ("video/…") */
+  const hasPicture = () => !current().mimeType.startsWith("audio/");
+
+  /** Spans playback is limited to — the saved edit, or the editor's preview while editing */
+  const playbackSegments = (): EditSegment[] =>
+    editing() ? (previewSegments() ?? []) : (current().edit?.segments ?? []);
 
   let dialogRef: HTMLDivElement | undefined;
+  let videoRef: HTMLVideoElement | undefined;
   let closeBtnRef: HTMLButtonElement | undefined;
 
   // Capture the entry's own blob URL eagerly so we can compare during
@@ -34,6 +98,9 @@ export default function DiaryDetail(props: DiaryDetailProps) {
   // already be null when the parent <Show> tears down this component).
   let entryOwnBlobUrl: string | undefined;
 
+  /** Stream the player is on, while a cloud-only or sealed video streams */
+  let cloudStream: CloudStream | null = null;
+
   // Track online/offline status
   function handleOnline() { setIsOffline(false); }
   function handleOffline() { setIsOffline(true); }
@@ -48,6 +115,61 @@ export default function DiaryDetail(props: DiaryDetailProps) {
     window.removeEventListener("offline", handleOffline);
   });
 
+  /**
+   * Point the player at a cloud-only video: streamed where this page and the
+   * provider can, otherwise downloaded whole first.
+   */
+  async function loadCloudVideo(entry: DiaryEntry, isCancelled: () => boolean): Promise<void> {
+    const record = playbackRecord(entry);
+    const cloudProvider = record ? cloudSyncManager.provider(record.connectionId) : null;
+    const fileRef = record?.videoFileRef;
+    if (cloudProvider && fileRef) {
+      try {
+        const stream = await cloudStreaming.open(cloudProvider, fileRef);
+        if (stream && isCancelled()) {
+          stream.close();
+          return;
+        }
+        if (stream) {
+          cloudStream?.close();
+          cloudStream = stream;
+          setVideoUrl(stream.url);
+          return;
+        }
+      } catch (err) {
+        console.warn("[DiaryDetail] Failed to start streaming, downloading instead:", err);
+      }
+    }
+
+    // Offloaded to free space — bring the video back for good
+    if (entry.cloudSyncs?.some((r) => r.offloadedAt)) {
+      try {
+        const restored = await offloadManager.rehydrate(entry);
+        if (!isCancelled()) {
+          setIsCloudOnly(false);
+          setVideoBlob(restored);
+          setVideoUrl(URL.createObjectURL(restored));
+        }
+        return;
+      } catch (err) {
+        console.warn("[DiaryDetail] Failed to restore offloaded video, streaming instead:", err);
+      }
+    }
+    try {
+      if (cloudProvider && fileRef) {
+        const streamUrl = await cloudProvider.getVideoStreamUrl(fileRef);
+        if (!isCancelled()) {
+          setVideoUrl(streamUrl);
+        }
+      }
+    } catch (err) {
+      console.warn("[DiaryDetail] Failed to get cloud stream URL:", err);
+      if (!isCancelled()) {
+        toastStore.error("Failed to load video from cloud");
+      }
+    }
+  }
+
   // Load video blob — either from entry directly, lazy-load from OPFS,
   // or stream from cloud for cloud-only entries.
   createEffect(() => {
@@ -60,8 +182,9 @@ export default function DiaryDetail(props: DiaryDetailProps) {
     entryOwnBlobUrl = blobUrl ?? undefined;
 
     // Check if this is a cloud-only entry
-    const cloudOnly = entry.cloudSync?.status === "cloud-only";
+    const cloudOnly = hasCloudOnlyRecord(entry);
     setIsCloudOnly(cloudOnly);
+    setStreamingSealed(false);
 
     if (blobUrl) {
       // Already have a blob URL (ephemeral entries)
@@ -80,25 +203,14 @@ export default function DiaryDetail(props: DiaryDetailProps) {
 
       setLoadingVideo(true);
       let cancelled = false;
-      onCleanup(() => { cancelled = true; });
+      onCleanup(() => {
+        cancelled = true;
+        cloudStream?.close();
+        cloudStream = null;
+      });
 
       void (async () => {
-        try {
-          const cloudProvider = cloudSyncManager.provider();
-          if (cloudProvider && entry.cloudSync?.videoFileRef) {
-            const streamUrl = await cloudProvider.getVideoStreamUrl(
-              entry.cloudSync.videoFileRef,
-            );
-            if (!cancelled) {
-              setVideoUrl(streamUrl);
-            }
-          }
-        } catch (err) {
-          console.warn("[DiaryDetail] Failed to get cloud stream URL:", err);
-          if (!cancelled) {
-            toastStore.error("Failed to load video from cloud");
-          }
-        }
+        await loadCloudVideo(entry, () => cancelled);
         if (!cancelled) {
           setLoadingVideo(false);
         }
@@ -112,15 +224,33 @@ export default function DiaryDetail(props: DiaryDetailProps) {
       if (provider.capabilities.lazyBlobs) {
         setLoadingVideo(true);
         let cancelled = false;
-        onCleanup(() => { cancelled = true; });
+        onCleanup(() => {
+          cancelled = true;
+          cloudStream?.close();
+          cloudStream = null;
+        });
 
         void (async () => {
           try {
-            const loaded = await storageManager.loadVideoBlob(entry);
-            if (loaded && !cancelled) {
-              const url = URL.createObjectURL(loaded);
-              setVideoBlob(loaded);
-              setVideoUrl(url);
+            // A sealed video is decrypted only where the player reads it
+            const stream = await storageManager.openSealedVideo(entry).catch((err) => {
+              console.warn("[DiaryDetail] Failed to stream sealed video, opening it whole:", err);
+              return null;
+            });
+            if (stream && cancelled) {
+              stream.close();
+            } else if (stream) {
+              cloudStream?.close();
+              cloudStream = stream;
+              setStreamingSealed(true);
+              setVideoUrl(stream.url);
+            } else {
+              const loaded = await storageManager.loadVideoBlob(entry);
+              if (loaded && !cancelled) {
+                const url = URL.createObjectURL(loaded);
+                setVideoBlob(loaded);
+                setVideoUrl(url);
+              }
             }
           } catch (err) {
             console.warn("[DiaryDetail] Failed to load video:", err);
@@ -181,8 +311,19 @@ export default function DiaryDetail(props: DiaryDetailProps) {
     }
   });
 
-  function handleDownload() {
-    const blob = videoBlob();
+  /**
+   * The whole video — a streamed sealed video is only opened whole when
+   * something needs all of it (downloading, editing)
+   */
+  async function loadWholeVideo(): Promise<Blob | null> {
+    if (videoBlob() || !streamingSealed()) return videoBlob();
+    const blob = await storageManager.loadVideoBlob(current());
+    if (blob) setVideoBlob(blob);
+    return blob;
+  }
+
+  async function handleDownload() {
+    const blob = await loadWholeVideo();
     if (blob) {
       const safeName = props.entry.title.replace(/[^a-zA-Z0-9_-]/g, "_");
       downloadBlob(blob, `${safeName}${getExtensionForMimeType(props.entry.mimeType)}`);
@@ -190,21 +331,255 @@ export default function DiaryDetail(props: DiaryDetailProps) {
     }
   }
 
+  /** Persistent providers this entry could move to */
+  function moveTargets(): StorageProviderType[] {
+    return (Object.keys(STORAGE_PROVIDER_LABELS) as StorageProviderType[]).filter(
+      (name) =>
+        storageManager.getProvider(name)?.capabilities.persistent &&
+        migrationManager.cannotMove(current(), name) === null,
+    );
+  }
+
+  async function handleMove(target: StorageProviderType) {
+    setShowMoveMenu(false);
+    setMoving(true);
+    videoRef?.pause();
+    try {
+      const result = await migrationManager.move([current()], target);
+      if (result.failed.length > 0) {
+        toastStore.error(`Move failed: ${result.failed[0].error}`);
+        return;
+      }
+      toastStore.success(`Moved to ${getStorageProviderLabel(target)}`);
+      const moved = diaryStore.entries().find((e) => e.id === result.ids[props.entry.id]);
+      if (moved) {
+        props.onMoved?.(moved);
+      } else {
+        props.onClose();
+      }
+    } catch (err) {
+      console.error("[DiaryDetail] Move failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Move failed: ${msg}`);
+    } finally {
+      setMoving(false);
+    }
+  }
+
+  function startEditingDetails() {
+    setTitleInput(current().title);
+    setTagsInput(current().tags.join(", "));
+    setEditingDetails(true);
+  }
+
+  /** Save a rename or tag change; synced entries pass it on to the cloud */
+  async function handleSaveDetails() {
+    const title = titleInput().trim();
+    if (!title) {
+      toastStore.error("The title can't be empty");
+      return;
+    }
+    const tags = tagsInput()
+      .split(",")
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0);
+
+    setSavingDetails(true);
+    try {
+      await diaryStore.updateEntry(props.entry.id, { title, tags });
+      void cloudSyncManager.syncMeta(props.entry.id);
+      setEditingDetails(false);
+    } catch (err) {
+      console.error("[DiaryDetail] Failed to save details:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Failed to save: ${msg}`);
+    } finally {
+      setSavingDetails(false);
+    }
+  }
+
+  async function handleSyncOverride(value: string) {
+    const override = value === "rule" ? undefined : (value as CloudSyncOverride);
+    try {
+      await cloudSyncManager.setSyncOverride(props.entry.id, override);
+    } catch (err) {
+      console.error("[DiaryDetail] Failed to change sync override:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Failed to save: ${msg}`);
+    }
+  }
+
+  /** Whether "keep on this device" applies — synced entries in storage that can offload */
+  function canKeepOnDevice(): boolean {
+    const provider = storageManager.getProvider(current().storageProvider);
+    return isBackedUp(current()) && !!provider?.evictVideo;
+  }
+
+  async function handleKeepOnDevice(kept: boolean) {
+    try {
+      await offloadManager.setKept(current(), kept);
+      if (kept && isCloudOnly()) {
+        toastStore.success("Video downloaded to this device");
+        // Reopen with the restored entry so it plays from local storage
+        props.onMoved?.(current());
+      }
+    } catch (err) {
+      console.error("[DiaryDetail] Failed to keep video on device:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Download failed: ${msg}`);
+    }
+  }
+
+  function seekTo(seconds: number) {
+    if (!videoRef) return;
+    videoRef.currentTime = seconds;
+    void videoRef.play().catch(() => {
+      // Autoplay blocked — the seek still happened
+    });
+  }
+
+  // Apply the edit during playback: skip cut parts and stop at the out point.
+  // timeupdate fires only ~4x a second, so check every frame while playing.
+  let editFrame = 0;
+
+  function enforceEdit() {
+    editFrame = 0;
+    if (!videoRef || videoRef.paused) return;
+    const next = resolvePlaybackTime(playbackSegments(), videoRef.currentTime);
+    if (next && "ended" in next) {
+      videoRef.pause();
+      videoRef.currentTime = next.ended;
+      return;
+    }
+    if (next) videoRef.currentTime = next.seekTo;
+    editFrame = requestAnimationFrame(enforceEdit);
+  }
+
+  let playCounted = false;
+
+  function handlePlay() {
+    if (!playCounted) {
+      playCounted = true;
+      offloadManager.recordPlay(props.entry.id);
+    }
+    const segments = playbackSegments();
+    // Replaying from the end of an edit starts over at its first span
+    if (videoRef && segments.length > 0 && videoRef.currentTime >= segments[segments.length - 1].end - 0.05) {
+      videoRef.currentTime = segments[0].start;
+    }
+    cancelAnimationFrame(editFrame);
+    editFrame = requestAnimationFrame(enforceEdit);
+  }
+
+  onCleanup(() => cancelAnimationFrame(editFrame));
+
+  function handlePreview(segments: EditSegment[] | null) {
+    setPreviewSegments(segments);
+    if (!videoRef) return;
+    if (segments && segments.length > 0) {
+      videoRef.currentTime = segments[0].start;
+      void videoRef.play().catch(() => {
+        // Autoplay blocked — the user can press play
+      });
+    } else {
+      videoRef.pause();
+    }
+  }
+
+  function handleRendered(blob: Blob) {
+    // Swap the player over to the rendered video
+    const previous = videoUrl();
+    if (previous && previous !== entryOwnBlobUrl) {
+      URL.revokeObjectURL(previous);
+    }
+    cloudStream?.close();
+    cloudStream = null;
+    setStreamingSealed(false);
+    const ownUrl = current().videoBlobUrl;
+    entryOwnBlobUrl = ownUrl ?? undefined;
+    setVideoBlob(blob);
+    setVideoUrl(ownUrl ?? URL.createObjectURL(blob));
+  }
+
+  /** Follow what a streaming video has buffered, for the bar under it */
+  function updateBuffered() {
+    if (!videoRef || !Number.isFinite(videoRef.duration) || videoRef.duration <= 0) return;
+    const spans: Array<{ start: number; end: number }> = [];
+    for (let i = 0; i < videoRef.buffered.length; i++) {
+      spans.push({
+        start: videoRef.buffered.start(i) / videoRef.duration,
+        end: videoRef.buffered.end(i) / videoRef.duration,
+      });
+    }
+    setBuffered(spans);
+  }
+
+  /** A streamed video that played to the end has every byte — keep it if Settings say so */
+  async function handleEnded() {
+    const keep = isCloudOnly() && settingsStore.settings().keepStreamedVideos;
+    const blob = keep ? cloudStream?.assemble() : null;
+    if (!blob) return;
+    try {
+      await offloadManager.restore(current(), blob);
+      setIsCloudOnly(false);
+      setVideoBlob(blob);
+      toastStore.success("Video saved on this device");
+    } catch (err) {
+      console.warn("[DiaryDetail] Failed to keep streamed video:", err);
+    }
+  }
+
+  function handleLoadedMetadata() {
+    if (props.initialTime !== undefined && videoRef) {
+      videoRef.currentTime = props.initialTime;
+    }
+  }
+
+  function connectionOf(connectionId: string) {
+    return cloudStore.connections().find((c) => c.id === connectionId);
+  }
+
+  /**
+   * The copy a cloud-only video plays from: one in a signed-in connection,
+   * otherwise the first (to reconnect to).
+   */
+  function playbackRecord(entry: DiaryEntry): CloudSyncInfo | undefined {
+    const records = videoRecords(entry);
+    return records.find((r) => cloudStore.isSignedIn(r.connectionId)) ?? records[0];
+  }
+
+  const cloudLabel = () => {
+    const record = playbackRecord(props.entry);
+    return getConnectionLabel(record && connectionOf(record.connectionId));
+  };
+
+  /** Connections the entry has files in — deleting it deletes those too */
+  const cloudCopyLabels = () =>
+    (props.entry.cloudSyncs ?? [])
+      .filter((r) => r.videoFileRef || r.metaFileRef)
+      .map((r) => getConnectionLabel(connectionOf(r.connectionId)))
+      .join(", ");
+
+  /** Upload the entry to a connection it isn't backed up to yet */
+  function handleBackUp(connectionId: string) {
+    cloudSyncManager.queueUpload(props.entry.id, connectionId);
+    toastStore.info(`Backing up to ${getConnectionLabel(connectionOf(connectionId))}`);
+  }
+
   async function handleReconnect() {
     setReconnecting(true);
     try {
-      const provider = new GoogleDriveProvider();
-      await cloudStore.connect(provider);
+      // Reconnect to whichever connection holds this entry's video
+      const record = playbackRecord(props.entry);
+      const connection = record && connectionOf(record.connectionId);
+      if (!connection) return;
+      await cloudStore.connect(connection);
       // After reconnecting, re-trigger the video load by re-entering the effect.
       // The effect tracks props.entry which hasn't changed, so we manually
       // attempt to load the stream URL here.
-      const cp = cloudSyncManager.provider();
-      if (cp && props.entry.cloudSync?.videoFileRef) {
-        setLoadingVideo(true);
-        const streamUrl = await cp.getVideoStreamUrl(props.entry.cloudSync.videoFileRef);
-        setVideoUrl(streamUrl);
-        setLoadingVideo(false);
-      }
+      setLoadingVideo(true);
+      await loadCloudVideo(props.entry, () => false);
+      setLoadingVideo(false);
     } catch (err) {
       console.warn("[DiaryDetail] Reconnect failed:", err);
     } finally {
@@ -232,7 +607,7 @@ export default function DiaryDetail(props: DiaryDetailProps) {
         {/* Header */}
         <div class="flex items-center justify-between p-4 border-b border-border-default sticky top-0 bg-bg-secondary z-10">
           <h2 class="text-lg font-medium text-text-primary truncate pr-4">
-            {props.entry.title}
+            {current().title}
           </h2>
           <button
             ref={closeBtnRef}
@@ -282,14 +657,14 @@ export default function DiaryDetail(props: DiaryDetailProps) {
                     <line x1="9" y1="9" x2="15" y2="15" />
                   </svg>
                   <p class="text-text-secondary font-mono text-sm">Could not load cloud video</p>
-                  <p class="text-text-secondary/60 font-mono text-xs">Your Google Drive session has expired</p>
+                  <p class="text-text-secondary/60 font-mono text-xs">Your {cloudLabel()} session has expired</p>
                   <button
                     class="mt-2 px-4 py-2 rounded-md text-sm font-mono font-medium text-accent-cyan border border-accent-cyan/30 bg-accent-cyan/10 hover:bg-accent-cyan/20 transition-colors cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent-cyan/50 disabled:opacity-50 disabled:cursor-not-allowed"
                     onClick={handleReconnect}
                     disabled={reconnecting()}
                     type="button"
                   >
-                    {reconnecting() ? "Reconnecting..." : "Reconnect to Google Drive"}
+                    {reconnecting() ? "Reconnecting..." : `Reconnect to ${cloudLabel()}`}
                   </button>
                 </div>
               </Show>
@@ -306,12 +681,47 @@ export default function DiaryDetail(props: DiaryDetailProps) {
           }
         >
           <div class="bg-black relative">
+            {/* Audio entries are scrubbed on their waveform */}
+            <Show when={isAudio()}>
+              <WaveformScrubber
+                waveform={current().waveform}
+                duration={current().duration}
+                currentTime={currentTime()}
+                onSeek={(t) => {
+                  if (videoRef) videoRef.currentTime = t;
+                  setCurrentTime(t);
+                }}
+              />
+            </Show>
             <video
+              ref={videoRef}
               src={videoUrl()!}
               controls
-              class="w-full max-h-[50dvh] object-contain"
-              aria-label={`Video: ${props.entry.title}`}
+              onLoadedMetadata={handleLoadedMetadata}
+              onPlay={handlePlay}
+              onTimeUpdate={(e) => {
+                setCurrentTime(e.currentTarget.currentTime);
+                updateBuffered();
+              }}
+              onProgress={updateBuffered}
+              onEnded={() => void handleEnded()}
+              // Audio without a visualizer track has no picture — just the controls
+              class={hasPicture() ? "w-full max-h-[50dvh] object-contain" : "w-full h-12"}
+              aria-label={`${isAudio() ? "Audio" : "Video"}: ${props.entry.title}`}
             />
+            {/* Buffered-from-cloud bar — seeking fetches only what it needs */}
+            <Show when={isCloudOnly() && buffered().length > 0}>
+              <div class="relative h-1 bg-white/10" aria-hidden="true">
+                <For each={buffered()}>
+                  {(span) => (
+                    <div
+                      class="absolute inset-y-0 bg-accent-cyan/60"
+                      style={{ left: `${span.start * 100}%`, width: `${(span.end - span.start) * 100}%` }}
+                    />
+                  )}
+                </For>
+              </div>
+            </Show>
             {/* Cloud streaming indicator */}
             <Show when={isCloudOnly()}>
               <div class="absolute top-2 right-2 flex items-center gap-1.5 bg-black/70 rounded px-2 py-1 text-xs font-mono text-accent-cyan/80 backdrop-blur-sm">
@@ -324,11 +734,31 @@ export default function DiaryDetail(props: DiaryDetailProps) {
           </div>
         </Show>
 
+        {/* Trim/split editor */}
+        <Show when={editing() && videoUrl()}>
+          <EntryEditor
+            entry={current()}
+            videoBlob={videoBlob()}
+            currentTime={currentTime()}
+            onSeek={(t) => {
+              if (videoRef) videoRef.currentTime = t;
+            }}
+            onPreview={handlePreview}
+            onRendered={handleRendered}
+            onClose={() => setEditing(false)}
+          />
+        </Show>
+
         {/* Metadata */}
         <div class="p-4 flex flex-col gap-3">
           <div class="flex flex-wrap gap-4 text-sm text-text-secondary font-mono">
             <span>{formatDate(props.entry.createdAt)} at {formatTime(props.entry.createdAt)}</span>
-            <span>Duration: {formatDuration(props.entry.duration)}</span>
+            <span>
+              Duration: {formatDuration(editedDuration(current().edit, current().duration))}
+              <Show when={current().edit}>
+                {" "}(edited from {formatDuration(current().duration)})
+              </Show>
+            </span>
             <Show when={videoBlob()}>
               <span>Size: {formatBytes(videoBlob()!.size)}</span>
             </Show>
@@ -337,34 +767,90 @@ export default function DiaryDetail(props: DiaryDetailProps) {
           {/* Storage badge + cloud sync status */}
           <div class="flex items-center gap-2 flex-wrap">
             <StorageBadge provider={props.entry.storageProvider} />
-            <Show when={props.entry.cloudSync}>
-              {(cloudSync) => (
+            <Show when={overallSyncStatus(props.entry)}>
+              {(status) => (
                 <span
                   class="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-mono border"
                   classList={{
                     "bg-accent-cyan/10 text-accent-cyan/70 border-accent-cyan/20":
-                      cloudSync().status === "synced",
+                      status() === "synced",
                     "bg-accent-amber/10 text-accent-amber/70 border-accent-amber/20":
-                      cloudSync().status === "cloud-only",
+                      status() === "cloud-only",
                     "bg-accent-red/10 text-accent-red/70 border-accent-red/20":
-                      cloudSync().status === "failed",
+                      status() === "failed",
                     "bg-text-secondary/10 text-text-secondary/70 border-text-secondary/20":
-                      cloudSync().status === "uploading" || cloudSync().status === "pending",
+                      status() === "uploading" || status() === "pending",
                   }}
                 >
-                  <Show when={cloudSync().status === "synced"}>Synced to cloud</Show>
-                  <Show when={cloudSync().status === "cloud-only"}>Cloud only</Show>
-                  <Show when={cloudSync().status === "uploading"}>Uploading...</Show>
-                  <Show when={cloudSync().status === "pending"}>Pending upload</Show>
-                  <Show when={cloudSync().status === "failed"}>Sync failed</Show>
+                  <Show when={status() === "synced"}>Synced to cloud</Show>
+                  <Show when={status() === "cloud-only"}>Cloud only</Show>
+                  <Show when={status() === "uploading"}>Uploading...</Show>
+                  <Show when={status() === "pending"}>Pending upload</Show>
+                  <Show when={status() === "failed"}>Sync failed</Show>
                 </span>
               )}
             </Show>
+            <Show when={canAutoSync(current()) && !hasCloudOnlyRecord(current())}>
+              <select
+                class="ml-auto bg-bg-primary border border-border-default rounded px-2 py-1 text-xs font-mono text-text-secondary focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30 cursor-pointer"
+                value={current().syncOverride ?? "rule"}
+                onChange={(e) => void handleSyncOverride(e.currentTarget.value)}
+                aria-label="Cloud sync for this entry"
+                title={isBackedUp(current()) ? "Changing this doesn't remove the existing cloud copies" : undefined}
+              >
+                <option value="rule">Sync by rule</option>
+                <option value="pin">Pin to cloud</option>
+                <option value="local-only">Keep local only</option>
+              </select>
+            </Show>
           </div>
 
-          <Show when={props.entry.tags.length > 0}>
+          {/* Where the entry is backed up — one row per cloud connection */}
+          <Show when={cloudStore.connections().length > 0}>
+            <div class="flex flex-col gap-1 p-2 rounded-md border border-border-default bg-bg-primary/50" role="list" aria-label="Cloud copies">
+              <For each={cloudStore.connections()}>
+                {(connection) => {
+                  const record = () => syncRecord(current(), connection.id);
+                  const canBackUp = () =>
+                    canAutoSync(current()) &&
+                    !hasCloudOnlyRecord(current()) &&
+                    (!record() || record()!.status === "failed");
+                  return (
+                    <div role="listitem" class="flex items-center gap-2 text-xs font-mono">
+                      <span class="text-text-primary truncate">{getConnectionLabel(connection)}</span>
+                      <span
+                        class="ml-auto shrink-0"
+                        classList={{
+                          "text-accent-cyan/70": record()?.status === "synced",
+                          "text-accent-amber/70": record()?.status === "cloud-only",
+                          "text-accent-red/70": record()?.status === "failed",
+                          "text-text-secondary/60": !record() || record()!.status === "pending" || record()!.status === "uploading",
+                        }}
+                        title={record()?.lastError}
+                      >
+                        {record() ? COPY_STATUS_LABELS[record()!.status] : "Not backed up"}
+                      </span>
+                      <Show when={canBackUp()}>
+                        <button
+                          class="shrink-0 px-2 py-0.5 rounded text-xs font-mono text-accent-cyan border border-accent-cyan/30 bg-accent-cyan/10 hover:bg-accent-cyan/20 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                          onClick={() => handleBackUp(connection.id)}
+                          disabled={!cloudStore.isSignedIn(connection.id)}
+                          title={cloudStore.isSignedIn(connection.id) ? undefined : "Sign in to this connection in Settings first"}
+                          type="button"
+                        >
+                          {record() ? "Retry" : "Back up"}
+                        </button>
+                      </Show>
+                    </div>
+                  );
+                }}
+              </For>
+            </div>
+          </Show>
+
+          <Show when={!editingDetails() && current().tags.length > 0}>
             <div class="flex flex-wrap gap-1.5" role="list" aria-label="Tags">
-              {props.entry.tags.map((tag) => (
+              {current().tags.map((tag) => (
                 <span role="listitem" class="px-2 py-0.5 rounded text-xs font-mono bg-accent-cyan/10 text-accent-cyan/70 border border-accent-cyan/20 max-w-[200px] truncate">
                   {tag}
                 </span>
@@ -372,11 +858,130 @@ export default function DiaryDetail(props: DiaryDetailProps) {
             </div>
           </Show>
 
+          {/* Title + tags editor */}
+          <Show when={editingDetails()}>
+            <div class="flex flex-col gap-3 p-3 rounded-md border border-border-default bg-bg-primary/50">
+              <div class="flex flex-col gap-1.5">
+                <label for="detail-title" class="text-xs text-text-secondary font-mono uppercase tracking-wider">
+                  Title
+                </label>
+                <input
+                  id="detail-title"
+                  type="text"
+                  value={titleInput()}
+                  onInput={(e) => setTitleInput(e.currentTarget.value)}
+                  class="bg-bg-elevated border border-border-default rounded-md px-3 py-2 text-sm text-text-primary placeholder:text-text-secondary/50 focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30 transition-colors"
+                />
+              </div>
+              <div class="flex flex-col gap-1.5">
+                <label for="detail-tags" class="text-xs text-text-secondary font-mono uppercase tracking-wider">
+                  Tags (comma separated)
+                </label>
+                <input
+                  id="detail-tags"
+                  type="text"
+                  value={tagsInput()}
+                  onInput={(e) => setTagsInput(e.currentTarget.value)}
+                  placeholder="personal, day-1, mission..."
+                  class="bg-bg-elevated border border-border-default rounded-md px-3 py-2 text-sm text-text-primary placeholder:text-text-secondary/50 focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30 transition-colors"
+                />
+              </div>
+              <div class="flex items-center gap-2">
+                <Button size="sm" onClick={() => void handleSaveDetails()} disabled={savingDetails()}>
+                  {savingDetails() ? "Saving..." : "Save"}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setEditingDetails(false)} disabled={savingDetails()}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </Show>
+
+          {/* Transcript */}
+          <div class="flex flex-col gap-2">
+            <div class="flex items-center justify-between gap-2">
+              <span class="text-xs font-mono font-bold uppercase tracking-wider text-text-secondary">
+                Transcript
+              </span>
+              <Show when={!transcript() && !isCloudOnly() && (!transcriptionJob() || transcriptionJob()!.stage === "failed")}>
+                <button
+                  class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer"
+                  onClick={() => transcriptionManager.queue(props.entry.id)}
+                  type="button"
+                >
+                  {transcriptionJob()?.stage === "failed" ? "Retry" : "Transcribe"}
+                </button>
+              </Show>
+            </div>
+
+            <Show
+              when={transcript()}
+              fallback={
+                <p class="text-xs font-mono text-text-secondary/60" role="status">
+                  <Show
+                    when={transcriptionJob()}
+                    fallback={
+                      isCloudOnly()
+                        ? "Not transcribed — the video isn't on this device"
+                        : "Not transcribed yet"
+                    }
+                  >
+                    {(job) => (
+                      <>
+                        <Show when={job().stage === "queued"}>
+                          <span class="animate-pulse">Waiting to transcribe...</span>
+                        </Show>
+                        <Show when={job().stage === "loading-model"}>
+                          <span class="animate-pulse">Loading speech model... {job().progress ?? 0}%</span>
+                        </Show>
+                        <Show when={job().stage === "transcribing"}>
+                          <span class="animate-pulse">Transcribing on this device...</span>
+                        </Show>
+                        <Show when={job().stage === "failed"}>
+                          <span class="text-accent-red/80">Transcription failed: {job().error}</span>
+                        </Show>
+                      </>
+                    )}
+                  </Show>
+                </p>
+              }
+            >
+              {(t) => (
+                <Show
+                  when={t().words.length > 0}
+                  fallback={<p class="text-xs font-mono text-text-secondary/60">No speech detected</p>}
+                >
+                  <p class="text-sm text-text-primary/90 leading-relaxed max-h-48 overflow-y-auto pr-1">
+                    <For each={t().words}>
+                      {(word) => (
+                        <>
+                          <button
+                            class="rounded px-0.5 -mx-0.5 hover:bg-accent-cyan/15 transition-colors cursor-pointer"
+                            classList={{
+                              "bg-accent-cyan/20 text-accent-cyan":
+                                currentTime() >= word.start && currentTime() < word.end,
+                            }}
+                            onClick={() => seekTo(word.start)}
+                            disabled={!videoUrl()}
+                            tabIndex={-1}
+                            type="button"
+                          >
+                            {word.text}
+                          </button>{" "}
+                        </>
+                      )}
+                    </For>
+                  </p>
+                </Show>
+              )}
+            </Show>
+          </div>
+
           {/* Actions */}
           <div class="flex flex-col gap-3 pt-2 border-t border-border-default mt-2">
             <div class="flex items-center gap-3">
-              <Show when={videoBlob()}>
-                <Button variant="secondary" size="sm" onClick={handleDownload}>
+              <Show when={videoBlob() || streamingSealed()}>
+                <Button variant="secondary" size="sm" onClick={() => void handleDownload()}>
                   Download
                 </Button>
               </Show>
@@ -385,6 +990,47 @@ export default function DiaryDetail(props: DiaryDetailProps) {
                   Download not available for cloud-only entries
                 </span>
               </Show>
+              <Show when={videoUrl() && !editing()}>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => {
+                    setEditing(true);
+                    void loadWholeVideo();
+                  }}
+                >
+                  Edit
+                </Button>
+              </Show>
+              <Show when={!editingDetails()}>
+                <Button variant="secondary" size="sm" onClick={startEditingDetails}>
+                  Rename
+                </Button>
+              </Show>
+              <Show when={canKeepOnDevice()}>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => void handleKeepOnDevice(!offloadManager.isKept(props.entry.id))}
+                  disabled={offloadManager.isRehydrating(props.entry.id)}
+                >
+                  {offloadManager.isRehydrating(props.entry.id)
+                    ? "Downloading..."
+                    : offloadManager.isKept(props.entry.id)
+                      ? "Allow Offload"
+                      : "Keep on Device"}
+                </Button>
+              </Show>
+              <Show when={!isCloudOnly() && !editing() && moveTargets().length > 0}>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setShowMoveMenu((v) => !v)}
+                  disabled={moving() || migrationManager.isRunning()}
+                >
+                  {moving() ? "Moving..." : "Move to…"}
+                </Button>
+              </Show>
               <Show when={!showDeleteConfirm()}>
                 <Button
                   variant="danger"
@@ -396,6 +1042,35 @@ export default function DiaryDetail(props: DiaryDetailProps) {
               </Show>
             </div>
 
+            {/* Move targets */}
+            <Show when={showMoveMenu() && !moving()}>
+              <div class="flex flex-col gap-2 p-3 rounded-md border border-border-default bg-bg-primary/50">
+                <span class="text-xs font-mono text-text-secondary/60">
+                  The recording is copied and checked, then removed from {getStorageProviderLabel(current().storageProvider)}.
+                </span>
+                <div class="flex items-center flex-wrap gap-2">
+                  <For each={moveTargets()}>
+                    {(name) => (
+                      <button
+                        class="px-3 py-1.5 rounded text-xs font-mono font-medium text-accent-cyan border border-accent-cyan/40 hover:bg-accent-cyan/10 transition-colors cursor-pointer"
+                        onClick={() => void handleMove(name)}
+                        type="button"
+                      >
+                        {getStorageProviderLabel(name)}
+                      </button>
+                    )}
+                  </For>
+                  <button
+                    class="px-3 py-1.5 rounded text-xs font-mono font-medium text-text-secondary hover:text-text-primary bg-bg-elevated hover:bg-bg-elevated/80 border border-border-default transition-colors cursor-pointer"
+                    onClick={() => setShowMoveMenu(false)}
+                    type="button"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </Show>
+
             {/* Inline delete confirmation */}
             <Show when={showDeleteConfirm()}>
               <div class="flex flex-col gap-3 p-3 rounded-md border border-accent-red/30 bg-accent-red/5">
@@ -415,13 +1090,10 @@ export default function DiaryDetail(props: DiaryDetailProps) {
                     </span>
                     <span class="text-xs font-mono text-text-secondary/60">
                       <Show
-                        when={
-                          props.entry.cloudSync?.videoFileRef ||
-                          props.entry.cloudSync?.metaFileRef
-                        }
+                        when={cloudCopyLabels()}
                         fallback="This action cannot be undone."
                       >
-                        This will also delete the cloud copy from Google Drive. This action cannot be undone.
+                        This will also delete the cloud copies in {cloudCopyLabels()}. This action cannot be undone.
                       </Show>
                     </span>
                   </div>
@@ -1,13 +1,16 @@
 import { createSignal } from "solid-js";
+import type { MediaKind } from "~/models/types";
 
 interface DiarySearchProps {
   onSearch: (query: string) => void;
   onFilterDate: (filter: "all" | "today" | "week") => void;
+  onFilterKind: (filter: MediaKind | "all") => void;
 }
 
 export default function DiarySearch(props: DiarySearchProps) {
   const [query, setQuery] = createSignal("");
   const [dateFilter, setDateFilter] = createSignal<"all" | "today" | "week">("all");
+  const [kindFilter, setKindFilter] = createSignal<MediaKind | "all">("all");
 
   function handleInput(value: string) {
     setQuery(value);
@@ -19,6 +22,11 @@ export default function DiarySearch(props: DiarySearchProps) {
     props.onFilterDate(filter);
   }
 
+  function handleKindFilter(filter: MediaKind | "all") {
+    setKindFilter(filter);
+    props.onFilterKind(filter);
+  }
+
   return (
     <div class="flex flex-col sm:flex-row items-stretch sm:items-center gap-3 w-full" role="search" aria-label="Search diary entries">
       {/* Search input */}
@@ -40,7 +48,7 @@ export default function DiarySearch(props: DiarySearchProps) {
           type="search"
           value={query()}
           onInput={(e) => handleInput(e.currentTarget.value)}
-          placeholder="Search logs..."
+          placeholder="Search logs and transcripts..."
           aria-label="Search diary entries"
           class="w-full bg-bg-elevated border border-border-default rounded-md pl-9 pr-3 py-2 text-sm text-text-primary placeholder:text-text-secondary/50 focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30 transition-colors font-mono"
         />
@@ -66,6 +74,27 @@ export default function DiarySearch(props: DiarySearchProps) {
           );
         })}
       </div>
+
+      {/* Media kind filter pills */}
+      <div class="flex gap-1.5" role="group" aria-label="Filter by type">
+        {(["all", "video", "audio"] as const).map((filter) => {
+          const label = filter === "all" ? "Any" : filter === "video" ? "Video" : "Audio";
+          return (
+            <button
+              class={`px-3 py-1.5 rounded-md text-xs font-mono transition-all duration-150 cursor-pointer border focus:outline-none focus:ring-2 focus:ring-accent-cyan/50 ${
+                kindFilter() === filter
+                  ? "border-accent-cyan/60 bg-accent-cyan/20 text-accent-cyan"
+                  : "border-border-default bg-bg-elevated text-text-secondary hover:text-text-primary"
+              }`}
+              onClick={() => handleKindFilter(filter)}
+              aria-pressed={kindFilter() === filter}
+              aria-label={`Type: ${label}`}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
     </div>
   );
 }
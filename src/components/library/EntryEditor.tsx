@@ -0,0 +1,453 @@
+import { For, Show, createEffect, createMemo, createSignal, onCleanup } from "solid-js";
+import type { DiaryEntry, EditSegment } from "~/models/types";
+import { formatDuration } from "~/utils/time";
+import { generateThumbnailStrip } from "~/utils/video";
+import { editManager } from "~/services/editor/manager";
+import { MIN_SEGMENT, normalizeSegments } from "~/services/editor/segments";
+import Button from "~/components/ui/Button";
+import Waveform from "~/components/ui/Waveform";
+import { toastStore } from "~/stores/toast";
+
+interface EntryEditorProps {
+  entry: DiaryEntry;
+  /** The entry's video, if it's on this device — needed for the strip and rendering */
+  videoBlob: Blob | null;
+  /** Player position in seconds */
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  /** Play the draft with cuts applied (segments), or stop previewing (null) */
+  onPreview: (segments: EditSegment[] | null) => void;
+  /** Called after the edit was rendered into a new video */
+  onRendered: (blob: Blob) => void;
+  onClose: () => void;
+}
+
+/** A stretch of the timeline between two boundaries (in, splits, out) */
+interface Piece {
+  start: number;
+  end: number;
+  keep: boolean;
+}
+
+const THUMBNAIL_COUNT = 10;
+
+/** Rebuild editable pieces from a saved edit — gaps between kept spans become cut pieces */
+function piecesFromEdit(segments: EditSegment[] | undefined, duration: number): Piece[] {
+  if (!segments || segments.length === 0) {
+    return [{ start: 0, end: duration, keep: true }];
+  }
+  const pieces: Piece[] = [];
+  for (const s of segments) {
+    const last = pieces[pieces.length - 1];
+    if (last && s.start > last.end) {
+      pieces.push({ start: last.end, end: s.start, keep: false });
+    }
+    pieces.push({ start: s.start, end: s.end, keep: true });
+  }
+  return pieces;
+}
+
+/**
+ * Timeline editor for trimming and splitting a saved entry.
+ *
+ * In/out points trim the ends; splits divide the timeline into pieces that
+ * can each be kept or cut. Saving stores the kept pieces as the entry's
+ * edit; rendering bakes a saved edit into a new video.
+ */
+export default function EntryEditor(props: EntryEditorProps) {
+  const duration = () => props.entry.duration;
+  const [pieces, setPieces] = createSignal<Piece[]>(
+    piecesFromEdit(props.entry.edit?.segments, props.entry.duration),
+  );
+  const [dirty, setDirty] = createSignal(false);
+  const [saving, setSaving] = createSignal(false);
+  const [previewing, setPreviewing] = createSignal(false);
+  const [strip, setStrip] = createSignal<string[]>([]);
+
+  let timelineRef: HTMLDivElement | undefined;
+
+  const inPoint = () => pieces()[0].start;
+  const outPoint = () => pieces()[pieces().length - 1].end;
+  const segments = createMemo(() =>
+    normalizeSegments(
+      pieces().filter((p) => p.keep).map(({ start, end }) => ({ start, end })),
+      duration(),
+    ),
+  );
+  const resultDuration = () => segments().reduce((sum, s) => sum + (s.end - s.start), 0);
+  const job = () => {
+    const j = editManager.renderJob();
+    return j?.entryId === props.entry.id ? j : null;
+  };
+
+  // Thumbnail strip — regenerated if the video changes (e.g. after a render).
+  // Audio entries show their waveform instead.
+  createEffect(() => {
+    const blob = props.videoBlob;
+    setStrip([]);
+    if (!blob || props.entry.mediaKind === "audio") return;
+    let cancelled = false;
+    onCleanup(() => { cancelled = true; });
+    void generateThumbnailStrip(blob, duration(), THUMBNAIL_COUNT).then((frames) => {
+      if (!cancelled) setStrip(frames);
+    });
+  });
+
+  onCleanup(() => props.onPreview(null));
+
+  function update(next: Piece[]) {
+    setPieces(next);
+    setDirty(true);
+    if (previewing()) {
+      setPreviewing(false);
+      props.onPreview(null);
+    }
+  }
+
+  const pct = (t: number) => `${(t / Math.max(duration(), 0.001)) * 100}%`;
+
+  function timeAt(clientX: number): number {
+    if (!timelineRef) return 0;
+    const rect = timelineRef.getBoundingClientRect();
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return fraction * duration();
+  }
+
+  // --- Edit operations ---
+
+  function setIn(t: number) {
+    if (t > outPoint() - MIN_SEGMENT) return;
+    // Pieces wholly before the new in point go; the first remaining one starts there
+    const next = pieces()
+      .filter((p) => p.end > t + MIN_SEGMENT / 2)
+      .map((p, i) => (i === 0 ? { ...p, start: t } : p));
+    update(next);
+  }
+
+  function setOut(t: number) {
+    if (t < inPoint() + MIN_SEGMENT) return;
+    const next = pieces().filter((p) => p.start < t - MIN_SEGMENT / 2);
+    next[next.length - 1] = { ...next[next.length - 1], end: t };
+    update(next);
+  }
+
+  function splitAt(t: number) {
+    const index = pieces().findIndex(
+      (p) => t > p.start + MIN_SEGMENT && t < p.end - MIN_SEGMENT,
+    );
+    if (index === -1) {
+      toastStore.info("Move the playhead inside the clip, away from other splits");
+      return;
+    }
+    const p = pieces()[index];
+    const next = [...pieces()];
+    next.splice(index, 1, { ...p, end: t }, { ...p, start: t });
+    update(next);
+  }
+
+  /** Remove the split between piece `index` and the next one */
+  function joinAt(index: number) {
+    const next = [...pieces()];
+    const [a, b] = next.slice(index, index + 2);
+    next.splice(index, 2, { start: a.start, end: b.end, keep: a.keep || b.keep });
+    update(next);
+  }
+
+  function toggle(index: number) {
+    const next = pieces().map((p, i) => (i === index ? { ...p, keep: !p.keep } : p));
+    if (!next.some((p) => p.keep)) {
+      toastStore.info("Keep at least one part of the video");
+      return;
+    }
+    update(next);
+  }
+
+  function reset() {
+    update([{ start: 0, end: duration(), keep: true }]);
+  }
+
+  // --- Handles ---
+
+  function startDrag(e: PointerEvent, edge: "in" | "out") {
+    e.preventDefault();
+    e.stopPropagation();
+    const target = e.currentTarget as HTMLElement;
+    target.setPointerCapture(e.pointerId);
+    const move = (ev: PointerEvent) => {
+      const t = timeAt(ev.clientX);
+      if (edge === "in") setIn(t);
+      else setOut(t);
+      props.onSeek(t);
+    };
+    const up = () => {
+      target.removeEventListener("pointermove", move);
+      target.removeEventListener("pointerup", up);
+    };
+    target.addEventListener("pointermove", move);
+    target.addEventListener("pointerup", up);
+  }
+
+  function nudge(e: KeyboardEvent, edge: "in" | "out") {
+    const step = e.shiftKey ? 1 : 0.1;
+    const delta = e.key === "ArrowLeft" ? -step : e.key === "ArrowRight" ? step : 0;
+    if (delta === 0) return;
+    e.preventDefault();
+    if (edge === "in") setIn(Math.max(0, inPoint() + delta));
+    else setOut(Math.min(duration(), outPoint() + delta));
+  }
+
+  // --- Actions ---
+
+  function handlePreview() {
+    if (previewing()) {
+      setPreviewing(false);
+      props.onPreview(null);
+    } else {
+      setPreviewing(true);
+      props.onPreview(segments());
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await editManager.saveEdit(props.entry.id, segments());
+      setDirty(false);
+      toastStore.success("Edit saved");
+    } catch (err) {
+      console.error("[EntryEditor] Failed to save edit:", err);
+      toastStore.error(err instanceof Error ? err.message : "Failed to save edit");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRender() {
+    props.onPreview(null);
+    setPreviewing(false);
+    try {
+      const blob = await editManager.render(props.entry.id);
+      toastStore.success("Edit rendered into a new video");
+      props.onRendered(blob);
+      props.onClose();
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") {
+        toastStore.info("Render cancelled");
+        return;
+      }
+      console.error("[EntryEditor] Render failed:", err);
+      toastStore.error(err instanceof Error ? err.message : "Render failed");
+    }
+  }
+
+  return (
+    <div class="flex flex-col gap-3 p-4 border-b border-border-default bg-bg-primary/40">
+      <div class="flex items-center justify-between gap-2">
+        <span class="text-xs font-mono font-bold uppercase tracking-wider text-text-secondary">
+          Edit
+        </span>
+        <span class="text-xs font-mono text-text-secondary/70">
+          Result {formatDuration(resultDuration())} of {formatDuration(duration())}
+        </span>
+      </div>
+
+      {/* Timeline */}
+      <div
+        ref={timelineRef}
+        class="relative h-14 rounded-md overflow-hidden bg-bg-elevated border border-border-default cursor-pointer select-none touch-none"
+        onClick={(e) => props.onSeek(timeAt(e.clientX))}
+        role="group"
+        aria-label="Timeline"
+      >
+        {/* Thumbnail strip, or the waveform of an audio entry */}
+        <Show
+          when={props.entry.mediaKind !== "audio"}
+          fallback={<Waveform peaks={props.entry.waveform} class="absolute inset-0 px-1.5 py-1" />}
+        >
+          <div class="absolute inset-0 flex">
+            <For each={strip()}>
+              {(src) => <img src={src} alt="" class="h-full flex-1 min-w-0 object-cover" draggable={false} />}
+            </For>
+          </div>
+        </Show>
+
+        {/* Trimmed-off ends */}
+        <div class="absolute inset-y-0 left-0 bg-black/75" style={{ width: pct(inPoint()) }} />
+        <div
+          class="absolute inset-y-0 right-0 bg-black/75"
+          style={{ width: `calc(100% - ${pct(outPoint())})` }}
+        />
+
+        {/* Pieces */}
+        <For each={pieces()}>
+          {(p) => (
+            <div
+              class="absolute inset-y-0 border-y-2 pointer-events-none"
+              classList={{
+                "border-accent-cyan/70": p.keep,
+                "border-accent-red/60 bg-black/70": !p.keep,
+              }}
+              style={{ left: pct(p.start), width: pct(p.end - p.start) }}
+            />
+          )}
+        </For>
+
+        {/* Split markers */}
+        <For each={pieces().slice(1)}>
+          {(p) => (
+            <div
+              class="absolute inset-y-0 w-0.5 -ml-px bg-accent-amber pointer-events-none"
+              style={{ left: pct(p.start) }}
+            />
+          )}
+        </For>
+
+        {/* In/out handles */}
+        <div
+          class="absolute inset-y-0 w-3 -ml-1.5 bg-accent-cyan rounded-sm cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-accent-cyan/60"
+          style={{ left: pct(inPoint()) }}
+          onPointerDown={(e) => startDrag(e, "in")}
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => nudge(e, "in")}
+          role="slider"
+          tabIndex={0}
+          aria-label="In point"
+          aria-valuemin={0}
+          aria-valuemax={duration()}
+          aria-valuenow={inPoint()}
+          aria-valuetext={formatDuration(inPoint())}
+        />
+        <div
+          class="absolute inset-y-0 w-3 -ml-1.5 bg-accent-cyan rounded-sm cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-accent-cyan/60"
+          style={{ left: pct(outPoint()) }}
+          onPointerDown={(e) => startDrag(e, "out")}
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => nudge(e, "out")}
+          role="slider"
+          tabIndex={0}
+          aria-label="Out point"
+          aria-valuemin={0}
+          aria-valuemax={duration()}
+          aria-valuenow={outPoint()}
+          aria-valuetext={formatDuration(outPoint())}
+        />
+
+        {/* Playhead */}
+        <div
+          class="absolute inset-y-0 w-0.5 -ml-px bg-white pointer-events-none"
+          style={{ left: pct(Math.min(props.currentTime, duration())) }}
+        />
+      </div>
+
+      {/* Timeline tools */}
+      <div class="flex flex-wrap items-center gap-2">
+        <Button variant="secondary" size="sm" onClick={() => setIn(props.currentTime)} disabled={job() !== null}>
+          Set In
+        </Button>
+        <Button variant="secondary" size="sm" onClick={() => setOut(props.currentTime)} disabled={job() !== null}>
+          Set Out
+        </Button>
+        <Button variant="secondary" size="sm" onClick={() => splitAt(props.currentTime)} disabled={job() !== null}>
+          Split
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handlePreview} disabled={job() !== null}>
+          {previewing() ? "Stop Preview" : "Preview"}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={reset} disabled={job() !== null}>
+          Reset
+        </Button>
+      </div>
+
+      {/* Pieces list */}
+      <Show when={pieces().length > 1}>
+        <ul class="flex flex-col gap-1" aria-label="Parts">
+          <For each={pieces()}>
+            {(p, i) => (
+              <li class="flex items-center justify-between gap-2 text-xs font-mono">
+                <button
+                  class="text-text-secondary hover:text-text-primary cursor-pointer"
+                  onClick={() => props.onSeek(p.start)}
+                  type="button"
+                >
+                  {formatDuration(p.start)} – {formatDuration(p.end)}
+                </button>
+                <div class="flex items-center gap-2">
+                  <Show when={i() < pieces().length - 1}>
+                    <button
+                      class="px-2 py-1 rounded text-text-secondary/70 hover:text-text-primary cursor-pointer"
+                      onClick={() => joinAt(i())}
+                      disabled={job() !== null}
+                      type="button"
+                      title="Remove the split after this part"
+                    >
+                      Join next
+                    </button>
+                  </Show>
+                  <button
+                    class="px-2 py-1 rounded border transition-colors cursor-pointer min-w-[56px]"
+                    classList={{
+                      "border-accent-cyan/40 text-accent-cyan/80 hover:bg-accent-cyan/10": p.keep,
+                      "border-accent-red/40 text-accent-red/80 hover:bg-accent-red/10": !p.keep,
+                    }}
+                    onClick={() => toggle(i())}
+                    disabled={job() !== null}
+                    aria-pressed={p.keep}
+                    type="button"
+                  >
+                    {p.keep ? "Keep" : "Cut"}
+                  </button>
+                </div>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      {/* Render progress */}
+      <Show when={job()}>
+        {(j) => (
+          <div class="flex items-center gap-3">
+            <div class="flex-1 h-1.5 bg-bg-primary rounded-full overflow-hidden">
+              <div
+                class="h-full rounded-full bg-accent-cyan transition-all"
+                style={{ width: `${Math.round(j().progress * 100)}%` }}
+              />
+            </div>
+            <span class="text-xs font-mono text-text-secondary" role="status">
+              Rendering {Math.round(j().progress * 100)}%
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => editManager.cancelRender()}>
+              Cancel
+            </Button>
+          </div>
+        )}
+      </Show>
+      <Show when={job()}>
+        <p class="text-[10px] font-mono text-accent-amber/80">
+          Rendering plays the edit in real time — keep this tab open and visible.
+        </p>
+      </Show>
+
+      {/* Actions */}
+      <div class="flex flex-wrap items-center justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => props.onClose()} disabled={job() !== null}>
+          {dirty() ? "Discard" : "Done"}
+        </Button>
+        <Show when={!dirty() && props.entry.edit && props.videoBlob}>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleRender}
+            disabled={job() !== null || editManager.renderJob() !== null}
+            title="Replace the video with the edited version"
+          >
+            Render Video
+          </Button>
+        </Show>
+        <Button variant="primary" size="sm" onClick={handleSave} disabled={!dirty() || saving() || job() !== null}>
+          {saving() ? "Saving..." : "Save Edit"}
+        </Button>
+      </div>
+    </div>
+  );
+}
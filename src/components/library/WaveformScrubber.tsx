@@ -0,0 +1,79 @@
+import { formatDuration } from "~/utils/time";
+import Waveform from "~/components/ui/Waveform";
+
+interface WaveformScrubberProps {
+  /** The entry's waveform — flat bars stand in when it has none */
+  waveform: number[] | undefined;
+  duration: number;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+}
+
+/** Seconds the arrow keys step */
+const KEY_STEP = 5;
+
+/**
+ * Seek bar for audio entries: click or drag across the waveform to jump
+ * there. The part already played is lit.
+ */
+export default function WaveformScrubber(props: WaveformScrubberProps) {
+  let barRef: HTMLDivElement | undefined;
+  let dragging = false;
+
+  const progress = () => (props.duration > 0 ? Math.min(1, props.currentTime / props.duration) : 0);
+
+  function timeAt(clientX: number): number {
+    const rect = barRef!.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return fraction * props.duration;
+  }
+
+  function handlePointerDown(e: PointerEvent) {
+    if (!barRef || props.duration <= 0) return;
+    dragging = true;
+    barRef.setPointerCapture(e.pointerId);
+    props.onSeek(timeAt(e.clientX));
+  }
+
+  function handlePointerMove(e: PointerEvent) {
+    if (dragging) props.onSeek(timeAt(e.clientX));
+  }
+
+  function handlePointerUp(e: PointerEvent) {
+    if (!dragging || !barRef) return;
+    dragging = false;
+    barRef.releasePointerCapture(e.pointerId);
+  }
+
+  function handleKeyDown(e: KeyboardEvent) {
+    const step = e.key === "ArrowRight" ? KEY_STEP : e.key === "ArrowLeft" ? -KEY_STEP : 0;
+    if (!step) return;
+    e.preventDefault();
+    props.onSeek(Math.min(props.duration, Math.max(0, props.currentTime + step)));
+  }
+
+  return (
+    <div class="flex items-center gap-3 px-4 py-3">
+      <span class="text-xs font-mono text-text-secondary w-10 text-right">{formatDuration(props.currentTime)}</span>
+      <div
+        ref={barRef}
+        class="flex-1 h-16 cursor-pointer select-none touch-none rounded focus:outline-none focus:ring-2 focus:ring-accent-cyan/50"
+        role="slider"
+        tabIndex={0}
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(props.duration)}
+        aria-valuenow={Math.round(props.currentTime)}
+        aria-valuetext={formatDuration(props.currentTime)}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+      >
+        <Waveform peaks={props.waveform} progress={progress()} class="h-full" />
+      </div>
+      <span class="text-xs font-mono text-text-secondary w-10">{formatDuration(props.duration)}</span>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { createSignal, Show } from "solid-js";
 import type { StorageProviderType } from "~/models/types";
 import { isOPFSAvailable } from "~/services/storage/opfs";
+import { isIndexedDBAvailable } from "~/services/storage/indexeddb";
 import { isFilesystemAvailable } from "~/services/storage/filesystem";
 import { activateFilesystem } from "~/services/init";
 
@@ -12,9 +13,10 @@ interface StorageStepProps {
 
 export default function StorageStep(props: StorageStepProps) {
   const opfsAvailable = isOPFSAvailable();
+  const idbAvailable = isIndexedDBAvailable();
   const fsAvailable = isFilesystemAvailable();
   const [selected, setSelected] = createSignal<StorageProviderType>(
-    opfsAvailable ? "opfs" : "ephemeral",
+    opfsAvailable ? "opfs" : idbAvailable ? "indexeddb" : "ephemeral",
   );
   const [fsError, setFsError] = createSignal<string | null>(null);
   const [fsFolder, setFsFolder] = createSignal<string | null>(null);
@@ -104,6 +106,45 @@ export default function StorageStep(props: StorageStepProps) {
           </div>
         </button>
 
+        {/* IndexedDB option */}
+        <button
+          class={`w-full text-left p-4 rounded-lg border transition-all cursor-pointer ${
+            selected() === "indexeddb"
+              ? "border-accent-cyan/60 bg-accent-cyan/5"
+              : "border-border-default bg-bg-secondary hover:border-border-default/80"
+          } ${!idbAvailable ? "opacity-40 cursor-not-allowed" : ""}`}
+          onClick={() => idbAvailable && setSelected("indexeddb")}
+          disabled={!idbAvailable}
+        >
+          <div class="flex items-start gap-3">
+            <div
+              class={`mt-0.5 w-4 h-4 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${
+                selected() === "indexeddb"
+                  ? "border-accent-cyan"
+                  : "border-text-secondary/40"
+              }`}
+            >
+              {selected() === "indexeddb" && (
+                <div class="w-2 h-2 rounded-full bg-accent-cyan" />
+              )}
+            </div>
+            <div class="flex flex-col gap-1">
+              <span class="text-sm font-medium text-text-primary">
+                Browser Database (IndexedDB)
+                {!idbAvailable && (
+                  <span class="text-accent-amber text-xs ml-2">
+                    Not available in this browser
+                  </span>
+                )}
+              </span>
+              <span class="text-xs text-text-secondary font-mono">
+                Recordings persist on your device across sessions. Works in
+                browsers without OPFS, a little slower with long videos.
+              </span>
+            </div>
+          </div>
+        </button>
+
         {/* Filesystem option */}
         <button
           class={`w-full text-left p-4 rounded-lg border transition-all cursor-pointer ${
@@ -0,0 +1,243 @@
+import { createEffect, createSignal, For, onCleanup, onMount, Show } from "solid-js";
+import { recorderStore } from "~/stores/recorder";
+import { settingsStore } from "~/stores/settings";
+import { listCameras, listMicrophones } from "~/services/recorder/camera";
+import type { CameraDevice, MicrophoneDevice } from "~/services/recorder/camera";
+import { GATE_OFF_DB } from "~/services/recorder/audio-processing";
+import type { AudioProcessing, MicrophoneSettings } from "~/models/types";
+import LevelMeter from "./LevelMeter";
+
+interface DeviceControlsProps {
+  onCameraChange: (deviceId: string | null) => void;
+  onMicrophoneChange: (deviceId: string | null) => void;
+  /** The selected microphone's settings changed — constraints and turning processing on or off need a new stream */
+  onMicrophoneSettingsChange: (updates: Partial<MicrophoneSettings>) => void;
+  /** The mic's latest peak level, 0–1 */
+  readPeak: () => number;
+}
+
+const selectClass =
+  "bg-bg-primary border border-border-default rounded-md px-2 py-1.5 text-xs font-mono text-text-primary max-w-[14rem] truncate focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed";
+
+const checkboxLabelClass = "flex items-center gap-1.5 text-xs font-mono text-text-secondary cursor-pointer";
+
+/** High-pass cutoffs offered, in Hz (0 = off) */
+const HIGH_PASS_OPTIONS = [0, 60, 80, 120, 200];
+
+/** Value the "browser default" options stand for in a <select> */
+const DEFAULT_DEVICE = "";
+
+/**
+ * Camera and microphone pickers, the selected mic's settings (the browser's
+ * echo cancellation, noise suppression and auto gain, and VidLog's
+ * processing chain), and its level meter. Choices are saved per device.
+ *
+ * Devices and constraints can only change between recordings; the chain's
+ * levels can be tuned while recording too.
+ */
+export default function DeviceControls(props: DeviceControlsProps) {
+  const [cameras, setCameras] = createSignal<CameraDevice[]>([]);
+  const [microphones, setMicrophones] = createSignal<MicrophoneDevice[]>([]);
+  const [expanded, setExpanded] = createSignal(false);
+
+  const canSwitchDevice = () => {
+    const status = recorderStore.status();
+    return status === "ready" || status === "idle" || status === "error";
+  };
+  const canTune = () => recorderStore.status() !== "stopped";
+  const showMeter = () => {
+    const status = recorderStore.status();
+    return status === "ready" || status === "recording" || status === "paused";
+  };
+
+  const mic = () => settingsStore.getMicrophoneSettings(settingsStore.settings().microphoneDeviceId);
+  const processing = () => mic().processing;
+
+  async function refreshDevices() {
+    try {
+      const [cams, mics] = await Promise.all([listCameras(), listMicrophones()]);
+      setCameras(cams);
+      setMicrophones(mics);
+    } catch (err) {
+      console.warn("[DeviceControls] Could not list devices:", err);
+    }
+  }
+
+  // Labels only appear once access is granted, so list again whenever a new stream opens
+  createEffect(() => {
+    recorderStore.stream();
+    void refreshDevices();
+  });
+
+  const onDeviceChange = () => void refreshDevices();
+  onMount(() => navigator.mediaDevices?.addEventListener("devicechange", onDeviceChange));
+  onCleanup(() => navigator.mediaDevices?.removeEventListener("devicechange", onDeviceChange));
+
+  function updateProcessing(updates: Partial<AudioProcessing>) {
+    props.onMicrophoneSettingsChange({ processing: { ...processing(), ...updates } });
+  }
+
+  return (
+    <div class="flex flex-col gap-3 w-full max-w-4xl px-2 mt-3">
+      <div class="flex flex-wrap items-center gap-2">
+        <Show when={recorderStore.source() !== "audio"}>
+          <select
+            class={selectClass}
+            aria-label="Camera"
+            disabled={!canSwitchDevice()}
+            onChange={(e) => props.onCameraChange(e.currentTarget.value || null)}
+          >
+            <option value={DEFAULT_DEVICE}>Default camera</option>
+            {/* Options are selected one by one: the lists arrive after the select is created */}
+            <For each={cameras()}>
+              {(camera) => (
+                <option value={camera.deviceId} selected={camera.deviceId === settingsStore.settings().cameraDeviceId}>
+                  {camera.label}
+                </option>
+              )}
+            </For>
+          </select>
+        </Show>
+
+        <select
+          class={selectClass}
+          aria-label="Microphone"
+          disabled={!canSwitchDevice()}
+          onChange={(e) => props.onMicrophoneChange(e.currentTarget.value || null)}
+        >
+          <option value={DEFAULT_DEVICE}>Default microphone</option>
+          <For each={microphones()}>
+            {(microphone) => (
+              <option
+                value={microphone.deviceId}
+                selected={microphone.deviceId === settingsStore.settings().microphoneDeviceId}
+              >
+                {microphone.label}
+              </option>
+            )}
+          </For>
+        </select>
+
+        <button
+          class="px-3 py-1.5 rounded-md text-xs font-mono transition-all duration-150 cursor-pointer border border-border-default bg-bg-elevated text-text-secondary hover:text-text-primary hover:border-text-secondary/40"
+          aria-expanded={expanded()}
+          aria-controls="recorder-audio-settings"
+          onClick={() => setExpanded((open) => !open)}
+        >
+          Audio {expanded() ? "▴" : "▾"}
+        </button>
+
+        <Show when={showMeter()}>
+          <LevelMeter readPeak={props.readPeak} />
+        </Show>
+      </div>
+
+      <Show when={expanded()}>
+        <div
+          id="recorder-audio-settings"
+          class="flex flex-col gap-3 p-3 rounded-lg border border-border-default bg-bg-secondary"
+        >
+          {/* The browser's own processing — applied when the mic is opened */}
+          <div class="flex flex-wrap items-center gap-x-4 gap-y-2" role="group" aria-label="Browser audio processing">
+            <label class={checkboxLabelClass}>
+              <input
+                type="checkbox"
+                checked={mic().echoCancellation}
+                disabled={!canSwitchDevice()}
+                onChange={(e) => props.onMicrophoneSettingsChange({ echoCancellation: e.currentTarget.checked })}
+              />
+              Echo cancellation
+            </label>
+            <label class={checkboxLabelClass}>
+              <input
+                type="checkbox"
+                checked={mic().noiseSuppression}
+                disabled={!canSwitchDevice()}
+                onChange={(e) => props.onMicrophoneSettingsChange({ noiseSuppression: e.currentTarget.checked })}
+              />
+              Noise suppression
+            </label>
+            <label class={checkboxLabelClass}>
+              <input
+                type="checkbox"
+                checked={mic().autoGainControl}
+                disabled={!canSwitchDevice()}
+                onChange={(e) => props.onMicrophoneSettingsChange({ autoGainControl: e.currentTarget.checked })}
+              />
+              Auto gain
+            </label>
+          </div>
+
+          {/* VidLog's processing chain */}
+          <div class="flex flex-wrap items-center gap-x-4 gap-y-2" role="group" aria-label="Audio processing">
+            <label class={checkboxLabelClass} title="High-pass, noise gate, compressor and gain, applied before recording">
+              <input
+                type="checkbox"
+                checked={processing().enabled}
+                disabled={!canSwitchDevice()}
+                onChange={(e) => updateProcessing({ enabled: e.currentTarget.checked })}
+              />
+              Process audio
+            </label>
+
+            <Show when={processing().enabled}>
+              <label class={checkboxLabelClass} title="Cuts rumble and handling noise below the cutoff">
+                High-pass
+                <select
+                  class={selectClass}
+                  value={processing().highPassHz}
+                  disabled={!canTune()}
+                  onChange={(e) => updateProcessing({ highPassHz: Number(e.currentTarget.value) })}
+                >
+                  <For each={HIGH_PASS_OPTIONS}>{(hz) => <option value={hz}>{hz ? `${hz} Hz` : "Off"}</option>}</For>
+                </select>
+              </label>
+
+              <label class={checkboxLabelClass} title="Mutes the mic while it's quieter than the threshold">
+                Gate
+                <input
+                  type="range"
+                  min={GATE_OFF_DB}
+                  max="-20"
+                  step="1"
+                  value={processing().gateThresholdDb}
+                  disabled={!canTune()}
+                  onInput={(e) => updateProcessing({ gateThresholdDb: Number(e.currentTarget.value) })}
+                  class="w-20 accent-accent-cyan"
+                />
+                <span class="w-12">
+                  {processing().gateThresholdDb <= GATE_OFF_DB ? "Off" : `${processing().gateThresholdDb} dB`}
+                </span>
+              </label>
+
+              <label class={checkboxLabelClass} title="Evens out loud and quiet speech">
+                <input
+                  type="checkbox"
+                  checked={processing().compressor}
+                  disabled={!canTune()}
+                  onChange={(e) => updateProcessing({ compressor: e.currentTarget.checked })}
+                />
+                Compressor
+              </label>
+
+              <label class={checkboxLabelClass}>
+                Gain
+                <input
+                  type="range"
+                  min="-12"
+                  max="12"
+                  step="1"
+                  value={processing().gainDb}
+                  disabled={!canTune()}
+                  onInput={(e) => updateProcessing({ gainDb: Number(e.currentTarget.value) })}
+                  class="w-20 accent-accent-cyan"
+                />
+                <span class="w-12">{processing().gainDb > 0 ? "+" : ""}{processing().gainDb} dB</span>
+              </label>
+            </Show>
+          </div>
+        </div>
+      </Show>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { createSignal, onCleanup, onMount, Show } from "solid-js";
+
+interface LevelMeterProps {
+  /** The latest peak level, 0–1 — polled every animation frame */
+  readPeak: () => number;
+}
+
+/** dBFS at the meter's left end */
+const FLOOR_DB = -60;
+
+/** Peaks this close to full scale count as clipping */
+const CLIP_LEVEL = 0.99;
+
+/** How long the clipping warning stays up after the last clipped peak */
+const CLIP_HOLD_MS = 1500;
+
+/** How long the peak marker holds before it falls back */
+const PEAK_HOLD_MS = 1000;
+
+/** Share of the meter the bar falls per second */
+const FALL_RATE = 1.5;
+
+/** A peak level as a position along the meter, 0–1 */
+function meterPosition(peak: number): number {
+  if (peak <= 0) return 0;
+  const db = 20 * Math.log10(peak);
+  return Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+}
+
+/**
+ * The mic's level in dBFS, so it can be checked before recording: green for
+ * speech, amber when loud, red near full scale, with a held peak marker and
+ * a warning while the input clips.
+ */
+export default function LevelMeter(props: LevelMeterProps) {
+  const [level, setLevel] = createSignal(0);
+  const [held, setHeld] = createSignal(0);
+  const [clipping, setClipping] = createSignal(false);
+  let frameId = 0;
+  let lastFrame = 0;
+  let heldAt = 0;
+  let clippedAt = -Infinity;
+
+  const tick = (now: number) => {
+    const peak = props.readPeak();
+    const position = meterPosition(peak);
+    const dt = lastFrame ? (now - lastFrame) / 1000 : 0;
+    lastFrame = now;
+
+    // Rise at once, fall smoothly — easier to read than the raw peaks
+    setLevel((prev) => Math.max(position, prev - FALL_RATE * dt));
+    if (position >= held() || now - heldAt > PEAK_HOLD_MS) {
+      setHeld(position);
+      heldAt = now;
+    }
+    if (peak >= CLIP_LEVEL) clippedAt = now;
+    setClipping(now - clippedAt < CLIP_HOLD_MS);
+
+    frameId = requestAnimationFrame(tick);
+  };
+
+  onMount(() => {
+    frameId = requestAnimationFrame(tick);
+  });
+
+  onCleanup(() => cancelAnimationFrame(frameId));
+
+  const heldDb = () => (held() > 0 ? Math.round(FLOOR_DB + held() * -FLOOR_DB) : null);
+
+  return (
+    <div class="flex items-center gap-2 min-w-[10rem] flex-1">
+      <div
+        class="relative flex-1 h-2 rounded-full bg-bg-elevated overflow-hidden"
+        role="meter"
+        aria-label="Microphone level"
+        aria-valuemin={FLOOR_DB}
+        aria-valuemax={0}
+        aria-valuenow={heldDb() ?? FLOOR_DB}
+        aria-valuetext={heldDb() === null ? "Silent" : `${heldDb()} dB`}
+      >
+        <div
+          class="absolute inset-y-0 left-0 rounded-full"
+          classList={{
+            "bg-accent-green": level() < 0.8,
+            "bg-accent-amber": level() >= 0.8 && level() < 0.95,
+            "bg-accent-red": level() >= 0.95,
+          }}
+          style={{ width: `${level() * 100}%` }}
+        />
+        <Show when={held() > 0}>
+          <div class="absolute inset-y-0 w-0.5 bg-text-primary/70" style={{ left: `calc(${held() * 100}% - 2px)` }} />
+        </Show>
+      </div>
+      <span
+        class="w-14 text-right text-[10px] font-mono"
+        classList={{ "text-accent-red font-bold": clipping(), "text-text-secondary": !clipping() }}
+        role={clipping() ? "alert" : undefined}
+      >
+        {clipping() ? "CLIPPING" : heldDb() === null ? "— dB" : `${heldDb()} dB`}
+      </span>
+    </div>
+  );
+}
@@ -7,10 +7,13 @@ import { formatBytes, getExtensionForMimeType } from "~/utils/format";
 import { settingsStore } from "~/stores/settings";
 import { toastStore } from "~/stores/toast";
 import { cloudStore } from "~/stores/cloud";
+import WaveformScrubber from "~/components/library/WaveformScrubber";
 
 interface PreviewPlayerProps {
   blob: Blob;
   duration: number;
+  /** Peak levels of an audio recording — shown as a seekable waveform */
+  waveform?: number[];
   onDiscard: () => void;
   onSave: (title: string, tags: string[]) => void;
   onSaveAndUpload?: (title: string, tags: string[]) => Promise<void>;
@@ -21,6 +24,7 @@ export default function PreviewPlayer(props: PreviewPlayerProps) {
   const [tagsInput, setTagsInput] = createSignal("");
   const [isUploading, setIsUploading] = createSignal(false);
   const [uploadProgress, setUploadProgress] = createSignal<number>(0);
+  const [currentTime, setCurrentTime] = createSignal(0);
   let videoRef: HTMLVideoElement | undefined;
 
   // Create blob URL once, revoke on cleanup to prevent memory leak
@@ -75,12 +79,25 @@ export default function PreviewPlayer(props: PreviewPlayerProps) {
     <div class="flex flex-col gap-4 w-full">
       {/* Video preview */}
       <div class="relative rounded-lg overflow-hidden border border-border-default bg-black">
+        <Show when={props.waveform}>
+          <WaveformScrubber
+            waveform={props.waveform}
+            duration={props.duration}
+            currentTime={currentTime()}
+            onSeek={(t) => {
+              if (videoRef) videoRef.currentTime = t;
+              setCurrentTime(t);
+            }}
+          />
+        </Show>
         <video
           ref={videoRef}
           src={blobUrl}
           controls
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
           aria-label="Recording preview"
-          class="w-full max-h-[60dvh] object-contain"
+          // An audio-only file has no picture — just the controls
+          class={props.blob.type.startsWith("audio/") ? "w-full h-12" : "w-full max-h-[60dvh] object-contain"}
         />
       </div>
 
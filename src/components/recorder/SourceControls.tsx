@@ -0,0 +1,112 @@
+import { For, Show } from "solid-js";
+import { recorderStore } from "~/stores/recorder";
+import { settingsStore } from "~/stores/settings";
+import { canCaptureScreen } from "~/services/recorder/camera";
+import type { CaptureSource, ScreenLayout } from "~/models/types";
+
+interface SourceControlsProps {
+  onSourceChange: (source: CaptureSource) => void;
+  onLayoutChange: (layout: ScreenLayout) => void;
+  /** Whether audio recordings keep the visualizer as a video track */
+  onVisualizerChange: (enabled: boolean) => void;
+}
+
+const SOURCES: { value: CaptureSource; label: string }[] = [
+  { value: "camera", label: "Camera" },
+  { value: "screen", label: "Screen + Camera" },
+  { value: "audio", label: "Audio Only" },
+];
+
+const LAYOUTS: { value: ScreenLayout; label: string; description: string }[] = [
+  { value: "bubble", label: "Bubble", description: "Webcam in a bubble over the screen — drag to move, drag its edge to resize" },
+  { value: "side-by-side", label: "Side by Side", description: "Screen on the left, webcam on the right" },
+  { value: "camera-only", label: "Camera Only", description: "Just the webcam — screen audio is still recorded" },
+];
+
+function pillClass(active: boolean): string {
+  return `px-3 py-1.5 rounded-md text-xs font-mono transition-all duration-150 cursor-pointer border disabled:opacity-50 disabled:cursor-not-allowed ${
+    active
+      ? "border-accent-cyan/60 bg-accent-cyan/20 text-accent-cyan"
+      : "border-border-default bg-bg-elevated text-text-secondary hover:text-text-primary hover:border-text-secondary/40"
+  }`;
+}
+
+/**
+ * Recording source (webcam, screen + webcam, or the mic alone) and its
+ * options: for screen recordings the layout, for audio recordings whether
+ * the visualizer is recorded too. The layout can change mid-recording; the
+ * source can't.
+ */
+export default function SourceControls(props: SourceControlsProps) {
+  const canSwitchSource = () => {
+    const status = recorderStore.status();
+    return status === "ready" || status === "idle" || status === "error";
+  };
+
+  // Browsers that can't share a screen (mobile) only get the camera and audio
+  const sources = () => SOURCES.filter((source) => source.value !== "screen" || canCaptureScreen());
+
+  return (
+    <div class="flex flex-wrap items-center gap-2 w-full max-w-4xl px-2 mt-4">
+      <div class="flex gap-2" role="group" aria-label="Recording source">
+        <For each={sources()}>
+          {(source) => (
+            <button
+              class={pillClass(recorderStore.source() === source.value)}
+              aria-pressed={recorderStore.source() === source.value}
+              disabled={!canSwitchSource()}
+              onClick={() => props.onSourceChange(source.value)}
+            >
+              {source.label}
+            </button>
+          )}
+        </For>
+      </div>
+
+      <Show when={recorderStore.source() === "camera" && canCaptureScreen()}>
+        <label class="flex items-center gap-1.5 text-xs font-mono text-text-secondary cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settingsStore.settings().screenAudio}
+            onChange={(e) => settingsStore.updateSettings({ screenAudio: e.currentTarget.checked })}
+          />
+          Include tab/system audio
+        </label>
+      </Show>
+
+      <Show when={recorderStore.source() === "audio"}>
+        <label
+          class="flex items-center gap-1.5 text-xs font-mono text-text-secondary cursor-pointer"
+          title="Record the visualizer and overlay as a video track — off records the audio alone"
+        >
+          <input
+            type="checkbox"
+            checked={settingsStore.settings().audioVisualizer}
+            disabled={!canSwitchSource()}
+            onChange={(e) => props.onVisualizerChange(e.currentTarget.checked)}
+          />
+          Record visualizer as video
+        </label>
+      </Show>
+
+      <Show when={recorderStore.source() === "screen"}>
+        <span class="text-border-default" aria-hidden="true">|</span>
+        <div class="flex gap-2" role="group" aria-label="Screen layout">
+          <For each={LAYOUTS}>
+            {(layout) => (
+              <button
+                class={pillClass(settingsStore.settings().screenLayout === layout.value)}
+                aria-pressed={settingsStore.settings().screenLayout === layout.value}
+                disabled={recorderStore.status() === "stopped"}
+                onClick={() => props.onLayoutChange(layout.value)}
+                title={layout.description}
+              >
+                {layout.label}
+              </button>
+            )}
+          </For>
+        </div>
+      </Show>
+    </div>
+  );
+}
@@ -3,19 +3,27 @@ import { recorderStore } from "~/stores/recorder";
 import { templateStore } from "~/stores/template";
 import { diaryStore } from "~/stores/diary";
 import { settingsStore } from "~/stores/settings";
-import { requestCamera, stopStream } from "~/services/recorder/camera";
+import { requestCamera, requestMicrophone, requestScreen, stopStream } from "~/services/recorder/camera";
 import { RecordingEngine } from "~/services/recorder/engine";
+import { RecordingSpool } from "~/services/recorder/spool";
+import { repairVideoIndex } from "~/services/recorder/mux/repair";
 import { resolveRecordingParams } from "~/services/recorder/profiles";
-import type { DiaryEntry } from "~/models/types";
+import { bubbleHit, clampBubble } from "~/services/recorder/layout";
+import { microphoneConstraints } from "~/services/recorder/audio-processing";
+import type { CaptureSource, DiaryEntry, MicrophoneSettings, PipBubble, ScreenLayout } from "~/models/types";
 import { generateId, generateFilesystemId } from "~/utils/id";
 import { generateAutoTitle } from "~/utils/time";
 import { generateThumbnail } from "~/utils/video";
+import { generateWaveformThumbnail } from "~/utils/waveform";
 import RecordingControls from "./RecordingControls";
 import PreviewPlayer from "./PreviewPlayer";
+import SourceControls from "./SourceControls";
+import DeviceControls from "./DeviceControls";
 import TemplatePicker from "~/components/templates/TemplatePicker";
 import { toastStore } from "~/stores/toast";
 import { getCameraErrorMessage } from "~/utils/compat";
 import { getStorageQuota } from "~/services/storage/opfs";
+import { storageManager } from "~/services/storage/manager";
 import { cloudSyncManager } from "~/services/cloud/manager";
 import { cloudStore } from "~/stores/cloud";
 import type { UploadProgress } from "~/services/cloud/types";
@@ -23,9 +31,18 @@ import type { UploadProgress } from "~/services/cloud/types";
 export default function VideoRecorder() {
   let canvasRef: HTMLCanvasElement | undefined;
   let engine: RecordingEngine | null = null;
+  // Crash-safe chunk spool for the current take — kept until saved or discarded
+  let spool: RecordingSpool | null = null;
+  let startingSpool = false;
   const [recordedBlob, setRecordedBlob] = createSignal<Blob | null>(null);
   const [recordedDuration, setRecordedDuration] = createSignal(0);
   const [videoDimensions, setVideoDimensions] = createSignal<{ width: number; height: number }>({ width: 0, height: 0 });
+  // Peak levels of the last take — the waveform of audio entries, null for videos
+  const [recordedWaveform, setRecordedWaveform] = createSignal<number[] | null>(null);
+  // Webcam bubble of screen recordings — saved to settings when a drag ends
+  const [bubble, setBubble] = createSignal<PipBubble>(settingsStore.settings().pipBubble);
+  const [canvasCursor, setCanvasCursor] = createSignal("");
+  let bubbleDrag: { mode: "move" | "resize"; offsetX: number; offsetY: number } | null = null;
 
   onMount(async () => {
     await initCamera();
@@ -35,6 +52,8 @@ export default function VideoRecorder() {
     engine?.destroy();
     const stream = recorderStore.stream();
     if (stream) stopStream(stream);
+    releaseScreen();
+    recorderStore.setSource("camera");
   });
 
   async function initCamera() {
@@ -52,44 +71,242 @@ export default function VideoRecorder() {
         settingsStore.settings().recordingProfile,
         settingsStore.getQuality(),
       );
-      const stream = await requestCamera(
-        recorderStore.selectedDeviceId() ?? undefined,
-        { width: params.width, height: params.height },
-      );
+      const previous = recorderStore.stream();
+      if (previous) stopStream(previous);
+      const stream = await openStream(params);
       recorderStore.setStream(stream);
 
       if (canvasRef) {
         engine = new RecordingEngine({
           canvas: canvasRef,
           stream,
+          screen: recorderStore.screenStream(),
+          layout: settingsStore.settings().screenLayout,
+          bubble: bubble(),
+          visualizer: settingsStore.settings().audioVisualizer,
+          visualizerSize: { width: params.width, height: params.height },
+          processing: settingsStore.getMicrophoneSettings(settingsStore.settings().microphoneDeviceId).processing,
           template: templateStore.activeTemplate(),
           title: "",
           videoBitsPerSecond: params.videoBitsPerSecond,
           audioBitsPerSecond: params.audioBitsPerSecond,
           frameRate: params.frameRate,
           preferredFormat: settingsStore.settings().recordingFormat,
+          encoder: settingsStore.settings().recordingEncoder,
           maxDuration: settingsStore.settings().maxDuration,
           onElapsedUpdate: (elapsed) => recorderStore.setElapsed(elapsed),
           onMaxDuration: () => handleStop(),
         });
         await engine.prepare();
-        // Capture actual video dimensions from the engine (resolved from the webcam stream)
+        if (settingsStore.settings().recordingEncoder === "webcodecs" && engine.encoder !== "webcodecs") {
+          toastStore.warning("Your browser can't record this format with WebCodecs. Using MediaRecorder instead.");
+        }
+        // Capture actual video dimensions from the engine (resolved from the webcam stream, 0×0 for audio alone)
         const dims = engine.videoDimensions;
         setVideoDimensions({ width: dims.width, height: dims.height });
       }
 
       recorderStore.setStatus("ready");
     } catch (err) {
-      const msg = getCameraErrorMessage(err);
+      const msg = getCameraErrorMessage(err, recorderStore.source() === "audio" ? "microphone" : "camera");
       recorderStore.setError(msg);
       recorderStore.setStatus("error");
       toastStore.error(msg);
     }
   }
 
-  function handleStart() {
+  /**
+   * The webcam (or the mic alone) on the chosen devices. A chosen device
+   * that's gone — unplugged, or a different machine — is forgotten, and
+   * the browser's default is used instead.
+   */
+  async function openStream(params: { width: number; height: number }): Promise<MediaStream> {
+    const request = () => {
+      const { cameraDeviceId, microphoneDeviceId } = settingsStore.settings();
+      const audio = microphoneConstraints(
+        microphoneDeviceId,
+        settingsStore.getMicrophoneSettings(microphoneDeviceId),
+      );
+      return recorderStore.source() === "audio"
+        ? requestMicrophone(audio)
+        : requestCamera(cameraDeviceId ?? undefined, { width: params.width, height: params.height }, audio);
+    };
+
+    try {
+      return await request();
+    } catch (err) {
+      const { cameraDeviceId, microphoneDeviceId } = settingsStore.settings();
+      const missing = err instanceof Error && (err.name === "OverconstrainedError" || err.name === "NotFoundError");
+      if (!missing || (!cameraDeviceId && !microphoneDeviceId)) throw err;
+      console.warn("[VideoRecorder] Selected device unavailable — using the default:", err);
+      toastStore.warning("The selected camera or microphone isn't available. Using the default instead.");
+      settingsStore.updateSettings({ cameraDeviceId: null, microphoneDeviceId: null });
+      return request();
+    }
+  }
+
+  /** Record with another camera — the stream and engine are set up again */
+  async function handleCameraChange(deviceId: string | null) {
+    settingsStore.updateSettings({ cameraDeviceId: deviceId });
+    await initCamera();
+  }
+
+  /** Record with another microphone — its own saved settings apply */
+  async function handleMicrophoneChange(deviceId: string | null) {
+    settingsStore.updateSettings({ microphoneDeviceId: deviceId });
+    await initCamera();
+  }
+
+  /**
+   * Save the selected mic's settings. The chain's levels are retuned live;
+   * the browser's constraints and turning the chain on or off need a new stream.
+   */
+  async function handleMicrophoneSettingsChange(updates: Partial<MicrophoneSettings>) {
+    const deviceId = settingsStore.settings().microphoneDeviceId;
+    const before = settingsStore.getMicrophoneSettings(deviceId);
+    settingsStore.updateMicrophoneSettings(deviceId, updates);
+    const after = settingsStore.getMicrophoneSettings(deviceId);
+
+    const live =
+      after.echoCancellation === before.echoCancellation &&
+      after.noiseSuppression === before.noiseSuppression &&
+      after.autoGainControl === before.autoGainControl &&
+      after.processing.enabled === before.processing.enabled;
+    if (live) engine?.setProcessing(after.processing);
+    else await initCamera();
+  }
+
+  /** Switch between the webcam, the screen and the mic alone — sharing asks the user to pick a screen */
+  async function handleSourceChange(source: CaptureSource) {
+    if (source === recorderStore.source()) return;
+
+    let screen: MediaStream | null = null;
+    if (source === "screen") {
+      try {
+        screen = await requestScreen(settingsStore.settings().screenAudio);
+      } catch (err) {
+        // Closing the picker rejects with NotAllowedError — nothing to report
+        if (!(err instanceof Error && err.name === "NotAllowedError")) {
+          console.error("[VideoRecorder] Screen sharing failed:", err);
+          const msg = err instanceof Error ? err.message : "Unknown error";
+          toastStore.error(`Screen sharing failed: ${msg}`);
+        }
+        return;
+      }
+      const shared = screen;
+      shared.getVideoTracks()[0]?.addEventListener("ended", () => handleScreenEnded(shared));
+    }
+
+    releaseScreen();
+    recorderStore.setScreenStream(screen);
+    recorderStore.setSource(source);
+    await initCamera();
+  }
+
+  function releaseScreen() {
+    const screen = recorderStore.screenStream();
+    if (screen) stopStream(screen);
+    recorderStore.setScreenStream(null);
+  }
+
+  /** The user stopped sharing from the browser's own controls */
+  function handleScreenEnded(screen: MediaStream) {
+    if (recorderStore.screenStream() !== screen) return;
+    const status = recorderStore.status();
+    if (status === "recording" || status === "paused") {
+      toastStore.info("Screen sharing ended, so the recording was stopped");
+      void handleStop();
+    } else if (status !== "stopped") {
+      void handleSourceChange("camera");
+    }
+    // In preview, handleDiscard() switches back to the camera
+  }
+
+  /** Audio recordings with or without the visualizer track — the engine is set up again */
+  async function handleVisualizerChange(enabled: boolean) {
+    settingsStore.updateSettings({ audioVisualizer: enabled });
+    await initCamera();
+  }
+
+  function handleLayoutChange(layout: ScreenLayout) {
+    settingsStore.updateSettings({ screenLayout: layout });
+    engine?.setLayout(layout);
+    spool?.update({ screenLayout: layout });
+  }
+
+  /** A pointer position in canvas pixels */
+  function canvasPoint(e: PointerEvent): { x: number; y: number } {
+    const rect = canvasRef!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvasRef!.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvasRef!.height) / rect.height,
+    };
+  }
+
+  const bubbleEditable = () =>
+    recorderStore.source() === "screen" &&
+    settingsStore.settings().screenLayout === "bubble" &&
+    recorderStore.status() !== "stopped";
+
+  // Dragging the webcam bubble: the middle moves it, the rim resizes it
+  function handleCanvasPointerDown(e: PointerEvent) {
+    if (!canvasRef || !bubbleEditable()) return;
+    const { width, height } = canvasRef;
+    const point = canvasPoint(e);
+    const mode = bubbleHit(bubble(), width, height, point.x, point.y);
+    if (!mode) return;
+    bubbleDrag = { mode, offsetX: point.x / width - bubble().x, offsetY: point.y / height - bubble().y };
+    canvasRef.setPointerCapture(e.pointerId);
+    e.preventDefault();
+  }
+
+  function handleCanvasPointerMove(e: PointerEvent) {
+    if (!canvasRef || !bubbleEditable()) return;
+    const { width, height } = canvasRef;
+    const point = canvasPoint(e);
+    if (!bubbleDrag) {
+      const hit = bubbleHit(bubble(), width, height, point.x, point.y);
+      setCanvasCursor(hit === "move" ? "move" : hit === "resize" ? "nwse-resize" : "");
+      return;
+    }
+
+    const current = bubble();
+    const next =
+      bubbleDrag.mode === "move"
+        ? { ...current, x: point.x / width - bubbleDrag.offsetX, y: point.y / height - bubbleDrag.offsetY }
+        : { ...current, size: (2 * Math.hypot(point.x - current.x * width, point.y - current.y * height)) / height };
+    setBubble(clampBubble(next, width, height));
+    engine?.setBubble(bubble());
+  }
+
+  function handleCanvasPointerUp(e: PointerEvent) {
+    if (!bubbleDrag || !canvasRef) return;
+    bubbleDrag = null;
+    canvasRef.releasePointerCapture(e.pointerId);
+    settingsStore.updateSettings({ pipBubble: bubble() });
+  }
+
+  /** Open a crash-safe spool on the active provider (null for ephemeral or on failure). */
+  async function openSpool(title: string): Promise<RecordingSpool | null> {
+    try {
+      return await RecordingSpool.open(storageManager.getActiveProvider(), {
+        mimeType: "",
+        templateId: templateStore.activeTemplate().id,
+        title,
+        mediaKind: engine?.mediaKind ?? "video",
+        videoWidth: videoDimensions().width || null,
+        videoHeight: videoDimensions().height || null,
+        screenLayout: engine?.screenLayout ?? undefined,
+      });
+    } catch (err) {
+      console.warn("[VideoRecorder] Crash-safe spool unavailable:", err);
+      return null;
+    }
+  }
+
+  async function handleStart() {
     // H4: Guard against double-click creating duplicate MediaRecorder
-    if (!engine || recorderStore.status() === "recording") return;
+    if (!engine || recorderStore.status() === "recording" || startingSpool) return;
     engine.setTemplate(templateStore.activeTemplate());
 
     const title = settingsStore.settings().autoGenerateTitle
@@ -97,17 +314,28 @@ export default function VideoRecorder() {
       : "";
     engine.setTitle(title);
 
+    // Spool must exist before the first chunk — it carries the container header
+    startingSpool = true;
+    spool = await openSpool(title);
+    startingSpool = false;
+    if (!engine) return;
+    const activeSpool = spool;
+    engine.setOnChunk(activeSpool ? (chunk, elapsed) => activeSpool.append(chunk, elapsed) : undefined);
+
     engine.start();
+    activeSpool?.update({ mimeType: engine.getNegotiatedMimeType() });
     recorderStore.setStatus("recording");
     recorderStore.setElapsed(0);
 
     // Notify if the browser couldn't use the preferred format
     const preferred = settingsStore.settings().recordingFormat;
     const negotiated = engine.getNegotiatedMimeType();
-    const expectedContainer = preferred === "webm" ? "video/webm" : "video/mp4";
-    if (!negotiated.startsWith(expectedContainer)) {
-      const labels: Record<string, string> = { "video/mp4": "MP4", "video/webm": "WebM" };
-      const got = negotiated.startsWith("video/mp4") ? labels["video/mp4"] : labels["video/webm"];
+    // Audio-only recordings are "audio/…" — compare the container alone
+    const container = negotiated.split(";")[0].split("/")[1];
+    const expectedContainer = preferred === "webm" ? "webm" : "mp4";
+    if (container !== expectedContainer) {
+      const labels: Record<string, string> = { mp4: "MP4", webm: "WebM" };
+      const got = container === "mp4" ? labels.mp4 : labels.webm;
       toastStore.warning(
         `Your browser doesn't support ${preferred.toUpperCase()} recording. Falling back to ${got}.`,
       );
@@ -118,10 +346,12 @@ export default function VideoRecorder() {
     if (!engine) return;
     // Capture elapsed BEFORE stopping (M1: stop() resets internal state)
     const duration = recorderStore.elapsed();
-    const blob = await engine.stop();
+    // MediaRecorder leaves out the duration and seek index — add them before preview and save
+    const blob = await repairVideoIndex(await engine.stop(), duration);
     // Set signals BEFORE status change so UI has data when preview renders
     setRecordedBlob(blob);
     setRecordedDuration(duration);
+    setRecordedWaveform(engine?.mediaKind === "audio" ? engine.waveform : null);
     recorderStore.setStatus("stopped");
   }
 
@@ -135,16 +365,50 @@ export default function VideoRecorder() {
     recorderStore.setStatus("recording");
   }
 
+  /**
+   * The take is in the library — remove its spool right away, so a crash
+   * before the recorder resets can't recover it as a second copy
+   */
+  async function discardSavedSpool() {
+    const saved = spool;
+    spool = null;
+    await saved?.discard();
+  }
+
   function handleDiscard() {
+    // The take is either saved or thrown away — nothing left to recover
+    void spool?.discard();
+    spool = null;
+    engine?.setOnChunk(undefined);
+
     setRecordedBlob(null);
     setRecordedDuration(0);
+    setRecordedWaveform(null);
     recorderStore.reset();
     recorderStore.setStatus("ready");
 
+    // Sharing ended during the take — there's no screen left to preview
+    if (recorderStore.screenStream()?.getVideoTracks()[0]?.readyState === "ended") {
+      void handleSourceChange("camera");
+      return;
+    }
+
     // Restart the canvas render loop so the live camera preview resumes
     engine?.resumePreview();
   }
 
+  /** The entry's thumbnail — a video frame, or the waveform of an audio recording */
+  async function createThumbnail(blob: Blob): Promise<string | null> {
+    try {
+      const waveform = recordedWaveform();
+      if (waveform) return generateWaveformThumbnail(waveform);
+      return await generateThumbnail(blob);
+    } catch {
+      // Thumbnail generation is optional
+      return null;
+    }
+  }
+
   async function handleSave(title: string, tags: string[]) {
     const blob = recordedBlob();
     if (!blob) return;
@@ -152,12 +416,7 @@ export default function VideoRecorder() {
     const autoTitle =
       title || generateAutoTitle(diaryStore.getNextEntryNumber());
 
-    let thumbnailDataUrl: string | null = null;
-    try {
-      thumbnailDataUrl = await generateThumbnail(blob);
-    } catch {
-      // Thumbnail generation is optional
-    }
+    const thumbnailDataUrl = await createThumbnail(blob);
 
     const activeProvider = settingsStore.settings().activeStorageProvider;
     const entry: DiaryEntry = {
@@ -169,9 +428,12 @@ export default function VideoRecorder() {
       tags,
       templateId: templateStore.activeTemplate().id,
       storageProvider: activeProvider,
+      mediaKind: engine?.mediaKind ?? "video",
       mimeType: engine?.getNegotiatedMimeType() ?? (blob.type || "video/webm"),
       videoWidth: videoDimensions().width || null,
       videoHeight: videoDimensions().height || null,
+      screenLayout: engine?.screenLayout ?? undefined,
+      waveform: recordedWaveform() ?? undefined,
       videoBlob: blob,
       videoBlobUrl: null, // H6: Created lazily on-demand when entry is opened
       thumbnailDataUrl,
@@ -191,6 +453,7 @@ export default function VideoRecorder() {
       toastStore.error("Failed to save entry. Please try again.");
       return;
     }
+    await discardSavedSpool();
 
     // Warn if storage is running low after save
     try {
@@ -224,12 +487,7 @@ export default function VideoRecorder() {
     const autoTitle =
       title || generateAutoTitle(diaryStore.getNextEntryNumber());
 
-    let thumbnailDataUrl: string | null = null;
-    try {
-      thumbnailDataUrl = await generateThumbnail(blob);
-    } catch {
-      // Thumbnail generation is optional
-    }
+    const thumbnailDataUrl = await createThumbnail(blob);
 
     const entry: DiaryEntry = {
       id: generateId(),
@@ -240,9 +498,12 @@ export default function VideoRecorder() {
       tags,
       templateId: templateStore.activeTemplate().id,
       storageProvider: "ephemeral",
+      mediaKind: engine?.mediaKind ?? "video",
       mimeType: engine?.getNegotiatedMimeType() ?? (blob.type || "video/webm"),
       videoWidth: videoDimensions().width || null,
       videoHeight: videoDimensions().height || null,
+      screenLayout: engine?.screenLayout ?? undefined,
+      waveform: recordedWaveform() ?? undefined,
       videoBlob: blob,
       videoBlobUrl: null,
       thumbnailDataUrl,
@@ -261,6 +522,7 @@ export default function VideoRecorder() {
       toastStore.error("Failed to save entry. Please try again.");
       throw err;
     }
+    await discardSavedSpool();
 
     // Upload to cloud
     try {
@@ -289,7 +551,7 @@ export default function VideoRecorder() {
       {/* Error state */}
       <Show when={recorderStore.error()}>
         <div class="w-full max-w-3xl p-4 rounded-lg border border-accent-red/40 bg-accent-red/10 text-accent-red text-sm">
-          <p class="font-mono font-bold mb-1">Camera Error</p>
+          <p class="font-mono font-bold mb-1">{recorderStore.source() === "audio" ? "Microphone Error" : "Camera Error"}</p>
           <p>{recorderStore.error()}</p>
           <button
             class="mt-2 text-xs underline hover:no-underline cursor-pointer"
@@ -306,6 +568,7 @@ export default function VideoRecorder() {
           <PreviewPlayer
             blob={recordedBlob()!}
             duration={recordedDuration()}
+            waveform={recordedWaveform() ?? undefined}
             onDiscard={handleDiscard}
             onSave={handleSave}
             onSaveAndUpload={handleSaveAndUpload}
@@ -321,7 +584,7 @@ export default function VideoRecorder() {
           <Show when={recorderStore.status() === "preparing"}>
             <div class="absolute inset-0 flex items-center justify-center z-10">
               <p class="font-mono text-sm text-text-secondary animate-pulse">
-                Initializing camera...
+                {recorderStore.source() === "audio" ? "Initializing microphone..." : "Initializing camera..."}
               </p>
             </div>
           </Show>
@@ -334,10 +597,32 @@ export default function VideoRecorder() {
           <canvas
             ref={canvasRef}
             class="block touch-manipulation max-w-full"
-            style={{ "max-height": "calc(100dvh - 220px)" }}
+            style={{
+              "max-height": "calc(100dvh - 220px)",
+              // The bubble is dragged with touch too — don't let the page pan instead
+              "touch-action": bubbleEditable() ? "none" : undefined,
+              cursor: bubbleEditable() ? canvasCursor() : undefined,
+            }}
+            onPointerDown={handleCanvasPointerDown}
+            onPointerMove={handleCanvasPointerMove}
+            onPointerUp={handleCanvasPointerUp}
+            onPointerCancel={handleCanvasPointerUp}
           />
         </div>
 
+        <SourceControls
+          onSourceChange={(source) => void handleSourceChange(source)}
+          onLayoutChange={handleLayoutChange}
+          onVisualizerChange={(enabled) => void handleVisualizerChange(enabled)}
+        />
+
+        <DeviceControls
+          onCameraChange={(deviceId) => void handleCameraChange(deviceId)}
+          onMicrophoneChange={(deviceId) => void handleMicrophoneChange(deviceId)}
+          onMicrophoneSettingsChange={(updates) => void handleMicrophoneSettingsChange(updates)}
+          readPeak={() => engine?.inputPeak ?? 0}
+        />
+
         {/* Controls bar */}
         <div class="flex flex-col-reverse sm:flex-row items-center justify-between w-full max-w-4xl gap-4 px-2 mt-4">
           {/* Template picker (only when not recording) */}
@@ -1,4 +1,5 @@
-import { For } from "solid-js";
+import { For, Show } from "solid-js";
+import { A } from "@solidjs/router";
 import { templateStore } from "~/stores/template";
 import type { DiaryTemplate } from "~/models/types";
 
@@ -7,16 +8,22 @@ interface TemplatePickerProps {
 }
 
 export default function TemplatePicker(props: TemplatePickerProps) {
-  const templates = templateStore.getTemplates();
-
   function handleSelect(template: DiaryTemplate) {
     templateStore.setActiveTemplate(template);
     props.onSelect?.(template);
   }
 
+  /** Editor link for the active template — variants open for editing, built-ins are forked */
+  const editorHref = () => {
+    const id = templateStore.activeTemplate().id;
+    if (templateStore.variants().some((v) => v.id === id)) return `/templates?id=${id}`;
+    if (templateStore.getBuiltInTemplates().some((t) => t.id === id)) return `/templates?from=${id}`;
+    return null;
+  };
+
   return (
-    <div class="flex gap-2">
-      <For each={templates}>
+    <div class="flex flex-wrap gap-2">
+      <For each={templateStore.getTemplates()}>
         {(template) => (
           <button
             class={`px-3 py-1.5 rounded-md text-xs font-mono transition-all duration-150 cursor-pointer border ${
@@ -31,6 +38,17 @@ export default function TemplatePicker(props: TemplatePickerProps) {
           </button>
         )}
       </For>
+      <Show when={editorHref()}>
+        {(href) => (
+          <A
+            href={href()}
+            class="px-3 py-1.5 rounded-md text-xs font-mono transition-all duration-150 border border-dashed border-border-default text-text-secondary hover:text-text-primary hover:border-text-secondary/40 no-underline"
+            title="Customize the selected template"
+          >
+            Customize
+          </A>
+        )}
+      </Show>
     </div>
   );
 }
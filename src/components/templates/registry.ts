@@ -16,7 +16,7 @@ export const templateRegistry: DiaryTemplate[] = [
     config: {
       colorPrimary: "#00ffff",
       colorSecondary: "#0088aa",
-      colorBackground: "rgba(0, 20, 30, 0.4)",
+      colorBackground: "rgba(0, 10, 20, 0.7)",
       fontFamily: "JetBrains Mono",
       showTimestamp: true,
       showElapsed: true,
@@ -34,7 +34,7 @@ export const templateRegistry: DiaryTemplate[] = [
     config: {
       colorPrimary: "#ffa500",
       colorSecondary: "#33ff66",
-      colorBackground: "rgba(0, 0, 0, 0.3)",
+      colorBackground: "rgba(0, 0, 0, 0.6)",
       fontFamily: "JetBrains Mono",
       showTimestamp: true,
       showElapsed: true,
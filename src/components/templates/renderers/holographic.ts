@@ -1,5 +1,6 @@
-import type { TemplateFrame } from "~/models/types";
+import type { TemplateConfig, TemplateFrame } from "~/models/types";
 import { formatDuration, formatTime } from "~/utils/time";
+import { drawCorners, drawScanLines, fontStack, withAlpha } from "./shared";
 
 /**
  * Holographic template renderer — Avatar-style.
@@ -14,16 +15,21 @@ import { formatDuration, formatTime } from "~/utils/time";
  * - Single horizontal sweep line
  * - Corner brackets with secondary inner brackets
  * - Date/time, REC indicator, title, and real data readouts
+ *
+ * Colors, font, corner style and the optional elements follow the
+ * template's TemplateConfig.
  */
 export function holographicRenderer(
   ctx: CanvasRenderingContext2D,
   frame: TemplateFrame,
+  config: TemplateConfig,
 ): void {
   const { width, height, timestamp, elapsed, isRecording, title, audioLevel, audioFrequencyData } = frame;
-  const cyan = "#00ffff";
-  const cyanMid = "rgba(0, 255, 255, 0.5)";
-  const cyanDim = "rgba(0, 255, 255, 0.25)";
-  const panelBg = "rgba(0, 10, 20, 0.7)";
+  const cyan = config.colorPrimary;
+  const cyanMid = withAlpha(cyan, 0.5);
+  const cyanDim = withAlpha(cyan, 0.25);
+  const panelBg = config.colorBackground;
+  const font = fontStack(config);
   // Use the longer dimension for sizing so HUD elements stay legible in portrait
   const sizingRef = Math.max(width, height);
   const margin = Math.round(sizingRef * 0.03);
@@ -36,7 +42,7 @@ export function holographicRenderer(
   drawVignette(ctx, width, height);
 
   // ── Subtle grid pattern ──
-  ctx.strokeStyle = "rgba(0, 255, 255, 0.05)";
+  ctx.strokeStyle = withAlpha(cyan, 0.05);
   ctx.lineWidth = 1;
   const gridSize = Math.round(width * 0.04);
   for (let x = 0; x < width; x += gridSize) {
@@ -53,11 +59,16 @@ export function holographicRenderer(
   }
 
   // ── Horizontal sweep line (cycles top to bottom every 4 seconds) ──
-  drawSweepLine(ctx, width, height, now);
+  drawSweepLine(ctx, width, height, cyan, now);
+
+  // ── Optional scan lines ──
+  if (config.showScanLines) {
+    drawScanLines(ctx, width, height, 0.08);
+  }
 
   // ── Corner brackets (outer + inner) ──
-  drawCornerBrackets(ctx, width, height, margin, cyan);
-  drawCornerBrackets(ctx, width, height, margin + 8, cyanDim, 0.5);
+  drawCorners(ctx, width, height, margin, config.cornerStyle, cyan);
+  drawCorners(ctx, width, height, margin + 8, config.cornerStyle, config.colorSecondary, 0.5);
 
   // ── Animated arcs near corners ──
   drawAnimatedArcs(ctx, width, height, margin, cyan, now);
@@ -68,28 +79,30 @@ export function holographicRenderer(
   const panelX = margin + 16;
   const panelY = margin + 16;
 
-  drawGlowPanel(ctx, panelX, panelY, panelW, panelH, panelBg, cyan);
+  if (config.showTimestamp) {
+    drawGlowPanel(ctx, panelX, panelY, panelW, panelH, panelBg, cyan);
 
-  // Time
-  ctx.font = `600 ${Math.round(fontSize * 1.1)}px "JetBrains Mono", monospace`;
-  ctx.fillStyle = cyan;
-  ctx.shadowColor = cyan;
-  ctx.shadowBlur = 8;
-  ctx.textBaseline = "middle";
-  ctx.textAlign = "left";
-  ctx.fillText(formatTime(timestamp), panelX + 14, panelY + panelH * 0.38);
-
-  // Date below time (inside panel)
-  ctx.font = `400 ${Math.round(fontSize * 0.75)}px "JetBrains Mono", monospace`;
-  ctx.fillStyle = cyanMid;
-  ctx.shadowBlur = 4;
-  const dateStr = new Date(timestamp).toLocaleDateString("en-US", {
-    day: "2-digit",
-    month: "short",
-    year: "numeric",
-  });
-  ctx.fillText(dateStr.toUpperCase(), panelX + 14, panelY + panelH * 0.72);
-  ctx.shadowBlur = 0;
+    // Time
+    ctx.font = `600 ${Math.round(fontSize * 1.1)}px ${font}`;
+    ctx.fillStyle = cyan;
+    ctx.shadowColor = cyan;
+    ctx.shadowBlur = 8;
+    ctx.textBaseline = "middle";
+    ctx.textAlign = "left";
+    ctx.fillText(formatTime(timestamp), panelX + 14, panelY + panelH * 0.38);
+
+    // Date below time (inside panel)
+    ctx.font = `400 ${Math.round(fontSize * 0.75)}px ${font}`;
+    ctx.fillStyle = cyanMid;
+    ctx.shadowBlur = 4;
+    const dateStr = new Date(timestamp).toLocaleDateString("en-US", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+    ctx.fillText(dateStr.toUpperCase(), panelX + 14, panelY + panelH * 0.72);
+    ctx.shadowBlur = 0;
+  }
 
   // ── Top-right: REC indicator / STANDBY ──
   const recPanelW = Math.round(width * 0.24);
@@ -97,41 +110,45 @@ export function holographicRenderer(
   const recX = width - margin - recPanelW - 16;
   const recY = margin + 16;
 
-  drawGlowPanel(ctx, recX, recY, recPanelW, recPanelH, panelBg, cyan);
-
-  if (isRecording) {
-    // Pulsing red dot
-    const dotPulse = 0.5 + 0.5 * Math.sin(now / 300);
-    ctx.fillStyle = `rgba(255, 51, 51, ${0.4 + dotPulse * 0.6})`;
-    ctx.shadowColor = "#ff3333";
-    ctx.shadowBlur = 8 + dotPulse * 8;
-    ctx.beginPath();
-    ctx.arc(recX + 18, recY + recPanelH * 0.38, 6, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.shadowBlur = 0;
-
-    // "REC" text
-    ctx.font = `700 ${fontSize}px "JetBrains Mono", monospace`;
-    ctx.fillStyle = "#ff3333";
-    ctx.shadowColor = "#ff3333";
-    ctx.shadowBlur = 4;
-    ctx.fillText("REC", recX + 30, recY + recPanelH * 0.38);
-    ctx.shadowBlur = 0;
-
-    // Elapsed time
-    ctx.font = `500 ${fontSize}px "JetBrains Mono", monospace`;
-    ctx.fillStyle = cyan;
-    ctx.shadowColor = cyan;
-    ctx.shadowBlur = 6;
-    ctx.fillText(formatDuration(elapsed), recX + 14, recY + recPanelH * 0.72);
-    ctx.shadowBlur = 0;
-  } else {
-    ctx.font = `500 ${fontSize}px "JetBrains Mono", monospace`;
-    ctx.fillStyle = cyanDim;
-    ctx.shadowColor = cyan;
-    ctx.shadowBlur = 3;
-    ctx.fillText("STANDBY", recX + 14, recY + recPanelH * 0.5);
-    ctx.shadowBlur = 0;
+  if (config.showRecordingIndicator) {
+    drawGlowPanel(ctx, recX, recY, recPanelW, recPanelH, panelBg, cyan);
+
+    if (isRecording) {
+      // Pulsing red dot
+      const dotPulse = 0.5 + 0.5 * Math.sin(now / 300);
+      ctx.fillStyle = `rgba(255, 51, 51, ${0.4 + dotPulse * 0.6})`;
+      ctx.shadowColor = "#ff3333";
+      ctx.shadowBlur = 8 + dotPulse * 8;
+      ctx.beginPath();
+      ctx.arc(recX + 18, recY + recPanelH * 0.38, 6, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.shadowBlur = 0;
+
+      // "REC" text
+      ctx.font = `700 ${fontSize}px ${font}`;
+      ctx.fillStyle = "#ff3333";
+      ctx.shadowColor = "#ff3333";
+      ctx.shadowBlur = 4;
+      ctx.fillText("REC", recX + 30, recY + recPanelH * 0.38);
+      ctx.shadowBlur = 0;
+
+      // Elapsed time
+      if (config.showElapsed) {
+        ctx.font = `500 ${fontSize}px ${font}`;
+        ctx.fillStyle = cyan;
+        ctx.shadowColor = cyan;
+        ctx.shadowBlur = 6;
+        ctx.fillText(formatDuration(elapsed), recX + 14, recY + recPanelH * 0.72);
+        ctx.shadowBlur = 0;
+      }
+    } else {
+      ctx.font = `500 ${fontSize}px ${font}`;
+      ctx.fillStyle = cyanDim;
+      ctx.shadowColor = cyan;
+      ctx.shadowBlur = 3;
+      ctx.fillText("STANDBY", recX + 14, recY + recPanelH * 0.5);
+      ctx.shadowBlur = 0;
+    }
   }
 
   // ── Bottom-center: Title bar ──
@@ -143,7 +160,7 @@ export function holographicRenderer(
 
     drawGlowPanel(ctx, titleX, titleY, titleW, titleH, panelBg, cyan);
 
-    ctx.font = `500 ${fontSize}px "Inter", "JetBrains Mono", sans-serif`;
+    ctx.font = `500 ${fontSize}px ${font}`;
     ctx.fillStyle = "#e0e8f0";
     ctx.shadowColor = cyan;
     ctx.shadowBlur = 4;
@@ -169,19 +186,21 @@ export function holographicRenderer(
   const readoutH = Math.round(smallFont * 3.2);
   drawGlowPanel(ctx, blX, blY - readoutH, readoutW, readoutH, panelBg, cyanDim, 0.3);
 
-  ctx.font = `400 ${smallFont}px "JetBrains Mono", monospace`;
+  ctx.font = `400 ${smallFont}px ${font}`;
   ctx.textBaseline = "bottom";
   ctx.textAlign = "left";
   ctx.fillStyle = cyanDim;
   ctx.shadowColor = cyan;
   ctx.shadowBlur = 2;
   ctx.fillText(`${width}×${height}`, blX + 8, blY - readoutH + smallFont + 6);
-  ctx.fillText(`SESSION ${formatDuration(elapsed)}`, blX + 8, blY - 6);
+  if (config.showElapsed) {
+    ctx.fillText(`SESSION ${formatDuration(elapsed)}`, blX + 8, blY - 6);
+  }
   ctx.shadowBlur = 0;
 
   // ── Circular ring audio waveform (bottom-right) ──
   if (audioFrequencyData) {
-    drawCircularWaveform(ctx, width, height, margin, audioFrequencyData, audioLevel, cyan, now);
+    drawCircularWaveform(ctx, width, height, margin, audioFrequencyData, audioLevel, cyan, panelBg, now);
   }
 
   // ── Audio level indicator arc (near bottom-right waveform) ──
@@ -190,10 +209,10 @@ export function holographicRenderer(
   // ── Decorative horizontal line (bottom) ──
   const lineY = height - margin - 6;
   const grad = ctx.createLinearGradient(margin, lineY, width - margin, lineY);
-  grad.addColorStop(0, "rgba(0, 255, 255, 0)");
-  grad.addColorStop(0.2, "rgba(0, 255, 255, 0.4)");
-  grad.addColorStop(0.8, "rgba(0, 255, 255, 0.4)");
-  grad.addColorStop(1, "rgba(0, 255, 255, 0)");
+  grad.addColorStop(0, withAlpha(cyan, 0));
+  grad.addColorStop(0.2, withAlpha(cyan, 0.4));
+  grad.addColorStop(0.8, withAlpha(cyan, 0.4));
+  grad.addColorStop(1, withAlpha(cyan, 0));
   ctx.strokeStyle = grad;
   ctx.lineWidth = 1;
   ctx.beginPath();
@@ -261,7 +280,7 @@ function drawAnimatedArcs(
     // Two arc segments per corner
     const pulse = 0.3 + 0.7 * (0.5 + 0.5 * Math.sin(now / 800 + pos.x));
 
-    ctx.strokeStyle = `rgba(0, 255, 255, ${0.15 + pulse * 0.25})`;
+    ctx.strokeStyle = withAlpha(color, 0.15 + pulse * 0.25);
     ctx.shadowColor = color;
     ctx.shadowBlur = 4;
 
@@ -276,7 +295,7 @@ function drawAnimatedArcs(
     ctx.stroke();
 
     // Inner smaller arc
-    ctx.strokeStyle = `rgba(0, 255, 255, ${0.08 + pulse * 0.12})`;
+    ctx.strokeStyle = withAlpha(color, 0.08 + pulse * 0.12);
     ctx.beginPath();
     ctx.arc(pos.x, pos.y, arcRadius * 0.6, -pos.startAngle, -pos.startAngle + Math.PI * 0.4);
     ctx.stroke();
@@ -286,82 +305,35 @@ function drawAnimatedArcs(
 }
 
 /** Draw horizontal sweep line that cycles top to bottom */
-function drawSweepLine(ctx: CanvasRenderingContext2D, w: number, h: number, now: number): void {
+function drawSweepLine(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  color: string,
+  now: number,
+): void {
   const period = 4000; // 4 seconds per full sweep
   const progress = (now % period) / period;
   const y = progress * h;
 
   const grad = ctx.createLinearGradient(0, y, w, y);
-  grad.addColorStop(0, "rgba(0, 255, 255, 0)");
-  grad.addColorStop(0.3, "rgba(0, 255, 255, 0.06)");
-  grad.addColorStop(0.7, "rgba(0, 255, 255, 0.06)");
-  grad.addColorStop(1, "rgba(0, 255, 255, 0)");
+  grad.addColorStop(0, withAlpha(color, 0));
+  grad.addColorStop(0.3, withAlpha(color, 0.06));
+  grad.addColorStop(0.7, withAlpha(color, 0.06));
+  grad.addColorStop(1, withAlpha(color, 0));
 
   ctx.fillStyle = grad;
   ctx.fillRect(0, y - 1, w, 2);
 
   // Slight glow band around the sweep line
   const glowGrad = ctx.createLinearGradient(0, y - 20, 0, y + 20);
-  glowGrad.addColorStop(0, "rgba(0, 255, 255, 0)");
-  glowGrad.addColorStop(0.5, "rgba(0, 255, 255, 0.02)");
-  glowGrad.addColorStop(1, "rgba(0, 255, 255, 0)");
+  glowGrad.addColorStop(0, withAlpha(color, 0));
+  glowGrad.addColorStop(0.5, withAlpha(color, 0.02));
+  glowGrad.addColorStop(1, withAlpha(color, 0));
   ctx.fillStyle = glowGrad;
   ctx.fillRect(0, y - 20, w, 40);
 }
 
-/** Draw rounded corner brackets */
-function drawCornerBrackets(
-  ctx: CanvasRenderingContext2D,
-  w: number,
-  h: number,
-  margin: number,
-  color: string,
-  alpha: number = 1,
-): void {
-  const len = Math.round(w * 0.06);
-  const r = 8;
-  ctx.strokeStyle = color;
-  ctx.lineWidth = alpha < 1 ? 1 : 2;
-  ctx.globalAlpha = alpha;
-  ctx.shadowColor = color;
-  ctx.shadowBlur = alpha < 1 ? 0 : 4;
-
-  // Top-left
-  ctx.beginPath();
-  ctx.moveTo(margin, margin + len);
-  ctx.lineTo(margin, margin + r);
-  ctx.arcTo(margin, margin, margin + r, margin, r);
-  ctx.lineTo(margin + len, margin);
-  ctx.stroke();
-
-  // Top-right
-  ctx.beginPath();
-  ctx.moveTo(w - margin - len, margin);
-  ctx.lineTo(w - margin - r, margin);
-  ctx.arcTo(w - margin, margin, w - margin, margin + r, r);
-  ctx.lineTo(w - margin, margin + len);
-  ctx.stroke();
-
-  // Bottom-left
-  ctx.beginPath();
-  ctx.moveTo(margin, h - margin - len);
-  ctx.lineTo(margin, h - margin - r);
-  ctx.arcTo(margin, h - margin, margin + r, h - margin, r);
-  ctx.lineTo(margin + len, h - margin);
-  ctx.stroke();
-
-  // Bottom-right
-  ctx.beginPath();
-  ctx.moveTo(w - margin, h - margin - len);
-  ctx.lineTo(w - margin, h - margin - r);
-  ctx.arcTo(w - margin, h - margin, w - margin - r, h - margin, r);
-  ctx.lineTo(w - margin - len, h - margin);
-  ctx.stroke();
-
-  ctx.shadowBlur = 0;
-  ctx.globalAlpha = 1;
-}
-
 /** Draw circular ring audio waveform (frequency bars arranged in an arc) */
 function drawCircularWaveform(
   ctx: CanvasRenderingContext2D,
@@ -371,6 +343,7 @@ function drawCircularWaveform(
   frequencyData: Uint8Array,
   _audioLevel: number,
   color: string,
+  bg: string,
   now: number,
 ): void {
   const cx = w - margin - Math.round(w * 0.10);
@@ -392,13 +365,13 @@ function drawCircularWaveform(
   ctx.rotate(rotation);
 
   // Dark backing circle
-  ctx.fillStyle = "rgba(0, 10, 20, 0.5)";
+  ctx.fillStyle = bg;
   ctx.beginPath();
   ctx.arc(0, 0, innerRadius + maxBarHeight + 4, 0, Math.PI * 2);
   ctx.fill();
 
   // Inner ring outline
-  ctx.strokeStyle = "rgba(0, 255, 255, 0.15)";
+  ctx.strokeStyle = withAlpha(color, 0.15);
   ctx.lineWidth = 1;
   ctx.beginPath();
   ctx.arc(0, 0, innerRadius - 2, 0, Math.PI * 2);
@@ -411,7 +384,7 @@ function drawCircularWaveform(
     const barHeight = Math.max(2, value * maxBarHeight);
     const alpha = 0.2 + value * 0.6;
 
-    ctx.strokeStyle = `rgba(0, 255, 255, ${alpha})`;
+    ctx.strokeStyle = withAlpha(color, alpha);
     ctx.shadowColor = color;
     ctx.shadowBlur = value > 0.5 ? 4 : 0;
     ctx.lineWidth = Math.max(1.5, (arcSpan * innerRadius) / binCount * 0.5);
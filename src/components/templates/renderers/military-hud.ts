@@ -1,5 +1,6 @@
-import type { TemplateFrame } from "~/models/types";
+import type { TemplateConfig, TemplateFrame } from "~/models/types";
 import { formatDuration, formatMilitaryDateTime } from "~/utils/time";
+import { drawCorners, drawScanLines, fontStack, withAlpha } from "./shared";
 
 /**
  * Military HUD template renderer — Martian/NASA style.
@@ -14,16 +15,21 @@ import { formatDuration, formatMilitaryDateTime } from "~/utils/time";
  * - Enhanced angular corner brackets with tick marks
  * - Rotating center crosshair
  * - Real data readouts: military datetime, elapsed, resolution, audio level
+ *
+ * Colors, font, corner style and the optional elements follow the
+ * template's TemplateConfig.
  */
 export function militaryHudRenderer(
   ctx: CanvasRenderingContext2D,
   frame: TemplateFrame,
+  config: TemplateConfig,
 ): void {
   const { width, height, timestamp, elapsed, isRecording, title, audioLevel, audioFrequencyData } = frame;
-  const amber = "#ffa500";
-  const amberDim = "rgba(255, 165, 0, 0.35)";
-  const green = "#33ff66";
-  const panelBg = "rgba(0, 0, 0, 0.6)";
+  const amber = config.colorPrimary;
+  const amberDim = withAlpha(amber, 0.35);
+  const green = config.colorSecondary;
+  const panelBg = config.colorBackground;
+  const font = fontStack(config);
   // Use the longer dimension for sizing so HUD elements stay legible in portrait
   const sizingRef = Math.max(width, height);
   const margin = Math.round(sizingRef * 0.03);
@@ -36,16 +42,15 @@ export function militaryHudRenderer(
   drawEdgeDarkening(ctx, width, height);
 
   // ── Scan lines (stronger) ──
-  ctx.fillStyle = "rgba(0, 0, 0, 0.10)";
-  for (let y = 0; y < height; y += 2) {
-    ctx.fillRect(0, y, width, 1);
+  if (config.showScanLines) {
+    drawScanLines(ctx, width, height, 0.1);
   }
 
   // ── Inner frame border ──
   drawInnerFrame(ctx, width, height, margin, amber);
 
-  // ── Angular corner brackets (enhanced with ticks) ──
-  drawAngularCorners(ctx, width, height, margin, amber);
+  // ── Corner brackets (angular style adds tick marks) ──
+  drawCorners(ctx, width, height, margin, config.cornerStyle, amber);
 
   // ── Vertical audio frequency bars (left edge — real data) ──
   if (audioFrequencyData) {
@@ -55,7 +60,7 @@ export function militaryHudRenderer(
   }
 
   // ── Horizontal audio peak meter (top center) ──
-  drawAudioPeakMeter(ctx, width, margin, audioLevel, amber, green);
+  drawAudioPeakMeter(ctx, width, margin, audioLevel, amber, green, font);
 
   // ── Top-left: Status + mission time ──
   const tlPanelW = Math.round(width * 0.28);
@@ -63,32 +68,37 @@ export function militaryHudRenderer(
   const tlX = margin + 14;
   const tlY = margin + 14;
 
-  // Dark backing
-  ctx.fillStyle = panelBg;
-  ctx.fillRect(tlX - 4, tlY - 4, tlPanelW, tlPanelH);
-
-  ctx.textBaseline = "top";
-  ctx.textAlign = "left";
-
-  if (isRecording) {
-    // Blinking "RECORDING" with text outlines
-    const blink = Math.sin(now / 400) > 0;
-    const recColor = blink ? "#ff3333" : "rgba(255, 51, 51, 0.4)";
-    drawHudText(ctx, "● RECORDING", tlX, tlY, fontSize, recColor, true);
-
-    // Mission time
-    drawHudText(
-      ctx,
-      `MISSION TIME: ${formatDuration(elapsed)}`,
-      tlX,
-      tlY + fontSize + 8,
-      fontSize,
-      green,
-      false,
-    );
-  } else {
-    drawHudText(ctx, "● STANDBY", tlX, tlY, fontSize, amberDim, false);
-    drawHudText(ctx, "AWAITING RECORD", tlX, tlY + fontSize + 8, Math.round(fontSize * 0.85), amberDim, false);
+  if (config.showRecordingIndicator) {
+    // Dark backing
+    ctx.fillStyle = panelBg;
+    ctx.fillRect(tlX - 4, tlY - 4, tlPanelW, tlPanelH);
+
+    ctx.textBaseline = "top";
+    ctx.textAlign = "left";
+
+    if (isRecording) {
+      // Blinking "RECORDING" with text outlines
+      const blink = Math.sin(now / 400) > 0;
+      const recColor = blink ? "#ff3333" : "rgba(255, 51, 51, 0.4)";
+      drawHudText(ctx, "● RECORDING", tlX, tlY, fontSize, recColor, true, font);
+
+      // Mission time
+      if (config.showElapsed) {
+        drawHudText(
+          ctx,
+          `MISSION TIME: ${formatDuration(elapsed)}`,
+          tlX,
+          tlY + fontSize + 8,
+          fontSize,
+          green,
+          false,
+          font,
+        );
+      }
+    } else {
+      drawHudText(ctx, "● STANDBY", tlX, tlY, fontSize, amberDim, false, font);
+      drawHudText(ctx, "AWAITING RECORD", tlX, tlY + fontSize + 8, Math.round(fontSize * 0.85), amberDim, false, font);
+    }
   }
 
   // ── Top-right: Military date/time + system ID ──
@@ -97,32 +107,37 @@ export function militaryHudRenderer(
   const trX = width - margin - trPanelW - 10;
   const trY = margin + 14;
 
-  // Dark backing
-  ctx.fillStyle = panelBg;
-  ctx.fillRect(trX - 4, trY - 4, trPanelW, trPanelH);
+  if (config.showTimestamp) {
+    // Dark backing
+    ctx.fillStyle = panelBg;
+    ctx.fillRect(trX - 4, trY - 4, trPanelW, trPanelH);
 
-  ctx.textAlign = "right";
-  drawHudText(
-    ctx,
-    formatMilitaryDateTime(timestamp),
-    width - margin - 14,
-    trY,
-    fontSize,
-    amber,
-    false,
-  );
+    ctx.textBaseline = "top";
+    ctx.textAlign = "right";
+    drawHudText(
+      ctx,
+      formatMilitaryDateTime(timestamp),
+      width - margin - 14,
+      trY,
+      fontSize,
+      amber,
+      false,
+      font,
+    );
 
-  // System identifier
-  drawHudText(
-    ctx,
-    "VIDLOG SYS v1.0",
-    width - margin - 14,
-    trY + fontSize + 6,
-    Math.round(fontSize * 0.8),
-    amberDim,
-    false,
-  );
-  ctx.textAlign = "left";
+    // System identifier
+    drawHudText(
+      ctx,
+      "VIDLOG SYS v1.0",
+      width - margin - 14,
+      trY + fontSize + 6,
+      Math.round(fontSize * 0.8),
+      amberDim,
+      false,
+      font,
+    );
+    ctx.textAlign = "left";
+  }
 
   // ── Bottom-left: Log entry label + title ──
   const blPanelW = Math.round(width * 0.45);
@@ -144,12 +159,13 @@ export function militaryHudRenderer(
     Math.round(fontSize * 0.8),
     amberDim,
     false,
+    font,
   );
 
   // Title
   if (title) {
     let displayTitle = title.toUpperCase();
-    ctx.font = `700 ${fontSize}px "JetBrains Mono", monospace`;
+    ctx.font = `700 ${fontSize}px ${font}`;
     const maxW = blPanelW - 20;
     while (ctx.measureText(displayTitle).width > maxW && displayTitle.length > 3) {
       displayTitle = displayTitle.slice(0, -4) + "...";
@@ -162,6 +178,7 @@ export function militaryHudRenderer(
       fontSize,
       amber,
       true,
+      font,
     );
   }
 
@@ -178,25 +195,16 @@ export function militaryHudRenderer(
   ctx.textAlign = "right";
   ctx.textBaseline = "top";
 
-  if (isRecording) {
-    drawHudText(
-      ctx,
-      `T+ ${formatDuration(elapsed)}`,
-      width - margin - 18,
-      brY + 6,
-      fontSize,
-      green,
-      false,
-    );
-  } else {
+  if (config.showElapsed) {
     drawHudText(
       ctx,
-      "T+ 00:00",
+      isRecording ? `T+ ${formatDuration(elapsed)}` : "T+ 00:00",
       width - margin - 18,
       brY + 6,
       fontSize,
-      amberDim,
+      isRecording ? green : amberDim,
       false,
+      font,
     );
   }
 
@@ -208,6 +216,7 @@ export function militaryHudRenderer(
     Math.round(fontSize * 0.8),
     amberDim,
     false,
+    font,
   );
   ctx.textAlign = "left";
 
@@ -292,113 +301,13 @@ function drawInnerFrame(
   color: string,
 ): void {
   const inset = margin + 4;
-  ctx.strokeStyle = `rgba(255, 165, 0, 0.12)`;
+  ctx.strokeStyle = withAlpha(color, 0.12);
   ctx.lineWidth = 1;
   ctx.strokeRect(inset, inset, w - inset * 2, h - inset * 2);
 
   // Slightly brighter inner line
-  ctx.strokeStyle = `rgba(255, 165, 0, 0.08)`;
+  ctx.strokeStyle = withAlpha(color, 0.08);
   ctx.strokeRect(inset + 6, inset + 6, w - (inset + 6) * 2, h - (inset + 6) * 2);
-  void color; // color param used for type consistency
-}
-
-/** Draw enhanced angular bracket corners with tick marks */
-function drawAngularCorners(
-  ctx: CanvasRenderingContext2D,
-  w: number,
-  h: number,
-  margin: number,
-  color: string,
-): void {
-  const len = Math.round(w * 0.06);
-  ctx.strokeStyle = color;
-  ctx.lineWidth = 2;
-
-  // Top-left
-  ctx.beginPath();
-  ctx.moveTo(margin, margin + len);
-  ctx.lineTo(margin, margin);
-  ctx.lineTo(margin + len, margin);
-  ctx.stroke();
-
-  // Top-right
-  ctx.beginPath();
-  ctx.moveTo(w - margin - len, margin);
-  ctx.lineTo(w - margin, margin);
-  ctx.lineTo(w - margin, margin + len);
-  ctx.stroke();
-
-  // Bottom-left
-  ctx.beginPath();
-  ctx.moveTo(margin, h - margin - len);
-  ctx.lineTo(margin, h - margin);
-  ctx.lineTo(margin + len, h - margin);
-  ctx.stroke();
-
-  // Bottom-right
-  ctx.beginPath();
-  ctx.moveTo(w - margin - len, h - margin);
-  ctx.lineTo(w - margin, h - margin);
-  ctx.lineTo(w - margin, h - margin - len);
-  ctx.stroke();
-
-  // Tick marks along bracket arms
-  const tickLen = 4;
-  const tickCount = 3;
-  ctx.strokeStyle = `rgba(255, 165, 0, 0.4)`;
-  ctx.lineWidth = 1;
-
-  for (let i = 1; i <= tickCount; i++) {
-    const t = (i / (tickCount + 1)) * len;
-
-    // Top-left horizontal ticks
-    ctx.beginPath();
-    ctx.moveTo(margin + t, margin);
-    ctx.lineTo(margin + t, margin + tickLen);
-    ctx.stroke();
-
-    // Top-left vertical ticks
-    ctx.beginPath();
-    ctx.moveTo(margin, margin + t);
-    ctx.lineTo(margin + tickLen, margin + t);
-    ctx.stroke();
-
-    // Top-right horizontal ticks
-    ctx.beginPath();
-    ctx.moveTo(w - margin - t, margin);
-    ctx.lineTo(w - margin - t, margin + tickLen);
-    ctx.stroke();
-
-    // Top-right vertical ticks
-    ctx.beginPath();
-    ctx.moveTo(w - margin, margin + t);
-    ctx.lineTo(w - margin - tickLen, margin + t);
-    ctx.stroke();
-
-    // Bottom-left horizontal ticks
-    ctx.beginPath();
-    ctx.moveTo(margin + t, h - margin);
-    ctx.lineTo(margin + t, h - margin - tickLen);
-    ctx.stroke();
-
-    // Bottom-left vertical ticks
-    ctx.beginPath();
-    ctx.moveTo(margin, h - margin - t);
-    ctx.lineTo(margin + tickLen, h - margin - t);
-    ctx.stroke();
-
-    // Bottom-right horizontal ticks
-    ctx.beginPath();
-    ctx.moveTo(w - margin - t, h - margin);
-    ctx.lineTo(w - margin - t, h - margin - tickLen);
-    ctx.stroke();
-
-    // Bottom-right vertical ticks
-    ctx.beginPath();
-    ctx.moveTo(w - margin, h - margin - t);
-    ctx.lineTo(w - margin - tickLen, h - margin - t);
-    ctx.stroke();
-  }
 }
 
 /** Draw vertical audio frequency bars on the left edge (real data) */
@@ -422,11 +331,11 @@ function drawAudioBars(
     const alpha = 0.15 + value * 0.65;
 
     // Darker bar background (track)
-    ctx.fillStyle = "rgba(255, 165, 0, 0.06)";
+    ctx.fillStyle = withAlpha(color, 0.06);
     ctx.fillRect(x, startY + i * gap, maxBarWidth, barHeight);
 
     // Active bar
-    ctx.fillStyle = `rgba(255, 165, 0, ${alpha})`;
+    ctx.fillStyle = withAlpha(color, alpha);
     ctx.fillRect(x, startY + i * gap, barWidth, barHeight);
 
     // Bright tip for high values
@@ -435,8 +344,6 @@ function drawAudioBars(
       ctx.fillRect(x + barWidth - 2, startY + i * gap, 2, barHeight);
     }
   }
-
-  void color; // used above
 }
 
 /** Draw horizontal audio peak meter at top center */
@@ -447,6 +354,7 @@ function drawAudioPeakMeter(
   audioLevel: number,
   amber: string,
   green: string,
+  font: string,
 ): void {
   const meterW = Math.round(width * 0.30);
   const meterH = 6;
@@ -458,7 +366,7 @@ function drawAudioPeakMeter(
   ctx.fillRect(meterX - 2, meterY - 2, meterW + 4, meterH + 4);
 
   // Track outline
-  ctx.strokeStyle = "rgba(255, 165, 0, 0.3)";
+  ctx.strokeStyle = withAlpha(amber, 0.3);
   ctx.lineWidth = 1;
   ctx.strokeRect(meterX - 2, meterY - 2, meterW + 4, meterH + 4);
 
@@ -487,9 +395,9 @@ function drawAudioPeakMeter(
 
   // Labels
   const labelSize = Math.max(8, Math.round(width * 0.007));
-  ctx.font = `400 ${labelSize}px "JetBrains Mono", monospace`;
+  ctx.font = `400 ${labelSize}px ${font}`;
   ctx.textBaseline = "top";
-  ctx.fillStyle = "rgba(255, 165, 0, 0.4)";
+  ctx.fillStyle = withAlpha(amber, 0.4);
   ctx.textAlign = "left";
   ctx.fillText("AUDIO", meterX, meterY + meterH + 3);
   ctx.textAlign = "right";
@@ -506,8 +414,9 @@ function drawHudText(
   size: number,
   color: string,
   bold: boolean,
+  font: string,
 ): void {
-  ctx.font = `${bold ? 700 : 500} ${size}px "JetBrains Mono", monospace`;
+  ctx.font = `${bold ? 700 : 500} ${size}px ${font}`;
 
   // Dark stroke outline for readability on any background
   ctx.strokeStyle = "rgba(0, 0, 0, 0.8)";
@@ -533,7 +442,7 @@ function drawCrosshair(
   const size = Math.round(w * 0.018);
 
   // Static crosshair lines
-  ctx.strokeStyle = "rgba(255, 165, 0, 0.18)";
+  ctx.strokeStyle = withAlpha(color, 0.18);
   ctx.lineWidth = 1;
   ctx.beginPath();
   ctx.moveTo(cx - size, cy);
@@ -552,7 +461,7 @@ function drawCrosshair(
   const rotation = now / 3000;
   const dashCount = 4;
 
-  ctx.strokeStyle = `rgba(255, 165, 0, 0.12)`;
+  ctx.strokeStyle = withAlpha(color, 0.12);
   ctx.lineWidth = 1;
 
   for (let i = 0; i < dashCount; i++) {
@@ -567,6 +476,4 @@ function drawCrosshair(
     ctx.lineTo(x2, y2);
     ctx.stroke();
   }
-
-  void color; // used via amber in the caller
 }
@@ -0,0 +1,226 @@
+import type { TemplateConfig } from "~/models/types";
+
+/**
+ * Drawing helpers shared by the built-in renderers, so every
+ * TemplateConfig field behaves the same way across templates.
+ */
+
+/**
+ * Re-express a color with the given alpha.
+ * Accepts #rgb, #rrggbb, rgb() and rgba(); anything else is returned as-is.
+ */
+export function withAlpha(color: string, alpha: number): string {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3) {
+      digits = digits.split("").map((d) => d + d).join("");
+    }
+    const r = parseInt(digits.slice(0, 2), 16);
+    const g = parseInt(digits.slice(2, 4), 16);
+    const b = parseInt(digits.slice(4, 6), 16);
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  }
+
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i.exec(color.trim());
+  if (rgb) {
+    return `rgba(${rgb[1]}, ${rgb[2]}, ${rgb[3]}, ${alpha})`;
+  }
+
+  return color;
+}
+
+/** CSS font stack for the template's configured font */
+export function fontStack(config: TemplateConfig): string {
+  return `"${config.fontFamily}", monospace`;
+}
+
+/** Draw CRT-style horizontal scan lines over the whole frame */
+export function drawScanLines(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  strength: number = 0.1,
+): void {
+  ctx.fillStyle = `rgba(0, 0, 0, ${strength})`;
+  for (let y = 0; y < h; y += 2) {
+    ctx.fillRect(0, y, w, 1);
+  }
+}
+
+/** Draw the four corner markers in the configured style */
+export function drawCorners(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  margin: number,
+  style: TemplateConfig["cornerStyle"],
+  color: string,
+  alpha: number = 1,
+): void {
+  if (style === "none") return;
+
+  const len = Math.round(w * 0.06);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = alpha < 1 ? 1 : 2;
+  ctx.globalAlpha = alpha;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = style === "rounded" && alpha === 1 ? 4 : 0;
+
+  if (style === "rounded") {
+    drawRoundedCorners(ctx, w, h, margin, len);
+  } else {
+    drawSquareCorners(ctx, w, h, margin, len);
+    if (style === "angular" && alpha === 1) {
+      drawCornerTicks(ctx, w, h, margin, len, color);
+    }
+  }
+
+  ctx.shadowBlur = 0;
+  ctx.globalAlpha = 1;
+}
+
+function drawRoundedCorners(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  margin: number,
+  len: number,
+): void {
+  const r = 8;
+
+  // Top-left
+  ctx.beginPath();
+  ctx.moveTo(margin, margin + len);
+  ctx.lineTo(margin, margin + r);
+  ctx.arcTo(margin, margin, margin + r, margin, r);
+  ctx.lineTo(margin + len, margin);
+  ctx.stroke();
+
+  // Top-right
+  ctx.beginPath();
+  ctx.moveTo(w - margin - len, margin);
+  ctx.lineTo(w - margin - r, margin);
+  ctx.arcTo(w - margin, margin, w - margin, margin + r, r);
+  ctx.lineTo(w - margin, margin + len);
+  ctx.stroke();
+
+  // Bottom-left
+  ctx.beginPath();
+  ctx.moveTo(margin, h - margin - len);
+  ctx.lineTo(margin, h - margin - r);
+  ctx.arcTo(margin, h - margin, margin + r, h - margin, r);
+  ctx.lineTo(margin + len, h - margin);
+  ctx.stroke();
+
+  // Bottom-right
+  ctx.beginPath();
+  ctx.moveTo(w - margin, h - margin - len);
+  ctx.lineTo(w - margin, h - margin - r);
+  ctx.arcTo(w - margin, h - margin, w - margin - r, h - margin, r);
+  ctx.lineTo(w - margin - len, h - margin);
+  ctx.stroke();
+}
+
+function drawSquareCorners(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  margin: number,
+  len: number,
+): void {
+  // Top-left
+  ctx.beginPath();
+  ctx.moveTo(margin, margin + len);
+  ctx.lineTo(margin, margin);
+  ctx.lineTo(margin + len, margin);
+  ctx.stroke();
+
+  // Top-right
+  ctx.beginPath();
+  ctx.moveTo(w - margin - len, margin);
+  ctx.lineTo(w - margin, margin);
+  ctx.lineTo(w - margin, margin + len);
+  ctx.stroke();
+
+  // Bottom-left
+  ctx.beginPath();
+  ctx.moveTo(margin, h - margin - len);
+  ctx.lineTo(margin, h - margin);
+  ctx.lineTo(margin + len, h - margin);
+  ctx.stroke();
+
+  // Bottom-right
+  ctx.beginPath();
+  ctx.moveTo(w - margin - len, h - margin);
+  ctx.lineTo(w - margin, h - margin);
+  ctx.lineTo(w - margin, h - margin - len);
+  ctx.stroke();
+}
+
+/** Tick marks along the bracket arms (angular style) */
+function drawCornerTicks(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  margin: number,
+  len: number,
+  color: string,
+): void {
+  const tickLen = 4;
+  const tickCount = 3;
+  ctx.strokeStyle = withAlpha(color, 0.4);
+  ctx.lineWidth = 1;
+
+  for (let i = 1; i <= tickCount; i++) {
+    const t = (i / (tickCount + 1)) * len;
+
+    // Top-left horizontal ticks
+    ctx.beginPath();
+    ctx.moveTo(margin + t, margin);
+    ctx.lineTo(margin + t, margin + tickLen);
+    ctx.stroke();
+
+    // Top-left vertical ticks
+    ctx.beginPath();
+    ctx.moveTo(margin, margin + t);
+    ctx.lineTo(margin + tickLen, margin + t);
+    ctx.stroke();
+
+    // Top-right horizontal ticks
+    ctx.beginPath();
+    ctx.moveTo(w - margin - t, margin);
+    ctx.lineTo(w - margin - t, margin + tickLen);
+    ctx.stroke();
+
+    // Top-right vertical ticks
+    ctx.beginPath();
+    ctx.moveTo(w - margin, margin + t);
+    ctx.lineTo(w - margin - tickLen, margin + t);
+    ctx.stroke();
+
+    // Bottom-left horizontal ticks
+    ctx.beginPath();
+    ctx.moveTo(margin + t, h - margin);
+    ctx.lineTo(margin + t, h - margin - tickLen);
+    ctx.stroke();
+
+    // Bottom-left vertical ticks
+    ctx.beginPath();
+    ctx.moveTo(margin, h - margin - t);
+    ctx.lineTo(margin + tickLen, h - margin - t);
+    ctx.stroke();
+
+    // Bottom-right horizontal ticks
+    ctx.beginPath();
+    ctx.moveTo(w - margin - t, h - margin);
+    ctx.lineTo(w - margin - t, h - margin - tickLen);
+    ctx.stroke();
+
+    // Bottom-right vertical ticks
+    ctx.beginPath();
+    ctx.moveTo(w - margin, h - margin - t);
+    ctx.lineTo(w - margin - tickLen, h - margin - t);
+    ctx.stroke();
+  }
+}
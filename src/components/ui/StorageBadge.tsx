@@ -6,6 +6,11 @@ const PROVIDER_CONFIG: Record<
   { label: string; compactLabel: string; accent: boolean }
 > = {
   opfs: { label: "Device Storage", compactLabel: "Device", accent: true },
+  indexeddb: {
+    label: "Browser Storage",
+    compactLabel: "Browser",
+    accent: true,
+  },
   filesystem: {
     label: "Folder Storage",
     compactLabel: "Folder",
@@ -5,9 +5,9 @@ import { activateFilesystem } from "~/services/init";
 import { toastStore } from "~/stores/toast";
 
 /**
- * Persistent banner shown when the app fell back to ephemeral storage because
- * the previously-chosen filesystem folder could not be accessed on boot
- * (permission denied, handle expired, etc.).
+ * Persistent banner shown when the app fell back to IndexedDB or ephemeral
+ * storage because the previously-chosen provider could not be used on boot
+ * (folder permission denied, handle expired, API missing, etc.).
  *
  * Offers a "Reconnect" button that re-triggers the folder picker.
  */
@@ -49,7 +49,14 @@ export default function StorageRecoveryBanner() {
 
   const reason = () => settingsStore.storageFallbackReason();
 
-  const message = (): string => {
+  const message = (): string => `${cause()} ${destination()}`;
+
+  const destination = (): string =>
+    settingsStore.settings().activeStorageProvider === "indexeddb"
+      ? "New recordings are saved in the browser database."
+      : "New recordings are kept in memory only.";
+
+  const cause = (): string => {
     switch (reason()) {
       case "permission-denied":
         return "Folder access was denied. Your previous filesystem recordings are not visible.";
@@ -0,0 +1,22 @@
+/** Toggle switch */
+export default function Toggle(props: { checked: boolean; onChange: (v: boolean) => void; label?: string }) {
+  return (
+    <button
+      role="switch"
+      aria-checked={props.checked}
+      aria-label={props.label}
+      class={`relative inline-flex h-7 w-12 min-w-[48px] items-center rounded-full transition-colors cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent-cyan/50 ${
+        props.checked
+          ? "bg-accent-cyan/40"
+          : "bg-bg-primary border border-border-default"
+      }`}
+      onClick={() => props.onChange(!props.checked)}
+    >
+      <span
+        class={`inline-block h-5 w-5 rounded-full bg-text-primary transition-transform ${
+          props.checked ? "translate-x-6" : "translate-x-1"
+        }`}
+      />
+    </button>
+  );
+}
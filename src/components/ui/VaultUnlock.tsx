@@ -0,0 +1,82 @@
+import { createSignal, Show } from "solid-js";
+import { vault } from "~/services/storage/vault";
+
+/**
+ * Full-screen unlock prompt shown while the encrypted vault is locked —
+ * at startup and after auto-lock. Nothing behind it is mounted.
+ */
+export default function VaultUnlock() {
+  const [passphrase, setPassphrase] = createSignal("");
+  const [busy, setBusy] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  async function handleUnlock(e: Event) {
+    e.preventDefault();
+    if (!passphrase() || busy()) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const ok = await vault.unlock(passphrase());
+      if (!ok) {
+        setError("Wrong passphrase");
+        return;
+      }
+      setPassphrase("");
+    } catch (err) {
+      console.error("[VaultUnlock] Failed to unlock vault:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div class="min-h-[100dvh] flex items-center justify-center px-4">
+      <form
+        class="flex flex-col items-center text-center gap-6 w-full max-w-sm"
+        onSubmit={handleUnlock}
+      >
+        <div class="flex flex-col items-center gap-3">
+          <div class="px-6 py-3 border border-accent-cyan/40 rounded-sm bg-accent-cyan/5">
+            <h1 class="font-display font-bold text-3xl tracking-[0.25em] text-accent-cyan">
+              VIDLOG
+            </h1>
+          </div>
+          <div class="h-px w-32 bg-gradient-to-r from-transparent via-accent-cyan/50 to-transparent" />
+        </div>
+
+        <div class="flex flex-col gap-1">
+          <p class="text-text-primary text-sm">Your vault is locked</p>
+          <p class="text-text-secondary text-xs font-mono">
+            Enter your passphrase to decrypt your entries.
+          </p>
+        </div>
+
+        <input
+          type="password"
+          autocomplete="current-password"
+          placeholder="Vault passphrase"
+          value={passphrase()}
+          onInput={(e) => setPassphrase(e.currentTarget.value)}
+          class="w-full bg-bg-primary border border-border-default rounded-md px-3 py-2 min-h-[44px] text-sm text-text-primary placeholder:text-text-secondary/40 font-mono focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30"
+          autofocus
+        />
+
+        <Show when={error()}>
+          <p class="text-xs font-mono text-accent-red">{error()}</p>
+        </Show>
+
+        <button
+          type="submit"
+          class="px-8 py-2.5 rounded-md bg-accent-cyan/15 border border-accent-cyan/40 text-accent-cyan font-mono text-sm font-medium hover:bg-accent-cyan/25 active:bg-accent-cyan/30 transition-colors cursor-pointer disabled:opacity-50"
+          disabled={!passphrase() || busy()}
+        >
+          <Show when={busy()} fallback="Unlock">
+            <span class="animate-pulse">Unlocking...</span>
+          </Show>
+        </button>
+      </form>
+    </div>
+  );
+}
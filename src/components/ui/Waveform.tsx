@@ -0,0 +1,27 @@
+import { For } from "solid-js";
+import { WAVEFORM_BARS } from "~/utils/waveform";
+
+/**
+ * An audio entry's waveform as bars filling their container. Bars before
+ * `progress` (0–1) are lit; without a waveform, flat bars stand in.
+ */
+export default function Waveform(props: { peaks: number[] | undefined; progress?: number; class?: string }) {
+  const bars = () => (props.peaks && props.peaks.length > 0 ? props.peaks : new Array<number>(WAVEFORM_BARS).fill(0));
+
+  return (
+    <div class={`flex items-center gap-px ${props.class ?? ""}`} aria-hidden="true">
+      <For each={bars()}>
+        {(peak, i) => (
+          <div
+            class="flex-1 min-w-0 rounded-sm transition-colors duration-100"
+            classList={{
+              "bg-accent-cyan": props.progress !== undefined && (i() + 0.5) / bars().length <= props.progress,
+              "bg-accent-cyan/30": props.progress === undefined || (i() + 0.5) / bars().length > props.progress,
+            }}
+            style={{ height: `${Math.max(4, peak * 100)}%` }}
+          />
+        )}
+      </For>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import Record from "./routes/Record";
 // Lazy load other routes
 const Library = lazy(() => import("./routes/Library"));
 const Settings = lazy(() => import("./routes/Settings"));
+const TemplateEditor = lazy(() => import("./routes/TemplateEditor"));
 
 const root = document.getElementById("root");
 if (!root) throw new Error("Root element not found");
@@ -22,6 +23,7 @@ render(
       <Route path="/" component={Record} />
       <Route path="/library" component={Library} />
       <Route path="/settings" component={Settings} />
+      <Route path="/templates" component={TemplateEditor} />
     </Router>
   ),
   root,
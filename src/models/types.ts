@@ -5,7 +5,7 @@ export type EntryId = string;
 export type CloudStatus = "none" | "uploading" | "uploaded" | "error";
 
 /** Cloud provider type */
-export type CloudProviderType = "google-drive";
+export type CloudProviderType = "google-drive" | "webdav" | "s3";
 
 /** Cloud sync entry status — tracks the sync lifecycle of individual entries */
 export type CloudSyncEntryStatus =
@@ -22,8 +22,10 @@ export interface CloudFileRef {
   mimeType: string;
 }
 
-/** Cloud sync metadata attached to a diary entry */
+/** Cloud sync metadata attached to a diary entry — one per cloud connection */
 export interface CloudSyncInfo {
+  /** The cloud connection this copy lives in */
+  connectionId: string;
   provider: CloudProviderType;
   /** Reference to the video file in cloud — null until upload completes */
   videoFileRef: CloudFileRef | null;
@@ -32,8 +34,35 @@ export interface CloudSyncInfo {
   syncedAt: number;
   status: CloudSyncEntryStatus;
   lastError?: string;
+  /** Content hash per synced field as of the last sync — the base for two-way merges */
+  baseHashes?: Partial<Record<SyncField, string>>;
+  /** When the local video was removed to free space — re-downloaded on play */
+  offloadedAt?: number;
 }
 
+/** Which synced videos are offloaded first when local storage runs low */
+export type OffloadOrder = "oldest" | "least-watched";
+
+/** Metadata fields that sync both ways between devices */
+export type SyncField = "title" | "tags" | "edit" | "transcript";
+
+/** Which entries auto-sync uploads */
+export type CloudSyncRuleMode = "all" | "tags" | "duration" | "size" | "never";
+
+/** The user's auto-sync rule — only the fields for `mode` apply */
+export interface CloudSyncRule {
+  mode: CloudSyncRuleMode;
+  /** "tags": entries with any of these tags (case-insensitive) */
+  tags: string[];
+  /** "duration": entries no longer than this */
+  maxMinutes: number;
+  /** "size": videos no larger than this */
+  maxMegabytes: number;
+}
+
+/** Per-entry exception to the sync rule */
+export type CloudSyncOverride = "pin" | "local-only";
+
 /** Recording status */
 export type RecordingStatus =
   | "idle"
@@ -53,8 +82,63 @@ export type RecordingProfile = "standard" | "efficient";
 /** Recording format — determines container and codec family */
 export type RecordingFormat = "av1" | "h264" | "webm";
 
+/**
+ * Recording encoder — MediaRecorder (browser's choice of codec within the
+ * format) or WebCodecs (exactly the chosen format, with duration and seek index)
+ */
+export type RecordingEncoder = "mediarecorder" | "webcodecs";
+
+/**
+ * What the recorder captures — the webcam, a shared screen with the webcam
+ * composited in, or the microphone alone
+ */
+export type CaptureSource = "camera" | "screen" | "audio";
+
+/**
+ * What an entry holds — a video, or an audio recording. Audio entries may
+ * still carry a video track: the visualizer, if it was recorded.
+ */
+export type MediaKind = "video" | "audio";
+
+/** How a screen recording arranges the screen and the webcam */
+export type ScreenLayout = "bubble" | "side-by-side" | "camera-only";
+
+/**
+ * The webcam bubble of the "bubble" layout — its center as fractions of the
+ * frame's width and height, its diameter as a fraction of the frame height
+ */
+export interface PipBubble {
+  x: number;
+  y: number;
+  size: number;
+}
+
+/**
+ * Web Audio processing applied to the mic before it's recorded, in this
+ * order. Each stage has a neutral setting, so it can change while recording.
+ */
+export interface AudioProcessing {
+  enabled: boolean;
+  /** High-pass cutoff in Hz — rumble and handling noise (0 = off) */
+  highPassHz: number;
+  /** Evens out loud and quiet speech */
+  compressor: boolean;
+  /** Level in dBFS below which the mic is muted (-100 = off) */
+  gateThresholdDb: number;
+  /** Output gain in dB */
+  gainDb: number;
+}
+
+/** What the browser and VidLog do to one microphone's audio */
+export interface MicrophoneSettings {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  processing: AudioProcessing;
+}
+
 /** Storage provider type */
-export type StorageProviderType = "ephemeral" | "opfs" | "filesystem";
+export type StorageProviderType = "ephemeral" | "opfs" | "indexeddb" | "filesystem";
 
 /** Video quality settings mapped from presets */
 export const VIDEO_QUALITY_MAP: Record<
@@ -66,6 +150,39 @@ export const VIDEO_QUALITY_MAP: Record<
   high: { width: 1920, height: 1080, bitrate: 5_000_000 },
 };
 
+/** One transcribed word and where it is spoken in the video (seconds) */
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** On-device speech-to-text result for an entry */
+export interface Transcript {
+  /** Full transcript text */
+  text: string;
+  words: TranscriptWord[];
+  /** Model that produced it (e.g. "onnx-community/whisper-base_timestamped") */
+  model: string;
+  createdAt: number;
+}
+
+/** A span of an entry's video, in seconds */
+export interface EditSegment {
+  start: number;
+  end: number;
+}
+
+/**
+ * Non-destructive edit of an entry — the spans of the video to keep, in
+ * order. Applied at playback; the stored video is untouched until the
+ * edit is rendered.
+ */
+export interface EntryEdit {
+  segments: EditSegment[];
+  updatedAt: number;
+}
+
 /** A single video diary entry */
 export interface DiaryEntry {
   id: EntryId;
@@ -79,10 +196,16 @@ export interface DiaryEntry {
   /** Which storage provider this entry lives in */
   storageProvider: StorageProviderType;
 
-  /** MIME type of the recorded video (e.g. "video/mp4;codecs=av01,opus") */
+  /** Video or audio-only recording */
+  mediaKind: MediaKind;
+
+  /** MIME type of the recorded video (e.g. "video/mp4;codecs=av01,opus", or "audio/webm;codecs=opus") */
   mimeType: string;
 
-  /** Video dimensions — null for entries created before this field existed */
+  /**
+   * Video dimensions — null for entries created before this field existed,
+   * and for audio entries without a visualizer track
+   */
   videoWidth: number | null;
   videoHeight: number | null;
 
@@ -97,8 +220,23 @@ export interface DiaryEntry {
   cloudUrl: string | null;
   cloudError: string | null;
 
-  /** Structured cloud sync info — used by the cloud sync system */
-  cloudSync?: CloudSyncInfo;
+  /** Structured cloud sync info, one record per connection the entry is backed up to */
+  cloudSyncs?: CloudSyncInfo[];
+
+  /** Speech-to-text transcript — absent until transcription has run */
+  transcript?: Transcript;
+
+  /** Trim/split edit applied at playback — absent for unedited entries */
+  edit?: EntryEdit;
+
+  /** "pin" always uploads, "local-only" never does — absent to follow the sync rule */
+  syncOverride?: CloudSyncOverride;
+
+  /** Layout of a screen recording — absent for camera recordings */
+  screenLayout?: ScreenLayout;
+
+  /** Peak levels (0–1) across an audio entry, for its waveform — absent for videos */
+  waveform?: number[];
 }
 
 /** Serializable subset of DiaryEntry — stored as JSON in OPFS. Excludes Blob/URL fields. */
@@ -111,9 +249,11 @@ export interface DiaryEntryMeta {
   tags: string[];
   templateId: string;
   storageProvider: StorageProviderType;
-  /** MIME type of the recorded video (e.g. "video/mp4;codecs=av01,opus") */
+  /** Video or audio-only recording — absent for entries created before audio entries existed (videos) */
+  mediaKind?: MediaKind;
+  /** MIME type of the recorded video (e.g. "video/mp4;codecs=av01,opus", or "audio/webm;codecs=opus") */
   mimeType: string;
-  /** Video dimensions — null for entries created before this field existed */
+  /** Video dimensions — null for entries created before this field existed, and for audio without a visualizer */
   videoWidth: number | null;
   videoHeight: number | null;
   thumbnailDataUrl: string | null;
@@ -123,8 +263,23 @@ export interface DiaryEntryMeta {
   cloudUrl: string | null;
   cloudError: string | null;
 
-  /** Structured cloud sync info — used by the cloud sync system */
-  cloudSync?: CloudSyncInfo;
+  /** Structured cloud sync info, one record per connection the entry is backed up to */
+  cloudSyncs?: CloudSyncInfo[];
+
+  /** Speech-to-text transcript — absent until transcription has run */
+  transcript?: Transcript;
+
+  /** Trim/split edit applied at playback — absent for unedited entries */
+  edit?: EntryEdit;
+
+  /** "pin" always uploads, "local-only" never does — absent to follow the sync rule */
+  syncOverride?: CloudSyncOverride;
+
+  /** Layout of a screen recording — absent for camera recordings */
+  screenLayout?: ScreenLayout;
+
+  /** Peak levels (0–1) across an audio entry, for its waveform — absent for videos */
+  waveform?: number[];
 }
 
 /** Frame data passed to template renderers every animation frame */
@@ -139,6 +294,11 @@ export interface TemplateFrame {
   audioLevel: number;
   /** Raw frequency bins from AnalyserNode (null when no audio track available) */
   audioFrequencyData: Uint8Array | null;
+  /**
+   * Recording audio without a camera — there's no picture under the
+   * overlay, only the built-in visualizer. Templates may draw their own.
+   */
+  audioOnly?: boolean;
 }
 
 /** Configuration for a template's visual style */
@@ -160,10 +320,22 @@ export interface DiaryTemplate {
   name: string;
   description: string;
   previewImageUrl: string;
-  render: (ctx: CanvasRenderingContext2D, frame: TemplateFrame) => void;
+  /** Draws the overlay for one frame, styled by `config` (the template's own config) */
+  render: (ctx: CanvasRenderingContext2D, frame: TemplateFrame, config: TemplateConfig) => void;
   config: TemplateConfig;
 }
 
+/** A user-saved copy of a built-in template with its own config */
+export interface TemplateVariant {
+  id: string;
+  name: string;
+  /** ID of the built-in template whose renderer this variant uses */
+  baseId: string;
+  config: TemplateConfig;
+  createdAt: number;
+  updatedAt: number;
+}
+
 /** Recording state */
 export interface RecordingState {
   status: RecordingStatus;
@@ -181,11 +353,38 @@ export interface AppSettings {
   videoQuality: VideoQuality;
   recordingProfile: RecordingProfile;
   recordingFormat: RecordingFormat;
+  recordingEncoder: RecordingEncoder;
+  /** Layout new screen recordings start with */
+  screenLayout: ScreenLayout;
+  /** Whether screen recordings ask for tab/system audio, mixed with the mic */
+  screenAudio: boolean;
+  /** Where the webcam bubble sits in screen recordings */
+  pipBubble: PipBubble;
+  /** Whether audio entries also record the visualizer as a video track */
+  audioVisualizer: boolean;
+  /** Camera to record with — null for the browser's choice */
+  cameraDeviceId: string | null;
+  /** Microphone to record with — null for the browser's choice */
+  microphoneDeviceId: string | null;
+  /** Audio settings per microphone, by device ID ("default" for the browser's choice) */
+  microphoneSettings: Record<string, MicrophoneSettings>;
   maxDuration: number;
   autoGenerateTitle: boolean;
   activeStorageProvider: StorageProviderType;
-  /** Whether to automatically sync OPFS entries to cloud when connected */
+  /** Whether to automatically sync saved entries to cloud when connected */
   cloudAutoSync: boolean;
+  /** Which entries auto-sync uploads */
+  cloudSyncRule: CloudSyncRule;
+  /** Whether to transcribe new entries on-device after saving */
+  autoTranscribe: boolean;
+  /** Minutes without input before the encrypted vault locks itself (0 = never) */
+  vaultAutoLockMinutes: number;
+  /** Storage usage (% of quota) above which synced videos are offloaded (0 = never) */
+  offloadThreshold: number;
+  /** Which synced videos go first when offloading */
+  offloadOrder: OffloadOrder;
+  /** Whether a cloud-only video streamed to the end is kept on this device */
+  keepStreamedVideos: boolean;
 }
 
 /** Onboarding state — persisted to localStorage */
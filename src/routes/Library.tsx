@@ -1,7 +1,7 @@
-import { createSignal, Show, For } from "solid-js";
+import { createSignal, createMemo, Show, For } from "solid-js";
 import { diaryStore } from "~/stores/diary";
-import { searchEntries, filterByDate } from "~/utils/search";
-import type { DiaryEntry } from "~/models/types";
+import { buildSearchIndex, searchIndex, filterByDate, filterByKind } from "~/utils/search";
+import type { DiaryEntry, MediaKind } from "~/models/types";
 import DiaryCard from "~/components/library/DiaryCard";
 import DiarySearch from "~/components/library/DiarySearch";
 import DiaryDetail from "~/components/library/DiaryDetail";
@@ -10,14 +10,26 @@ import { toastStore } from "~/stores/toast";
 export default function Library() {
   const [searchQuery, setSearchQuery] = createSignal("");
   const [dateFilter, setDateFilter] = createSignal<"all" | "today" | "week">("all");
+  const [kindFilter, setKindFilter] = createSignal<MediaKind | "all">("all");
   const [selectedEntry, setSelectedEntry] = createSignal<DiaryEntry | null>(null);
+  // Where to start playback when an entry is opened from a transcript match
+  const [selectedStart, setSelectedStart] = createSignal<number | undefined>(undefined);
 
-  const filteredEntries = () => {
-    let result = diaryStore.entries();
-    result = searchEntries(result, searchQuery());
-    result = filterByDate(result, dateFilter());
-    return result;
-  };
+  // Rebuilt only when entries change, not on every keystroke
+  const index = createMemo(() => buildSearchIndex(diaryStore.entries()));
+
+  const searchResults = createMemo(() => {
+    const results = searchIndex(index(), searchQuery());
+    const inRange = new Set(filterByKind(filterByDate(results.map((r) => r.entry), dateFilter()), kindFilter()));
+    return results.filter((r) => inRange.has(r.entry));
+  });
+
+  const filteredEntries = () => searchResults().map((r) => r.entry);
+
+  function openEntry(entry: DiaryEntry, start?: number) {
+    setSelectedStart(start);
+    setSelectedEntry(entry);
+  }
 
   async function handleDelete(id: string) {
     try {
@@ -40,6 +52,7 @@ export default function Library() {
       <DiarySearch
         onSearch={setSearchQuery}
         onFilterDate={setDateFilter}
+        onFilterKind={setKindFilter}
       />
 
       {/* Entries grid */}
@@ -54,18 +67,19 @@ export default function Library() {
             </div>
             <Show when={diaryStore.entries().length === 0}>
               <p class="text-text-secondary/50 text-xs font-mono">
-                Record your first video diary entry to get started.
+                Record your first video or audio diary entry to get started.
               </p>
             </Show>
           </div>
         }
       >
         <div class="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-          <For each={filteredEntries()}>
-            {(entry) => (
+          <For each={searchResults()}>
+            {(result) => (
               <DiaryCard
-                entry={entry}
-                onClick={() => setSelectedEntry(entry)}
+                entry={result.entry}
+                match={result.match}
+                onClick={() => openEntry(result.entry, result.match?.start)}
               />
             )}
           </For>
@@ -80,8 +94,10 @@ export default function Library() {
       <Show when={selectedEntry()}>
         <DiaryDetail
           entry={selectedEntry()!}
+          initialTime={selectedStart()}
           onClose={() => setSelectedEntry(null)}
           onDelete={handleDelete}
+          onMoved={(entry) => setSelectedEntry(entry)}
         />
       </Show>
     </div>
@@ -1,22 +1,57 @@
 import { createSignal, createEffect, createMemo, Show, onMount, For, type JSX } from "solid-js";
 import { settingsStore } from "~/stores/settings";
 import { templateStore } from "~/stores/template";
+import Toggle from "~/components/ui/Toggle";
+import { A } from "@solidjs/router";
 import { diaryStore } from "~/stores/diary";
 import { cloudStore } from "~/stores/cloud";
 import { onboardingStore } from "~/stores/onboarding";
 import { toastStore } from "~/stores/toast";
 import { storageManager } from "~/services/storage/manager";
-import { activateOPFS, activateFilesystem } from "~/services/init";
+import { activateOPFS, activateIndexedDB, activateFilesystem } from "~/services/init";
 import { isOPFSAvailable, getStorageQuota } from "~/services/storage/opfs";
+import { isIndexedDBAvailable } from "~/services/storage/indexeddb";
 import { formatBytes } from "~/utils/format";
 import { isFilesystemAvailable, FilesystemStorage } from "~/services/storage/filesystem";
 import { clearDirectoryHandle } from "~/services/storage/handle-store";
-import { GoogleDriveProvider } from "~/services/cloud/google-drive";
+import { vault } from "~/services/storage/vault";
+import { migrateIntoVault, migrateOutOfVault, type VaultMigrationProgress } from "~/services/storage/vault-migration";
+import { migrationManager, type MigrationResult } from "~/services/storage/migration";
+import { offloadManager, type OffloadEstimate } from "~/services/storage/offload";
+import { videoRepairManager, type VideoRepairResult } from "~/services/storage/video-repair";
+import { STORAGE_PROVIDER_LABELS, getStorageProviderLabel } from "~/services/storage/registry";
+import { exportLibrary, backupFileName } from "~/services/backup/export";
+import { importLibrary } from "~/services/backup/import";
+import type { BackupProgress } from "~/services/backup/types";
 import { googleAuth } from "~/services/cloud/auth/google";
+import { createWebDAVAuth, DEFAULT_WEBDAV_FOLDER } from "~/services/cloud/auth/webdav";
+import { createS3Auth } from "~/services/cloud/auth/s3";
+import { CLOUD_PROVIDER_LABELS, getCloudProviderLabel, getConnectionLabel } from "~/services/cloud/registry";
 import { cloudSyncManager } from "~/services/cloud/manager";
+import { cloudEncryption } from "~/services/cloud/encryption";
+import { backgroundUploads } from "~/services/cloud/background";
+import { backupVerifier, VERIFY_FIX_LABELS, type VerifyFix, type VerifyIssue } from "~/services/cloud/verify";
+import { transcriptionManager } from "~/services/transcription/manager";
+import { TRANSCRIPTION_MODEL } from "~/services/transcription/types";
 import type { StorageQuota } from "~/services/storage/opfs";
-import type { CloudQuota } from "~/services/cloud/types";
-import type { VideoQuality, StorageProviderType, RecordingProfile, RecordingFormat } from "~/models/types";
+import type {
+  CloudConnection,
+  CloudProviderType,
+  CloudQuota,
+  SyncConflict,
+  SyncedFields,
+} from "~/services/cloud/types";
+import type {
+  VideoQuality,
+  StorageProviderType,
+  RecordingProfile,
+  RecordingFormat,
+  RecordingEncoder,
+  CloudSyncRule,
+  CloudSyncRuleMode,
+  OffloadOrder,
+} from "~/models/types";
+import { describeSyncRule } from "~/services/cloud/rules";
 import { RECORDING_PROFILES, resolveRecordingParams } from "~/services/recorder/profiles";
 
 type SettingsTab = "storage" | "recording" | "cloud" | "about" | "danger";
@@ -55,9 +90,25 @@ function SettingRow(props: { children: JSX.Element; border?: boolean }) {
   );
 }
 
+/** One side of a sync conflict — only titles and tags can conflict */
+function ConflictSide(props: { label: string; fields: SyncedFields }) {
+  return (
+    <div class="flex flex-col gap-0.5 min-w-0">
+      <span class="text-text-secondary/60 uppercase tracking-wider">{props.label}</span>
+      <span class="text-text-primary truncate">{props.fields.title}</span>
+      <span class="text-text-secondary truncate">
+        {props.fields.tags.length > 0 ? props.fields.tags.join(", ") : "No tags"}
+      </span>
+    </div>
+  );
+}
+
 /** Styled select */
 const selectClass = "bg-bg-primary border border-border-default rounded-md px-2.5 sm:px-3 py-1.5 sm:py-2 min-h-[40px] sm:min-h-[44px] text-sm text-text-primary font-mono focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30 cursor-pointer";
 
+/** Styled text input */
+const inputClass = "bg-bg-primary border border-border-default rounded-md px-3 py-2 min-h-[44px] text-sm text-text-primary placeholder:text-text-secondary/40 font-mono focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30";
+
 /** Common button class strings for Danger Zone actions */
 const dangerBtnClass = "px-3 py-1.5 rounded-md text-xs font-mono border border-accent-red/30 text-accent-red/70 hover:text-accent-red hover:border-accent-red/50 transition-colors cursor-pointer min-h-[36px] disabled:opacity-50 disabled:cursor-not-allowed";
 const dangerConfirmBtnClass = "px-3 py-1.5 rounded-md text-xs font-mono border border-accent-red/50 bg-accent-red/10 text-accent-red hover:bg-accent-red/20 transition-colors cursor-pointer min-h-[36px] disabled:opacity-50 disabled:cursor-not-allowed";
@@ -104,32 +155,8 @@ function ConfirmationPanel(props: {
   );
 }
 
-/** Toggle switch */
-function Toggle(props: { checked: boolean; onChange: (v: boolean) => void; label?: string }) {
-  return (
-    <button
-      role="switch"
-      aria-checked={props.checked}
-      aria-label={props.label}
-      class={`relative inline-flex h-7 w-12 min-w-[48px] items-center rounded-full transition-colors cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent-cyan/50 ${
-        props.checked
-          ? "bg-accent-cyan/40"
-          : "bg-bg-primary border border-border-default"
-      }`}
-      onClick={() => props.onChange(!props.checked)}
-    >
-      <span
-        class={`inline-block h-5 w-5 rounded-full bg-text-primary transition-transform ${
-          props.checked ? "translate-x-6" : "translate-x-1"
-        }`}
-      />
-    </button>
-  );
-}
-
 export default function Settings() {
   const settings = settingsStore.settings;
-  const templates = templateStore.getTemplates();
   const [activeTab, setActiveTab] = createSignal<SettingsTab>("storage");
   const [switchWarning, setSwitchWarning] = createSignal<string | null>(null);
   const [switching, setSwitching] = createSignal(false);
@@ -140,6 +167,51 @@ export default function Settings() {
   );
   const [showDevSettings, setShowDevSettings] = createSignal(false);
   const [cloudQuota, setCloudQuota] = createSignal<CloudQuota | null>(null);
+  const [newProvider, setNewProvider] = createSignal<CloudProviderType>("google-drive");
+  const [newLabel, setNewLabel] = createSignal("");
+  const [webdavUrl, setWebdavUrl] = createSignal("");
+  const [webdavUser, setWebdavUser] = createSignal("");
+  const [webdavPassword, setWebdavPassword] = createSignal("");
+  const [webdavFolder, setWebdavFolder] = createSignal(DEFAULT_WEBDAV_FOLDER);
+  const [s3Endpoint, setS3Endpoint] = createSignal("");
+  const [s3Bucket, setS3Bucket] = createSignal("");
+  const [s3Region, setS3Region] = createSignal("us-east-1");
+  const [s3AccessKey, setS3AccessKey] = createSignal("");
+  const [s3SecretKey, setS3SecretKey] = createSignal("");
+  const [s3PathStyle, setS3PathStyle] = createSignal(true);
+  const [s3Prefix, setS3Prefix] = createSignal("");
+  const [addingConnection, setAddingConnection] = createSignal(false);
+  const [fixing, setFixing] = createSignal<{ issue: VerifyIssue; fix: VerifyFix } | null>(null);
+  const [selectedConnectionId, setSelectedConnectionId] = createSignal<string | null>(null);
+
+  // Encryption, storage and conflicts apply to one connection at a time
+  const signedInConnections = () => cloudStore.connections().filter((c) => cloudStore.isSignedIn(c.id));
+  const selectedConnection = (): CloudConnection | undefined => {
+    const signedIn = signedInConnections();
+    return signedIn.find((c) => c.id === selectedConnectionId()) ?? signedIn[0];
+  };
+  const cloudLabel = () => getConnectionLabel(selectedConnection());
+  const connectionLabel = (connectionId: string) =>
+    getConnectionLabel(cloudStore.connections().find((c) => c.id === connectionId));
+  const [passphrase, setPassphrase] = createSignal("");
+  const [passphraseConfirm, setPassphraseConfirm] = createSignal("");
+  const [encryptionBusy, setEncryptionBusy] = createSignal(false);
+  const [vaultPassphrase, setVaultPassphrase] = createSignal("");
+  const [vaultPassphraseConfirm, setVaultPassphraseConfirm] = createSignal("");
+  const [vaultProgress, setVaultProgress] = createSignal<VaultMigrationProgress | null>(null);
+  const [showVaultDisableConfirm, setShowVaultDisableConfirm] = createSignal(false);
+  const [installingTemplate, setInstallingTemplate] = createSignal(false);
+  const [templateToDelete, setTemplateToDelete] = createSignal<string | null>(null);
+  let templateFileInput: HTMLInputElement | undefined;
+  const [backupTask, setBackupTask] = createSignal<"export" | "import" | null>(null);
+  const [backupProgress, setBackupProgress] = createSignal<BackupProgress | null>(null);
+  let backupFileInput: HTMLInputElement | undefined;
+  const [moveFrom, setMoveFrom] = createSignal<StorageProviderType | "all">("all");
+  const [moveTo, setMoveTo] = createSignal<StorageProviderType>(
+    settingsStore.settings().activeStorageProvider,
+  );
+  const [moveFailures, setMoveFailures] = createSignal<MigrationResult["failed"]>([]);
+  const [repairFailures, setRepairFailures] = createSignal<VideoRepairResult["failed"]>([]);
 
   // Danger Zone signals
   const [showClearConfirm, setShowClearConfirm] = createSignal(false);
@@ -148,15 +220,16 @@ export default function Settings() {
   const [resetting, setResetting] = createSignal(false);
   const opfsCount = createMemo(() => diaryStore.entries().filter((e) => e.storageProvider === "opfs").length);
 
-  // Fetch cloud quota reactively when connected
+  // Fetch the selected connection's quota reactively
   createEffect(() => {
-    if (cloudStore.isConnected()) {
-      const p = cloudSyncManager.provider();
-      if (p) {
-        void p.getQuota().then((q) => setCloudQuota(q));
-      }
-    } else {
-      setCloudQuota(null);
+    const connection = selectedConnection();
+    const p = connection && cloudSyncManager.provider(connection.id);
+    setCloudQuota(null);
+    if (p?.isAuthenticated()) {
+      void p.getQuota().then((q) => {
+        // Ignore a quota that arrives after another connection was selected
+        if (selectedConnection()?.id === connection!.id) setCloudQuota(q);
+      });
     }
   });
 
@@ -165,6 +238,40 @@ export default function Settings() {
     setQuota(q);
   }
 
+  const [offloadEstimate, setOffloadEstimate] = createSignal<OffloadEstimate | null>(null);
+
+  async function refreshOffloadEstimate() {
+    setOffloadEstimate(await offloadManager.estimate());
+  }
+
+  // Sizes change as entries sync, offload and come back — re-estimate while the tab is open
+  createEffect(() => {
+    if (activeTab() !== "storage") return;
+    // Tracked so the estimate follows them
+    diaryStore.entries();
+    settings().offloadThreshold;
+    void refreshOffloadEstimate();
+  });
+
+  async function handleOffload(all: boolean) {
+    try {
+      const freed = all ? await offloadManager.offloadAll() : await offloadManager.freeSpace();
+      if (freed.count === 0) {
+        toastStore.info("Nothing to offload");
+      } else {
+        toastStore.success(
+          `Offloaded ${freed.count} ${freed.count === 1 ? "video" : "videos"}, freeing ${formatBytes(freed.bytes)}`,
+        );
+      }
+    } catch (err) {
+      console.error("[Settings] Offload failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Offload failed: ${msg}`);
+    } finally {
+      void refreshQuota();
+    }
+  }
+
   function refreshFsFolderName() {
     const provider = storageManager.getProvider("filesystem");
     if (provider && provider instanceof FilesystemStorage) {
@@ -193,6 +300,10 @@ export default function Settings() {
     settingsStore.updateSettings({ recordingFormat: format });
   }
 
+  function handleEncoderChange(encoder: RecordingEncoder) {
+    settingsStore.updateSettings({ recordingEncoder: encoder });
+  }
+
   function estimatedSizePerMinute(): string {
     const params = resolveRecordingParams(
       settings().recordingProfile,
@@ -212,10 +323,77 @@ export default function Settings() {
     settingsStore.updateSettings({ maxDuration: minutes * 60 });
   }
 
+  async function handleSyncRuleChange(updates: Partial<CloudSyncRule>) {
+    settingsStore.updateSettings({ cloudSyncRule: { ...settings().cloudSyncRule, ...updates } });
+    const queued = await cloudSyncManager.queueMatchingEntries();
+    if (queued > 0) {
+      toastStore.info(`${queued} ${queued === 1 ? "entry" : "entries"} queued for upload`);
+    }
+  }
+
+  /** Combined progress of the uploads running in the service worker, 0–100 */
+  const backgroundPercent = createMemo(() => {
+    const uploads = cloudSyncManager.backgroundProgress();
+    const total = uploads.reduce((sum, p) => sum + p.bytesTotal, 0);
+    const done = uploads.reduce((sum, p) => sum + p.bytesUploaded, 0);
+    return total > 0 ? Math.round((done / total) * 100) : 0;
+  });
+
+  async function handleEnableNotifications() {
+    if (await backgroundUploads.requestNotifications()) {
+      toastStore.success("You'll be notified when background uploads finish");
+    } else {
+      toastStore.warning("Notifications were not allowed");
+    }
+  }
+
   function handleAutoTitle(enabled: boolean) {
     settingsStore.updateSettings({ autoGenerateTitle: enabled });
   }
 
+  function handleAutoTranscribe(enabled: boolean) {
+    settingsStore.updateSettings({ autoTranscribe: enabled });
+  }
+
+  function handleKeepStreamed(enabled: boolean) {
+    settingsStore.updateSettings({ keepStreamedVideos: enabled });
+  }
+
+  async function handleInstallTemplate(file: File | undefined) {
+    if (!file) return;
+    setInstallingTemplate(true);
+    try {
+      const record = await templateStore.install(file);
+      toastStore.success(`Installed template "${record.manifest.name}"`);
+    } catch (err) {
+      console.error("[Settings] Failed to install template:", err);
+      toastStore.error(err instanceof Error ? err.message : "Failed to install template");
+    } finally {
+      setInstallingTemplate(false);
+      if (templateFileInput) templateFileInput.value = "";
+    }
+  }
+
+  async function handleToggleTemplate(id: string, enabled: boolean) {
+    try {
+      await templateStore.setEnabled(id, enabled);
+    } catch (err) {
+      console.error("[Settings] Failed to update template:", err);
+      toastStore.error("Failed to update template");
+    }
+  }
+
+  async function handleDeleteTemplate(id: string) {
+    try {
+      await templateStore.remove(id);
+    } catch (err) {
+      console.error("[Settings] Failed to delete template:", err);
+      toastStore.error("Failed to delete template");
+    } finally {
+      setTemplateToDelete(null);
+    }
+  }
+
   async function handleStorageChange(provider: StorageProviderType) {
     if (provider === settings().activeStorageProvider) return;
 
@@ -235,6 +413,18 @@ export default function Settings() {
       storageManager.setActiveProvider("opfs");
       await diaryStore.loadEntries();
       refreshQuota();
+    } else if (provider === "indexeddb") {
+      const ok = await activateIndexedDB();
+      if (!ok) {
+        setSwitchWarning(
+          "Failed to open the browser database (IndexedDB). It may be blocked in private browsing.",
+        );
+        setSwitching(false);
+        return;
+      }
+      settingsStore.updateSettings({ activeStorageProvider: "indexeddb" });
+      await diaryStore.loadEntries();
+      refreshQuota();
     } else if (provider === "filesystem") {
       setQuota(null);
       if (storageManager.getProvider("filesystem")) {
@@ -294,17 +484,371 @@ export default function Settings() {
     await diaryStore.loadEntries();
   }
 
-  async function handleConnectDrive() {
+  /** Whether the "Add Connection" form has what its provider needs */
+  function canAddConnection(): boolean {
+    switch (newProvider()) {
+      case "google-drive":
+        return !!googleAuth.getClientId();
+      case "webdav":
+        return !!webdavUrl().trim() && !!webdavUser().trim() && !!webdavPassword();
+      case "s3":
+        return !!s3Endpoint().trim() && !!s3Bucket().trim() && !!s3AccessKey().trim() && !!s3SecretKey();
+    }
+  }
+
+  /** Add the connection described by the "Add Connection" form and sign in to it */
+  async function handleAddConnection() {
+    const provider = newProvider();
+    let configure: ((connection: CloudConnection) => void) | undefined;
+
+    if (provider === "webdav") {
+      const serverUrl = webdavUrl().trim();
+      try {
+        new URL(serverUrl);
+      } catch {
+        toastStore.error("Enter a full server URL, e.g. https://cloud.example.com/remote.php/dav/files/you/");
+        return;
+      }
+      configure = (connection) =>
+        createWebDAVAuth(connection.id).setConfig({
+          serverUrl,
+          username: webdavUser().trim(),
+          password: webdavPassword(),
+          folder: webdavFolder(),
+        });
+    } else if (provider === "s3") {
+      const endpoint = s3Endpoint().trim();
+      try {
+        new URL(endpoint);
+      } catch {
+        toastStore.error("Enter a full endpoint URL, e.g. http://localhost:9000");
+        return;
+      }
+      configure = (connection) =>
+        createS3Auth(connection.id).setConfig({
+          endpoint,
+          bucket: s3Bucket().trim(),
+          region: s3Region().trim() || "us-east-1",
+          accessKeyId: s3AccessKey().trim(),
+          secretAccessKey: s3SecretKey(),
+          pathStyle: s3PathStyle(),
+          prefix: s3Prefix(),
+        });
+    }
+
+    setAddingConnection(true);
+    try {
+      const connection = await cloudStore.addConnection(provider, newLabel(), configure);
+      setSelectedConnectionId(connection.id);
+      setNewLabel("");
+      setWebdavPassword("");
+      setS3SecretKey("");
+    } catch {
+      // Error already shown via toast — a connection that didn't sign in isn't kept
+    } finally {
+      setAddingConnection(false);
+    }
+  }
+
+  async function handleReconnect(connection: CloudConnection) {
     try {
-      const provider = new GoogleDriveProvider();
-      await cloudStore.connect(provider);
+      await cloudStore.connect(connection);
     } catch {
       // Error already shown via toast in cloudStore.connect()
     }
   }
 
-  async function handleDisconnectDrive() {
-    await cloudStore.disconnect();
+  async function handleEnableVault() {
+    if (vaultPassphrase() !== vaultPassphraseConfirm()) {
+      toastStore.error("Passphrases don't match");
+      return;
+    }
+
+    setVaultProgress({ done: 0, total: 0 });
+    try {
+      const count = await migrateIntoVault(vaultPassphrase(), setVaultProgress);
+      setVaultPassphrase("");
+      setVaultPassphraseConfirm("");
+      toastStore.success(
+        `Vault enabled — ${count} ${count === 1 ? "entry" : "entries"} encrypted`,
+      );
+    } catch (err) {
+      console.error("[Settings] Failed to enable vault:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Failed to encrypt entries: ${msg}`);
+    } finally {
+      setVaultProgress(null);
+    }
+  }
+
+  async function handleDisableVault() {
+    setShowVaultDisableConfirm(false);
+    setVaultProgress({ done: 0, total: 0 });
+    try {
+      const count = await migrateOutOfVault(setVaultProgress);
+      toastStore.success(
+        `Vault disabled — ${count} ${count === 1 ? "entry" : "entries"} decrypted`,
+      );
+    } catch (err) {
+      console.error("[Settings] Failed to disable vault:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Failed to decrypt entries: ${msg}`);
+    } finally {
+      setVaultProgress(null);
+    }
+  }
+
+  /** Persistent providers set up in this session — where entries can be moved */
+  const moveTargets = createMemo(() => {
+    // Providers register when activated, which also changes these settings
+    settings().activeStorageProvider;
+    fsFolderName();
+    return (Object.keys(STORAGE_PROVIDER_LABELS) as StorageProviderType[]).filter(
+      (name) => storageManager.getProvider(name)?.capabilities.persistent,
+    );
+  });
+
+  /** The picked target, or the first one while the pick isn't set up */
+  const moveTarget = () => (moveTargets().includes(moveTo()) ? moveTo() : moveTargets()[0]);
+
+  /** Providers holding entries, for the "From" picker */
+  const moveSources = createMemo(() =>
+    [...new Set(diaryStore.entries().map((e) => e.storageProvider))].sort(),
+  );
+
+  const entriesToMove = createMemo(() =>
+    diaryStore
+      .entries()
+      .filter((e) => moveFrom() === "all" || e.storageProvider === moveFrom())
+      .filter((e) => migrationManager.cannotMove(e, moveTarget()) === null),
+  );
+
+  function reportMove(result: MigrationResult) {
+    setMoveFailures(result.failed);
+    if (result.moved > 0) {
+      toastStore.success(
+        `Moved ${result.moved} ${result.moved === 1 ? "entry" : "entries"}`,
+      );
+    }
+    if (result.failed.length > 0) {
+      toastStore.warning(
+        `${result.failed.length} ${result.failed.length === 1 ? "entry" : "entries"} could not be moved`,
+      );
+    }
+  }
+
+  async function handleMoveEntries() {
+    setMoveFailures([]);
+    try {
+      reportMove(await migrationManager.move(entriesToMove(), moveTarget()));
+    } catch (err) {
+      console.error("[Settings] Moving entries failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Move failed: ${msg}`);
+    }
+  }
+
+  async function handleResumeMove() {
+    setMoveFailures([]);
+    try {
+      const result = await migrationManager.resume();
+      if (result) reportMove(result);
+    } catch (err) {
+      console.error("[Settings] Resuming the move failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Move failed: ${msg}`);
+    }
+  }
+
+  async function handleRepairVideos() {
+    setRepairFailures([]);
+    try {
+      const result = await videoRepairManager.repairAll();
+      setRepairFailures(result.failed);
+      if (result.repaired === 0 && result.failed.length === 0) {
+        toastStore.info("Every video already has its duration and seek index");
+      } else if (result.repaired > 0) {
+        toastStore.success(`Repaired ${result.repaired} ${result.repaired === 1 ? "video" : "videos"}`);
+      }
+      if (result.failed.length > 0) {
+        toastStore.warning(
+          `${result.failed.length} ${result.failed.length === 1 ? "video" : "videos"} could not be repaired`,
+        );
+      }
+    } catch (err) {
+      console.error("[Settings] Video repair failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Repair failed: ${msg}`);
+    }
+  }
+
+  async function handleResolveConflict(conflict: SyncConflict, keep: "local" | "cloud") {
+    try {
+      await cloudSyncManager.resolveConflict(conflict.entryId, conflict.connectionId, keep);
+      toastStore.success(keep === "local" ? "Kept this device's version" : "Kept the cloud version");
+    } catch (err) {
+      console.error("[Settings] Resolving the conflict failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(msg);
+    }
+  }
+
+  async function handleVerifyBackups() {
+    try {
+      const report = await backupVerifier.run();
+      if (report.issues.length === 0 && report.skipped.length === 0) {
+        toastStore.success(`All ${report.checked} cloud ${report.checked === 1 ? "copy checks" : "copies check"} out`);
+      }
+    } catch (err) {
+      console.error("[Settings] Verifying backups failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Verification failed: ${msg}`);
+    }
+  }
+
+  async function handleVerifyFix(issue: VerifyIssue, fix: VerifyFix) {
+    setFixing({ issue, fix });
+    try {
+      await backupVerifier.fix(issue, fix);
+      const done: Record<VerifyFix, string> = {
+        reupload: "Uploading it again",
+        redownload: "Replaced this device's copy with the cloud one",
+        delete: "Deleted the orphan video",
+        "mark-failed": "Marked as failed",
+      };
+      toastStore.success(done[fix]);
+    } catch (err) {
+      console.error("[Settings] Fixing the backup failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(msg);
+    } finally {
+      setFixing(null);
+    }
+  }
+
+  async function handleExportBackup() {
+    // The save picker needs the click's user activation, so ask for it first
+    let target: FileSystemFileHandle | null = null;
+    if (typeof window.showSaveFilePicker === "function") {
+      try {
+        target = await window.showSaveFilePicker({
+          id: "vidlog-backup",
+          suggestedName: backupFileName(),
+          types: [{ description: "VidLog backup", accept: { "application/zip": [".zip"] } }],
+        });
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        console.warn("[Settings] Save picker failed, falling back to download:", err);
+      }
+    }
+
+    setBackupTask("export");
+    setBackupProgress({ done: 0, total: 0 });
+    try {
+      const result = await exportLibrary(target, setBackupProgress);
+      const noun = result.entries === 1 ? "entry" : "entries";
+      toastStore.success(`Exported ${result.entries} ${noun} (${formatBytes(result.bytes)})`);
+      if (result.missingVideos > 0) {
+        toastStore.warning(
+          `${result.missingVideos} ${result.missingVideos === 1 ? "entry" : "entries"} exported without video — no local copy`,
+        );
+      }
+    } catch (err) {
+      console.error("[Settings] Backup export failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Export failed: ${msg}`);
+    } finally {
+      setBackupTask(null);
+      setBackupProgress(null);
+    }
+  }
+
+  async function handleImportBackup(file: File | undefined) {
+    if (!file) return;
+    setBackupTask("import");
+    setBackupProgress({ done: 0, total: 0 });
+    try {
+      const result = await importLibrary(file, setBackupProgress);
+      const restored = result.imported + result.renamed;
+      const details = [
+        result.renamed > 0 ? `${result.renamed} renamed` : "",
+        result.skipped > 0 ? `${result.skipped} already present` : "",
+      ].filter(Boolean);
+      toastStore.success(
+        `Restored ${restored} ${restored === 1 ? "entry" : "entries"}${details.length ? ` (${details.join(", ")})` : ""}`,
+      );
+      if (result.failed > 0) {
+        toastStore.error(`${result.failed} ${result.failed === 1 ? "entry" : "entries"} couldn't be restored`);
+      }
+      await refreshQuota();
+    } catch (err) {
+      console.error("[Settings] Backup import failed:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Import failed: ${msg}`);
+    } finally {
+      setBackupTask(null);
+      setBackupProgress(null);
+      if (backupFileInput) backupFileInput.value = "";
+    }
+  }
+
+  async function handleEnableEncryption() {
+    const connection = selectedConnection();
+    const p = connection && cloudSyncManager.provider(connection.id);
+    if (!p) return;
+    if (passphrase() !== passphraseConfirm()) {
+      toastStore.error("Passphrases don't match");
+      return;
+    }
+
+    setEncryptionBusy(true);
+    try {
+      await cloudEncryption.enable(p, passphrase());
+      setPassphrase("");
+      setPassphraseConfirm("");
+      // Overwrite existing plaintext copies with encrypted ones
+      const count = await cloudSyncManager.requeueSyncedEntries(p.connectionId);
+      toastStore.success(
+        count > 0
+          ? `Encryption enabled — re-uploading ${count} ${count === 1 ? "entry" : "entries"}`
+          : "Encryption enabled",
+      );
+      void cloudSyncManager.syncNow();
+    } catch (err) {
+      console.error("[Settings] Failed to enable encryption:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Failed to enable encryption: ${msg}`);
+    } finally {
+      setEncryptionBusy(false);
+    }
+  }
+
+  async function handleUnlockEncryption() {
+    const connection = selectedConnection();
+    const p = connection && cloudSyncManager.provider(connection.id);
+    if (!p) return;
+
+    setEncryptionBusy(true);
+    try {
+      const ok = await cloudEncryption.unlock(p, passphrase());
+      if (!ok) {
+        toastStore.error("Wrong passphrase");
+        return;
+      }
+      setPassphrase("");
+      toastStore.success("Cloud encryption unlocked");
+      void cloudSyncManager.syncNow();
+    } catch (err) {
+      console.error("[Settings] Failed to unlock encryption:", err);
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      toastStore.error(`Failed to unlock: ${msg}`);
+    } finally {
+      setEncryptionBusy(false);
+    }
+  }
+
+  async function handleRemoveConnection(connectionId: string) {
+    await cloudStore.removeConnection(connectionId);
   }
 
   async function handleClearRecordings() {
@@ -328,9 +872,9 @@ export default function Settings() {
       settingsStore.reset();
       onboardingStore.reset();
 
-      if (cloudStore.isConnected()) {
+      for (const connection of cloudStore.connections()) {
         try {
-          await cloudStore.disconnect();
+          await cloudStore.removeConnection(connection.id);
         } catch {
           // Best-effort — disconnecting anyway
         }
@@ -348,6 +892,7 @@ export default function Settings() {
   }
 
   const opfsAvailable = isOPFSAvailable();
+  const idbAvailable = isIndexedDBAvailable();
   const fsAvailable = isFilesystemAvailable();
 
   return (
@@ -456,6 +1001,9 @@ export default function Settings() {
                 <option value="opfs" disabled={!opfsAvailable}>
                   Local Storage (OPFS){!opfsAvailable ? " — unavailable" : ""}
                 </option>
+                <option value="indexeddb" disabled={!idbAvailable}>
+                  Browser Database (IndexedDB){!idbAvailable ? " — unavailable" : ""}
+                </option>
                 <option value="filesystem" disabled={!fsAvailable}>
                   Filesystem Folder{!fsAvailable ? " — unavailable" : ""}
                 </option>
@@ -517,8 +1065,14 @@ export default function Settings() {
             </Show>
           </SettingsCard>
 
-          {/* Usage card — only meaningful for OPFS */}
-          <Show when={settings().activeStorageProvider === "opfs" && quota()}>
+          {/* Usage card — only meaningful for origin-private storage (OPFS, IndexedDB) */}
+          <Show
+            when={
+              (settings().activeStorageProvider === "opfs" ||
+                settings().activeStorageProvider === "indexeddb") &&
+              quota()
+            }
+          >
             {(q) => {
               const pct = q().usagePercent;
               const barColor =
@@ -556,68 +1110,493 @@ export default function Settings() {
               );
             }}
           </Show>
-        </div>
-      </Show>
-
-      {/* ─── Recording Tab ─── */}
-      <Show when={activeTab() === "recording"}>
-        <div id="panel-recording" role="tabpanel" class="flex flex-col gap-3 sm:gap-4">
-          {/* Video Output card */}
-          <SettingsCard label="Video Output">
-            <SettingRow>
-              <label for="default-template" class="text-sm text-text-primary">Template</label>
-              <select
-                id="default-template"
-                class={selectClass}
-                value={settings().defaultTemplateId}
-                onChange={(e) => handleDefaultTemplate(e.currentTarget.value)}
-              >
-                <For each={templates}>
-                  {(t) => <option value={t.id}>{t.name}</option>}
-                </For>
-              </select>
-            </SettingRow>
-
-            <SettingRow>
-              <label for="video-quality" class="text-sm text-text-primary">Quality</label>
-              <select
-                id="video-quality"
-                class={selectClass}
-                value={settings().videoQuality}
-                onChange={(e) => handleQualityChange(e.currentTarget.value as VideoQuality)}
-              >
-                <option value="low">Low (480p)</option>
-                <option value="medium">Medium (720p)</option>
-                <option value="high">High (1080p)</option>
-              </select>
-            </SettingRow>
 
-            <SettingRow>
-              <div class="flex flex-col min-w-0">
-                <label for="recording-format" class="text-sm text-text-primary">Format</label>
-                <span class="text-xs text-text-secondary/60 font-mono truncate">
-                  {settings().recordingFormat === "av1"
-                    ? "Best compression, needs modern GPU"
-                    : settings().recordingFormat === "h264"
-                      ? "Wide compatibility, larger files"
-                      : "Legacy format, universal support"}
+          {/* Offload card — free local space by keeping synced videos in the cloud only */}
+          <Show when={(cloudStore.isConnected() || (offloadEstimate()?.all.count ?? 0) > 0) && offloadEstimate()}>
+            {(est) => (
+              <SettingsCard label="Free Up Space">
+                <span class="text-xs text-text-secondary/70 font-mono leading-relaxed">
+                  Remove the local copy of videos already synced to the cloud. Titles and thumbnails stay; a video downloads again when you play it.
                 </span>
-              </div>
-              <select
-                id="recording-format"
-                class={selectClass}
-                value={settings().recordingFormat}
-                onChange={(e) => handleFormatChange(e.currentTarget.value as RecordingFormat)}
-              >
-                <option value="av1">AV1 (MP4)</option>
-                <option value="h264">H.264 (MP4)</option>
-                <option value="webm">VP9 (WebM)</option>
-              </select>
-            </SettingRow>
+                <SettingRow>
+                  <label for="offload-threshold" class="text-sm text-text-primary">Offload when usage is over</label>
+                  <select
+                    id="offload-threshold"
+                    class={selectClass}
+                    value={settings().offloadThreshold}
+                    onChange={(e) => settingsStore.updateSettings({ offloadThreshold: parseInt(e.currentTarget.value) })}
+                  >
+                    <option value="0">Never</option>
+                    <option value="50">50%</option>
+                    <option value="70">70%</option>
+                    <option value="80">80%</option>
+                    <option value="90">90%</option>
+                  </select>
+                </SettingRow>
+                <SettingRow>
+                  <label for="offload-order" class="text-sm text-text-primary">Offload first</label>
+                  <select
+                    id="offload-order"
+                    class={selectClass}
+                    value={settings().offloadOrder}
+                    onChange={(e) => settingsStore.updateSettings({ offloadOrder: e.currentTarget.value as OffloadOrder })}
+                  >
+                    <option value="least-watched">Least watched</option>
+                    <option value="oldest">Oldest</option>
+                  </select>
+                </SettingRow>
+
+                {/* What each policy would free right now */}
+                <div class="flex flex-col gap-1 text-xs font-mono text-text-secondary">
+                  <Show
+                    when={est().targetBytes !== null}
+                    fallback={<span class="text-text-secondary/60">Pick a threshold to see what each order would free.</span>}
+                  >
+                    <Show
+                      when={est().usageBytes > est().targetBytes!}
+                      fallback={<span class="text-text-secondary/60">Usage is under the threshold — nothing to free yet.</span>}
+                    >
+                      <div class="flex justify-between">
+                        <span>Least watched first</span>
+                        <span class="text-text-primary">
+                          {est().byOrder["least-watched"].count} videos · {formatBytes(est().byOrder["least-watched"].bytes)}
+                        </span>
+                      </div>
+                      <div class="flex justify-between">
+                        <span>Oldest first</span>
+                        <span class="text-text-primary">
+                          {est().byOrder.oldest.count} videos · {formatBytes(est().byOrder.oldest.bytes)}
+                        </span>
+                      </div>
+                    </Show>
+                  </Show>
+                  <div class="flex justify-between">
+                    <span>Every synced video</span>
+                    <span class="text-text-primary">
+                      {est().all.count} videos · {formatBytes(est().all.bytes)}
+                    </span>
+                  </div>
+                </div>
 
-            <SettingRow>
-              <div class="flex flex-col min-w-0">
-                <label for="recording-profile" class="text-sm text-text-primary">Profile</label>
+                <div class="flex items-center gap-2 justify-end">
+                  <button
+                    class={cancelBtnClass}
+                    disabled={offloadManager.isRunning() || est().all.count === 0}
+                    onClick={() => void handleOffload(true)}
+                  >
+                    Offload All Synced
+                  </button>
+                  <button
+                    class="px-3 py-1.5 rounded-md text-xs font-mono border border-accent-cyan/40 text-accent-cyan hover:bg-accent-cyan/10 transition-colors cursor-pointer min-h-[36px] disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={
+                      offloadManager.isRunning() ||
+                      est().targetBytes === null ||
+                      est().usageBytes <= est().targetBytes!
+                    }
+                    onClick={() => void handleOffload(false)}
+                  >
+                    {offloadManager.isRunning() ? "Offloading..." : "Free Space Now"}
+                  </button>
+                </div>
+              </SettingsCard>
+            )}
+          </Show>
+
+          {/* Move card — copy entries between providers, then delete the source */}
+          <Show when={moveTargets().length > 0 && (moveSources().length > 0 || migrationManager.job())}>
+            <SettingsCard label="Move Entries">
+              <span class="text-xs text-text-secondary/70 font-mono leading-relaxed">
+                Move recordings between storage locations. Each one is copied and checked before the original is deleted.
+              </span>
+              <SettingRow>
+                <label for="move-from" class="text-sm text-text-primary">From</label>
+                <select
+                  id="move-from"
+                  class={selectClass}
+                  value={moveFrom()}
+                  onChange={(e) => setMoveFrom(e.currentTarget.value as StorageProviderType | "all")}
+                  disabled={migrationManager.isRunning()}
+                >
+                  <option value="all">All locations</option>
+                  <For each={moveSources()}>
+                    {(name) => <option value={name}>{getStorageProviderLabel(name)}</option>}
+                  </For>
+                </select>
+              </SettingRow>
+              <SettingRow border={false}>
+                <label for="move-to" class="text-sm text-text-primary">To</label>
+                <select
+                  id="move-to"
+                  class={selectClass}
+                  value={moveTarget()}
+                  onChange={(e) => setMoveTo(e.currentTarget.value as StorageProviderType)}
+                  disabled={migrationManager.isRunning()}
+                >
+                  <For each={moveTargets()}>
+                    {(name) => <option value={name}>{getStorageProviderLabel(name)}</option>}
+                  </For>
+                </select>
+              </SettingRow>
+
+              <Show when={migrationManager.progress()}>
+                {(p) => (
+                  <div class="flex flex-col gap-1.5">
+                    <div class="flex items-center justify-between gap-3 text-xs font-mono text-text-secondary">
+                      <span class="truncate">{p().current ?? "Moving..."}</span>
+                      <span class="shrink-0 text-text-primary">{p().done}/{p().total}</span>
+                    </div>
+                    <div class="w-full h-1.5 bg-bg-primary rounded-full overflow-hidden">
+                      <div
+                        class="h-full rounded-full transition-all bg-accent-cyan"
+                        style={{ width: `${p().total > 0 ? (p().done / p().total) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+              </Show>
+
+              {/* Interrupted move — resumes automatically on start, or here */}
+              <Show when={migrationManager.job() && !migrationManager.isRunning()}>
+                <div class="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between p-3 rounded-md border border-accent-amber/30 bg-accent-amber/5">
+                  <span class="text-xs font-mono text-accent-amber/80">
+                    A move to {getStorageProviderLabel(migrationManager.job()!.target)} was interrupted.
+                  </span>
+                  <div class="flex items-center gap-2 self-end sm:self-auto">
+                    <button class={cancelBtnClass} onClick={() => migrationManager.discard()}>
+                      Discard
+                    </button>
+                    <button
+                      class="px-3 py-1.5 rounded-md text-xs font-mono border border-accent-cyan/40 text-accent-cyan hover:bg-accent-cyan/10 transition-colors cursor-pointer min-h-[36px]"
+                      onClick={handleResumeMove}
+                    >
+                      Resume
+                    </button>
+                  </div>
+                </div>
+              </Show>
+
+              <Show when={moveFailures().length > 0}>
+                <div class="flex flex-col gap-1 p-2 rounded border border-accent-red/30 bg-accent-red/5 text-xs font-mono text-accent-red/80">
+                  <For each={moveFailures()}>
+                    {(f) => (
+                      <span class="truncate" title={f.error}>
+                        {f.title}: {f.error}
+                      </span>
+                    )}
+                  </For>
+                </div>
+              </Show>
+
+              <div class="flex items-center justify-end">
+                <button
+                  class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed min-h-[36px]"
+                  disabled={
+                    migrationManager.isRunning() || !!migrationManager.job() || entriesToMove().length === 0
+                  }
+                  onClick={handleMoveEntries}
+                >
+                  <Show when={migrationManager.isRunning()} fallback={`Move ${entriesToMove().length} ${entriesToMove().length === 1 ? "Entry" : "Entries"}`}>
+                    <span class="animate-pulse">Moving...</span>
+                  </Show>
+                </button>
+              </div>
+            </SettingsCard>
+          </Show>
+
+          {/* Repair card — adds duration and seek index to videos saved without them */}
+          <Show when={diaryStore.entries().length > 0}>
+            <SettingsCard label="Repair Videos">
+              <span class="text-xs text-text-secondary/70 font-mono leading-relaxed">
+                Videos recorded with older versions may show no length and seek slowly. Repairing adds the duration and a seek index without re-encoding; synced videos are uploaded again.
+              </span>
+
+              <Show when={videoRepairManager.progress()}>
+                {(p) => (
+                  <div class="flex flex-col gap-1.5">
+                    <div class="flex items-center justify-between gap-3 text-xs font-mono text-text-secondary">
+                      <span class="truncate">{p().current ?? "Checking..."}</span>
+                      <span class="shrink-0 text-text-primary">{p().done}/{p().total}</span>
+                    </div>
+                    <div class="w-full h-1.5 bg-bg-primary rounded-full overflow-hidden">
+                      <div
+                        class="h-full rounded-full transition-all bg-accent-cyan"
+                        style={{ width: `${p().total > 0 ? (p().done / p().total) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+              </Show>
+
+              <Show when={repairFailures().length > 0}>
+                <div class="flex flex-col gap-1 p-2 rounded border border-accent-red/30 bg-accent-red/5 text-xs font-mono text-accent-red/80">
+                  <For each={repairFailures()}>
+                    {(f) => (
+                      <span class="truncate" title={f.error}>
+                        {f.title}: {f.error}
+                      </span>
+                    )}
+                  </For>
+                </div>
+              </Show>
+
+              <div class="flex items-center justify-end">
+                <button
+                  class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed min-h-[36px]"
+                  disabled={videoRepairManager.isRunning()}
+                  onClick={handleRepairVideos}
+                >
+                  <Show when={videoRepairManager.isRunning()} fallback="Repair All Videos">
+                    <span class="animate-pulse">Repairing...</span>
+                  </Show>
+                </button>
+              </div>
+            </SettingsCard>
+          </Show>
+
+          {/* Vault card — encrypts OPFS, IndexedDB and filesystem entries at rest */}
+          <Show when={opfsAvailable || idbAvailable || fsAvailable}>
+            <SettingsCard label="Encrypted Vault">
+              <Show
+                when={vault.isEnabled()}
+                fallback={
+                  <>
+                    <span class="text-xs text-text-secondary/70 font-mono leading-relaxed">
+                      Encrypt local videos, metadata, and thumbnails at rest. Existing entries are encrypted now; VidLog asks for the passphrase on every start.
+                    </span>
+                    <input
+                      type="password"
+                      autocomplete="new-password"
+                      aria-label="New vault passphrase"
+                      placeholder="Passphrase (min. 8 characters)"
+                      value={vaultPassphrase()}
+                      onInput={(e) => setVaultPassphrase(e.currentTarget.value)}
+                      class={inputClass}
+                    />
+                    <input
+                      type="password"
+                      autocomplete="new-password"
+                      aria-label="Confirm vault passphrase"
+                      placeholder="Confirm passphrase"
+                      value={vaultPassphraseConfirm()}
+                      onInput={(e) => setVaultPassphraseConfirm(e.currentTarget.value)}
+                      class={inputClass}
+                    />
+                    <p class="text-[10px] font-mono text-accent-amber/80 leading-relaxed">
+                      There is no recovery — if you forget the passphrase, your local recordings can't be decrypted.
+                    </p>
+                    <button
+                      class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px] self-end"
+                      disabled={vaultPassphrase().length < 8 || vaultProgress() !== null}
+                      onClick={handleEnableVault}
+                    >
+                      <Show when={vaultProgress()} fallback="Enable Vault">
+                        {(p) => (
+                          <span class="animate-pulse">
+                            {p().total > 0 ? `Encrypting ${p().done}/${p().total}...` : "Deriving key..."}
+                          </span>
+                        )}
+                      </Show>
+                    </button>
+                  </>
+                }
+              >
+                <SettingRow>
+                  <div class="flex flex-col min-w-0">
+                    <label for="vault-auto-lock" class="text-sm text-text-primary">Auto-Lock</label>
+                    <span class="text-xs text-text-secondary/60 font-mono truncate">
+                      Lock after a period without input
+                    </span>
+                  </div>
+                  <select
+                    id="vault-auto-lock"
+                    class={selectClass}
+                    value={String(settings().vaultAutoLockMinutes)}
+                    onChange={(e) =>
+                      settingsStore.updateSettings({ vaultAutoLockMinutes: Number(e.currentTarget.value) })
+                    }
+                  >
+                    <option value="5">5 minutes</option>
+                    <option value="15">15 minutes</option>
+                    <option value="30">30 minutes</option>
+                    <option value="60">1 hour</option>
+                    <option value="0">Never</option>
+                  </select>
+                </SettingRow>
+
+                <SettingRow border={false}>
+                  <span class="text-xs font-mono text-accent-green/80">
+                    Unlocked — entries are encrypted at rest
+                  </span>
+                  <div class="flex items-center gap-2 shrink-0">
+                    <button
+                      class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px]"
+                      disabled={vaultProgress() !== null}
+                      onClick={() => vault.lock()}
+                    >
+                      Lock
+                    </button>
+                    <button
+                      class={dangerBtnClass}
+                      disabled={vaultProgress() !== null}
+                      onClick={() => setShowVaultDisableConfirm(true)}
+                    >
+                      <Show when={vaultProgress()} fallback="Disable">
+                        {(p) => <span class="animate-pulse">Decrypting {p().done}/{p().total}...</span>}
+                      </Show>
+                    </button>
+                  </div>
+                </SettingRow>
+
+                <Show when={showVaultDisableConfirm()}>
+                  <div class="flex flex-col gap-2 p-3 rounded-md border border-accent-red/30 bg-accent-red/5">
+                    <span class="text-xs font-mono text-accent-red/80 leading-relaxed">
+                      Every local entry will be decrypted and stored in plaintext again.
+                    </span>
+                    <div class="flex items-center gap-2 self-end">
+                      <button
+                        class="px-3 py-1.5 rounded-md text-xs font-mono text-text-secondary hover:text-text-primary transition-colors cursor-pointer min-h-[36px]"
+                        onClick={() => setShowVaultDisableConfirm(false)}
+                      >
+                        Cancel
+                      </button>
+                      <button class={dangerBtnClass} onClick={handleDisableVault}>
+                        Decrypt All
+                      </button>
+                    </div>
+                  </div>
+                </Show>
+              </Show>
+            </SettingsCard>
+          </Show>
+
+          {/* Backup card — whole-library export/import */}
+          <SettingsCard label="Backup">
+            <span class="text-xs text-text-secondary/70 font-mono leading-relaxed">
+              Export every recording from all storage locations — with metadata, thumbnails, settings and templates — as a single .zip. Importing restores into the active storage location; entries already in the library are skipped.
+            </span>
+            <Show when={settings().activeStorageProvider === "ephemeral"}>
+              <div class="p-2 rounded border border-accent-amber/30 bg-accent-amber/5 text-xs font-mono text-accent-amber/80">
+                Storage is in-memory — imported recordings will be lost when you close the tab.
+              </div>
+            </Show>
+            <input
+              ref={backupFileInput}
+              type="file"
+              accept=".zip,application/zip"
+              class="hidden"
+              onChange={(e) => void handleImportBackup(e.currentTarget.files?.[0])}
+            />
+            <div class="flex items-center justify-end gap-2">
+              <button
+                class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px]"
+                disabled={backupTask() !== null}
+                onClick={() => backupFileInput?.click()}
+              >
+                <Show when={backupTask() === "import" && backupProgress()} fallback="Import Library">
+                  {(p) => (
+                    <span class="animate-pulse">
+                      {p().total > 0 ? `Restoring ${p().done}/${p().total}...` : "Reading..."}
+                    </span>
+                  )}
+                </Show>
+              </button>
+              <button
+                class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px]"
+                disabled={backupTask() !== null}
+                onClick={handleExportBackup}
+              >
+                <Show when={backupTask() === "export" && backupProgress()} fallback="Export Library">
+                  {(p) => (
+                    <span class="animate-pulse">
+                      {p().total > 0 ? `Exporting ${p().done}/${p().total}...` : "Preparing..."}
+                    </span>
+                  )}
+                </Show>
+              </button>
+            </div>
+          </SettingsCard>
+        </div>
+      </Show>
+
+      {/* ─── Recording Tab ─── */}
+      <Show when={activeTab() === "recording"}>
+        <div id="panel-recording" role="tabpanel" class="flex flex-col gap-3 sm:gap-4">
+          {/* Video Output card */}
+          <SettingsCard label="Video Output">
+            <SettingRow>
+              <label for="default-template" class="text-sm text-text-primary">Template</label>
+              <select
+                id="default-template"
+                class={selectClass}
+                value={settings().defaultTemplateId}
+                onChange={(e) => handleDefaultTemplate(e.currentTarget.value)}
+              >
+                <For each={templateStore.getTemplates()}>
+                  {(t) => <option value={t.id}>{t.name}</option>}
+                </For>
+              </select>
+            </SettingRow>
+
+            <SettingRow>
+              <label for="video-quality" class="text-sm text-text-primary">Quality</label>
+              <select
+                id="video-quality"
+                class={selectClass}
+                value={settings().videoQuality}
+                onChange={(e) => handleQualityChange(e.currentTarget.value as VideoQuality)}
+              >
+                <option value="low">Low (480p)</option>
+                <option value="medium">Medium (720p)</option>
+                <option value="high">High (1080p)</option>
+              </select>
+            </SettingRow>
+
+            <SettingRow>
+              <div class="flex flex-col min-w-0">
+                <label for="recording-format" class="text-sm text-text-primary">Format</label>
+                <span class="text-xs text-text-secondary/60 font-mono truncate">
+                  {settings().recordingFormat === "av1"
+                    ? "Best compression, needs modern GPU"
+                    : settings().recordingFormat === "h264"
+                      ? "Wide compatibility, larger files"
+                      : "Legacy format, universal support"}
+                </span>
+              </div>
+              <select
+                id="recording-format"
+                class={selectClass}
+                value={settings().recordingFormat}
+                onChange={(e) => handleFormatChange(e.currentTarget.value as RecordingFormat)}
+              >
+                <option value="av1">AV1 (MP4)</option>
+                <option value="h264">H.264 (MP4)</option>
+                <option value="webm">VP9 (WebM)</option>
+              </select>
+            </SettingRow>
+
+            <SettingRow>
+              <div class="flex flex-col min-w-0">
+                <label for="recording-encoder" class="text-sm text-text-primary">Encoder</label>
+                <span class="text-xs text-text-secondary/60 font-mono truncate">
+                  {settings().recordingEncoder === "webcodecs"
+                    ? "Exact format, seekable files"
+                    : "Browser picks the closest codec"}
+                </span>
+              </div>
+              <select
+                id="recording-encoder"
+                class={selectClass}
+                value={settings().recordingEncoder}
+                onChange={(e) => handleEncoderChange(e.currentTarget.value as RecordingEncoder)}
+              >
+                <option value="mediarecorder">MediaRecorder</option>
+                <option value="webcodecs">WebCodecs</option>
+              </select>
+            </SettingRow>
+
+            <SettingRow>
+              <div class="flex flex-col min-w-0">
+                <label for="recording-profile" class="text-sm text-text-primary">Profile</label>
                 <span class="text-xs text-text-secondary/60 font-mono truncate">
                   {RECORDING_PROFILES[settings().recordingProfile].description}
                 </span>
@@ -647,6 +1626,127 @@ export default function Settings() {
             </div>
           </SettingsCard>
 
+          {/* Template variants card */}
+          <SettingsCard label="Template Variants">
+            <span class="text-xs text-text-secondary/70 font-mono leading-relaxed">
+              Customized copies of the built-in templates — colors, font, corners and which readouts are shown.
+            </span>
+            <For each={templateStore.variants()}>
+              {(v) => (
+                <>
+                  <SettingRow>
+                    <span class="text-sm text-text-primary truncate min-w-0">{v.name}</span>
+                    <div class="flex items-center gap-2 shrink-0">
+                      <A
+                        href={`/templates?id=${v.id}`}
+                        class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors min-h-[36px] inline-flex items-center no-underline"
+                      >
+                        Edit
+                      </A>
+                      <button class={dangerBtnClass} onClick={() => setTemplateToDelete(v.id)}>
+                        Delete
+                      </button>
+                    </div>
+                  </SettingRow>
+                  <Show when={templateToDelete() === v.id}>
+                    <div class="flex items-center justify-between gap-2 p-3 rounded-md border border-accent-red/30 bg-accent-red/5">
+                      <span class="text-xs font-mono text-accent-red/80">Delete "{v.name}"?</span>
+                      <div class="flex items-center gap-2 shrink-0">
+                        <button class={cancelBtnClass} onClick={() => setTemplateToDelete(null)}>
+                          Cancel
+                        </button>
+                        <button
+                          class={dangerConfirmBtnClass}
+                          onClick={() => {
+                            templateStore.deleteVariant(v.id);
+                            setTemplateToDelete(null);
+                          }}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </Show>
+                </>
+              )}
+            </For>
+            <A
+              href="/templates"
+              class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors min-h-[36px] inline-flex items-center self-end no-underline"
+            >
+              New Variant
+            </A>
+          </SettingsCard>
+
+          {/* Installed templates card */}
+          <SettingsCard label="Installed Templates">
+            <span class="text-xs text-text-secondary/70 font-mono leading-relaxed">
+              Import overlay templates packaged as .zip (manifest.json + render module + assets). Templates run sandboxed in a worker and can't see your camera or entries.
+            </span>
+            <For each={templateStore.installed()}>
+              {(t) => (
+                <>
+                  <SettingRow>
+                    <div class="flex flex-col min-w-0">
+                      <span class="text-sm text-text-primary truncate">{t.manifest.name}</span>
+                      <span class="text-xs text-text-secondary/60 font-mono truncate">
+                        v{t.manifest.version}
+                        {t.manifest.author ? ` · ${t.manifest.author}` : ""}
+                      </span>
+                    </div>
+                    <div class="flex items-center gap-2 shrink-0">
+                      <Toggle
+                        checked={t.enabled}
+                        onChange={(enabled) => void handleToggleTemplate(t.manifest.id, enabled)}
+                        label={`Enable ${t.manifest.name}`}
+                      />
+                      <button
+                        class={dangerBtnClass}
+                        onClick={() => setTemplateToDelete(t.manifest.id)}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </SettingRow>
+                  <Show when={templateToDelete() === t.manifest.id}>
+                    <div class="flex items-center justify-between gap-2 p-3 rounded-md border border-accent-red/30 bg-accent-red/5">
+                      <span class="text-xs font-mono text-accent-red/80">
+                        Uninstall "{t.manifest.name}"?
+                      </span>
+                      <div class="flex items-center gap-2 shrink-0">
+                        <button class={cancelBtnClass} onClick={() => setTemplateToDelete(null)}>
+                          Cancel
+                        </button>
+                        <button
+                          class={dangerConfirmBtnClass}
+                          onClick={() => void handleDeleteTemplate(t.manifest.id)}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </Show>
+                </>
+              )}
+            </For>
+            <input
+              ref={templateFileInput}
+              type="file"
+              accept=".zip,application/zip"
+              class="hidden"
+              onChange={(e) => void handleInstallTemplate(e.currentTarget.files?.[0])}
+            />
+            <button
+              class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px] self-end"
+              disabled={installingTemplate()}
+              onClick={() => templateFileInput?.click()}
+            >
+              <Show when={installingTemplate()} fallback="Import Template">
+                <span class="animate-pulse">Installing...</span>
+              </Show>
+            </button>
+          </SettingsCard>
+
           {/* Behavior card */}
           <SettingsCard label="Behavior">
             <SettingRow>
@@ -674,205 +1774,802 @@ export default function Settings() {
               />
             </SettingRow>
           </SettingsCard>
+
+          {/* Transcription card */}
+          <SettingsCard label="Transcription">
+            <SettingRow border={false}>
+              <div class="flex flex-col min-w-0">
+                <label class="text-sm text-text-primary">Auto-transcribe</label>
+                <span class="text-xs text-text-secondary/60 font-mono">
+                  Speech-to-text runs on this device after saving
+                </span>
+              </div>
+              <Toggle
+                checked={settings().autoTranscribe}
+                onChange={handleAutoTranscribe}
+                label="Auto-transcribe"
+              />
+            </SettingRow>
+            <Show when={transcriptionManager.modelMissing()}>
+              <div class="p-3 rounded-md border border-accent-amber/30 bg-accent-amber/5 text-xs font-mono text-accent-amber/80 leading-relaxed">
+                The speech model isn't installed on this server. Place the {TRANSCRIPTION_MODEL} files under /models/ (see README).
+              </div>
+            </Show>
+          </SettingsCard>
         </div>
       </Show>
 
       {/* ─── Cloud Tab ─── */}
       <Show when={activeTab() === "cloud"}>
         <div id="panel-cloud" role="tabpanel" class="flex flex-col gap-3 sm:gap-4">
-          <Show
-            when={cloudStore.isConnected()}
-            fallback={
-              <div class="flex flex-col gap-4">
-                {/* Sign-in card */}
-                <SettingsCard label="Google Drive">
-                  <Show when={!googleAuth.getClientId()}>
-                    <div class="p-2.5 rounded-md border border-accent-amber/30 bg-accent-amber/5 text-xs font-mono text-accent-amber/80 leading-relaxed">
-                      OAuth Client ID required. Expand Developer Settings below to configure.
-                    </div>
-                  </Show>
-
-                  <div class="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-                    <span class="text-xs text-text-secondary/70 font-mono">
-                      Back up videos to your Google Drive
-                    </span>
-                    <button
-                      class="flex items-center justify-center gap-2 px-4 py-2.5 rounded-md text-sm font-mono border border-accent-cyan/40 text-accent-cyan hover:bg-accent-cyan/10 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] whitespace-nowrap"
-                      disabled={!googleAuth.getClientId() || cloudStore.isConnecting()}
-                      onClick={handleConnectDrive}
-                    >
-                      <Show when={cloudStore.isConnecting()} fallback={
-                        <>
-                          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-                            <path d="M15.5 2H8.6c-.4 0-.8.2-1 .6L2.1 11.4c-.2.4-.2.8 0 1.2l5.5 9.2c.2.4.6.6 1 .6h6.8c.4 0 .8-.2 1-.6l5.5-9.2c.2-.4.2-.8 0-1.2L16.4 2.6c-.2-.4-.6-.6-.9-.6z" />
-                          </svg>
-                          Sign in with Google
-                        </>
-                      }>
-                        <span class="animate-pulse">Connecting...</span>
-                      </Show>
-                    </button>
-                  </div>
-
-                </SettingsCard>
-
-                {/* Developer Settings */}
-                <div class="flex flex-col gap-2">
-                  <button
-                    class="flex items-center gap-1.5 text-xs font-mono text-text-secondary/50 hover:text-text-secondary transition-colors cursor-pointer self-start px-1"
-                    onClick={() => setShowDevSettings((v) => !v)}
-                  >
-                    <svg
-                      width="10" height="10" viewBox="0 0 10 10" fill="currentColor"
-                      class={`transition-transform ${showDevSettings() ? "rotate-90" : ""}`}
-                    >
-                      <path d="M3 1l4 4-4 4z" />
-                    </svg>
-                    Developer Settings
-                  </button>
-                  <Show when={showDevSettings()}>
-                    <SettingsCard>
-                      <label for="google-client-id" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
-                        Custom OAuth Client ID
-                      </label>
+          {/* Connections card — every account and server entries sync to */}
+          <SettingsCard label="Connections">
+            <Show
+              when={cloudStore.connections().length > 0}
+              fallback={
+                <span class="text-xs text-text-secondary/70 font-mono">
+                  No cloud connections yet — add one below to back up your recordings.
+                </span>
+              }
+            >
+              <For each={cloudStore.connections()}>
+                {(connection) => (
+                  <div class="flex flex-col gap-2 p-3 rounded-md border border-border-default bg-bg-primary/50">
+                    <div class="flex items-center gap-2">
                       <input
-                        id="google-client-id"
                         type="text"
-                        value={clientIdInput()}
-                        onInput={(e) => setClientIdInput(e.currentTarget.value)}
-                        placeholder="your-client-id.apps.googleusercontent.com"
-                        class="bg-bg-primary border border-border-default rounded-md px-3 py-2 min-h-[44px] text-sm text-text-primary placeholder:text-text-secondary/40 font-mono focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30"
+                        aria-label="Connection name"
+                        value={connection.label}
+                        placeholder={getCloudProviderLabel(connection.provider)}
+                        onChange={(e) => cloudStore.renameConnection(connection.id, e.currentTarget.value)}
+                        class={`${inputClass} flex-1 min-w-0`}
                       />
-                      <p class="text-[10px] font-mono text-text-secondary/50 leading-relaxed">
-                        Override the default Client ID. Create one at console.cloud.google.com with Drive API enabled.
-                      </p>
-                      <div class="flex items-center gap-2">
-                        <button
-                          class="px-3 py-1.5 rounded-md text-xs font-mono border border-accent-cyan/40 text-accent-cyan hover:bg-accent-cyan/10 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed min-h-[36px]"
-                          disabled={!clientIdInput().trim()}
-                          onClick={() => {
-                            googleAuth.setClientId(clientIdInput().trim());
-                          }}
+                      <button
+                        class={`${dangerBtnClass} shrink-0`}
+                        onClick={() => void handleRemoveConnection(connection.id)}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <SettingRow border={false}>
+                      <div class="flex flex-col min-w-0">
+                        <Show
+                          when={cloudStore.isSignedIn(connection.id)}
+                          fallback={
+                            <span class="text-xs font-mono text-accent-amber/80">
+                              {getCloudProviderLabel(connection.provider)} · Signed out
+                            </span>
+                          }
                         >
-                          Save
-                        </button>
-                        <Show when={googleAuth.hasCustomClientId()}>
+                          <span class="text-xs font-mono text-accent-green/80 truncate">
+                            {getCloudProviderLabel(connection.provider)} · Connected
+                            {cloudStore.userDisplayName(connection.id) ? ` \u2014 ${cloudStore.userDisplayName(connection.id)}` : ""}
+                          </span>
+                        </Show>
+                        <span class="text-xs text-text-secondary/60 font-mono">
+                          {connection.autoSync ? "Auto-sync uploads here" : "Manual backups only"}
+                        </span>
+                      </div>
+                      <div class="flex items-center gap-2 shrink-0">
+                        <Show when={!cloudStore.isSignedIn(connection.id)}>
                           <button
-                            class="px-3 py-1.5 rounded-md text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary transition-colors cursor-pointer min-h-[36px]"
-                            onClick={() => {
-                              googleAuth.clearClientId();
-                              setClientIdInput("");
-                            }}
+                            class="px-3 py-1.5 rounded text-xs font-mono border border-accent-cyan/40 text-accent-cyan hover:bg-accent-cyan/10 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px]"
+                            disabled={cloudStore.isConnecting()}
+                            onClick={() => void handleReconnect(connection)}
                           >
-                            Reset to default
+                            <Show when={cloudStore.isConnecting(connection.id)} fallback="Reconnect">
+                              <span class="animate-pulse">Connecting...</span>
+                            </Show>
                           </button>
                         </Show>
+                        <Toggle
+                          checked={connection.autoSync}
+                          onChange={(v) => cloudStore.setConnectionAutoSync(connection.id, v)}
+                          label={`Auto-sync to ${getConnectionLabel(connection)}`}
+                        />
                       </div>
-                    </SettingsCard>
-                  </Show>
-                </div>
-              </div>
-            }
-          >
-            {/* Connected state */}
+                    </SettingRow>
+                  </div>
+                )}
+              </For>
+              <p class="text-[10px] font-mono text-text-secondary/50 leading-relaxed">
+                Removing a connection leaves its files in the cloud — adding the same account and folder again links them back.
+              </p>
+            </Show>
+          </SettingsCard>
 
-            {/* Connection card */}
-            <SettingsCard label="Google Drive">
-              <div class="flex items-center justify-between gap-3">
-                <div class="flex flex-col min-w-0">
-                  <span class="text-xs font-mono text-accent-green/80">
-                    Connected{cloudStore.userEmail() ? ` \u2014 ${cloudStore.userEmail()}` : ""}
-                  </span>
+          {/* Add connection card */}
+          <SettingsCard label="Add Connection">
+            <SettingRow>
+              <label for="new-connection-provider" class="text-sm text-text-primary">Provider</label>
+              <select
+                id="new-connection-provider"
+                class={selectClass}
+                value={newProvider()}
+                onChange={(e) => setNewProvider(e.currentTarget.value as CloudProviderType)}
+              >
+                <For each={Object.entries(CLOUD_PROVIDER_LABELS)}>
+                  {([type, label]) => <option value={type}>{label}</option>}
+                </For>
+              </select>
+            </SettingRow>
+            <label for="new-connection-label" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+              Name
+            </label>
+            <input
+              id="new-connection-label"
+              type="text"
+              value={newLabel()}
+              onInput={(e) => setNewLabel(e.currentTarget.value)}
+              placeholder={`Optional, e.g. Work ${CLOUD_PROVIDER_LABELS[newProvider()]}`}
+              class={inputClass}
+            />
+
+            <Show when={newProvider() === "google-drive"}>
+              <Show when={!googleAuth.getClientId()}>
+                <div class="p-2.5 rounded-md border border-accent-amber/30 bg-accent-amber/5 text-xs font-mono text-accent-amber/80 leading-relaxed">
+                  OAuth Client ID required. Expand Developer Settings below to configure.
                 </div>
-                  <button
-                    class={`${dangerBtnClass} shrink-0`}
-                    onClick={handleDisconnectDrive}
-                  >
-                  Disconnect
-                </button>
-              </div>
-            </SettingsCard>
+              </Show>
+              <span class="text-xs text-text-secondary/70 font-mono">
+                Back up videos to a Google Drive — add one connection per account
+              </span>
+            </Show>
 
-            {/* Sync controls card */}
-            <SettingsCard label="Sync">
-              <SettingRow>
+            <Show when={newProvider() === "webdav"}>
+              <span class="text-xs text-text-secondary/70 font-mono">
+                Back up videos to Nextcloud, ownCloud, or any WebDAV server
+              </span>
+              <label for="webdav-url" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                Server URL
+              </label>
+              <input
+                id="webdav-url"
+                type="url"
+                value={webdavUrl()}
+                onInput={(e) => setWebdavUrl(e.currentTarget.value)}
+                placeholder="https://cloud.example.com/remote.php/dav/files/you/"
+                class={inputClass}
+              />
+              <label for="webdav-user" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                Username
+              </label>
+              <input
+                id="webdav-user"
+                type="text"
+                autocomplete="username"
+                value={webdavUser()}
+                onInput={(e) => setWebdavUser(e.currentTarget.value)}
+                class={inputClass}
+              />
+              <label for="webdav-password" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                App Password
+              </label>
+              <input
+                id="webdav-password"
+                type="password"
+                autocomplete="current-password"
+                value={webdavPassword()}
+                onInput={(e) => setWebdavPassword(e.currentTarget.value)}
+                class={inputClass}
+              />
+              <label for="webdav-folder" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                Folder
+              </label>
+              <input
+                id="webdav-folder"
+                type="text"
+                value={webdavFolder()}
+                onInput={(e) => setWebdavFolder(e.currentTarget.value)}
+                placeholder={DEFAULT_WEBDAV_FOLDER}
+                class={inputClass}
+              />
+              <p class="text-[10px] font-mono text-text-secondary/50 leading-relaxed">
+                Use an app password where your server supports one. The server must allow CORS requests from this site.
+              </p>
+            </Show>
+
+            <Show when={newProvider() === "s3"}>
+              <span class="text-xs text-text-secondary/70 font-mono">
+                Back up videos to AWS S3, MinIO, Garage, or Cloudflare R2
+              </span>
+              <label for="s3-endpoint" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                Endpoint
+              </label>
+              <input
+                id="s3-endpoint"
+                type="url"
+                value={s3Endpoint()}
+                onInput={(e) => setS3Endpoint(e.currentTarget.value)}
+                placeholder="https://s3.us-east-1.amazonaws.com"
+                class={inputClass}
+              />
+              <label for="s3-bucket" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                Bucket
+              </label>
+              <input
+                id="s3-bucket"
+                type="text"
+                value={s3Bucket()}
+                onInput={(e) => setS3Bucket(e.currentTarget.value)}
+                placeholder="vidlog"
+                class={inputClass}
+              />
+              <label for="s3-region" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                Region
+              </label>
+              <input
+                id="s3-region"
+                type="text"
+                value={s3Region()}
+                onInput={(e) => setS3Region(e.currentTarget.value)}
+                placeholder="us-east-1"
+                class={inputClass}
+              />
+              <label for="s3-access-key" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                Access Key ID
+              </label>
+              <input
+                id="s3-access-key"
+                type="text"
+                autocomplete="username"
+                value={s3AccessKey()}
+                onInput={(e) => setS3AccessKey(e.currentTarget.value)}
+                class={inputClass}
+              />
+              <label for="s3-secret-key" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                Secret Access Key
+              </label>
+              <input
+                id="s3-secret-key"
+                type="password"
+                autocomplete="current-password"
+                value={s3SecretKey()}
+                onInput={(e) => setS3SecretKey(e.currentTarget.value)}
+                class={inputClass}
+              />
+              <label for="s3-prefix" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                Key Prefix
+              </label>
+              <input
+                id="s3-prefix"
+                type="text"
+                value={s3Prefix()}
+                onInput={(e) => setS3Prefix(e.currentTarget.value)}
+                placeholder="Optional, e.g. work/"
+                class={inputClass}
+              />
+              <SettingRow border={false}>
                 <div class="flex flex-col min-w-0">
-                  <span class="text-sm text-text-primary">Auto-Sync</span>
+                  <span class="text-sm text-text-primary">Path-Style URLs</span>
                   <span class="text-xs text-text-secondary/60 font-mono">
-                    Upload new recordings automatically
+                    endpoint/bucket instead of bucket.endpoint (MinIO, Garage)
                   </span>
                 </div>
                 <Toggle
-                  checked={cloudStore.isAutoSyncEnabled()}
-                  onChange={() => cloudStore.toggleAutoSync()}
-                  label="Auto-Sync"
+                  checked={s3PathStyle()}
+                  onChange={(v) => setS3PathStyle(v)}
+                  label="Path-Style URLs"
                 />
               </SettingRow>
+              <p class="text-[10px] font-mono text-text-secondary/50 leading-relaxed">
+                Use a key scoped to this bucket only. The bucket's CORS policy must allow this site and expose the ETag header.
+              </p>
+            </Show>
 
-              <SettingRow border={false}>
-                <span class="text-xs font-mono text-text-secondary">
-                  <Show when={cloudSyncManager.syncStatus() === "syncing"}>
-                    <span class="text-accent-amber animate-pulse">
-                      Syncing
-                      <Show when={cloudSyncManager.syncProgress()}>
-                        {" "}({cloudSyncManager.syncProgress()!.current}/{cloudSyncManager.syncProgress()!.total})
-                      </Show>
-                      ...
-                    </span>
-                  </Show>
-                  <Show when={cloudSyncManager.syncStatus() === "idle"}>
-                    <span class="text-text-secondary/60">
-                      {cloudSyncManager.syncQueue().length > 0
-                        ? `${cloudSyncManager.syncQueue().length} pending`
-                        : "Up to date"}
-                    </span>
-                  </Show>
-                  <Show when={cloudSyncManager.syncStatus() === "error"}>
-                    <span class="text-accent-red">Sync error</span>
-                  </Show>
-                </span>
-                <button
-                  class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px]"
-                  disabled={cloudSyncManager.syncStatus() === "syncing"}
-                  onClick={() => void cloudStore.syncNow()}
+            <button
+              class="flex items-center justify-center gap-2 px-4 py-2.5 rounded-md text-sm font-mono border border-accent-cyan/40 text-accent-cyan hover:bg-accent-cyan/10 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] whitespace-nowrap sm:self-end"
+              disabled={!canAddConnection() || cloudStore.isConnecting()}
+              onClick={handleAddConnection}
+            >
+              <Show when={addingConnection()} fallback="Connect">
+                <span class="animate-pulse">Connecting...</span>
+              </Show>
+            </button>
+          </SettingsCard>
+
+          <Show when={newProvider() === "google-drive"}>
+            {/* Developer Settings */}
+            <div class="flex flex-col gap-2">
+              <button
+                class="flex items-center gap-1.5 text-xs font-mono text-text-secondary/50 hover:text-text-secondary transition-colors cursor-pointer self-start px-1"
+                onClick={() => setShowDevSettings((v) => !v)}
+              >
+                <svg
+                  width="10" height="10" viewBox="0 0 10 10" fill="currentColor"
+                  class={`transition-transform ${showDevSettings() ? "rotate-90" : ""}`}
                 >
-                  Sync Now
-                </button>
-              </SettingRow>
-            </SettingsCard>
+                  <path d="M3 1l4 4-4 4z" />
+                </svg>
+                Developer Settings
+              </button>
+              <Show when={showDevSettings()}>
+                <SettingsCard>
+                  <label for="google-client-id" class="text-xs font-mono text-text-secondary uppercase tracking-wider">
+                    Custom OAuth Client ID
+                  </label>
+                  <input
+                    id="google-client-id"
+                    type="text"
+                    value={clientIdInput()}
+                    onInput={(e) => setClientIdInput(e.currentTarget.value)}
+                    placeholder="your-client-id.apps.googleusercontent.com"
+                    class={inputClass}
+                  />
+                  <p class="text-[10px] font-mono text-text-secondary/50 leading-relaxed">
+                    Override the default Client ID. Create one at console.cloud.google.com with Drive API enabled.
+                  </p>
+                  <div class="flex items-center gap-2">
+                    <button
+                      class="px-3 py-1.5 rounded-md text-xs font-mono border border-accent-cyan/40 text-accent-cyan hover:bg-accent-cyan/10 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed min-h-[36px]"
+                      disabled={!clientIdInput().trim()}
+                      onClick={() => {
+                        googleAuth.setClientId(clientIdInput().trim());
+                      }}
+                    >
+                      Save
+                    </button>
+                    <Show when={googleAuth.hasCustomClientId()}>
+                      <button
+                        class="px-3 py-1.5 rounded-md text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary transition-colors cursor-pointer min-h-[36px]"
+                        onClick={() => {
+                          googleAuth.clearClientId();
+                          setClientIdInput("");
+                        }}
+                      >
+                        Reset to default
+                      </button>
+                    </Show>
+                  </div>
+                </SettingsCard>
+              </Show>
+            </div>
+          </Show>
 
-            {/* Drive storage card */}
-            <Show when={cloudQuota()}>
-              {(cq) => {
-                const pct = cq().usagePercent;
-                const barColor =
-                  pct >= 90 ? "bg-accent-red"
-                  : pct >= 75 ? "bg-accent-amber"
-                  : "bg-accent-cyan";
-                return (
-                  <SettingsCard label="Drive Storage">
-                    <div class="flex items-center justify-between text-xs font-mono text-text-secondary">
-                      <span>Used</span>
-                      <span class="text-text-primary">
-                        {formatBytes(cq().usageBytes)}
-                        {cq().totalBytes > 0 ? ` / ${formatBytes(cq().totalBytes)}` : ""}
+          <Show when={cloudStore.isConnected()}>
+              {/* Sync controls card */}
+              <SettingsCard label="Sync">
+                <SettingRow>
+                  <div class="flex flex-col min-w-0">
+                    <span class="text-sm text-text-primary">Auto-Sync</span>
+                    <span class="text-xs text-text-secondary/60 font-mono">
+                      Upload new recordings automatically
+                    </span>
+                  </div>
+                  <Toggle
+                    checked={cloudStore.isAutoSyncEnabled()}
+                    onChange={() => cloudStore.toggleAutoSync()}
+                    label="Auto-Sync"
+                  />
+                </SettingRow>
+
+                <SettingRow>
+                  <div class="flex flex-col min-w-0">
+                    <label for="sync-rule" class="text-sm text-text-primary">Sync</label>
+                    <span class="text-xs text-text-secondary/60 font-mono truncate">
+                      {describeSyncRule(settings().cloudSyncRule)} · pinned entries always
+                    </span>
+                  </div>
+                  <select
+                    id="sync-rule"
+                    class={selectClass}
+                    value={settings().cloudSyncRule.mode}
+                    onChange={(e) => void handleSyncRuleChange({ mode: e.currentTarget.value as CloudSyncRuleMode })}
+                  >
+                    <option value="all">Everything</option>
+                    <option value="tags">By tag</option>
+                    <option value="duration">Short entries</option>
+                    <option value="size">Small entries</option>
+                    <option value="never">Pinned only</option>
+                  </select>
+                </SettingRow>
+
+                <Show when={settings().cloudSyncRule.mode === "tags"}>
+                  <SettingRow>
+                    <label for="sync-rule-tags" class="text-sm text-text-primary shrink-0">Tags</label>
+                    <input
+                      id="sync-rule-tags"
+                      type="text"
+                      class={`${inputClass} min-w-0 w-48`}
+                      value={settings().cloudSyncRule.tags.join(", ")}
+                      placeholder="work, travel"
+                      onChange={(e) =>
+                        void handleSyncRuleChange({
+                          tags: e.currentTarget.value
+                            .split(",")
+                            .map((t) => t.trim())
+                            .filter((t) => t.length > 0),
+                        })
+                      }
+                    />
+                  </SettingRow>
+                </Show>
+
+                <Show when={settings().cloudSyncRule.mode === "duration"}>
+                  <SettingRow>
+                    <label for="sync-rule-minutes" class="text-sm text-text-primary">Shorter than</label>
+                    <select
+                      id="sync-rule-minutes"
+                      class={selectClass}
+                      value={settings().cloudSyncRule.maxMinutes}
+                      onChange={(e) => void handleSyncRuleChange({ maxMinutes: parseInt(e.currentTarget.value) })}
+                    >
+                      <option value="1">1 min</option>
+                      <option value="2">2 min</option>
+                      <option value="5">5 min</option>
+                      <option value="10">10 min</option>
+                      <option value="30">30 min</option>
+                    </select>
+                  </SettingRow>
+                </Show>
+
+                <Show when={settings().cloudSyncRule.mode === "size"}>
+                  <SettingRow>
+                    <label for="sync-rule-size" class="text-sm text-text-primary">Smaller than</label>
+                    <select
+                      id="sync-rule-size"
+                      class={selectClass}
+                      value={settings().cloudSyncRule.maxMegabytes}
+                      onChange={(e) => void handleSyncRuleChange({ maxMegabytes: parseInt(e.currentTarget.value) })}
+                    >
+                      <option value="25">25 MB</option>
+                      <option value="50">50 MB</option>
+                      <option value="100">100 MB</option>
+                      <option value="250">250 MB</option>
+                      <option value="500">500 MB</option>
+                    </select>
+                  </SettingRow>
+                </Show>
+
+                <Show when={backgroundUploads.notificationPermission() !== "unsupported"}>
+                  <SettingRow>
+                    <div class="flex flex-col min-w-0">
+                      <span class="text-sm text-text-primary">Upload Notifications</span>
+                      <span class="text-xs text-text-secondary/60 font-mono">
+                        {backgroundUploads.notificationPermission() === "granted"
+                          ? "On — you'll hear when uploads finish in the background"
+                          : backgroundUploads.notificationPermission() === "denied"
+                            ? "Blocked — allow notifications in your browser's site settings"
+                            : "Hear when uploads finish after you leave the app"}
                       </span>
                     </div>
-                    <Show when={cq().totalBytes > 0}>
-                      <div class="w-full h-1.5 bg-bg-primary rounded-full overflow-hidden">
-                        <div
-                          class={`h-full rounded-full transition-all ${barColor}`}
-                          style={{ width: `${Math.min(pct, 100)}%` }}
-                        />
+                    <Show when={backgroundUploads.notificationPermission() === "default"}>
+                      <button
+                        class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer min-h-[36px]"
+                        onClick={() => void handleEnableNotifications()}
+                      >
+                        Enable
+                      </button>
+                    </Show>
+                  </SettingRow>
+                </Show>
+
+                <SettingRow>
+                  <div class="flex flex-col min-w-0">
+                    <span class="text-sm text-text-primary">Keep Streamed Videos</span>
+                    <span class="text-xs text-text-secondary/60 font-mono">
+                      Save a cloud video on this device once it has played to the end
+                    </span>
+                  </div>
+                  <Toggle
+                    checked={settings().keepStreamedVideos}
+                    onChange={handleKeepStreamed}
+                    label="Keep Streamed Videos"
+                  />
+                </SettingRow>
+
+                <SettingRow border={false}>
+                  <span class="text-xs font-mono text-text-secondary">
+                    <Show when={cloudSyncManager.syncStatus() === "syncing"}>
+                      <Show
+                        when={!cloudSyncManager.waitingForNetwork()}
+                        fallback={<span class="text-accent-amber">Offline — uploads resume when you reconnect</span>}
+                      >
+                        <span class="text-accent-amber animate-pulse">
+                          Syncing
+                          <Show when={cloudSyncManager.syncProgress()}>
+                            {" "}({cloudSyncManager.syncProgress()!.current}/{cloudSyncManager.syncProgress()!.total})
+                          </Show>
+                          ...
+                        </span>
+                      </Show>
+                    </Show>
+                    <Show when={cloudSyncManager.syncStatus() === "idle"}>
+                      <span class="text-text-secondary/60">
+                        {cloudSyncManager.syncQueue().length > 0
+                          ? `${cloudSyncManager.syncQueue().length} pending`
+                          : "Up to date"}
+                      </span>
+                    </Show>
+                    <Show when={cloudSyncManager.syncStatus() === "error"}>
+                      <span class="text-accent-red">Sync error</span>
+                    </Show>
+                    <Show when={cloudSyncManager.backgroundProgress().length > 0}>
+                      <span class="text-accent-amber">
+                        {" "}· {cloudSyncManager.backgroundProgress().length} in background, {backgroundPercent()}%
+                      </span>
+                    </Show>
+                  </span>
+                  <button
+                    class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px]"
+                    disabled={cloudSyncManager.syncStatus() === "syncing"}
+                    onClick={() => void cloudStore.syncNow()}
+                  >
+                    Sync Now
+                  </button>
+                </SettingRow>
+              </SettingsCard>
+
+              {/* Conflicts — changed here and on another device since the last sync */}
+              <Show when={cloudSyncManager.conflicts().length > 0}>
+                <SettingsCard label="Sync Conflicts">
+                  <span class="text-xs font-mono text-text-secondary/60">
+                    These entries changed on this device and on another one. Choose which version to keep.
+                  </span>
+                  <For each={cloudSyncManager.conflicts()}>
+                    {(conflict) => (
+                      <div class="flex flex-col gap-2 p-3 rounded-md border border-accent-amber/30 bg-accent-amber/5">
+                        <div class="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs font-mono">
+                          <ConflictSide label="This device" fields={conflict.local} />
+                          <Show
+                            when={conflict.remote}
+                            fallback={
+                              <div class="flex flex-col gap-0.5 min-w-0">
+                                <span class="text-text-secondary/60 uppercase tracking-wider">{connectionLabel(conflict.connectionId)}</span>
+                                <span class="text-accent-red/80">Deleted on another device</span>
+                              </div>
+                            }
+                          >
+                            {(remote) => <ConflictSide label={connectionLabel(conflict.connectionId)} fields={remote()} />}
+                          </Show>
+                        </div>
+                        <div class="flex items-center gap-2 self-end">
+                          <button class={cancelBtnClass} onClick={() => void handleResolveConflict(conflict, "cloud")}>
+                            {conflict.remote ? "Keep Cloud" : "Delete Here"}
+                          </button>
+                          <button
+                            class="px-3 py-1.5 rounded-md text-xs font-mono border border-accent-cyan/40 text-accent-cyan hover:bg-accent-cyan/10 transition-colors cursor-pointer min-h-[36px]"
+                            onClick={() => void handleResolveConflict(conflict, "local")}
+                          >
+                            Keep This Device
+                          </button>
+                        </div>
                       </div>
-                      <span class={`text-[10px] font-mono ${pct >= 90 ? "text-accent-red" : "text-text-secondary/50"}`}>
-                        {pct.toFixed(1)}% of Google Drive used
+                    )}
+                  </For>
+                </SettingsCard>
+              </Show>
+
+              {/* Verify card — checks that backups are really there and intact */}
+              <SettingsCard label="Verify Backups">
+                <SettingRow border={false}>
+                  <span class="text-xs font-mono text-text-secondary/60">
+                    Check every backed-up video against this device's copy, and find cloud files no entry uses
+                  </span>
+                  <button
+                    class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px] shrink-0"
+                    disabled={backupVerifier.running()}
+                    onClick={() => void handleVerifyBackups()}
+                  >
+                    <Show when={backupVerifier.running()} fallback="Verify">
+                      <span class="animate-pulse">
+                        Checking
+                        <Show when={backupVerifier.progress()}>
+                          {(p) => ` ${p().done}/${p().total}`}
+                        </Show>
+                        ...
                       </span>
                     </Show>
+                  </button>
+                </SettingRow>
+                <Show when={!backupVerifier.running() && backupVerifier.report()}>
+                  {(report) => (
+                    <>
+                      <span
+                        class="text-xs font-mono"
+                        classList={{
+                          "text-accent-green/80": report().issues.length === 0,
+                          "text-accent-amber/80": report().issues.length > 0,
+                        }}
+                      >
+                        Checked {report().checked} cloud {report().checked === 1 ? "copy" : "copies"} —{" "}
+                        {report().issues.length === 0
+                          ? "no problems found"
+                          : `${report().issues.length} ${report().issues.length === 1 ? "problem" : "problems"}`}
+                      </span>
+                      <For each={report().skipped}>
+                        {(skip) => (
+                          <span class="text-xs font-mono text-text-secondary/60">
+                            {connectionLabel(skip.connectionId)} not checked: {skip.reason}
+                          </span>
+                        )}
+                      </For>
+                      <For each={report().issues}>
+                        {(issue) => (
+                          <div class="flex flex-col gap-2 p-3 rounded-md border border-accent-amber/30 bg-accent-amber/5">
+                            <div class="flex flex-col gap-0.5 min-w-0 text-xs font-mono">
+                              <span class="text-text-primary truncate">{issue.title || "Untitled"}</span>
+                              <span class="text-text-secondary/70">
+                                {connectionLabel(issue.connectionId)} · {issue.detail}
+                              </span>
+                            </div>
+                            <div class="flex flex-wrap items-center gap-2 self-end">
+                              <For each={issue.fixes}>
+                                {(fix, i) => (
+                                  <button
+                                    class={
+                                      i() === 0
+                                        ? "px-3 py-1.5 rounded-md text-xs font-mono border border-accent-cyan/40 text-accent-cyan hover:bg-accent-cyan/10 transition-colors cursor-pointer min-h-[36px] disabled:opacity-50"
+                                        : `${cancelBtnClass} disabled:opacity-50`
+                                    }
+                                    disabled={fixing() !== null}
+                                    onClick={() => void handleVerifyFix(issue, fix)}
+                                  >
+                                    <Show when={fixing()?.issue === issue && fixing()?.fix === fix} fallback={VERIFY_FIX_LABELS[fix]}>
+                                      <span class="animate-pulse">Working...</span>
+                                    </Show>
+                                  </button>
+                                )}
+                              </For>
+                            </div>
+                          </div>
+                        )}
+                      </For>
+                    </>
+                  )}
+                </Show>
+              </SettingsCard>
+
+              {/* Connection picker — encryption and storage below are per connection */}
+              <Show when={signedInConnections().length > 1}>
+                <SettingsCard>
+                  <SettingRow border={false}>
+                    <div class="flex flex-col min-w-0">
+                      <label for="selected-connection" class="text-sm text-text-primary">Connection</label>
+                      <span class="text-xs text-text-secondary/60 font-mono">
+                        Encryption and storage for one connection
+                      </span>
+                    </div>
+                    <select
+                      id="selected-connection"
+                      class={selectClass}
+                      value={selectedConnection()?.id}
+                      onChange={(e) => setSelectedConnectionId(e.currentTarget.value)}
+                    >
+                      <For each={signedInConnections()}>
+                        {(connection) => <option value={connection.id}>{getConnectionLabel(connection)}</option>}
+                      </For>
+                    </select>
+                  </SettingRow>
+                </SettingsCard>
+              </Show>
+
+              {/* Encryption card */}
+              <Show when={selectedConnection()}>
+                {(connection) => (
+                  <SettingsCard label={`${cloudLabel()} Encryption`}>
+                    <Show
+                      when={cloudEncryption.isEnabled(connection().id)}
+                      fallback={
+                        <>
+                          <span class="text-xs text-text-secondary/70 font-mono leading-relaxed">
+                            Encrypt videos and metadata in this browser before upload. {cloudLabel()} only ever stores ciphertext.
+                          </span>
+                          <input
+                            type="password"
+                            autocomplete="new-password"
+                            aria-label="New passphrase"
+                            placeholder="Passphrase (min. 8 characters)"
+                            value={passphrase()}
+                            onInput={(e) => setPassphrase(e.currentTarget.value)}
+                            class={inputClass}
+                          />
+                          <input
+                            type="password"
+                            autocomplete="new-password"
+                            aria-label="Confirm passphrase"
+                            placeholder="Confirm passphrase"
+                            value={passphraseConfirm()}
+                            onInput={(e) => setPassphraseConfirm(e.currentTarget.value)}
+                            class={inputClass}
+                          />
+                          <p class="text-[10px] font-mono text-accent-amber/80 leading-relaxed">
+                            There is no recovery — if you forget the passphrase, encrypted recordings can't be decrypted.
+                          </p>
+                          <button
+                            class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px] self-end"
+                            disabled={passphrase().length < 8 || encryptionBusy()}
+                            onClick={handleEnableEncryption}
+                          >
+                            <Show when={encryptionBusy()} fallback="Enable Encryption">
+                              <span class="animate-pulse">Deriving key...</span>
+                            </Show>
+                          </button>
+                        </>
+                      }
+                    >
+                      <Show
+                        when={cloudEncryption.isUnlocked(connection().id)}
+                        fallback={
+                          <>
+                            <span class="text-xs font-mono text-accent-amber/80">
+                              Locked — sync is paused until you enter the passphrase
+                            </span>
+                            <div class="flex items-center gap-2">
+                              <input
+                                type="password"
+                                autocomplete="current-password"
+                                aria-label="Passphrase"
+                                placeholder="Passphrase"
+                                value={passphrase()}
+                                onInput={(e) => setPassphrase(e.currentTarget.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter" && passphrase()) void handleUnlockEncryption();
+                                }}
+                                class={`${inputClass} flex-1 min-w-0`}
+                              />
+                              <button
+                                class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px] shrink-0"
+                                disabled={!passphrase() || encryptionBusy()}
+                                onClick={handleUnlockEncryption}
+                              >
+                                <Show when={encryptionBusy()} fallback="Unlock">
+                                  <span class="animate-pulse">Unlocking...</span>
+                                </Show>
+                              </button>
+                            </div>
+                          </>
+                        }
+                      >
+                        <SettingRow border={false}>
+                          <span class="text-xs font-mono text-accent-green/80">
+                            Unlocked — uploads are encrypted
+                          </span>
+                          <button
+                            class="px-3 py-1.5 rounded text-xs font-mono border border-border-default text-text-secondary hover:text-text-primary hover:border-accent-cyan/40 transition-colors cursor-pointer disabled:opacity-50 min-h-[36px] shrink-0"
+                            onClick={() => cloudEncryption.lock(connection().id)}
+                          >
+                            Lock
+                          </button>
+                        </SettingRow>
+                      </Show>
+                    </Show>
                   </SettingsCard>
-                );
-              }}
-            </Show>
+                )}
+              </Show>
+
+              {/* Cloud storage card */}
+              <Show when={cloudQuota()}>
+                {(cq) => {
+                  const pct = cq().usagePercent;
+                  const barColor =
+                    pct >= 90 ? "bg-accent-red"
+                    : pct >= 75 ? "bg-accent-amber"
+                    : "bg-accent-cyan";
+                  return (
+                    <SettingsCard label={`${cloudLabel()} Storage`}>
+                      <div class="flex items-center justify-between text-xs font-mono text-text-secondary">
+                        <span>Used</span>
+                        <span class="text-text-primary">
+                          {formatBytes(cq().usageBytes)}
+                          {cq().totalBytes > 0 ? ` / ${formatBytes(cq().totalBytes)}` : ""}
+                        </span>
+                      </div>
+                      <Show when={cq().totalBytes > 0}>
+                        <div class="w-full h-1.5 bg-bg-primary rounded-full overflow-hidden">
+                          <div
+                            class={`h-full rounded-full transition-all ${barColor}`}
+                            style={{ width: `${Math.min(pct, 100)}%` }}
+                          />
+                        </div>
+                        <span class={`text-[10px] font-mono ${pct >= 90 ? "text-accent-red" : "text-text-secondary/50"}`}>
+                          {pct.toFixed(1)}% of {cloudLabel()} used
+                        </span>
+                      </Show>
+                    </SettingsCard>
+                  );
+                }}
+              </Show>
 
           </Show>
 
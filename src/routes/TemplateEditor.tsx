@@ -0,0 +1,356 @@
+import { createEffect, createSignal, For, onCleanup, onMount, Show, type JSX } from "solid-js";
+import { useNavigate, useSearchParams } from "@solidjs/router";
+import { templateStore } from "~/stores/template";
+import { settingsStore } from "~/stores/settings";
+import { toastStore } from "~/stores/toast";
+import { RecordingEngine } from "~/services/recorder/engine";
+import { createSampleStream, requestCamera, stopStream } from "~/services/recorder/camera";
+import { withAlpha } from "~/components/templates/renderers/shared";
+import Toggle from "~/components/ui/Toggle";
+import Button from "~/components/ui/Button";
+import { getCameraErrorMessage } from "~/utils/compat";
+import type { TemplateConfig } from "~/models/types";
+
+type PreviewSource = "sample" | "camera";
+
+const FONT_OPTIONS = ["JetBrains Mono", "Inter", "Orbitron", "system-ui", "Courier New", "Georgia"];
+
+const CORNER_OPTIONS: { value: TemplateConfig["cornerStyle"]; label: string }[] = [
+  { value: "rounded", label: "Rounded" },
+  { value: "angular", label: "Angular" },
+  { value: "brackets", label: "Brackets" },
+  { value: "none", label: "None" },
+];
+
+const VISIBILITY_OPTIONS: { key: "showTimestamp" | "showElapsed" | "showRecordingIndicator" | "showScanLines"; label: string }[] = [
+  { key: "showTimestamp", label: "Date & Time" },
+  { key: "showElapsed", label: "Elapsed Time" },
+  { key: "showRecordingIndicator", label: "Recording Indicator" },
+  { key: "showScanLines", label: "Scan Lines" },
+];
+
+const selectClass = "bg-bg-primary border border-border-default rounded-md px-2.5 py-1.5 min-h-[40px] text-sm text-text-primary font-mono focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30 cursor-pointer";
+const inputClass = "bg-bg-primary border border-border-default rounded-md px-3 py-2 min-h-[40px] text-sm text-text-primary placeholder:text-text-secondary/40 font-mono focus:outline-none focus:border-accent-cyan/60 focus:ring-2 focus:ring-accent-cyan/30";
+
+/** Split a CSS color into a #rrggbb value (for <input type="color">) and an alpha */
+function splitColor(color: string): { hex: string; alpha: number } {
+  const rgba = withAlpha(color, 1);
+  const match = /^rgba\((\d+), (\d+), (\d+), 1\)$/.exec(rgba);
+  if (!match) return { hex: "#000000", alpha: 1 };
+  const hex = "#" + match.slice(1, 4).map((c) => Number(c).toString(16).padStart(2, "0")).join("");
+  const alpha = /^rgba\(.*,\s*([\d.]+)\s*\)$/.exec(color.trim());
+  return { hex, alpha: alpha ? Number(alpha[1]) : 1 };
+}
+
+function EditorRow(props: { label: string; children: JSX.Element }) {
+  return (
+    <div class="flex items-center justify-between gap-3 py-2 min-h-[44px] border-b border-border-default/30">
+      <span class="text-sm text-text-primary">{props.label}</span>
+      {props.children}
+    </div>
+  );
+}
+
+/**
+ * Template editor — fork a built-in template, tweak its TemplateConfig
+ * against a live preview, and save it as a named variant.
+ *
+ * URL: /templates?id={variantId} edits a saved variant,
+ *      /templates?from={templateId} starts a new one from a built-in
+ *      template or a copy of a variant.
+ *
+ * The preview runs the same RecordingEngine the recorder uses (without
+ * ever starting a recording), fed by a synthetic sample stream or the
+ * camera.
+ */
+export default function TemplateEditor() {
+  const navigate = useNavigate();
+  const [params, setParams] = useSearchParams<{ id?: string; from?: string }>();
+  const builtIns = templateStore.getBuiltInTemplates();
+
+  // Resolve the starting point from the URL
+  const saved = templateStore.variants().find((v) => v.id === params.id);
+  const forkedVariant = templateStore.variants().find((v) => v.id === params.from);
+  const forkedBuiltIn = builtIns.find((t) => t.id === params.from) ?? builtIns[0];
+
+  const [variantId, setVariantId] = createSignal<string | undefined>(saved?.id);
+  const [name, setName] = createSignal(
+    saved?.name ?? (forkedVariant ? `${forkedVariant.name} copy` : `My ${forkedBuiltIn.name}`),
+  );
+  const [baseId, setBaseId] = createSignal(saved?.baseId ?? forkedVariant?.baseId ?? forkedBuiltIn.id);
+  const [config, setConfig] = createSignal<TemplateConfig>({
+    ...(saved?.config ?? forkedVariant?.config ?? forkedBuiltIn.config),
+  });
+  const [source, setSource] = createSignal<PreviewSource>("sample");
+  const [showDeleteConfirm, setShowDeleteConfirm] = createSignal(false);
+
+  let canvasRef: HTMLCanvasElement | undefined;
+  let engine: RecordingEngine | null = null;
+  let stream: MediaStream | null = null;
+  let previewToken = 0;
+
+  function update<K extends keyof TemplateConfig>(key: K, value: TemplateConfig[K]) {
+    setConfig((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function teardownPreview() {
+    engine?.destroy();
+    engine = null;
+    if (stream) stopStream(stream);
+    stream = null;
+  }
+
+  async function startPreview(next: PreviewSource) {
+    const token = ++previewToken;
+    teardownPreview();
+    setSource(next);
+    if (!canvasRef) return;
+
+    let nextStream: MediaStream;
+    try {
+      nextStream = next === "camera" ? await requestCamera() : createSampleStream();
+    } catch (err) {
+      toastStore.error(getCameraErrorMessage(err));
+      if (token === previewToken) void startPreview("sample");
+      return;
+    }
+    if (token !== previewToken) {
+      stopStream(nextStream);
+      return;
+    }
+    stream = nextStream;
+
+    engine = new RecordingEngine({
+      canvas: canvasRef,
+      stream: nextStream,
+      template: templateStore.previewTemplate(baseId(), config()),
+      title: name(),
+      // Never recorded — only the preview render loop runs
+      videoBitsPerSecond: 0,
+      audioBitsPerSecond: undefined,
+      frameRate: 30,
+      preferredFormat: settingsStore.settings().recordingFormat,
+      maxDuration: Infinity,
+      onElapsedUpdate: () => {},
+      onMaxDuration: () => {},
+    });
+    try {
+      await engine.prepare();
+    } catch (err) {
+      console.error("[TemplateEditor] Preview failed to start:", err);
+    }
+  }
+
+  onMount(() => {
+    void startPreview("sample");
+  });
+
+  onCleanup(() => {
+    previewToken++;
+    teardownPreview();
+  });
+
+  // Push edits into the running preview
+  createEffect(() => {
+    const template = templateStore.previewTemplate(baseId(), config());
+    const title = name();
+    engine?.setTemplate(template);
+    engine?.setTitle(title);
+  });
+
+  function handleResetToBase() {
+    const base = builtIns.find((t) => t.id === baseId());
+    if (base) setConfig({ ...base.config });
+  }
+
+  function handleSave() {
+    try {
+      const variant = templateStore.saveVariant({
+        id: variantId(),
+        name: name(),
+        baseId: baseId(),
+        config: config(),
+      });
+      setVariantId(variant.id);
+      setParams({ id: variant.id, from: undefined }, { replace: true });
+      templateStore.setTemplateById(variant.id);
+      toastStore.success(`Saved "${variant.name}"`);
+    } catch (err) {
+      toastStore.error(err instanceof Error ? err.message : "Failed to save template");
+    }
+  }
+
+  function handleDelete() {
+    const id = variantId();
+    if (!id) return;
+    templateStore.deleteVariant(id);
+    navigate("/settings");
+  }
+
+  const background = () => splitColor(config().colorBackground);
+
+  return (
+    <div class="w-full max-w-5xl flex flex-col gap-3 sm:gap-5 animate-slide-up-in">
+      <div class="flex items-center justify-between gap-3">
+        <h1 class="text-lg sm:text-xl font-display font-bold tracking-wider text-text-primary">
+          TEMPLATE EDITOR
+        </h1>
+        <Button variant="ghost" size="sm" onClick={() => navigate(-1)}>
+          Back
+        </Button>
+      </div>
+
+      <div class="grid gap-3 sm:gap-5 lg:grid-cols-[1fr_320px]">
+        {/* Live preview */}
+        <div class="flex flex-col gap-2">
+          <div class="rounded-lg overflow-hidden border border-border-default bg-black">
+            <canvas ref={canvasRef} class="w-full h-auto block" />
+          </div>
+          <div class="flex items-center gap-2 self-end">
+            <For each={["sample", "camera"] as PreviewSource[]}>
+              {(s) => (
+                <button
+                  class={`px-3 py-1.5 rounded-md text-xs font-mono transition-colors cursor-pointer border ${
+                    source() === s
+                      ? "border-accent-cyan/60 bg-accent-cyan/20 text-accent-cyan"
+                      : "border-border-default bg-bg-elevated text-text-secondary hover:text-text-primary"
+                  }`}
+                  onClick={() => source() !== s && void startPreview(s)}
+                >
+                  {s === "sample" ? "Sample" : "Camera"}
+                </button>
+              )}
+            </For>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div class="rounded-lg border border-border-default bg-bg-elevated p-3 sm:p-4 flex flex-col gap-1">
+          <input
+            type="text"
+            aria-label="Variant name"
+            placeholder="Variant name"
+            maxLength={40}
+            value={name()}
+            onInput={(e) => setName(e.currentTarget.value)}
+            class={`${inputClass} mb-2`}
+          />
+
+          <EditorRow label="Based On">
+            <select class={selectClass} value={baseId()} onChange={(e) => setBaseId(e.currentTarget.value)}>
+              <For each={builtIns}>{(t) => <option value={t.id}>{t.name}</option>}</For>
+            </select>
+          </EditorRow>
+
+          <EditorRow label="Primary">
+            <input
+              type="color"
+              aria-label="Primary color"
+              value={splitColor(config().colorPrimary).hex}
+              onInput={(e) => update("colorPrimary", e.currentTarget.value)}
+              class="h-9 w-12 cursor-pointer bg-transparent"
+            />
+          </EditorRow>
+
+          <EditorRow label="Secondary">
+            <input
+              type="color"
+              aria-label="Secondary color"
+              value={splitColor(config().colorSecondary).hex}
+              onInput={(e) => update("colorSecondary", e.currentTarget.value)}
+              class="h-9 w-12 cursor-pointer bg-transparent"
+            />
+          </EditorRow>
+
+          <EditorRow label="Panels">
+            <div class="flex items-center gap-2">
+              <input
+                type="range"
+                aria-label="Panel opacity"
+                min="0"
+                max="1"
+                step="0.05"
+                value={background().alpha}
+                onInput={(e) =>
+                  update("colorBackground", withAlpha(background().hex, Number(e.currentTarget.value)))
+                }
+                class="w-20 accent-accent-cyan"
+              />
+              <input
+                type="color"
+                aria-label="Panel color"
+                value={background().hex}
+                onInput={(e) => update("colorBackground", withAlpha(e.currentTarget.value, background().alpha))}
+                class="h-9 w-12 cursor-pointer bg-transparent"
+              />
+            </div>
+          </EditorRow>
+
+          <EditorRow label="Font">
+            <select
+              class={selectClass}
+              value={config().fontFamily}
+              onChange={(e) => update("fontFamily", e.currentTarget.value)}
+            >
+              <For each={FONT_OPTIONS.includes(config().fontFamily) ? FONT_OPTIONS : [config().fontFamily, ...FONT_OPTIONS]}>
+                {(font) => <option value={font}>{font}</option>}
+              </For>
+            </select>
+          </EditorRow>
+
+          <EditorRow label="Corners">
+            <select
+              class={selectClass}
+              value={config().cornerStyle}
+              onChange={(e) => update("cornerStyle", e.currentTarget.value as TemplateConfig["cornerStyle"])}
+            >
+              <For each={CORNER_OPTIONS}>{(o) => <option value={o.value}>{o.label}</option>}</For>
+            </select>
+          </EditorRow>
+
+          <For each={VISIBILITY_OPTIONS}>
+            {(option) => (
+              <EditorRow label={option.label}>
+                <Toggle
+                  checked={config()[option.key]}
+                  onChange={(v) => update(option.key, v)}
+                  label={option.label}
+                />
+              </EditorRow>
+            )}
+          </For>
+
+          <div class="flex items-center justify-between gap-2 pt-3">
+            <Button variant="ghost" size="sm" onClick={handleResetToBase}>
+              Reset
+            </Button>
+            <div class="flex items-center gap-2">
+              <Show when={variantId()}>
+                <Button variant="danger" size="sm" onClick={() => setShowDeleteConfirm(true)}>
+                  Delete
+                </Button>
+              </Show>
+              <Button variant="primary" size="sm" disabled={!name().trim()} onClick={handleSave}>
+                Save
+              </Button>
+            </div>
+          </div>
+
+          <Show when={showDeleteConfirm()}>
+            <div class="flex items-center justify-between gap-2 mt-2 p-3 rounded-md border border-accent-red/30 bg-accent-red/5">
+              <span class="text-xs font-mono text-accent-red/80">Delete this variant?</span>
+              <div class="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setShowDeleteConfirm(false)}>
+                  Cancel
+                </Button>
+                <Button variant="danger" size="sm" onClick={handleDelete}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          </Show>
+        </div>
+      </div>
+    </div>
+  );
+}
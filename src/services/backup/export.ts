@@ -0,0 +1,195 @@
+import { storageManager } from "~/services/storage/manager";
+import { entryToMeta } from "~/services/storage/types";
+import { vault } from "~/services/storage/vault";
+import { loadTemplatePackageBlob } from "~/services/templates/installed";
+import { settingsStore } from "~/stores/settings";
+import { templateStore } from "~/stores/template";
+import { getExtensionForMimeType } from "~/utils/format";
+import { downloadBlob } from "~/utils/video";
+import { ZipWriter, type ZipSink } from "~/utils/zip";
+import { runBackupJob } from "./status";
+import {
+  BACKUP_FORMAT,
+  BACKUP_MANIFEST_PATH,
+  BACKUP_VERSION,
+  type BackupEntryMeta,
+  type BackupExportResult,
+  type BackupManifest,
+  type BackupProgress,
+  type BackupTemplateRecord,
+} from "./types";
+
+/**
+ * Export the whole library — every entry from every registered provider,
+ * plus settings, template variants and installed templates — as one ZIP.
+ *
+ * Entries are written one at a time and videos are passed through as Blobs,
+ * so memory use doesn't grow with the size of the library:
+ * - With a file handle (showSaveFilePicker), the archive streams straight to disk.
+ * - Without one, the archive is assembled as a Blob of parts and downloaded.
+ *   Parts backed by files (OPFS, filesystem) stay on disk until the browser
+ *   reads them for the download.
+ */
+
+/** Suggested file name for a backup created now */
+export function backupFileName(at: Date = new Date()): string {
+  return `vidlog-backup-${at.toISOString().slice(0, 10)}.zip`;
+}
+
+/** Sink writing to a file picked with showSaveFilePicker */
+class FileSink implements ZipSink {
+  constructor(private readonly writable: FileSystemWritableFileStream) {}
+
+  async write(data: Blob): Promise<void> {
+    await this.writable.write(data);
+  }
+}
+
+/** Sink collecting Blob parts for a single download at the end */
+class BlobSink implements ZipSink {
+  private parts: Blob[] = [];
+
+  async write(data: Blob): Promise<void> {
+    this.parts.push(data);
+  }
+
+  toBlob(): Blob {
+    return new Blob(this.parts, { type: "application/zip" });
+  }
+}
+
+/** Decode a data: URL without fetch() (which CSP may block for data: URLs) */
+function dataUrlToBlob(dataUrl: string): Blob | null {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+  const type = match[1] ?? "application/octet-stream";
+  if (!match[2]) {
+    return new Blob([decodeURIComponent(match[3])], { type });
+  }
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
+
+function imageExtension(type: string): string {
+  if (type === "image/png") return "png";
+  if (type === "image/webp") return "webp";
+  return "jpg";
+}
+
+async function writeLibrary(
+  zip: ZipWriter,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<Omit<BackupExportResult, "bytes">> {
+  const entries = await storageManager.getAllEntries();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    entries: [],
+    settings: "settings.json",
+    templateVariants: "templates/variants.json",
+    installedTemplates: [],
+  };
+
+  let done = 0;
+  let missingVideos = 0;
+  onProgress?.({ done, total: entries.length });
+
+  for (const entry of entries) {
+    const dir = `entries/${String(done + 1).padStart(4, "0")}`;
+    const modified = new Date(entry.updatedAt || entry.createdAt);
+
+    let video: Blob | null = null;
+    try {
+      video = await storageManager.loadVideoBlob(entry);
+    } catch (err) {
+      console.warn(`[Backup] Failed to read video for ${entry.id}:`, err);
+    }
+    let videoPath: string | null = null;
+    if (video) {
+      videoPath = `${dir}/video${getExtensionForMimeType(entry.mimeType)}`;
+      await zip.add(videoPath, video, modified);
+    } else {
+      missingVideos++;
+    }
+
+    const thumbnail = entry.thumbnailDataUrl ? dataUrlToBlob(entry.thumbnailDataUrl) : null;
+    let thumbnailPath: string | null = null;
+    if (thumbnail) {
+      thumbnailPath = `${dir}/thumbnail.${imageExtension(thumbnail.type)}`;
+      await zip.add(thumbnailPath, thumbnail, modified);
+    }
+
+    const { thumbnailDataUrl: _thumbnail, ...meta } = entryToMeta(entry);
+    const metaPath = `${dir}/meta.json`;
+    await zip.add(metaPath, JSON.stringify(meta satisfies BackupEntryMeta, null, 2), modified);
+
+    manifest.entries.push({ id: entry.id, meta: metaPath, video: videoPath, thumbnail: thumbnailPath });
+    done++;
+    onProgress?.({ done, total: entries.length });
+  }
+
+  await zip.add(manifest.settings, JSON.stringify(settingsStore.settings(), null, 2));
+  await zip.add(manifest.templateVariants, JSON.stringify(templateStore.variants(), null, 2));
+
+  for (const t of templateStore.installed()) {
+    const record: BackupTemplateRecord = {
+      id: t.manifest.id,
+      package: `templates/installed/${t.manifest.id}.zip`,
+      enabled: t.enabled,
+    };
+    try {
+      await zip.add(record.package, await loadTemplatePackageBlob(t.manifest.id));
+      manifest.installedTemplates.push(record);
+    } catch (err) {
+      console.warn(`[Backup] Skipping unreadable template ${t.manifest.id}:`, err);
+    }
+  }
+
+  await zip.add(BACKUP_MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  await zip.finish();
+
+  return { entries: entries.length, missingVideos };
+}
+
+/**
+ * Write a backup of the entire library.
+ *
+ * @param target File to write to (from showSaveFilePicker), or null to
+ *               download the archive instead
+ * @throws If the vault is locked or writing fails. A partially written
+ *         target file is discarded.
+ */
+export async function exportLibrary(
+  target: FileSystemFileHandle | null,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<BackupExportResult> {
+  if (vault.isLocked()) {
+    throw new Error("Unlock the vault before exporting");
+  }
+
+  return runBackupJob(async () => {
+    if (target) {
+      const writable = await target.createWritable();
+      const zip = new ZipWriter(new FileSink(writable));
+      try {
+        const result = await writeLibrary(zip, onProgress);
+        await writable.close();
+        return { ...result, bytes: zip.bytesWritten };
+      } catch (err) {
+        await writable.abort().catch(() => {});
+        throw err;
+      }
+    }
+
+    const sink = new BlobSink();
+    const zip = new ZipWriter(sink);
+    const result = await writeLibrary(zip, onProgress);
+    downloadBlob(sink.toBlob(), backupFileName());
+    return { ...result, bytes: zip.bytesWritten };
+  });
+}
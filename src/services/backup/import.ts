@@ -0,0 +1,204 @@
+import type { AppSettings, DiaryEntry, TemplateVariant } from "~/models/types";
+import { storageManager } from "~/services/storage/manager";
+import { deserializeMeta } from "~/services/storage/types";
+import { vault } from "~/services/storage/vault";
+import { diaryStore } from "~/stores/diary";
+import { settingsStore } from "~/stores/settings";
+import { templateStore } from "~/stores/template";
+import { generateFilesystemId, generateId } from "~/utils/id";
+import { readZip } from "~/utils/zip";
+import { runBackupJob } from "./status";
+import {
+  BACKUP_FORMAT,
+  BACKUP_MANIFEST_PATH,
+  BACKUP_VERSION,
+  type BackupImportResult,
+  type BackupManifest,
+  type BackupProgress,
+} from "./types";
+
+/**
+ * Restore a backup made by exportLibrary() into the active storage provider.
+ *
+ * Entries are restored one at a time from lazy slices of the archive, so
+ * only the entry being written is ever read. ID collisions are resolved
+ * per entry:
+ * - same ID and creation time as an existing entry → already there, skipped
+ * - same ID, different entry → restored under a new ID, without its cloud
+ *   sync state (the cloud copy belongs to the original ID)
+ *
+ * Settings are restored except the active storage provider, which is a
+ * property of this device. Variants are merged by ID (newest wins) and
+ * installed templates are re-verified like a fresh import.
+ */
+
+function readManifest(raw: unknown): BackupManifest {
+  const m = raw as Partial<BackupManifest> | null;
+  if (!m || m.format !== BACKUP_FORMAT || !Array.isArray(m.entries)) {
+    throw new Error("Not a VidLog backup");
+  }
+  if (typeof m.version !== "number" || m.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of VidLog");
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: m.version,
+    createdAt: Number(m.createdAt ?? 0),
+    entries: m.entries,
+    settings: String(m.settings ?? "settings.json"),
+    templateVariants: String(m.templateVariants ?? "templates/variants.json"),
+    installedTemplates: Array.isArray(m.installedTemplates) ? m.installedTemplates : [],
+  };
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read thumbnail"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function readJson(files: Map<string, Blob>, path: string): Promise<unknown> {
+  const file = files.get(path);
+  return file ? JSON.parse(await file.text()) : null;
+}
+
+/** A fresh ID in the style the active provider uses */
+function newIdFor(createdAt: number): string {
+  return storageManager.getActiveProviderName() === "filesystem"
+    ? generateFilesystemId(new Date(createdAt))
+    : generateId();
+}
+
+async function restoreEntries(
+  files: Map<string, Blob>,
+  manifest: BackupManifest,
+  result: BackupImportResult,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<void> {
+  const existing = new Map<string, number>();
+  for (const entry of await storageManager.getAllEntries()) {
+    existing.set(entry.id, entry.createdAt);
+  }
+
+  const provider = storageManager.getActiveProviderName() as DiaryEntry["storageProvider"];
+  const total = manifest.entries.length;
+  let done = 0;
+  onProgress?.({ done, total });
+
+  for (const record of manifest.entries) {
+    try {
+      const raw = (await readJson(files, record.meta)) as Record<string, unknown> | null;
+      if (!raw) throw new Error(`Missing ${record.meta}`);
+      let entry = deserializeMeta(raw);
+
+      const takenAt = existing.get(entry.id);
+      if (takenAt === entry.createdAt) {
+        result.skipped++;
+        continue;
+      }
+      if (takenAt !== undefined || !entry.id) {
+        entry = {
+          ...entry,
+          id: newIdFor(entry.createdAt),
+          cloudStatus: "none",
+          cloudProvider: null,
+          cloudFileId: null,
+          cloudUrl: null,
+          cloudError: null,
+          cloudSyncs: undefined,
+        };
+        result.renamed++;
+      } else {
+        result.imported++;
+      }
+
+      const video = record.video ? files.get(record.video) : undefined;
+      const thumbnail = record.thumbnail ? files.get(record.thumbnail) : undefined;
+
+      await storageManager.save({
+        ...entry,
+        storageProvider: provider,
+        thumbnailDataUrl: thumbnail ? await blobToDataUrl(thumbnail) : null,
+        videoBlob: video ? new Blob([video], { type: entry.mimeType }) : null,
+      });
+      existing.set(entry.id, entry.createdAt);
+    } catch (err) {
+      console.warn(`[Backup] Failed to restore entry ${record.id}:`, err);
+      result.failed++;
+    } finally {
+      done++;
+      onProgress?.({ done, total });
+    }
+  }
+}
+
+async function restoreTemplates(
+  files: Map<string, Blob>,
+  manifest: BackupManifest,
+  result: BackupImportResult,
+): Promise<void> {
+  const variants = await readJson(files, manifest.templateVariants);
+  if (Array.isArray(variants)) {
+    templateStore.mergeVariants(variants as TemplateVariant[]);
+  }
+
+  for (const record of manifest.installedTemplates) {
+    const pkg = files.get(record.package);
+    if (!pkg) continue;
+    try {
+      const installed = await templateStore.install(pkg);
+      if (installed.enabled !== record.enabled) {
+        await templateStore.setEnabled(installed.manifest.id, record.enabled);
+      }
+      result.templates++;
+    } catch (err) {
+      console.warn(`[Backup] Failed to restore template ${record.id}:`, err);
+    }
+  }
+}
+
+async function restoreSettings(files: Map<string, Blob>, manifest: BackupManifest): Promise<void> {
+  const raw = (await readJson(files, manifest.settings)) as Partial<AppSettings> | null;
+  if (!raw) return;
+
+  const current = settingsStore.settings();
+  const updates: Partial<AppSettings> = {};
+  for (const key of Object.keys(current) as (keyof AppSettings)[]) {
+    if (key !== "activeStorageProvider" && key in raw && typeof raw[key] === typeof current[key]) {
+      (updates as Record<string, unknown>)[key] = raw[key];
+    }
+  }
+  settingsStore.updateSettings(updates);
+  templateStore.setTemplateById(settingsStore.settings().defaultTemplateId);
+}
+
+/**
+ * Restore a backup archive into the active provider.
+ *
+ * @throws If the vault is locked or the file isn't a readable backup.
+ *         Individual entries that fail are counted in `failed` instead.
+ */
+export async function importLibrary(
+  file: Blob,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<BackupImportResult> {
+  if (vault.isLocked()) {
+    throw new Error("Unlock the vault before importing");
+  }
+
+  return runBackupJob(async () => {
+    const files = await readZip(file);
+    const manifest = readManifest(await readJson(files, BACKUP_MANIFEST_PATH));
+    const result: BackupImportResult = { imported: 0, renamed: 0, skipped: 0, failed: 0, templates: 0 };
+
+    await restoreEntries(files, manifest, result, onProgress);
+    await restoreTemplates(files, manifest, result);
+    await restoreSettings(files, manifest);
+
+    await diaryStore.loadEntries();
+    return result;
+  });
+}
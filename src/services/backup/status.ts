@@ -0,0 +1,19 @@
+import { createSignal } from "solid-js";
+
+const [running, setRunning] = createSignal(false);
+
+/** Whether a backup export or import is running (reactive) — auto-lock waits for it */
+export const isBackupRunning = running;
+
+/** Run `task` with the running flag set. Only one backup job may run at a time. */
+export async function runBackupJob<T>(task: () => Promise<T>): Promise<T> {
+  if (running()) {
+    throw new Error("A backup is already in progress");
+  }
+  setRunning(true);
+  try {
+    return await task();
+  } finally {
+    setRunning(false);
+  }
+}
@@ -0,0 +1,76 @@
+import type { DiaryEntryMeta } from "~/models/types";
+
+/**
+ * Library backup archive format.
+ *
+ * A backup is a plain ZIP (stored, not compressed) laid out as:
+ *   vidlog-backup.json             — BackupManifest, written last
+ *   settings.json                  — AppSettings
+ *   templates/variants.json        — TemplateVariant[]
+ *   templates/installed/{id}.zip   — installed template packages, as imported
+ *   entries/{n}/meta.json          — DiaryEntryMeta (thumbnail moved to its own file)
+ *   entries/{n}/video.{webm|mp4}
+ *   entries/{n}/thumbnail.jpg
+ *
+ * Entry folders are numbered rather than named by ID, so IDs from any
+ * provider (UUIDs, date-prefixed filesystem IDs) are safe as-is.
+ */
+
+export const BACKUP_FORMAT = "vidlog-backup";
+export const BACKUP_VERSION = 1;
+export const BACKUP_MANIFEST_PATH = "vidlog-backup.json";
+
+export interface BackupEntryRecord {
+  id: string;
+  /** Path of the entry's meta.json */
+  meta: string;
+  /** Path of the video, or null for entries without a local video (e.g. cloud-only) */
+  video: string | null;
+  /** Path of the thumbnail image, or null */
+  thumbnail: string | null;
+}
+
+export interface BackupTemplateRecord {
+  id: string;
+  /** Path of the template package */
+  package: string;
+  enabled: boolean;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  entries: BackupEntryRecord[];
+  /** Path of the settings JSON */
+  settings: string;
+  /** Path of the template variants JSON */
+  templateVariants: string;
+  installedTemplates: BackupTemplateRecord[];
+}
+
+/** Entry metadata as stored in a backup — the thumbnail lives in its own file */
+export type BackupEntryMeta = Omit<DiaryEntryMeta, "thumbnailDataUrl">;
+
+export interface BackupProgress {
+  done: number;
+  total: number;
+}
+
+export interface BackupExportResult {
+  entries: number;
+  /** Entries whose video couldn't be read and were exported without it */
+  missingVideos: number;
+  bytes: number;
+}
+
+export interface BackupImportResult {
+  /** Entries restored under their original ID */
+  imported: number;
+  /** Entries restored under a new ID because the original was taken by a different entry */
+  renamed: number;
+  /** Entries already in the library (same ID and creation time) */
+  skipped: number;
+  failed: number;
+  templates: number;
+}
@@ -4,19 +4,24 @@
  * Uses the implicit grant flow suitable for client-side SPAs.
  * No refresh tokens — the user re-authorizes when the token expires (~1 hour).
  *
+ * Each Drive connection has its own token (createGoogleAuth), so a personal
+ * and a work account can be signed in side by side. The OAuth client ID is
+ * shared by all of them (googleAuth).
+ *
  * Required scope: https://www.googleapis.com/auth/drive.appdata
  * This is a non-sensitive scope (hidden app-only folder), which makes
  * the OAuth consent screen verification process simpler.
  */
 
 import { createSignal } from "solid-js";
+import { connectionStorageKey } from "../connections";
 
 // ---------------------------------------------------------------------------
 // GIS type declarations (loaded dynamically from CDN)
 // ---------------------------------------------------------------------------
 
 interface TokenClient {
-  requestAccessToken(overrides?: { prompt?: string }): void;
+  requestAccessToken(overrides?: { prompt?: string; hint?: string }): void;
   callback: (response: TokenResponse) => void;
 }
 
@@ -79,17 +84,17 @@ interface PersistedToken {
   email: string | null;
 }
 
-function persistToken(token: PersistedToken): void {
+function persistToken(storageKey: string, token: PersistedToken): void {
   try {
-    localStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(token));
+    localStorage.setItem(storageKey, JSON.stringify(token));
   } catch {
     // localStorage full or unavailable
   }
 }
 
-function loadPersistedToken(): PersistedToken | null {
+function loadPersistedToken(storageKey: string): PersistedToken | null {
   try {
-    const raw = localStorage.getItem(TOKEN_STORAGE_KEY);
+    const raw = localStorage.getItem(storageKey);
     if (!raw) return null;
     const parsed = JSON.parse(raw) as PersistedToken;
     // Validate shape
@@ -102,26 +107,20 @@ function loadPersistedToken(): PersistedToken | null {
   }
 }
 
-function clearPersistedToken(): void {
+function clearPersistedToken(storageKey: string): void {
   try {
-    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    localStorage.removeItem(storageKey);
   } catch {
     // Ignore
   }
 }
 
 // ---------------------------------------------------------------------------
-// State
+// Client ID
 // ---------------------------------------------------------------------------
 
-const [accessToken, setAccessToken] = createSignal<string | null>(null);
-const [tokenExpiresAt, setTokenExpiresAt] = createSignal<number>(0);
-const [userEmail, setUserEmail] = createSignal<string | null>(null);
-const [isInitialized, setIsInitialized] = createSignal(false);
-
-let tokenClient: TokenClient | null = null;
-let pendingResolve: ((token: string) => void) | null = null;
-let pendingReject: ((err: Error) => void) | null = null;
+/** Bumped when the client ID changes — token clients made for an older one are rebuilt */
+let clientIdVersion = 0;
 
 // ---------------------------------------------------------------------------
 // Script Loading
@@ -155,175 +154,207 @@ function loadGisScript(): Promise<void> {
 }
 
 // ---------------------------------------------------------------------------
-// Token Client Initialization
+// Per-Connection Auth
 // ---------------------------------------------------------------------------
 
-/**
- * Initialize the GIS token client.
- * Must be called before any auth operations.
- */
-async function initialize(): Promise<void> {
-  if (isInitialized()) return;
-
-  const clientId = getClientId();
-  if (!clientId) {
-    throw new Error("Google OAuth Client ID not configured. Set it in Settings.");
-  }
-
-  await loadGisScript();
-
-  if (!window.google?.accounts?.oauth2) {
-    throw new Error("Google Identity Services failed to initialize");
-  }
-
-  tokenClient = window.google.accounts.oauth2.initTokenClient({
-    client_id: clientId,
-    scope: SCOPE,
-    callback: handleTokenResponse,
-    error_callback: handleTokenError,
-  });
-
-  setIsInitialized(true);
-}
-
-function handleTokenResponse(response: TokenResponse): void {
-  if (response.error) {
-    const err = new Error(response.error_description || response.error);
-    pendingReject?.(err);
-    pendingReject = null;
-    pendingResolve = null;
-    return;
-  }
-
-  const expiresAt = Date.now() + response.expires_in * 1000;
-  setAccessToken(response.access_token);
-  setTokenExpiresAt(expiresAt);
-
-  // Persist token so it survives page reloads (valid for ~1 hour)
-  persistToken({ accessToken: response.access_token, expiresAt, email: null });
-
-  // Fetch user info to get email (also updates persisted token with email)
-  void fetchUserEmail(response.access_token);
-
-  pendingResolve?.(response.access_token);
-  pendingResolve = null;
-  pendingReject = null;
-}
-
-function handleTokenError(error: { type: string; message: string }): void {
-  const err = new Error(`OAuth error: ${error.type} — ${error.message}`);
-  pendingReject?.(err);
-  pendingReject = null;
-  pendingResolve = null;
-}
-
 /**
  * Fetch the user's email from Google's userinfo endpoint.
  */
-async function fetchUserEmail(token: string): Promise<void> {
+async function fetchUserEmail(token: string): Promise<string | null> {
   try {
     const res = await fetch("https://www.googleapis.com/oauth2/v3/userinfo", {
       headers: { Authorization: `Bearer ${token}` },
     });
     if (res.ok) {
       const data = await res.json();
-      const email = data.email ?? null;
-      setUserEmail(email);
-      // Update persisted token with email
-      const persisted = loadPersistedToken();
-      if (persisted) {
-        persistToken({ ...persisted, email });
-      }
+      return data.email ?? null;
     }
   } catch {
     // Non-critical — email is just for display
   }
+  return null;
 }
 
-// ---------------------------------------------------------------------------
-// Public API
-// ---------------------------------------------------------------------------
+/**
+ * OAuth state for one Drive connection: its token, persisted under the
+ * connection's own key, and its own GIS token client.
+ */
+export function createGoogleAuth(connectionId: string) {
+  const tokenStorageKey = connectionStorageKey(TOKEN_STORAGE_KEY, connectionId);
 
-export const googleAuth = {
-  accessToken,
-  userEmail,
-  isInitialized,
+  const [accessToken, setAccessToken] = createSignal<string | null>(null);
+  const [tokenExpiresAt, setTokenExpiresAt] = createSignal<number>(0);
+  const [userEmail, setUserEmail] = createSignal<string | null>(null);
 
-  /** Check if the current token is still valid */
-  isAuthenticated(): boolean {
-    return !!accessToken() && Date.now() < tokenExpiresAt();
-  },
+  let tokenClient: TokenClient | null = null;
+  /** clientIdVersion the token client was made for */
+  let tokenClientVersion = -1;
+  let pendingResolve: ((token: string) => void) | null = null;
+  let pendingReject: ((err: Error) => void) | null = null;
+  /** Account to suggest when signing in again, so the right one is picked */
+  let accountHint: string | null = loadPersistedToken(tokenStorageKey)?.email ?? null;
 
   /**
-   * Request a new access token via the OAuth popup.
-   * @returns The access token string
+   * Initialize the GIS token client.
+   * Must be called before any auth operations.
    */
-  async signIn(): Promise<string> {
-    await initialize();
+  async function initialize(): Promise<void> {
+    if (tokenClient && tokenClientVersion === clientIdVersion) return;
 
-    if (!tokenClient) {
-      throw new Error("Token client not initialized");
+    const clientId = getClientId();
+    if (!clientId) {
+      throw new Error("Google OAuth Client ID not configured. Set it in Settings.");
     }
 
-    return new Promise<string>((resolve, reject) => {
-      pendingResolve = resolve;
-      pendingReject = reject;
-      // No prompt override — lets Google decide (shows consent if first time,
-      // silent or select_account if returning)
-      tokenClient!.requestAccessToken();
-    });
-  },
+    await loadGisScript();
 
-  /**
-   * Revoke the current token and clear state.
-   */
-  signOut(): void {
-    const token = accessToken();
-    if (token && window.google?.accounts?.oauth2) {
-      window.google.accounts.oauth2.revoke(token, () => {
-        // Revocation complete
-      });
+    if (!window.google?.accounts?.oauth2) {
+      throw new Error("Google Identity Services failed to initialize");
     }
-    setAccessToken(null);
-    setTokenExpiresAt(0);
-    setUserEmail(null);
-    clearPersistedToken();
-  },
 
-  /**
-   * Get a valid access token, re-authenticating if expired.
-   * Throws if the user cancels the re-auth popup.
-   */
-  async getValidToken(): Promise<string> {
-    const token = accessToken();
-    if (token && Date.now() < tokenExpiresAt()) {
-      return token;
+    tokenClient = window.google.accounts.oauth2.initTokenClient({
+      client_id: clientId,
+      scope: SCOPE,
+      callback: handleTokenResponse,
+      error_callback: handleTokenError,
+    });
+    tokenClientVersion = clientIdVersion;
+  }
+
+  function handleTokenResponse(response: TokenResponse): void {
+    if (response.error) {
+      const err = new Error(response.error_description || response.error);
+      pendingReject?.(err);
+      pendingReject = null;
+      pendingResolve = null;
+      return;
     }
-    // Token expired — request a new one
-    return googleAuth.signIn();
-  },
 
-  /**
-   * Try to restore a previous session from persisted token.
-   * Returns true if a valid (non-expired) token was found in localStorage.
-   */
-  async tryRestoreSession(): Promise<boolean> {
-    const persisted = loadPersistedToken();
-    if (!persisted) return false;
+    const expiresAt = Date.now() + response.expires_in * 1000;
+    setAccessToken(response.access_token);
+    setTokenExpiresAt(expiresAt);
 
-    // Check if the token has expired
-    if (Date.now() >= persisted.expiresAt) {
-      clearPersistedToken();
-      return false;
-    }
+    // Persist token so it survives page reloads (valid for ~1 hour)
+    persistToken(tokenStorageKey, { accessToken: response.access_token, expiresAt, email: null });
 
-    // Restore the in-memory state from the persisted token
-    setAccessToken(persisted.accessToken);
-    setTokenExpiresAt(persisted.expiresAt);
-    setUserEmail(persisted.email);
-    return true;
-  },
+    // Fetch user info to get email (also updates persisted token with email)
+    void fetchUserEmail(response.access_token).then((email) => {
+      if (!email) return;
+      setUserEmail(email);
+      accountHint = email;
+      const persisted = loadPersistedToken(tokenStorageKey);
+      if (persisted) {
+        persistToken(tokenStorageKey, { ...persisted, email });
+      }
+    });
+
+    pendingResolve?.(response.access_token);
+    pendingResolve = null;
+    pendingReject = null;
+  }
+
+  function handleTokenError(error: { type: string; message: string }): void {
+    const err = new Error(`OAuth error: ${error.type} — ${error.message}`);
+    pendingReject?.(err);
+    pendingReject = null;
+    pendingResolve = null;
+  }
+
+  const auth = {
+    accessToken,
+    userEmail,
 
+    /** Check if the current token is still valid */
+    isAuthenticated(): boolean {
+      return !!accessToken() && Date.now() < tokenExpiresAt();
+    },
+
+    /**
+     * Request a new access token via the OAuth popup.
+     * @returns The access token string
+     */
+    async signIn(): Promise<string> {
+      await initialize();
+
+      if (!tokenClient) {
+        throw new Error("Token client not initialized");
+      }
+
+      return new Promise<string>((resolve, reject) => {
+        pendingResolve = resolve;
+        pendingReject = reject;
+        // Signing in again suggests this connection's account; a new
+        // connection asks which account to use, since another one may
+        // already be signed in
+        tokenClient!.requestAccessToken(
+          accountHint ? { hint: accountHint } : { prompt: "select_account" },
+        );
+      });
+    },
+
+    /**
+     * Revoke the current token and clear state.
+     */
+    signOut(): void {
+      const token = accessToken();
+      if (token && window.google?.accounts?.oauth2) {
+        window.google.accounts.oauth2.revoke(token, () => {
+          // Revocation complete
+        });
+      }
+      setAccessToken(null);
+      setTokenExpiresAt(0);
+      setUserEmail(null);
+      accountHint = null;
+      clearPersistedToken(tokenStorageKey);
+    },
+
+    /**
+     * Get a valid access token, re-authenticating if expired.
+     * Throws if the user cancels the re-auth popup.
+     */
+    async getValidToken(): Promise<string> {
+      const token = accessToken();
+      if (token && Date.now() < tokenExpiresAt()) {
+        return token;
+      }
+      // Token expired — request a new one
+      return auth.signIn();
+    },
+
+    /**
+     * Try to restore a previous session from persisted token.
+     * Returns true if a valid (non-expired) token was found in localStorage.
+     */
+    async tryRestoreSession(): Promise<boolean> {
+      const persisted = loadPersistedToken(tokenStorageKey);
+      if (!persisted) return false;
+
+      // Check if the token has expired
+      if (Date.now() >= persisted.expiresAt) {
+        clearPersistedToken(tokenStorageKey);
+        return false;
+      }
+
+      // Restore the in-memory state from the persisted token
+      setAccessToken(persisted.accessToken);
+      setTokenExpiresAt(persisted.expiresAt);
+      setUserEmail(persisted.email);
+      return true;
+    },
+  };
+  return auth;
+}
+
+/** OAuth state of one Drive connection */
+export type GoogleAuth = ReturnType<typeof createGoogleAuth>;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** The OAuth client ID, shared by every Drive connection */
+export const googleAuth = {
   /** Get the configured OAuth Client ID */
   getClientId,
 
@@ -343,9 +374,8 @@ export const googleAuth = {
     } catch {
       // Ignore
     }
-    // Reset initialization so the next signIn uses the new client ID
-    setIsInitialized(false);
-    tokenClient = null;
+    // The next signIn of each connection uses the new client ID
+    clientIdVersion++;
   },
 
   /** Clear the user-provided Client ID override, reverting to the default */
@@ -355,8 +385,7 @@ export const googleAuth = {
     } catch {
       // Ignore
     }
-    setIsInitialized(false);
-    tokenClient = null;
+    clientIdVersion++;
   },
 };
 
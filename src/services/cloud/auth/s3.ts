@@ -0,0 +1,119 @@
+/**
+ * S3-compatible endpoint configuration and access keys.
+ *
+ * Requests are signed in the browser with SigV4 (see ../sigv4.ts), so the
+ * secret key has to live client-side. Create a key scoped to the one bucket
+ * VidLog uses — never paste root or account-wide credentials here.
+ *
+ * Persisted to localStorage per connection and cleared on disconnect.
+ */
+
+import { connectionStorageKey } from "../connections";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const CONFIG_STORAGE_KEY = "vidlog_s3_config";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface S3Config {
+  /** Endpoint origin, e.g. `https://s3.us-east-1.amazonaws.com` or `http://localhost:9000` */
+  endpoint: string;
+  bucket: string;
+  /** Signing region (`us-east-1` for MinIO/Garage defaults, `auto` for R2) */
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Address the bucket as `endpoint/bucket` instead of `bucket.endpoint` */
+  pathStyle: boolean;
+  /**
+   * Key prefix entries live under, e.g. `work/` — empty for the bucket's
+   * root, so two connections can share a bucket
+   */
+  prefix: string;
+}
+
+// ---------------------------------------------------------------------------
+// Config Persistence (localStorage)
+// ---------------------------------------------------------------------------
+
+function loadConfig(storageKey: string): S3Config | null {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as S3Config;
+    // Validate shape
+    if (
+      typeof parsed.endpoint !== "string" ||
+      typeof parsed.bucket !== "string" ||
+      typeof parsed.accessKeyId !== "string" ||
+      typeof parsed.secretAccessKey !== "string"
+    ) {
+      return null;
+    }
+    return {
+      ...parsed,
+      region: parsed.region || "us-east-1",
+      pathStyle: parsed.pathStyle ?? true,
+      prefix: parsed.prefix ?? "",
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Stored endpoint and keys of one S3 connection */
+export function createS3Auth(connectionId: string) {
+  const storageKey = connectionStorageKey(CONFIG_STORAGE_KEY, connectionId);
+
+  return {
+    /** Get the stored config, or null if none was saved */
+    getConfig: () => loadConfig(storageKey),
+
+    /** Persist the config */
+    setConfig(config: S3Config): void {
+      try {
+        localStorage.setItem(
+          storageKey,
+          JSON.stringify({
+            ...config,
+            endpoint: config.endpoint.trim().replace(/\/+$/, ""),
+            prefix: normalizePrefix(config.prefix),
+          }),
+        );
+      } catch {
+        // localStorage full or unavailable
+      }
+    },
+
+    /** Forget the stored keys */
+    clearConfig(): void {
+      try {
+        localStorage.removeItem(storageKey);
+      } catch {
+        // Ignore
+      }
+    },
+  };
+}
+
+/** What createS3Auth() returns */
+export type S3Auth = ReturnType<typeof createS3Auth>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** `work` → `work/`; empty stays empty (the bucket's root) */
+function normalizePrefix(prefix: string): string {
+  const trimmed = prefix.trim().replace(/^\/+|\/+$/g, "");
+  return trimmed ? `${trimmed}/` : "";
+}
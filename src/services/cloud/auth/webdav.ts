@@ -0,0 +1,140 @@
+/**
+ * WebDAV credentials (server URL + basic auth).
+ *
+ * There is no token exchange — every request carries the username and
+ * password. For Nextcloud/ownCloud, use an app password (Settings →
+ * Security → Devices & sessions) so it can be revoked without changing
+ * the account password.
+ *
+ * Credentials are persisted to localStorage, the same place the Google
+ * access token lives — per connection, so several servers or accounts can
+ * be connected — and are cleared on disconnect.
+ */
+
+import { connectionStorageKey } from "../connections";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const CONFIG_STORAGE_KEY = "vidlog_webdav_config";
+
+/** Collection entries live in when none is chosen */
+export const DEFAULT_WEBDAV_FOLDER = "VidLog";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface WebDAVConfig {
+  /**
+   * Base URL of the user's WebDAV root, e.g.
+   * `https://cloud.example.com/remote.php/dav/files/alice/` or
+   * `http://localhost:8080/`. The folder collection is created under it.
+   */
+  serverUrl: string;
+  username: string;
+  /** Account or app password */
+  password: string;
+  /**
+   * Collection under the server URL that holds the entries — two
+   * connections to one account use different folders
+   */
+  folder: string;
+}
+
+// ---------------------------------------------------------------------------
+// Config Persistence (localStorage)
+// ---------------------------------------------------------------------------
+
+function loadConfig(storageKey: string): WebDAVConfig | null {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as WebDAVConfig;
+    // Validate shape
+    if (
+      typeof parsed.serverUrl !== "string" ||
+      typeof parsed.username !== "string" ||
+      typeof parsed.password !== "string"
+    ) {
+      return null;
+    }
+    return { ...parsed, folder: parsed.folder || DEFAULT_WEBDAV_FOLDER };
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Stored credentials of one WebDAV connection */
+export function createWebDAVAuth(connectionId: string) {
+  const storageKey = connectionStorageKey(CONFIG_STORAGE_KEY, connectionId);
+
+  return {
+    /** Get the stored config, or null if none was saved */
+    getConfig: () => loadConfig(storageKey),
+
+    /** Whether a server URL and username are stored */
+    hasConfig(): boolean {
+      const config = loadConfig(storageKey);
+      return !!config?.serverUrl && !!config.username;
+    },
+
+    /** Persist the config (URL is normalized to end with a slash) */
+    setConfig(config: WebDAVConfig): void {
+      try {
+        localStorage.setItem(
+          storageKey,
+          JSON.stringify({
+            ...config,
+            serverUrl: normalizeServerUrl(config.serverUrl),
+            folder: normalizeFolder(config.folder),
+          }),
+        );
+      } catch {
+        // localStorage full or unavailable
+      }
+    },
+
+    /** Forget the stored credentials */
+    clearConfig(): void {
+      try {
+        localStorage.removeItem(storageKey);
+      } catch {
+        // Ignore
+      }
+    },
+  };
+}
+
+/** What createWebDAVAuth() returns */
+export type WebDAVAuth = ReturnType<typeof createWebDAVAuth>;
+
+export const webdavAuth = {
+  /** Build the `Authorization: Basic …` header value for a config */
+  getAuthHeader(config: WebDAVConfig): string {
+    // btoa() only accepts Latin-1 — encode as UTF-8 first so non-ASCII passwords work
+    const bytes = new TextEncoder().encode(`${config.username}:${config.password}`);
+    let binary = "";
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return `Basic ${btoa(binary)}`;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function normalizeServerUrl(url: string): string {
+  const trimmed = url.trim();
+  return trimmed.endsWith("/") ? trimmed : `${trimmed}/`;
+}
+
+/** Folder name without surrounding slashes, or the default */
+function normalizeFolder(folder: string): string {
+  return folder.trim().replace(/^\/+|\/+$/g, "") || DEFAULT_WEBDAV_FOLDER;
+}
@@ -0,0 +1,103 @@
+/**
+ * What the service worker and the page share about background uploads.
+ *
+ * The service worker can't finish an upload itself — recording the cloud
+ * file in the entry needs the provider, its tokens and the entry store, which
+ * live in the page. So when a background fetch ends it stores the outcome
+ * here (IndexedDB, since the page may be closed) and the page picks it up
+ * the next time the sync queue runs.
+ *
+ * Database layout (vidlog-background):
+ *   upload-results  {uploadId} → BackgroundUploadResult
+ *
+ * An upload ID names one entry going to one cloud connection (see
+ * backgroundUploadId()). Version 1 keyed results by entry ID alone; its
+ * results are dropped on upgrade and those entries simply upload again.
+ *
+ * Kept free of app imports — it's bundled into the service worker too.
+ */
+
+const DB_NAME = "vidlog-background";
+const DB_VERSION = 2;
+const RESULTS_STORE = "upload-results";
+
+/** Background fetch IDs are this prefix plus the upload ID */
+export const UPLOAD_FETCH_PREFIX = "upload:";
+
+/** ID of an entry's upload to one connection */
+export function backgroundUploadId(connectionId: string, entryId: string): string {
+  return `${connectionId}:${entryId}`;
+}
+
+/** Background Sync tag that asks open pages to run the sync queue */
+export const SYNC_QUEUE_TAG = "vidlog-sync-queue";
+
+/** Messages the service worker posts to pages */
+export type BackgroundMessage =
+  | { type: "background-upload-finished"; uploadId: string }
+  | { type: "process-sync-queue" };
+
+/** How a background upload ended */
+export interface BackgroundUploadResult {
+  /** See backgroundUploadId() */
+  uploadId: string;
+  /** Whether the server accepted the upload */
+  ok: boolean;
+  /** HTTP status, or 0 if the fetch failed or was aborted */
+  status: number;
+  /** Response body — the provider reads the uploaded file from it */
+  body: string;
+  /** Why the fetch failed, when it did */
+  failureReason: string;
+  finishedAt: number;
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (db.objectStoreNames.contains(RESULTS_STORE)) {
+        db.deleteObjectStore(RESULTS_STORE);
+      }
+      db.createObjectStore(RESULTS_STORE, { keyPath: "uploadId" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Run one request against the results store and close the database */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RESULTS_STORE, mode);
+    const request = run(tx.objectStore(RESULTS_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+/** Record how a background upload ended, replacing any earlier result */
+export async function putUploadResult(result: BackgroundUploadResult): Promise<void> {
+  await withStore("readwrite", (store) => store.put(result));
+}
+
+/** Every result not yet picked up by the page */
+export function getUploadResults(): Promise<BackgroundUploadResult[]> {
+  return withStore("readonly", (store) => store.getAll() as IDBRequest<BackgroundUploadResult[]>);
+}
+
+/** Forget a result once the page has handled it */
+export async function deleteUploadResult(uploadId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(uploadId));
+}
@@ -0,0 +1,204 @@
+import { createSignal } from "solid-js";
+import type { BackgroundUploadRequest, UploadProgress } from "./types";
+import {
+  SYNC_QUEUE_TAG,
+  UPLOAD_FETCH_PREFIX,
+  backgroundUploadId,
+  deleteUploadResult,
+  getUploadResults,
+  type BackgroundMessage,
+  type BackgroundUploadResult,
+} from "./background-results";
+
+/**
+ * Background uploads — the page side.
+ *
+ * Where the browser supports Background Fetch, the sync queue hands video
+ * uploads to the service worker (src/sw.ts) instead of running them in the
+ * page: the browser keeps them going when the tab closes or the phone locks,
+ * and shows its own progress UI. The provider prepares a request that needs
+ * no page state (e.g. a PUT to a Drive upload session); the service worker
+ * stores the outcome and the manager finishes the entry from it.
+ *
+ * Each upload is one entry going to one connection, so the same entry can
+ * upload to two connections side by side.
+ *
+ * Elsewhere uploads stay in the page; Background Sync, where available,
+ * still wakes the queue when connectivity returns.
+ */
+
+/** Smaller videos upload in the page — not worth a browser download UI */
+const MIN_BACKGROUND_SIZE = 8 * 1024 * 1024;
+
+async function getRegistration(): Promise<ServiceWorkerRegistration | null> {
+  if (!("serviceWorker" in navigator)) return null;
+  try {
+    return (await navigator.serviceWorker.getRegistration()) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function getFetch(
+  connectionId: string,
+  entryId: string,
+): Promise<BackgroundFetchRegistration | null> {
+  const registration = await getRegistration();
+  if (!registration?.backgroundFetch) return null;
+  const id = UPLOAD_FETCH_PREFIX + backgroundUploadId(connectionId, entryId);
+  return (await registration.backgroundFetch.get(id)) ?? null;
+}
+
+const [notificationPermission, setNotificationPermission] = createSignal<NotificationPermission | "unsupported">(
+  typeof Notification === "undefined" ? "unsupported" : Notification.permission,
+);
+
+let messageHandler: ((message: BackgroundMessage) => void) | null = null;
+
+if ("serviceWorker" in navigator) {
+  navigator.serviceWorker.addEventListener("message", (event) => {
+    const data = event.data as BackgroundMessage | undefined;
+    if (data?.type === "background-upload-finished" || data?.type === "process-sync-queue") {
+      messageHandler?.(data);
+    }
+  });
+}
+
+export const backgroundUploads = {
+  /** Whether a video this size should be handed to the service worker */
+  async canHandOff(size: number): Promise<boolean> {
+    if (size < MIN_BACKGROUND_SIZE) return false;
+    const registration = await getRegistration();
+    return !!registration?.active && !!registration.backgroundFetch;
+  },
+
+  /**
+   * Hand an upload to the service worker.
+   * @throws If Background Fetch is unavailable or refuses the upload (e.g. quota)
+   */
+  async start(
+    connectionId: string,
+    entryId: string,
+    title: string,
+    request: BackgroundUploadRequest,
+  ): Promise<void> {
+    const registration = await getRegistration();
+    if (!registration?.backgroundFetch) {
+      throw new Error("Background uploads aren't supported in this browser");
+    }
+    await registration.backgroundFetch.fetch(
+      UPLOAD_FETCH_PREFIX + backgroundUploadId(connectionId, entryId),
+      new Request(request.url, { method: request.method, headers: request.headers, body: request.body }),
+      {
+        title: `Uploading "${title}"`,
+        icons: [{ src: "/pwa-192x192.png", sizes: "192x192", type: "image/png" }],
+      },
+    );
+  },
+
+  /** Whether an entry's upload to a connection is still running in the service worker */
+  async isRunning(connectionId: string, entryId: string): Promise<boolean> {
+    try {
+      const bgFetch = await getFetch(connectionId, entryId);
+      return bgFetch?.result === "";
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Follow a running upload's progress — also after the app reopens
+   * mid-upload.
+   * @returns A function that stops following, or null if it isn't running
+   */
+  async watch(
+    connectionId: string,
+    entryId: string,
+    onProgress: (progress: UploadProgress) => void,
+  ): Promise<(() => void) | null> {
+    const bgFetch = await getFetch(connectionId, entryId).catch(() => null);
+    if (!bgFetch || bgFetch.result !== "") return null;
+
+    const report = () => {
+      onProgress({
+        entryId,
+        connectionId,
+        bytesUploaded: bgFetch.uploaded,
+        bytesTotal: bgFetch.uploadTotal,
+        fraction: bgFetch.uploadTotal > 0 ? bgFetch.uploaded / bgFetch.uploadTotal : 0,
+      });
+    };
+    report();
+    bgFetch.addEventListener("progress", report);
+    return () => bgFetch.removeEventListener("progress", report);
+  },
+
+  /** Cancel an entry's upload to a connection (e.g. it was deleted) */
+  async abort(connectionId: string, entryId: string): Promise<void> {
+    try {
+      await (await getFetch(connectionId, entryId))?.abort();
+    } catch {
+      // Already finished — the manager discards its result
+    }
+  },
+
+  /** Outcomes the service worker stored, waiting to be recorded */
+  async results(): Promise<BackgroundUploadResult[]> {
+    try {
+      return await getUploadResults();
+    } catch {
+      return [];
+    }
+  },
+
+  /** Drop an outcome once it's recorded */
+  async forgetResult(uploadId: string): Promise<void> {
+    try {
+      await deleteUploadResult(uploadId);
+    } catch {
+      // Stays in the store — recorded again next time, which is harmless
+    }
+  },
+
+  /** Receive the service worker's messages (one handler — the manager's) */
+  onMessage(handler: (message: BackgroundMessage) => void): void {
+    messageHandler = handler;
+  },
+
+  /** Ask the service worker to wake the queue once back online, where supported */
+  async requestSync(): Promise<void> {
+    try {
+      await (await getRegistration())?.sync?.register(SYNC_QUEUE_TAG);
+    } catch {
+      // Background Sync unavailable or denied — the next visit retries
+    }
+  },
+
+  /** Notification permission, or "unsupported" (reactive) */
+  notificationPermission,
+
+  /**
+   * Ask for permission to say when uploads finish.
+   * @returns Whether it was granted
+   */
+  async requestNotifications(): Promise<boolean> {
+    if (typeof Notification === "undefined") return false;
+    const permission = await Notification.requestPermission();
+    setNotificationPermission(permission);
+    return permission === "granted";
+  },
+
+  /** Say a batch finished — only when the app isn't on screen to show it */
+  async notify(title: string, body: string): Promise<void> {
+    if (notificationPermission() !== "granted" || document.visibilityState === "visible") return;
+    try {
+      await (await getRegistration())?.showNotification(title, {
+        body,
+        icon: "/pwa-192x192.png",
+        tag: "vidlog-uploads",
+      });
+    } catch {
+      // Notifications blocked at the OS level — nothing to do
+    }
+  },
+};
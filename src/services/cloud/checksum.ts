@@ -0,0 +1,148 @@
+import type { CloudChecksum } from "./types";
+
+/**
+ * Checksums of local videos, computed the way a provider computed its own
+ * (see CloudChecksum), so a backup can be checked without downloading it.
+ *
+ * WebCrypto has no MD5, and Drive and S3 report MD5s — so this carries a
+ * small incremental implementation. Videos are hashed in slices, never
+ * held in memory whole; SHA-256 is the exception, as WebCrypto can't hash
+ * incrementally.
+ */
+
+/** Bytes read from a blob at a time */
+const READ_SIZE = 4 * 1024 * 1024;
+
+// ---------------------------------------------------------------------------
+// MD5 (RFC 1321)
+// ---------------------------------------------------------------------------
+
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+/** K[i] = floor(|sin(i + 1)| * 2^32) */
+const K = Uint32Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32));
+
+class Md5 {
+  private readonly state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  private readonly block = new Uint8Array(64);
+  private readonly words = new DataView(this.block.buffer);
+  private blockLength = 0;
+  private totalLength = 0;
+
+  update(bytes: Uint8Array): void {
+    this.totalLength += bytes.length;
+    let offset = 0;
+    while (offset < bytes.length) {
+      const take = Math.min(64 - this.blockLength, bytes.length - offset);
+      this.block.set(bytes.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+      if (this.blockLength === 64) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+  }
+
+  digest(): Uint8Array {
+    const bits = this.totalLength * 8;
+    // Pad with 0x80 then zeros up to 56 mod 64, then the length in bits (64-bit LE)
+    const padLength = (this.blockLength < 56 ? 56 : 120) - this.blockLength;
+    const padding = new Uint8Array(padLength + 8);
+    padding[0] = 0x80;
+    const tail = new DataView(padding.buffer, padLength);
+    tail.setUint32(0, bits >>> 0, true);
+    tail.setUint32(4, Math.floor(bits / 2 ** 32), true);
+    this.update(padding);
+
+    const out = new Uint8Array(16);
+    const view = new DataView(out.buffer);
+    this.state.forEach((word, i) => view.setUint32(i * 4, word, true));
+    return out;
+  }
+
+  private compress(): void {
+    let [a, b, c, d] = this.state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + K[i] + this.words.getUint32(g * 4, true)) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+    }
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Blob checksums
+// ---------------------------------------------------------------------------
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function md5Blob(blob: Blob): Promise<Uint8Array> {
+  const md5 = new Md5();
+  for (let offset = 0; offset < blob.size; offset += READ_SIZE) {
+    md5.update(new Uint8Array(await blob.slice(offset, offset + READ_SIZE).arrayBuffer()));
+  }
+  return md5.digest();
+}
+
+/** S3's ETag for a multipart upload: MD5 of the parts' MD5s, plus the part count */
+async function multipartEtag(blob: Blob, partSize: number): Promise<string> {
+  const combined = new Md5();
+  let parts = 0;
+  for (let offset = 0; offset < blob.size; offset += partSize) {
+    combined.update(await md5Blob(blob.slice(offset, offset + partSize)));
+    parts++;
+  }
+  return `${toHex(combined.digest())}-${parts}`;
+}
+
+/**
+ * Compute a blob's checksum with the algorithm (and part size) of one a
+ * provider reported.
+ * @returns Lowercase hex, or an S3 multipart ETag
+ */
+export async function computeChecksum(blob: Blob, like: CloudChecksum): Promise<string> {
+  switch (like.algorithm) {
+    case "sha256":
+      return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", await blob.arrayBuffer())));
+    case "md5":
+      return toHex(await md5Blob(blob));
+    case "s3-etag":
+      return like.value.includes("-") && like.partSize
+        ? multipartEtag(blob, like.partSize)
+        : toHex(await md5Blob(blob));
+  }
+}
+
+/** Whether a blob's bytes are the ones a provider's checksum describes */
+export async function matchesChecksum(blob: Blob, checksum: CloudChecksum): Promise<boolean> {
+  return (await computeChecksum(blob, checksum)) === checksum.value.toLowerCase();
+}
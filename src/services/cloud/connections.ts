@@ -0,0 +1,121 @@
+import { createSignal } from "solid-js";
+import type { CloudConnection, CloudProviderType } from "./types";
+import { generateId } from "~/utils/id";
+
+/**
+ * Cloud connections — the accounts and servers entries sync to.
+ *
+ * Each connection is one provider account plus its folder: a personal and a
+ * work Drive are two connections, as are a Drive and a WebDAV server. Its
+ * credentials, encryption state and queue items are keyed by its ID.
+ *
+ * Before several connections could exist, the one connected provider was
+ * remembered by name (`vidlog_cloud_state`). That connection is migrated
+ * with the ID LEGACY_CONNECTION_ID, whose per-connection localStorage keys
+ * are the old unsuffixed ones — so its sign-in, WebDAV/S3 settings and
+ * encryption state carry over as they are, and so do entries synced
+ * before (see deserializeMeta).
+ *
+ * Kept free of provider imports — the auth modules read their storage
+ * keys from here.
+ */
+
+const CONNECTIONS_STORAGE_KEY = "vidlog_cloud_connections";
+const LEGACY_STATE_KEY = "vidlog_cloud_state";
+
+/** ID of the connection migrated from single-connection state */
+export const LEGACY_CONNECTION_ID = "default";
+
+/**
+ * localStorage key for a connection's copy of some state, e.g. its token.
+ * The legacy connection keeps the unsuffixed key it always used.
+ */
+export function connectionStorageKey(base: string, connectionId: string): string {
+  return connectionId === LEGACY_CONNECTION_ID ? base : `${base}:${connectionId}`;
+}
+
+function loadConnections(): CloudConnection[] {
+  try {
+    const raw = localStorage.getItem(CONNECTIONS_STORAGE_KEY);
+    if (raw) return JSON.parse(raw) as CloudConnection[];
+  } catch {
+    // Corrupted data
+  }
+  return migrateLegacyState();
+}
+
+/** The one connection remembered before there could be several, if any */
+function migrateLegacyState(): CloudConnection[] {
+  try {
+    const raw = localStorage.getItem(LEGACY_STATE_KEY);
+    const name = raw ? (JSON.parse(raw) as { connectedProvider?: unknown }).connectedProvider : null;
+    if (typeof name !== "string") return [];
+    const migrated: CloudConnection[] = [{
+      id: LEGACY_CONNECTION_ID,
+      provider: name as CloudProviderType,
+      label: "",
+      autoSync: true,
+      createdAt: Date.now(),
+    }];
+    persistConnections(migrated);
+    localStorage.removeItem(LEGACY_STATE_KEY);
+    return migrated;
+  } catch {
+    // Corrupted data
+  }
+  return [];
+}
+
+function persistConnections(connections: CloudConnection[]): void {
+  try {
+    localStorage.setItem(CONNECTIONS_STORAGE_KEY, JSON.stringify(connections));
+  } catch {
+    // localStorage full or unavailable
+  }
+}
+
+const [connections, setConnections] = createSignal<CloudConnection[]>(loadConnections());
+
+function updateConnections(updater: (prev: CloudConnection[]) => CloudConnection[]): void {
+  setConnections((prev) => {
+    const next = updater(prev);
+    persistConnections(next);
+    return next;
+  });
+}
+
+export const cloudConnections = {
+  /** Every connection, in the order they were added (reactive) */
+  list: connections,
+
+  /** A connection by ID (reactive) */
+  get(id: string): CloudConnection | undefined {
+    return connections().find((c) => c.id === id);
+  },
+
+  /**
+   * Remember a new connection. Its credentials are stored by the provider's
+   * auth module under connectionStorageKey(…, id) before signing in.
+   */
+  add(provider: CloudProviderType, label = ""): CloudConnection {
+    const connection: CloudConnection = {
+      id: generateId(),
+      provider,
+      label: label.trim(),
+      autoSync: true,
+      createdAt: Date.now(),
+    };
+    updateConnections((prev) => [...prev, connection]);
+    return connection;
+  },
+
+  /** Rename a connection or change whether auto-sync uses it */
+  update(id: string, changes: Partial<Pick<CloudConnection, "label" | "autoSync">>): void {
+    updateConnections((prev) => prev.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+  },
+
+  /** Forget a connection. Its cloud files are left alone. */
+  remove(id: string): void {
+    updateConnections((prev) => prev.filter((c) => c.id !== id));
+  },
+};
@@ -0,0 +1,491 @@
+/**
+ * Optional end-to-end encryption for cloud sync.
+ *
+ * When enabled, every video and metadata file is encrypted in the browser
+ * (chunked AES-256-GCM, see services/crypto/cipher.ts) before it reaches
+ * any ICloudProvider, and decrypted after download. The provider only ever
+ * sees ciphertext plus entry IDs.
+ *
+ * The passphrase-derived key never leaves memory. What *is* stored in the
+ * cloud folder is a key check (`encryption.json` app-data file: salt +
+ * iterations + an encrypted known plaintext), so every device derives the
+ * same key and a wrong passphrase is rejected before anything is uploaded.
+ *
+ * States:
+ * - disabled           — uploads are plaintext (the default)
+ * - enabled + locked   — sync pauses; nothing is uploaded until unlocked
+ * - enabled + unlocked — uploads are encrypted, downloads decrypted
+ *
+ * Each cloud connection has its own state: one folder can be encrypted
+ * while another isn't, and each has its own passphrase. Everything below is
+ * keyed by the provider's connectionId.
+ *
+ * Files uploaded before encryption was enabled stay readable: downloads are
+ * only decrypted when they carry the container magic / envelope.
+ */
+
+import { createSignal } from "solid-js";
+import type {
+  ICloudProvider,
+  BackgroundUploadRequest,
+  CloudFileRef,
+  CloudMetaPayload,
+  CloudQuota,
+  CloudTombstone,
+  CloudVideoInfo,
+  UploadBody,
+  UploadProgress,
+  UploadResume,
+  VideoRange,
+} from "./types";
+import { isEncryptedMeta, isTombstone } from "./types";
+import type { DiaryEntryMeta } from "~/models/types";
+import {
+  CONTAINER_HEADER_SIZE,
+  base64ToBytes,
+  bytesToBase64,
+  decryptBlob,
+  decryptRange,
+  decryptString,
+  encryptString,
+  encryptedSource,
+  isEncryptedBlob,
+  readLayout,
+  storedRange,
+  type ContainerLayout,
+} from "~/services/crypto/cipher";
+import { createKey, parseKeyCheck, unlockKey, type KeyCheck } from "~/services/crypto/keys";
+import { cloudConnections, connectionStorageKey } from "./connections";
+
+// ---------------------------------------------------------------------------
+// Constants & Persistence
+// ---------------------------------------------------------------------------
+
+/** Plaintext bytes a download reads per request — a whole number of chunks */
+const DOWNLOAD_RANGE_SIZE = 8 * 1024 * 1024;
+
+/** App-data file holding the KeyCheck in the provider's storage */
+const KEY_CHECK_FILE = "encryption.json";
+
+/**
+ * Remember locally that a connection's cloud folder is encrypted, so an
+ * offline boot still knows not to upload plaintext.
+ */
+const STATE_STORAGE_KEY = "vidlog_cloud_encryption";
+
+function loadEnabled(connectionId: string): boolean {
+  try {
+    const raw = localStorage.getItem(connectionStorageKey(STATE_STORAGE_KEY, connectionId));
+    if (raw) return (JSON.parse(raw) as { enabled?: boolean }).enabled === true;
+  } catch {
+    // Corrupted data
+  }
+  return false;
+}
+
+function persistEnabled(connectionId: string, enabled: boolean): void {
+  try {
+    const storageKey = connectionStorageKey(STATE_STORAGE_KEY, connectionId);
+    if (enabled) {
+      localStorage.setItem(storageKey, JSON.stringify({ enabled }));
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+  } catch {
+    // localStorage full or unavailable
+  }
+}
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+/** Connections whose folder is encrypted */
+const [enabled, setEnabled] = createSignal<ReadonlySet<string>>(
+  new Set(cloudConnections.list().map((c) => c.id).filter(loadEnabled)),
+);
+/** Connections whose key is in memory */
+const [unlocked, setUnlocked] = createSignal<ReadonlySet<string>>(new Set());
+
+const keys = new Map<string, CryptoKey>();
+const cachedKeyChecks = new Map<string, KeyCheck>();
+
+function setMember(
+  setter: typeof setEnabled,
+  connectionId: string,
+  member: boolean,
+): void {
+  setter((prev) => {
+    if (prev.has(connectionId) === member) return prev;
+    const next = new Set(prev);
+    if (member) next.add(connectionId);
+    else next.delete(connectionId);
+    return next;
+  });
+}
+
+function setConnectionEnabled(connectionId: string, value: boolean): void {
+  setMember(setEnabled, connectionId, value);
+  persistEnabled(connectionId, value);
+}
+
+function requireKey(connectionId: string): CryptoKey {
+  const key = keys.get(connectionId);
+  if (!key) {
+    throw new Error("Cloud encryption is locked. Unlock it in Settings.");
+  }
+  return key;
+}
+
+async function fetchKeyCheck(provider: ICloudProvider): Promise<KeyCheck | null> {
+  const raw = await provider.downloadAppData(KEY_CHECK_FILE);
+  if (raw === null) return null;
+  const parsed = parseKeyCheck(raw);
+  if (!parsed) {
+    throw new Error("Cloud encryption settings are unreadable");
+  }
+  return parsed;
+}
+
+// ---------------------------------------------------------------------------
+// Encrypting Provider Wrapper
+// ---------------------------------------------------------------------------
+
+/**
+ * Encrypt a video for upload, a part at a time as the provider reads it. A
+ * resumed upload is encrypted again with the session's nonce prefix, so the
+ * bytes match what the server already has; without one (or with a session
+ * from a plaintext upload) it starts over with a fresh prefix, recorded in
+ * the sessions it reports.
+ */
+function encryptForUpload(
+  key: CryptoKey,
+  body: UploadBody,
+  resume?: UploadResume,
+): { encrypted: UploadBody; resume?: UploadResume } {
+  const previous = resume?.session?.cipherNonce ? resume.session : null;
+  const noncePrefix = previous?.cipherNonce
+    ? base64ToBytes(previous.cipherNonce)
+    : crypto.getRandomValues(new Uint8Array(8));
+  const cipherNonce = bytesToBase64(noncePrefix);
+
+  return {
+    encrypted: encryptedSource(key, body, noncePrefix),
+    resume: resume && {
+      session: previous,
+      onSession: (session) => resume.onSession({ ...session, cipherNonce }),
+    },
+  };
+}
+
+/**
+ * Wraps any ICloudProvider, encrypting on the way up and decrypting on the
+ * way down. Auth, deletion, and quota pass straight through.
+ */
+class EncryptedCloudProvider implements ICloudProvider {
+  /** Container layout per video file ID — null for videos uploaded unencrypted */
+  private readonly layouts = new Map<string, ContainerLayout | null>();
+
+  constructor(private readonly inner: ICloudProvider) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get connectionId() {
+    return this.inner.connectionId;
+  }
+
+  private get key(): CryptoKey {
+    return requireKey(this.inner.connectionId);
+  }
+
+  get isAuthenticated() {
+    return this.inner.isAuthenticated;
+  }
+
+  get userDisplayName() {
+    return this.inner.userDisplayName;
+  }
+
+  signIn(): Promise<void> {
+    return this.inner.signIn();
+  }
+
+  signOut(): Promise<void> {
+    return this.inner.signOut();
+  }
+
+  tryRestoreSession(): Promise<boolean> {
+    return this.inner.tryRestoreSession();
+  }
+
+  async uploadVideo(
+    entryId: string,
+    body: UploadBody,
+    mimeType: string,
+    onProgress?: (progress: UploadProgress) => void,
+    resume?: UploadResume,
+  ): Promise<CloudFileRef> {
+    const upload = encryptForUpload(this.key, body, resume);
+    // mimeType still picks the file extension; the ref keeps the real type
+    const ref = await this.inner.uploadVideo(entryId, upload.encrypted, mimeType, onProgress, upload.resume);
+    return { ...ref, mimeType };
+  }
+
+  /**
+   * Encrypted videos always upload in the page: the service worker needs
+   * the whole body up front, which would mean encrypting a full copy.
+   */
+  async prepareBackgroundUpload(): Promise<BackgroundUploadRequest | null> {
+    return null;
+  }
+
+  completeBackgroundUpload(mimeType: string, responseBody: string): CloudFileRef {
+    if (!this.inner.completeBackgroundUpload) {
+      throw new Error(`${this.inner.name} doesn't upload in the background`);
+    }
+    const ref = this.inner.completeBackgroundUpload(mimeType, responseBody);
+    return { ...ref, mimeType };
+  }
+
+  /**
+   * Where a video's chunks are — read once per file, null for videos
+   * uploaded unencrypted
+   */
+  private async layoutOf(fileRef: CloudFileRef): Promise<ContainerLayout | null> {
+    let layout = this.layouts.get(fileRef.fileId);
+    if (layout === undefined) {
+      const head = await this.inner.readVideoRange!(fileRef, 0, CONTAINER_HEADER_SIZE);
+      layout = readLayout(head.bytes, head.totalSize);
+      this.layouts.set(fileRef.fileId, layout);
+    }
+    return layout;
+  }
+
+  /**
+   * Providers that read ranges are downloaded a few chunks at a time and
+   * decrypted as they arrive, so only the plaintext copy is ever whole.
+   */
+  async downloadVideo(fileRef: CloudFileRef): Promise<Blob> {
+    const layout = this.inner.readVideoRange ? await this.layoutOf(fileRef) : null;
+    if (layout) {
+      let offset = 0;
+      const plain = new ReadableStream<Uint8Array<ArrayBuffer>>({
+        pull: async (controller) => {
+          if (offset >= layout.plainSize) {
+            controller.close();
+            return;
+          }
+          const end = Math.min(offset + DOWNLOAD_RANGE_SIZE, layout.plainSize);
+          controller.enqueue((await this.readVideoRange(fileRef, offset, end)).bytes);
+          offset = end;
+        },
+      });
+      return new Response(plain, { headers: { "Content-Type": fileRef.mimeType } }).blob();
+    }
+
+    const blob = await this.inner.downloadVideo(fileRef);
+    if (!(await isEncryptedBlob(blob))) return blob;
+    return decryptBlob(this.key, blob, fileRef.mimeType);
+  }
+
+  /**
+   * Chunks decrypt on their own, so a plaintext range only needs the chunks
+   * covering it: read those, decrypt, and cut the range out.
+   */
+  async readVideoRange(fileRef: CloudFileRef, start: number, end: number): Promise<VideoRange> {
+    if (!this.inner.readVideoRange) {
+      throw new Error(`${this.inner.name} can't stream videos`);
+    }
+    const layout = await this.layoutOf(fileRef);
+    if (!layout) return this.inner.readVideoRange(fileRef, start, end);
+
+    if (start >= layout.plainSize) {
+      throw new Error("Range starts past the end of the video");
+    }
+    end = Math.min(end, layout.plainSize);
+    const stored = storedRange(layout, start, end);
+    const { bytes } = await this.inner.readVideoRange(fileRef, stored.start, stored.end);
+    return {
+      bytes: await decryptRange(this.key, layout, bytes, start, end),
+      totalSize: layout.plainSize,
+    };
+  }
+
+  async getVideoStreamUrl(fileRef: CloudFileRef): Promise<string> {
+    // The fallback when playback can't stream — decrypt into a local blob
+    const blob = await this.downloadVideo(fileRef);
+    return URL.createObjectURL(blob);
+  }
+
+  /** Sizes and checksums are of the ciphertext — verify.ts allows for it */
+  listVideos(): Promise<CloudVideoInfo[]> {
+    if (!this.inner.listVideos) {
+      throw new Error(`${this.inner.name} can't list videos`);
+    }
+    return this.inner.listVideos();
+  }
+
+  deleteVideo(fileRef: CloudFileRef): Promise<void> {
+    return this.inner.deleteVideo(fileRef);
+  }
+
+  async uploadMeta(entryId: string, meta: CloudMetaPayload): Promise<CloudFileRef> {
+    const envelope = isEncryptedMeta(meta)
+      ? meta
+      : { id: meta.id, encrypted: await encryptString(this.key, JSON.stringify(meta)) };
+    return this.inner.uploadMeta(entryId, envelope);
+  }
+
+  async downloadAllMeta(): Promise<
+    Array<{ meta: CloudMetaPayload; metaFileRef: CloudFileRef; videoFileRef: CloudFileRef | null }>
+  > {
+    const items = await this.inner.downloadAllMeta();
+    const results: Array<{
+      meta: CloudMetaPayload;
+      metaFileRef: CloudFileRef;
+      videoFileRef: CloudFileRef | null;
+    }> = [];
+
+    for (const item of items) {
+      if (!isEncryptedMeta(item.meta)) {
+        results.push(item);
+        continue;
+      }
+      try {
+        const meta = JSON.parse(await decryptString(this.key, item.meta.encrypted)) as
+          | DiaryEntryMeta
+          | CloudTombstone;
+        // Encrypted videos keep a generic file type — restore the real one
+        const videoFileRef =
+          item.videoFileRef && !isTombstone(meta)
+            ? { ...item.videoFileRef, mimeType: meta.mimeType }
+            : null;
+        results.push({ ...item, meta, videoFileRef });
+      } catch (err) {
+        console.warn(`[CloudEncryption] Failed to decrypt metadata for ${item.meta.id}:`, err);
+      }
+    }
+
+    return results;
+  }
+
+  deleteMeta(fileRef: CloudFileRef): Promise<void> {
+    return this.inner.deleteMeta(fileRef);
+  }
+
+  uploadAppData(name: string, content: string): Promise<void> {
+    return this.inner.uploadAppData(name, content);
+  }
+
+  downloadAppData(name: string): Promise<string | null> {
+    return this.inner.downloadAppData(name);
+  }
+
+  getQuota(): Promise<CloudQuota | null> {
+    return this.inner.getQuota();
+  }
+}
+
+/** One wrapper per provider instance so signal consumers see a stable object */
+const wrappers = new WeakMap<ICloudProvider, EncryptedCloudProvider>();
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const cloudEncryption = {
+  /** Whether a connection's cloud folder uses encryption (reactive) */
+  isEnabled(connectionId: string): boolean {
+    return enabled().has(connectionId);
+  },
+
+  /** Whether a connection's key is in memory (reactive) */
+  isUnlocked(connectionId: string): boolean {
+    return unlocked().has(connectionId);
+  },
+
+  /** Whether sync to a connection must wait for the user to unlock */
+  isLocked(connectionId: string): boolean {
+    return enabled().has(connectionId) && !unlocked().has(connectionId);
+  },
+
+  /**
+   * Check the cloud folder for a key check and update the enabled state.
+   * Called after connecting or restoring a session. Network failures keep
+   * the last known state.
+   */
+  async detect(provider: ICloudProvider): Promise<void> {
+    const id = provider.connectionId;
+    try {
+      const keyCheck = await fetchKeyCheck(provider);
+      if (keyCheck) cachedKeyChecks.set(id, keyCheck);
+      else cachedKeyChecks.delete(id);
+      setConnectionEnabled(id, keyCheck !== null);
+    } catch (err) {
+      console.warn("[CloudEncryption] Could not read encryption settings:", err);
+    }
+  },
+
+  /**
+   * Turn on encryption for the cloud folder with a new passphrase.
+   * @throws If the folder is already encrypted (use unlock instead)
+   */
+  async enable(provider: ICloudProvider, passphrase: string): Promise<void> {
+    if (await fetchKeyCheck(provider)) {
+      throw new Error("This cloud folder is already encrypted — unlock it instead");
+    }
+    const created = await createKey(passphrase);
+    await provider.uploadAppData(KEY_CHECK_FILE, JSON.stringify(created.keyCheck));
+
+    keys.set(provider.connectionId, created.key);
+    cachedKeyChecks.set(provider.connectionId, created.keyCheck);
+    setConnectionEnabled(provider.connectionId, true);
+    setMember(setUnlocked, provider.connectionId, true);
+  },
+
+  /**
+   * Derive the key from a passphrase and verify it against the key check.
+   * @returns false if the passphrase is wrong
+   */
+  async unlock(provider: ICloudProvider, passphrase: string): Promise<boolean> {
+    const id = provider.connectionId;
+    const keyCheck = cachedKeyChecks.get(id) ?? (await fetchKeyCheck(provider));
+    if (!keyCheck) {
+      throw new Error("This cloud folder isn't encrypted");
+    }
+    const derived = await unlockKey(passphrase, keyCheck);
+    if (!derived) return false;
+
+    keys.set(id, derived);
+    cachedKeyChecks.set(id, keyCheck);
+    setMember(setUnlocked, id, true);
+    return true;
+  },
+
+  /** Forget a connection's key. Its sync pauses until unlocked again. */
+  lock(connectionId: string): void {
+    keys.delete(connectionId);
+    setMember(setUnlocked, connectionId, false);
+  },
+
+  /** Forget everything about a connection (on disconnect — the next folder may differ). */
+  reset(connectionId: string): void {
+    keys.delete(connectionId);
+    cachedKeyChecks.delete(connectionId);
+    setMember(setUnlocked, connectionId, false);
+    setConnectionEnabled(connectionId, false);
+  },
+
+  /** Return the provider as consumers should use it: wrapped when its encryption is on. */
+  wrap(provider: ICloudProvider): ICloudProvider {
+    if (!enabled().has(provider.connectionId)) return provider;
+    let wrapped = wrappers.get(provider);
+    if (!wrapped) {
+      wrapped = new EncryptedCloudProvider(provider);
+      wrappers.set(provider, wrapped);
+    }
+    return wrapped;
+  },
+};
@@ -2,22 +2,32 @@
  * Google Drive cloud provider implementation.
  *
  * Uses the Drive API v3 REST endpoints directly via fetch().
- * All files are stored in the hidden appDataFolder (scope: drive.appdata).
+ * All files are stored in the hidden appDataFolder (scope: drive.appdata) —
+ * each account has its own, so a connection's folder is its account's.
  *
  * File naming convention (appDataFolder is flat — no real subdirectories):
  * - Video:    `video_{entryId}.{ext}`   (appProperties.type = "video")
  * - Metadata: `entry_{entryId}.json`    (appProperties.type = "entry-meta")
+ * - App data: `{name}`                  (appProperties.type = "app-data")
  */
 
-import { createSignal } from "solid-js";
-import { googleAuth } from "./auth/google";
-import type { DiaryEntryMeta } from "~/models/types";
+import { createSignal, type Accessor, type Setter } from "solid-js";
+import { createGoogleAuth, type GoogleAuth } from "./auth/google";
 import type {
   ICloudProvider,
+  CloudConnection,
+  CloudVideoInfo,
+  BackgroundUploadRequest,
   CloudFileRef,
+  CloudMetaPayload,
   CloudQuota,
+  UploadBody,
   UploadProgress,
+  UploadResume,
+  UploadSession,
+  VideoRange,
 } from "./types";
+import { rangeHeader, readRangeResponse } from "./range";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -42,11 +52,12 @@ function getExtension(mimeType: string): string {
  * Handles token refresh on 401.
  */
 async function driveFetch(
+  auth: GoogleAuth,
   url: string,
   options: RequestInit = {},
   retry = true,
 ): Promise<Response> {
-  const token = await googleAuth.getValidToken();
+  const token = await auth.getValidToken();
   const headers = new Headers(options.headers);
   headers.set("Authorization", `Bearer ${token}`);
 
@@ -54,7 +65,7 @@ async function driveFetch(
 
   if (response.status === 401 && retry) {
     // Token expired mid-request — refresh and retry once
-    const newToken = await googleAuth.signIn();
+    const newToken = await auth.signIn();
     headers.set("Authorization", `Bearer ${newToken}`);
     return fetch(url, { ...options, headers });
   }
@@ -73,6 +84,7 @@ async function driveFetch(
  * Find a file in appDataFolder by name and type.
  */
 async function findFile(
+  auth: GoogleAuth,
   name: string,
   type: string,
 ): Promise<{ id: string; name: string } | null> {
@@ -87,29 +99,60 @@ async function findFile(
     pageSize: "1",
   });
 
-  const res = await driveFetch(`${DRIVE_API}/files?${params}`);
+  const res = await driveFetch(auth, `${DRIVE_API}/files?${params}`);
   const data = await res.json();
   const files = data.files as Array<{ id: string; name: string }>;
   return files.length > 0 ? files[0] : null;
 }
 
+interface DriveVideoFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  appProperties?: Record<string, string>;
+  /** Decimal string */
+  size?: string;
+  md5Checksum?: string;
+  sha256Checksum?: string;
+}
+
+/** List every video file in appDataFolder, following page tokens. */
+async function listVideoFiles(auth: GoogleAuth): Promise<DriveVideoFile[]> {
+  const files: DriveVideoFile[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({
+      spaces: "appDataFolder",
+      q: "appProperties has { key='type' and value='video' } and trashed=false",
+      fields: "nextPageToken,files(id,name,appProperties,mimeType,size,md5Checksum,sha256Checksum)",
+      pageSize: "100",
+    });
+    if (pageToken) params.set("pageToken", pageToken);
+
+    const res = await driveFetch(auth, `${DRIVE_API}/files?${params}`);
+    const data = await res.json();
+    files.push(...(data.files ?? []));
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+
+  return files;
+}
+
 /**
- * Resumable upload to Google Drive.
- * 1. Initiate session → get upload URI
- * 2. Upload blob in chunks → track progress
+ * Open a resumable upload session. The session URI it returns accepts the
+ * file's bytes without further auth, for about a week.
  */
-async function resumableUpload(
+async function startResumableSession(
+  auth: GoogleAuth,
   fileName: string,
-  blob: Blob,
+  size: number,
   mimeType: string,
   appProperties: Record<string, string>,
   existingFileId: string | null,
-  onProgress?: (progress: UploadProgress) => void,
-  entryId?: string,
 ): Promise<string> {
-  const token = await googleAuth.getValidToken();
+  const token = await auth.getValidToken();
 
-  // Step 1: Initiate resumable upload session
   const metadata: Record<string, unknown> = {
     name: fileName,
     appProperties,
@@ -135,7 +178,7 @@ async function resumableUpload(
       Authorization: `Bearer ${token}`,
       "Content-Type": "application/json; charset=UTF-8",
       "X-Upload-Content-Type": mimeType,
-      "X-Upload-Content-Length": blob.size.toString(),
+      "X-Upload-Content-Length": size.toString(),
     },
     body: JSON.stringify(metadata),
   });
@@ -149,51 +192,148 @@ async function resumableUpload(
   if (!sessionUri) {
     throw new Error("No upload session URI returned");
   }
+  return sessionUri;
+}
+
+/** Drive forgets an upload session a week after it opens */
+const SESSION_LIFETIME = 7 * 24 * 60 * 60 * 1000;
+
+/** Sessions this close to expiring aren't resumed — a new one is safer */
+const SESSION_EXPIRY_MARGIN = 60 * 60 * 1000;
 
-  // Step 2: Upload the blob
-  // For simplicity, upload the entire blob in one request.
-  // Google's resumable upload allows this for blobs of any size.
-  // If we need chunked upload later, we can split here.
-  const uploadRes = await fetch(sessionUri, {
+/**
+ * Bytes sent per request. Each confirmed chunk is a point the upload can
+ * resume from; Drive requires a multiple of 256 KiB.
+ */
+const UPLOAD_CHUNK_SIZE = 32 * 256 * 1024;
+
+/** Whether a session from an earlier attempt can continue this upload */
+function isUsableSession(session: UploadSession | null | undefined, size: number): session is UploadSession {
+  return !!session && session.bytesTotal === size && session.expiresAt - SESSION_EXPIRY_MARGIN > Date.now();
+}
+
+/** Bytes Drive has committed, from the Range header of a 308 response */
+function committedBytes(response: Response): number {
+  // "bytes=0-1048575" — absent when nothing has arrived yet
+  const match = response.headers.get("Range")?.match(/bytes=0-(\d+)/);
+  return match ? parseInt(match[1], 10) + 1 : 0;
+}
+
+/**
+ * Ask Drive how far a session got.
+ * @returns Bytes committed, the file ID if the upload already finished, or
+ *   null if Drive no longer knows the session
+ */
+async function querySession(
+  session: UploadSession,
+): Promise<{ committed: number } | { fileId: string } | null> {
+  const res = await fetch(session.url, {
     method: "PUT",
-    headers: {
-      "Content-Type": mimeType,
-      "Content-Length": blob.size.toString(),
-    },
-    body: blob,
+    headers: { "Content-Range": `bytes */${session.bytesTotal}` },
   });
+  if (res.status === 308) return { committed: committedBytes(res) };
+  if (res.ok) return { fileId: ((await res.json()) as { id: string }).id };
+  if (res.status === 404 || res.status === 410) return null;
+  const err = await res.text().catch(() => "");
+  throw new Error(`Upload status check failed: ${res.status} ${err}`);
+}
+
+/**
+ * Continue a session from an earlier attempt, or open a new one.
+ * @returns The session to upload to, or the file ID if it already finished
+ */
+async function openOrResumeSession(
+  size: number,
+  previous: UploadSession | null | undefined,
+  startSession: () => Promise<string>,
+): Promise<UploadSession | { fileId: string }> {
+  if (isUsableSession(previous, size)) {
+    const status = await querySession(previous);
+    if (status && "fileId" in status) return status;
+    if (status) return { ...previous, bytesConfirmed: status.committed };
+  }
+  return {
+    url: await startSession(),
+    bytesConfirmed: 0,
+    bytesTotal: size,
+    expiresAt: Date.now() + SESSION_LIFETIME,
+  };
+}
+
+/**
+ * Resumable upload to Google Drive.
+ * 1. Continue the previous attempt's session (asking Drive how much it has),
+ *    or initiate a new one
+ * 2. Upload the rest in chunks, reporting each confirmed chunk as progress
+ *    and as a session to resume from
+ */
+async function resumableUpload(
+  body: UploadBody,
+  startSession: () => Promise<string>,
+  onProgress?: (progress: UploadProgress) => void,
+  entryId?: string,
+  resume?: UploadResume,
+): Promise<string> {
+  const opened = await openOrResumeSession(body.size, resume?.session, startSession);
+  if ("fileId" in opened) return opened.fileId;
+  let session = opened;
 
-  // Report progress as complete (fetch doesn't support upload progress natively
-  // without XMLHttpRequest — we report 100% on completion)
-  if (onProgress) {
-    onProgress({
+  const report = (bytes: number) => {
+    onProgress?.({
       entryId: entryId ?? "",
-      bytesUploaded: blob.size,
-      bytesTotal: blob.size,
-      fraction: 1,
+      bytesUploaded: bytes,
+      bytesTotal: body.size,
+      fraction: body.size > 0 ? bytes / body.size : 1,
+    });
+  };
+  resume?.onSession(session);
+  report(session.bytesConfirmed);
+
+  for (;;) {
+    const offset = session.bytesConfirmed;
+    const end = Math.min(offset + UPLOAD_CHUNK_SIZE, body.size);
+    const uploadRes = await fetch(session.url, {
+      method: "PUT",
+      headers: {
+        "Content-Range": body.size > 0 ? `bytes ${offset}-${end - 1}/${body.size}` : "bytes */0",
+      },
+      body: await body.read(offset, end),
     });
-  }
 
-  if (!uploadRes.ok) {
-    const err = await uploadRes.text().catch(() => "");
-    throw new Error(`Upload failed: ${uploadRes.status} ${err}`);
-  }
+    if (uploadRes.ok) {
+      report(body.size);
+      const fileData = await uploadRes.json();
+      return fileData.id as string;
+    }
 
-  const fileData = await uploadRes.json();
-  return fileData.id as string;
+    if (uploadRes.status !== 308) {
+      const err = await uploadRes.text().catch(() => "");
+      throw new Error(`Upload failed: ${uploadRes.status} ${err}`);
+    }
+
+    // Drive may keep less than was sent — continue from what it confirmed
+    const confirmed = committedBytes(uploadRes);
+    if (confirmed <= offset && end > offset) {
+      throw new Error("Upload failed: Drive accepted none of the chunk");
+    }
+    session = { ...session, bytesConfirmed: confirmed };
+    resume?.onSession(session);
+    report(confirmed);
+  }
 }
 
 /**
  * Simple upload for small files (< 5MB, like JSON metadata).
  */
 async function simpleUpload(
+  auth: GoogleAuth,
   fileName: string,
   content: string,
   mimeType: string,
   appProperties: Record<string, string>,
   existingFileId: string | null,
 ): Promise<string> {
-  const token = await googleAuth.getValidToken();
+  const token = await auth.getValidToken();
 
   const metadata: Record<string, unknown> = {
     name: fileName,
@@ -240,51 +380,75 @@ async function simpleUpload(
   return data.id as string;
 }
 
+/** Open an upload session for an entry's video, replacing any existing file */
+async function startVideoSession(
+  auth: GoogleAuth,
+  entryId: string,
+  size: number,
+  mimeType: string,
+): Promise<string> {
+  const fileName = `video_${entryId}.${getExtension(mimeType)}`;
+
+  // Check if file already exists (update instead of create)
+  const existing = await findFile(auth, fileName, "video");
+
+  return startResumableSession(
+    auth,
+    fileName,
+    size,
+    mimeType,
+    { type: "video", entryId },
+    existing?.id ?? null,
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Google Drive Provider
 // ---------------------------------------------------------------------------
 
-const [authenticated, setAuthenticated] = createSignal(false);
-const [displayName, setDisplayName] = createSignal<string | null>(null);
-
 export class GoogleDriveProvider implements ICloudProvider {
   readonly name = "google-drive" as const;
-
-  get isAuthenticated() {
-    return authenticated;
-  }
-
-  get userDisplayName() {
-    return displayName;
+  readonly connectionId: string;
+  readonly isAuthenticated: Accessor<boolean>;
+  readonly userDisplayName: Accessor<string | null>;
+  private readonly setAuthenticated: Setter<boolean>;
+  private readonly setDisplayName: Setter<string | null>;
+  private readonly auth: GoogleAuth;
+
+  constructor(connection: CloudConnection) {
+    this.connectionId = connection.id;
+    this.auth = createGoogleAuth(connection.id);
+    [this.isAuthenticated, this.setAuthenticated] = createSignal(false);
+    [this.userDisplayName, this.setDisplayName] = createSignal<string | null>(null);
   }
 
   // -- Auth -----------------------------------------------------------------
 
   async signIn(): Promise<void> {
-    await googleAuth.signIn();
-    setAuthenticated(true);
-    setDisplayName(googleAuth.userEmail());
+    await this.auth.signIn();
+    this.setAuthenticated(true);
+    this.setDisplayName(this.auth.userEmail());
 
     // If email wasn't immediately available, wait a bit and retry
-    if (!displayName()) {
+    if (!this.userDisplayName()) {
       setTimeout(() => {
-        setDisplayName(googleAuth.userEmail());
+        this.setDisplayName(this.auth.userEmail());
       }, 1000);
     }
   }
 
   async signOut(): Promise<void> {
-    googleAuth.signOut();
-    setAuthenticated(false);
-    setDisplayName(null);
+    this.auth.signOut();
+    this.setAuthenticated(false);
+    this.setDisplayName(null);
   }
 
   async tryRestoreSession(): Promise<boolean> {
     // GIS implicit flow can't silently restore tokens
-    const restored = await googleAuth.tryRestoreSession();
+    const restored = await this.auth.tryRestoreSession();
     if (restored) {
-      setAuthenticated(true);
-      setDisplayName(googleAuth.userEmail());
+      this.setAuthenticated(true);
+      this.setDisplayName(this.auth.userEmail());
     }
     return restored;
   }
@@ -293,24 +457,17 @@ export class GoogleDriveProvider implements ICloudProvider {
 
   async uploadVideo(
     entryId: string,
-    blob: Blob,
+    body: UploadBody,
     mimeType: string,
     onProgress?: (progress: UploadProgress) => void,
+    resume?: UploadResume,
   ): Promise<CloudFileRef> {
-    const ext = getExtension(mimeType);
-    const fileName = `video_${entryId}.${ext}`;
-
-    // Check if file already exists (update instead of create)
-    const existing = await findFile(fileName, "video");
-
     const fileId = await resumableUpload(
-      fileName,
-      blob,
-      mimeType,
-      { type: "video", entryId },
-      existing?.id ?? null,
+      body,
+      () => startVideoSession(this.auth, entryId, body.size, mimeType),
       onProgress,
       entryId,
+      resume,
     );
 
     return {
@@ -320,28 +477,99 @@ export class GoogleDriveProvider implements ICloudProvider {
     };
   }
 
+  async prepareBackgroundUpload(
+    entryId: string,
+    blob: Blob,
+    mimeType: string,
+    resume?: UploadResume,
+  ): Promise<BackgroundUploadRequest | null> {
+    // The session URI needs no token, so the upload can outlive this one
+    const opened = await openOrResumeSession(
+      blob.size,
+      resume?.session,
+      () => startVideoSession(this.auth, entryId, blob.size, mimeType),
+    );
+    // Already finished — nothing left to hand off
+    if ("fileId" in opened) return null;
+    resume?.onSession(opened);
+
+    const offset = opened.bytesConfirmed;
+    return {
+      url: opened.url,
+      method: "PUT",
+      headers: {
+        "Content-Type": mimeType,
+        ...(offset > 0 ? { "Content-Range": `bytes ${offset}-${blob.size - 1}/${blob.size}` } : {}),
+      },
+      body: blob.slice(offset),
+    };
+  }
+
+  completeBackgroundUpload(mimeType: string, responseBody: string): CloudFileRef {
+    // The final PUT of a session answers with the file resource
+    const file = JSON.parse(responseBody) as { id?: string };
+    if (!file.id) {
+      throw new Error("Upload response has no file ID");
+    }
+    return {
+      provider: "google-drive",
+      fileId: file.id,
+      mimeType,
+    };
+  }
+
   async downloadVideo(fileRef: CloudFileRef): Promise<Blob> {
     const res = await driveFetch(
+      this.auth,
       `${DRIVE_API}/files/${fileRef.fileId}?alt=media`,
     );
     return res.blob();
   }
 
+  async readVideoRange(fileRef: CloudFileRef, start: number, end: number): Promise<VideoRange> {
+    const res = await driveFetch(this.auth, `${DRIVE_API}/files/${fileRef.fileId}?alt=media`, {
+      headers: { Range: rangeHeader(start, end) },
+    });
+    return readRangeResponse(res, start, end, async () => {
+      const meta = await driveFetch(this.auth, `${DRIVE_API}/files/${fileRef.fileId}?fields=size`);
+      const { size } = (await meta.json()) as { size?: string };
+      return parseInt(size ?? "0", 10);
+    });
+  }
+
   async getVideoStreamUrl(fileRef: CloudFileRef): Promise<string> {
     // Fetch the video as a blob using the Authorization header (secure),
     // then return a local object URL. This avoids leaking the access token
     // in a URL query parameter (which would be visible in browser history,
     // Referer headers, etc.).
     const res = await driveFetch(
+      this.auth,
       `${DRIVE_API}/files/${fileRef.fileId}?alt=media`,
     );
     const blob = await res.blob();
     return URL.createObjectURL(blob);
   }
 
+  async listVideos(): Promise<CloudVideoInfo[]> {
+    const files = await listVideoFiles(this.auth);
+    return files
+      .filter((f) => f.appProperties?.entryId)
+      .map((f) => ({
+        entryId: f.appProperties!.entryId,
+        fileRef: { provider: "google-drive", fileId: f.id, mimeType: f.mimeType },
+        size: parseInt(f.size ?? "0", 10),
+        // Drive only reports SHA-256 for files uploaded since it started computing it
+        checksum: f.sha256Checksum
+          ? { algorithm: "sha256", value: f.sha256Checksum }
+          : f.md5Checksum
+            ? { algorithm: "md5", value: f.md5Checksum }
+            : null,
+      }));
+  }
+
   async deleteVideo(fileRef: CloudFileRef): Promise<void> {
     // appDataFolder files can't be trashed — must permanently delete
-    await driveFetch(`${DRIVE_API}/files/${fileRef.fileId}`, {
+    await driveFetch(this.auth, `${DRIVE_API}/files/${fileRef.fileId}`, {
       method: "DELETE",
     });
   }
@@ -350,15 +578,16 @@ export class GoogleDriveProvider implements ICloudProvider {
 
   async uploadMeta(
     entryId: string,
-    meta: DiaryEntryMeta,
+    meta: CloudMetaPayload,
   ): Promise<CloudFileRef> {
     const fileName = `entry_${entryId}.json`;
     const content = JSON.stringify(meta);
 
     // Check if metadata file already exists
-    const existing = await findFile(fileName, "entry-meta");
+    const existing = await findFile(this.auth, fileName, "entry-meta");
 
     const fileId = await simpleUpload(
+      this.auth,
       fileName,
       content,
       "application/json",
@@ -375,13 +604,13 @@ export class GoogleDriveProvider implements ICloudProvider {
 
   async downloadAllMeta(): Promise<
     Array<{
-      meta: DiaryEntryMeta;
+      meta: CloudMetaPayload;
       metaFileRef: CloudFileRef;
       videoFileRef: CloudFileRef | null;
     }>
   > {
     const results: Array<{
-      meta: DiaryEntryMeta;
+      meta: CloudMetaPayload;
       metaFileRef: CloudFileRef;
       videoFileRef: CloudFileRef | null;
     }> = [];
@@ -399,30 +628,14 @@ export class GoogleDriveProvider implements ICloudProvider {
       });
       if (pageToken) params.set("pageToken", pageToken);
 
-      const res = await driveFetch(`${DRIVE_API}/files?${params}`);
+      const res = await driveFetch(this.auth, `${DRIVE_API}/files?${params}`);
       const data = await res.json();
       metaFiles.push(...(data.files ?? []));
       pageToken = data.nextPageToken;
     } while (pageToken);
 
     // 2. List all video files (to match with metadata)
-    const videoFiles: Array<{ id: string; name: string; appProperties: Record<string, string>; mimeType: string }> = [];
-    pageToken = undefined;
-
-    do {
-      const params = new URLSearchParams({
-        spaces: "appDataFolder",
-        q: "appProperties has { key='type' and value='video' } and trashed=false",
-        fields: "nextPageToken,files(id,name,appProperties,mimeType)",
-        pageSize: "100",
-      });
-      if (pageToken) params.set("pageToken", pageToken);
-
-      const res = await driveFetch(`${DRIVE_API}/files?${params}`);
-      const data = await res.json();
-      videoFiles.push(...(data.files ?? []));
-      pageToken = data.nextPageToken;
-    } while (pageToken);
+    const videoFiles = await listVideoFiles(this.auth);
 
     // Index video files by entryId
     const videoByEntryId = new Map<string, { id: string; mimeType: string }>();
@@ -437,9 +650,10 @@ export class GoogleDriveProvider implements ICloudProvider {
     for (const mf of metaFiles) {
       try {
         const res = await driveFetch(
+          this.auth,
           `${DRIVE_API}/files/${mf.id}?alt=media`,
         );
-        const meta = (await res.json()) as DiaryEntryMeta;
+        const meta = (await res.json()) as CloudMetaPayload;
         const entryId = mf.appProperties?.entryId ?? meta.id;
 
         const videoInfo = videoByEntryId.get(entryId);
@@ -469,16 +683,38 @@ export class GoogleDriveProvider implements ICloudProvider {
   }
 
   async deleteMeta(fileRef: CloudFileRef): Promise<void> {
-    await driveFetch(`${DRIVE_API}/files/${fileRef.fileId}`, {
+    await driveFetch(this.auth, `${DRIVE_API}/files/${fileRef.fileId}`, {
       method: "DELETE",
     });
   }
 
+  // -- App data -------------------------------------------------------------
+
+  async uploadAppData(name: string, content: string): Promise<void> {
+    const existing = await findFile(this.auth, name, "app-data");
+    await simpleUpload(
+      this.auth,
+      name,
+      content,
+      "application/json",
+      { type: "app-data" },
+      existing?.id ?? null,
+    );
+  }
+
+  async downloadAppData(name: string): Promise<string | null> {
+    const file = await findFile(this.auth, name, "app-data");
+    if (!file) return null;
+    const res = await driveFetch(this.auth, `${DRIVE_API}/files/${file.id}?alt=media`);
+    return res.text();
+  }
+
   // -- Quota ----------------------------------------------------------------
 
   async getQuota(): Promise<CloudQuota | null> {
     try {
       const res = await driveFetch(
+        this.auth,
         `${DRIVE_API}/about?fields=storageQuota`,
       );
       const data = await res.json();
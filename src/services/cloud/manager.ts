@@ -1,16 +1,35 @@
 import { createSignal } from "solid-js";
-import type { DiaryEntry } from "~/models/types";
+import type { CloudSyncOverride, DiaryEntry, DiaryEntryMeta } from "~/models/types";
 import type {
   ICloudProvider,
   CloudFileRef,
+  CloudSyncInfo,
+  CloudTombstone,
+  SyncConflict,
   SyncQueueItem,
   SyncStatus,
   SyncProgress,
   UploadProgress,
-  CloudSyncEntryStatus,
+  UploadResume,
 } from "./types";
+import { blobBody, isEncryptedMeta, isTombstone } from "./types";
+import { cloudEncryption } from "./encryption";
+import { backgroundUploads } from "./background";
+import { backgroundUploadId } from "./background-results";
+import { cloudConnections, LEGACY_CONNECTION_ID } from "./connections";
+import {
+  isCloudOnly,
+  legacyCloudStatus,
+  syncRecord,
+  videoRecords,
+  withSyncRecord,
+  withoutSyncRecord,
+} from "./records";
+import { needsUpload, shouldAutoSync } from "./rules";
+import { SYNC_FIELDS, changedSinceSync, hashSyncedFields, pickSyncedFields, planMerge } from "./reconcile";
 import { entryToMeta } from "~/services/storage/types";
 import { storageManager } from "~/services/storage/manager";
+import { getConnectionLabel } from "./registry";
 
 // ---------------------------------------------------------------------------
 // Sync Queue Persistence (localStorage)
@@ -21,7 +40,13 @@ const QUEUE_STORAGE_KEY = "vidlog_cloud_sync_queue";
 function loadQueue(): SyncQueueItem[] {
   try {
     const raw = localStorage.getItem(QUEUE_STORAGE_KEY);
-    if (raw) return JSON.parse(raw) as SyncQueueItem[];
+    // Items queued before there could be several connections go to the migrated one
+    if (raw) {
+      return (JSON.parse(raw) as SyncQueueItem[]).map((i) => ({
+        ...i,
+        connectionId: i.connectionId ?? LEGACY_CONNECTION_ID,
+      }));
+    }
   } catch {
     // Corrupted data
   }
@@ -40,12 +65,15 @@ function persistQueue(queue: SyncQueueItem[]): void {
 // Signals
 // ---------------------------------------------------------------------------
 
-const [provider, setProviderSignal] = createSignal<ICloudProvider | null>(null);
+/** Provider of each attached connection, by connection ID */
+const [rawProviders, setRawProviders] = createSignal<ReadonlyMap<string, ICloudProvider>>(new Map());
 const [syncEnabled, setSyncEnabled] = createSignal(true);
 const [syncQueue, setSyncQueue] = createSignal<SyncQueueItem[]>(loadQueue());
 const [syncStatus, setSyncStatus] = createSignal<SyncStatus>("idle");
 const [syncProgress, setSyncProgress] = createSignal<SyncProgress | null>(null);
 const [isProcessing, setIsProcessing] = createSignal(false);
+/** Progress of uploads running in the service worker (see background.ts) */
+const [backgroundProgress, setBackgroundProgress] = createSignal<UploadProgress[]>([]);
 
 /** Max retry attempts per entry before giving up */
 const MAX_RETRIES = 3;
@@ -53,6 +81,48 @@ const MAX_RETRIES = 3;
 /** Base delay for exponential backoff (ms) */
 const BASE_RETRY_DELAY = 2000;
 
+/**
+ * Retry delay after a dropped connection the browser still calls online
+ * (e.g. Wi-Fi up but no route) — otherwise the `online` event retries
+ */
+const NETWORK_RETRY_DELAY = 30_000;
+
+/** Whether the queue is waiting for the connection to come back (reactive) */
+const [waitingForNetwork, setWaitingForNetwork] = createSignal(false);
+
+/**
+ * A connection's provider as everything else should use it — wrapped in the
+ * encryption layer when the connection's folder is encrypted.
+ */
+function provider(connectionId: string): ICloudProvider | null {
+  const p = rawProviders().get(connectionId);
+  return p ? cloudEncryption.wrap(p) : null;
+}
+
+/** Providers of every signed-in connection, in the order they were added */
+function connectedProviders(): ICloudProvider[] {
+  return cloudConnections
+    .list()
+    .map((c) => provider(c.id))
+    .filter((p): p is ICloudProvider => !!p?.isAuthenticated());
+}
+
+/** Signed-in connections auto-sync uploads to */
+function autoSyncTargets(): ICloudProvider[] {
+  return connectedProviders().filter((p) => cloudConnections.get(p.connectionId)?.autoSync);
+}
+
+/** A connection's provider, if it can take uploads right now (signed in and unlocked) */
+function readyProvider(connectionId: string): ICloudProvider | null {
+  const p = provider(connectionId);
+  return p?.isAuthenticated() && !cloudEncryption.isLocked(connectionId) ? p : null;
+}
+
+/** Human-readable name of a connection, for toasts */
+function labelOf(connectionId: string): string {
+  return getConnectionLabel(cloudConnections.get(connectionId));
+}
+
 // ---------------------------------------------------------------------------
 // Cross-Tab Sync via BroadcastChannel
 // ---------------------------------------------------------------------------
@@ -97,67 +167,325 @@ function updateQueue(updater: (prev: SyncQueueItem[]) => SyncQueueItem[]): void
   });
 }
 
+type ItemKey = Pick<SyncQueueItem, "entryId" | "connectionId">;
+
+/** Whether two queue items (or conflicts) are for the same entry and connection */
+function sameItem(a: ItemKey, b: ItemKey): boolean {
+  return a.entryId === b.entryId && a.connectionId === b.connectionId;
+}
+
+function findItem(key: ItemKey): SyncQueueItem | undefined {
+  return syncQueue().find((i) => sameItem(i, key));
+}
+
+function updateItem(key: ItemKey, changes: Partial<SyncQueueItem>): void {
+  updateQueue((q) => q.map((i) => (sameItem(i, key) ? { ...i, ...changes } : i)));
+}
+
+function removeItem(key: ItemKey): void {
+  updateQueue((q) => q.filter((i) => !sameItem(i, key)));
+}
+
 /**
- * Update an entry's cloudSync status in the diary store.
- * This updates both the in-memory signal and the persisted metadata.
+ * Whether a queue item is still in the queue as it was taken — not dequeued,
+ * or requeued for a replaced video, while its upload ran
  */
-async function updateEntryCloudStatus(
+function isCurrent(item: SyncQueueItem): boolean {
+  return findItem(item)?.queuedAt === item.queuedAt;
+}
+
+/** The record changes queued so far — each waits for the one before it */
+let recordWrites: Promise<void> = Promise.resolve();
+
+/**
+ * Change an entry's sync record for one connection, and sum the records up
+ * into the legacy cloudStatus field. Changes run one at a time and read the
+ * entry afresh, so changes for different connections don't overwrite each
+ * other's records.
+ * @param change Fields to set on the record (creating it if the entry has
+ *   none for the connection), or null to remove it
+ * @param extra Other entry fields to update along with it
+ */
+function updateSyncRecord(
   entryId: string,
-  status: CloudSyncEntryStatus,
+  connectionId: string,
+  change: Partial<CloudSyncInfo> | null,
   extra?: Partial<DiaryEntry>,
 ): Promise<void> {
-  // We need access to diaryStore but import it lazily to avoid circular deps
+  const write = recordWrites.then(async () => {
+    // We need access to diaryStore but import it lazily to avoid circular deps
+    const { diaryStore } = await import("~/stores/diary");
+    const entry = diaryStore.entries().find((e) => e.id === entryId);
+    const connection = cloudConnections.get(connectionId);
+    if (!entry || (change && !connection)) return;
+
+    let cloudSyncs: CloudSyncInfo[] | undefined;
+    if (change) {
+      const record: CloudSyncInfo = {
+        connectionId,
+        provider: connection!.provider,
+        videoFileRef: null,
+        metaFileRef: null,
+        syncedAt: 0,
+        status: "pending",
+        ...syncRecord(entry, connectionId),
+        ...change,
+      };
+      cloudSyncs = withSyncRecord(entry.cloudSyncs, record);
+    } else {
+      cloudSyncs = withoutSyncRecord(entry.cloudSyncs, connectionId);
+    }
+
+    await diaryStore.updateEntry(entryId, {
+      ...extra,
+      cloudSyncs,
+      cloudStatus: legacyCloudStatus(cloudSyncs),
+    });
+  });
+  // A failed write mustn't hold up the ones after it
+  recordWrites = write.catch(() => {});
+  return write;
+}
+
+/**
+ * Finish an entry whose video reached a connection: upload its metadata,
+ * mark its record synced and take it off the queue.
+ */
+async function recordUpload(
+  cloudProvider: ICloudProvider,
+  entryId: string,
+  videoFileRef: CloudFileRef,
+): Promise<void> {
+  // Re-read the entry so fields that changed during the video upload
+  // (e.g. a transcript that just finished) aren't lost
   const { diaryStore } = await import("~/stores/diary");
-  const updates: Partial<DiaryEntry> = { ...extra };
-
-  // Map CloudSyncEntryStatus to the existing cloudStatus field for backward compat
-  if (status === "pending" || status === "uploading") {
-    updates.cloudStatus = "uploading";
-  } else if (status === "synced" || status === "cloud-only") {
-    updates.cloudStatus = "uploaded";
-  } else if (status === "failed") {
-    updates.cloudStatus = "error";
+  const latest = diaryStore.entries().find((e) => e.id === entryId);
+  if (!latest) return;
+  const meta = entryToMeta(latest);
+  const metaFileRef = await cloudProvider.uploadMeta(entryId, meta);
+
+  // Update entry with cloud sync info
+  await updateSyncRecord(
+    entryId,
+    cloudProvider.connectionId,
+    {
+      videoFileRef,
+      metaFileRef,
+      syncedAt: Date.now(),
+      status: "synced",
+      lastError: undefined,
+      baseHashes: await hashSyncedFields(pickSyncedFields(latest)),
+    },
+    {
+      cloudProvider: cloudProvider.name,
+      cloudFileId: videoFileRef.fileId,
+      cloudError: null,
+    },
+  );
+
+  // Remove from queue
+  removeItem({ entryId, connectionId: cloudProvider.connectionId });
+
+  // Notify other tabs that an entry was synced
+  notifyCloudChange();
+}
+
+/** Stop functions for the background uploads whose progress is followed, by upload ID */
+const backgroundWatchers = new Map<string, () => void>();
+
+function unwatchBackgroundUpload(item: ItemKey): void {
+  const uploadId = backgroundUploadId(item.connectionId, item.entryId);
+  backgroundWatchers.get(uploadId)?.();
+  backgroundWatchers.delete(uploadId);
+  setBackgroundProgress((prev) =>
+    prev.filter((p) => p.entryId !== item.entryId || p.connectionId !== item.connectionId),
+  );
+}
+
+/**
+ * Follow the progress of every upload the service worker is running —
+ * including ones started before the app was last closed.
+ */
+async function watchBackgroundUploads(): Promise<void> {
+  for (const item of syncQueue()) {
+    const uploadId = backgroundUploadId(item.connectionId, item.entryId);
+    if (!item.backgroundSince || backgroundWatchers.has(uploadId)) continue;
+    const stop = await backgroundUploads.watch(item.connectionId, item.entryId, (progress) => {
+      setBackgroundProgress((prev) => [
+        ...prev.filter((p) => p.entryId !== item.entryId || p.connectionId !== item.connectionId),
+        progress,
+      ]);
+    });
+    if (stop) backgroundWatchers.set(uploadId, stop);
+  }
+}
+
+/**
+ * Record the uploads the service worker finished since the last pass.
+ * Failed ones go back to the queue to be retried in the page. Results for
+ * a connection that is signed out or locked wait for a later pass.
+ * @returns Number of entries synced
+ */
+async function finishBackgroundUploads(): Promise<number> {
+  let synced = 0;
+  for (const result of await backgroundUploads.results()) {
+    const item = syncQueue().find(
+      (i) => backgroundUploadId(i.connectionId, i.entryId) === result.uploadId,
+    );
+    if (!item?.backgroundSince) {
+      // Deleted or dequeued meanwhile
+      await backgroundUploads.forgetResult(result.uploadId);
+      continue;
+    }
+    const cloudProvider = readyProvider(item.connectionId);
+    if (!cloudProvider) continue;
+    unwatchBackgroundUpload(item);
+
+    const { diaryStore } = await import("~/stores/diary");
+    const entry = diaryStore.entries().find((e) => e.id === item.entryId);
+    let videoFileRef: CloudFileRef | null = null;
+    let errorMsg = "Upload failed";
+    try {
+      if (!result.ok) {
+        throw new Error(result.status
+          ? `Upload failed: ${result.status} ${result.body}`
+          : `Background upload failed${result.failureReason ? ` (${result.failureReason})` : ""}`);
+      }
+      if (!entry || !cloudProvider.completeBackgroundUpload) {
+        throw new Error("Background upload can't be recorded");
+      }
+      videoFileRef = cloudProvider.completeBackgroundUpload(entry.mimeType, result.body);
+    } catch (err) {
+      console.warn(`[CloudSync] Background upload of entry ${item.entryId} failed:`, err);
+      errorMsg = err instanceof Error ? err.message : errorMsg;
+    }
+
+    if (!videoFileRef) {
+      // Back to the queue — the next attempt runs in the page
+      updateItem(item, {
+        backgroundSince: undefined,
+        retryCount: item.retryCount + 1,
+        lastAttemptAt: Date.now(),
+      });
+      await updateSyncRecord(item.entryId, item.connectionId, { status: "failed", lastError: errorMsg }, {
+        cloudError: errorMsg,
+      });
+      await backgroundUploads.forgetResult(result.uploadId);
+      continue;
+    }
+
+    try {
+      await recordUpload(cloudProvider, item.entryId, videoFileRef);
+      await backgroundUploads.forgetResult(result.uploadId);
+      synced++;
+    } catch (err) {
+      // The video is up — keep the result and record it on the next pass
+      console.warn(`[CloudSync] Failed to record background upload of entry ${item.entryId}:`, err);
+    }
   }
+  return synced;
+}
 
-  await diaryStore.updateEntry(entryId, updates);
+/**
+ * Resume options for an item's upload: continue its recorded session, and
+ * record each new one so the next attempt — even after a reload — continues
+ * from the last confirmed byte.
+ */
+function resumeFor(item: SyncQueueItem): UploadResume {
+  return {
+    session: findItem(item)?.session ?? null,
+    // A requeued item starts a session of its own — never the old video's
+    onSession: (session) => {
+      if (isCurrent(item)) updateItem(item, { session });
+    },
+  };
+}
+
+/** Whether an upload failed because the connection dropped rather than being refused */
+function isNetworkError(err: unknown): boolean {
+  if (!navigator.onLine) return true;
+  // fetch() rejects with a TypeError; the XHR-based providers say "network error"
+  return err instanceof TypeError || (err instanceof Error && err.message.toLowerCase().includes("network error"));
 }
 
+window.addEventListener("online", () => {
+  if (!waitingForNetwork()) return;
+  setWaitingForNetwork(false);
+  if (syncEnabled()) void processQueue();
+});
+
+/** A background upload finished while a pass was running — run another */
+let passRequested = false;
+
+backgroundUploads.onMessage(() => {
+  if (!syncEnabled()) return;
+  if (isProcessing()) {
+    passRequested = true;
+    return;
+  }
+  void processQueue();
+});
+
 // ---------------------------------------------------------------------------
 // Core Sync Operations
 // ---------------------------------------------------------------------------
 
 /**
- * Process the sync queue — upload pending entries one by one.
+ * Process the sync queue — upload pending entries one by one, each to the
+ * connection it's queued for. Large videos are handed to the service worker
+ * where the browser supports it, so they keep uploading after the tab
+ * closes (see background.ts).
+ *
+ * Items for a connection that is signed out, or encrypted but locked, wait
+ * — rather than burning retries (or, worse, uploading plaintext).
  */
 async function processQueue(): Promise<void> {
-  const cloudProvider = provider();
-  if (!cloudProvider || !cloudProvider.isAuthenticated() || isProcessing()) return;
+  if (isProcessing()) return;
 
-  const queue = syncQueue();
-  if (queue.length === 0) {
+  if (!syncQueue().some((i) => readyProvider(i.connectionId))) {
     setSyncStatus("idle");
     return;
   }
 
   setIsProcessing(true);
   setSyncStatus("syncing");
+  setWaitingForNetwork(false);
+  passRequested = false;
+
+  let uploadedCount = await finishBackgroundUploads();
+  await watchBackgroundUploads();
 
+  const queue = syncQueue();
   let processedCount = 0;
-  const totalCount = queue.length;
+  const totalCount = queue.filter((i) => !i.backgroundSince && readyProvider(i.connectionId)).length;
+  /** Connections that refused this pass (full, or signed out on the server) */
+  const stopped = new Set<string>();
 
   for (const item of [...queue]) {
-    // Check if we should continue
-    if (!syncEnabled() || !cloudProvider.isAuthenticated()) break;
+    if (!syncEnabled()) break;
+
+    // Resolved per item, so an encryption change mid-pass uses the new wrapper
+    const cloudProvider = readyProvider(item.connectionId);
+    if (!cloudProvider || stopped.has(item.connectionId)) continue;
 
     // Skip items that have exceeded max retries
     if (item.retryCount >= MAX_RETRIES) {
-      await updateEntryCloudStatus(item.entryId, "failed", {
-        cloudError: `Upload failed after ${MAX_RETRIES} attempts`,
+      const error = `Upload failed after ${MAX_RETRIES} attempts`;
+      await updateSyncRecord(item.entryId, item.connectionId, { status: "failed", lastError: error }, {
+        cloudError: error,
       });
-      updateQueue((q) => q.filter((i) => i.entryId !== item.entryId));
+      removeItem(item);
       continue;
     }
 
+    // Uploading in the service worker — finished by a later pass
+    if (item.backgroundSince) {
+      if (await backgroundUploads.isRunning(item.connectionId, item.entryId)) continue;
+      // The browser dropped it without a result — upload again
+      unwatchBackgroundUpload(item);
+      updateItem(item, { backgroundSince: undefined });
+    }
+
     // Exponential backoff check
     if (item.lastAttemptAt) {
       const delay = BASE_RETRY_DELAY * Math.pow(2, item.retryCount);
@@ -169,6 +497,7 @@ async function processQueue(): Promise<void> {
       current: processedCount,
       total: totalCount,
       currentEntryId: item.entryId,
+      currentConnectionId: item.connectionId,
       uploadProgress: null,
     });
 
@@ -178,21 +507,15 @@ async function processQueue(): Promise<void> {
       const entry = diaryStore.entries().find((e) => e.id === item.entryId);
       if (!entry) {
         // Entry was deleted — remove from queue
-        updateQueue((q) => q.filter((i) => i.entryId !== item.entryId));
+        removeItem(item);
         continue;
       }
 
       // Mark as uploading
-      await updateEntryCloudStatus(item.entryId, "uploading");
+      await updateSyncRecord(item.entryId, item.connectionId, { status: "uploading" });
 
       // Update attempt info
-      updateQueue((q) =>
-        q.map((i) =>
-          i.entryId === item.entryId
-            ? { ...i, lastAttemptAt: Date.now() }
-            : i,
-        ),
-      );
+      updateItem(item, { lastAttemptAt: Date.now() });
 
       // Load the video blob if needed
       let blob = entry.videoBlob;
@@ -203,81 +526,111 @@ async function processQueue(): Promise<void> {
         throw new Error("Could not load video blob for upload");
       }
 
+      // Hand large videos to the service worker where possible
+      if (cloudProvider.prepareBackgroundUpload && (await backgroundUploads.canHandOff(blob.size))) {
+        try {
+          const request = await cloudProvider.prepareBackgroundUpload(
+            entry.id,
+            blob,
+            entry.mimeType,
+            resumeFor(item),
+          );
+          if (request) {
+            await backgroundUploads.start(item.connectionId, entry.id, entry.title, request);
+            if (!isCurrent(item)) {
+              void backgroundUploads.abort(item.connectionId, entry.id);
+              continue;
+            }
+            updateItem(item, { backgroundSince: Date.now() });
+            await watchBackgroundUploads();
+            continue;
+          }
+        } catch (err) {
+          console.warn(`[CloudSync] Background upload unavailable for entry ${item.entryId}, uploading here:`, err);
+        }
+      }
+
       // Upload video
       const videoFileRef = await cloudProvider.uploadVideo(
         entry.id,
-        blob,
+        blobBody(blob),
         entry.mimeType,
         (progress: UploadProgress) => {
           setSyncProgress((prev) =>
-            prev ? { ...prev, uploadProgress: progress } : prev,
+            prev ? { ...prev, uploadProgress: { ...progress, connectionId: item.connectionId } } : prev,
           );
         },
+        resumeFor(item),
       );
 
-      // Upload metadata
-      const meta = entryToMeta(entry);
-      const metaFileRef = await cloudProvider.uploadMeta(entry.id, meta);
-
-      // Update entry with cloud sync info
-      await updateEntryCloudStatus(item.entryId, "synced", {
-        cloudProvider: cloudProvider.name,
-        cloudFileId: videoFileRef.fileId,
-        cloudError: null,
-        cloudSync: {
-          provider: cloudProvider.name,
-          videoFileRef,
-          metaFileRef,
-          syncedAt: Date.now(),
-          status: "synced",
-        },
-      });
-
-      // Remove from queue
-      updateQueue((q) => q.filter((i) => i.entryId !== item.entryId));
+      // The video changed meanwhile — the fresh item uploads it again
+      if (!isCurrent(item)) continue;
 
-      // Notify other tabs that an entry was synced
-      notifyCloudChange();
+      // Upload metadata and mark synced
+      await recordUpload(cloudProvider, entry.id, videoFileRef);
+      uploadedCount++;
     } catch (err) {
       console.warn(`[CloudSync] Failed to upload entry ${item.entryId}:`, err);
+      if (!isCurrent(item)) continue;
 
       const errorMsg = err instanceof Error ? err.message : "Upload failed";
-      const isQuotaError = errorMsg.includes("403") && errorMsg.toLowerCase().includes("storage");
+      // Drive reports a full quota as 403 storageQuotaExceeded, WebDAV as 507 Insufficient Storage
+      const isQuotaError =
+        (errorMsg.includes("403") && errorMsg.toLowerCase().includes("storage")) ||
+        errorMsg.includes("507");
       const isAuthError = errorMsg.includes("401") || errorMsg.toLowerCase().includes("unauthorized");
 
       if (isQuotaError) {
         // Quota exceeded — don't retry, mark all remaining as failed
         const { toastStore } = await import("~/stores/toast");
-        toastStore.error("Google Drive storage is full. Free up space or upgrade your plan.");
-        await updateEntryCloudStatus(item.entryId, "failed", {
+        toastStore.error(
+          `${labelOf(item.connectionId)} storage is full. Free up space or upgrade your plan.`,
+        );
+        await updateSyncRecord(item.entryId, item.connectionId, {
+          status: "failed",
+          lastError: "Storage quota exceeded",
+        }, {
           cloudError: "Storage quota exceeded",
         });
-        updateQueue((q) => q.filter((i) => i.entryId !== item.entryId));
-        // Stop processing the rest — they'll all fail for the same reason
+        removeItem(item);
+        // Skip the rest of this connection — they'll all fail for the same reason
+        stopped.add(item.connectionId);
+        continue;
+      }
+
+      if (isNetworkError(err)) {
+        // Connection dropped — not the entry's fault, so no retry is used
+        // up. The session keeps what the server confirmed; the upload picks
+        // up from there once the connection is back.
+        await updateSyncRecord(item.entryId, item.connectionId, { status: "pending", lastError: undefined }, {
+          cloudError: null,
+        });
+        setWaitingForNetwork(true);
+        void backgroundUploads.requestSync();
         break;
       }
 
       if (isAuthError) {
-        // Auth revoked or token can't be refreshed — disconnect and stop
+        // Auth revoked or token can't be refreshed — skip this connection
         const { toastStore } = await import("~/stores/toast");
-        toastStore.error("Cloud authentication expired. Please sign in again in Settings.");
-        await updateEntryCloudStatus(item.entryId, "failed", {
+        toastStore.error(
+          `${labelOf(item.connectionId)} authentication expired. Please sign in again in Settings.`,
+        );
+        await updateSyncRecord(item.entryId, item.connectionId, {
+          status: "failed",
+          lastError: "Authentication expired",
+        }, {
           cloudError: "Authentication expired",
         });
         // Don't remove from queue — they can be retried after re-auth
-        break;
+        stopped.add(item.connectionId);
+        continue;
       }
 
       // Generic failure — increment retry count
-      updateQueue((q) =>
-        q.map((i) =>
-          i.entryId === item.entryId
-            ? { ...i, retryCount: i.retryCount + 1, lastAttemptAt: Date.now() }
-            : i,
-        ),
-      );
+      updateItem(item, { retryCount: item.retryCount + 1, lastAttemptAt: Date.now() });
 
-      await updateEntryCloudStatus(item.entryId, "failed", {
+      await updateSyncRecord(item.entryId, item.connectionId, { status: "failed", lastError: errorMsg }, {
         cloudError: errorMsg,
       });
     }
@@ -286,49 +639,336 @@ async function processQueue(): Promise<void> {
   setIsProcessing(false);
   setSyncProgress(null);
 
-  // Check if there are still items in queue
-  const remaining = syncQueue();
+  // Check if there are still items in queue for connections that can take them
+  const remaining = syncQueue().filter((i) => readyProvider(i.connectionId));
   if (remaining.length > 0) {
-    // Schedule another pass for retries
-    setTimeout(() => void processQueue(), BASE_RETRY_DELAY);
+    // Schedule another pass for retries — background uploads report back
+    // when they finish, and a dropped connection waits for `online`
+    if (waitingForNetwork()) {
+      if (navigator.onLine) setTimeout(() => void processQueue(), NETWORK_RETRY_DELAY);
+    } else if (passRequested || remaining.some((i) => !i.backgroundSince && !stopped.has(i.connectionId))) {
+      setTimeout(() => void processQueue(), BASE_RETRY_DELAY);
+    }
     setSyncStatus("syncing");
   } else {
     setSyncStatus("idle");
+    if (uploadedCount > 0) {
+      void backgroundUploads.notify(
+        `${uploadedCount === 1 ? "1 video" : `${uploadedCount} videos`} uploaded`,
+        "Your entries are backed up to the cloud.",
+      );
+    }
+    // Newly synced videos can be offloaded if storage is over the threshold
+    const { offloadManager } = await import("~/services/storage/offload");
+    void offloadManager.checkThreshold();
+  }
+}
+
+/**
+ * Conflicts waiting for the user, persisted so they survive a reload.
+ */
+const CONFLICTS_STORAGE_KEY = "vidlog_cloud_conflicts";
+
+function loadConflicts(): SyncConflict[] {
+  try {
+    const raw = localStorage.getItem(CONFLICTS_STORAGE_KEY);
+    // Conflicts found before there could be several connections are the migrated one's
+    if (raw) {
+      return (JSON.parse(raw) as SyncConflict[]).map((c) => ({
+        ...c,
+        connectionId: c.connectionId ?? LEGACY_CONNECTION_ID,
+      }));
+    }
+  } catch {
+    // Corrupted data
+  }
+  return [];
+}
+
+function persistConflicts(conflicts: SyncConflict[]): void {
+  try {
+    localStorage.setItem(CONFLICTS_STORAGE_KEY, JSON.stringify(conflicts));
+  } catch {
+    // localStorage full or unavailable
+  }
+}
+
+const [conflicts, setConflicts] = createSignal<SyncConflict[]>(loadConflicts());
+
+function updateConflicts(updater: (prev: SyncConflict[]) => SyncConflict[]): void {
+  setConflicts((prev) => {
+    const next = updater(prev);
+    persistConflicts(next);
+    return next;
+  });
+}
+
+/**
+ * Record a conflict, replacing any earlier one for the same entry and connection.
+ * @returns Whether it's new — only new conflicts are announced
+ */
+function recordConflict(conflict: SyncConflict): boolean {
+  const isNew = !conflicts().some((c) => sameItem(c, conflict));
+  updateConflicts((prev) => [...prev.filter((c) => !sameItem(c, conflict)), conflict]);
+  return isNew;
+}
+
+/** Drop an entry's conflict with a connection — or with every connection */
+function removeConflict(entryId: string, connectionId?: string): void {
+  const matches = (c: SyncConflict) =>
+    c.entryId === entryId && (connectionId === undefined || c.connectionId === connectionId);
+  if (!conflicts().some(matches)) return;
+  updateConflicts((prev) => prev.filter((c) => !matches(c)));
+}
+
+/**
+ * Cloud copies waiting to be replaced by a tombstone until their connection
+ * is signed in — left by moves that gave entries new IDs while it was
+ * signed out (see storage/migration.ts). Persisted so they survive a reload.
+ */
+interface PendingDeletion {
+  entryId: string;
+  record: Pick<CloudSyncInfo, "connectionId"> & Pick<Partial<CloudSyncInfo>, "videoFileRef">;
+}
+
+const DELETIONS_STORAGE_KEY = "vidlog_cloud_pending_deletions";
+
+function loadPendingDeletions(): PendingDeletion[] {
+  try {
+    const raw = localStorage.getItem(DELETIONS_STORAGE_KEY);
+    if (raw) return JSON.parse(raw) as PendingDeletion[];
+  } catch {
+    // Corrupted data
+  }
+  return [];
+}
+
+function persistPendingDeletions(deletions: PendingDeletion[]): void {
+  try {
+    localStorage.setItem(DELETIONS_STORAGE_KEY, JSON.stringify(deletions));
+  } catch {
+    // localStorage full or unavailable
+  }
+}
+
+let pendingDeletions = loadPendingDeletions();
+
+function updatePendingDeletions(updater: (prev: PendingDeletion[]) => PendingDeletion[]): void {
+  pendingDeletions = updater(pendingDeletions);
+  persistPendingDeletions(pendingDeletions);
+}
+
+/**
+ * Replace a connection's pending cloud copies with tombstones, so other
+ * devices drop them. Runs before each reconcile — otherwise the old copy
+ * would come back here as a cloud-only entry. Failures stay pending.
+ */
+async function applyPendingDeletions(cloudProvider: ICloudProvider): Promise<void> {
+  const connectionId = cloudProvider.connectionId;
+  const mine = (d: PendingDeletion) => d.record.connectionId === connectionId;
+
+  for (const pending of pendingDeletions.filter(mine)) {
+    if (pending.record.videoFileRef) {
+      try {
+        await cloudProvider.deleteVideo(pending.record.videoFileRef);
+      } catch (err) {
+        // Already gone, most likely — the tombstone is what matters
+        console.warn(`[CloudSync] Failed to delete the old video of ${pending.entryId}:`, err);
+      }
+    }
+    try {
+      const tombstone: CloudTombstone = { id: pending.entryId, deleted: true, deletedAt: Date.now() };
+      await cloudProvider.uploadMeta(pending.entryId, tombstone);
+    } catch (err) {
+      console.warn(`[CloudSync] Failed to leave a tombstone for ${pending.entryId}:`, err);
+      continue;
+    }
+    updatePendingDeletions((prev) => prev.filter((d) => !(mine(d) && d.entryId === pending.entryId)));
+  }
+}
+
+/** Tombstones older than this are removed once no device still has the entry */
+const TOMBSTONE_TTL = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Apply an entry deleted on another device. The local copy goes too unless
+ * it changed since the last sync — then the user decides.
+ */
+async function applyTombstone(
+  cloudProvider: ICloudProvider,
+  tombstone: CloudTombstone,
+  metaFileRef: CloudFileRef,
+  local: DiaryEntry | undefined,
+): Promise<boolean> {
+  if (!local) {
+    if (Date.now() - tombstone.deletedAt > TOMBSTONE_TTL) {
+      try {
+        await cloudProvider.deleteMeta(metaFileRef);
+      } catch (err) {
+        console.warn(`[CloudSync] Failed to remove tombstone for ${tombstone.id}:`, err);
+      }
+    }
+    return false;
+  }
+
+  const { diaryStore } = await import("~/stores/diary");
+  const connectionId = cloudProvider.connectionId;
+  const record = syncRecord(local, connectionId);
+  const fields = pickSyncedFields(local);
+  const base = record?.baseHashes;
+  // A cloud-only entry's video went with the tombstone — nothing left to keep
+  const changed = record?.status !== "cloud-only" && (base
+    ? changedSinceSync(await hashSyncedFields(fields), base)
+    : local.updatedAt > tombstone.deletedAt);
+
+  if (!changed) {
+    removeConflict(local.id);
+    await diaryStore.deleteEntry(local.id, { localOnly: true });
+    return true;
+  }
+
+  if (recordConflict({
+    entryId: local.id,
+    connectionId,
+    title: local.title,
+    fields: [],
+    local: fields,
+    remote: null,
+    detectedAt: Date.now(),
+  })) {
+    const { toastStore } = await import("~/stores/toast");
+    toastStore.warning(`"${local.title}" was deleted on another device but changed here. Choose which to keep in Settings.`);
   }
+  return false;
 }
 
 /**
- * Fetch all metadata from cloud and reconcile with local entries.
- * Creates "cloud-only" entries in OPFS for videos that exist in cloud
- * but not locally.
+ * Merge a connection's copy of an entry into the local one and push local
+ * changes back (see reconcile.ts). Fields changed on both sides are left
+ * alone and recorded as a conflict.
+ * @returns Whether the local entry changed
  */
-async function fetchCloudEntries(): Promise<void> {
-  const cloudProvider = provider();
-  if (!cloudProvider || !cloudProvider.isAuthenticated()) return;
+async function reconcileEntry(
+  cloudProvider: ICloudProvider,
+  local: DiaryEntry,
+  meta: DiaryEntryMeta,
+  metaFileRef: CloudFileRef,
+  videoFileRef: CloudFileRef | null,
+): Promise<boolean> {
+  const connectionId = cloudProvider.connectionId;
+  const updates: Partial<DiaryEntry> = {};
+  const linked = syncRecord(local, connectionId);
+
+  // Synced by another device (or before this one tracked it) — link it
+  let record = linked;
+  if (!record && videoFileRef) {
+    record = {
+      connectionId,
+      provider: cloudProvider.name,
+      videoFileRef,
+      metaFileRef,
+      syncedAt: Date.now(),
+      // No video here if it came from another connection
+      status: isCloudOnly(local) ? "cloud-only" : "synced",
+    };
+    Object.assign(updates, {
+      cloudProvider: cloudProvider.name,
+      cloudFileId: videoFileRef.fileId,
+    });
+  }
+
+  const localFields = pickSyncedFields(local);
+  const remoteFields = pickSyncedFields(meta);
+  const plan = planMerge(
+    { fields: localFields, hashes: await hashSyncedFields(localFields), updatedAt: local.updatedAt },
+    { fields: remoteFields, hashes: await hashSyncedFields(remoteFields), updatedAt: meta.updatedAt },
+    record?.baseHashes,
+  );
+
+  if (plan.conflicts.length > 0) {
+    if (recordConflict({
+      entryId: local.id,
+      connectionId,
+      title: local.title,
+      fields: plan.conflicts,
+      local: localFields,
+      remote: remoteFields,
+      detectedAt: Date.now(),
+    })) {
+      const { toastStore } = await import("~/stores/toast");
+      toastStore.warning(`"${local.title}" was changed here and in ${labelOf(connectionId)}. Choose which to keep in Settings.`);
+    }
+    if (record !== linked) {
+      await updateSyncRecord(local.id, connectionId, record!, updates);
+      return true;
+    }
+    return false;
+  }
+  removeConflict(local.id, connectionId);
+
+  for (const field of plan.pull) {
+    Object.assign(updates, { [field]: plan.merged[field] });
+  }
+  if (!record) {
+    // Metadata without a video — nothing to link or push to
+    if (plan.pull.length === 0) return false;
+    const { diaryStore } = await import("~/stores/diary");
+    await diaryStore.updateEntry(local.id, updates);
+    return true;
+  }
+
+  if (plan.push) {
+    const pushed = await cloudProvider.uploadMeta(local.id, entryToMeta({ ...local, ...updates }));
+    record = { ...record, metaFileRef: pushed, syncedAt: Date.now() };
+  }
+
+  const baseHashes = await hashSyncedFields(plan.merged);
+  const baseChanged = SYNC_FIELDS.some((f) => record.baseHashes?.[f] !== baseHashes[f]);
+  if (!baseChanged && record === linked && plan.pull.length === 0) return false;
 
+  await updateSyncRecord(local.id, connectionId, { ...record, baseHashes }, updates);
+  return true;
+}
+
+/**
+ * Two-way reconcile of every entry with one connection:
+ * - entries only in the cloud are created locally as metadata-only entries
+ * - renames, tag edits, transcripts and edits flow both ways (see reconcile.ts)
+ * - entries deleted on another device (tombstones) are deleted here
+ *
+ * Entries waiting in the connection's upload queue are left to the upload —
+ * a tombstone too, since the upload replaces it.
+ * @returns Whether any local entry changed
+ */
+async function reconcileConnection(cloudProvider: ICloudProvider): Promise<boolean> {
+  const connectionId = cloudProvider.connectionId;
   try {
+    await applyPendingDeletions(cloudProvider);
     const cloudEntries = await cloudProvider.downloadAllMeta();
     const { diaryStore } = await import("~/stores/diary");
-    const localEntries = diaryStore.entries();
-    const localIds = new Set(localEntries.map((e) => e.id));
+    const localById = new Map(diaryStore.entries().map((e) => [e.id, e]));
+    const queued = new Set(
+      syncQueue().filter((i) => i.connectionId === connectionId).map((i) => i.entryId),
+    );
+    let changed = false;
 
     for (const { meta, metaFileRef, videoFileRef } of cloudEntries) {
-      if (localIds.has(meta.id)) {
-        // Entry exists locally — update cloud sync info if missing
-        const localEntry = localEntries.find((e) => e.id === meta.id);
-        if (localEntry && !localEntry.cloudSync && videoFileRef) {
-          await diaryStore.updateEntry(meta.id, {
-            cloudStatus: "uploaded",
-            cloudProvider: cloudProvider.name,
-            cloudFileId: videoFileRef.fileId,
-            cloudSync: {
-              provider: cloudProvider.name,
-              videoFileRef,
-              metaFileRef,
-              syncedAt: Date.now(),
-              status: "synced",
-            },
-          });
+      // Encrypted by another device while this one didn't know — skip until unlocked
+      if (isEncryptedMeta(meta)) continue;
+
+      const local = localById.get(meta.id);
+      if (local && queued.has(local.id)) continue;
+
+      if (isTombstone(meta)) {
+        if (await applyTombstone(cloudProvider, meta, metaFileRef, local)) changed = true;
+        continue;
+      }
+
+      if (local) {
+        try {
+          if (await reconcileEntry(cloudProvider, local, meta, metaFileRef, videoFileRef)) changed = true;
+        } catch (err) {
+          console.warn(`[CloudSync] Failed to reconcile entry ${meta.id}:`, err);
         }
         continue;
       }
@@ -338,6 +978,7 @@ async function fetchCloudEntries(): Promise<void> {
 
       const cloudOnlyEntry: DiaryEntry = {
         ...meta,
+        mediaKind: meta.mediaKind ?? "video",
         videoBlob: null,
         videoBlobUrl: null,
         storageProvider: "opfs",
@@ -346,13 +987,16 @@ async function fetchCloudEntries(): Promise<void> {
         cloudFileId: videoFileRef.fileId,
         cloudUrl: null,
         cloudError: null,
-        cloudSync: {
+        // The uploading device's records point at its connections, not this one's
+        cloudSyncs: [{
+          connectionId,
           provider: cloudProvider.name,
           videoFileRef,
           metaFileRef,
           syncedAt: Date.now(),
           status: "cloud-only",
-        },
+          baseHashes: await hashSyncedFields(pickSyncedFields(meta)),
+        }],
       };
 
       // Save the metadata-only entry to OPFS so it appears in the library
@@ -360,33 +1004,83 @@ async function fetchCloudEntries(): Promise<void> {
       // videoBlob: null so only the JSON metadata gets written, no video file.
       try {
         await storageManager.save(cloudOnlyEntry);
+        changed = true;
       } catch (err) {
         console.warn(`[CloudSync] Failed to save cloud-only entry ${meta.id}:`, err);
       }
     }
 
+    return changed;
+  } catch (err) {
+    console.warn(`[CloudSync] Failed to fetch cloud entries from ${labelOf(connectionId)}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Reconcile every signed-in, unlocked connection in turn. Entries are
+ * reloaded after each connection that changed them, so the next one sees
+ * the entries (and records) it created.
+ */
+async function reconcileAll(): Promise<void> {
+  const { diaryStore } = await import("~/stores/diary");
+  let changed = false;
+
+  for (const cloudProvider of connectedProviders()) {
+    if (cloudEncryption.isLocked(cloudProvider.connectionId)) continue;
+    if (!(await reconcileConnection(cloudProvider))) continue;
+    changed = true;
     // Reload entries to reflect changes
     await diaryStore.loadEntries();
+  }
 
-    // Notify other tabs about new cloud-only entries
-    notifyCloudChange();
-  } catch (err) {
-    console.warn("[CloudSync] Failed to fetch cloud entries:", err);
+  // Notify other tabs about new cloud-only entries
+  if (changed) notifyCloudChange();
+}
+
+let reconcileRun: Promise<void> | null = null;
+let reconcileAgain = false;
+
+/**
+ * Run reconcileAll(), one pass at a time. A request during a pass queues
+ * one more pass, so changes made meanwhile aren't missed.
+ */
+function fetchCloudEntries(): Promise<void> {
+  if (reconcileRun) {
+    reconcileAgain = true;
+    return reconcileRun;
   }
+  reconcileRun = (async () => {
+    do {
+      reconcileAgain = false;
+      await reconcileAll();
+    } while (reconcileAgain);
+  })().finally(() => {
+    reconcileRun = null;
+  });
+  return reconcileRun;
 }
 
+/** Delay before a local metadata change is reconciled, so bursts of edits share one pass */
+const SYNC_META_DELAY = 5000;
+let syncMetaTimer: ReturnType<typeof setTimeout> | null = null;
+
 /**
- * Upload a single entry to cloud (for ephemeral one-shot uploads).
+ * Upload a single entry to cloud (for ephemeral one-shot uploads) — to the
+ * first connection auto-sync uses, or the first signed-in one.
  * Does not add to queue or affect local storage state.
  */
 async function uploadSingle(
   entry: DiaryEntry,
   onProgress?: (progress: UploadProgress) => void,
 ): Promise<void> {
-  const cloudProvider = provider();
-  if (!cloudProvider || !cloudProvider.isAuthenticated()) {
+  const cloudProvider = autoSyncTargets()[0] ?? connectedProviders()[0];
+  if (!cloudProvider) {
     throw new Error("Not connected to cloud");
   }
+  if (cloudEncryption.isLocked(cloudProvider.connectionId)) {
+    throw new Error("Cloud encryption is locked. Unlock it in Settings.");
+  }
 
   const blob = entry.videoBlob;
   if (!blob) {
@@ -396,7 +1090,7 @@ async function uploadSingle(
   // Upload video
   const videoFileRef = await cloudProvider.uploadVideo(
     entry.id,
-    blob,
+    blobBody(blob),
     entry.mimeType,
     onProgress,
   );
@@ -415,6 +1109,19 @@ async function uploadSingle(
   });
 }
 
+/** Stop an entry's uploads — to one connection, or to all of them */
+function dequeueUpload(entryId: string, connectionId?: string): void {
+  const matches = (i: SyncQueueItem) =>
+    i.entryId === entryId && (connectionId === undefined || i.connectionId === connectionId);
+  for (const item of syncQueue().filter(matches)) {
+    if (item.backgroundSince) {
+      void backgroundUploads.abort(item.connectionId, item.entryId);
+      unwatchBackgroundUpload(item);
+    }
+  }
+  updateQueue((q) => q.filter((i) => !matches(i)));
+}
+
 // ---------------------------------------------------------------------------
 // Exported Singleton
 // ---------------------------------------------------------------------------
@@ -422,32 +1129,71 @@ async function uploadSingle(
 export const cloudSyncManager = {
   // Signals (read-only accessors)
   provider,
+  readyProvider,
+  connectedProviders,
+  autoSyncTargets,
   syncEnabled,
   syncQueue,
   syncStatus,
   syncProgress,
   isProcessing,
+  backgroundProgress,
+  waitingForNetwork,
+
+  /** Whether any connection is signed in (reactive) */
+  isConnected(): boolean {
+    return connectedProviders().length > 0;
+  },
 
   /**
-   * Set the cloud provider implementation.
-   * Called during app init after provider auth is restored.
+   * Attach a connection's provider, replacing any earlier one.
+   * Called during app init after provider auth is restored, and on connect.
    */
-  setProvider(p: ICloudProvider): void {
-    setProviderSignal(p);
+  attach(p: ICloudProvider): void {
+    setRawProviders((prev) => new Map(prev).set(p.connectionId, p));
   },
 
   /**
-   * Clear the cloud provider (on disconnect).
-   * Also clears the sync queue to prevent entries from a previous user's
-   * session being uploaded to a different user's Drive.
+   * Detach a connection's provider (on disconnect or removal).
+   * Also drops the connection's queue items, so entries queued for one
+   * user's account aren't uploaded to a different account that signs in
+   * on the same browser, and its conflicts — they belong to its folder.
    */
-  clearProvider(): void {
-    setProviderSignal(null);
-    setSyncStatus("idle");
-    setSyncProgress(null);
-    // Clear pending uploads — prevents cross-user data leakage if
-    // a different Google account signs in on the same browser.
-    updateQueue(() => []);
+  detach(connectionId: string): void {
+    setRawProviders((prev) => {
+      const next = new Map(prev);
+      next.delete(connectionId);
+      return next;
+    });
+    cloudEncryption.reset(connectionId);
+    if (syncProgress()?.currentConnectionId === connectionId) setSyncProgress(null);
+    updateConflicts((prev) => prev.filter((c) => c.connectionId !== connectionId));
+    for (const item of syncQueue()) {
+      if (item.connectionId !== connectionId) continue;
+      if (item.backgroundSince) void backgroundUploads.abort(item.connectionId, item.entryId);
+      unwatchBackgroundUpload(item);
+    }
+    updateQueue((q) => q.filter((i) => i.connectionId !== connectionId));
+    if (syncQueue().length === 0) setSyncStatus("idle");
+  },
+
+  /**
+   * Drop every entry's record for a removed connection. Entries whose video
+   * was only in that connection are deleted here — nothing is left to play.
+   */
+  async forgetConnection(connectionId: string): Promise<void> {
+    const { diaryStore } = await import("~/stores/diary");
+    for (const entry of diaryStore.entries()) {
+      if (!syncRecord(entry, connectionId)) continue;
+      const elsewhere = videoRecords(entry).some((r) => r.connectionId !== connectionId);
+      if (isCloudOnly(entry) && !elsewhere) {
+        await diaryStore.deleteEntry(entry.id, { localOnly: true });
+      } else {
+        await updateSyncRecord(entry.id, connectionId, null);
+      }
+    }
+    updatePendingDeletions((prev) => prev.filter((d) => d.record.connectionId !== connectionId));
+    notifyCloudChange();
   },
 
   /** Enable auto-sync. */
@@ -462,95 +1208,310 @@ export const cloudSyncManager = {
   },
 
   /**
-   * Add an entry to the upload queue.
+   * Add an entry's upload to a connection to the queue.
    * Called automatically after saving to OPFS when cloud sync is enabled.
-   * Sets the entry's cloudSync status to "pending" immediately.
+   * Sets the entry's record for the connection to "pending" immediately.
    */
-  queueUpload(entryId: string): void {
+  queueUpload(entryId: string, connectionId: string): void {
+    const key = { entryId, connectionId };
     // Don't add duplicates
-    if (syncQueue().some((i) => i.entryId === entryId)) return;
+    if (findItem(key)) return;
 
     updateQueue((q) => [
       ...q,
       {
-        entryId,
+        ...key,
         queuedAt: Date.now(),
         retryCount: 0,
         lastAttemptAt: null,
       },
     ]);
 
-    // Mark entry as pending immediately so the badge shows up
-    const cloudProvider = provider();
-    if (cloudProvider) {
-      void updateEntryCloudStatus(entryId, "pending", {
-        cloudSync: {
-          provider: cloudProvider.name,
-          videoFileRef: null,
-          metaFileRef: null,
-          syncedAt: 0,
-          status: "pending",
-        },
-      });
-    }
+    // Mark the record as pending immediately so the badge shows up
+    void updateSyncRecord(entryId, connectionId, {
+      videoFileRef: null,
+      metaFileRef: null,
+      syncedAt: 0,
+      status: "pending",
+      lastError: undefined,
+    });
 
     // Start processing if enabled
-    if (syncEnabled() && provider()?.isAuthenticated()) {
+    if (syncEnabled() && readyProvider(connectionId)) {
       void processQueue();
     }
   },
 
   /**
-   * Remove an entry from the upload queue (e.g. when entry is deleted).
+   * Queue an entry's upload afresh after its video was replaced. An attempt
+   * already queued is dropped first, with its resumable session and any
+   * background upload: they hold the old video's bytes, and resuming them
+   * would append the new video to the old one (and, encrypted, reuse the
+   * old session's nonce for different content).
    */
-  dequeueUpload(entryId: string): void {
-    updateQueue((q) => q.filter((i) => i.entryId !== entryId));
+  requeueUpload(entryId: string, connectionId: string): void {
+    dequeueUpload(entryId, connectionId);
+    cloudSyncManager.queueUpload(entryId, connectionId);
   },
 
+  /**
+   * Remove an entry from the upload queue (e.g. when entry is deleted) —
+   * for one connection, or for all of them.
+   */
+  dequeueUpload,
+
   /** Process pending uploads. */
   processQueue,
 
-  /** Fetch cloud entries and reconcile with local state. */
+  /** Follow the progress of uploads running in the service worker (e.g. on start). */
+  watchBackgroundUploads,
+
+  /**
+   * Queue every entry fully synced to a connection for upload again — used
+   * after enabling encryption so existing plaintext copies are overwritten
+   * with ciphertext. Cloud-only entries (no local video) can't be
+   * re-uploaded and are skipped.
+   * @returns Number of entries queued
+   */
+  async requeueSyncedEntries(connectionId: string): Promise<number> {
+    const { diaryStore } = await import("~/stores/diary");
+    const synced = diaryStore
+      .entries()
+      .filter((e) => !isCloudOnly(e) && syncRecord(e, connectionId)?.status === "synced");
+    for (const entry of synced) {
+      cloudSyncManager.queueUpload(entry.id, connectionId);
+    }
+    return synced.length;
+  },
+
+  /**
+   * Queue every entry the sync rule (or a pin) selects that isn't in each
+   * auto-sync connection yet — after the rule changes, or on "Sync Now".
+   * @returns Number of uploads queued
+   */
+  async queueMatchingEntries(): Promise<number> {
+    const targets = autoSyncTargets();
+    if (targets.length === 0) return 0;
+
+    const { diaryStore } = await import("~/stores/diary");
+    let queued = 0;
+    for (const entry of diaryStore.entries()) {
+      const missing = targets.filter(
+        (p) => needsUpload(entry, p.connectionId) && !findItem({ entryId: entry.id, connectionId: p.connectionId }),
+      );
+      if (missing.length === 0 || isCloudOnly(entry) || !(await shouldAutoSync(entry))) continue;
+      for (const p of missing) {
+        cloudSyncManager.queueUpload(entry.id, p.connectionId);
+        queued++;
+      }
+    }
+    return queued;
+  },
+
+  /**
+   * Set or clear an entry's exception to the sync rule. Pinning queues the
+   * entry for every auto-sync connection it isn't in yet; "local-only" takes
+   * it off the queue. Existing cloud copies are left alone either way.
+   */
+  async setSyncOverride(entryId: string, override: CloudSyncOverride | undefined): Promise<void> {
+    const { diaryStore } = await import("~/stores/diary");
+    await diaryStore.updateEntry(entryId, { syncOverride: override });
+    const entry = diaryStore.entries().find((e) => e.id === entryId);
+    if (!entry) return;
+
+    if (override === "local-only") {
+      dequeueUpload(entryId);
+      // Waiting or failed uploads never reached the cloud — drop their badge
+      for (const record of entry.cloudSyncs ?? []) {
+        if (record.status === "pending" || record.status === "failed") {
+          await updateSyncRecord(entryId, record.connectionId, null, { cloudError: null });
+        }
+      }
+      return;
+    }
+
+    if (isCloudOnly(entry) || !(await shouldAutoSync(entry))) return;
+    for (const p of autoSyncTargets()) {
+      if (needsUpload(entry, p.connectionId)) cloudSyncManager.queueUpload(entryId, p.connectionId);
+    }
+  },
+
+  /**
+   * Sync an entry's metadata after it changed locally (e.g. a rename or a new
+   * transcript). Runs a reconcile pass shortly after, so a change made on
+   * another device meanwhile is merged rather than overwritten. Only
+   * connections that already have the entry's metadata take part; pending
+   * uploads pick up the change when they run.
+   */
+  async syncMeta(entryId: string): Promise<void> {
+    const { diaryStore } = await import("~/stores/diary");
+    const entry = diaryStore.entries().find((e) => e.id === entryId);
+    const inCloud = (entry?.cloudSyncs ?? []).some(
+      (r) => r.metaFileRef && readyProvider(r.connectionId),
+    );
+    if (!inCloud) return;
+
+    if (syncMetaTimer) clearTimeout(syncMetaTimer);
+    syncMetaTimer = setTimeout(() => {
+      syncMetaTimer = null;
+      void fetchCloudEntries();
+    }, SYNC_META_DELAY);
+  },
+
+  /** Fetch cloud entries and reconcile with local state (both ways). */
   fetchCloudEntries,
 
+  /** Entries changed on both sides, waiting for the user to pick one (reactive) */
+  conflicts,
+
+  /**
+   * Settle a conflict with a connection by keeping one side. Keeping this
+   * device's copy overwrites the connection's — or uploads the entry again
+   * if it was deleted there; keeping the connection's copy overwrites this
+   * device's — or deletes the entry here.
+   * @throws If keeping this device's copy while the connection is signed out
+   */
+  async resolveConflict(entryId: string, connectionId: string, keep: "local" | "cloud"): Promise<void> {
+    const conflict = conflicts().find((c) => sameItem(c, { entryId, connectionId }));
+    if (!conflict) return;
+
+    const { diaryStore } = await import("~/stores/diary");
+    const entry = diaryStore.entries().find((e) => e.id === entryId);
+    if (!entry) {
+      removeConflict(entryId);
+      return;
+    }
+    const record = syncRecord(entry, connectionId);
+
+    if (keep === "cloud") {
+      if (conflict.remote) {
+        const fields = pickSyncedFields(conflict.remote);
+        await diaryStore.updateEntry(entryId, fields);
+        if (record) {
+          await updateSyncRecord(entryId, connectionId, { baseHashes: await hashSyncedFields(fields) });
+        }
+      } else {
+        await diaryStore.deleteEntry(entryId, { localOnly: true });
+      }
+    } else if (!conflict.remote) {
+      // The connection's copy is gone — replace its tombstone with this
+      // copy's metadata now, so a later reconcile can't apply it while the
+      // upload waits or fails, then start over with a fresh upload
+      const cloudProvider = readyProvider(connectionId);
+      if (!cloudProvider) {
+        throw new Error(`Connect to ${labelOf(connectionId)} to keep this device's copy`);
+      }
+      await cloudProvider.uploadMeta(entryId, entryToMeta(entry));
+      await updateSyncRecord(entryId, connectionId, null, { cloudError: null });
+      cloudSyncManager.queueUpload(entryId, connectionId);
+    } else {
+      const cloudProvider = readyProvider(connectionId);
+      if (!cloudProvider || !record) {
+        throw new Error(`Connect to ${labelOf(connectionId)} to keep this device's copy`);
+      }
+      const metaFileRef = await cloudProvider.uploadMeta(entryId, entryToMeta(entry));
+      await updateSyncRecord(entryId, connectionId, {
+        metaFileRef,
+        syncedAt: Date.now(),
+        baseHashes: await hashSyncedFields(pickSyncedFields(entry)),
+      });
+    }
+
+    removeConflict(entryId, connectionId);
+    notifyCloudChange();
+  },
+
+  /**
+   * Mark an entry's copy in a connection as failed — e.g. verification
+   * found it missing or damaged. The next sync uploads it again if the
+   * sync rule still selects the entry.
+   */
+  async markFailed(entryId: string, connectionId: string, reason: string): Promise<void> {
+    await updateSyncRecord(entryId, connectionId, { status: "failed", lastError: reason }, { cloudError: reason });
+    notifyCloudChange();
+  },
+
+  /**
+   * Upload an entry's metadata to a connection again and point its record
+   * at the files there — after verification found the metadata missing or
+   * out of date.
+   * @param videoFileRef The entry's video as found in the connection
+   * @throws If the connection is signed out or locked
+   */
+  async repairMeta(entryId: string, connectionId: string, videoFileRef: CloudFileRef): Promise<void> {
+    const cloudProvider = readyProvider(connectionId);
+    if (!cloudProvider) {
+      throw new Error(`Connect to ${labelOf(connectionId)} first`);
+    }
+    const { diaryStore } = await import("~/stores/diary");
+    const entry = diaryStore.entries().find((e) => e.id === entryId);
+    if (!entry) return;
+
+    const metaFileRef = await cloudProvider.uploadMeta(entryId, entryToMeta(entry));
+    await updateSyncRecord(entryId, connectionId, {
+      videoFileRef,
+      metaFileRef,
+      syncedAt: Date.now(),
+      baseHashes: await hashSyncedFields(pickSyncedFields(entry)),
+    });
+    notifyCloudChange();
+  },
+
   /** Upload a single entry (for ephemeral one-shot uploads). */
   uploadSingle,
 
   /**
-   * Delete an entry's cloud files (video + metadata).
+   * Delete an entry's cloud files (video + metadata) from each connection
+   * it has a record for.
    * Called when the user deletes an entry that was synced to the cloud.
+   * Given the entry's ID, the metadata is replaced by a tombstone so other
+   * devices delete their copy too. Connections that are signed out keep
+   * their copy.
    * Failures are logged but do not throw — local deletion should always succeed.
    */
   async deleteCloudFiles(entry: {
-    cloudSync?: { videoFileRef?: CloudFileRef | null; metaFileRef?: CloudFileRef | null } | null;
+    id?: string;
+    cloudSyncs?: Array<
+      Pick<CloudSyncInfo, "connectionId"> & Pick<Partial<CloudSyncInfo>, "videoFileRef" | "metaFileRef">
+    > | null;
   }): Promise<void> {
-    const cloudProvider = provider();
-    if (!cloudProvider || !cloudProvider.isAuthenticated()) return;
-
-    const sync = entry.cloudSync;
-    if (!sync) return;
-
     const errors: string[] = [];
-
-    // Delete video file from cloud
-    if (sync.videoFileRef) {
-      try {
-        await cloudProvider.deleteVideo(sync.videoFileRef);
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : "Unknown error";
-        errors.push(`video: ${msg}`);
-        console.warn("[CloudSync] Failed to delete cloud video:", err);
+    let deleted = false;
+
+    for (const sync of entry.cloudSyncs ?? []) {
+      const cloudProvider = provider(sync.connectionId);
+      if (!cloudProvider || !cloudProvider.isAuthenticated()) continue;
+      const label = labelOf(sync.connectionId);
+
+      // Delete video file from cloud
+      if (sync.videoFileRef) {
+        try {
+          await cloudProvider.deleteVideo(sync.videoFileRef);
+          deleted = true;
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : "Unknown error";
+          errors.push(`${label} video: ${msg}`);
+          console.warn("[CloudSync] Failed to delete cloud video:", err);
+        }
       }
-    }
 
-    // Delete metadata file from cloud
-    if (sync.metaFileRef) {
-      try {
-        await cloudProvider.deleteMeta(sync.metaFileRef);
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : "Unknown error";
-        errors.push(`meta: ${msg}`);
-        console.warn("[CloudSync] Failed to delete cloud metadata:", err);
+      // Delete metadata file from cloud, or leave a tombstone for other devices
+      if (sync.metaFileRef) {
+        try {
+          // (a locked folder can't take one — the other devices keep their copy)
+          if (entry.id && !cloudEncryption.isLocked(sync.connectionId)) {
+            const tombstone: CloudTombstone = { id: entry.id, deleted: true, deletedAt: Date.now() };
+            await cloudProvider.uploadMeta(entry.id, tombstone);
+            removeConflict(entry.id, sync.connectionId);
+          } else {
+            await cloudProvider.deleteMeta(sync.metaFileRef);
+          }
+          deleted = true;
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : "Unknown error";
+          errors.push(`${label} meta: ${msg}`);
+          console.warn("[CloudSync] Failed to delete cloud metadata:", err);
+        }
       }
     }
 
@@ -560,20 +1521,38 @@ export const cloudSyncManager = {
       toastStore.warning(
         `Entry deleted locally but cloud cleanup had errors: ${errors.join("; ")}`,
       );
-    } else {
+    } else if (deleted) {
       // Successful cloud deletion — notify other tabs
       notifyCloudChange();
     }
   },
 
   /**
-   * Full sync cycle: upload pending locals + fetch cloud-only entries.
+   * Replace an entry's copy in a connection with a tombstone — now if the
+   * connection is signed in, otherwise the next time it reconciles.
+   */
+  async deleteCloudFilesLater(
+    entryId: string,
+    record: Pick<CloudSyncInfo, "connectionId"> & Pick<Partial<CloudSyncInfo>, "videoFileRef">,
+  ): Promise<void> {
+    updatePendingDeletions((prev) => [
+      ...prev.filter((d) => !(d.entryId === entryId && d.record.connectionId === record.connectionId)),
+      { entryId, record: { connectionId: record.connectionId, videoFileRef: record.videoFileRef ?? null } },
+    ]);
+    const cloudProvider = readyProvider(record.connectionId);
+    if (cloudProvider) await applyPendingDeletions(cloudProvider);
+  },
+
+  /**
+   * Full sync cycle: upload pending locals + fetch cloud-only entries,
+   * across every signed-in connection.
    */
   async syncNow(): Promise<void> {
-    if (!provider()?.isAuthenticated()) return;
+    if (connectedProviders().length === 0) return;
 
     setSyncStatus("syncing");
     try {
+      await cloudSyncManager.queueMatchingEntries();
       await processQueue();
       await fetchCloudEntries();
     } catch (err) {
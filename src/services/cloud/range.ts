@@ -0,0 +1,34 @@
+import type { VideoRange } from "./types";
+
+/**
+ * HTTP range requests for streaming playback — shared by the providers'
+ * readVideoRange() implementations.
+ */
+
+/** Range header value for bytes [start, end) */
+export function rangeHeader(start: number, end: number): string {
+  return `bytes=${start}-${end - 1}`;
+}
+
+/**
+ * Read the answer to a range request.
+ *
+ * The video's size comes from Content-Range, or from `fetchSize` when the
+ * server doesn't expose that header to CORS requests. A server that ignores
+ * Range answers 200 with the whole file; the range is cut out of it.
+ * @param fetchSize Look the size up another way (e.g. file metadata, HEAD)
+ */
+export async function readRangeResponse(
+  response: Response,
+  start: number,
+  end: number,
+  fetchSize: () => Promise<number>,
+): Promise<VideoRange> {
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (response.status !== 206) {
+    return { bytes: bytes.slice(start, end), totalSize: bytes.length };
+  }
+
+  const total = response.headers.get("Content-Range")?.match(/\/(\d+)$/)?.[1];
+  return { bytes, totalSize: total ? parseInt(total, 10) : await fetchSize() };
+}
@@ -0,0 +1,119 @@
+import type { SyncField } from "~/models/types";
+import type { SyncedFields } from "./types";
+
+/**
+ * Two-way merge of entry metadata between this device and the cloud.
+ *
+ * Every synced entry remembers a content hash per field as of its last sync
+ * (CloudSyncInfo.baseHashes) — the common ancestor of both copies. Comparing
+ * each side against it tells who changed what:
+ *
+ *   local = cloud     → nothing to do
+ *   cloud = base      → changed here, push it
+ *   local = base      → changed in the cloud, pull it
+ *   neither = base    → changed on both sides
+ *
+ * Transcripts and edits carry their own timestamps, so when both sides
+ * changed one the newer wins. Titles and tags don't — a change on both sides
+ * is a conflict for the user to settle. Entries synced before hashes existed
+ * have no base; for them the copy with the newer updatedAt wins.
+ */
+
+export const SYNC_FIELDS: SyncField[] = ["title", "tags", "edit", "transcript"];
+
+export type FieldHashes = Record<SyncField, string>;
+
+export interface MergePlan {
+  /** What both copies should hold afterwards */
+  merged: SyncedFields;
+  /** Fields to take from the cloud copy */
+  pull: SyncField[];
+  /** Whether the cloud copy is missing local changes */
+  push: boolean;
+  /** Fields changed on both sides that the user has to choose between */
+  conflicts: SyncField[];
+}
+
+/** The synced fields of an entry or its metadata */
+export function pickSyncedFields(meta: SyncedFields): SyncedFields {
+  return {
+    title: meta.title,
+    tags: meta.tags,
+    edit: meta.edit,
+    transcript: meta.transcript,
+  };
+}
+
+async function hashValue(value: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(value ?? null));
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  // 96 bits is plenty to tell versions of one field apart
+  return Array.from(digest.subarray(0, 12), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Hash each synced field */
+export async function hashSyncedFields(fields: SyncedFields): Promise<FieldHashes> {
+  const hashes = {} as FieldHashes;
+  for (const field of SYNC_FIELDS) {
+    hashes[field] = await hashValue(fields[field]);
+  }
+  return hashes;
+}
+
+/** Whether both sides changed `field` and the newer change can be told apart */
+function newerSide(field: SyncField, local: SyncedFields, remote: SyncedFields): "local" | "remote" | null {
+  if (field === "transcript") {
+    return (local.transcript?.createdAt ?? 0) >= (remote.transcript?.createdAt ?? 0) ? "local" : "remote";
+  }
+  if (field === "edit") {
+    return (local.edit?.updatedAt ?? 0) >= (remote.edit?.updatedAt ?? 0) ? "local" : "remote";
+  }
+  return null;
+}
+
+/**
+ * Decide how to merge the local and cloud copies of an entry.
+ *
+ * @param base - Field hashes from the last sync; missing for entries synced
+ *   before two-way sync, which fall back to comparing updatedAt
+ */
+export function planMerge(
+  local: { fields: SyncedFields; hashes: FieldHashes; updatedAt: number },
+  remote: { fields: SyncedFields; hashes: FieldHashes; updatedAt: number },
+  base: Partial<FieldHashes> | undefined,
+): MergePlan {
+  const merged = { ...local.fields };
+  const plan: MergePlan = { merged, pull: [], push: false, conflicts: [] };
+
+  for (const field of SYNC_FIELDS) {
+    if (local.hashes[field] === remote.hashes[field]) continue;
+
+    let winner: "local" | "remote" | null;
+    if (!base?.[field]) {
+      winner = remote.updatedAt > local.updatedAt ? "remote" : "local";
+    } else if (remote.hashes[field] === base[field]) {
+      winner = "local";
+    } else if (local.hashes[field] === base[field]) {
+      winner = "remote";
+    } else {
+      winner = newerSide(field, local.fields, remote.fields);
+    }
+
+    if (winner === "local") {
+      plan.push = true;
+    } else if (winner === "remote") {
+      plan.pull.push(field);
+      (merged as Record<SyncField, unknown>)[field] = remote.fields[field];
+    } else {
+      plan.conflicts.push(field);
+    }
+  }
+
+  return plan;
+}
+
+/** Whether a local copy changed since the last sync */
+export function changedSinceSync(hashes: FieldHashes, base: Partial<FieldHashes> | undefined): boolean {
+  if (!base) return true;
+  return SYNC_FIELDS.some((field) => base[field] !== undefined && base[field] !== hashes[field]);
+}
@@ -0,0 +1,76 @@
+import type { CloudStatus, CloudSyncEntryStatus, CloudSyncInfo, DiaryEntry } from "~/models/types";
+
+/**
+ * An entry's sync records — one CloudSyncInfo per connection it's backed up
+ * to (or queued for). Helpers to read one, replace one, and sum them up for
+ * badges and the legacy cloudStatus field.
+ */
+
+type WithRecords = Pick<DiaryEntry, "cloudSyncs">;
+
+/** The entry's record for a connection, if it has one */
+export function syncRecord(entry: WithRecords, connectionId: string): CloudSyncInfo | undefined {
+  return entry.cloudSyncs?.find((r) => r.connectionId === connectionId);
+}
+
+/** The records with one replaced — or added, if its connection had none */
+export function withSyncRecord(records: CloudSyncInfo[] | undefined, record: CloudSyncInfo): CloudSyncInfo[] {
+  const others = (records ?? []).filter((r) => r.connectionId !== record.connectionId);
+  return [...others, record];
+}
+
+/** The records without a connection's — undefined once none are left */
+export function withoutSyncRecord(
+  records: CloudSyncInfo[] | undefined,
+  connectionId: string,
+): CloudSyncInfo[] | undefined {
+  const rest = (records ?? []).filter((r) => r.connectionId !== connectionId);
+  return rest.length > 0 ? rest : undefined;
+}
+
+/** Records holding a complete copy of the video, to play or download it from */
+export function videoRecords(entry: WithRecords): CloudSyncInfo[] {
+  return (entry.cloudSyncs ?? []).filter(
+    (r) => r.videoFileRef && (r.status === "synced" || r.status === "cloud-only"),
+  );
+}
+
+/** Whether the entry's video is only in the cloud — offloaded, or synced from another device */
+export function isCloudOnly(entry: WithRecords): boolean {
+  return entry.cloudSyncs?.some((r) => r.status === "cloud-only") ?? false;
+}
+
+/** Whether any connection has a complete copy of the entry */
+export function isBackedUp(entry: WithRecords): boolean {
+  return videoRecords(entry).length > 0;
+}
+
+/**
+ * One status for all of an entry's records, for badges: an upload in
+ * progress first, then a failure, then where the video lives.
+ * @returns null if the entry has no records
+ */
+export function overallSyncStatus(entry: WithRecords): CloudSyncEntryStatus | null {
+  const statuses = new Set((entry.cloudSyncs ?? []).map((r) => r.status));
+  if (statuses.size === 0) return null;
+  for (const status of ["uploading", "pending", "failed", "cloud-only"] as const) {
+    if (statuses.has(status)) return status;
+  }
+  return "synced";
+}
+
+/** The legacy cloudStatus field, summed up from the records */
+export function legacyCloudStatus(records: CloudSyncInfo[] | undefined): CloudStatus {
+  const status = overallSyncStatus({ cloudSyncs: records });
+  switch (status) {
+    case null:
+      return "none";
+    case "pending":
+    case "uploading":
+      return "uploading";
+    case "failed":
+      return "error";
+    default:
+      return "uploaded";
+  }
+}
@@ -0,0 +1,43 @@
+import type { CloudConnection, CloudProviderType, ICloudProvider } from "./types";
+import { GoogleDriveProvider } from "./google-drive";
+import { WebDAVProvider } from "./webdav";
+import { S3Provider } from "./s3";
+
+/** User-facing names for each cloud provider */
+export const CLOUD_PROVIDER_LABELS: Record<CloudProviderType, string> = {
+  "google-drive": "Google Drive",
+  webdav: "WebDAV",
+  s3: "S3",
+};
+
+/** Whether a persisted provider name is one this build knows about */
+export function isCloudProviderType(name: string | null): name is CloudProviderType {
+  return !!name && name in CLOUD_PROVIDER_LABELS;
+}
+
+/**
+ * Create the provider for a connection.
+ * Each instance keeps its own auth state — create one per connection and
+ * keep it (the sync manager holds them while attached).
+ */
+export function createCloudProvider(connection: CloudConnection): ICloudProvider {
+  switch (connection.provider) {
+    case "google-drive":
+      return new GoogleDriveProvider(connection);
+    case "webdav":
+      return new WebDAVProvider(connection);
+    case "s3":
+      return new S3Provider(connection);
+  }
+}
+
+/** Display label for a provider name, falling back to a generic one */
+export function getCloudProviderLabel(name: string | null): string {
+  return isCloudProviderType(name) ? CLOUD_PROVIDER_LABELS[name] : "cloud";
+}
+
+/** Display label for a connection: its own label, or its provider's name */
+export function getConnectionLabel(connection: CloudConnection | undefined): string {
+  if (!connection) return "a removed connection";
+  return connection.label || getCloudProviderLabel(connection.provider);
+}
@@ -0,0 +1,91 @@
+import type { CloudSyncRule, DiaryEntry } from "~/models/types";
+import { syncRecord } from "./records";
+import { storageManager } from "~/services/storage/manager";
+import { editedDuration } from "~/services/editor/segments";
+import { settingsStore } from "~/stores/settings";
+
+/**
+ * Selective sync — which entries auto-sync uploads.
+ *
+ * The user picks one rule (Settings → Cloud): everything, entries with
+ * certain tags, short entries, small entries, or nothing. Entries can opt
+ * out of the rule either way: "pin" always uploads, "local-only" never does.
+ *
+ * Only entries in persistent storage sync — an ephemeral entry is gone on
+ * refresh, so its cloud copy would be all that's left of it; those go
+ * through the one-shot "Save & Upload" instead.
+ */
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/** One-line description of a rule, e.g. "Entries under 5 min" */
+export function describeSyncRule(rule: CloudSyncRule): string {
+  switch (rule.mode) {
+    case "all":
+      return "Every entry";
+    case "tags":
+      return rule.tags.length > 0 ? `Entries tagged ${rule.tags.join(", ")}` : "No tags chosen yet";
+    case "duration":
+      return `Entries under ${rule.maxMinutes} min`;
+    case "size":
+      return `Entries under ${rule.maxMegabytes} MB`;
+    case "never":
+      return "Only pinned entries";
+  }
+}
+
+/**
+ * Whether an entry matches a rule, ignoring its override.
+ * @param videoSize - Size of the video in bytes; only the "size" rule needs it
+ */
+export function matchesSyncRule(
+  entry: DiaryEntry,
+  rule: CloudSyncRule,
+  videoSize: number | null,
+): boolean {
+  switch (rule.mode) {
+    case "all":
+      return true;
+    case "tags": {
+      const wanted = new Set(rule.tags.map((t) => t.toLowerCase()));
+      return entry.tags.some((t) => wanted.has(t.toLowerCase()));
+    }
+    case "duration":
+      return editedDuration(entry.edit, entry.duration) <= rule.maxMinutes * 60;
+    case "size":
+      return videoSize !== null && videoSize <= rule.maxMegabytes * BYTES_PER_MB;
+    case "never":
+      return false;
+  }
+}
+
+/** Whether an entry can be uploaded by the sync queue at all */
+export function canAutoSync(entry: DiaryEntry): boolean {
+  return storageManager.getProviderForEntry(entry).capabilities.persistent;
+}
+
+/**
+ * Whether auto-sync should upload an entry: pinned entries always,
+ * local-only entries never, the rest when auto-sync is on and the rule
+ * matches.
+ */
+export async function shouldAutoSync(entry: DiaryEntry): Promise<boolean> {
+  if (!canAutoSync(entry) || entry.syncOverride === "local-only") return false;
+  if (entry.syncOverride === "pin") return true;
+
+  const { cloudAutoSync, cloudSyncRule } = settingsStore.settings();
+  if (!cloudAutoSync) return false;
+
+  let videoSize: number | null = null;
+  if (cloudSyncRule.mode === "size") {
+    const blob = entry.videoBlob ?? (await storageManager.loadVideoBlob(entry));
+    videoSize = blob?.size ?? null;
+  }
+  return matchesSyncRule(entry, cloudSyncRule, videoSize);
+}
+
+/** Whether an entry has no finished copy in a connection yet */
+export function needsUpload(entry: DiaryEntry, connectionId: string): boolean {
+  const status = syncRecord(entry, connectionId)?.status;
+  return status !== "synced" && status !== "cloud-only";
+}
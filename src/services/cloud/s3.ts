@@ -0,0 +1,507 @@
+/**
+ * S3-compatible cloud provider implementation (AWS S3, MinIO, Garage, R2).
+ *
+ * Requests are signed in the browser with SigV4 — no backend, no OAuth.
+ * Object layout inside the configured bucket, under the connection's key
+ * prefix (empty by default):
+ * - Video:    `{prefix}videos/{entryId}.{ext}`
+ * - Metadata: `{prefix}meta/{entryId}.json`
+ * - App data: `{prefix}app/{name}` (e.g. the encryption key check)
+ *
+ * CloudFileRef.fileId is the object key.
+ *
+ * Videos larger than one part use multipart upload; each part is PUT to a
+ * presigned URL via XMLHttpRequest so UploadProgress reflects real bytes
+ * sent. The bucket's CORS policy must allow the app origin and expose the
+ * `ETag` header (needed to complete a multipart upload) — see README.
+ */
+
+import { createSignal, type Accessor, type Setter } from "solid-js";
+import { createS3Auth, type S3Auth, type S3Config } from "./auth/s3";
+import { objectUrl, presignUrl, signRequest } from "./sigv4";
+import type {
+  ICloudProvider,
+  CloudConnection,
+  CloudFileRef,
+  CloudMetaPayload,
+  CloudQuota,
+  CloudVideoInfo,
+  UploadBody,
+  UploadProgress,
+  VideoRange,
+} from "./types";
+import { rangeHeader, readRangeResponse } from "./range";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const VIDEO_PREFIX = "videos/";
+const META_PREFIX = "meta/";
+const APP_PREFIX = "app/";
+
+/** S3 requires every part except the last to be at least 5 MB */
+const PART_SIZE = 8 * 1024 * 1024;
+
+/** Extension map from MIME type */
+function getExtension(mimeType: string): string {
+  if (mimeType.includes("mp4")) return "mp4";
+  if (mimeType.includes("webm")) return "webm";
+  return "webm";
+}
+
+// ---------------------------------------------------------------------------
+// S3 API Helpers
+// ---------------------------------------------------------------------------
+
+/** Key of an object in one of the layout's folders, under the connection's prefix */
+function layoutKey(config: S3Config, folder: string, name: string): string {
+  return `${config.prefix}${folder}${name}`;
+}
+
+/**
+ * Make a signed request to the S3 endpoint.
+ * Throws on non-2xx with the S3 error code in the message.
+ */
+async function s3Fetch(
+  config: S3Config,
+  method: string,
+  key: string,
+  options: { query?: Record<string, string>; headers?: Record<string, string>; body?: BodyInit } = {},
+): Promise<Response> {
+  const url = objectUrl(config, key, options.query);
+  const headers = await signRequest(config, method, url, options.headers);
+
+  const response = await fetch(url, { method, headers, body: options.body, credentials: "omit" });
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => "");
+    const code = errorBody.match(/<Code>([^<]+)<\/Code>/)?.[1] ?? "";
+    throw new Error(
+      `S3 error ${response.status}: ${code || response.statusText}. ${errorBody}`,
+    );
+  }
+
+  return response;
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+function xmlText(parent: Element | Document, tag: string): string | null {
+  return parent.getElementsByTagName(tag)[0]?.textContent ?? null;
+}
+
+/**
+ * PUT a body to a presigned URL with XMLHttpRequest for progress events.
+ * @returns The ETag response header (quotes included, as S3 expects them back)
+ */
+function xhrPut(
+  url: string,
+  body: Blob,
+  onProgress?: (loaded: number) => void,
+): Promise<string | null> {
+  return new Promise<string | null>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.getResponseHeader("ETag"));
+      } else {
+        reject(new Error(`S3 error ${xhr.status}: ${xhr.statusText}. ${xhr.responseText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("S3 upload failed: network error (check bucket CORS)"));
+    xhr.send(body);
+  });
+}
+
+/**
+ * Multipart upload:
+ * 1. CreateMultipartUpload → UploadId
+ * 2. PUT each part to a presigned URL, collecting ETags
+ * 3. CompleteMultipartUpload with the part list
+ * On failure the upload is aborted so orphaned parts don't accrue storage.
+ */
+async function multipartUpload(
+  config: S3Config,
+  key: string,
+  video: UploadBody,
+  mimeType: string,
+  onProgress: (loaded: number) => void,
+): Promise<void> {
+  const createRes = await s3Fetch(config, "POST", key, {
+    query: { uploads: "" },
+    headers: { "Content-Type": mimeType },
+  });
+  const uploadId = xmlText(parseXml(await createRes.text()), "UploadId");
+  if (!uploadId) {
+    throw new Error("S3 did not return an UploadId");
+  }
+
+  try {
+    const parts: Array<{ partNumber: number; etag: string }> = [];
+    let offset = 0;
+    let partNumber = 1;
+
+    while (offset < video.size) {
+      const part = await video.read(offset, offset + PART_SIZE);
+      const partStart = offset;
+      const url = await presignUrl(config, "PUT", key, {
+        partNumber: String(partNumber),
+        uploadId,
+      });
+      const etag = await xhrPut(url, part, (loaded) => onProgress(partStart + loaded));
+      if (!etag) {
+        throw new Error("S3 part upload returned no ETag — add ETag to the bucket's CORS ExposeHeaders");
+      }
+      parts.push({ partNumber, etag });
+      offset += part.size;
+      partNumber++;
+    }
+
+    const body =
+      `<CompleteMultipartUpload>` +
+      parts
+        .map((p) => `<Part><PartNumber>${p.partNumber}</PartNumber><ETag>${p.etag}</ETag></Part>`)
+        .join("") +
+      `</CompleteMultipartUpload>`;
+
+    const completeRes = await s3Fetch(config, "POST", key, {
+      query: { uploadId },
+      headers: { "Content-Type": "application/xml" },
+      body,
+    });
+
+    // CompleteMultipartUpload can fail with 200 + <Error> in the body
+    const completeText = await completeRes.text();
+    if (completeText.includes("<Error>")) {
+      throw new Error(`S3 error: ${xmlText(parseXml(completeText), "Code") ?? "CompleteMultipartUpload failed"}`);
+    }
+  } catch (err) {
+    await s3Fetch(config, "DELETE", key, { query: { uploadId } }).catch(() => {});
+    throw err;
+  }
+}
+
+interface S3Object {
+  key: string;
+  size: number;
+  /** ETag without its quotes */
+  etag: string;
+}
+
+/** ListObjectsV2 under a prefix, following continuation tokens. */
+async function listObjects(config: S3Config, prefix: string): Promise<S3Object[]> {
+  const objects: S3Object[] = [];
+  let continuationToken: string | null = null;
+
+  do {
+    const query: Record<string, string> = { "list-type": "2", prefix };
+    if (continuationToken) query["continuation-token"] = continuationToken;
+
+    const res = await s3Fetch(config, "GET", "", { query });
+    const doc = parseXml(await res.text());
+
+    for (const contents of Array.from(doc.getElementsByTagName("Contents"))) {
+      const key = xmlText(contents, "Key");
+      if (!key) continue;
+      objects.push({
+        key,
+        size: parseInt(xmlText(contents, "Size") ?? "0", 10) || 0,
+        etag: (xmlText(contents, "ETag") ?? "").replace(/"/g, ""),
+      });
+    }
+
+    continuationToken =
+      xmlText(doc, "IsTruncated") === "true" ? xmlText(doc, "NextContinuationToken") : null;
+  } while (continuationToken);
+
+  return objects;
+}
+
+function describeConfig(config: S3Config): string {
+  try {
+    return `${config.bucket} @ ${new URL(config.endpoint).host}`;
+  } catch {
+    return config.bucket;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// S3 Provider
+// ---------------------------------------------------------------------------
+
+export class S3Provider implements ICloudProvider {
+  readonly name = "s3" as const;
+  readonly connectionId: string;
+  readonly isAuthenticated: Accessor<boolean>;
+  readonly userDisplayName: Accessor<string | null>;
+  private readonly setAuthenticated: Setter<boolean>;
+  private readonly setDisplayName: Setter<string | null>;
+  private readonly auth: S3Auth;
+
+  constructor(connection: CloudConnection) {
+    this.connectionId = connection.id;
+    this.auth = createS3Auth(connection.id);
+    [this.isAuthenticated, this.setAuthenticated] = createSignal(false);
+    [this.userDisplayName, this.setDisplayName] = createSignal<string | null>(null);
+  }
+
+  private requireConfig(): S3Config {
+    const config = this.auth.getConfig();
+    if (!config) {
+      throw new Error("S3 storage not configured. Set it in Settings.");
+    }
+    return config;
+  }
+
+  // -- Auth -----------------------------------------------------------------
+
+  /** Verify the stored keys (and bucket CORS) with a one-item listing. */
+  async signIn(): Promise<void> {
+    const config = this.requireConfig();
+    await s3Fetch(config, "GET", "", {
+      query: {
+        "list-type": "2",
+        prefix: layoutKey(config, META_PREFIX, ""),
+        "max-keys": "1",
+      },
+    });
+    this.setAuthenticated(true);
+    this.setDisplayName(describeConfig(config));
+  }
+
+  async signOut(): Promise<void> {
+    this.auth.clearConfig();
+    this.setAuthenticated(false);
+    this.setDisplayName(null);
+  }
+
+  async tryRestoreSession(): Promise<boolean> {
+    // Access keys don't expire — revoked keys surface as errors on sync
+    const config = this.auth.getConfig();
+    if (!config) return false;
+    this.setAuthenticated(true);
+    this.setDisplayName(describeConfig(config));
+    return true;
+  }
+
+  // -- Video operations -----------------------------------------------------
+
+  async uploadVideo(
+    entryId: string,
+    body: UploadBody,
+    mimeType: string,
+    onProgress?: (progress: UploadProgress) => void,
+  ): Promise<CloudFileRef> {
+    const config = this.requireConfig();
+    const key = layoutKey(config, VIDEO_PREFIX, `${entryId}.${getExtension(mimeType)}`);
+
+    const reportProgress = (loaded: number) => {
+      onProgress?.({
+        entryId,
+        bytesUploaded: loaded,
+        bytesTotal: body.size,
+        fraction: body.size > 0 ? loaded / body.size : 1,
+      });
+    };
+
+    if (body.size > PART_SIZE) {
+      await multipartUpload(config, key, body, mimeType, reportProgress);
+    } else {
+      const url = await presignUrl(config, "PUT", key);
+      await xhrPut(url, await body.read(0, body.size), reportProgress);
+    }
+    reportProgress(body.size);
+
+    return {
+      provider: "s3",
+      fileId: key,
+      mimeType,
+    };
+  }
+
+  async downloadVideo(fileRef: CloudFileRef): Promise<Blob> {
+    const res = await s3Fetch(this.requireConfig(), "GET", fileRef.fileId);
+    return res.blob();
+  }
+
+  async readVideoRange(fileRef: CloudFileRef, start: number, end: number): Promise<VideoRange> {
+    const config = this.requireConfig();
+    const res = await s3Fetch(config, "GET", fileRef.fileId, {
+      headers: { Range: rangeHeader(start, end) },
+    });
+    return readRangeResponse(res, start, end, async () => {
+      const head = await s3Fetch(config, "HEAD", fileRef.fileId);
+      return parseInt(head.headers.get("Content-Length") ?? "0", 10);
+    });
+  }
+
+  async getVideoStreamUrl(fileRef: CloudFileRef): Promise<string> {
+    // Download and return a local object URL, matching the other providers.
+    // (A presigned GET would stream, but would also put a live credential
+    // into the <video> src.)
+    const blob = await this.downloadVideo(fileRef);
+    return URL.createObjectURL(blob);
+  }
+
+  async listVideos(): Promise<CloudVideoInfo[]> {
+    const config = this.requireConfig();
+    const videoPrefix = layoutKey(config, VIDEO_PREFIX, "");
+    const videos: CloudVideoInfo[] = [];
+    for (const obj of await listObjects(config, videoPrefix)) {
+      const match = obj.key.slice(videoPrefix.length).match(/^(.+)\.(webm|mp4)$/);
+      if (!match) continue;
+      videos.push({
+        entryId: match[1],
+        fileRef: { provider: "s3", fileId: obj.key, mimeType: match[2] === "mp4" ? "video/mp4" : "video/webm" },
+        size: obj.size,
+        // Videos over PART_SIZE went up in PART_SIZE parts (see multipartUpload)
+        checksum: obj.etag ? { algorithm: "s3-etag", value: obj.etag, partSize: PART_SIZE } : null,
+      });
+    }
+    return videos;
+  }
+
+  async deleteVideo(fileRef: CloudFileRef): Promise<void> {
+    // S3 DELETE is idempotent — missing objects return 204
+    await s3Fetch(this.requireConfig(), "DELETE", fileRef.fileId);
+  }
+
+  // -- Metadata operations --------------------------------------------------
+
+  async uploadMeta(
+    entryId: string,
+    meta: CloudMetaPayload,
+  ): Promise<CloudFileRef> {
+    const config = this.requireConfig();
+    const key = layoutKey(config, META_PREFIX, `${entryId}.json`);
+    await s3Fetch(config, "PUT", key, {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(meta),
+    });
+
+    return {
+      provider: "s3",
+      fileId: key,
+      mimeType: "application/json",
+    };
+  }
+
+  async downloadAllMeta(): Promise<
+    Array<{
+      meta: CloudMetaPayload;
+      metaFileRef: CloudFileRef;
+      videoFileRef: CloudFileRef | null;
+    }>
+  > {
+    const config = this.requireConfig();
+    const results: Array<{
+      meta: CloudMetaPayload;
+      metaFileRef: CloudFileRef;
+      videoFileRef: CloudFileRef | null;
+    }> = [];
+
+    // 1. List metadata and video objects
+    const metaPrefix = layoutKey(config, META_PREFIX, "");
+    const videoPrefix = layoutKey(config, VIDEO_PREFIX, "");
+    const metaObjects = (await listObjects(config, metaPrefix)).filter((o) =>
+      o.key.endsWith(".json"),
+    );
+    const videoObjects = await listObjects(config, videoPrefix);
+
+    // 2. Index video objects by entryId
+    const videoByEntryId = new Map<string, string>();
+    for (const obj of videoObjects) {
+      const match = obj.key.slice(videoPrefix.length).match(/^(.+)\.(webm|mp4)$/);
+      if (match) videoByEntryId.set(match[1], obj.key);
+    }
+
+    // 3. Download each metadata object and pair with video ref
+    for (const obj of metaObjects) {
+      try {
+        const res = await s3Fetch(config, "GET", obj.key);
+        const meta = (await res.json()) as CloudMetaPayload;
+        const entryId = meta.id ?? obj.key.slice(metaPrefix.length, -".json".length);
+
+        const videoKey = videoByEntryId.get(entryId);
+        const videoFileRef: CloudFileRef | null = videoKey
+          ? {
+              provider: "s3",
+              fileId: videoKey,
+              mimeType: videoKey.endsWith(".mp4") ? "video/mp4" : "video/webm",
+            }
+          : null;
+
+        results.push({
+          meta,
+          metaFileRef: {
+            provider: "s3",
+            fileId: obj.key,
+            mimeType: "application/json",
+          },
+          videoFileRef,
+        });
+      } catch (err) {
+        console.warn(`[S3] Failed to download metadata ${obj.key}:`, err);
+      }
+    }
+
+    return results;
+  }
+
+  async deleteMeta(fileRef: CloudFileRef): Promise<void> {
+    await s3Fetch(this.requireConfig(), "DELETE", fileRef.fileId);
+  }
+
+  // -- App data -------------------------------------------------------------
+
+  async uploadAppData(name: string, content: string): Promise<void> {
+    const config = this.requireConfig();
+    await s3Fetch(config, "PUT", layoutKey(config, APP_PREFIX, name), {
+      headers: { "Content-Type": "application/json" },
+      body: content,
+    });
+  }
+
+  async downloadAppData(name: string): Promise<string | null> {
+    try {
+      const config = this.requireConfig();
+      const res = await s3Fetch(config, "GET", layoutKey(config, APP_PREFIX, name));
+      return await res.text();
+    } catch (err) {
+      if (err instanceof Error && err.message.startsWith("S3 error 404")) return null;
+      throw err;
+    }
+  }
+
+  // -- Quota ----------------------------------------------------------------
+
+  /**
+   * S3 has no quota API — report what VidLog itself stores in the bucket,
+   * with no total (the Settings card then shows usage only).
+   */
+  async getQuota(): Promise<CloudQuota | null> {
+    try {
+      const config = this.requireConfig();
+      const objects = [
+        ...(await listObjects(config, layoutKey(config, VIDEO_PREFIX, ""))),
+        ...(await listObjects(config, layoutKey(config, META_PREFIX, ""))),
+      ];
+      const usage = objects.reduce((sum, o) => sum + o.size, 0);
+
+      return {
+        usageBytes: usage,
+        totalBytes: 0,
+        usagePercent: 0,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * AWS Signature Version 4 for S3-compatible endpoints, computed in the
+ * browser with WebCrypto.
+ *
+ * Two forms are supported:
+ * - `signRequest()` — Authorization header, used for fetch() calls
+ * - `presignUrl()`  — query-string signature, used for XMLHttpRequest part
+ *   uploads (so progress events work without extra headers)
+ *
+ * Payloads are never hashed (`UNSIGNED-PAYLOAD`) — hashing a multi-GB video
+ * just to sign it would double the upload cost. Every S3 implementation we
+ * target (AWS, MinIO, Garage, R2) accepts unsigned payloads.
+ */
+
+import type { S3Config } from "./auth/s3";
+
+const ALGORITHM = "AWS4-HMAC-SHA256";
+const SERVICE = "s3";
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+/** Presigned URLs are only handed straight to XMLHttpRequest — keep them short-lived */
+const DEFAULT_PRESIGN_EXPIRY_SECONDS = 15 * 60;
+
+// ---------------------------------------------------------------------------
+// URL Building
+// ---------------------------------------------------------------------------
+
+/** RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone) */
+function rfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+/** Encode an object key path, keeping `/` separators */
+function encodeKey(key: string): string {
+  return key.split("/").map(rfc3986).join("/");
+}
+
+/**
+ * Build the URL for an object key (or the bucket itself when key is "").
+ * Path-style: `https://endpoint/bucket/key` (MinIO, Garage)
+ * Virtual-hosted: `https://bucket.endpoint/key` (AWS, R2)
+ */
+export function objectUrl(
+  config: S3Config,
+  key: string,
+  query: Record<string, string> = {},
+): URL {
+  const endpoint = new URL(config.endpoint);
+  const basePath = endpoint.pathname.replace(/\/$/, "");
+  const url = new URL(endpoint.origin);
+
+  if (config.pathStyle) {
+    const bucketPath = `${basePath}/${rfc3986(config.bucket)}`;
+    url.pathname = key ? `${bucketPath}/${encodeKey(key)}` : bucketPath;
+  } else {
+    url.host = `${config.bucket}.${endpoint.host}`;
+    url.pathname = `${basePath}/${encodeKey(key)}`;
+  }
+
+  url.search = canonicalQuery(query);
+  return url;
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+  return Object.keys(query)
+    .sort()
+    .map((k) => `${rfc3986(k)}=${rfc3986(query[k])}`)
+    .join("&");
+}
+
+// ---------------------------------------------------------------------------
+// Crypto Helpers
+// ---------------------------------------------------------------------------
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(data)));
+}
+
+async function hmac(key: BufferSource, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(data));
+}
+
+async function getSigningKey(config: S3Config, date: string): Promise<ArrayBuffer> {
+  const kDate = await hmac(encoder.encode(`AWS4${config.secretAccessKey}`), date);
+  const kRegion = await hmac(kDate, config.region);
+  const kService = await hmac(kRegion, SERVICE);
+  return hmac(kService, "aws4_request");
+}
+
+/** `20240101T120000Z` and `20240101` */
+function getTimestamps(now: Date): { amzDate: string; date: string } {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  return { amzDate, date: amzDate.slice(0, 8) };
+}
+
+/**
+ * Compute the signature for a canonical request.
+ * @param signedHeaders Lower-cased header names → values (must include host)
+ */
+async function sign(
+  config: S3Config,
+  method: string,
+  url: URL,
+  signedHeaders: Record<string, string>,
+  amzDate: string,
+  date: string,
+): Promise<{ signature: string; signedHeaderNames: string }> {
+  const names = Object.keys(signedHeaders).sort();
+  const canonicalHeaders = names.map((n) => `${n}:${signedHeaders[n].trim()}\n`).join("");
+  const signedHeaderNames = names.join(";");
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    url.search.replace(/^\?/, ""),
+    canonicalHeaders,
+    signedHeaderNames,
+    UNSIGNED_PAYLOAD,
+  ].join("\n");
+
+  const scope = `${date}/${config.region}/${SERVICE}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, await sha256Hex(canonicalRequest)].join("\n");
+  const signature = toHex(await hmac(await getSigningKey(config, date), stringToSign));
+
+  return { signature, signedHeaderNames };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Sign a request with an Authorization header.
+ * @returns Headers to send with fetch() (host is set by the browser)
+ */
+export async function signRequest(
+  config: S3Config,
+  method: string,
+  url: URL,
+  extraHeaders: Record<string, string> = {},
+): Promise<Record<string, string>> {
+  const { amzDate, date } = getTimestamps(new Date());
+
+  const headers: Record<string, string> = {
+    "x-amz-content-sha256": UNSIGNED_PAYLOAD,
+    "x-amz-date": amzDate,
+  };
+  for (const [name, value] of Object.entries(extraHeaders)) {
+    headers[name.toLowerCase()] = value;
+  }
+
+  const { signature, signedHeaderNames } = await sign(
+    config,
+    method,
+    url,
+    { ...headers, host: url.host },
+    amzDate,
+    date,
+  );
+
+  const scope = `${date}/${config.region}/${SERVICE}/aws4_request`;
+  headers.authorization =
+    `${ALGORITHM} Credential=${config.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaderNames}, Signature=${signature}`;
+  return headers;
+}
+
+/**
+ * Create a presigned URL (only `host` is signed, so the caller may send
+ * any Content-Type).
+ */
+export async function presignUrl(
+  config: S3Config,
+  method: string,
+  key: string,
+  query: Record<string, string> = {},
+  expiresIn = DEFAULT_PRESIGN_EXPIRY_SECONDS,
+): Promise<string> {
+  const { amzDate, date } = getTimestamps(new Date());
+  const scope = `${date}/${config.region}/${SERVICE}/aws4_request`;
+
+  const url = objectUrl(config, key, {
+    ...query,
+    "X-Amz-Algorithm": ALGORITHM,
+    "X-Amz-Credential": `${config.accessKeyId}/${scope}`,
+    "X-Amz-Date": amzDate,
+    "X-Amz-Expires": String(expiresIn),
+    "X-Amz-SignedHeaders": "host",
+  });
+
+  const { signature } = await sign(config, method, url, { host: url.host }, amzDate, date);
+  url.search = `${url.search.replace(/^\?/, "")}&X-Amz-Signature=${signature}`;
+  return url.href;
+}
@@ -0,0 +1,31 @@
+/**
+ * What the service worker and the page share about streaming playback.
+ *
+ * A cloud video can't go straight into <video src>: every provider needs an
+ * Authorization header or a signature the element can't send, and encrypted
+ * videos need decrypting. So the page points the element at a same-origin
+ * stream URL, and the service worker answers the element's range requests
+ * by asking the page, which reads the bytes from the provider
+ * (see stream.ts).
+ *
+ * Kept free of app imports — it's bundled into the service worker too.
+ */
+
+/** Stream URLs are this path plus the stream ID */
+export const STREAM_PATH = "/__vidlog-stream/";
+
+/** Most bytes one range response carries — the element asks again for more */
+export const MAX_RANGE_SIZE = 2 * 1024 * 1024;
+
+/** The service worker asks the page for bytes [start, end) of a stream */
+export interface StreamRangeRequest {
+  type: "stream-range";
+  streamId: string;
+  start: number;
+  end: number;
+}
+
+/** The page's answer, posted back on the port sent with the request */
+export type StreamRangeReply =
+  | { ok: true; bytes: ArrayBuffer; totalSize: number; mimeType: string }
+  | { ok: false; status: number; error: string };
@@ -0,0 +1,208 @@
+import type { CloudFileRef, ICloudProvider, VideoRange } from "./types";
+import { generateId } from "~/utils/id";
+import {
+  STREAM_PATH,
+  type StreamRangeReply,
+  type StreamRangeRequest,
+} from "./stream-protocol";
+
+/**
+ * Streaming playback of cloud videos — the page side.
+ *
+ * Instead of downloading a whole video before it plays, the player gets a
+ * same-origin stream URL. The service worker (src/sw.ts) turns the
+ * element's range requests into messages; this module answers them with
+ * the provider's readVideoRange(), so playback starts after the first
+ * block and a seek fetches only the blocks around the new position.
+ *
+ * Bytes are read in whole blocks. A video small enough keeps every block it
+ * fetched, so once it has played to the end it can be saved on this device
+ * without downloading it again (see assemble()); larger ones keep only the
+ * most recent blocks.
+ *
+ * Without a service worker controlling the page (first visit, development
+ * server) or a provider that reads ranges, open() returns null and playback
+ * downloads the whole video as before.
+ *
+ * openReader() streams from any source of ranges — e.g. a video sealed in
+ * the local vault, decrypted only where the player reads it.
+ */
+
+/** Bytes per block — the encryption chunk size, so encrypted reads decrypt whole chunks */
+const BLOCK_SIZE = 1024 * 1024;
+
+/** Videos up to this size keep every block they fetch */
+const MAX_KEPT_SIZE = 200 * 1024 * 1024;
+
+/** How many blocks larger videos keep, for the element's overlapping requests */
+const RECENT_BLOCKS = 8;
+
+/** Reads bytes [start, end) of a video */
+export type RangeReader = (start: number, end: number) => Promise<VideoRange>;
+
+interface Stream {
+  read: RangeReader;
+  mimeType: string;
+  totalSize: number;
+  blocks: Map<number, Uint8Array<ArrayBuffer>>;
+}
+
+export interface CloudStream {
+  /** Same-origin URL for <video src> */
+  url: string;
+  /** Size of the video */
+  totalSize: number;
+  /**
+   * The whole video, once every byte of it has been fetched.
+   * @returns null while parts are missing, or if the video is too large to keep
+   */
+  assemble(): Blob | null;
+  /** Stop answering for the stream and drop its bytes */
+  close(): void;
+}
+
+const streams = new Map<string, Stream>();
+
+function blockCount(stream: Stream): number {
+  return Math.ceil(stream.totalSize / BLOCK_SIZE);
+}
+
+/** Keep a block — all of them for small videos, the most recent otherwise */
+function keepBlock(stream: Stream, index: number, block: Uint8Array<ArrayBuffer>): void {
+  stream.blocks.delete(index);
+  stream.blocks.set(index, block);
+  if (stream.totalSize <= MAX_KEPT_SIZE) return;
+  while (stream.blocks.size > RECENT_BLOCKS) {
+    const oldest = stream.blocks.keys().next().value as number;
+    stream.blocks.delete(oldest);
+  }
+}
+
+/**
+ * Get blocks first..last, fetching the missing ones — one request per run
+ * of consecutive missing blocks.
+ */
+async function readBlocks(
+  stream: Stream,
+  first: number,
+  last: number,
+): Promise<Uint8Array<ArrayBuffer>[]> {
+  const blocks: Uint8Array<ArrayBuffer>[] = [];
+  let index = first;
+  while (index <= last) {
+    const kept = stream.blocks.get(index);
+    if (kept) {
+      keepBlock(stream, index, kept);
+      blocks.push(kept);
+      index++;
+      continue;
+    }
+
+    let runEnd = index;
+    while (runEnd < last && !stream.blocks.has(runEnd + 1)) runEnd++;
+    const { bytes, totalSize } = await stream.read(index * BLOCK_SIZE, (runEnd + 1) * BLOCK_SIZE);
+    stream.totalSize = totalSize;
+    for (let i = index; i <= runEnd; i++) {
+      const block = bytes.slice((i - index) * BLOCK_SIZE, (i - index + 1) * BLOCK_SIZE);
+      if (block.length === 0) break;
+      keepBlock(stream, i, block);
+      blocks.push(block);
+    }
+    index = runEnd + 1;
+  }
+  return blocks;
+}
+
+async function answer(request: StreamRangeRequest): Promise<StreamRangeReply> {
+  const stream = streams.get(request.streamId);
+  if (!stream) {
+    return { ok: false, status: 404, error: "Stream closed" };
+  }
+  // Nothing to read — the service worker answers with the video's size
+  if (request.start >= stream.totalSize) {
+    return { ok: true, bytes: new ArrayBuffer(0), totalSize: stream.totalSize, mimeType: stream.mimeType };
+  }
+
+  const start = request.start;
+  const end = Math.min(request.end, stream.totalSize);
+  try {
+    const first = Math.floor(start / BLOCK_SIZE);
+    const blocks = await readBlocks(stream, first, Math.ceil(end / BLOCK_SIZE) - 1);
+
+    // Cut the requested bytes out of the blocks covering them
+    const bytes = new Uint8Array(end - start);
+    blocks.forEach((block, i) => {
+      const blockStart = (first + i) * BLOCK_SIZE;
+      const from = Math.max(start, blockStart);
+      const to = Math.min(end, blockStart + block.length);
+      if (to > from) bytes.set(block.subarray(from - blockStart, to - blockStart), from - start);
+    });
+    return { ok: true, bytes: bytes.buffer, totalSize: stream.totalSize, mimeType: stream.mimeType };
+  } catch (err) {
+    console.warn("[CloudStream] Failed to read range:", err);
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return { ok: false, status: 502, error: msg };
+  }
+}
+
+if ("serviceWorker" in navigator) {
+  navigator.serviceWorker.addEventListener("message", (event) => {
+    const data = event.data as StreamRangeRequest | undefined;
+    const port = event.ports[0];
+    if (data?.type !== "stream-range" || !port) return;
+    void answer(data).then((reply) => {
+      port.postMessage(reply, reply.ok ? [reply.bytes] : []);
+    });
+  });
+}
+
+export const cloudStreaming = {
+  /**
+   * Start streaming a cloud video. The first block is read right away —
+   * playback needs it first, and it tells the video's size.
+   * @returns The stream, or null if this page or provider can't stream
+   * @throws If the first block can't be read
+   */
+  async open(provider: ICloudProvider, fileRef: CloudFileRef): Promise<CloudStream | null> {
+    if (!provider.readVideoRange) return null;
+    return cloudStreaming.openReader(
+      (start, end) => provider.readVideoRange!(fileRef, start, end),
+      fileRef.mimeType,
+    );
+  },
+
+  /**
+   * Start streaming a video from any source of ranges, the same way.
+   * @returns The stream, or null if this page can't stream
+   * @throws If the first block can't be read
+   */
+  async openReader(read: RangeReader, mimeType: string): Promise<CloudStream | null> {
+    if (!navigator.serviceWorker?.controller) return null;
+
+    const stream: Stream = { read, mimeType, totalSize: BLOCK_SIZE, blocks: new Map() };
+    await readBlocks(stream, 0, 0);
+
+    const streamId = generateId();
+    streams.set(streamId, stream);
+    return {
+      url: `${STREAM_PATH}${streamId}`,
+      get totalSize() {
+        return stream.totalSize;
+      },
+      assemble() {
+        if (stream.totalSize > MAX_KEPT_SIZE || stream.blocks.size < blockCount(stream)) return null;
+        const parts: Uint8Array<ArrayBuffer>[] = [];
+        for (let i = 0; i < blockCount(stream); i++) {
+          const block = stream.blocks.get(i);
+          if (!block) return null;
+          parts.push(block);
+        }
+        return new Blob(parts, { type: mimeType });
+      },
+      close() {
+        streams.delete(streamId);
+        stream.blocks.clear();
+      },
+    };
+  },
+};
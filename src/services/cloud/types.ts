@@ -1,11 +1,11 @@
-import type { DiaryEntry, DiaryEntryMeta } from "~/models/types";
+import type { DiaryEntry, DiaryEntryMeta, SyncField } from "~/models/types";
 
 // ---------------------------------------------------------------------------
 // Cloud Provider Types
 // ---------------------------------------------------------------------------
 
 /** Supported cloud provider identifiers */
-export type CloudProviderType = "google-drive";
+export type CloudProviderType = "google-drive" | "webdav" | "s3";
 
 /** Reference to a file stored in a cloud provider */
 export interface CloudFileRef {
@@ -25,8 +25,25 @@ export type CloudSyncEntryStatus =
   | "cloud-only"  // metadata is local but video exists only in cloud
   | "failed";     // last upload attempt failed
 
-/** Cloud sync metadata attached to a diary entry */
+/**
+ * A cloud account or server the app syncs with. Several can be connected at
+ * once (e.g. a personal and a work Drive); each has its own sign-in,
+ * folder, encryption and queue (see connections.ts).
+ */
+export interface CloudConnection {
+  id: string;
+  provider: CloudProviderType;
+  /** Name shown in Settings and on entries — empty for the provider's name */
+  label: string;
+  /** Whether auto-sync uploads entries here (pinned ones included) */
+  autoSync: boolean;
+  createdAt: number;
+}
+
+/** Cloud sync metadata attached to a diary entry — one per cloud connection */
 export interface CloudSyncInfo {
+  /** The cloud connection this copy lives in */
+  connectionId: string;
   provider: CloudProviderType;
   /** Reference to the video file in cloud — null until upload completes */
   videoFileRef: CloudFileRef | null;
@@ -37,17 +54,122 @@ export interface CloudSyncInfo {
   status: CloudSyncEntryStatus;
   /** Error message from last failed attempt, if any */
   lastError?: string;
+  /**
+   * Content hash per synced field as of the last sync — the common ancestor
+   * two-way sync compares both copies against (see reconcile.ts)
+   */
+  baseHashes?: Partial<Record<SyncField, string>>;
+  /** When the local video was removed to free space (see storage/offload.ts) */
+  offloadedAt?: number;
 }
 
 /** Upload progress for a single entry */
 export interface UploadProgress {
   entryId: string;
+  /** Connection the upload goes to, when the caller tracks several */
+  connectionId?: string;
   bytesUploaded: number;
   bytesTotal: number;
   /** 0–1 fraction */
   fraction: number;
 }
 
+/**
+ * A resumable upload session, recorded in the sync queue so an interrupted
+ * upload continues where it stopped — after a network drop or a reload —
+ * instead of starting over.
+ */
+export interface UploadSession {
+  /** Where the rest of the bytes go (Drive: the resumable session URI) */
+  url: string;
+  /** Bytes the server has confirmed receiving */
+  bytesConfirmed: number;
+  /** Size of the upload — a session only continues the same bytes */
+  bytesTotal: number;
+  /** When the server forgets the session */
+  expiresAt: number;
+  /**
+   * Nonce prefix (Base64) of an encrypted upload — resuming has to produce
+   * the exact ciphertext the server already has (see encryption.ts)
+   */
+  cipherNonce?: string;
+}
+
+/**
+ * How uploadVideo() resumes. Providers that can resume report a session via
+ * onSession when it opens and whenever the server confirms more bytes; given
+ * a usable session (same size, not expired) they ask the server what it has
+ * committed and send only the rest. Providers that can't resume ignore it
+ * and start over.
+ */
+export interface UploadResume {
+  /** Session from an earlier attempt, if any */
+  session: UploadSession | null;
+  /** Persist the session — it's what the next attempt resumes from */
+  onSession: (session: UploadSession) => void;
+}
+
+/**
+ * The bytes of a video upload. Providers read them a part at a time, so a
+ * body made on the fly — an encrypted upload (see encryption.ts) — never
+ * has to exist whole.
+ */
+export interface UploadBody {
+  /** Size of the upload */
+  size: number;
+  /** Bytes [start, end) */
+  read(start: number, end: number): Promise<Blob>;
+}
+
+/** An upload body reading straight from a blob */
+export function blobBody(blob: Blob): UploadBody {
+  return { size: blob.size, read: async (start, end) => blob.slice(start, end) };
+}
+
+/**
+ * A video upload ready to hand to the service worker (Background Fetch).
+ * It must not need the page: no tokens that expire before it runs, no
+ * callbacks — e.g. a PUT to a pre-authorized upload session.
+ */
+export interface BackgroundUploadRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** The bytes to send, as stored in the cloud (already encrypted if encryption is on) */
+  body: Blob;
+}
+
+/** Bytes read from part of a cloud video */
+export interface VideoRange {
+  bytes: Uint8Array<ArrayBuffer>;
+  /** Size of the whole video */
+  totalSize: number;
+}
+
+/** A checksum a provider keeps for a stored file */
+export interface CloudChecksum {
+  /**
+   * - md5, sha256: hex digest of the stored bytes
+   * - s3-etag: an S3 ETag — the MD5 of a single-part upload, or the MD5 of
+   *   the parts' MD5s plus "-<parts>" for a multipart one
+   */
+  algorithm: "md5" | "sha256" | "s3-etag";
+  value: string;
+  /** Part size the file was uploaded in (multipart s3-etag only) */
+  partSize?: number;
+}
+
+/** A video file as its provider lists it, for verifying backups */
+export interface CloudVideoInfo {
+  /** Entry the file belongs to, from its name */
+  entryId: string;
+  fileRef: CloudFileRef;
+  /** Stored size in bytes — the ciphertext's when encrypted */
+  size: number;
+  /** The provider's checksum of the stored bytes — null if it keeps none */
+  checksum: CloudChecksum | null;
+}
+
 /** Overall sync status */
 export type SyncStatus = "idle" | "syncing" | "error";
 
@@ -59,19 +181,26 @@ export interface SyncProgress {
   total: number;
   /** Currently uploading entry ID */
   currentEntryId: string | null;
+  /** Connection the current entry is uploading to */
+  currentConnectionId: string | null;
   /** Upload progress for the current entry */
   uploadProgress: UploadProgress | null;
 }
 
-/** Item in the persistent sync queue */
+/** Item in the persistent sync queue — an entry to upload to one connection */
 export interface SyncQueueItem {
   entryId: string;
+  connectionId: string;
   /** When this item was added to the queue */
   queuedAt: number;
   /** Number of failed attempts */
   retryCount: number;
   /** Timestamp of last attempt */
   lastAttemptAt: number | null;
+  /** When the video was handed to the service worker — set while it uploads there */
+  backgroundSince?: number;
+  /** Resumable session of the last attempt (see UploadResume) */
+  session?: UploadSession;
 }
 
 /** Cloud storage quota info */
@@ -81,6 +210,58 @@ export interface CloudQuota {
   usagePercent: number;
 }
 
+/**
+ * Entry metadata as stored in the cloud when end-to-end encryption is on.
+ * Only the ID stays readable (providers use it to pair metadata with videos).
+ */
+export interface EncryptedMetaEnvelope {
+  id: string;
+  /** Base64 encrypted container of the DiaryEntryMeta JSON */
+  encrypted: string;
+}
+
+/**
+ * Left in place of an entry's metadata when the entry is deleted, so other
+ * devices delete their copy instead of keeping it. Removed after a while
+ * (see TOMBSTONE_TTL in manager.ts).
+ */
+export interface CloudTombstone {
+  id: string;
+  deleted: true;
+  deletedAt: number;
+}
+
+/** What a provider stores per entry — plain or encrypted metadata, or a tombstone */
+export type CloudMetaPayload = DiaryEntryMeta | EncryptedMetaEnvelope | CloudTombstone;
+
+/** Narrow a cloud metadata payload to the encrypted form */
+export function isEncryptedMeta(meta: CloudMetaPayload): meta is EncryptedMetaEnvelope {
+  return typeof (meta as EncryptedMetaEnvelope).encrypted === "string";
+}
+
+/** Narrow a cloud metadata payload to a tombstone */
+export function isTombstone(meta: CloudMetaPayload): meta is CloudTombstone {
+  return (meta as CloudTombstone).deleted === true;
+}
+
+/** The fields of an entry that two-way sync merges */
+export type SyncedFields = Pick<DiaryEntryMeta, SyncField>;
+
+/** An entry changed on this device and in the cloud since they last synced */
+export interface SyncConflict {
+  entryId: string;
+  /** Connection whose copy conflicts */
+  connectionId: string;
+  /** Local title, for display */
+  title: string;
+  /** Fields changed on both sides */
+  fields: SyncField[];
+  local: SyncedFields;
+  /** The cloud's version — null if the entry was deleted in the cloud */
+  remote: SyncedFields | null;
+  detectedAt: number;
+}
+
 // ---------------------------------------------------------------------------
 // Cloud Provider Interface
 // ---------------------------------------------------------------------------
@@ -96,6 +277,9 @@ export interface ICloudProvider {
   /** Provider identifier */
   readonly name: CloudProviderType;
 
+  /** The connection this instance serves — its auth, folder and settings */
+  readonly connectionId: string;
+
   /** Whether the user is currently authenticated (reactive signal) */
   readonly isAuthenticated: () => boolean;
 
@@ -119,21 +303,46 @@ export interface ICloudProvider {
   // -- Video operations -----------------------------------------------------
 
   /**
-   * Upload a video blob to cloud storage.
+   * Upload a video to cloud storage.
    * Uses resumable upload for large files.
    * @param entryId Unique entry identifier used as the file name
-   * @param blob Video blob to upload
+   * @param body Video to upload — read a part at a time
    * @param mimeType MIME type of the video
    * @param onProgress Optional callback for upload progress
+   * @param resume Session to continue and where to report new ones — see
+   *   UploadResume for what a provider that can resume must do
    * @returns Reference to the uploaded file
    */
   uploadVideo(
     entryId: string,
-    blob: Blob,
+    body: UploadBody,
     mimeType: string,
     onProgress?: (progress: UploadProgress) => void,
+    resume?: UploadResume,
   ): Promise<CloudFileRef>;
 
+  /**
+   * Prepare a video upload the service worker can run without the page
+   * (see background.ts). Optional — providers that can't leave it return
+   * null or don't implement it, and the upload runs in the page.
+   * Resumes the same way uploadVideo() does: the request sends only what
+   * the server doesn't have yet.
+   * @returns The request to send, or null to upload in the page instead
+   */
+  prepareBackgroundUpload?(
+    entryId: string,
+    blob: Blob,
+    mimeType: string,
+    resume?: UploadResume,
+  ): Promise<BackgroundUploadRequest | null>;
+
+  /**
+   * Turn the response to a prepareBackgroundUpload() request into a file reference.
+   * @param responseBody Body of the server's response
+   * @throws If the response doesn't describe an uploaded file
+   */
+  completeBackgroundUpload?(mimeType: string, responseBody: string): CloudFileRef;
+
   /**
    * Download a video blob from cloud storage.
    * @param fileRef Reference to the cloud file
@@ -141,15 +350,33 @@ export interface ICloudProvider {
    */
   downloadVideo(fileRef: CloudFileRef): Promise<Blob>;
 
+  /**
+   * Read part of a video with an HTTP range request, for streaming playback
+   * (see stream.ts). Optional — without it, playback downloads the whole
+   * video first via getVideoStreamUrl().
+   * @param start First byte to read
+   * @param end Byte after the last one to read — clamped to the video's size
+   * @throws If the range starts past the end of the video
+   */
+  readVideoRange?(fileRef: CloudFileRef, start: number, end: number): Promise<VideoRange>;
+
   /**
    * Get a URL that can be used as a <video> src for playback.
-   * Downloads the video and returns a local object URL. Caller must
-   * revoke the URL via URL.revokeObjectURL() when done.
+   * Downloads the whole video and returns a local object URL — the fallback
+   * when playback can't stream (no service worker, or no readVideoRange()).
+   * Caller must revoke the URL via URL.revokeObjectURL() when done.
    * @param fileRef Reference to the cloud file
    * @returns A blob: URL string suitable for <video src="...">
    */
   getVideoStreamUrl(fileRef: CloudFileRef): Promise<string>;
 
+  /**
+   * List every video file in the connection's folder with its size and
+   * checksum, for verifying backups (see verify.ts). Optional — without
+   * it, the connection's backups can't be verified.
+   */
+  listVideos?(): Promise<CloudVideoInfo[]>;
+
   /**
    * Delete a video from cloud storage.
    * @param fileRef Reference to the cloud file
@@ -161,10 +388,10 @@ export interface ICloudProvider {
   /**
    * Upload entry metadata (JSON) to cloud storage.
    * @param entryId Entry identifier
-   * @param meta Serializable metadata
+   * @param meta Serializable metadata (or its encrypted envelope)
    * @returns Reference to the uploaded metadata file
    */
-  uploadMeta(entryId: string, meta: DiaryEntryMeta): Promise<CloudFileRef>;
+  uploadMeta(entryId: string, meta: CloudMetaPayload): Promise<CloudFileRef>;
 
   /**
    * Download all entry metadata from cloud storage.
@@ -172,7 +399,7 @@ export interface ICloudProvider {
    * @returns Array of metadata objects with their cloud file references
    */
   downloadAllMeta(): Promise<
-    Array<{ meta: DiaryEntryMeta; metaFileRef: CloudFileRef; videoFileRef: CloudFileRef | null }>
+    Array<{ meta: CloudMetaPayload; metaFileRef: CloudFileRef; videoFileRef: CloudFileRef | null }>
   >;
 
   /**
@@ -181,6 +408,20 @@ export interface ICloudProvider {
    */
   deleteMeta(fileRef: CloudFileRef): Promise<void>;
 
+  // -- App data -------------------------------------------------------------
+
+  /**
+   * Store a small app-level file next to the entries (e.g. the encryption
+   * key check). Overwrites any existing file with the same name.
+   */
+  uploadAppData(name: string, content: string): Promise<void>;
+
+  /**
+   * Read a file written by uploadAppData().
+   * @returns The content, or null if the file doesn't exist
+   */
+  downloadAppData(name: string): Promise<string | null>;
+
   // -- Quota ----------------------------------------------------------------
 
   /**
@@ -193,4 +434,4 @@ export interface ICloudProvider {
 // ---------------------------------------------------------------------------
 // Re-export model types used by cloud consumers
 // ---------------------------------------------------------------------------
-export type { DiaryEntry, DiaryEntryMeta };
+export type { DiaryEntry, DiaryEntryMeta, SyncField };
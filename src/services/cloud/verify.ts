@@ -0,0 +1,316 @@
+import { createSignal } from "solid-js";
+import type { DiaryEntry } from "~/models/types";
+import type { CloudVideoInfo, ICloudProvider } from "./types";
+import { isEncryptedMeta, isTombstone } from "./types";
+import { cloudSyncManager } from "./manager";
+import { cloudEncryption } from "./encryption";
+import { cloudConnections } from "./connections";
+import { getConnectionLabel } from "./registry";
+import { isCloudOnly, syncRecord } from "./records";
+import { matchesChecksum } from "./checksum";
+import { containerSize } from "~/services/crypto/cipher";
+import { storageManager } from "~/services/storage/manager";
+import { formatBytes } from "~/utils/format";
+
+/**
+ * Verifying cloud backups.
+ *
+ * A "synced" record only says an upload once finished — not that the file
+ * is still there, or that all of it arrived. Verifying lists each signed-in
+ * connection's videos (with the size and checksum the provider keeps) and
+ * metadata, and checks every copy the entries' records point to against
+ * this device's:
+ *
+ * - missing-video: the record says synced, the connection has no video
+ * - mismatch:      the sizes or checksums differ
+ * - missing-local: the entry should have its video here, but it's gone
+ * - missing-meta:  the video is there, its metadata file isn't
+ * - stale-meta:    the metadata or the record's file references are out of
+ *                  date with the files actually there
+ * - orphan:        a video no entry here or in the cloud belongs to
+ *
+ * Checksums are computed locally the way the provider computed its own
+ * (see checksum.ts). Encrypted copies can only be checked by size — the
+ * provider's checksum is of the ciphertext. WebDAV keeps no checksums, so
+ * its copies are checked by size too.
+ */
+
+export type VerifyIssueKind =
+  | "missing-video"
+  | "mismatch"
+  | "missing-local"
+  | "missing-meta"
+  | "stale-meta"
+  | "orphan";
+
+/**
+ * - reupload:    upload the entry again (just its metadata for missing-meta
+ *                and stale-meta)
+ * - redownload:  replace this device's video with the cloud copy
+ * - delete:      delete an orphan video from the cloud
+ * - mark-failed: mark the copy failed, so the next sync uploads it again
+ */
+export type VerifyFix = "reupload" | "redownload" | "delete" | "mark-failed";
+
+export const VERIFY_FIX_LABELS: Record<VerifyFix, string> = {
+  reupload: "Re-upload",
+  redownload: "Re-download",
+  delete: "Delete",
+  "mark-failed": "Mark Failed",
+};
+
+export interface VerifyIssue {
+  kind: VerifyIssueKind;
+  connectionId: string;
+  /** Entry the issue is about — for orphans, the one the file is named after */
+  entryId: string;
+  /** Entry title, for display */
+  title: string;
+  /** What's wrong, for the report */
+  detail: string;
+  /** Fixes that apply, the recommended one first */
+  fixes: VerifyFix[];
+  /** The cloud video involved, if the connection has one */
+  video: CloudVideoInfo | null;
+}
+
+export interface VerifyReport {
+  finishedAt: number;
+  /** Copies checked, across connections */
+  checked: number;
+  /** Connections that couldn't be checked, and why */
+  skipped: Array<{ connectionId: string; reason: string }>;
+  issues: VerifyIssue[];
+}
+
+export interface VerifyProgress {
+  done: number;
+  total: number;
+}
+
+const [running, setRunning] = createSignal(false);
+const [progress, setProgress] = createSignal<VerifyProgress | null>(null);
+const [report, setReport] = createSignal<VerifyReport | null>(null);
+
+/** Whether an entry's record for a connection says the connection has its video */
+function claimsCopy(entry: DiaryEntry, connectionId: string): boolean {
+  const status = syncRecord(entry, connectionId)?.status;
+  return status === "synced" || status === "cloud-only";
+}
+
+/** Why a connection can't be verified right now — null if it can */
+function skipReason(connectionId: string): string | null {
+  const p = cloudSyncManager.provider(connectionId);
+  if (!p?.isAuthenticated()) return "Signed out";
+  if (cloudEncryption.isLocked(connectionId)) return "Locked — enter the passphrase first";
+  if (!p.listVideos) return "Can't list its files";
+  return null;
+}
+
+/**
+ * What's wrong with a cloud copy of a local video.
+ * @returns null if it matches
+ */
+async function compareCopy(blob: Blob, video: CloudVideoInfo, encrypted: boolean): Promise<string | null> {
+  if (encrypted && video.size === containerSize(blob.size)) return null;
+  if (video.size !== blob.size) {
+    return `Size differs — ${formatBytes(video.size)} in the cloud, ${formatBytes(blob.size)} here`;
+  }
+  if (video.checksum && !(await matchesChecksum(blob, video.checksum))) {
+    return `${video.checksum.algorithm === "sha256" ? "SHA-256" : "MD5"} checksum differs from this device's copy`;
+  }
+  return null;
+}
+
+/** Check one connection's copies of the given entries, and look for orphans */
+async function verifyConnection(
+  p: ICloudProvider,
+  entries: DiaryEntry[],
+  onChecked: () => void,
+): Promise<VerifyIssue[]> {
+  const connectionId = p.connectionId;
+  const [videos, metas] = await Promise.all([p.listVideos!(), p.downloadAllMeta()]);
+  const videoById = new Map(videos.map((v) => [v.entryId, v]));
+  const metaById = new Map(metas.map((m) => [m.meta.id, m]));
+  const encrypted = cloudEncryption.isEnabled(connectionId);
+  const issues: VerifyIssue[] = [];
+
+  for (const entry of entries) {
+    if (!claimsCopy(entry, connectionId)) continue;
+    const record = syncRecord(entry, connectionId)!;
+    const listed = videoById.get(entry.id);
+    // Encrypted videos are stored with a generic type — downloads need the real one
+    const video = listed ? { ...listed, fileRef: { ...listed.fileRef, mimeType: entry.mimeType } } : null;
+    const flag = (kind: VerifyIssueKind, detail: string, fixes: VerifyFix[]) =>
+      issues.push({ kind, connectionId, entryId: entry.id, title: entry.title, detail, fixes, video });
+
+    try {
+      if (!video) {
+        flag(
+          "missing-video",
+          "The video isn't in the cloud",
+          isCloudOnly(entry) ? ["mark-failed"] : ["reupload", "mark-failed"],
+        );
+        continue;
+      }
+
+      if (!isCloudOnly(entry)) {
+        const blob = entry.videoBlob ?? (await storageManager.loadVideoBlob(entry).catch(() => null));
+        if (!blob) {
+          flag("missing-local", "The video is missing on this device", ["redownload", "mark-failed"]);
+          continue;
+        }
+        const problem = await compareCopy(blob, video, encrypted);
+        if (problem) {
+          flag("mismatch", problem, ["reupload", "redownload", "mark-failed"]);
+          continue;
+        }
+      }
+
+      const meta = metaById.get(entry.id);
+      if (!meta) {
+        flag("missing-meta", "The metadata file isn't in the cloud", ["reupload"]);
+      } else if (isTombstone(meta.meta) || isEncryptedMeta(meta.meta)) {
+        // Deleted on another device (the next reconcile deletes it here), or undecryptable
+        continue;
+      } else if (
+        record.metaFileRef?.fileId !== meta.metaFileRef.fileId ||
+        record.videoFileRef?.fileId !== video.fileRef.fileId
+      ) {
+        flag("stale-meta", "The entry points at cloud files that were replaced", ["reupload"]);
+      } else if (meta.meta.duration !== entry.duration || meta.meta.mimeType !== entry.mimeType) {
+        flag("stale-meta", "The cloud metadata doesn't describe the video", ["reupload"]);
+      }
+    } finally {
+      onChecked();
+    }
+  }
+
+  // Videos no entry belongs to — here or in the cloud metadata
+  const local = new Set(entries.map((e) => e.id));
+  for (const video of videos) {
+    const meta = metaById.get(video.entryId);
+    if (local.has(video.entryId) || (meta && !isTombstone(meta.meta))) continue;
+    issues.push({
+      kind: "orphan",
+      connectionId,
+      entryId: video.entryId,
+      title: meta ? "Deleted entry" : "Unknown video",
+      detail: `${formatBytes(video.size)} video no entry belongs to`,
+      fixes: ["delete"],
+      video,
+    });
+  }
+
+  return issues;
+}
+
+/** A connection's provider for a fix, signed in and unlocked */
+function requireProvider(connectionId: string): ICloudProvider {
+  const p = cloudSyncManager.readyProvider(connectionId);
+  if (!p) {
+    throw new Error(`Connect to ${getConnectionLabel(cloudConnections.get(connectionId))} first`);
+  }
+  return p;
+}
+
+/** Replace this device's copy of an entry's video with the connection's */
+async function redownload(issue: VerifyIssue): Promise<void> {
+  const p = requireProvider(issue.connectionId);
+  const { diaryStore } = await import("~/stores/diary");
+  const entry = diaryStore.entries().find((e) => e.id === issue.entryId);
+  if (!entry || !issue.video) return;
+
+  const blob = await p.downloadVideo(issue.video.fileRef);
+  // Write the video through storage, then refresh the in-memory entry
+  await storageManager.update(entry, { videoBlob: blob });
+  await diaryStore.updateEntry(entry.id, {
+    videoBlob: storageManager.getProviderForEntry(entry).capabilities.lazyBlobs ? null : blob,
+  });
+}
+
+export const backupVerifier = {
+  /** Whether verification is running (reactive) */
+  running,
+  /** Copies checked so far in the running verification (reactive) */
+  progress,
+  /** Result of the last verification, minus issues fixed since (reactive) */
+  report,
+
+  /**
+   * Verify every signed-in connection's copies.
+   * @returns The report — also kept in report()
+   */
+  async run(): Promise<VerifyReport> {
+    if (running()) throw new Error("Verification is already running");
+    const { diaryStore } = await import("~/stores/diary");
+    const entries = diaryStore.entries();
+    const skipped: VerifyReport["skipped"] = [];
+    const targets: ICloudProvider[] = [];
+    for (const connection of cloudConnections.list()) {
+      const reason = skipReason(connection.id);
+      if (reason) skipped.push({ connectionId: connection.id, reason });
+      else targets.push(cloudSyncManager.provider(connection.id)!);
+    }
+
+    const total = targets.reduce(
+      (sum, p) => sum + entries.filter((e) => claimsCopy(e, p.connectionId)).length,
+      0,
+    );
+    let done = 0;
+    const issues: VerifyIssue[] = [];
+
+    setRunning(true);
+    setProgress({ done, total });
+    try {
+      for (const p of targets) {
+        try {
+          issues.push(...(await verifyConnection(p, entries, () => setProgress({ done: ++done, total }))));
+        } catch (err) {
+          console.warn(`[Verify] Failed to verify connection ${p.connectionId}:`, err);
+          const msg = err instanceof Error ? err.message : "Unknown error";
+          skipped.push({ connectionId: p.connectionId, reason: msg });
+        }
+      }
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+
+    const result: VerifyReport = { finishedAt: Date.now(), checked: done, skipped, issues };
+    setReport(result);
+    return result;
+  },
+
+  /**
+   * Apply a fix to an issue, and take the issue off the report.
+   * @throws If the connection is signed out or locked, or the fix fails
+   */
+  async fix(issue: VerifyIssue, fix: VerifyFix): Promise<void> {
+    switch (fix) {
+      case "reupload":
+        if ((issue.kind === "missing-meta" || issue.kind === "stale-meta") && issue.video) {
+          await cloudSyncManager.repairMeta(issue.entryId, issue.connectionId, issue.video.fileRef);
+        } else {
+          requireProvider(issue.connectionId);
+          cloudSyncManager.queueUpload(issue.entryId, issue.connectionId);
+        }
+        break;
+      case "redownload":
+        await redownload(issue);
+        break;
+      case "delete":
+        if (issue.video) await requireProvider(issue.connectionId).deleteVideo(issue.video.fileRef);
+        break;
+      case "mark-failed":
+        await cloudSyncManager.markFailed(issue.entryId, issue.connectionId, `Verification: ${issue.detail}`);
+        break;
+    }
+    setReport((prev) => prev && { ...prev, issues: prev.issues.filter((i) => i !== issue) });
+  },
+
+  /** Forget the last report */
+  clear(): void {
+    setReport(null);
+  },
+};
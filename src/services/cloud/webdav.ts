@@ -0,0 +1,607 @@
+/**
+ * WebDAV cloud provider implementation.
+ *
+ * Works with any RFC 4918 server (Nextcloud, ownCloud, Apache mod_dav,
+ * rclone serve webdav, ...). All files live in a flat collection under the
+ * configured server URL — the connection's folder, `VidLog/` by default:
+ * - Video:    `VidLog/video_{entryId}.{ext}`
+ * - Metadata: `VidLog/entry_{entryId}.json`
+ * - App data: `VidLog/app_{name}` (e.g. the encryption key check)
+ *
+ * CloudFileRef.fileId is the file name inside the folder.
+ *
+ * Videos larger than one chunk are uploaded with Nextcloud's chunked upload
+ * (v2) when the server URL points at `/remote.php/dav/files/{user}/`; other
+ * servers get a single PUT. Plain WebDAV has no standard way to send a file
+ * in parts or resume one, so that PUT is all or nothing — and an encrypted
+ * one has to be encrypted whole first. Videos over SINGLE_PUT_LIMIT are
+ * refused there rather than attempted. Both report progress via
+ * XMLHttpRequest; neither resumes after a failure.
+ *
+ * The server must send CORS headers for the app's origin — see README for
+ * testing against a local server through the dev proxy.
+ */
+
+import { createSignal, type Accessor, type Setter } from "solid-js";
+import { createWebDAVAuth, webdavAuth, type WebDAVAuth, type WebDAVConfig } from "./auth/webdav";
+import type {
+  ICloudProvider,
+  CloudConnection,
+  CloudFileRef,
+  CloudMetaPayload,
+  CloudQuota,
+  CloudVideoInfo,
+  UploadBody,
+  UploadProgress,
+  VideoRange,
+} from "./types";
+import { rangeHeader, readRangeResponse } from "./range";
+import { generateId } from "~/utils/id";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Nextcloud requires every chunk except the last to be 5 MB – 5 GB */
+const CHUNK_SIZE = 10 * 1024 * 1024;
+
+/** Largest video sent to a server without chunked uploads, in one PUT */
+const SINGLE_PUT_LIMIT = 1024 * 1024 * 1024;
+
+/** Matches a Nextcloud/ownCloud files URL, capturing the DAV root and user ID */
+const NEXTCLOUD_FILES_PATH = /^(.*\/remote\.php\/dav)\/files\/([^/]+)\//;
+
+/** Extension map from MIME type */
+function getExtension(mimeType: string): string {
+  if (mimeType.includes("mp4")) return "mp4";
+  if (mimeType.includes("webm")) return "webm";
+  return "webm";
+}
+
+/** Best-effort MIME type for a stored video when the server doesn't report one */
+function getMimeTypeForName(name: string): string {
+  return name.endsWith(".mp4") ? "video/mp4" : "video/webm";
+}
+
+// ---------------------------------------------------------------------------
+// WebDAV Helpers
+// ---------------------------------------------------------------------------
+
+function collectionUrl(config: WebDAVConfig): string {
+  const path = config.folder.split("/").map(encodeURIComponent).join("/");
+  return new URL(`${path}/`, config.serverUrl).href;
+}
+
+function fileUrl(config: WebDAVConfig, name: string): string {
+  return new URL(encodeURIComponent(name), collectionUrl(config)).href;
+}
+
+/**
+ * Make an authenticated request to the WebDAV server.
+ * Throws on any non-2xx status (207 Multi-Status counts as success).
+ */
+async function davFetch(
+  url: string,
+  options: RequestInit,
+  config: WebDAVConfig,
+): Promise<Response> {
+  const headers = new Headers(options.headers);
+  headers.set("Authorization", webdavAuth.getAuthHeader(config));
+
+  const response = await fetch(url, { ...options, headers, credentials: "omit" });
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => "");
+    throw new Error(
+      `WebDAV error ${response.status}: ${response.statusText}. ${errorBody}`,
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Send a request body with XMLHttpRequest so upload progress can be reported
+ * (fetch() has no upload progress events).
+ */
+function xhrSend(
+  method: string,
+  url: string,
+  body: Blob,
+  headers: Record<string, string>,
+  onProgress?: (loaded: number) => void,
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    for (const [key, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(key, value);
+    }
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`WebDAV error ${xhr.status}: ${xhr.statusText}. ${xhr.responseText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("WebDAV upload failed: network error"));
+    xhr.send(body);
+  });
+}
+
+interface DavResource {
+  /** Decoded last path segment */
+  name: string;
+  isCollection: boolean;
+  /** Properties from the 2xx propstat, keyed by local name */
+  props: Record<string, string>;
+}
+
+/**
+ * PROPFIND a resource and parse the multistatus response.
+ * @param props DAV: property local names to request
+ */
+async function propfind(
+  url: string,
+  depth: "0" | "1",
+  props: string[],
+  config: WebDAVConfig,
+): Promise<DavResource[]> {
+  const body =
+    `<?xml version="1.0" encoding="utf-8"?>` +
+    `<d:propfind xmlns:d="DAV:"><d:prop>` +
+    props.map((p) => `<d:${p}/>`).join("") +
+    `</d:prop></d:propfind>`;
+
+  const res = await davFetch(
+    url,
+    {
+      method: "PROPFIND",
+      headers: { Depth: depth, "Content-Type": "application/xml; charset=utf-8" },
+      body,
+    },
+    config,
+  );
+
+  const doc = new DOMParser().parseFromString(await res.text(), "application/xml");
+  const resources: DavResource[] = [];
+
+  for (const response of Array.from(doc.getElementsByTagNameNS("DAV:", "response"))) {
+    const href = response.getElementsByTagNameNS("DAV:", "href")[0]?.textContent ?? "";
+    const values: Record<string, string> = {};
+
+    // Properties the server doesn't know come back in a separate 404 propstat
+    for (const propstat of Array.from(response.getElementsByTagNameNS("DAV:", "propstat"))) {
+      const status = propstat.getElementsByTagNameNS("DAV:", "status")[0]?.textContent ?? "";
+      if (!/ 2\d\d /.test(`${status} `)) continue;
+      const prop = propstat.getElementsByTagNameNS("DAV:", "prop")[0];
+      for (const child of Array.from(prop?.children ?? [])) {
+        values[child.localName] = child.textContent ?? "";
+      }
+    }
+
+    const segments = href.replace(/\/$/, "").split("/");
+    resources.push({
+      name: decodeURIComponent(segments[segments.length - 1] ?? ""),
+      isCollection: response.getElementsByTagNameNS("DAV:", "collection").length > 0,
+      props: values,
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * Make sure the connection's collection exists, creating it if needed.
+ * Doubles as a credential check on sign-in.
+ */
+async function ensureCollection(config: WebDAVConfig): Promise<void> {
+  const url = collectionUrl(config);
+  const res = await fetch(url, {
+    method: "PROPFIND",
+    headers: { Authorization: webdavAuth.getAuthHeader(config), Depth: "0" },
+    credentials: "omit",
+  });
+
+  if (res.status === 404) {
+    await davFetch(url, { method: "MKCOL" }, config);
+  } else if (!res.ok) {
+    throw new Error(`WebDAV error ${res.status}: ${res.statusText}`);
+  }
+}
+
+/**
+ * Nextcloud chunked upload v2:
+ * 1. MKCOL a temporary upload collection
+ * 2. PUT numbered chunks into it
+ * 3. MOVE the virtual `.file` onto the destination to assemble them
+ */
+async function chunkedUpload(
+  config: WebDAVConfig,
+  davRoot: string,
+  userId: string,
+  targetUrl: string,
+  body: UploadBody,
+  onProgress: (loaded: number) => void,
+): Promise<void> {
+  const uploadDir = `${davRoot}/uploads/${userId}/vidlog-${generateId()}`;
+  const auth = webdavAuth.getAuthHeader(config);
+  const total = body.size.toString();
+
+  await davFetch(uploadDir, { method: "MKCOL", headers: { Destination: targetUrl } }, config);
+
+  try {
+    let offset = 0;
+    let index = 1;
+    while (offset < body.size) {
+      const chunk = await body.read(offset, offset + CHUNK_SIZE);
+      const chunkStart = offset;
+      await xhrSend(
+        "PUT",
+        `${uploadDir}/${String(index).padStart(5, "0")}`,
+        chunk,
+        { Authorization: auth, Destination: targetUrl, "OC-Total-Length": total },
+        (loaded) => onProgress(chunkStart + loaded),
+      );
+      offset += chunk.size;
+      index++;
+    }
+
+    await davFetch(
+      `${uploadDir}/.file`,
+      {
+        method: "MOVE",
+        headers: { Destination: targetUrl, "OC-Total-Length": total, Overwrite: "T" },
+      },
+      config,
+    );
+  } catch (err) {
+    // Drop the partial chunks so they don't count against the user's quota
+    await fetch(uploadDir, {
+      method: "DELETE",
+      headers: { Authorization: auth },
+      credentials: "omit",
+    }).catch(() => {});
+    throw err;
+  }
+}
+
+/** DELETE a file in the collection — a file that's already gone counts as deleted. */
+async function deleteFile(config: WebDAVConfig, name: string): Promise<void> {
+  const res = await fetch(fileUrl(config, name), {
+    method: "DELETE",
+    headers: { Authorization: webdavAuth.getAuthHeader(config) },
+    credentials: "omit",
+  });
+  if (!res.ok && res.status !== 404) {
+    throw new Error(`WebDAV error ${res.status}: ${res.statusText}`);
+  }
+}
+
+function describeConfig(config: WebDAVConfig): string {
+  try {
+    return `${config.username}@${new URL(config.serverUrl).host}`;
+  } catch {
+    return config.username;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// WebDAV Provider
+// ---------------------------------------------------------------------------
+
+export class WebDAVProvider implements ICloudProvider {
+  readonly name = "webdav" as const;
+  readonly connectionId: string;
+  readonly isAuthenticated: Accessor<boolean>;
+  readonly userDisplayName: Accessor<string | null>;
+  private readonly setAuthenticated: Setter<boolean>;
+  private readonly setDisplayName: Setter<string | null>;
+  private readonly auth: WebDAVAuth;
+  /** Whether the collection is known to exist for this session */
+  private collectionReady = false;
+
+  constructor(connection: CloudConnection) {
+    this.connectionId = connection.id;
+    this.auth = createWebDAVAuth(connection.id);
+    [this.isAuthenticated, this.setAuthenticated] = createSignal(false);
+    [this.userDisplayName, this.setDisplayName] = createSignal<string | null>(null);
+  }
+
+  private requireConfig(): WebDAVConfig {
+    const config = this.auth.getConfig();
+    if (!config) {
+      throw new Error("WebDAV server not configured. Set it in Settings.");
+    }
+    return config;
+  }
+
+  /** The config, once the collection is known to exist */
+  private async readyConfig(): Promise<WebDAVConfig> {
+    const config = this.requireConfig();
+    if (!this.collectionReady) {
+      await ensureCollection(config);
+      this.collectionReady = true;
+    }
+    return config;
+  }
+
+  // -- Auth -----------------------------------------------------------------
+
+  /** Verify the stored credentials and create the connection's collection. */
+  async signIn(): Promise<void> {
+    this.collectionReady = false;
+    const config = await this.readyConfig();
+    this.setAuthenticated(true);
+    this.setDisplayName(describeConfig(config));
+  }
+
+  async signOut(): Promise<void> {
+    this.auth.clearConfig();
+    this.collectionReady = false;
+    this.setAuthenticated(false);
+    this.setDisplayName(null);
+  }
+
+  async tryRestoreSession(): Promise<boolean> {
+    // Basic auth doesn't expire — a changed password surfaces as a 401 on sync
+    const config = this.auth.getConfig();
+    if (!config) return false;
+    this.setAuthenticated(true);
+    this.setDisplayName(describeConfig(config));
+    return true;
+  }
+
+  // -- Video operations -----------------------------------------------------
+
+  async uploadVideo(
+    entryId: string,
+    body: UploadBody,
+    mimeType: string,
+    onProgress?: (progress: UploadProgress) => void,
+  ): Promise<CloudFileRef> {
+    const config = await this.readyConfig();
+
+    const fileName = `video_${entryId}.${getExtension(mimeType)}`;
+    const targetUrl = fileUrl(config, fileName);
+
+    const reportProgress = (loaded: number) => {
+      onProgress?.({
+        entryId,
+        bytesUploaded: loaded,
+        bytesTotal: body.size,
+        fraction: body.size > 0 ? loaded / body.size : 1,
+      });
+    };
+
+    const nextcloud = new URL(config.serverUrl).href.match(NEXTCLOUD_FILES_PATH);
+    if (nextcloud && body.size > CHUNK_SIZE) {
+      await chunkedUpload(config, nextcloud[1], nextcloud[2], targetUrl, body, reportProgress);
+    } else if (body.size > SINGLE_PUT_LIMIT) {
+      throw new Error(
+        `Videos over ${SINGLE_PUT_LIMIT / 1024 / 1024 / 1024} GB can only be uploaded to Nextcloud — ` +
+          "this WebDAV server would take them in one request that can't resume",
+      );
+    } else {
+      await xhrSend(
+        "PUT",
+        targetUrl,
+        await body.read(0, body.size),
+        { Authorization: webdavAuth.getAuthHeader(config), "Content-Type": mimeType },
+        reportProgress,
+      );
+    }
+    reportProgress(body.size);
+
+    return {
+      provider: "webdav",
+      fileId: fileName,
+      mimeType,
+    };
+  }
+
+  async downloadVideo(fileRef: CloudFileRef): Promise<Blob> {
+    const config = this.requireConfig();
+    const res = await davFetch(fileUrl(config, fileRef.fileId), {}, config);
+    return res.blob();
+  }
+
+  async readVideoRange(fileRef: CloudFileRef, start: number, end: number): Promise<VideoRange> {
+    const config = this.requireConfig();
+    const url = fileUrl(config, fileRef.fileId);
+    const res = await davFetch(url, { headers: { Range: rangeHeader(start, end) } }, config);
+    return readRangeResponse(res, start, end, async () => {
+      const head = await davFetch(url, { method: "HEAD" }, config);
+      return parseInt(head.headers.get("Content-Length") ?? "0", 10);
+    });
+  }
+
+  async getVideoStreamUrl(fileRef: CloudFileRef): Promise<string> {
+    // <video> can't send an Authorization header, so download first and
+    // hand out a local object URL (same approach as Google Drive)
+    const blob = await this.downloadVideo(fileRef);
+    return URL.createObjectURL(blob);
+  }
+
+  async listVideos(): Promise<CloudVideoInfo[]> {
+    const config = await this.readyConfig();
+    const resources = await propfind(collectionUrl(config), "1", ["resourcetype", "getcontentlength"], config);
+    const videos: CloudVideoInfo[] = [];
+    for (const file of resources) {
+      const match = !file.isCollection && file.name.match(/^video_(.+)\.(webm|mp4)$/);
+      if (!match) continue;
+      videos.push({
+        entryId: match[1],
+        fileRef: { provider: "webdav", fileId: file.name, mimeType: getMimeTypeForName(file.name) },
+        size: parseInt(file.props.getcontentlength ?? "0", 10) || 0,
+        // DAV has no standard content checksum — sizes only
+        checksum: null,
+      });
+    }
+    return videos;
+  }
+
+  async deleteVideo(fileRef: CloudFileRef): Promise<void> {
+    await deleteFile(this.requireConfig(), fileRef.fileId);
+  }
+
+  // -- Metadata operations --------------------------------------------------
+
+  async uploadMeta(
+    entryId: string,
+    meta: CloudMetaPayload,
+  ): Promise<CloudFileRef> {
+    const config = await this.readyConfig();
+
+    const fileName = `entry_${entryId}.json`;
+    await davFetch(
+      fileUrl(config, fileName),
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(meta),
+      },
+      config,
+    );
+
+    return {
+      provider: "webdav",
+      fileId: fileName,
+      mimeType: "application/json",
+    };
+  }
+
+  async downloadAllMeta(): Promise<
+    Array<{
+      meta: CloudMetaPayload;
+      metaFileRef: CloudFileRef;
+      videoFileRef: CloudFileRef | null;
+    }>
+  > {
+    const config = await this.readyConfig();
+
+    const results: Array<{
+      meta: CloudMetaPayload;
+      metaFileRef: CloudFileRef;
+      videoFileRef: CloudFileRef | null;
+    }> = [];
+
+    // 1. List the collection (Depth 1 includes the collection itself — skip it)
+    const resources = await propfind(
+      collectionUrl(config),
+      "1",
+      ["resourcetype", "getcontenttype", "getcontentlength"],
+      config,
+    );
+    const files = resources.filter((r) => !r.isCollection);
+
+    // 2. Index video files by entryId
+    const videoByEntryId = new Map<string, { name: string; mimeType: string }>();
+    for (const file of files) {
+      const match = file.name.match(/^video_(.+)\.(webm|mp4)$/);
+      if (!match) continue;
+      const reported = file.props.getcontenttype ?? "";
+      videoByEntryId.set(match[1], {
+        name: file.name,
+        mimeType: /^(video|audio)\//.test(reported) ? reported : getMimeTypeForName(file.name),
+      });
+    }
+
+    // 3. Download each metadata file and pair with video ref
+    for (const file of files) {
+      const match = file.name.match(/^entry_(.+)\.json$/);
+      if (!match) continue;
+      try {
+        const res = await davFetch(fileUrl(config, file.name), {}, config);
+        const meta = (await res.json()) as CloudMetaPayload;
+
+        const videoInfo = videoByEntryId.get(meta.id ?? match[1]);
+        const videoFileRef: CloudFileRef | null = videoInfo
+          ? {
+              provider: "webdav",
+              fileId: videoInfo.name,
+              mimeType: videoInfo.mimeType,
+            }
+          : null;
+
+        results.push({
+          meta,
+          metaFileRef: {
+            provider: "webdav",
+            fileId: file.name,
+            mimeType: "application/json",
+          },
+          videoFileRef,
+        });
+      } catch (err) {
+        console.warn(`[WebDAV] Failed to download metadata ${file.name}:`, err);
+      }
+    }
+
+    return results;
+  }
+
+  async deleteMeta(fileRef: CloudFileRef): Promise<void> {
+    await deleteFile(this.requireConfig(), fileRef.fileId);
+  }
+
+  // -- App data -------------------------------------------------------------
+
+  async uploadAppData(name: string, content: string): Promise<void> {
+    const config = await this.readyConfig();
+    await davFetch(
+      fileUrl(config, `app_${name}`),
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: content,
+      },
+      config,
+    );
+  }
+
+  async downloadAppData(name: string): Promise<string | null> {
+    const config = this.requireConfig();
+    const res = await fetch(fileUrl(config, `app_${name}`), {
+      headers: { Authorization: webdavAuth.getAuthHeader(config) },
+      credentials: "omit",
+    });
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`WebDAV error ${res.status}: ${res.statusText}`);
+    }
+    return res.text();
+  }
+
+  // -- Quota ----------------------------------------------------------------
+
+  async getQuota(): Promise<CloudQuota | null> {
+    try {
+      const config = this.requireConfig();
+      // The account root reports the account's quota; the folder may report its own
+      const [resource] = await propfind(
+        config.serverUrl,
+        "0",
+        ["quota-available-bytes", "quota-used-bytes"],
+        config,
+      );
+      if (!resource || resource.props["quota-used-bytes"] === undefined) return null;
+
+      const usage = parseInt(resource.props["quota-used-bytes"], 10) || 0;
+      // Negative or missing means "unknown/unlimited" (Nextcloud reports -3)
+      const available = parseInt(resource.props["quota-available-bytes"] ?? "-1", 10);
+      const limit = available >= 0 ? usage + available : 0;
+
+      return {
+        usageBytes: usage,
+        totalBytes: limit,
+        usagePercent: limit > 0 ? (usage / limit) * 100 : 0,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * Chunked AES-256-GCM container.
+ *
+ * Large videos are encrypted in fixed-size chunks so no single WebCrypto
+ * call has to hold the whole file, and any chunk can be decrypted on its own.
+ * Videos are never encrypted or decrypted whole: they're streamed a chunk at
+ * a time, or read a part or range at a time.
+ *
+ * Layout:
+ *   magic "VLENC" (5) | version (1) | chunkSize uint32 BE (4) | noncePrefix (8)
+ *   chunk 0 ciphertext+tag | chunk 1 ciphertext+tag | ...
+ *
+ * Chunk n starts at HEADER_SIZE + n * (chunkSize + TAG_SIZE); every chunk but
+ * the last holds exactly chunkSize plaintext bytes. Its nonce is
+ * noncePrefix || uint32 BE n, and the additional data binds n plus a
+ * "last chunk" flag, so chunks can't be reordered, dropped, or the file
+ * truncated at a chunk boundary without authentication failing.
+ */
+
+const MAGIC = new TextEncoder().encode("VLENC");
+const VERSION = 1;
+const HEADER_SIZE = MAGIC.length + 1 + 4 + 8;
+const TAG_SIZE = 16;
+
+/** 1 MiB plaintext per chunk */
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+// ---------------------------------------------------------------------------
+// Header
+// ---------------------------------------------------------------------------
+
+interface Header {
+  chunkSize: number;
+  noncePrefix: Uint8Array;
+}
+
+function writeHeader(header: Header): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(HEADER_SIZE);
+  bytes.set(MAGIC, 0);
+  bytes[MAGIC.length] = VERSION;
+  new DataView(bytes.buffer).setUint32(MAGIC.length + 1, header.chunkSize);
+  bytes.set(header.noncePrefix, MAGIC.length + 5);
+  return bytes;
+}
+
+function readHeader(bytes: Uint8Array): Header | null {
+  if (bytes.length < HEADER_SIZE) return null;
+  for (let i = 0; i < MAGIC.length; i++) {
+    if (bytes[i] !== MAGIC[i]) return null;
+  }
+  if (bytes[MAGIC.length] !== VERSION) {
+    throw new Error(`Unsupported encryption version ${bytes[MAGIC.length]}`);
+  }
+  return {
+    chunkSize: new DataView(bytes.buffer, bytes.byteOffset).getUint32(MAGIC.length + 1),
+    noncePrefix: bytes.slice(MAGIC.length + 5, HEADER_SIZE),
+  };
+}
+
+function chunkNonce(prefix: Uint8Array, index: number): Uint8Array<ArrayBuffer> {
+  const nonce = new Uint8Array(12);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(8, index);
+  return nonce;
+}
+
+function chunkAad(index: number, isLast: boolean): Uint8Array<ArrayBuffer> {
+  const aad = new Uint8Array(5);
+  new DataView(aad.buffer).setUint32(0, index);
+  aad[4] = isLast ? 1 : 0;
+  return aad;
+}
+
+// ---------------------------------------------------------------------------
+// Blob API
+// ---------------------------------------------------------------------------
+
+/** Whether a blob starts with the encrypted-container magic. */
+export async function isEncryptedBlob(blob: Blob): Promise<boolean> {
+  const head = new Uint8Array(await blob.slice(0, HEADER_SIZE).arrayBuffer());
+  try {
+    return readHeader(head) !== null;
+  } catch {
+    // Unknown version — still ours, just not readable by this build
+    return true;
+  }
+}
+
+async function encryptChunk(
+  key: CryptoKey,
+  noncePrefix: Uint8Array,
+  index: number,
+  isLast: boolean,
+  plain: ArrayBuffer,
+): Promise<ArrayBuffer> {
+  return crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: chunkNonce(noncePrefix, index), additionalData: chunkAad(index, isLast) },
+    key,
+    plain,
+  );
+}
+
+async function decryptChunk(
+  key: CryptoKey,
+  noncePrefix: Uint8Array,
+  index: number,
+  isLast: boolean,
+  cipher: BufferSource,
+): Promise<ArrayBuffer> {
+  try {
+    return await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: chunkNonce(noncePrefix, index), additionalData: chunkAad(index, isLast) },
+      key,
+      cipher,
+    );
+  } catch {
+    throw new Error("Decryption failed — wrong key or corrupted file");
+  }
+}
+
+/**
+ * Encrypt a blob as a stream of container bytes: the header, then one
+ * chunk per read. Only the chunk being read is in memory, so it can be
+ * piped straight to a file.
+ * @param noncePrefix Nonce prefix of an earlier encryption of the same blob,
+ *   to reproduce its exact ciphertext. Never pass one used for different
+ *   content — that breaks AES-GCM.
+ */
+export function encryptStream(
+  key: CryptoKey,
+  blob: Blob,
+  chunkSize = DEFAULT_CHUNK_SIZE,
+  noncePrefix: Uint8Array = crypto.getRandomValues(new Uint8Array(8)),
+): ReadableStream<Uint8Array<ArrayBuffer>> {
+  const chunkCount = Math.max(1, Math.ceil(blob.size / chunkSize));
+  let index = -1;
+  return new ReadableStream<Uint8Array<ArrayBuffer>>({
+    async pull(controller) {
+      if (index < 0) {
+        controller.enqueue(writeHeader({ chunkSize, noncePrefix }));
+      } else {
+        const plain = await blob.slice(index * chunkSize, (index + 1) * chunkSize).arrayBuffer();
+        const cipher = await encryptChunk(key, noncePrefix, index, index === chunkCount - 1, plain);
+        controller.enqueue(new Uint8Array(cipher));
+      }
+      if (++index === chunkCount) controller.close();
+    },
+  });
+}
+
+/**
+ * Encrypt a blob into a container blob — for small payloads. Videos are
+ * piped from encryptStream() or read a part at a time (encryptedSource()).
+ */
+export function encryptBlob(key: CryptoKey, blob: Blob): Promise<Blob> {
+  return new Response(encryptStream(key, blob)).blob();
+}
+
+/**
+ * Decrypt a container as a stream of plaintext, one chunk per read.
+ * @throws From the stream, if the blob isn't an encrypted container or a
+ *   chunk fails authentication
+ */
+export function decryptStream(key: CryptoKey, blob: Blob): ReadableStream<Uint8Array<ArrayBuffer>> {
+  let header: Header | null = null;
+  let chunkCount = 0;
+  let index = 0;
+  return new ReadableStream<Uint8Array<ArrayBuffer>>({
+    async start() {
+      header = readHeader(new Uint8Array(await blob.slice(0, HEADER_SIZE).arrayBuffer()));
+      if (!header) {
+        throw new Error("Not an encrypted VidLog file");
+      }
+      chunkCount = Math.max(1, Math.ceil((blob.size - HEADER_SIZE) / (header.chunkSize + TAG_SIZE)));
+    },
+    async pull(controller) {
+      const stride = header!.chunkSize + TAG_SIZE;
+      const start = HEADER_SIZE + index * stride;
+      const cipher = await blob.slice(start, start + stride).arrayBuffer();
+      const plain = await decryptChunk(key, header!.noncePrefix, index, index === chunkCount - 1, cipher);
+      controller.enqueue(new Uint8Array(plain));
+      if (++index === chunkCount) controller.close();
+    },
+  });
+}
+
+/**
+ * Decrypt a blob produced by encryptBlob() or encryptStream(). The
+ * plaintext is collected from decryptStream(), a chunk at a time.
+ * @param type MIME type for the returned plaintext blob
+ * @throws If the blob isn't an encrypted container or fails authentication
+ */
+export function decryptBlob(key: CryptoKey, blob: Blob, type = ""): Promise<Blob> {
+  return new Response(decryptStream(key, blob), { headers: { "Content-Type": type } }).blob();
+}
+
+/** Bytes read a part at a time — see encryptedSource() */
+export interface ByteSource {
+  size: number;
+  /** Bytes [start, end) */
+  read(start: number, end: number): Promise<Blob>;
+}
+
+/**
+ * The container of a plaintext source, encrypted on demand: each read
+ * encrypts only the chunks covering it, so an upload sent a part at a time
+ * never holds more than a part. A chunk two reads share comes out the same
+ * both times — same content, same nonce.
+ * @param noncePrefix As for encryptStream()
+ */
+export function encryptedSource(
+  key: CryptoKey,
+  plain: ByteSource,
+  noncePrefix: Uint8Array,
+  chunkSize = DEFAULT_CHUNK_SIZE,
+): ByteSource {
+  const size = containerSize(plain.size, chunkSize);
+  const chunkCount = Math.max(1, Math.ceil(plain.size / chunkSize));
+  const stride = chunkSize + TAG_SIZE;
+
+  return {
+    size,
+    async read(start, end) {
+      end = Math.min(end, size);
+      const out = new Uint8Array(Math.max(0, end - start));
+      const place = (bytes: Uint8Array, at: number) => {
+        const from = Math.max(start, at);
+        const to = Math.min(end, at + bytes.length);
+        if (to > from) out.set(bytes.subarray(from - at, to - at), from - start);
+      };
+
+      place(writeHeader({ chunkSize, noncePrefix }), 0);
+      if (end > HEADER_SIZE) {
+        const first = Math.max(0, Math.floor((start - HEADER_SIZE) / stride));
+        const last = Math.min(chunkCount - 1, Math.floor((end - 1 - HEADER_SIZE) / stride));
+        for (let i = first; i <= last; i++) {
+          const chunk = await plain.read(i * chunkSize, Math.min((i + 1) * chunkSize, plain.size));
+          const cipher = await encryptChunk(key, noncePrefix, i, i === chunkCount - 1, await chunk.arrayBuffer());
+          place(new Uint8Array(cipher), HEADER_SIZE + i * stride);
+        }
+      }
+      return new Blob([out]);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Range API (streaming playback)
+// ---------------------------------------------------------------------------
+
+/** Bytes to read from the start of a container to find its layout */
+export const CONTAINER_HEADER_SIZE = HEADER_SIZE;
+
+/** Where a container's chunks are, for decrypting part of it */
+export interface ContainerLayout extends Header {
+  chunkCount: number;
+  /** Size of the decrypted content */
+  plainSize: number;
+}
+
+/**
+ * Size of the container encrypting `plainSize` bytes — to check a stored
+ * copy's size without reading it.
+ */
+export function containerSize(plainSize: number, chunkSize = DEFAULT_CHUNK_SIZE): number {
+  const chunkCount = Math.max(1, Math.ceil(plainSize / chunkSize));
+  return HEADER_SIZE + plainSize + chunkCount * TAG_SIZE;
+}
+
+/**
+ * Read a container's layout from its first CONTAINER_HEADER_SIZE bytes.
+ * @param storedSize Size of the whole container
+ * @returns The layout, or null if the bytes aren't an encrypted container
+ */
+export function readLayout(head: Uint8Array, storedSize: number): ContainerLayout | null {
+  const header = readHeader(head);
+  if (!header) return null;
+  const bodySize = storedSize - HEADER_SIZE;
+  const chunkCount = Math.max(1, Math.ceil(bodySize / (header.chunkSize + TAG_SIZE)));
+  return { ...header, chunkCount, plainSize: Math.max(0, bodySize - chunkCount * TAG_SIZE) };
+}
+
+/**
+ * The stored bytes [start, end) holding the chunks that cover plaintext
+ * [start, end). The end may run past the container; range reads clamp it.
+ */
+export function storedRange(
+  layout: ContainerLayout,
+  start: number,
+  end: number,
+): { start: number; end: number } {
+  const stride = layout.chunkSize + TAG_SIZE;
+  const first = Math.floor(start / layout.chunkSize);
+  const last = Math.ceil(end / layout.chunkSize);
+  return { start: HEADER_SIZE + first * stride, end: HEADER_SIZE + last * stride };
+}
+
+/**
+ * Decrypt plaintext [start, end) out of the stored bytes storedRange() named.
+ * @throws If a chunk fails authentication
+ */
+export async function decryptRange(
+  key: CryptoKey,
+  layout: ContainerLayout,
+  stored: Uint8Array<ArrayBuffer>,
+  start: number,
+  end: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stride = layout.chunkSize + TAG_SIZE;
+  const out = new Uint8Array(end - start);
+
+  for (let i = Math.floor(start / layout.chunkSize), offset = 0; offset < stored.length; i++, offset += stride) {
+    const plain = await decryptChunk(
+      key,
+      layout.noncePrefix,
+      i,
+      i === layout.chunkCount - 1,
+      stored.subarray(offset, offset + stride),
+    );
+    // Copy the part of this chunk that falls inside the range
+    const chunkStart = i * layout.chunkSize;
+    const from = Math.max(start, chunkStart);
+    const to = Math.min(end, chunkStart + plain.byteLength);
+    if (to > from) out.set(new Uint8Array(plain, from - chunkStart, to - from), from - start);
+  }
+
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// String API (small payloads, e.g. metadata JSON)
+// ---------------------------------------------------------------------------
+
+/** Encrypt a string and return the container as base64. */
+export async function encryptString(key: CryptoKey, text: string): Promise<string> {
+  const blob = await encryptBlob(key, new Blob([text]));
+  return bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+}
+
+/** Decrypt a base64 container produced by encryptString(). */
+export async function decryptString(key: CryptoKey, base64: string): Promise<string> {
+  const blob = await decryptBlob(key, new Blob([base64ToBytes(base64)]));
+  return blob.text();
+}
+
+// ---------------------------------------------------------------------------
+// Encoding helpers
+// ---------------------------------------------------------------------------
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,101 @@
+/**
+ * Passphrase-based key derivation and verification.
+ *
+ * Keys are derived with PBKDF2-SHA256 (WebCrypto has no Argon2) at a high
+ * iteration count and imported as non-extractable AES-GCM keys. A KeyCheck
+ * stores the salt plus a known plaintext encrypted with the derived key, so
+ * a passphrase can be verified without ever storing it.
+ */
+
+import { base64ToBytes, bytesToBase64, decryptString, encryptString } from "./cipher";
+
+/** OWASP 2023 recommendation for PBKDF2-HMAC-SHA256 */
+const DEFAULT_ITERATIONS = 600_000;
+
+const CHECK_PLAINTEXT = "vidlog-key-check";
+
+/** Everything needed to re-derive and verify a key — safe to store anywhere. */
+export interface KeyCheck {
+  version: 1;
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  /** Base64 salt */
+  salt: string;
+  /** Base64 encrypted container of a known plaintext */
+  check: string;
+}
+
+/** Derive an AES-256-GCM key from a passphrase. */
+export async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/** Create a fresh key (random salt) and the KeyCheck that verifies it. */
+export async function createKey(
+  passphrase: string,
+): Promise<{ key: CryptoKey; keyCheck: KeyCheck }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, DEFAULT_ITERATIONS);
+  return {
+    key,
+    keyCheck: {
+      version: 1,
+      kdf: "PBKDF2-SHA256",
+      iterations: DEFAULT_ITERATIONS,
+      salt: bytesToBase64(salt),
+      check: await encryptString(key, CHECK_PLAINTEXT),
+    },
+  };
+}
+
+/**
+ * Re-derive the key for a KeyCheck.
+ * @returns The key, or null if the passphrase is wrong
+ */
+export async function unlockKey(
+  passphrase: string,
+  keyCheck: KeyCheck,
+): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, base64ToBytes(keyCheck.salt), keyCheck.iterations);
+  try {
+    return (await decryptString(key, keyCheck.check)) === CHECK_PLAINTEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Parse a stored KeyCheck, returning null for anything malformed. */
+export function parseKeyCheck(raw: string): KeyCheck | null {
+  try {
+    const parsed = JSON.parse(raw) as KeyCheck;
+    if (
+      parsed.version !== 1 ||
+      parsed.kdf !== "PBKDF2-SHA256" ||
+      typeof parsed.iterations !== "number" ||
+      typeof parsed.salt !== "string" ||
+      typeof parsed.check !== "string"
+    ) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
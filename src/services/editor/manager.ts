@@ -0,0 +1,167 @@
+import { createSignal } from "solid-js";
+import type { DiaryEntry, EditSegment } from "~/models/types";
+import { storageManager } from "~/services/storage/manager";
+import { cloudSyncManager } from "~/services/cloud/manager";
+import { getExtensionForMimeType } from "~/utils/format";
+import { generateThumbnail } from "~/utils/video";
+import { generateWaveformThumbnail, trimWaveform } from "~/utils/waveform";
+import { renderEdit } from "./render";
+import { isFullVideo, mapTranscript, normalizeSegments } from "./segments";
+
+/**
+ * Trim/split edits for saved entries.
+ *
+ * Saving an edit only stores the kept spans on the entry (see EntryEdit);
+ * players skip the cut parts. Rendering replays the spans into a new video
+ * that replaces the stored one, re-times the transcript, and re-uploads
+ * the entry if it was synced. One render runs at a time.
+ */
+
+export interface RenderJob {
+  entryId: string;
+  /** 0–1 */
+  progress: number;
+}
+
+const [renderJob, setRenderJob] = createSignal<RenderJob | null>(null);
+let renderAbort: AbortController | null = null;
+
+async function findEntry(entryId: string): Promise<DiaryEntry> {
+  const { diaryStore } = await import("~/stores/diary");
+  const entry = diaryStore.entries().find((e) => e.id === entryId);
+  if (!entry) throw new Error("Entry not found");
+  return entry;
+}
+
+export const editManager = {
+  /** The running render, if any (reactive) */
+  renderJob,
+
+  /** Whether a render is running (reactive) — auto-lock waits for it */
+  isRendering: () => renderJob() !== null,
+
+  /**
+   * Store an edit on an entry. Segments that keep the whole video clear
+   * the edit instead.
+   */
+  async saveEdit(entryId: string, segments: EditSegment[]): Promise<void> {
+    const entry = await findEntry(entryId);
+    const kept = normalizeSegments(segments, entry.duration);
+    if (kept.length === 0) {
+      throw new Error("The edit cuts the whole video");
+    }
+
+    const { diaryStore } = await import("~/stores/diary");
+    await diaryStore.updateEntry(entryId, {
+      edit: isFullVideo(kept, entry.duration) ? undefined : { segments: kept, updatedAt: Date.now() },
+    });
+    void cloudSyncManager.syncMeta(entryId);
+  },
+
+  /** Remove an entry's edit, restoring the full video at playback */
+  async clearEdit(entryId: string): Promise<void> {
+    const { diaryStore } = await import("~/stores/diary");
+    await diaryStore.updateEntry(entryId, { edit: undefined });
+    void cloudSyncManager.syncMeta(entryId);
+  },
+
+  /**
+   * Render an entry's saved edit into a new video that replaces the
+   * original. The edit is cleared afterwards — it's baked in.
+   *
+   * @returns The rendered video
+   * @throws If the video isn't on this device, rendering fails, or it's cancelled
+   */
+  async render(entryId: string): Promise<Blob> {
+    if (renderJob()) throw new Error("Another edit is already rendering");
+
+    const entry = await findEntry(entryId);
+    if (!entry.edit) throw new Error("This entry has no edit to render");
+
+    setRenderJob({ entryId, progress: 0 });
+    renderAbort = new AbortController();
+    try {
+      const source = entry.videoBlob ?? (await storageManager.loadVideoBlob(entry));
+      if (!source) throw new Error("The video isn't available on this device");
+
+      const result = await renderEdit({
+        source,
+        mimeType: entry.mimeType,
+        duration: entry.duration,
+        segments: entry.edit.segments,
+        onProgress: (progress) => setRenderJob({ entryId, progress }),
+        signal: renderAbort.signal,
+      });
+
+      // Audio entries keep the part of their waveform that was kept
+      const waveform = entry.waveform ? trimWaveform(entry.waveform, entry.duration, entry.edit.segments) : undefined;
+      let thumbnailDataUrl = entry.thumbnailDataUrl;
+      try {
+        thumbnailDataUrl =
+          entry.mediaKind === "audio" && waveform
+            ? generateWaveformThumbnail(waveform)
+            : await generateThumbnail(result.blob);
+      } catch (err) {
+        console.warn("[Editor] Failed to regenerate thumbnail:", err);
+      }
+
+      const updates: Partial<DiaryEntry> = {
+        videoBlob: result.blob,
+        mimeType: result.mimeType,
+        duration: result.duration,
+        videoWidth: result.width,
+        videoHeight: result.height,
+        thumbnailDataUrl,
+        waveform,
+        transcript: entry.transcript ? mapTranscript(entry.transcript, entry.edit.segments) : undefined,
+        edit: undefined,
+      };
+      // Lazy providers keep videos on disk, not on the in-memory entry;
+      // in-memory entries need a fresh blob URL
+      if (storageManager.getProviderForEntry(entry).capabilities.lazyBlobs) {
+        updates.videoBlob = null;
+      }
+      if (entry.videoBlobUrl) {
+        URL.revokeObjectURL(entry.videoBlobUrl);
+        updates.videoBlobUrl = URL.createObjectURL(result.blob);
+      }
+
+      const { diaryStore } = await import("~/stores/diary");
+      // Write the new video through storage, then refresh the in-memory entry
+      await storageManager.update(entry, { ...updates, videoBlob: result.blob });
+      await diaryStore.updateEntry(entryId, updates);
+
+      // Replace the cloud copies too, and restart uploads of the old video
+      // still queued or running — stopped first, so none lands after the delete
+      const cloudVideos = (entry.cloudSyncs ?? []).filter((r) => r.videoFileRef);
+      const connectionIds = new Set([
+        ...cloudVideos.map((r) => r.connectionId),
+        ...cloudSyncManager.syncQueue().filter((i) => i.entryId === entryId).map((i) => i.connectionId),
+      ]);
+      for (const connectionId of connectionIds) {
+        cloudSyncManager.dequeueUpload(entryId, connectionId);
+      }
+      if (
+        cloudVideos.length > 0 &&
+        getExtensionForMimeType(result.mimeType) !== getExtensionForMimeType(entry.mimeType)
+      ) {
+        await cloudSyncManager.deleteCloudFiles({
+          cloudSyncs: cloudVideos.map((r) => ({ connectionId: r.connectionId, videoFileRef: r.videoFileRef })),
+        });
+      }
+      for (const connectionId of connectionIds) {
+        cloudSyncManager.queueUpload(entryId, connectionId);
+      }
+
+      return result.blob;
+    } finally {
+      renderAbort = null;
+      setRenderJob(null);
+    }
+  },
+
+  /** Stop the running render. The entry is left as it was. */
+  cancelRender(): void {
+    renderAbort?.abort();
+  },
+};
@@ -0,0 +1,225 @@
+import type { EditSegment } from "~/models/types";
+import { repairVideoIndex } from "~/services/recorder/mux/repair";
+
+/**
+ * Render an edit into a new video by replaying the kept spans.
+ *
+ * Pipeline:
+ *   source Blob → hidden <video> → Canvas drawImage → captureStream ┐
+ *                             └→ MediaElementSource → StreamDestination ┴→ MediaRecorder → Blob
+ *
+ * A source without a picture (an audio entry) skips the canvas and records
+ * the audio alone. The recorder is paused while seeking between spans, so
+ * the output is the spans back to back. Rendering runs in real time (a 2-minute edit takes
+ * about 2 minutes) and browsers throttle hidden tabs, so the tab should
+ * stay in the foreground.
+ */
+
+export interface RenderEditOptions {
+  source: Blob;
+  /** MIME type of the source; the output keeps its container when supported */
+  mimeType: string;
+  /** Source duration in seconds (MediaRecorder WebM often reports Infinity) */
+  duration: number;
+  segments: EditSegment[];
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface RenderEditResult {
+  blob: Blob;
+  mimeType: string;
+  /** Duration of the rendered video in seconds */
+  duration: number;
+  /** null when the source had no picture */
+  width: number | null;
+  height: number | null;
+}
+
+const FRAME_RATE = 30;
+
+/** Give up if playback makes no progress for this long (ms) */
+const STALL_TIMEOUT = 15_000;
+
+function pickMimeType(sourceMimeType: string, audioOnly: boolean): string {
+  const fallback = audioOnly ? "audio/webm" : "video/webm";
+  const candidates = [
+    sourceMimeType,
+    sourceMimeType.split(";")[0],
+    audioOnly ? "audio/webm;codecs=opus" : "video/webm;codecs=vp9,opus",
+    fallback,
+  ];
+  for (const type of candidates) {
+    // An audio-only output can't keep a video source's type, or the other way round
+    if (type.startsWith(audioOnly ? "audio/" : "video/") && MediaRecorder.isTypeSupported(type)) return type;
+  }
+  return fallback;
+}
+
+/** Resolve on the next `type` event; reject on an "error" event or abort */
+function waitForEvent(
+  target: EventTarget,
+  type: string,
+  signal?: AbortSignal,
+  errorMessage: string = "Failed to decode the video",
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(type, onEvent);
+      target.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(errorMessage));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException("Render cancelled", "AbortError"));
+    };
+    target.addEventListener(type, onEvent);
+    target.addEventListener("error", onError);
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+/**
+ * Render `segments` of `source` into a new video blob.
+ *
+ * @throws If the source can't be decoded, playback stalls, or `signal` aborts
+ */
+export async function renderEdit(options: RenderEditOptions): Promise<RenderEditResult> {
+  const { source, segments, signal } = options;
+  if (segments.length === 0) {
+    throw new Error("Nothing to render — every part of the video was cut");
+  }
+
+  const url = URL.createObjectURL(source);
+  const video = document.createElement("video");
+  video.playsInline = true;
+  video.preload = "auto";
+  video.src = url;
+
+  const audioContext = new AudioContext();
+  let recorder: MediaRecorder | null = null;
+  let stream: MediaStream | null = null;
+  let frameLoop = 0;
+
+  try {
+    await waitForEvent(video, "loadedmetadata", signal);
+    const audioOnly = options.mimeType.startsWith("audio/");
+    const width = video.videoWidth || 1280;
+    const height = video.videoHeight || 720;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    // Route the audio into the recording only — nothing plays out loud
+    const destination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(destination);
+    await audioContext.resume();
+
+    stream = audioOnly ? new MediaStream() : canvas.captureStream(FRAME_RATE);
+    for (const track of destination.stream.getAudioTracks()) {
+      stream.addTrack(track);
+    }
+
+    // Keep roughly the source's bitrate so quality doesn't visibly drop
+    const sourceBps = options.duration > 0 ? (source.size * 8) / options.duration : 2_500_000;
+    const mimeType = pickMimeType(options.mimeType, audioOnly);
+    recorder = new MediaRecorder(
+      stream,
+      audioOnly
+        ? { mimeType }
+        : { mimeType, videoBitsPerSecond: Math.round(Math.min(Math.max(sourceBps, 500_000), 16_000_000)) },
+    );
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+
+    const draw = () => {
+      if (!audioOnly) ctx.drawImage(video, 0, 0, width, height);
+      frameLoop = requestAnimationFrame(draw);
+    };
+
+    const total = segments.reduce((sum, s) => sum + (s.end - s.start), 0);
+    let rendered = 0;
+
+    for (const segment of segments) {
+      video.currentTime = segment.start;
+      await waitForEvent(video, "seeked", signal);
+      if (!audioOnly) ctx.drawImage(video, 0, 0, width, height);
+
+      if (recorder.state === "inactive") {
+        recorder.start(1000);
+      } else {
+        recorder.resume();
+      }
+      frameLoop = requestAnimationFrame(draw);
+      await video.play();
+
+      // Play until the span's end, watching for stalls and cancellation
+      await new Promise<void>((resolve, reject) => {
+        let lastTime = video.currentTime;
+        let lastProgressAt = performance.now();
+        const check = () => {
+          if (signal?.aborted) {
+            reject(new DOMException("Render cancelled", "AbortError"));
+            return;
+          }
+          const t = video.currentTime;
+          if (t !== lastTime) {
+            lastTime = t;
+            lastProgressAt = performance.now();
+          }
+          options.onProgress?.(Math.min(1, (rendered + Math.max(0, t - segment.start)) / total));
+          if (t >= segment.end || video.ended) {
+            resolve();
+          } else if (performance.now() - lastProgressAt > STALL_TIMEOUT) {
+            reject(new Error("Playback stalled while rendering"));
+          } else {
+            setTimeout(check, 1000 / FRAME_RATE);
+          }
+        };
+        check();
+      });
+
+      video.pause();
+      recorder.pause();
+      cancelAnimationFrame(frameLoop);
+      rendered += segment.end - segment.start;
+    }
+
+    const activeRecorder = recorder;
+    const stopped = waitForEvent(activeRecorder, "stop", undefined, "Recording the edit failed");
+    activeRecorder.stop();
+    await stopped;
+    options.onProgress?.(1);
+
+    const outputType = activeRecorder.mimeType || mimeType;
+    return {
+      blob: await repairVideoIndex(new Blob(chunks, { type: outputType }), total),
+      mimeType: outputType,
+      duration: total,
+      width: audioOnly ? null : width,
+      height: audioOnly ? null : height,
+    };
+  } finally {
+    cancelAnimationFrame(frameLoop);
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+    stream?.getTracks().forEach((t) => t.stop());
+    video.pause();
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+    void audioContext.close();
+  }
+}
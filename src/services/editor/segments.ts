@@ -0,0 +1,96 @@
+import type { EditSegment, EntryEdit, Transcript } from "~/models/types";
+
+/**
+ * Segment arithmetic for non-destructive edits.
+ *
+ * An edit is the ordered list of spans to keep. Trimming moves the first
+ * start / last end; splitting a span and dropping a piece leaves a gap.
+ * Adjacent spans are allowed (a split whose pieces are both kept) so the
+ * editor can show the split again when reopened.
+ */
+
+/** Spans shorter than this are dropped — too short to see, and they'd stall playback */
+export const MIN_SEGMENT = 0.1;
+
+/** Tolerance when comparing playback times against span edges */
+const EPSILON = 0.05;
+
+/** Clamp to [0, duration], sort, drop slivers and merge overlaps */
+export function normalizeSegments(segments: EditSegment[], duration: number): EditSegment[] {
+  const clamped = segments
+    .map((s) => ({
+      start: Math.max(0, Math.min(s.start, duration)),
+      end: Math.max(0, Math.min(s.end, duration)),
+    }))
+    .filter((s) => s.end - s.start >= MIN_SEGMENT)
+    .sort((a, b) => a.start - b.start);
+
+  const result: EditSegment[] = [];
+  for (const s of clamped) {
+    const last = result[result.length - 1];
+    if (last && s.start < last.end) {
+      last.end = Math.max(last.end, s.end);
+    } else {
+      result.push({ ...s });
+    }
+  }
+  return result;
+}
+
+/** Whether the segments keep the whole video (i.e. there's nothing to edit) */
+export function isFullVideo(segments: EditSegment[], duration: number): boolean {
+  if (segments.length === 0) return true;
+  for (let i = 1; i < segments.length; i++) {
+    if (segments[i].start - segments[i - 1].end > EPSILON) return false;
+  }
+  return segments[0].start <= EPSILON && segments[segments.length - 1].end >= duration - EPSILON;
+}
+
+/** Length of the edited video in seconds */
+export function editedDuration(edit: EntryEdit | undefined, duration: number): number {
+  if (!edit || edit.segments.length === 0) return duration;
+  return edit.segments.reduce((sum, s) => sum + (s.end - s.start), 0);
+}
+
+/**
+ * Where playback should be at source time `t`:
+ * - `null` — inside a kept span, keep playing
+ * - `{ seekTo }` — in a cut part, jump to the next kept span
+ * - `{ ended }` — past the last kept span, stop at `ended`
+ */
+export function resolvePlaybackTime(
+  segments: EditSegment[],
+  t: number,
+): { seekTo: number } | { ended: number } | null {
+  if (segments.length === 0) return null;
+  for (const s of segments) {
+    if (t < s.start - EPSILON) return { seekTo: s.start };
+    if (t < s.end - EPSILON / 2) return null;
+  }
+  return { ended: segments[segments.length - 1].end };
+}
+
+/** Map a source time onto the edited timeline, or null if it was cut */
+export function toEditedTime(segments: EditSegment[], t: number): number | null {
+  let offset = 0;
+  for (const s of segments) {
+    if (t >= s.start && t <= s.end) return offset + (t - s.start);
+    offset += s.end - s.start;
+  }
+  return null;
+}
+
+/**
+ * Re-time a transcript for the rendered video. Words whose midpoint was
+ * cut are dropped.
+ */
+export function mapTranscript(transcript: Transcript, segments: EditSegment[]): Transcript {
+  const words = [];
+  for (const word of transcript.words) {
+    const mid = toEditedTime(segments, (word.start + word.end) / 2);
+    if (mid === null) continue;
+    const half = (word.end - word.start) / 2;
+    words.push({ ...word, start: Math.max(0, mid - half), end: mid + half });
+  }
+  return { ...transcript, words, text: words.map((w) => w.text).join(" ") };
+}
@@ -5,14 +5,20 @@ import { storageManager } from "~/services/storage/manager";
 import {
   ephemeralFactory,
   opfsFactory,
+  indexeddbFactory,
   filesystemFactory,
   type ProviderFactory,
 } from "~/services/storage/registry";
 import { FilesystemStorage } from "~/services/storage/filesystem";
 import { storeDirectoryHandle } from "~/services/storage/handle-store";
-import type { ChangeSummary } from "~/services/storage/types";
-import { GoogleDriveProvider } from "~/services/cloud/google-drive";
+import type { ChangeSummary, IStorageProvider } from "~/services/storage/types";
+import { migrationManager } from "~/services/storage/migration";
+import { offloadManager } from "~/services/storage/offload";
+import { recoverOrphanedSpools } from "~/services/recorder/spool";
+import { cloudSyncManager } from "~/services/cloud/manager";
 import { cloudStore } from "~/stores/cloud";
+import { templateStore } from "~/stores/template";
+import { vault } from "~/services/storage/vault";
 
 /**
  * All provider factories, explicitly imported.
@@ -21,21 +27,35 @@ import { cloudStore } from "~/stores/cloud";
  *
  * When adding a new provider (e.g. filesystem), add its factory here.
  */
-const factories: ProviderFactory[] = [ephemeralFactory, opfsFactory, filesystemFactory];
+const factories: ProviderFactory[] = [
+  ephemeralFactory,
+  opfsFactory,
+  indexeddbFactory,
+  filesystemFactory,
+];
 
 /**
- * Initialize storage providers and load entries.
- * Called after onboarding is complete (or on returning visits).
+ * Where writes go when the chosen provider can't be used: IndexedDB if it
+ * registered (entries still survive a refresh), otherwise ephemeral.
+ */
+function fallbackProviderName(): "indexeddb" | "ephemeral" {
+  return storageManager.getProvider("indexeddb") ? "indexeddb" : "ephemeral";
+}
+
+/**
+ * Open the storage providers — the first half of booting, before the vault
+ * is unlocked. Called after onboarding is complete (or on returning visits).
  *
- * Boot sequence:
  * 1. Read activeStorageProvider from settings (already loaded from localStorage)
  * 2. Register all available providers via their factories
- * 3. Set the active provider on the manager (fall back to ephemeral if chosen one failed)
- * 4. Wire cross-tab sync callback
- * 5. Load all entries from all registered providers
+ * 3. Set the active provider on the manager (fall back to IndexedDB, then ephemeral,
+ *    if the chosen one failed)
+ * 4. Find the vault's KeyCheck next to the providers' data — the vault may
+ *    turn out to be enabled, and locked, even with nothing in localStorage
  */
-export async function initializeApp(): Promise<void> {
+export async function initializeStorage(): Promise<void> {
   const activeProvider = settingsStore.settings().activeStorageProvider;
+  let fallbackReason: ReturnType<typeof settingsStore.storageFallbackReason> = null;
 
   // Register all available providers via factories
   for (const factory of factories) {
@@ -48,8 +68,7 @@ export async function initializeApp(): Promise<void> {
         console.warn(
           `[init] Provider "${factory.name}" not available in this browser`,
         );
-        settingsStore.updateSettings({ activeStorageProvider: "ephemeral" });
-        settingsStore.setStorageFallbackReason("unavailable");
+        fallbackReason = "unavailable";
       }
       continue;
     }
@@ -63,29 +82,48 @@ export async function initializeApp(): Promise<void> {
         console.warn(
           `[init] Provider "${factory.name}" could not be created`,
         );
-        settingsStore.updateSettings({ activeStorageProvider: "ephemeral" });
-        settingsStore.setStorageFallbackReason(
-          factory.name === "filesystem" ? "permission-denied" : "init-failed",
-        );
+        fallbackReason = factory.name === "filesystem" ? "permission-denied" : "init-failed";
       }
     } catch (err) {
       console.warn(`[init] Failed to create provider "${factory.name}":`, err);
       if (factory.name === activeProvider) {
-        settingsStore.updateSettings({ activeStorageProvider: "ephemeral" });
-        settingsStore.setStorageFallbackReason("init-failed");
+        fallbackReason = "init-failed";
       }
     }
   }
 
+  // Fall back once every factory has run, so IndexedDB can be chosen
+  // even when it registers after the provider that failed
+  if (fallbackReason) {
+    settingsStore.updateSettings({ activeStorageProvider: fallbackProviderName() });
+    settingsStore.setStorageFallbackReason(fallbackReason);
+  }
+
   // Set the active provider for writes
   const resolvedProvider = settingsStore.settings().activeStorageProvider;
   if (storageManager.getProvider(resolvedProvider)) {
     storageManager.setActiveProvider(resolvedProvider);
   } else {
-    storageManager.setActiveProvider("ephemeral");
-    settingsStore.updateSettings({ activeStorageProvider: "ephemeral" });
+    const fallback = fallbackProviderName();
+    storageManager.setActiveProvider(fallback);
+    settingsStore.updateSettings({ activeStorageProvider: fallback });
   }
 
+  await vault.attachKeyStores(registeredProviders());
+}
+
+/**
+ * Load entries and start background work — the second half of booting,
+ * once the storage is open and the vault (if enabled) unlocked.
+ *
+ * 1. Wire cross-tab sync callback
+ * 2. Recover recordings left unfinished by a crash or closed tab
+ * 3. Load all entries from all registered providers
+ * 4. Load user-installed templates and apply the default template
+ * 5. Finish moving entries between providers if a move was interrupted
+ * 6. Offload synced videos if storage is over the threshold
+ */
+export async function initializeApp(): Promise<void> {
   // Wire cross-tab sync: when another tab modifies entries, reload
   storageManager.setOnEntriesChanged(() => {
     void diaryStore.loadEntries();
@@ -94,9 +132,18 @@ export async function initializeApp(): Promise<void> {
   // Start filesystem observer if the provider is registered
   startFilesystemObserver();
 
+  // Turn orphaned recording spools into entries before the first load
+  await recoverUnfinishedRecordings();
+
   // Load entries from ALL registered providers
   await diaryStore.loadEntries();
 
+  void templateStore.loadInstalled();
+
+  void resumeInterruptedMove();
+
+  void offloadManager.checkThreshold();
+
   // Try restoring cloud session (non-blocking).
   // With GIS implicit flow this will return false (can't silently restore),
   // but it checks persisted state so the UI can show "previously connected".
@@ -121,6 +168,7 @@ export async function activateOPFS(): Promise<boolean> {
     if (provider) {
       storageManager.registerProvider(provider);
       storageManager.setActiveProvider("opfs");
+      await vault.attachKeyStores([provider]);
       return true;
     }
     return false;
@@ -130,6 +178,34 @@ export async function activateOPFS(): Promise<boolean> {
   }
 }
 
+/**
+ * Register and activate the IndexedDB provider dynamically (e.g. when switching
+ * in Settings, or when OPFS fails during onboarding).
+ * Returns true if successful.
+ */
+export async function activateIndexedDB(): Promise<boolean> {
+  if (!indexeddbFactory.isAvailable()) return false;
+
+  if (storageManager.getProvider("indexeddb")) {
+    storageManager.setActiveProvider("indexeddb");
+    return true;
+  }
+
+  try {
+    const provider = await indexeddbFactory.create();
+    if (provider) {
+      storageManager.registerProvider(provider);
+      storageManager.setActiveProvider("indexeddb");
+      await vault.attachKeyStores([provider]);
+      return true;
+    }
+    return false;
+  } catch (err) {
+    console.warn("[init] Failed to activate IndexedDB:", err);
+    return false;
+  }
+}
+
 /**
  * Register and activate Filesystem provider dynamically.
  * Called from onboarding/settings after the user picks a folder via showDirectoryPicker().
@@ -150,6 +226,8 @@ export async function activateFilesystem(
 
     storageManager.registerProvider(fs);
     storageManager.setActiveProvider("filesystem");
+    // A folder sealed in another browser brings its vault along
+    await vault.attachKeyStores([fs]);
 
     // Start observing for external changes on the new provider
     startFilesystemObserver();
@@ -161,22 +239,93 @@ export async function activateFilesystem(
   }
 }
 
+/** Every provider registered with the storage manager */
+function registeredProviders(): IStorageProvider[] {
+  return storageManager
+    .getProviderNames()
+    .map((name) => storageManager.getProvider(name))
+    .filter((provider): provider is IStorageProvider => !!provider);
+}
+
+// ---------------------------------------------------------------------------
+// Crash Recovery
+// ---------------------------------------------------------------------------
+
+/**
+ * Scan every registered provider that supports spooling for partial
+ * recordings (see RecordingSpool) and save them as regular entries.
+ * Spools still owned by another open tab are left alone.
+ */
+async function recoverUnfinishedRecordings(): Promise<void> {
+  let recovered = 0;
+
+  for (const name of storageManager.getProviderNames()) {
+    const provider = storageManager.getProvider(name);
+    if (!provider?.getSpoolDirectory) continue;
+    try {
+      const entries = await recoverOrphanedSpools(provider);
+      recovered += entries.length;
+    } catch (err) {
+      console.warn(`[init] Failed to recover recordings from "${name}":`, err);
+    }
+  }
+
+  if (recovered > 0) {
+    toastStore.success(
+      `Recovered ${recovered} unfinished ${recovered === 1 ? "recording" : "recordings"}`,
+      5000,
+    );
+  }
+}
+
+/**
+ * Finish a move between storage providers that a closed tab or crash cut
+ * short (see services/storage/migration.ts). Runs in the background.
+ */
+async function resumeInterruptedMove(): Promise<void> {
+  if (!migrationManager.job()) return;
+
+  try {
+    const result = await migrationManager.resume();
+    if (!result) return;
+    if (result.failed.length > 0) {
+      toastStore.warning(
+        `Finished an interrupted move — ${result.failed.length} ${result.failed.length === 1 ? "entry" : "entries"} could not be moved`,
+      );
+    } else if (result.moved > 0) {
+      toastStore.success(
+        `Finished moving ${result.moved} ${result.moved === 1 ? "entry" : "entries"}`,
+      );
+    }
+  } catch (err) {
+    console.warn("[init] Failed to resume moving entries:", err);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Cloud Provider Initialization
 // ---------------------------------------------------------------------------
 
 /**
- * Try to restore a previous cloud session on app boot.
+ * Try to restore the previous session of every cloud connection on app boot.
  * Non-blocking — failures are silently logged. The user can re-connect
  * via Settings if the session couldn't be restored (e.g. token expired).
  */
 async function initializeCloud(): Promise<void> {
-  try {
-    const driveProvider = new GoogleDriveProvider();
-    await cloudStore.tryRestore(driveProvider);
-  } catch (err) {
-    console.warn("[init] Cloud session restore failed:", err);
-    // Non-critical — user can manually connect in Settings
+  const connections = cloudStore.connections();
+  if (connections.length === 0) return;
+
+  // Show progress of uploads the service worker kept running while the app
+  // was closed — they finish once the session is back
+  void cloudSyncManager.watchBackgroundUploads();
+
+  for (const connection of connections) {
+    try {
+      await cloudStore.tryRestore(connection);
+    } catch (err) {
+      console.warn(`[init] Cloud session restore failed for ${connection.id}:`, err);
+      // Non-critical — user can manually connect in Settings
+    }
   }
 }
 
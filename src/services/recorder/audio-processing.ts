@@ -0,0 +1,158 @@
+import type { AudioProcessing, MicrophoneSettings } from "~/models/types";
+
+/**
+ * Microphone audio: the constraints asked of the browser (its own echo
+ * cancellation, noise suppression and auto gain), and VidLog's optional
+ * Web Audio chain applied on top before the track is recorded:
+ *
+ *   Mic → high-pass → noise gate → compressor → gain → recording (and the level meter)
+ *
+ * Every stage has a neutral setting rather than being bypassed, so the
+ * chain can be retuned while recording without rewiring the graph.
+ */
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessing = {
+  enabled: false,
+  highPassHz: 80,
+  compressor: true,
+  gateThresholdDb: -100,
+  gainDb: 0,
+};
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  processing: DEFAULT_AUDIO_PROCESSING,
+};
+
+/** Gate threshold at or below which the gate stays open */
+export const GATE_OFF_DB = -100;
+
+/** getUserMedia audio constraints for a microphone (null for the browser's default) */
+export function microphoneConstraints(deviceId: string | null, settings: MicrophoneSettings): MediaTrackConstraints {
+  return {
+    deviceId: deviceId ? { exact: deviceId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+/**
+ * Audio worklet muting the signal while its envelope stays under the
+ * threshold. The envelope follows peaks instantly and decays over ~150 ms;
+ * the gain opens in ~2 ms and closes over ~50 ms so words aren't clipped.
+ */
+const GATE_WORKLET = `
+class GateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: "threshold", defaultValue: ${GATE_OFF_DB}, minValue: ${GATE_OFF_DB}, maxValue: 0, automationRate: "k-rate" }];
+  }
+
+  constructor() {
+    super();
+    this.envelope = 0;
+    this.gain = 1;
+    this.release = Math.exp(-1 / (0.15 * sampleRate));
+    this.open = Math.exp(-1 / (0.002 * sampleRate));
+    this.close = Math.exp(-1 / (0.05 * sampleRate));
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (input.length === 0) return true;
+    const db = parameters.threshold[0];
+    const threshold = db <= ${GATE_OFF_DB} ? 0 : Math.pow(10, db / 20);
+    for (let i = 0; i < input[0].length; i++) {
+      let level = 0;
+      for (const channel of input) level = Math.max(level, Math.abs(channel[i]));
+      this.envelope = level > this.envelope ? level : this.envelope * this.release;
+      const target = this.envelope >= threshold ? 1 : 0;
+      const rate = target > this.gain ? this.open : this.close;
+      this.gain = target + (this.gain - target) * rate;
+      for (let c = 0; c < output.length; c++) output[c][i] = (input[c] ?? input[0])[i] * this.gain;
+    }
+    return true;
+  }
+}
+registerProcessor("vidlog-gate", GateProcessor);
+`;
+
+/** The processing chain's nodes in one AudioContext — see the module comment */
+export class AudioChain {
+  private highPass: BiquadFilterNode;
+  private gate: AudioWorkletNode;
+  private compressor: DynamicsCompressorNode;
+  private gain: GainNode;
+
+  private constructor(context: AudioContext, channels: number) {
+    this.highPass = context.createBiquadFilter();
+    this.gate = new AudioWorkletNode(context, "vidlog-gate", {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [channels],
+      channelCount: channels,
+      channelCountMode: "explicit",
+    });
+    this.compressor = context.createDynamicsCompressor();
+    this.gain = context.createGain();
+    this.highPass.connect(this.gate);
+    this.gate.connect(this.compressor);
+    this.compressor.connect(this.gain);
+  }
+
+  /** Load the gate worklet into the context and build the chain */
+  static async create(context: AudioContext, processing: AudioProcessing, channels: number): Promise<AudioChain> {
+    const url = URL.createObjectURL(new Blob([GATE_WORKLET], { type: "text/javascript" }));
+    try {
+      await context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    const chain = new AudioChain(context, Math.min(Math.max(channels, 1), 2));
+    chain.update(processing);
+    return chain;
+  }
+
+  /** Where the mic connects */
+  get input(): AudioNode {
+    return this.highPass;
+  }
+
+  /** The processed audio */
+  get output(): AudioNode {
+    return this.gain;
+  }
+
+  /** Retune every stage — takes effect immediately, also while recording */
+  update(processing: AudioProcessing): void {
+    const now = this.gain.context.currentTime;
+
+    // An all-pass filter leaves the level alone when the high-pass is off
+    this.highPass.type = processing.highPassHz > 0 ? "highpass" : "allpass";
+    this.highPass.frequency.setValueAtTime(processing.highPassHz > 0 ? processing.highPassHz : 1000, now);
+    this.highPass.Q.setValueAtTime(Math.SQRT1_2, now);
+
+    this.gate.parameters.get("threshold")?.setValueAtTime(Math.max(GATE_OFF_DB, processing.gateThresholdDb), now);
+
+    // A 1:1 ratio with no knee passes everything through untouched
+    const c = this.compressor;
+    c.threshold.setValueAtTime(processing.compressor ? -24 : 0, now);
+    c.knee.setValueAtTime(processing.compressor ? 12 : 0, now);
+    c.ratio.setValueAtTime(processing.compressor ? 4 : 1, now);
+    c.attack.setValueAtTime(0.005, now);
+    c.release.setValueAtTime(0.2, now);
+
+    // Ramp rather than jump, so dragging the slider doesn't click
+    this.gain.gain.setTargetAtTime(Math.pow(10, processing.gainDb / 20), now, 0.02);
+  }
+
+  disconnect(): void {
+    this.highPass.disconnect();
+    this.gate.disconnect();
+    this.compressor.disconnect();
+    this.gain.disconnect();
+  }
+}
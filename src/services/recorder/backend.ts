@@ -0,0 +1,45 @@
+/**
+ * A recording backend encodes the engine's composited canvas, plus the
+ * camera stream's audio, into a video file — or, without a canvas, the
+ * audio alone into an audio file. RecordingEngine draws the frames and
+ * keeps time; the backend only encodes.
+ *
+ * - MediaRecorderBackend: captureStream + MediaRecorder. Works everywhere,
+ *   but the browser picks what it can from a codec fallback chain, and its
+ *   files have no duration or seek index.
+ * - WebCodecsBackend: VideoEncoder/AudioEncoder + our own MP4/WebM muxers.
+ *   Records exactly the chosen format, with a duration and seek index — or
+ *   isn't used at all.
+ */
+
+export interface RecordingBackendOptions {
+  /** The frames to record — null records the stream's audio alone */
+  canvas: HTMLCanvasElement | null;
+  stream: MediaStream;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number | undefined;
+  frameRate: number;
+  /** Called with each piece of the file as it's produced */
+  onChunk: (chunk: Blob) => void;
+}
+
+export interface RecordingBackend {
+  /** MIME type of the file being recorded, with the codecs when known */
+  readonly mimeType: string;
+
+  /** Start a new recording (the backend is reused for every take) */
+  start(): void;
+  pause(): void;
+  resume(): void;
+  /** Finish the recording and return the whole file */
+  stop(): Promise<Blob>;
+  /** Abandon any recording and free resources */
+  destroy(): void;
+
+  /**
+   * The canvas holds a new frame, `elapsed` seconds into the recording.
+   * Only called while recording (not paused). Backends that capture the
+   * canvas as a stream don't need it.
+   */
+  captureFrame?(elapsed: number): void;
+}
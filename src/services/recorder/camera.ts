@@ -3,13 +3,20 @@ export interface CameraDevice {
   label: string;
 }
 
+export interface MicrophoneDevice {
+  deviceId: string;
+  label: string;
+}
+
 /**
  * Request camera access with the given constraints.
- * Returns a MediaStream with video + audio tracks.
+ * Returns a MediaStream with video + audio tracks — `audio` picks the
+ * microphone and its processing (see microphoneConstraints()).
  */
 export async function requestCamera(
   deviceId?: string,
   resolution?: { width: number; height: number },
+  audio: MediaTrackConstraints | boolean = true,
 ): Promise<MediaStream> {
   const constraints: MediaStreamConstraints = {
     video: {
@@ -18,11 +25,39 @@ export async function requestCamera(
       height: { ideal: resolution?.height ?? 720 },
       facingMode: "user",
     },
-    audio: true,
+    audio,
   };
   return navigator.mediaDevices.getUserMedia(constraints);
 }
 
+/**
+ * Request microphone access alone, for an audio-only recording.
+ * Returns a MediaStream with just an audio track.
+ */
+export async function requestMicrophone(audio: MediaTrackConstraints | boolean = true): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({ audio, video: false });
+}
+
+/** Whether this browser can share a screen, window or tab (desktop browsers) */
+export function canCaptureScreen(): boolean {
+  return typeof navigator.mediaDevices?.getDisplayMedia === "function";
+}
+
+/**
+ * Ask the user to pick a screen, window or tab to record.
+ * With `withAudio`, tab or system audio is offered too — the browser (and
+ * the user) decide whether any is shared.
+ */
+export async function requestScreen(withAudio: boolean): Promise<MediaStream> {
+  // systemAudio is Chromium-only and not in the DOM typings yet
+  const options: DisplayMediaStreamOptions & { systemAudio?: "include" | "exclude" } = {
+    video: { frameRate: { ideal: 30 } },
+    audio: withAudio,
+    systemAudio: withAudio ? "include" : "exclude",
+  };
+  return navigator.mediaDevices.getDisplayMedia(options);
+}
+
 /**
  * Enumerate available video input devices.
  * Note: labels may be empty until permission is granted.
@@ -37,9 +72,68 @@ export async function listCameras(): Promise<CameraDevice[]> {
     }));
 }
 
+/**
+ * Enumerate available audio input devices.
+ * Note: labels may be empty until permission is granted.
+ */
+export async function listMicrophones(): Promise<MicrophoneDevice[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return (
+    devices
+      // Chromium lists aliases for its default and communications devices — the real ones are listed too
+      .filter((d) => d.kind === "audioinput" && d.deviceId !== "default" && d.deviceId !== "communications")
+      .map((d, i) => ({
+        deviceId: d.deviceId,
+        label: d.label || `Microphone ${i + 1}`,
+      }))
+  );
+}
+
 /**
  * Stop all tracks on a MediaStream.
  */
 export function stopStream(stream: MediaStream): void {
   stream.getTracks().forEach((track) => track.stop());
 }
+
+/**
+ * A synthetic video stream standing in for the camera — a dark backdrop
+ * with a head-and-shoulders silhouette — so overlays can be previewed
+ * without camera access. Painting stops once the track is stopped
+ * (e.g. via stopStream()).
+ */
+export function createSampleStream(width = 1280, height = 720): MediaStream {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas 2D context");
+
+  const stream = canvas.captureStream(30);
+  const [track] = stream.getVideoTracks();
+
+  const paint = (now: number) => {
+    if (track.readyState === "ended") return;
+
+    const bg = ctx.createLinearGradient(0, 0, width, height);
+    bg.addColorStop(0, "#1b2430");
+    bg.addColorStop(1, "#3a3f4b");
+    ctx.fillStyle = bg;
+    ctx.fillRect(0, 0, width, height);
+
+    // Slow "breathing" so the stream keeps producing frames
+    const sway = Math.sin(now / 1500) * height * 0.005;
+    ctx.fillStyle = "#59606e";
+    ctx.beginPath();
+    ctx.arc(width / 2, height * 0.42 + sway, height * 0.16, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.ellipse(width / 2, height + sway, width * 0.24, height * 0.36, 0, Math.PI, 0);
+    ctx.fill();
+
+    requestAnimationFrame(paint);
+  };
+  requestAnimationFrame(paint);
+
+  return stream;
+}
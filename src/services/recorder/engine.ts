@@ -1,8 +1,43 @@
-import type { DiaryTemplate, TemplateFrame, RecordingFormat } from "~/models/types";
+import type {
+  DiaryTemplate,
+  TemplateFrame,
+  RecordingEncoder,
+  RecordingFormat,
+  MediaKind,
+  AudioProcessing,
+  PipBubble,
+  ScreenLayout,
+} from "~/models/types";
+import type { RecordingBackend, RecordingBackendOptions } from "./backend";
+import { DEFAULT_BUBBLE, drawLayout, fitScreen } from "./layout";
+import { MediaRecorderBackend } from "./media-recorder";
+import { WebCodecsBackend } from "./webcodecs";
+import { drawVisualizer } from "./visualizer";
+import { AudioChain } from "./audio-processing";
+import { WAVEFORM_STEP, resampleWaveform } from "~/utils/waveform";
 
 export interface RecordingEngineConfig {
   canvas: HTMLCanvasElement;
+  /** Webcam (video + audio), or the mic alone for an audio-only recording */
   stream: MediaStream;
+  /**
+   * Shared screen, window or tab for a screen recording (see layout.ts).
+   * Its audio, if any, is mixed with the webcam stream's.
+   */
+  screen?: MediaStream | null;
+  /** Screen recording layout (default "bubble") — can change while recording */
+  layout?: ScreenLayout;
+  /** Webcam bubble position for the "bubble" layout */
+  bubble?: PipBubble;
+  /**
+   * Audio-only recordings: whether the visualizer is recorded as a video
+   * track (default false — audio alone). The preview always shows it.
+   */
+  visualizer?: boolean;
+  /** Canvas size when there's no camera to take it from (default 1280×720) */
+  visualizerSize?: { width: number; height: number };
+  /** Processing applied to the mic before it's recorded (see audio-processing.ts) */
+  processing?: AudioProcessing | null;
   template: DiaryTemplate | null;
   title: string;
   videoBitsPerSecond: number;
@@ -10,7 +45,14 @@ export interface RecordingEngineConfig {
   frameRate: number;
   /** User's preferred recording format — determines the codec fallback chain */
   preferredFormat: RecordingFormat;
+  /**
+   * Which encoder to record with (default "mediarecorder"). WebCodecs falls
+   * back to MediaRecorder when it can't encode the preferred format.
+   */
+  encoder?: RecordingEncoder;
   onElapsedUpdate: (elapsed: number) => void;
+  /** Called with every recorded chunk as it arrives (e.g. to spool it to disk). Optional. */
+  onChunk?: (chunk: Blob, elapsed: number) => void;
   onMaxDuration: () => void;
   maxDuration: number;
 }
@@ -18,18 +60,37 @@ export interface RecordingEngineConfig {
 /**
  * RecordingEngine handles:
  * 1. Drawing webcam frames + template overlays onto a canvas
- * 2. Capturing the composited canvas as a MediaStream
- * 3. Recording via MediaRecorder
+ * 2. Recording the composited canvas through a RecordingBackend
+ *    (MediaRecorder or WebCodecs — see backend.ts)
  *
  * Pipeline:
- *   Webcam → hidden <video> → Canvas drawImage → template.render() → captureStream → MediaRecorder → Blob
+ *   Webcam → hidden <video> → Canvas drawImage → template.render() → backend → Blob
+ *
+ * Screen recordings add a second hidden <video> for the shared screen; each
+ * frame is composed from both by drawLayout() before the overlay is drawn.
+ * The canvas takes the screen's aspect ratio, within the webcam's resolution.
+ *
+ * Audio-only recordings (a stream without video) draw the visualizer in the
+ * webcam's place, and record the mic alone unless `visualizer` asks for the
+ * frames too. Peak levels are kept while recording for the entry's waveform.
+ *
+ * With processing enabled, the mic runs through an AudioChain first; the
+ * recording, the templates and the level meter all get the processed audio.
+ *
+ * Chunks are also handed to `onChunk` as they arrive, so callers can persist
+ * them incrementally (see RecordingSpool) instead of relying on stop().
  */
 export class RecordingEngine {
   private config: RecordingEngineConfig;
   private videoEl: HTMLVideoElement;
+  /** Plays the shared screen — null for camera recordings */
+  private screenEl: HTMLVideoElement | null = null;
+  /** No camera — the visualizer is drawn instead */
+  private audioOnly: boolean;
   private ctx: CanvasRenderingContext2D;
-  private mediaRecorder: MediaRecorder | null = null;
-  private chunks: Blob[] = [];
+  /** Encodes the recording — chosen in prepare() */
+  private backend: RecordingBackend | null = null;
+  private state: "inactive" | "recording" | "paused" = "inactive";
   private animFrameId: number = 0;
   private startTime: number = 0;
   private pausedElapsed: number = 0;
@@ -42,12 +103,26 @@ export class RecordingEngine {
   private analyser: AnalyserNode | null = null;
   private audioFrequencyData: Uint8Array<ArrayBuffer> | null = null;
   private audioLevel: number = 0;
+  /** Waveform samples for the peak level */
+  private audioTimeData: Float32Array<ArrayBuffer> | null = null;
+  /** Loudest sample of the latest frame, 0–1 (1 = clipping) */
+  private peakLevel: number = 0;
+  /** The mic's processing — null when it's off or couldn't be set up */
+  private chain: AudioChain | null = null;
+  /**
+   * The audio track the backend records when it isn't the webcam stream's
+   * own: processed, or mixed with the screen's. Null otherwise.
+   */
+  private recordedAudio: MediaStream | null = null;
+  /** Loudest level per WAVEFORM_STEP of the current take (sparse if frames were skipped) */
+  private levelPeaks: number[] = [];
 
-  /** The MIME type actually negotiated with MediaRecorder (set during start()) */
+  /** The MIME type actually negotiated with the backend (set during start()) */
   private negotiatedMimeType: string = "video/webm";
 
   constructor(config: RecordingEngineConfig) {
     this.config = config;
+    this.audioOnly = config.stream.getVideoTracks().length === 0;
 
     // Create hidden video element to play the webcam stream
     this.videoEl = document.createElement("video");
@@ -55,115 +130,126 @@ export class RecordingEngine {
     this.videoEl.muted = true;
     this.videoEl.playsInline = true;
 
+    if (config.screen) {
+      this.screenEl = document.createElement("video");
+      this.screenEl.srcObject = config.screen;
+      this.screenEl.muted = true;
+      this.screenEl.playsInline = true;
+    }
+
     const ctx = config.canvas.getContext("2d", { alpha: false });
     if (!ctx) throw new Error("Could not get canvas 2D context");
     this.ctx = ctx;
   }
 
-  /** The actual video dimensions after prepare() resolves */
+  /** The actual video dimensions after prepare() resolves — 0×0 when no video is recorded */
   get videoDimensions(): { width: number; height: number } {
+    if (!this.recordsVideo) return { width: 0, height: 0 };
     return { width: this.config.canvas.width, height: this.config.canvas.height };
   }
 
+  /** Whether recordings are videos or audio-only */
+  get mediaKind(): MediaKind {
+    return this.audioOnly ? "audio" : "video";
+  }
+
+  /** Whether the recorded file has a video track — false for audio without the visualizer */
+  private get recordsVideo(): boolean {
+    return !this.audioOnly || !!this.config.visualizer;
+  }
+
+  /** Peak levels (0–1) across the last take, for an audio entry's waveform */
+  get waveform(): number[] {
+    return resampleWaveform(Array.from(this.levelPeaks, (peak) => peak ?? 0));
+  }
+
+  /** The mic's latest peak level, 0–1 — for a level meter */
+  get inputPeak(): number {
+    return this.peakLevel;
+  }
+
+  /** The encoder recordings use — set by prepare(), after any fallback */
+  get encoder(): RecordingEncoder {
+    return this.backend instanceof WebCodecsBackend ? "webcodecs" : "mediarecorder";
+  }
+
+  /** The layout screen recordings are composed with — null for camera recordings */
+  get screenLayout(): ScreenLayout | null {
+    return this.screenEl ? (this.config.layout ?? "bubble") : null;
+  }
+
   /** Prepare the engine — starts video playback and render loop (but not recording) */
   async prepare(): Promise<void> {
-    await this.videoEl.play();
-
-    // Match canvas to actual video dimensions.
-    // videoWidth/videoHeight may still be 0 right after play() on some browsers,
-    // so wait for loadedmetadata if needed.
-    let vw = this.videoEl.videoWidth;
-    let vh = this.videoEl.videoHeight;
-    if (!vw || !vh) {
-      await new Promise<void>((resolve) => {
-        const onMeta = () => {
-          this.videoEl.removeEventListener("loadedmetadata", onMeta);
-          resolve();
-        };
-        // If metadata is already loaded (readyState >= 1), resolve immediately
-        if (this.videoEl.readyState >= 1) {
-          resolve();
-        } else {
-          this.videoEl.addEventListener("loadedmetadata", onMeta);
-        }
-      });
-      vw = this.videoEl.videoWidth;
-      vh = this.videoEl.videoHeight;
+    // Without a camera the canvas takes the configured size; the visualizer fills it
+    let size = this.config.visualizerSize ?? { width: 1280, height: 720 };
+    if (!this.audioOnly) {
+      await this.videoEl.play();
+      const camera = await waitForDimensions(this.videoEl);
+
+      // Match canvas to the actual video dimensions — or, for a screen
+      // recording, to the screen's shape within the webcam's resolution
+      size = camera;
+      if (this.screenEl) {
+        await this.screenEl.play();
+        const screen = await waitForDimensions(this.screenEl);
+        if (screen.width && screen.height && camera.width && camera.height) size = fitScreen(screen, camera);
+      }
     }
-    if (vw && vh) {
-      this.config.canvas.width = vw;
-      this.config.canvas.height = vh;
+    if (size.width && size.height) {
+      this.config.canvas.width = size.width;
+      this.config.canvas.height = size.height;
     }
 
-    // Set up audio analysis if the stream has audio tracks
-    const audioTracks = this.config.stream.getAudioTracks();
-    if (audioTracks.length > 0) {
-      try {
-        this.audioContext = new AudioContext();
-        const source = this.audioContext.createMediaStreamSource(this.config.stream);
-        this.analyser = this.audioContext.createAnalyser();
-        this.analyser.fftSize = 256; // 128 frequency bins — cheap and sufficient
-        this.analyser.smoothingTimeConstant = 0.6;
-        source.connect(this.analyser);
-        // Do NOT connect analyser to destination — we don't want to play audio through speakers
-        this.audioFrequencyData = new Uint8Array(this.analyser.frequencyBinCount);
-      } catch (e) {
-        console.warn("[RecordingEngine] Failed to set up audio analysis:", e);
-        // Non-fatal — templates will just get audioLevel=0 and null frequency data
-      }
-    }
+    await this.setUpAudio();
+
+    this.backend = await this.createBackend();
 
     this.isRunning = true;
     this.renderLoop();
   }
 
-  /** Start recording */
-  start(): void {
-    // H4: Guard against duplicate MediaRecorder
-    if (this.mediaRecorder?.state === "recording") return;
-
-    // Capture the canvas as a stream at the configured frame rate
-    const canvasStream = this.config.canvas.captureStream(this.config.frameRate);
-
-    // Add audio tracks from the webcam stream
-    const audioTracks = this.config.stream.getAudioTracks();
-    for (const track of audioTracks) {
-      canvasStream.addTrack(track);
-    }
-
-    // Determine best supported mime type for the user's preferred format
-    const mimeType = this.getSupportedMimeType(this.config.preferredFormat);
-    this.negotiatedMimeType = mimeType;
-
-    const recorderOptions: MediaRecorderOptions = {
-      mimeType,
+  /** The backend the config asks for, or MediaRecorder if WebCodecs can't encode the format */
+  private async createBackend(): Promise<RecordingBackend> {
+    const options: RecordingBackendOptions = {
+      canvas: this.recordsVideo ? this.config.canvas : null,
+      stream: this.recordedAudio ?? this.config.stream,
       videoBitsPerSecond: this.config.videoBitsPerSecond,
+      audioBitsPerSecond: this.config.audioBitsPerSecond,
+      frameRate: this.config.frameRate,
+      onChunk: (chunk) => this.config.onChunk?.(chunk, this.getElapsed()),
     };
-    if (this.config.audioBitsPerSecond !== undefined) {
-      recorderOptions.audioBitsPerSecond = this.config.audioBitsPerSecond;
+    if (this.config.encoder === "webcodecs") {
+      const backend = await WebCodecsBackend.create(options, this.config.preferredFormat);
+      if (backend) return backend;
+      console.info(
+        `[RecordingEngine] WebCodecs can't record ${this.config.preferredFormat} here — using MediaRecorder`,
+      );
     }
+    return new MediaRecorderBackend(options, this.config.preferredFormat);
+  }
 
-    this.mediaRecorder = new MediaRecorder(canvasStream, recorderOptions);
-
-    this.chunks = [];
-    this.mediaRecorder.ondataavailable = (e) => {
-      if (e.data.size > 0) {
-        this.chunks.push(e.data);
-      }
-    };
-
-    // Collect data every second for memory efficiency
-    this.mediaRecorder.start(1000);
+  /** Start recording */
+  start(): void {
+    // H4: Guard against duplicate recordings
+    if (!this.backend || this.state !== "inactive") return;
+
+    // The context may have started suspended (no user gesture yet) — processed and mixed audio need it running
+    void this.audioContext?.resume();
+    this.backend.start();
+    this.negotiatedMimeType = this.backend.mimeType;
+    this.state = "recording";
     this.startTime = performance.now();
     this.pausedElapsed = 0;
     this.isPaused = false;
     this.maxDurationFired = false;
+    this.levelPeaks = [];
   }
 
   /** Pause recording */
   pause(): void {
-    if (this.mediaRecorder?.state === "recording") {
-      this.mediaRecorder.pause();
+    if (this.state === "recording") {
+      this.backend?.pause();
+      this.state = "paused";
       this.pausedElapsed = this.getElapsed();
       this.isPaused = true;
     }
@@ -171,15 +257,16 @@ export class RecordingEngine {
 
   /** Resume recording */
   resume(): void {
-    if (this.mediaRecorder?.state === "paused") {
-      this.mediaRecorder.resume();
+    if (this.state === "paused") {
+      this.backend?.resume();
+      this.state = "recording";
       this.startTime = performance.now() - this.pausedElapsed * 1000;
       this.isPaused = false;
     }
   }
 
   /** Stop recording and return the final video blob */
-  stop(): Promise<Blob> {
+  async stop(): Promise<Blob> {
     // Stop the render loop while in preview — no need to keep drawing
     this.isRunning = false;
     if (this.animFrameId) {
@@ -187,43 +274,17 @@ export class RecordingEngine {
       this.animFrameId = 0;
     }
 
-    return new Promise((resolve) => {
-      if (!this.mediaRecorder) {
-        resolve(new Blob([], { type: this.negotiatedMimeType }));
-        return;
-      }
-
-      // H3: Timeout — resolve with whatever chunks we have if onstop never fires
-      const timeout = setTimeout(() => {
-        console.warn("[RecordingEngine] stop() timed out after 5s");
-        const blob = new Blob(this.chunks, { type: this.chunks[0]?.type || this.negotiatedMimeType });
-        this.chunks = [];
-        resolve(blob);
-      }, 5000);
-
-      this.mediaRecorder.onstop = () => {
-        clearTimeout(timeout);
-        const blob = new Blob(this.chunks, { type: this.chunks[0]?.type || this.negotiatedMimeType });
-        this.chunks = [];
-        resolve(blob);
-      };
-
-      if (
-        this.mediaRecorder.state === "recording" ||
-        this.mediaRecorder.state === "paused"
-      ) {
-        this.mediaRecorder.stop();
-      } else {
-        clearTimeout(timeout);
-        resolve(new Blob([], { type: this.negotiatedMimeType }));
-      }
-    });
+    if (!this.backend || this.state === "inactive") {
+      return new Blob([], { type: this.negotiatedMimeType });
+    }
+    this.state = "inactive";
+    return this.backend.stop();
   }
 
   /** Resume the canvas preview render loop (after stop/discard, before next recording) */
   resumePreview(): void {
     if (this.isRunning) return; // Already running
-    this.mediaRecorder = null;
+    this.state = "inactive";
     this.startTime = 0;
     this.pausedElapsed = 0;
     this.isPaused = false;
@@ -238,19 +299,17 @@ export class RecordingEngine {
       cancelAnimationFrame(this.animFrameId);
       this.animFrameId = 0;
     }
-    if (
-      this.mediaRecorder &&
-      (this.mediaRecorder.state === "recording" ||
-        this.mediaRecorder.state === "paused")
-    ) {
-      this.mediaRecorder.stop();
-    }
-    this.mediaRecorder = null;
-    this.chunks = [];
+    this.backend?.destroy();
+    this.backend = null;
+    this.state = "inactive";
     this.videoEl.pause();
     this.videoEl.srcObject = null;
+    this.screenEl?.pause();
+    if (this.screenEl) this.screenEl.srcObject = null;
 
     // Clean up audio analysis resources
+    this.chain?.disconnect();
+    this.chain = null;
     if (this.audioContext) {
       void this.audioContext.close().catch(() => {});
       this.audioContext = null;
@@ -258,6 +317,9 @@ export class RecordingEngine {
     this.analyser = null;
     this.audioFrequencyData = null;
     this.audioLevel = 0;
+    this.audioTimeData = null;
+    this.peakLevel = 0;
+    this.recordedAudio = null;
   }
 
   /** Update the template (e.g. user switches template mid-preview) */
@@ -265,6 +327,30 @@ export class RecordingEngine {
     this.config.template = template;
   }
 
+  /** Switch the screen recording layout — takes effect from the next frame */
+  setLayout(layout: ScreenLayout): void {
+    this.config.layout = layout;
+  }
+
+  /** Move or resize the webcam bubble */
+  setBubble(bubble: PipBubble): void {
+    this.config.bubble = bubble;
+  }
+
+  /**
+   * Retune the mic's processing — takes effect immediately, also while
+   * recording. Turning it on or off needs a new engine.
+   */
+  setProcessing(processing: AudioProcessing): void {
+    this.config.processing = processing;
+    this.chain?.update(processing);
+  }
+
+  /** Set (or clear) the chunk callback — e.g. attach a fresh spool for each take */
+  setOnChunk(onChunk: ((chunk: Blob, elapsed: number) => void) | undefined): void {
+    this.config.onChunk = onChunk;
+  }
+
   /** Update the title shown on overlay */
   setTitle(title: string): void {
     this.config.title = title;
@@ -287,8 +373,22 @@ export class RecordingEngine {
     // Sample audio data for template visualizations
     this.sampleAudio();
 
-    // Draw the webcam frame
-    ctx.drawImage(this.videoEl, 0, 0, canvas.width, canvas.height);
+    // Draw the webcam frame — or the screen and webcam together, or the visualizer
+    if (this.audioOnly) {
+      const color = this.config.template?.config.colorPrimary ?? "#00ffff";
+      drawVisualizer(ctx, this.audioFrequencyData, this.audioLevel, canvas.width, canvas.height, color);
+    } else if (this.screenEl) {
+      drawLayout(
+        ctx,
+        { screen: this.screenEl, camera: this.videoEl },
+        this.config.layout ?? "bubble",
+        this.config.bubble ?? DEFAULT_BUBBLE,
+        canvas.width,
+        canvas.height,
+      );
+    } else {
+      ctx.drawImage(this.videoEl, 0, 0, canvas.width, canvas.height);
+    }
 
     // Draw template overlay on top
     if (this.config.template) {
@@ -298,15 +398,16 @@ export class RecordingEngine {
         height: canvas.height,
         timestamp: Date.now(),
         elapsed,
-        isRecording: this.mediaRecorder?.state === "recording",
+        isRecording: this.state === "recording",
         title: this.config.title,
         audioLevel: this.audioLevel,
         audioFrequencyData: this.audioFrequencyData,
+        audioOnly: this.audioOnly,
       };
-      this.config.template.render(ctx, frame);
+      this.config.template.render(ctx, frame, this.config.template.config);
 
       // Update elapsed time callback
-      if (this.mediaRecorder?.state === "recording") {
+      if (this.state === "recording") {
         this.config.onElapsedUpdate(elapsed);
 
         // Check max duration (fire only once)
@@ -315,7 +416,7 @@ export class RecordingEngine {
           this.config.onMaxDuration();
         }
       }
-    } else if (this.mediaRecorder?.state === "recording") {
+    } else if (this.state === "recording") {
       const elapsed = this.getElapsed();
       this.config.onElapsedUpdate(elapsed);
       if (!this.maxDurationFired && elapsed >= this.config.maxDuration) {
@@ -324,13 +425,78 @@ export class RecordingEngine {
       }
     }
 
+    if (this.state === "recording") {
+      const elapsed = this.getElapsed();
+      // Keep the loudest level of each step for the waveform
+      const step = Math.floor(elapsed / WAVEFORM_STEP);
+      this.levelPeaks[step] = Math.max(this.levelPeaks[step] ?? 0, this.audioLevel);
+
+      // Hand the finished frame to backends that encode frame by frame
+      this.backend?.captureFrame?.(elapsed);
+    }
+
     this.animFrameId = requestAnimationFrame(this.renderLoop);
   };
 
-  /** Sample audio frequency data and compute RMS level (called every frame) */
+  /**
+   * Analyse the audio for template visualizations and the level meter,
+   * process the mic, and mix screen audio with it so the backend records both
+   */
+  private async setUpAudio(): Promise<void> {
+    const mic = this.config.stream.getAudioTracks().length > 0 ? this.config.stream : null;
+    const screen = this.config.screen?.getAudioTracks().length ? this.config.screen : null;
+    if (!mic && !screen) return;
+
+    try {
+      this.audioContext = new AudioContext();
+      // May start suspended without a user gesture — the level meter needs it running before start()
+      void this.audioContext.resume();
+      this.analyser = this.audioContext.createAnalyser();
+      this.analyser.fftSize = 256; // 128 frequency bins — cheap and sufficient
+      this.analyser.smoothingTimeConstant = 0.6;
+      // Do NOT connect analyser to destination — we don't want to play audio through speakers
+      this.audioFrequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+      this.audioTimeData = new Float32Array(this.analyser.fftSize);
+
+      let micOut: AudioNode | null = null;
+      if (mic) {
+        micOut = this.audioContext.createMediaStreamSource(mic);
+        if (this.config.processing?.enabled) {
+          const channels = mic.getAudioTracks()[0].getSettings().channelCount ?? 1;
+          try {
+            this.chain = await AudioChain.create(this.audioContext, this.config.processing, channels);
+            micOut.connect(this.chain.input);
+            micOut = this.chain.output;
+          } catch (e) {
+            // Non-fatal — the mic is recorded as it comes
+            console.warn("[RecordingEngine] Failed to set up audio processing:", e);
+            this.chain = null;
+          }
+        }
+      }
+
+      const output = this.chain || screen ? this.audioContext.createMediaStreamDestination() : null;
+      for (const node of [micOut, screen && this.audioContext.createMediaStreamSource(screen)]) {
+        if (!node) continue;
+        node.connect(this.analyser);
+        if (output) node.connect(output);
+      }
+      this.recordedAudio = output?.stream ?? null;
+    } catch (e) {
+      console.warn("[RecordingEngine] Failed to set up audio analysis:", e);
+      // Non-fatal — templates will just get audioLevel=0 and null frequency data,
+      // and only the webcam's audio is recorded
+      this.chain?.disconnect();
+      this.chain = null;
+      this.recordedAudio = null;
+    }
+  }
+
+  /** Sample audio frequency data and compute RMS and peak levels (called every frame) */
   private sampleAudio(): void {
     if (!this.analyser || !this.audioFrequencyData) {
       this.audioLevel = 0;
+      this.peakLevel = 0;
       return;
     }
 
@@ -344,50 +510,43 @@ export class RecordingEngine {
       sum += normalized * normalized;
     }
     this.audioLevel = Math.sqrt(sum / data.length);
+
+    // The loudest sample, for the level meter
+    if (this.audioTimeData) {
+      this.analyser.getFloatTimeDomainData(this.audioTimeData);
+      let peak = 0;
+      for (let i = 0; i < this.audioTimeData.length; i++) peak = Math.max(peak, Math.abs(this.audioTimeData[i]));
+      this.peakLevel = Math.min(1, peak);
+    }
   }
 
   /**
-   * Get the MIME type that was negotiated with MediaRecorder during start().
+   * Get the MIME type that was negotiated with the backend during start().
    * Call after start() to read the actual format used for this recording.
    */
   getNegotiatedMimeType(): string {
     return this.negotiatedMimeType;
   }
+}
 
-  /** Codec fallback chains per recording format */
-  private static readonly CODEC_CHAINS: Record<RecordingFormat, string[]> = {
-    av1: [
-      "video/mp4;codecs=av01,opus",
-      "video/mp4;codecs=av01,mp4a.40.2",
-      "video/mp4;codecs=av01",
-      // Fall back to WebM if MP4/AV1 is unavailable
-      "video/webm;codecs=vp9,opus",
-      "video/webm",
-    ],
-    h264: [
-      "video/mp4;codecs=avc1,opus",
-      "video/mp4;codecs=avc1,mp4a.40.2",
-      "video/mp4",
-      // Fall back to WebM if MP4/H.264 is unavailable
-      "video/webm;codecs=vp9,opus",
-      "video/webm",
-    ],
-    webm: [
-      "video/webm;codecs=vp9,opus",
-      "video/webm;codecs=vp9",
-      "video/webm;codecs=vp8,opus",
-      "video/webm;codecs=vp8",
-      "video/webm",
-    ],
-  };
-
-  /** Find the best supported MIME type for the given recording format preference */
-  private getSupportedMimeType(format: RecordingFormat): string {
-    const chain = RecordingEngine.CODEC_CHAINS[format];
-    for (const type of chain) {
-      if (MediaRecorder.isTypeSupported(type)) return type;
-    }
-    // Absolute last resort — bare WebM is universally supported
-    return "video/webm";
+/**
+ * A playing video's dimensions. videoWidth/videoHeight may still be 0
+ * right after play() on some browsers, so wait for loadedmetadata if needed.
+ */
+async function waitForDimensions(video: HTMLVideoElement): Promise<{ width: number; height: number }> {
+  if (!video.videoWidth || !video.videoHeight) {
+    await new Promise<void>((resolve) => {
+      const onMeta = () => {
+        video.removeEventListener("loadedmetadata", onMeta);
+        resolve();
+      };
+      // If metadata is already loaded (readyState >= 1), resolve immediately
+      if (video.readyState >= 1) {
+        resolve();
+      } else {
+        video.addEventListener("loadedmetadata", onMeta);
+      }
+    });
   }
+  return { width: video.videoWidth, height: video.videoHeight };
 }
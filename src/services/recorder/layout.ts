@@ -0,0 +1,143 @@
+import type { PipBubble, ScreenLayout } from "~/models/types";
+
+/**
+ * Screen recording layouts — where the shared screen and the webcam go on
+ * the recording canvas. The template overlay is drawn on top afterwards.
+ *
+ *   bubble        the screen fills the frame, the webcam sits in a round
+ *                 bubble the user can drag and resize
+ *   side-by-side  the screen on the left, the webcam in a column on the right
+ *   camera-only   just the webcam (screen audio is still recorded)
+ */
+
+/** Bottom-right corner, about a third of the frame high */
+export const DEFAULT_BUBBLE: PipBubble = { x: 0.84, y: 0.76, size: 0.34 };
+
+/** Share of the frame's width the webcam column takes side by side */
+const SIDE_CAMERA_SHARE = 0.3;
+
+/** Bubble diameter limits, as fractions of the frame height */
+const MIN_BUBBLE_SIZE = 0.12;
+const MAX_BUBBLE_SIZE = 0.7;
+
+/** Grabbing the outer part of the bubble resizes it instead of moving it */
+const RESIZE_RING = 0.75;
+
+export interface LayoutSources {
+  screen: HTMLVideoElement;
+  camera: HTMLVideoElement;
+}
+
+/** Draw `source` over the rectangle, cropped to fill it */
+function drawCover(ctx: CanvasRenderingContext2D, source: HTMLVideoElement, x: number, y: number, w: number, h: number): void {
+  const sw = source.videoWidth;
+  const sh = source.videoHeight;
+  if (!sw || !sh) return;
+  const scale = Math.max(w / sw, h / sh);
+  const cw = w / scale;
+  const ch = h / scale;
+  ctx.drawImage(source, (sw - cw) / 2, (sh - ch) / 2, cw, ch, x, y, w, h);
+}
+
+/** Draw `source` into the rectangle, letterboxed to fit it whole */
+function drawContain(ctx: CanvasRenderingContext2D, source: HTMLVideoElement, x: number, y: number, w: number, h: number): void {
+  const sw = source.videoWidth;
+  const sh = source.videoHeight;
+  if (!sw || !sh) return;
+  const scale = Math.min(w / sw, h / sh);
+  const dw = sw * scale;
+  const dh = sh * scale;
+  ctx.drawImage(source, x + (w - dw) / 2, y + (h - dh) / 2, dw, dh);
+}
+
+/** Compose one frame of a screen recording */
+export function drawLayout(
+  ctx: CanvasRenderingContext2D,
+  sources: LayoutSources,
+  layout: ScreenLayout,
+  bubble: PipBubble,
+  width: number,
+  height: number,
+): void {
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, width, height);
+
+  if (layout === "camera-only") {
+    drawCover(ctx, sources.camera, 0, 0, width, height);
+    return;
+  }
+
+  if (layout === "side-by-side") {
+    const cameraWidth = Math.round(width * SIDE_CAMERA_SHARE);
+    drawContain(ctx, sources.screen, 0, 0, width - cameraWidth, height);
+    drawCover(ctx, sources.camera, width - cameraWidth, 0, cameraWidth, height);
+    return;
+  }
+
+  drawContain(ctx, sources.screen, 0, 0, width, height);
+  const { x, y, size } = clampBubble(bubble, width, height);
+  const radius = (size * height) / 2;
+  const cx = x * width;
+  const cy = y * height;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.clip();
+  drawCover(ctx, sources.camera, cx - radius, cy - radius, radius * 2, radius * 2);
+  ctx.restore();
+
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.lineWidth = Math.max(2, height / 300);
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.8)";
+  ctx.stroke();
+}
+
+/** Keep the bubble within its size limits and inside the frame */
+export function clampBubble(bubble: PipBubble, width: number, height: number): PipBubble {
+  const size = Math.min(Math.max(bubble.size, MIN_BUBBLE_SIZE), MAX_BUBBLE_SIZE);
+  const rx = (size * height) / 2 / width;
+  const ry = size / 2;
+  return {
+    x: Math.min(Math.max(bubble.x, rx), 1 - rx),
+    y: Math.min(Math.max(bubble.y, ry), 1 - ry),
+    size,
+  };
+}
+
+/**
+ * What grabbing the frame at (px, py) — in canvas pixels — does to the
+ * bubble: the middle moves it, the outer ring resizes it.
+ */
+export function bubbleHit(
+  bubble: PipBubble,
+  width: number,
+  height: number,
+  px: number,
+  py: number,
+): "move" | "resize" | null {
+  const { x, y, size } = clampBubble(bubble, width, height);
+  const radius = (size * height) / 2;
+  const distance = Math.hypot(px - x * width, py - y * height);
+  if (distance <= radius * RESIZE_RING) return "move";
+  if (distance <= radius * 1.1) return "resize";
+  return null;
+}
+
+/** Fit a shared screen into the recording resolution's bounds, keeping its aspect ratio */
+export function fitScreen(
+  screen: { width: number; height: number },
+  bounds: { width: number; height: number },
+): { width: number; height: number } {
+  // Compare orientations the same way round, so a portrait screen isn't squeezed into a landscape box
+  const long = Math.max(bounds.width, bounds.height);
+  const short = Math.min(bounds.width, bounds.height);
+  const [maxWidth, maxHeight] = screen.width >= screen.height ? [long, short] : [short, long];
+  const scale = Math.min(1, maxWidth / screen.width, maxHeight / screen.height);
+  // Encoders want even dimensions
+  return {
+    width: Math.max(2, Math.floor((screen.width * scale) / 2) * 2),
+    height: Math.max(2, Math.floor((screen.height * scale) / 2) * 2),
+  };
+}
@@ -0,0 +1,164 @@
+import type { RecordingFormat } from "~/models/types";
+import type { RecordingBackend, RecordingBackendOptions } from "./backend";
+
+/** Codec fallback chains per recording format */
+const CODEC_CHAINS: Record<RecordingFormat, string[]> = {
+  av1: [
+    "video/mp4;codecs=av01,opus",
+    "video/mp4;codecs=av01,mp4a.40.2",
+    "video/mp4;codecs=av01",
+    // Fall back to WebM if MP4/AV1 is unavailable
+    "video/webm;codecs=vp9,opus",
+    "video/webm",
+  ],
+  h264: [
+    "video/mp4;codecs=avc1,opus",
+    "video/mp4;codecs=avc1,mp4a.40.2",
+    "video/mp4",
+    // Fall back to WebM if MP4/H.264 is unavailable
+    "video/webm;codecs=vp9,opus",
+    "video/webm",
+  ],
+  webm: [
+    "video/webm;codecs=vp9,opus",
+    "video/webm;codecs=vp9",
+    "video/webm;codecs=vp8,opus",
+    "video/webm;codecs=vp8",
+    "video/webm",
+  ],
+};
+
+/** Codec fallback chains per recording format, for audio-only recordings — AAC in MP4, Opus in WebM */
+const AUDIO_CODEC_CHAINS: Record<RecordingFormat, string[]> = {
+  av1: [
+    "audio/mp4;codecs=mp4a.40.2",
+    "audio/mp4;codecs=opus",
+    "audio/mp4",
+    "audio/webm;codecs=opus",
+    "audio/webm",
+  ],
+  h264: [
+    "audio/mp4;codecs=mp4a.40.2",
+    "audio/mp4;codecs=opus",
+    "audio/mp4",
+    "audio/webm;codecs=opus",
+    "audio/webm",
+  ],
+  webm: [
+    "audio/webm;codecs=opus",
+    "audio/webm",
+  ],
+};
+
+/** Find the best supported MIME type for the given recording format preference */
+function getSupportedMimeType(format: RecordingFormat, audioOnly: boolean): string {
+  for (const type of (audioOnly ? AUDIO_CODEC_CHAINS : CODEC_CHAINS)[format]) {
+    if (MediaRecorder.isTypeSupported(type)) return type;
+  }
+  // Absolute last resort — bare WebM is universally supported
+  return audioOnly ? "audio/webm" : "video/webm";
+}
+
+/**
+ * Records the canvas with MediaRecorder.
+ *
+ * Pipeline:
+ *   Canvas → captureStream (+ the camera stream's audio tracks) → MediaRecorder → Blob
+ *
+ * Without a canvas, only the audio tracks are recorded.
+ */
+export class MediaRecorderBackend implements RecordingBackend {
+  private options: RecordingBackendOptions;
+  private preferredFormat: RecordingFormat;
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+
+  /** The MIME type actually negotiated with MediaRecorder (set during start()) */
+  mimeType: string;
+
+  constructor(options: RecordingBackendOptions, preferredFormat: RecordingFormat) {
+    this.options = options;
+    this.preferredFormat = preferredFormat;
+    this.mimeType = options.canvas ? "video/webm" : "audio/webm";
+  }
+
+  start(): void {
+    const { canvas } = this.options;
+    // Capture the canvas as a stream at the configured frame rate
+    const canvasStream = canvas ? canvas.captureStream(this.options.frameRate) : new MediaStream();
+
+    // Add audio tracks from the webcam stream
+    for (const track of this.options.stream.getAudioTracks()) {
+      canvasStream.addTrack(track);
+    }
+
+    // Determine best supported mime type for the user's preferred format
+    this.mimeType = getSupportedMimeType(this.preferredFormat, !canvas);
+
+    const recorderOptions: MediaRecorderOptions = { mimeType: this.mimeType };
+    if (canvas) {
+      recorderOptions.videoBitsPerSecond = this.options.videoBitsPerSecond;
+    }
+    if (this.options.audioBitsPerSecond !== undefined) {
+      recorderOptions.audioBitsPerSecond = this.options.audioBitsPerSecond;
+    }
+
+    this.mediaRecorder = new MediaRecorder(canvasStream, recorderOptions);
+
+    this.chunks = [];
+    this.mediaRecorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        this.chunks.push(e.data);
+        this.options.onChunk(e.data);
+      }
+    };
+
+    // Collect data every second for memory efficiency
+    this.mediaRecorder.start(1000);
+  }
+
+  pause(): void {
+    if (this.mediaRecorder?.state === "recording") this.mediaRecorder.pause();
+  }
+
+  resume(): void {
+    if (this.mediaRecorder?.state === "paused") this.mediaRecorder.resume();
+  }
+
+  stop(): Promise<Blob> {
+    return new Promise((resolve) => {
+      const recorder = this.mediaRecorder;
+      this.mediaRecorder = null;
+      if (!recorder || recorder.state === "inactive") {
+        resolve(new Blob([], { type: this.mimeType }));
+        return;
+      }
+
+      const finish = () => {
+        const blob = new Blob(this.chunks, { type: this.chunks[0]?.type || this.mimeType });
+        this.chunks = [];
+        resolve(blob);
+      };
+
+      // H3: Timeout — resolve with whatever chunks we have if onstop never fires
+      const timeout = setTimeout(() => {
+        console.warn("[MediaRecorderBackend] stop() timed out after 5s");
+        finish();
+      }, 5000);
+
+      recorder.onstop = () => {
+        clearTimeout(timeout);
+        finish();
+      };
+      recorder.stop();
+    });
+  }
+
+  destroy(): void {
+    if (this.mediaRecorder && this.mediaRecorder.state !== "inactive") {
+      this.mediaRecorder.stop();
+    }
+    this.mediaRecorder = null;
+    this.chunks = [];
+  }
+}
@@ -0,0 +1,79 @@
+import { build, concat } from "./bytes";
+
+/**
+ * ISO BMFF (MP4) boxes: a 32-bit size, a four-character type, the payload.
+ * Writers for the muxer and the index repair, and a small tree for
+ * editing a moov in place.
+ */
+
+/** Boxes whose payload is just child boxes */
+const CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf", "stbl", "mvex", "edts", "dinf", "moof", "traf", "mfra"]);
+
+export function box(type: string, ...payload: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const body = concat(payload);
+  return concat([build((w) => w.u32(8 + body.length).ascii(type)), body]);
+}
+
+export function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  return box(type, build((w) => w.u8(version).u24(flags)), ...payload);
+}
+
+export interface BoxHeader {
+  type: string;
+  /** Whole box size — for size 0 ("to the end"), what's left of `available` */
+  size: number;
+  headerSize: number;
+}
+
+/**
+ * Read a box header at the start of `bytes`.
+ * @param available Bytes from here to the end of the enclosing box or file
+ * @returns null if there's no complete header
+ */
+export function readBoxHeader(bytes: Uint8Array, available: number): BoxHeader | null {
+  if (bytes.length < 8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const type = String.fromCharCode(bytes[4], bytes[5], bytes[6], bytes[7]);
+  const size32 = view.getUint32(0);
+  if (size32 === 1) {
+    if (bytes.length < 16) return null;
+    return { type, size: view.getUint32(8) * 2 ** 32 + view.getUint32(12), headerSize: 16 };
+  }
+  return { type, size: size32 === 0 ? available : size32, headerSize: 8 };
+}
+
+/** A parsed box — containers have children, everything else keeps its payload */
+export interface BoxNode {
+  type: string;
+  children?: BoxNode[];
+  payload?: Uint8Array;
+}
+
+/** Parse a run of fully loaded boxes */
+export function parseBoxes(bytes: Uint8Array): BoxNode[] {
+  const nodes: BoxNode[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const header = readBoxHeader(bytes.subarray(offset), bytes.length - offset);
+    if (!header || header.size < header.headerSize || offset + header.size > bytes.length) {
+      throw new Error("Corrupted MP4 box");
+    }
+    const payload = bytes.subarray(offset + header.headerSize, offset + header.size);
+    nodes.push(
+      CONTAINER_BOXES.has(header.type)
+        ? { type: header.type, children: parseBoxes(payload) }
+        : { type: header.type, payload },
+    );
+    offset += header.size;
+  }
+  return nodes;
+}
+
+export function serializeBox(node: BoxNode): Uint8Array<ArrayBuffer> {
+  return node.children ? box(node.type, ...node.children.map(serializeBox)) : box(node.type, node.payload!);
+}
+
+/** The first child of a type, if any */
+export function findBox(node: BoxNode, type: string): BoxNode | undefined {
+  return node.children?.find((c) => c.type === type);
+}
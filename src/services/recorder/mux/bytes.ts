@@ -0,0 +1,137 @@
+/**
+ * Growable big-endian byte buffer — both MP4 boxes and EBML elements store
+ * their numbers big-endian.
+ */
+export class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  /** Bytes written so far */
+  get size(): number {
+    return this.length;
+  }
+
+  u8(value: number): this {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+    return this;
+  }
+
+  u16(value: number): this {
+    this.reserve(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+    return this;
+  }
+
+  i16(value: number): this {
+    this.reserve(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+    return this;
+  }
+
+  u24(value: number): this {
+    return this.u8((value >>> 16) & 0xff).u16(value & 0xffff);
+  }
+
+  u32(value: number): this {
+    this.reserve(4);
+    this.view.setUint32(this.length, value >>> 0);
+    this.length += 4;
+    return this;
+  }
+
+  /** 64-bit unsigned — exact up to Number.MAX_SAFE_INTEGER */
+  u64(value: number): this {
+    return this.u32(Math.floor(value / 2 ** 32)).u32(value % 2 ** 32);
+  }
+
+  f64(value: number): this {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+    return this;
+  }
+
+  bytes(data: Uint8Array): this {
+    this.reserve(data.length);
+    this.buffer.set(data, this.length);
+    this.length += data.length;
+    return this;
+  }
+
+  /** ASCII text, without a terminator */
+  ascii(text: string): this {
+    this.reserve(text.length);
+    for (let i = 0; i < text.length; i++) {
+      this.buffer[this.length + i] = text.charCodeAt(i) & 0x7f;
+    }
+    this.length += text.length;
+    return this;
+  }
+
+  /** A copy of the bytes written */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private reserve(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + extra) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+/** Bytes built by a writer callback */
+export function build(write: (w: ByteWriter) => void): Uint8Array<ArrayBuffer> {
+  const w = new ByteWriter();
+  write(w);
+  return w.toBytes();
+}
+
+/** Concatenate byte arrays */
+export function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** Bytes read from a blob at a time */
+const READ_WINDOW = 1024 * 1024;
+
+/**
+ * Random-access reads from a blob through a window, so walking a
+ * container's structure doesn't load the whole video.
+ */
+export class BlobReader {
+  private window = new Uint8Array(0);
+  private windowStart = 0;
+
+  constructor(readonly blob: Blob) {}
+
+  get size(): number {
+    return this.blob.size;
+  }
+
+  /** Up to `length` bytes at `offset` — fewer at the end of the blob */
+  async read(offset: number, length: number): Promise<Uint8Array<ArrayBuffer>> {
+    const end = Math.min(offset + length, this.blob.size);
+    if (offset < this.windowStart || end > this.windowStart + this.window.length) {
+      const windowEnd = Math.min(Math.max(end, offset + READ_WINDOW), this.blob.size);
+      this.window = new Uint8Array(await this.blob.slice(offset, windowEnd).arrayBuffer());
+      this.windowStart = offset;
+    }
+    return this.window.subarray(offset - this.windowStart, end - this.windowStart);
+  }
+}
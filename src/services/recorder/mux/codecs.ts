@@ -0,0 +1,70 @@
+import { build } from "./bytes";
+
+/**
+ * Codec configuration records the containers need, for when the encoder
+ * doesn't hand one over in its decoderConfig.description.
+ */
+
+/** AAC sampling frequency indexes (ISO/IEC 14496-3) */
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/** Opus decoder pre-skip when the encoder doesn't report one — libopus' usual lookahead at 48 kHz */
+const DEFAULT_OPUS_PRE_SKIP = 312;
+
+/**
+ * AV1CodecConfigurationRecord (av1C) from a codec string like
+ * "av01.0.08M.08". The sequence header OBU is left out — it's repeated in
+ * every key frame.
+ */
+export function av1Config(codec: string): Uint8Array<ArrayBuffer> {
+  const [, profile, levelTier, depth] = codec.split(".");
+  const seqProfile = Number(profile);
+  const level = parseInt(levelTier, 10);
+  const tier = levelTier.endsWith("H") ? 1 : 0;
+  const bitDepth = Number(depth);
+  return build((w) => {
+    w.u8(0x81); // marker + version 1
+    w.u8((seqProfile << 5) | level);
+    // tier, high_bitdepth, twelve_bit, monochrome, 4:2:0 subsampling, chroma position unknown
+    w.u8((tier << 7) | ((bitDepth > 8 ? 1 : 0) << 6) | ((bitDepth === 12 ? 1 : 0) << 5) | (1 << 3) | (1 << 2));
+    w.u8(0); // no initial_presentation_delay
+  });
+}
+
+/** AAC-LC AudioSpecificConfig */
+export function aacConfig(sampleRate: number, channels: number): Uint8Array<ArrayBuffer> {
+  const index = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  if (index === -1) throw new Error(`AAC can't encode ${sampleRate} Hz audio`);
+  const objectType = 2; // AAC-LC
+  return new Uint8Array([(objectType << 3) | (index >> 1), ((index & 1) << 7) | (channels << 3)]);
+}
+
+/** Ogg Opus identification header (OpusHead) for mono or stereo audio */
+export function opusHead(sampleRate: number, channels: number): Uint8Array<ArrayBuffer> {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set([..."OpusHead"].map((c) => c.charCodeAt(0)));
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, DEFAULT_OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // channel mapping family 0
+  return head;
+}
+
+/** Fields of an OpusHead, which is little-endian */
+export function parseOpusHead(head: Uint8Array): {
+  channels: number;
+  preSkip: number;
+  inputSampleRate: number;
+  outputGain: number;
+} {
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  return {
+    channels: head[9],
+    preSkip: view.getUint16(10, true),
+    inputSampleRate: view.getUint32(12, true),
+    outputGain: view.getInt16(16, true),
+  };
+}
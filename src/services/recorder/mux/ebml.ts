@@ -0,0 +1,200 @@
+import { build, concat } from "./bytes";
+
+/**
+ * EBML — the binary format under Matroska/WebM: every element is an ID, a
+ * size and a payload, with IDs and sizes written as variable-length
+ * integers. Writers for the elements the muxer and the index repair use,
+ * and readers for walking an existing file.
+ */
+
+export const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  CueRelativePosition: 0xf0,
+  Void: 0xec,
+} as const;
+
+/** Segment size meaning "until the end of the file" */
+export const UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+/** An element ID's bytes — IDs carry their own length marker */
+export function idBytes(id: number): Uint8Array<ArrayBuffer> {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  return build((w) => {
+    for (let i = length - 1; i >= 0; i--) w.u8(Math.floor(id / 2 ** (8 * i)) & 0xff);
+  });
+}
+
+/** A data size as an EBML variable-length integer, in `length` bytes (default: as few as fit) */
+export function vint(value: number, length?: number): Uint8Array<ArrayBuffer> {
+  let bytes = length ?? 1;
+  // All ones is reserved for "unknown size"
+  while (length === undefined && value >= 2 ** (7 * bytes) - 1) bytes++;
+  return build((w) => {
+    for (let i = bytes - 1; i >= 0; i--) {
+      const byte = Math.floor(value / 2 ** (8 * i)) & 0xff;
+      w.u8(i === bytes - 1 ? byte | (0x80 >> (bytes - 1)) : byte);
+    }
+  });
+}
+
+export function element(id: number, ...payload: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const body = concat(payload);
+  return concat([idBytes(id), vint(body.length), body]);
+}
+
+/** Unsigned integer element, in as few bytes as fit (or exactly `length`) */
+export function uint(id: number, value: number, length?: number): Uint8Array<ArrayBuffer> {
+  let bytes = length ?? 1;
+  while (length === undefined && value >= 2 ** (8 * bytes)) bytes++;
+  return element(id, build((w) => {
+    for (let i = bytes - 1; i >= 0; i--) w.u8(Math.floor(value / 2 ** (8 * i)) & 0xff);
+  }));
+}
+
+export function float(id: number, value: number): Uint8Array<ArrayBuffer> {
+  return element(id, build((w) => w.f64(value)));
+}
+
+export function string(id: number, value: string): Uint8Array<ArrayBuffer> {
+  return element(id, build((w) => w.ascii(value)));
+}
+
+/**
+ * SeekHead pointing at level-1 elements, by position from the start of the
+ * segment's data. Positions are written 8 bytes wide, so the SeekHead's
+ * size doesn't depend on them.
+ */
+export function seekHead(entries: Array<[id: number, position: number]>): Uint8Array<ArrayBuffer> {
+  return element(
+    ID.SeekHead,
+    ...entries.map(([id, position]) =>
+      element(ID.Seek, element(ID.SeekID, idBytes(id)), uint(ID.SeekPosition, position, 8)),
+    ),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+export interface ElementHeader {
+  id: number;
+  /** Payload size — null for "unknown" (runs until a parent-level element starts) */
+  size: number | null;
+  /** Bytes taken by the ID and size */
+  headerSize: number;
+}
+
+/** Length of the variable-length integer starting with `first`, or 0 if it's invalid */
+function vintLength(first: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (first & (0x80 >> (length - 1))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Read an element's ID and size at `offset` of `bytes`.
+ * @returns null if the header is invalid or runs past the end of `bytes`
+ */
+export function readElementHeader(bytes: Uint8Array, offset: number): ElementHeader | null {
+  const idLength = vintLength(bytes[offset] ?? 0);
+  if (idLength === 0 || idLength > 4 || offset + idLength >= bytes.length) return null;
+  let id = 0;
+  for (let i = 0; i < idLength; i++) id = id * 256 + bytes[offset + i];
+
+  const sizeLength = vintLength(bytes[offset + idLength]);
+  if (sizeLength === 0 || offset + idLength + sizeLength > bytes.length) return null;
+  let size = bytes[offset + idLength] & (0xff >> sizeLength);
+  let allOnes = size === 0xff >> sizeLength;
+  for (let i = 1; i < sizeLength; i++) {
+    const byte = bytes[offset + idLength + i];
+    size = size * 256 + byte;
+    allOnes &&= byte === 0xff;
+  }
+  return { id, size: allOnes ? null : size, headerSize: idLength + sizeLength };
+}
+
+/** Big-endian unsigned integer payload */
+export function readUint(bytes: Uint8Array): number {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+/** Float payload (4 or 8 bytes) */
+export function readFloat(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return bytes.length === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+/** The child elements of a fully loaded master element's payload */
+export function readChildren(bytes: Uint8Array): Array<{ id: number; data: Uint8Array; raw: Uint8Array }> {
+  const children: Array<{ id: number; data: Uint8Array; raw: Uint8Array }> = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const header = readElementHeader(bytes, offset);
+    if (!header || header.size === null) break;
+    const end = Math.min(offset + header.headerSize + header.size, bytes.length);
+    children.push({
+      id: header.id,
+      data: bytes.subarray(offset + header.headerSize, end),
+      raw: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return children;
+}
+
+/** Track number and key-frame flag of a SimpleBlock or Block payload */
+export function readBlockHeader(bytes: Uint8Array): { track: number; timecode: number; key: boolean } | null {
+  const length = vintLength(bytes[0] ?? 0);
+  if (length === 0 || bytes.length < length + 3) return null;
+  let track = bytes[0] & (0xff >> length);
+  for (let i = 1; i < length; i++) track = track * 256 + bytes[i];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { track, timecode: view.getInt16(length), key: (bytes[length + 2] & 0x80) !== 0 };
+}
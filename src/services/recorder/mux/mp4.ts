@@ -0,0 +1,339 @@
+import { build, concat, type ByteWriter } from "./bytes";
+import { box, fullBox } from "./bmff";
+import { aacConfig, av1Config, opusHead, parseOpusHead } from "./codecs";
+import {
+  descriptionBytes,
+  FragmentQueue,
+  type ContainerWriter,
+  type MuxFragment,
+  type Muxer,
+  type MuxerOptions,
+  type MuxSample,
+} from "./muxer";
+
+/**
+ * Fragmented MP4 (ISO BMFF) muxer for H.264 or AV1 video with AAC or Opus
+ * audio.
+ *
+ * While recording:  ftyp + moov (no samples, no duration), then moof/mdat pairs
+ * Finished file:    ftyp + moov (with duration) + sidx, the moof/mdat pairs, mfra
+ *
+ * The moov comes first either way, so players can start before the file is
+ * fully read ("faststart"). sidx indexes every fragment for seeking; mfra
+ * (at the end) indexes the key frames for players that look there.
+ *
+ * Every integer that finalize() fills in (durations) is written 64-bit from
+ * the start, so the header keeps its size.
+ */
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 90_000;
+
+/** Seconds between 1904-01-01 (the MP4 epoch) and 1970-01-01 */
+const MP4_EPOCH_OFFSET = 2_082_844_800;
+
+/** trun sample flags: depends on nothing (sync sample) / depends on others, not a sync sample */
+const SYNC_SAMPLE_FLAGS = 0x02000000;
+const NON_SYNC_SAMPLE_FLAGS = 0x01010000;
+
+/** tfhd: sample data offsets count from the start of the moof */
+const TFHD_DEFAULT_BASE_IS_MOOF = 0x020000;
+/** trun: data offset, per-sample duration, size and flags are present */
+const TRUN_FLAGS = 0x000001 | 0x000100 | 0x000200 | 0x000400;
+
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+interface Mp4Track {
+  id: number;
+  kind: "video" | "audio";
+  timescale: number;
+}
+
+/** Where a written fragment sits, for sidx and mfra */
+interface FragmentIndex {
+  /** Offset from the first fragment */
+  offset: number;
+  size: number;
+  /** µs of the fragment's first sample, per track ID */
+  starts: Map<number, number>;
+  /** 1-based traf position of each track in the moof */
+  trafNumbers: Map<number, number>;
+  /** Whether the fragment starts with a video key frame */
+  startsWithKey: boolean;
+}
+
+/** Round µs to a timescale */
+function toTimescale(us: number, timescale: number): number {
+  return Math.round((us * timescale) / 1_000_000);
+}
+
+function writeMatrix(w: ByteWriter): void {
+  for (const value of IDENTITY_MATRIX) w.u32(value);
+}
+
+export class Mp4Muxer implements Muxer, ContainerWriter {
+  readonly mimeType: string;
+  private options: MuxerOptions;
+  private queue: FragmentQueue;
+  private tracks: Mp4Track[] = [];
+  private videoDescription: Uint8Array | null = null;
+  private audioDescription: Uint8Array | null = null;
+  private creationTime = Math.floor(Date.now() / 1000) + MP4_EPOCH_OFFSET;
+  private sequenceNumber = 0;
+  private index: FragmentIndex[] = [];
+  private written = 0;
+
+  constructor(options: MuxerOptions) {
+    this.options = options;
+    this.queue = new FragmentQueue(this, options);
+    if (options.video) {
+      this.tracks.push({ id: this.tracks.length + 1, kind: "video", timescale: VIDEO_TIMESCALE });
+    }
+    if (options.audio) {
+      const timescale = options.audio.codec === "opus" ? 48_000 : options.audio.sampleRate;
+      this.tracks.push({ id: this.tracks.length + 1, kind: "audio", timescale });
+    }
+    const codecs = [options.video?.codec, options.audio?.codec].filter(Boolean).join(",");
+    this.mimeType = `${options.video ? "video" : "audio"}/mp4;codecs=${codecs}`;
+  }
+
+  addVideoChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !this.videoDescription) this.videoDescription = descriptionBytes(description);
+    this.queue.addVideo(chunk);
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !this.audioDescription) this.audioDescription = descriptionBytes(description);
+    this.queue.addAudio(chunk);
+  }
+
+  finalize(): Blob {
+    return this.queue.finish();
+  }
+
+  // -- ContainerWriter -------------------------------------------------------
+
+  header(): Uint8Array<ArrayBuffer> {
+    return concat([this.ftyp(), this.moov(0)]);
+  }
+
+  fragment(fragment: MuxFragment): Uint8Array<ArrayBuffer> {
+    const runs = this.tracks
+      .map((track) => ({ track, samples: track.kind === "video" ? fragment.video : fragment.audio }))
+      .filter((run) => run.samples.length > 0);
+
+    // The moof's size doesn't depend on the data offsets, so build it once to measure
+    this.sequenceNumber++;
+    const measured = this.moof(runs, 0).length;
+    const moof = this.moof(runs, measured + 8);
+    const data = concat(runs.flatMap((run) => run.samples.map((s) => s.data)));
+    const mdat = concat([build((w) => w.u32(8 + data.length).ascii("mdat")), data]);
+
+    const starts = new Map<number, number>();
+    const trafNumbers = new Map<number, number>();
+    runs.forEach((run, i) => {
+      starts.set(run.track.id, run.samples[0].timestamp);
+      trafNumbers.set(run.track.id, i + 1);
+    });
+    const size = moof.length + mdat.length;
+    this.index.push({
+      offset: this.written,
+      size,
+      starts,
+      trafNumbers,
+      startsWithKey: fragment.video[0]?.key ?? true,
+    });
+    this.written += size;
+    return concat([moof, mdat]);
+  }
+
+  file(fragments: Blob[], duration: number): Blob {
+    const header = concat([this.ftyp(), this.moov(duration)]);
+    const sidx = this.sidx(duration);
+    const firstFragment = header.length + sidx.length;
+    return new Blob([header, sidx, ...fragments, this.mfra(firstFragment)], { type: this.mimeType });
+  }
+
+  // -- Boxes -------------------------------------------------------------------
+
+  private ftyp(): Uint8Array<ArrayBuffer> {
+    const brands = ["isom", "iso5", "iso6", "mp41"];
+    const video = this.options.video?.codec;
+    if (video?.startsWith("avc1")) brands.push("avc1");
+    if (video?.startsWith("av01")) brands.push("av01");
+    return box("ftyp", build((w) => {
+      w.ascii("isom").u32(0x200);
+      for (const brand of brands) w.ascii(brand);
+    }));
+  }
+
+  /** Movie header and track boxes; `duration` (µs) is 0 while recording */
+  private moov(duration: number): Uint8Array<ArrayBuffer> {
+    const mvhd = fullBox("mvhd", 1, 0, build((w) => {
+      w.u64(this.creationTime).u64(this.creationTime);
+      w.u32(MOVIE_TIMESCALE).u64(toTimescale(duration, MOVIE_TIMESCALE));
+      w.u32(0x00010000); // rate 1.0
+      w.u16(0x0100); // volume 1.0
+      w.u16(0).u32(0).u32(0); // reserved
+      writeMatrix(w);
+      for (let i = 0; i < 6; i++) w.u32(0); // pre_defined
+      w.u32(this.tracks.length + 1); // next_track_ID
+    }));
+    const mehd = fullBox("mehd", 1, 0, build((w) => w.u64(toTimescale(duration, MOVIE_TIMESCALE))));
+    const trexes = this.tracks.map((track) =>
+      fullBox("trex", 0, 0, build((w) => w.u32(track.id).u32(1).u32(0).u32(0).u32(0))),
+    );
+    return box("moov", mvhd, ...this.tracks.map((t) => this.trak(t, duration)), box("mvex", mehd, ...trexes));
+  }
+
+  private trak(track: Mp4Track, duration: number): Uint8Array<ArrayBuffer> {
+    const video = track.kind === "video" ? this.options.video : null;
+    const tkhd = fullBox("tkhd", 1, 0x3 /* enabled, in movie */, build((w) => {
+      w.u64(this.creationTime).u64(this.creationTime);
+      w.u32(track.id).u32(0);
+      w.u64(toTimescale(duration, MOVIE_TIMESCALE));
+      w.u32(0).u32(0); // reserved
+      w.u16(0).u16(0); // layer, alternate_group
+      w.u16(video ? 0 : 0x0100).u16(0); // volume, reserved
+      writeMatrix(w);
+      w.u32((video?.width ?? 0) * 0x10000).u32((video?.height ?? 0) * 0x10000);
+    }));
+    const mdhd = fullBox("mdhd", 1, 0, build((w) => {
+      w.u64(this.creationTime).u64(this.creationTime);
+      w.u32(track.timescale).u64(toTimescale(duration, track.timescale));
+      w.u16(0x55c4).u16(0); // language "und", pre_defined
+    }));
+    const handler = video ? "vide" : "soun";
+    const hdlr = fullBox("hdlr", 0, 0, build((w) => {
+      w.u32(0).ascii(handler).u32(0).u32(0).u32(0);
+      w.ascii(video ? "VideoHandler" : "SoundHandler").u8(0);
+    }));
+    const mediaHeader = video
+      ? fullBox("vmhd", 0, 1, build((w) => w.u16(0).u16(0).u16(0).u16(0)))
+      : fullBox("smhd", 0, 0, build((w) => w.u16(0).u16(0)));
+    const dinf = box("dinf", fullBox("dref", 0, 0, build((w) => w.u32(1)), fullBox("url ", 0, 1)));
+    const stbl = box(
+      "stbl",
+      fullBox("stsd", 0, 0, build((w) => w.u32(1)), this.sampleEntry(track)),
+      fullBox("stts", 0, 0, build((w) => w.u32(0))),
+      fullBox("stsc", 0, 0, build((w) => w.u32(0))),
+      fullBox("stsz", 0, 0, build((w) => w.u32(0).u32(0))),
+      fullBox("stco", 0, 0, build((w) => w.u32(0))),
+    );
+    return box("trak", tkhd, box("mdia", mdhd, hdlr, box("minf", mediaHeader, dinf, stbl)));
+  }
+
+  private sampleEntry(track: Mp4Track): Uint8Array<ArrayBuffer> {
+    if (track.kind === "video") {
+      const { codec, width, height } = this.options.video!;
+      const isAv1 = codec.startsWith("av01");
+      const config = isAv1
+        ? box("av1C", this.videoDescription ?? av1Config(codec))
+        : box("avcC", this.videoDescription ?? new Uint8Array());
+      return box(isAv1 ? "av01" : "avc1", build((w) => {
+        w.u32(0).u16(0).u16(1); // reserved, data_reference_index
+        w.u16(0).u16(0).u32(0).u32(0).u32(0); // pre_defined, reserved
+        w.u16(width).u16(height);
+        w.u32(0x00480000).u32(0x00480000); // 72 dpi
+        w.u32(0).u16(1); // reserved, frame_count
+        w.bytes(new Uint8Array(32)); // compressorname
+        w.u16(0x0018).i16(-1); // depth, pre_defined
+      }), config);
+    }
+
+    const { codec, sampleRate, numberOfChannels } = this.options.audio!;
+    const isOpus = codec === "opus";
+    const fields = build((w) => {
+      w.u32(0).u16(0).u16(1); // reserved, data_reference_index
+      w.u32(0).u32(0); // reserved
+      w.u16(numberOfChannels).u16(16); // channelcount, samplesize
+      w.u16(0).u16(0); // pre_defined, reserved
+      w.u32((isOpus ? 48_000 : sampleRate) * 0x10000);
+    });
+    if (isOpus) {
+      const head = parseOpusHead(this.audioDescription ?? opusHead(sampleRate, numberOfChannels));
+      const dOps = box("dOps", build((w) => {
+        w.u8(0).u8(head.channels).u16(head.preSkip).u32(head.inputSampleRate).i16(head.outputGain);
+        w.u8(0); // channel mapping family 0
+      }));
+      return box("Opus", fields, dOps);
+    }
+    return box("mp4a", fields, this.esds(this.audioDescription ?? aacConfig(sampleRate, numberOfChannels)));
+  }
+
+  /** Elementary stream descriptor carrying the AudioSpecificConfig */
+  private esds(audioSpecificConfig: Uint8Array): Uint8Array<ArrayBuffer> {
+    const descriptor = (tag: number, ...payload: Uint8Array[]) => {
+      const body = concat(payload);
+      return concat([new Uint8Array([tag, body.length]), body]);
+    };
+    const decoderSpecificInfo = descriptor(0x05, audioSpecificConfig);
+    const decoderConfig = descriptor(0x04, build((w) => {
+      w.u8(0x40); // objectTypeIndication: MPEG-4 audio
+      w.u8(0x15); // streamType audio, upstream 0, reserved 1
+      w.u24(0).u32(0).u32(0); // bufferSizeDB, maxBitrate, avgBitrate
+    }), decoderSpecificInfo);
+    const slConfig = descriptor(0x06, new Uint8Array([0x02]));
+    const esDescriptor = descriptor(0x03, build((w) => w.u16(1).u8(0)), decoderConfig, slConfig);
+    return fullBox("esds", 0, 0, esDescriptor);
+  }
+
+  private moof(runs: Array<{ track: Mp4Track; samples: MuxSample[] }>, dataOffset: number): Uint8Array<ArrayBuffer> {
+    const mfhd = fullBox("mfhd", 0, 0, build((w) => w.u32(this.sequenceNumber)));
+    let offset = dataOffset;
+    const trafs = runs.map(({ track, samples }) => {
+      const tfhd = fullBox("tfhd", 0, TFHD_DEFAULT_BASE_IS_MOOF, build((w) => w.u32(track.id)));
+      const tfdt = fullBox("tfdt", 1, 0, build((w) => w.u64(toTimescale(samples[0].timestamp, track.timescale))));
+      const trun = fullBox("trun", 0, TRUN_FLAGS, build((w) => {
+        w.u32(samples.length).u32(offset);
+        for (const s of samples) {
+          // Round the end, not the duration, so durations add up to the timestamps
+          const start = toTimescale(s.timestamp, track.timescale);
+          w.u32(toTimescale(s.timestamp + s.duration, track.timescale) - start);
+          w.u32(s.data.length);
+          w.u32(track.kind === "audio" || s.key ? SYNC_SAMPLE_FLAGS : NON_SYNC_SAMPLE_FLAGS);
+        }
+      }));
+      offset += samples.reduce((sum, s) => sum + s.data.length, 0);
+      return box("traf", tfhd, tfdt, trun);
+    });
+    return box("moof", mfhd, ...trafs);
+  }
+
+  /** Segment index: one reference per fragment, timed by the first track */
+  private sidx(duration: number): Uint8Array<ArrayBuffer> {
+    const track = this.tracks[0];
+    const starts = this.index.map((f) => f.starts.get(track.id) ?? 0);
+    return fullBox("sidx", 1, 0, build((w) => {
+      w.u32(track.id).u32(track.timescale);
+      w.u64(toTimescale(starts[0] ?? 0, track.timescale)).u64(0); // earliest_presentation_time, first_offset
+      w.u16(0).u16(this.index.length);
+      this.index.forEach((fragment, i) => {
+        const end = starts[i + 1] ?? duration;
+        w.u32(fragment.size & 0x7fffffff); // reference_type 0: media
+        w.u32(toTimescale(end, track.timescale) - toTimescale(starts[i], track.timescale));
+        w.u32(fragment.startsWithKey ? 0x90000000 : 0); // starts_with_SAP, SAP type 1
+      });
+    }));
+  }
+
+  /** Random access index: each track's first sample in every fragment that starts on a key frame */
+  private mfra(firstFragment: number): Uint8Array<ArrayBuffer> {
+    const tfras = this.tracks.map((track) => {
+      const entries = this.index.filter((f) => f.starts.has(track.id) && (track.kind === "audio" || f.startsWithKey));
+      return fullBox("tfra", 1, 0, build((w) => {
+        w.u32(track.id).u32(0); // 1-byte traf/trun/sample numbers
+        w.u32(entries.length);
+        for (const f of entries) {
+          w.u64(toTimescale(f.starts.get(track.id)!, track.timescale));
+          w.u64(firstFragment + f.offset);
+          w.u8(f.trafNumbers.get(track.id)!).u8(1).u8(1);
+        }
+      }));
+    });
+    const size = 8 + tfras.reduce((sum, t) => sum + t.length, 0) + 16;
+    return box("mfra", ...tfras, fullBox("mfro", 0, 0, build((w) => w.u32(size))));
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Shared plumbing for the MP4 and WebM muxers.
+ *
+ * Encoded chunks are buffered per track and written out in fragments — an
+ * MP4 moof/mdat pair, or a WebM cluster — each starting on a video key
+ * frame about FRAGMENT_DURATION after the last. Every fragment (and the
+ * header before the first) is handed to `onData` as it's written, so the
+ * file can be spooled while recording; played back as it stands, it's a
+ * streamable file without a duration.
+ *
+ * finalize() writes the file again around the same fragments: a header
+ * with the duration, and a seek index (MP4: sidx + mfra, WebM: SeekHead +
+ * Cues).
+ */
+
+/** Target fragment length in µs — also the shortest gap between key frames worth cutting at */
+const FRAGMENT_DURATION = 1_000_000;
+
+export interface VideoTrackConfig {
+  /** WebCodecs codec string, e.g. "avc1.640028" */
+  codec: string;
+  width: number;
+  height: number;
+}
+
+export interface AudioTrackConfig {
+  /** WebCodecs codec string, e.g. "opus" or "mp4a.40.2" */
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+export interface MuxerOptions {
+  video: VideoTrackConfig | null;
+  audio: AudioTrackConfig | null;
+  /** Called with the header, then each fragment, as they're written */
+  onData?: (data: Blob) => void;
+}
+
+export interface MuxSample {
+  data: Uint8Array<ArrayBuffer>;
+  /** µs from the start of the recording */
+  timestamp: number;
+  /** µs — 0 until known */
+  duration: number;
+  key: boolean;
+}
+
+/** Samples written together — every track's samples before the next fragment's first video key frame */
+export interface MuxFragment {
+  video: MuxSample[];
+  audio: MuxSample[];
+}
+
+export interface Muxer {
+  /** MIME type of the file, with its codecs */
+  readonly mimeType: string;
+  addVideoChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void;
+  /** Write out what's buffered and return the finished file */
+  finalize(): Blob;
+}
+
+/** What a container format writes; FragmentQueue decides when */
+export interface ContainerWriter {
+  /** Header written before the first fragment, for a file still being recorded */
+  header(): Uint8Array<ArrayBuffer>;
+  fragment(fragment: MuxFragment): Uint8Array<ArrayBuffer>;
+  /** The finished file around the written fragments, `duration` µs long */
+  file(fragments: Blob[], duration: number): Blob;
+}
+
+/** Copy a decoderConfig.description */
+export function descriptionBytes(description: AllowSharedBufferSource): Uint8Array<ArrayBuffer> {
+  return ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+    : new Uint8Array(description).slice();
+}
+
+function toSample(chunk: EncodedVideoChunk | EncodedAudioChunk): MuxSample {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return { data, timestamp: chunk.timestamp, duration: chunk.duration ?? 0, key: chunk.type === "key" };
+}
+
+/**
+ * Buffers samples and cuts them into fragments for a ContainerWriter.
+ * Durations come from the next sample's timestamp where the encoder
+ * didn't give one.
+ */
+export class FragmentQueue {
+  private writer: ContainerWriter;
+  private hasVideo: boolean;
+  private onData: ((data: Blob) => void) | undefined;
+  private video: MuxSample[] = [];
+  private audio: MuxSample[] = [];
+  private lastVideo: MuxSample | null = null;
+  private lastAudio: MuxSample | null = null;
+  /** µs between the last two video frames */
+  private frameDuration = 0;
+  private fragments: Blob[] = [];
+  private headerWritten = false;
+  private end = 0;
+
+  constructor(writer: ContainerWriter, options: MuxerOptions) {
+    this.writer = writer;
+    this.hasVideo = options.video !== null;
+    this.onData = options.onData;
+  }
+
+  addVideo(chunk: EncodedVideoChunk): void {
+    const sample = toSample(chunk);
+    // Frames come when the canvas is drawn, so the next timestamp is the real duration
+    if (this.lastVideo) {
+      this.lastVideo.duration = sample.timestamp - this.lastVideo.timestamp;
+      this.frameDuration = this.lastVideo.duration;
+    }
+    if (sample.key && this.video.length > 0 && sample.timestamp - this.video[0].timestamp >= FRAGMENT_DURATION) {
+      this.flush(sample.timestamp);
+    }
+    this.video.push(sample);
+    this.lastVideo = sample;
+  }
+
+  addAudio(chunk: EncodedAudioChunk): void {
+    const sample = toSample(chunk);
+    if (this.lastAudio && !this.lastAudio.duration) {
+      this.lastAudio.duration = sample.timestamp - this.lastAudio.timestamp;
+    }
+    // Without video, cut on time alone — every audio frame is a key frame
+    if (!this.hasVideo && this.audio.length > 0 && sample.timestamp - this.audio[0].timestamp >= FRAGMENT_DURATION) {
+      this.flush(sample.timestamp);
+    }
+    this.audio.push(sample);
+    this.lastAudio = sample;
+  }
+
+  /** Write out everything buffered and return the finished file */
+  finish(): Blob {
+    // The last frame lasts as long as the one before it
+    if (this.lastVideo && !this.lastVideo.duration) this.lastVideo.duration = this.frameDuration;
+    this.flush(Infinity);
+    return this.writer.file(this.fragments, this.end);
+  }
+
+  /** Write the samples before `cutAt` (µs) as a fragment */
+  private flush(cutAt: number): void {
+    const video = this.video;
+    this.video = [];
+    const split = this.audio.findIndex((s) => s.timestamp >= cutAt);
+    const audio = this.audio.splice(0, split === -1 ? this.audio.length : split);
+    if (video.length === 0 && audio.length === 0) return;
+
+    for (const sample of [...video, ...audio]) {
+      this.end = Math.max(this.end, sample.timestamp + sample.duration);
+    }
+    if (!this.headerWritten) {
+      this.headerWritten = true;
+      this.onData?.(new Blob([this.writer.header()]));
+    }
+    const fragment = new Blob([this.writer.fragment({ video, audio })]);
+    this.fragments.push(fragment);
+    this.onData?.(fragment);
+  }
+}
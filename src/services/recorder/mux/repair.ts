@@ -0,0 +1,516 @@
+import { BlobReader, build, concat } from "./bytes";
+import {
+  element,
+  float,
+  ID,
+  idBytes,
+  readBlockHeader,
+  readChildren,
+  readElementHeader,
+  readFloat,
+  readUint,
+  seekHead,
+  uint,
+  vint,
+} from "./ebml";
+import { findBox, fullBox, parseBoxes, readBoxHeader, serializeBox, type BoxNode } from "./bmff";
+
+/**
+ * Duration and seek index repair for recorded videos.
+ *
+ * MediaRecorder streams its output, so it never goes back to fill in what
+ * it only knows at the end: WebM files have no Duration and no Cues, and
+ * fragmented MP4 files have a zero duration and no sidx. Players show such
+ * videos as "Infinity" long and seek by scanning from the start, if at all.
+ *
+ * repairVideoIndex() rewrites the file's header with the duration and an
+ * index of its clusters/fragments. Media data is never decoded or moved
+ * around — the rewritten file is the new header followed by slices of the
+ * original blob, so repairing a long video doesn't load it into memory.
+ *
+ * Truncated files (a recording recovered after a crash) are cut back to
+ * the last complete cluster or fragment.
+ */
+
+/** Level-1 elements dropped from a repaired WebM — they're rewritten */
+const REWRITTEN_ELEMENTS = new Set<number>([ID.SeekHead, ID.Void, ID.Cues]);
+
+/** Elements that can appear in a cluster — an unknown-size cluster ends at anything else */
+const CLUSTER_CHILDREN = new Set<number>([ID.Timestamp, ID.SimpleBlock, ID.BlockGroup, ID.Void, 0xa7, 0xab]);
+
+/** Bytes enough for any EBML element header or MP4 box header */
+const HEADER_BYTES = 16;
+
+/** trun/tfhd sample flags: sample_is_non_sync_sample */
+const NON_SYNC_SAMPLE = 0x00010000;
+
+/**
+ * Give a recorded video a duration and a seek index.
+ *
+ * @param duration Seconds, as measured while recording; omit to take it from the media
+ * @returns A repaired copy, or `blob` itself when it's already indexed or
+ *   isn't a WebM or fragmented MP4 this can read
+ */
+export async function repairVideoIndex(blob: Blob, duration?: number): Promise<Blob> {
+  try {
+    const reader = new BlobReader(blob);
+    const head = await reader.read(0, 8);
+    if (head.length < 8) return blob;
+    if (readUint(head.subarray(0, 4)) === ID.EBML) return (await repairWebm(reader, duration)) ?? blob;
+    if (String.fromCharCode(...head.subarray(4, 8)) === "ftyp") return (await repairMp4(reader, duration)) ?? blob;
+    return blob;
+  } catch (err) {
+    console.warn("[VideoRepair] Couldn't read the video's structure:", err);
+    return blob;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// WebM
+// ---------------------------------------------------------------------------
+
+interface WebmCluster {
+  /** File offset */
+  offset: number;
+  /** In TimestampScale units */
+  time: number;
+  /** First key block of the cue track: time, and offset from the cluster's data start */
+  cue: { time: number; position: number } | null;
+}
+
+/** Returns null when the file needs no repair */
+async function repairWebm(reader: BlobReader, duration?: number): Promise<Blob | null> {
+  const ebml = readElementHeader(await reader.read(0, HEADER_BYTES), 0);
+  if (!ebml || ebml.size === null) return null;
+  const segmentOffset = ebml.headerSize + ebml.size;
+  const segment = readElementHeader(await reader.read(segmentOffset, HEADER_BYTES), 0);
+  if (!segment || segment.id !== ID.Segment) return null;
+  const segmentStart = segmentOffset + segment.headerSize;
+  const segmentEnd = segment.size === null ? reader.size : Math.min(segmentStart + segment.size, reader.size);
+
+  let info: Uint8Array<ArrayBuffer> | null = null;
+  let tracks: Uint8Array<ArrayBuffer> | null = null;
+  let hadCues = false;
+  /** Level-1 elements to keep, before and after the clusters */
+  const leading: Blob[] = [];
+  const trailing: Blob[] = [];
+  const clusters: WebmCluster[] = [];
+  let clustersEnd = 0;
+  let cueTrack: number | null = null;
+  let timestampScale = 1_000_000;
+  let lastBlockTime = 0;
+
+  let offset = segmentStart;
+  while (offset < segmentEnd) {
+    const header = readElementHeader(await reader.read(offset, HEADER_BYTES), 0);
+    if (!header) break;
+    const dataStart = offset + header.headerSize;
+
+    if (header.id === ID.Cluster) {
+      if (cueTrack === null) return null; // Clusters before Tracks
+      const scanned = await scanCluster(reader, dataStart, header.size, segmentEnd, cueTrack);
+      // A cut-off cluster of known size can't be kept — its size would be wrong
+      if (!scanned.complete && header.size !== null) break;
+      if (scanned.end > dataStart) {
+        clusters.push({ offset, time: scanned.time, cue: scanned.cue });
+        clustersEnd = scanned.end;
+        lastBlockTime = Math.max(lastBlockTime, scanned.lastBlockTime);
+      }
+      if (!scanned.complete) break;
+      offset = scanned.end;
+      continue;
+    }
+
+    if (header.size === null || dataStart + header.size > segmentEnd) break;
+    const end = dataStart + header.size;
+    if (header.id === ID.Info) {
+      info = new Uint8Array(await reader.read(dataStart, header.size));
+      for (const child of readChildren(info)) {
+        if (child.id === ID.TimestampScale) timestampScale = readUint(child.data);
+      }
+    } else if (header.id === ID.Tracks) {
+      tracks = new Uint8Array(await reader.read(offset, end - offset));
+      cueTrack = findCueTrack(tracks.subarray(header.headerSize));
+    } else if (header.id === ID.Cues) {
+      hadCues = true;
+    } else if (!REWRITTEN_ELEMENTS.has(header.id)) {
+      (clusters.length === 0 ? leading : trailing).push(reader.blob.slice(offset, end));
+    }
+    offset = end;
+  }
+
+  if (!info || !tracks || clusters.length === 0) return null;
+  const infoChildren = readChildren(info);
+  const existingDuration = infoChildren.find((c) => c.id === ID.Duration);
+  const complete = offset >= segmentEnd && segment.size !== null;
+  if (existingDuration && readFloat(existingDuration.data) > 0 && hadCues && complete) return null;
+
+  const durationTicks = duration && duration > 0 ? (duration * 1e9) / timestampScale : lastBlockTime;
+  const newInfo = element(
+    ID.Info,
+    ...infoChildren.filter((c) => c.id !== ID.Duration && c.id !== ID.Void).map((c) => c.raw),
+    float(ID.Duration, durationTicks),
+  );
+
+  // The SeekHead's size is fixed, so measure it with placeholder positions
+  const seekHeadSize = seekHead([[ID.Info, 0], [ID.Tracks, 0], [ID.Cues, 0]]).length;
+  const leadingSize = leading.reduce((sum, b) => sum + b.size, 0);
+  const clustersStart = seekHeadSize + newInfo.length + tracks.length + leadingSize;
+  const firstCluster = clusters[0].offset;
+  const clustersSize = clustersEnd - firstCluster;
+  const trailingSize = trailing.reduce((sum, b) => sum + b.size, 0);
+
+  const cues = element(
+    ID.Cues,
+    ...clusters
+      .filter((c) => c.cue)
+      .map((c) =>
+        element(
+          ID.CuePoint,
+          uint(ID.CueTime, c.cue!.time),
+          element(
+            ID.CueTrackPositions,
+            uint(ID.CueTrack, cueTrack!),
+            uint(ID.CueClusterPosition, clustersStart + c.offset - firstCluster),
+            uint(ID.CueRelativePosition, c.cue!.position),
+          ),
+        ),
+      ),
+  );
+  const cuesPosition = clustersStart + clustersSize + trailingSize;
+  const seeks = seekHead([
+    [ID.Info, seekHeadSize],
+    [ID.Tracks, seekHeadSize + newInfo.length],
+    [ID.Cues, cuesPosition],
+  ]);
+  const segmentHeader = concat([idBytes(ID.Segment), vint(cuesPosition + cues.length, 8)]);
+
+  return new Blob(
+    [
+      reader.blob.slice(0, segmentOffset),
+      segmentHeader,
+      seeks,
+      newInfo,
+      tracks,
+      ...leading,
+      reader.blob.slice(firstCluster, clustersEnd),
+      ...trailing,
+      cues,
+    ],
+    { type: reader.blob.type },
+  );
+}
+
+/** The track Cues point at: the first video track, else the first track */
+function findCueTrack(tracksPayload: Uint8Array): number | null {
+  let first: number | null = null;
+  for (const entry of readChildren(tracksPayload)) {
+    if (entry.id !== ID.TrackEntry) continue;
+    const fields = readChildren(entry.data);
+    const number = fields.find((f) => f.id === ID.TrackNumber);
+    const type = fields.find((f) => f.id === ID.TrackType);
+    if (!number) continue;
+    const trackNumber = readUint(number.data);
+    if (type && readUint(type.data) === 1) return trackNumber;
+    first ??= trackNumber;
+  }
+  return first;
+}
+
+/**
+ * Walk a cluster's children without loading its frames.
+ * Unknown-size clusters (what MediaRecorder writes) end at the first
+ * element that can't be in a cluster.
+ */
+async function scanCluster(
+  reader: BlobReader,
+  dataStart: number,
+  size: number | null,
+  segmentEnd: number,
+  cueTrack: number,
+): Promise<{ end: number; complete: boolean; time: number; cue: WebmCluster["cue"]; lastBlockTime: number }> {
+  const limit = size === null ? segmentEnd : dataStart + size;
+  let time = 0;
+  let cue: WebmCluster["cue"] = null;
+  let lastBlockTime = 0;
+  let offset = dataStart;
+
+  while (offset < limit) {
+    const header = readElementHeader(await reader.read(offset, HEADER_BYTES), 0);
+    if (!header) break;
+    if (size === null && !CLUSTER_CHILDREN.has(header.id)) {
+      return { end: offset, complete: true, time, cue, lastBlockTime };
+    }
+    const childStart = offset + header.headerSize;
+    if (header.size === null || childStart + header.size > limit) break;
+
+    let block: ReturnType<typeof readBlockHeader> = null;
+    if (header.id === ID.Timestamp) {
+      time = readUint(await reader.read(childStart, header.size));
+    } else if (header.id === ID.SimpleBlock) {
+      block = readBlockHeader(await reader.read(childStart, Math.min(header.size, HEADER_BYTES)));
+    } else if (header.id === ID.BlockGroup) {
+      // A Block is a key frame unless it references another
+      const children = readChildren(await reader.read(childStart, header.size));
+      const inner = children.find((c) => c.id === ID.Block);
+      block = inner ? readBlockHeader(inner.data) : null;
+      if (block) block.key = !children.some((c) => c.id === ID.ReferenceBlock);
+    }
+    if (block) {
+      lastBlockTime = Math.max(lastBlockTime, time + block.timecode);
+      if (!cue && block.key && block.track === cueTrack) {
+        cue = { time: time + block.timecode, position: offset - dataStart };
+      }
+    }
+    offset = childStart + header.size;
+  }
+  return { end: offset, complete: offset >= limit, time, cue, lastBlockTime };
+}
+
+// ---------------------------------------------------------------------------
+// Fragmented MP4
+// ---------------------------------------------------------------------------
+
+interface TopBox {
+  type: string;
+  offset: number;
+  size: number;
+}
+
+interface Mp4Fragment {
+  offset: number;
+  end: number;
+  moof: BoxNode;
+  /** Whether its mdat is complete */
+  hasData: boolean;
+}
+
+/** One track's samples in one fragment, in the track's timescale */
+interface TrackRun {
+  start: number | null;
+  duration: number;
+  startsWithSync: boolean;
+}
+
+/** Returns null when the file needs no repair */
+async function repairMp4(reader: BlobReader, duration?: number): Promise<Blob | null> {
+  const boxes: TopBox[] = [];
+  const fragments: Mp4Fragment[] = [];
+  let moov: BoxNode | null = null;
+
+  let offset = 0;
+  while (offset < reader.size) {
+    const header = readBoxHeader(await reader.read(offset, HEADER_BYTES), reader.size - offset);
+    if (!header || header.size < header.headerSize || offset + header.size > reader.size) break;
+    const box = { type: header.type, offset, size: header.size };
+    const payloadStart = offset + header.headerSize;
+
+    if (header.type === "moov") {
+      moov = { type: "moov", children: parseBoxes(await reader.read(payloadStart, header.size - header.headerSize)) };
+    } else if (header.type === "moof") {
+      const children = parseBoxes(await reader.read(payloadStart, header.size - header.headerSize));
+      fragments.push({ offset, end: offset + header.size, moof: { type: "moof", children }, hasData: false });
+    } else if (fragments.length > 0 && header.type !== "mfra" && header.type !== "sidx") {
+      const last = fragments[fragments.length - 1];
+      last.end = offset + header.size;
+      last.hasData ||= header.type === "mdat";
+    }
+    boxes.push(box);
+    offset += header.size;
+  }
+
+  // A fragment cut off before its media data is dropped
+  while (fragments.length > 0 && !fragments[fragments.length - 1].hasData) fragments.pop();
+  const moovBox = boxes.find((b) => b.type === "moov");
+  if (!moov || !moovBox || fragments.length === 0 || moovBox.offset > fragments[0].offset) return null;
+
+  const mvhd = findBox(moov, "mvhd");
+  if (!mvhd?.payload) return null;
+  const movieTimescale = readField(mvhd.payload, 12, 20, false);
+  const hasSidx = boxes.some((b) => b.type === "sidx");
+  const complete = offset >= reader.size;
+  if (readField(mvhd.payload, 16, 24, true) > 0 && hasSidx && complete) return null;
+
+  // Tracks: ID, timescale, trex defaults, and which one the sidx is timed by
+  const traks = (moov.children ?? []).filter((c) => c.type === "trak");
+  const trexes = (findBox(moov, "mvex")?.children ?? []).filter((c) => c.type === "trex" && c.payload);
+  const tracks = traks.map((trak) => {
+    const tkhd = findBox(trak, "tkhd")?.payload;
+    const mdia = findBox(trak, "mdia");
+    const mdhd = mdia && findBox(mdia, "mdhd")?.payload;
+    const hdlr = mdia && findBox(mdia, "hdlr")?.payload;
+    if (!tkhd || !mdhd) throw new Error("MP4 track without tkhd or mdhd");
+    const id = readField(tkhd, 12, 20, false);
+    const trex = trexes.find((t) => view(t.payload!).getUint32(4) === id)?.payload;
+    return {
+      id,
+      trak,
+      timescale: readField(mdhd, 12, 20, false),
+      isVideo: hdlr !== undefined && String.fromCharCode(...hdlr.subarray(8, 12)) === "vide",
+      defaultDuration: trex ? view(trex).getUint32(12) : 0,
+      defaultFlags: trex ? view(trex).getUint32(20) : 0,
+      end: 0,
+    };
+  });
+  if (tracks.length === 0) return null;
+  const reference = tracks.find((t) => t.isVideo) ?? tracks[0];
+
+  // Time every fragment
+  const referenceRuns: TrackRun[] = [];
+  for (const fragment of fragments) {
+    let referenceRun: TrackRun | null = null;
+    for (const traf of (fragment.moof.children ?? []).filter((c) => c.type === "traf")) {
+      const track = tracks.find((t) => t.id === view(findBox(traf, "tfhd")?.payload ?? new Uint8Array(8)).getUint32(4));
+      if (!track) continue;
+      const run = readTraf(traf, track);
+      if (!run) return null;
+      const start = run.start ?? track.end;
+      track.end = Math.max(track.end, start + run.duration);
+      if (track === reference && !referenceRun) referenceRun = { ...run, start };
+    }
+    referenceRuns.push(referenceRun ?? { start: null, duration: 0, startsWithSync: false });
+  }
+
+  const mediaDuration = Math.max(...tracks.map((t) => (t.timescale > 0 ? t.end / t.timescale : 0)));
+  const seconds = duration && duration > 0 ? duration : mediaDuration;
+  const movieDuration = Math.round(seconds * movieTimescale);
+
+  // Patch the durations into a copy of the moov
+  mvhd.payload = writeField(mvhd.payload, 16, 24, movieDuration);
+  for (const track of tracks) {
+    const tkhd = findBox(track.trak, "tkhd")!;
+    tkhd.payload = writeField(tkhd.payload!, 20, 28, movieDuration);
+    const mdhd = findBox(findBox(track.trak, "mdia")!, "mdhd")!;
+    mdhd.payload = writeField(mdhd.payload!, 16, 24, track.end || Math.round(seconds * track.timescale));
+  }
+  const mvex = findBox(moov, "mvex");
+  if (mvex?.children) {
+    const mehd = findBox(mvex, "mehd");
+    if (mehd?.payload) mehd.payload = writeField(mehd.payload, 4, 4, movieDuration);
+    else mvex.children.unshift({ type: "mehd", payload: build((w) => w.u8(1).u24(0).u64(movieDuration)) });
+  }
+
+  // Segment index: one reference per fragment, timed by the reference track
+  const starts: number[] = [];
+  referenceRuns.forEach((run, i) => {
+    starts.push(run.start ?? (i === 0 ? 0 : starts[i - 1] + referenceRuns[i - 1].duration));
+  });
+  const firstFragment = fragments[0].offset;
+  const fragmentsEnd = fragments[fragments.length - 1].end;
+  const sidx = fullBox("sidx", 1, 0, build((w) => {
+    w.u32(reference.id).u32(reference.timescale);
+    w.u64(starts[0]).u64(0); // earliest_presentation_time, first_offset
+    w.u16(0).u16(fragments.length);
+    fragments.forEach((fragment, i) => {
+      const next = fragments[i + 1];
+      const end = next ? starts[i + 1] : reference.end;
+      w.u32(((next ? next.offset : fragmentsEnd) - fragment.offset) & 0x7fffffff); // reference_type 0: media
+      w.u32(Math.max(0, end - starts[i]));
+      w.u32(referenceRuns[i].startsWithSync ? 0x90000000 : 0); // starts_with_SAP, SAP type 1
+    });
+  }));
+
+  // Everything between the moov and the first fragment stays, except an old index
+  const between = boxes
+    .filter((b) => b.offset > moovBox.offset && b.offset < firstFragment && b.type !== "sidx")
+    .map((b) => reader.blob.slice(b.offset, b.offset + b.size));
+
+  return new Blob(
+    [
+      reader.blob.slice(0, moovBox.offset),
+      serializeBox(moov),
+      ...between,
+      sidx,
+      reader.blob.slice(firstFragment, fragmentsEnd),
+    ],
+    { type: reader.blob.type },
+  );
+}
+
+/**
+ * Start, duration and first-sample sync of one traf's samples.
+ * @returns null if its sample data is addressed by absolute file offsets —
+ *   moving the fragment would break it
+ */
+function readTraf(
+  traf: BoxNode,
+  track: { defaultDuration: number; defaultFlags: number },
+): TrackRun | null {
+  const tfhd = findBox(traf, "tfhd")!.payload!;
+  const tfhdView = view(tfhd);
+  const tfhdFlags = tfhdView.getUint32(0) & 0xffffff;
+  if (tfhdFlags & 0x1) return null; // base_data_offset
+  let field = 8;
+  if (tfhdFlags & 0x2) field += 4; // sample_description_index
+  let defaultDuration = track.defaultDuration;
+  let defaultFlags = track.defaultFlags;
+  if (tfhdFlags & 0x8) {
+    defaultDuration = tfhdView.getUint32(field);
+    field += 4;
+  }
+  if (tfhdFlags & 0x10) field += 4; // default_sample_size
+  if (tfhdFlags & 0x20) defaultFlags = tfhdView.getUint32(field);
+
+  const tfdt = findBox(traf, "tfdt")?.payload;
+  const start = tfdt ? readField(tfdt, 4, 4, true) : null;
+
+  let duration = 0;
+  let firstFlags: number | null = null;
+  for (const trun of (traf.children ?? []).filter((c) => c.type === "trun" && c.payload)) {
+    const trunView = view(trun.payload!);
+    const flags = trunView.getUint32(0) & 0xffffff;
+    const count = trunView.getUint32(4);
+    let cursor = 8;
+    if (flags & 0x1) cursor += 4; // data_offset
+    let firstSampleFlags: number | null = null;
+    if (flags & 0x4) {
+      firstSampleFlags = trunView.getUint32(cursor);
+      cursor += 4;
+    }
+    for (let i = 0; i < count; i++) {
+      let sampleFlags = defaultFlags;
+      if (flags & 0x100) {
+        duration += trunView.getUint32(cursor);
+        cursor += 4;
+      } else {
+        duration += defaultDuration;
+      }
+      if (flags & 0x200) cursor += 4; // sample_size
+      if (flags & 0x400) {
+        sampleFlags = trunView.getUint32(cursor);
+        cursor += 4;
+      }
+      if (flags & 0x800) cursor += 4; // composition offset
+      if (i === 0 && firstSampleFlags !== null) sampleFlags = firstSampleFlags;
+      firstFlags ??= sampleFlags;
+    }
+  }
+  return { start, duration, startsWithSync: firstFlags !== null && (firstFlags & NON_SYNC_SAMPLE) === 0 };
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * A full box's version-dependent field — 32-bit at `v0Offset` in version 0,
+ * at `v1Offset` (64-bit if `wide`) in version 1.
+ */
+function readField(payload: Uint8Array, v0Offset: number, v1Offset: number, wide: boolean): number {
+  const v = view(payload);
+  if (payload[0] !== 1) return v.getUint32(v0Offset);
+  return wide ? v.getUint32(v1Offset) * 2 ** 32 + v.getUint32(v1Offset + 4) : v.getUint32(v1Offset);
+}
+
+/** A copy of a full box's payload with a duration field set (64-bit in version 1) */
+function writeField(payload: Uint8Array, v0Offset: number, v1Offset: number, value: number): Uint8Array {
+  const copy = new Uint8Array(payload);
+  const v = view(copy);
+  if (copy[0] === 1) {
+    v.setUint32(v1Offset, Math.floor(value / 2 ** 32));
+    v.setUint32(v1Offset + 4, value % 2 ** 32);
+  } else {
+    v.setUint32(v0Offset, Math.min(value, 0xffffffff));
+  }
+  return copy;
+}
@@ -0,0 +1,239 @@
+import { build, concat } from "./bytes";
+import { element, float, ID, idBytes, seekHead, string, uint, UNKNOWN_SIZE, vint } from "./ebml";
+import { av1Config, opusHead, parseOpusHead } from "./codecs";
+import {
+  descriptionBytes,
+  FragmentQueue,
+  type ContainerWriter,
+  type MuxFragment,
+  type Muxer,
+  type MuxerOptions,
+  type MuxSample,
+} from "./muxer";
+
+/**
+ * WebM (Matroska) muxer for VP8, VP9 or AV1 video with Opus audio.
+ *
+ * While recording:  EBML header + Segment of unknown size { Info, Tracks, Clusters… }
+ *                   — the same shape MediaRecorder writes
+ * Finished file:    EBML header + Segment { SeekHead, Info (with Duration), Tracks, Clusters…, Cues }
+ *
+ * Cues index every cluster that starts on a video key frame. SeekHead
+ * positions are written as fixed 8-byte integers, so the segment's header
+ * size doesn't depend on where the Cues end up.
+ */
+
+/** Block timestamps are in ms (TimestampScale = 1,000,000 ns) */
+const TIMESTAMP_SCALE = 1_000_000;
+
+/** SimpleBlock timestamps are signed 16-bit offsets from their cluster's */
+const MAX_CLUSTER_SPAN_MS = 30_000;
+
+/** Opus needs 80 ms of audio decoded before a seek target to converge */
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+
+/** Matroska codec ID for a WebCodecs codec string */
+function codecId(codec: string): string {
+  if (codec.startsWith("vp09")) return "V_VP9";
+  if (codec === "vp8") return "V_VP8";
+  if (codec.startsWith("av01")) return "V_AV1";
+  if (codec === "opus") return "A_OPUS";
+  throw new Error(`WebM can't hold ${codec}`);
+}
+
+interface Block {
+  track: number;
+  sample: MuxSample;
+}
+
+/** A written cluster, for Cues */
+interface ClusterIndex {
+  /** Offset from the first cluster */
+  offset: number;
+  /** ms */
+  time: number;
+  /** Whether the cluster starts with a video key frame (or has no video) */
+  seekable: boolean;
+}
+
+export class WebmMuxer implements Muxer, ContainerWriter {
+  readonly mimeType: string;
+  private options: MuxerOptions;
+  private queue: FragmentQueue;
+  private videoDescription: Uint8Array | null = null;
+  private audioDescription: Uint8Array | null = null;
+  private clusters: ClusterIndex[] = [];
+  private written = 0;
+
+  constructor(options: MuxerOptions) {
+    this.options = options;
+    this.queue = new FragmentQueue(this, options);
+    const codecs = [options.video?.codec, options.audio?.codec].filter(Boolean).join(",");
+    this.mimeType = `${options.video ? "video" : "audio"}/webm;codecs=${codecs}`;
+  }
+
+  addVideoChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !this.videoDescription) this.videoDescription = descriptionBytes(description);
+    this.queue.addVideo(chunk);
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !this.audioDescription) this.audioDescription = descriptionBytes(description);
+    this.queue.addAudio(chunk);
+  }
+
+  finalize(): Blob {
+    return this.queue.finish();
+  }
+
+  // -- ContainerWriter -------------------------------------------------------
+
+  header(): Uint8Array<ArrayBuffer> {
+    return concat([this.ebmlHeader(), idBytes(ID.Segment), UNKNOWN_SIZE, this.info(null), this.tracks()]);
+  }
+
+  fragment(fragment: MuxFragment): Uint8Array<ArrayBuffer> {
+    // Interleave the tracks by time
+    const blocks: Block[] = [
+      ...fragment.video.map((sample) => ({ track: VIDEO_TRACK, sample })),
+      ...fragment.audio.map((sample) => ({ track: AUDIO_TRACK, sample })),
+    ].sort((a, b) => a.sample.timestamp - b.sample.timestamp);
+
+    const clusters: Uint8Array[] = [];
+    let start = 0;
+    while (start < blocks.length) {
+      const time = Math.floor(blocks[start].sample.timestamp / 1000);
+      let end = start + 1;
+      while (end < blocks.length && blocks[end].sample.timestamp / 1000 - time <= MAX_CLUSTER_SPAN_MS) end++;
+
+      this.clusters.push({
+        offset: this.written,
+        time,
+        // Fragments start on a key frame; clusters split off a long one don't
+        seekable: !this.options.video || (start === 0 && (fragment.video[0]?.key ?? false)),
+      });
+      const cluster = this.cluster(time, blocks.slice(start, end));
+      clusters.push(cluster);
+      this.written += cluster.length;
+      start = end;
+    }
+    return concat(clusters);
+  }
+
+  file(fragments: Blob[], duration: number): Blob {
+    const info = this.info(duration / 1000);
+    const tracks = this.tracks();
+    // The SeekHead's size is fixed, so measure it with placeholder positions
+    const seekHeadSize = seekHead([[ID.Info, 0], [ID.Tracks, 0], [ID.Cues, 0]]).length;
+    const clustersStart = seekHeadSize + info.length + tracks.length;
+    const cues = this.cues(clustersStart);
+    const seeks = seekHead([
+      [ID.Info, seekHeadSize],
+      [ID.Tracks, seekHeadSize + info.length],
+      [ID.Cues, clustersStart + this.written],
+    ]);
+
+    const segmentSize = clustersStart + this.written + cues.length;
+    const segmentHeader = concat([idBytes(ID.Segment), vint(segmentSize, 8)]);
+    return new Blob([this.ebmlHeader(), segmentHeader, seeks, info, tracks, ...fragments, cues], {
+      type: this.mimeType,
+    });
+  }
+
+  // -- Elements ----------------------------------------------------------------
+
+  private ebmlHeader(): Uint8Array<ArrayBuffer> {
+    return element(
+      ID.EBML,
+      uint(ID.EBMLVersion, 1),
+      uint(ID.EBMLReadVersion, 1),
+      uint(ID.EBMLMaxIDLength, 4),
+      uint(ID.EBMLMaxSizeLength, 8),
+      string(ID.DocType, "webm"),
+      uint(ID.DocTypeVersion, 4),
+      uint(ID.DocTypeReadVersion, 2),
+    );
+  }
+
+  /** Segment info; `duration` in ms, null while recording */
+  private info(duration: number | null): Uint8Array<ArrayBuffer> {
+    return element(
+      ID.Info,
+      uint(ID.TimestampScale, TIMESTAMP_SCALE),
+      string(ID.MuxingApp, "VidLog"),
+      string(ID.WritingApp, "VidLog"),
+      ...(duration === null ? [] : [float(ID.Duration, duration)]),
+    );
+  }
+
+  private tracks(): Uint8Array<ArrayBuffer> {
+    const entries: Uint8Array[] = [];
+    const { video, audio } = this.options;
+    if (video) {
+      // AV1 requires its av1C; VP8/VP9 need none
+      const privateData = this.videoDescription ?? (video.codec.startsWith("av01") ? av1Config(video.codec) : null);
+      entries.push(element(
+        ID.TrackEntry,
+        uint(ID.TrackNumber, VIDEO_TRACK),
+        uint(ID.TrackUID, VIDEO_TRACK),
+        uint(ID.TrackType, 1),
+        uint(ID.FlagLacing, 0),
+        string(ID.CodecID, codecId(video.codec)),
+        ...(privateData ? [element(ID.CodecPrivate, privateData)] : []),
+        element(ID.Video, uint(ID.PixelWidth, video.width), uint(ID.PixelHeight, video.height)),
+      ));
+    }
+    if (audio) {
+      const head = this.audioDescription ?? opusHead(audio.sampleRate, audio.numberOfChannels);
+      const { preSkip } = parseOpusHead(head);
+      entries.push(element(
+        ID.TrackEntry,
+        uint(ID.TrackNumber, AUDIO_TRACK),
+        uint(ID.TrackUID, AUDIO_TRACK),
+        uint(ID.TrackType, 2),
+        uint(ID.FlagLacing, 0),
+        string(ID.CodecID, codecId(audio.codec)),
+        element(ID.CodecPrivate, head),
+        uint(ID.CodecDelay, Math.round((preSkip / 48_000) * 1e9)),
+        uint(ID.SeekPreRoll, OPUS_SEEK_PRE_ROLL_NS),
+        element(ID.Audio, float(ID.SamplingFrequency, audio.sampleRate), uint(ID.Channels, audio.numberOfChannels)),
+      ));
+    }
+    return element(ID.Tracks, ...entries);
+  }
+
+  /** A cluster of blocks, `time` in ms */
+  private cluster(time: number, blocks: Block[]): Uint8Array<ArrayBuffer> {
+    return element(
+      ID.Cluster,
+      uint(ID.Timestamp, time),
+      ...blocks.map(({ track, sample }) =>
+        element(ID.SimpleBlock, build((w) => {
+          w.bytes(vint(track));
+          w.i16(Math.round(sample.timestamp / 1000) - time);
+          w.u8(sample.key ? 0x80 : 0);
+          w.bytes(sample.data);
+        })),
+      ),
+    );
+  }
+
+  private cues(clustersStart: number): Uint8Array<ArrayBuffer> {
+    const track = this.options.video ? VIDEO_TRACK : AUDIO_TRACK;
+    const points = this.clusters
+      .filter((c) => c.seekable)
+      .map((c) =>
+        element(
+          ID.CuePoint,
+          uint(ID.CueTime, c.time),
+          element(ID.CueTrackPositions, uint(ID.CueTrack, track), uint(ID.CueClusterPosition, clustersStart + c.offset)),
+        ),
+      );
+    return element(ID.Cues, ...points);
+  }
+}
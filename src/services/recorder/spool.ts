@@ -0,0 +1,366 @@
+import type { DiaryEntry, MediaKind, ScreenLayout, StorageProviderType } from "~/models/types";
+import type { IStorageProvider } from "~/services/storage/types";
+import { generateId, generateFilesystemId } from "~/utils/id";
+import { generateThumbnail } from "~/utils/video";
+import { formatDate } from "~/utils/time";
+import { vault } from "~/services/storage/vault";
+import { repairVideoIndex } from "./mux/repair";
+
+/**
+ * Crash-safe recording spool.
+ *
+ * While recording, every MediaRecorder chunk is written to its own file inside
+ * the active provider's partials/ directory:
+ *
+ *   partials/{sessionId}/
+ *     manifest.json              — SpoolManifest (rewritten after every chunk)
+ *     000001.chunk, 000002.chunk — raw MediaRecorder output, in order
+ *
+ * One file per chunk because createWritable() only commits on close() — a
+ * single growing file would lose everything written since the last close.
+ * The spool is removed once the entry is saved or discarded; anything left
+ * behind on the next boot is an unfinished recording and gets recovered.
+ *
+ * With the encrypted vault enabled, each chunk and the manifest are sealed
+ * before they are written, and opened again during recovery.
+ */
+
+const MANIFEST_FILE = "manifest.json";
+const CHUNK_SUFFIX = ".chunk";
+
+/** Web Lock name held by the tab that owns a spool (prevents other tabs recovering it) */
+const LOCK_PREFIX = "vidlog-spool-";
+
+/** Without Web Locks, spools touched more recently than this are assumed live */
+const STALE_AFTER_MS = 15_000;
+
+/** Metadata persisted alongside the chunks — enough to rebuild a DiaryEntry */
+export interface SpoolManifest {
+  sessionId: string;
+  storageProvider: StorageProviderType;
+  startedAt: number;
+  updatedAt: number;
+  mimeType: string;
+  templateId: string;
+  title: string;
+  /** Absent for spools written before audio entries existed (videos) */
+  mediaKind?: MediaKind;
+  videoWidth: number | null;
+  videoHeight: number | null;
+  /** Layout of a screen recording — absent for camera recordings */
+  screenLayout?: ScreenLayout;
+  /** Recorded seconds covered by the chunks written so far */
+  elapsed: number;
+  chunkCount: number;
+}
+
+function isSpoolManifest(value: unknown): value is SpoolManifest {
+  const manifest = value as SpoolManifest;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof manifest.sessionId === "string" &&
+    typeof manifest.storageProvider === "string" &&
+    typeof manifest.startedAt === "number" &&
+    typeof manifest.mimeType === "string" &&
+    typeof manifest.chunkCount === "number"
+  );
+}
+
+/**
+ * Writes recording chunks to disk as they arrive.
+ * All writes are serialized through a promise chain; failures are logged
+ * and never interrupt the recording itself (the in-memory copy still exists).
+ */
+export class RecordingSpool {
+  private dir: FileSystemDirectoryHandle;
+  private parent: FileSystemDirectoryHandle;
+  private manifest: SpoolManifest;
+  private writeChain: Promise<void> = Promise.resolve();
+  private releaseLock: (() => void) | null = null;
+  private closed = false;
+
+  private constructor(
+    parent: FileSystemDirectoryHandle,
+    dir: FileSystemDirectoryHandle,
+    manifest: SpoolManifest,
+  ) {
+    this.parent = parent;
+    this.dir = dir;
+    this.manifest = manifest;
+  }
+
+  /**
+   * Open a new spool in the given provider's partials/ directory.
+   * Returns null if the provider doesn't support spooling.
+   */
+  static async open(
+    provider: IStorageProvider,
+    init: Omit<SpoolManifest, "sessionId" | "storageProvider" | "startedAt" | "updatedAt" | "elapsed" | "chunkCount">,
+  ): Promise<RecordingSpool | null> {
+    if (!provider.getSpoolDirectory) return null;
+
+    const parent = await provider.getSpoolDirectory();
+    const sessionId = generateId();
+    const dir = await parent.getDirectoryHandle(sessionId, { create: true });
+    const now = Date.now();
+
+    const spool = new RecordingSpool(parent, dir, {
+      ...init,
+      sessionId,
+      storageProvider: provider.name as StorageProviderType,
+      startedAt: now,
+      updatedAt: now,
+      elapsed: 0,
+      chunkCount: 0,
+    });
+    spool.holdLock();
+    await writeManifest(dir, spool.manifest);
+    return spool;
+  }
+
+  get sessionId(): string {
+    return this.manifest.sessionId;
+  }
+
+  /** Merge manifest fields (e.g. negotiated mimeType, title) and persist them. */
+  update(updates: Partial<Pick<SpoolManifest, "mimeType" | "title" | "templateId" | "videoWidth" | "videoHeight" | "screenLayout">>): void {
+    this.enqueue(async () => {
+      this.manifest = { ...this.manifest, ...updates, updatedAt: Date.now() };
+      await writeManifest(this.dir, this.manifest);
+    });
+  }
+
+  /** Append one MediaRecorder chunk. `elapsed` is the recording time it ends at. */
+  append(chunk: Blob, elapsed: number): void {
+    this.enqueue(async () => {
+      const index = this.manifest.chunkCount + 1;
+      await writeFile(this.dir, chunkName(index), await vault.sealBlob(chunk));
+      this.manifest = {
+        ...this.manifest,
+        mimeType: this.manifest.mimeType || chunk.type,
+        chunkCount: index,
+        elapsed,
+        updatedAt: Date.now(),
+      };
+      await writeManifest(this.dir, this.manifest);
+    });
+  }
+
+  /** Wait for every queued write to land on disk. */
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  /**
+   * Remove the spool from disk. Called after the entry was saved or the
+   * user discarded the take — either way there's nothing left to recover.
+   */
+  async discard(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await this.writeChain;
+    try {
+      await this.parent.removeEntry(this.manifest.sessionId, { recursive: true });
+    } catch (err) {
+      console.warn("[RecordingSpool] Failed to remove spool:", err);
+    }
+    this.releaseLock?.();
+    this.releaseLock = null;
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    if (this.closed) return;
+    this.writeChain = this.writeChain.then(task).catch((err) => {
+      console.warn("[RecordingSpool] Write failed:", err);
+    });
+  }
+
+  /** Hold a Web Lock for the lifetime of the spool so other tabs leave it alone. */
+  private holdLock(): void {
+    if (!navigator.locks) return;
+    void navigator.locks.request(LOCK_PREFIX + this.manifest.sessionId, () =>
+      new Promise<void>((resolve) => {
+        this.releaseLock = resolve;
+      }),
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Recovery
+// ---------------------------------------------------------------------------
+
+/**
+ * Find spools left behind by a crashed or closed tab, turn each into a
+ * regular DiaryEntry saved through the same provider, and remove the spool.
+ * Spools still owned by a live tab are skipped.
+ *
+ * @returns The recovered entries
+ */
+export async function recoverOrphanedSpools(
+  provider: IStorageProvider,
+  onRecovered?: (entry: DiaryEntry) => void,
+): Promise<DiaryEntry[]> {
+  if (!provider.getSpoolDirectory) return [];
+
+  const parent = await provider.getSpoolDirectory();
+  const liveSessions = await getLockedSessions();
+  const recovered: DiaryEntry[] = [];
+
+  const sessionDirs: FileSystemDirectoryHandle[] = [];
+  for await (const [, handle] of parent.entries()) {
+    if (handle.kind === "directory") sessionDirs.push(handle as FileSystemDirectoryHandle);
+  }
+
+  for (const dir of sessionDirs) {
+    if (liveSessions?.has(dir.name)) continue;
+    try {
+      const manifest = await readManifest(dir);
+      if (!liveSessions && manifest && Date.now() - manifest.updatedAt < STALE_AFTER_MS) continue;
+
+      const chunks = await readChunks(dir);
+      if (!manifest || chunks.length === 0) {
+        // Nothing usable was written before the crash
+        await parent.removeEntry(dir.name, { recursive: true });
+        continue;
+      }
+
+      const entry = await buildRecoveredEntry(provider, manifest, chunks);
+      await provider.save(entry);
+      await parent.removeEntry(dir.name, { recursive: true });
+
+      recovered.push(entry);
+      onRecovered?.(entry);
+    } catch (err) {
+      console.warn(`[RecordingSpool] Failed to recover spool ${dir.name}:`, err);
+    }
+  }
+
+  return recovered;
+}
+
+async function buildRecoveredEntry(
+  provider: IStorageProvider,
+  manifest: SpoolManifest,
+  chunks: Blob[],
+): Promise<DiaryEntry> {
+  const mediaKind = manifest.mediaKind ?? "video";
+  const mimeType = manifest.mimeType || chunks[0].type || (mediaKind === "audio" ? "audio/webm" : "video/webm");
+  // Plaintext chunks are disk-backed Files — assembling them doesn't pull the video into memory,
+  // and neither does the index repair (it only slices). A crash can leave the last cluster cut
+  // off; the repair trims it and takes the duration from the media.
+  const blob = await repairVideoIndex(new Blob(chunks, { type: mimeType }));
+
+  // An audio entry's waveform comes from the levels measured while recording, which
+  // died with the tab — only a visualizer track leaves something to take a thumbnail of
+  let thumbnailDataUrl: string | null = null;
+  if (mediaKind === "video" || manifest.videoWidth) {
+    try {
+      thumbnailDataUrl = await generateThumbnail(blob);
+    } catch {
+      // Thumbnail generation is optional
+    }
+  }
+
+  const startedAt = manifest.startedAt;
+  return {
+    id: provider.name === "filesystem" ? generateFilesystemId(new Date(startedAt)) : generateId(),
+    title: manifest.title || `Recovered recording - ${formatDate(startedAt)}`,
+    createdAt: startedAt,
+    updatedAt: Date.now(),
+    // Chunks arrive every second, so the last manifest write is at most ~1s behind
+    duration: manifest.elapsed,
+    tags: ["recovered"],
+    templateId: manifest.templateId,
+    storageProvider: provider.name as StorageProviderType,
+    mediaKind,
+    mimeType,
+    videoWidth: manifest.videoWidth,
+    videoHeight: manifest.videoHeight,
+    screenLayout: manifest.screenLayout,
+    videoBlob: blob,
+    videoBlobUrl: null,
+    thumbnailDataUrl,
+    cloudStatus: "none",
+    cloudProvider: null,
+    cloudFileId: null,
+    cloudUrl: null,
+    cloudError: null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// File helpers
+// ---------------------------------------------------------------------------
+
+function chunkName(index: number): string {
+  return `${String(index).padStart(6, "0")}${CHUNK_SUFFIX}`;
+}
+
+async function writeFile(
+  dir: FileSystemDirectoryHandle,
+  name: string,
+  data: Blob | string,
+): Promise<void> {
+  const handle = await dir.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(data);
+  await writable.close();
+}
+
+/** The manifest names the take (title, template, layout) — sealed like the chunks when the vault is enabled */
+async function writeManifest(dir: FileSystemDirectoryHandle, manifest: SpoolManifest): Promise<void> {
+  await writeFile(dir, MANIFEST_FILE, JSON.stringify(await vault.sealRecord(manifest.sessionId, manifest)));
+}
+
+/**
+ * Read a spool's manifest — null if it's missing, unreadable or not a
+ * manifest. A sealed manifest that can't be opened (vault locked) throws
+ * instead, so the spool is kept for a later recovery rather than discarded.
+ */
+async function readManifest(dir: FileSystemDirectoryHandle): Promise<SpoolManifest | null> {
+  let raw: unknown;
+  try {
+    const handle = await dir.getFileHandle(MANIFEST_FILE);
+    const file = await handle.getFile();
+    raw = JSON.parse(await file.text());
+  } catch {
+    return null;
+  }
+  const manifest = await vault.openMeta(raw);
+  return isSpoolManifest(manifest) ? manifest : null;
+}
+
+/** Read chunk files in write order, skipping empty ones (a crash mid-write leaves 0 bytes). */
+async function readChunks(dir: FileSystemDirectoryHandle): Promise<Blob[]> {
+  const handles: FileSystemFileHandle[] = [];
+  for await (const [name, handle] of dir.entries()) {
+    if (handle.kind === "file" && name.endsWith(CHUNK_SUFFIX)) {
+      handles.push(handle as FileSystemFileHandle);
+    }
+  }
+  handles.sort((a, b) => a.name.localeCompare(b.name));
+
+  const chunks: Blob[] = [];
+  for (const handle of handles) {
+    const file = await handle.getFile();
+    if (file.size > 0) chunks.push(await vault.openBlob(file, file.type));
+  }
+  return chunks;
+}
+
+/** Session IDs whose spool lock is held by a live tab, or null if Web Locks is unavailable. */
+async function getLockedSessions(): Promise<Set<string> | null> {
+  if (!navigator.locks?.query) return null;
+  try {
+    const snapshot = await navigator.locks.query();
+    const names = [...(snapshot.held ?? []), ...(snapshot.pending ?? [])]
+      .map((lock) => lock.name ?? "")
+      .filter((name) => name.startsWith(LOCK_PREFIX))
+      .map((name) => name.slice(LOCK_PREFIX.length));
+    return new Set(names);
+  } catch {
+    return null;
+  }
+}
@@ -1,3 +1,5 @@
-export type { CameraDevice } from "./camera";
-export { requestCamera, listCameras, stopStream } from "./camera";
+export type { CameraDevice, MicrophoneDevice } from "./camera";
+export { requestCamera, requestMicrophone, listCameras, listMicrophones, stopStream } from "./camera";
 export { RecordingEngine } from "./engine";
+export { RecordingSpool, recoverOrphanedSpools } from "./spool";
+export type { SpoolManifest } from "./spool";
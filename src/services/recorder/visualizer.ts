@@ -0,0 +1,58 @@
+/**
+ * The picture of an audio-only recording: the mic's spectrum as mirrored
+ * bars around a ring that swells with the level. It stands in for the
+ * webcam frame — the template overlay is drawn on top — and is what gets
+ * recorded when audio entries keep a visualizer track.
+ */
+
+/** Spectrum bars drawn — the upper bins are mostly empty for speech */
+const BARS = 48;
+
+/** Share of the frequency bins the bars cover */
+const BIN_SHARE = 0.7;
+
+/** Draw one visualizer frame over the whole canvas */
+export function drawVisualizer(
+  ctx: CanvasRenderingContext2D,
+  frequencyData: Uint8Array | null,
+  level: number,
+  width: number,
+  height: number,
+  color: string,
+): void {
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, width, height);
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const radius = Math.min(width, height) * (0.12 + level * 0.06);
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+
+  // Ring
+  ctx.globalAlpha = 0.35 + level * 0.65;
+  ctx.lineWidth = Math.max(2, height / 180);
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // Spectrum, mirrored either side of the ring
+  if (frequencyData && frequencyData.length > 0) {
+    const bins = Math.max(1, Math.floor(frequencyData.length * BIN_SHARE));
+    const span = (width / 2 - radius * 1.4) / BARS;
+    const barWidth = Math.max(1, span * 0.6);
+    const maxHeight = height * 0.6;
+    ctx.globalAlpha = 0.85;
+    for (let i = 0; i < BARS; i++) {
+      const value = frequencyData[Math.floor((i / BARS) * bins)] / 255;
+      const h = Math.max(2, value * maxHeight);
+      const offset = radius * 1.4 + i * span;
+      ctx.fillRect(cx + offset, cy - h / 2, barWidth, h);
+      ctx.fillRect(cx - offset - barWidth, cy - h / 2, barWidth, h);
+    }
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,360 @@
+import type { RecordingFormat } from "~/models/types";
+import type { RecordingBackend, RecordingBackendOptions } from "./backend";
+import type { Muxer, MuxerOptions } from "./mux/muxer";
+import { Mp4Muxer } from "./mux/mp4";
+import { WebmMuxer } from "./mux/webm";
+
+/**
+ * Records with WebCodecs.
+ *
+ * Pipeline:
+ *   Canvas → VideoFrame (each rendered frame, paced to the frame rate) → VideoEncoder ┐
+ *   Mic → AudioWorklet (PCM) → AudioData → AudioEncoder ───────────────────────────────┴→ MP4/WebM muxer → Blob
+ *
+ * The codecs are negotiated up front with isConfigSupported(): the format's
+ * own codecs or nothing, so an AV1 recording is AV1 in MP4 and never
+ * quietly becomes VP9 in WebM. Timestamps are recording time (pauses
+ * excluded) — video from the engine's clock, audio from the samples
+ * captured — so the tracks stay in sync across pauses.
+ *
+ * Without a canvas, only the mic is encoded, into an audio-only file.
+ */
+
+/** Video codecs per format, best first — H.264/AV1 levels high enough for 1080p30 come first */
+const VIDEO_CODECS: Record<RecordingFormat, string[]> = {
+  av1: ["av01.0.08M.08", "av01.0.05M.08", "av01.0.04M.08"],
+  h264: ["avc1.640028", "avc1.4d0028", "avc1.42e028", "avc1.42e01f"],
+  webm: ["vp09.00.40.08", "vp09.00.31.08", "vp8"],
+};
+
+/** Audio codecs per format, best first */
+const AUDIO_CODECS: Record<RecordingFormat, string[]> = {
+  av1: ["mp4a.40.2", "opus"],
+  h264: ["mp4a.40.2", "opus"],
+  webm: ["opus"],
+};
+
+/** Audio bitrate when the profile leaves it to the browser */
+const DEFAULT_AUDIO_BITRATE = 128_000;
+
+/** µs between forced key frames — how finely the file can be seeked */
+const KEY_FRAME_INTERVAL = 2_000_000;
+
+/** Frames allowed to wait in the video encoder before new ones are dropped */
+const MAX_ENCODE_QUEUE = 8;
+
+/** Sample frames the capture worklet collects before posting them */
+const CAPTURE_FRAMES = 2048;
+
+/** Audio worklet posting the mic's PCM to the main thread, one planar batch at a time */
+const CAPTURE_WORKLET = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frames = options.processorOptions.frames;
+    this.buffer = null;
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (input.length === 0) return true;
+    if (!this.buffer) this.buffer = input.map(() => new Float32Array(this.frames));
+    let offset = 0;
+    while (offset < input[0].length) {
+      const take = Math.min(input[0].length - offset, this.frames - this.filled);
+      this.buffer.forEach((channel, i) => channel.set(input[i].subarray(offset, offset + take), this.filled));
+      this.filled += take;
+      offset += take;
+      if (this.filled === this.frames) {
+        this.port.postMessage(this.buffer, this.buffer.map((channel) => channel.buffer));
+        this.buffer = input.map(() => new Float32Array(this.frames));
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor("vidlog-capture", CaptureProcessor);
+`;
+
+interface EncoderPlan {
+  container: "mp4" | "webm";
+  /** null for audio-only recordings */
+  video: VideoEncoderConfig | null;
+  audio: AudioEncoderConfig | null;
+}
+
+/** The mic's audio graph, kept for every take */
+interface AudioCapture {
+  context: AudioContext;
+  node: AudioWorkletNode;
+  channels: number;
+}
+
+/** Route the stream's audio into the capture worklet */
+async function openAudioCapture(stream: MediaStream, track: MediaStreamTrack): Promise<AudioCapture> {
+  const channels = Math.min(Math.max(track.getSettings().channelCount ?? 1, 1), 2);
+
+  // Opus only encodes 48 kHz (and AAC is happy with it), so resample there if the browser can
+  let context = new AudioContext({ sampleRate: 48_000 });
+  let source: MediaStreamAudioSourceNode;
+  try {
+    source = context.createMediaStreamSource(stream);
+  } catch {
+    // Some browsers can't connect a stream to a context at another rate
+    void context.close().catch(() => {});
+    context = new AudioContext();
+    source = context.createMediaStreamSource(stream);
+  }
+
+  const url = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: "text/javascript" }));
+  try {
+    await context.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  const node = new AudioWorkletNode(context, "vidlog-capture", {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: channels,
+    channelCountMode: "explicit",
+    processorOptions: { frames: CAPTURE_FRAMES },
+  });
+  source.connect(node);
+  return { context, node, channels };
+}
+
+/** The first config of each track the browser can encode, or null if a track has none */
+async function negotiate(
+  format: RecordingFormat,
+  options: RecordingBackendOptions,
+  capture: AudioCapture | null,
+): Promise<EncoderPlan | null> {
+  let video: VideoEncoderConfig | null = null;
+  if (options.canvas) {
+    for (const codec of VIDEO_CODECS[format]) {
+      const config: VideoEncoderConfig = {
+        codec,
+        width: options.canvas.width,
+        height: options.canvas.height,
+        bitrate: options.videoBitsPerSecond,
+        framerate: options.frameRate,
+        latencyMode: "realtime",
+        // avcC in the decoder config, length-prefixed NAL units in the chunks — what MP4 stores
+        ...(codec.startsWith("avc1") ? { avc: { format: "avc" as const } } : {}),
+      };
+      const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+      if (support?.supported) {
+        video = config;
+        break;
+      }
+    }
+    if (!video) return null;
+  }
+
+  let audio: AudioEncoderConfig | null = null;
+  if (capture) {
+    for (const codec of AUDIO_CODECS[format]) {
+      const config: AudioEncoderConfig = {
+        codec,
+        sampleRate: capture.context.sampleRate,
+        numberOfChannels: capture.channels,
+        bitrate: options.audioBitsPerSecond ?? DEFAULT_AUDIO_BITRATE,
+      };
+      const support = await AudioEncoder.isConfigSupported(config).catch(() => null);
+      if (support?.supported) {
+        audio = config;
+        break;
+      }
+    }
+    if (!audio) return null;
+  }
+
+  return { container: format === "webm" ? "webm" : "mp4", video, audio };
+}
+
+export class WebCodecsBackend implements RecordingBackend {
+  private options: RecordingBackendOptions;
+  private plan: EncoderPlan;
+  private capture: AudioCapture | null;
+  private muxer: Muxer | null = null;
+  private videoEncoder: VideoEncoder | null = null;
+  private audioEncoder: AudioEncoder | null = null;
+  /** Whether frames and audio are being encoded — false while paused */
+  private recording = false;
+  /** µs — recording time the next video frame is due */
+  private nextFrameTime = 0;
+  private lastKeyFrameTime = -Infinity;
+  /** Audio sample frames encoded in this take */
+  private audioFrames = 0;
+
+  /**
+   * A backend that records the format exactly.
+   * @returns null if this browser can't encode the format (or the stream's audio),
+   *   or there's nothing to record
+   */
+  static async create(options: RecordingBackendOptions, format: RecordingFormat): Promise<WebCodecsBackend | null> {
+    if (options.canvas && (typeof VideoEncoder === "undefined" || typeof VideoFrame === "undefined")) return null;
+
+    const track = options.stream.getAudioTracks()[0];
+    if (!options.canvas && !track) return null;
+    let capture: AudioCapture | null = null;
+    if (track) {
+      if (typeof AudioEncoder === "undefined") return null;
+      try {
+        capture = await openAudioCapture(options.stream, track);
+      } catch (err) {
+        console.warn("[WebCodecsBackend] Failed to set up audio capture:", err);
+        return null;
+      }
+    }
+
+    const plan = await negotiate(format, options, capture);
+    if (!plan) {
+      if (capture) void capture.context.close().catch(() => {});
+      return null;
+    }
+    return new WebCodecsBackend(options, plan, capture);
+  }
+
+  private constructor(options: RecordingBackendOptions, plan: EncoderPlan, capture: AudioCapture | null) {
+    this.options = options;
+    this.plan = plan;
+    this.capture = capture;
+    if (capture) {
+      capture.node.port.onmessage = (e: MessageEvent<Float32Array[]>) => this.encodeAudio(e.data);
+    }
+  }
+
+  /** MIME type with the negotiated codecs, e.g. "video/mp4;codecs=avc1.640028,mp4a.40.2" */
+  get mimeType(): string {
+    return this.muxer?.mimeType ?? `${this.plan.video ? "video" : "audio"}/${this.plan.container}`;
+  }
+
+  start(): void {
+    const { video, audio } = this.plan;
+    const muxerOptions: MuxerOptions = {
+      video: video ? { codec: video.codec, width: video.width, height: video.height } : null,
+      audio: audio ? { codec: audio.codec, sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels } : null,
+      onData: this.options.onChunk,
+    };
+    // Encoder callbacks keep their own take's muxer — late output never lands in the next take
+    const muxer = this.plan.container === "mp4" ? new Mp4Muxer(muxerOptions) : new WebmMuxer(muxerOptions);
+    this.muxer = muxer;
+
+    if (video) {
+      this.videoEncoder = new VideoEncoder({
+        output: (chunk, metadata) => muxer.addVideoChunk(chunk, metadata),
+        error: (err) => console.error("[WebCodecsBackend] Video encoder failed:", err),
+      });
+      this.videoEncoder.configure(video);
+    }
+    if (audio) {
+      this.audioEncoder = new AudioEncoder({
+        output: (chunk, metadata) => muxer.addAudioChunk(chunk, metadata),
+        error: (err) => console.error("[WebCodecsBackend] Audio encoder failed:", err),
+      });
+      this.audioEncoder.configure(audio);
+    }
+
+    this.nextFrameTime = 0;
+    this.lastKeyFrameTime = -Infinity;
+    this.audioFrames = 0;
+    this.recording = true;
+    // Created before any user gesture, so it may have started suspended
+    if (this.capture) void this.capture.context.resume().catch(() => {});
+  }
+
+  pause(): void {
+    this.recording = false;
+  }
+
+  resume(): void {
+    if (this.muxer) this.recording = true;
+  }
+
+  async stop(): Promise<Blob> {
+    this.recording = false;
+    const muxer = this.muxer;
+    if (!muxer) return new Blob([], { type: this.mimeType });
+
+    try {
+      await Promise.all([this.videoEncoder?.flush(), this.audioEncoder?.flush()]);
+    } catch (err) {
+      // Keep whatever was encoded before the failure
+      console.warn("[WebCodecsBackend] Failed to flush encoders:", err);
+    }
+    this.closeEncoders();
+    return muxer.finalize();
+  }
+
+  destroy(): void {
+    this.recording = false;
+    this.closeEncoders();
+    this.muxer = null;
+    if (this.capture) {
+      this.capture.node.port.onmessage = null;
+      this.capture.node.disconnect();
+      void this.capture.context.close().catch(() => {});
+      this.capture = null;
+    }
+  }
+
+  captureFrame(elapsed: number): void {
+    const encoder = this.videoEncoder;
+    const canvas = this.options.canvas;
+    if (!this.recording || encoder?.state !== "configured" || !canvas) return;
+
+    // The render loop runs at the display's rate — keep to the configured frame rate
+    const timestamp = Math.round(elapsed * 1_000_000);
+    const interval = 1_000_000 / this.options.frameRate;
+    if (timestamp + 1000 < this.nextFrameTime) return;
+    this.nextFrameTime = Math.max(this.nextFrameTime + interval, timestamp);
+
+    // Drop frames rather than queue them up if the encoder falls behind
+    if (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) return;
+
+    const keyFrame = timestamp - this.lastKeyFrameTime >= KEY_FRAME_INTERVAL;
+    const frame = new VideoFrame(canvas, { timestamp });
+    try {
+      encoder.encode(frame, { keyFrame });
+      if (keyFrame) this.lastKeyFrameTime = timestamp;
+    } finally {
+      frame.close();
+    }
+  }
+
+  /** Encode a batch of planar PCM from the capture worklet */
+  private encodeAudio(channels: Float32Array[]): void {
+    const encoder = this.audioEncoder;
+    if (!this.recording || encoder?.state !== "configured" || !this.capture) return;
+
+    const sampleRate = this.capture.context.sampleRate;
+    const frames = channels[0].length;
+    const data = new Float32Array(frames * channels.length);
+    channels.forEach((channel, i) => data.set(channel, i * frames));
+    const audioData = new AudioData({
+      format: "f32-planar",
+      sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels.length,
+      timestamp: Math.round((this.audioFrames / sampleRate) * 1_000_000),
+      data,
+    });
+    try {
+      encoder.encode(audioData);
+    } finally {
+      audioData.close();
+    }
+    this.audioFrames += frames;
+  }
+
+  private closeEncoders(): void {
+    for (const encoder of [this.videoEncoder, this.audioEncoder]) {
+      if (encoder && encoder.state !== "closed") encoder.close();
+    }
+    this.videoEncoder = null;
+    this.audioEncoder = null;
+  }
+}
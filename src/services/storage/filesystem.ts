@@ -2,6 +2,7 @@ import type { DiaryEntry } from "~/models/types";
 import type { IStorageProvider, StorageCapabilities, ChangeSummary } from "./types";
 import { deserializeMeta, entryToMeta } from "./types";
 import { getExtensionForMimeType } from "~/utils/format";
+import { readKeyCheckFile, vault, writeKeyCheckFile } from "./vault";
 
 /**
  * Filesystem Storage Provider — persists diary entries to a user-visible OS folder
@@ -10,6 +11,8 @@ import { getExtensionForMimeType } from "~/utils/format";
  * Directory layout (inside user-chosen folder):
  *   entries/{id}.json          — serialized DiaryEntryMeta
  *   videos/{id}.{mp4|webm}    — video blob (extension derived from mimeType)
+ *   partials/{sessionId}/      — chunk spool of an in-progress recording
+ *   vault.json                 — the vault's KeyCheck, when it's enabled
  *
  * IDs use date-prefixed format (e.g. 2026-02-23_143207_a3f7) for human-readable
  * filenames, structurally different from UUIDs to prevent cross-provider collision.
@@ -18,6 +21,9 @@ import { getExtensionForMimeType } from "~/utils/format";
  * Video blobs are lazy-loaded (null on getAll(), populated via loadVideoBlob()).
  *
  * Uses atomic swap files via createWritable() — crash before .close() = no corruption.
+ *
+ * With the encrypted vault enabled (see vault.ts), videos and metadata are
+ * sealed on write and opened on read; plaintext files still read normally.
  */
 export class FilesystemStorage implements IStorageProvider {
   readonly name = "filesystem";
@@ -78,12 +84,11 @@ export class FilesystemStorage implements IStorageProvider {
           { create: true },
         );
         const writable = await videoFile.createWritable();
-        await writable.write(entry.videoBlob);
-        await writable.close();
+        await vault.sealStream(entry.videoBlob).pipeTo(writable);
       }
 
       // Write metadata JSON last (after video blob succeeds)
-      const meta = entryToMeta(entry);
+      const meta = await vault.sealMeta(entryToMeta(entry));
       const metaFile = await this.entriesDir.getFileHandle(
         `${entry.id}.json`,
         { create: true },
@@ -113,7 +118,7 @@ export class FilesystemStorage implements IStorageProvider {
       const metaFile = await this.entriesDir.getFileHandle(`${id}.json`);
       const file = await metaFile.getFile();
       const text = await file.text();
-      return deserializeMeta(JSON.parse(text));
+      return deserializeMeta(await vault.openMeta(JSON.parse(text)));
     } catch {
       return null;
     }
@@ -128,7 +133,7 @@ export class FilesystemStorage implements IStorageProvider {
       try {
         const file = await (handle as FileSystemFileHandle).getFile();
         const text = await file.text();
-        entries.push(deserializeMeta(JSON.parse(text)));
+        entries.push(deserializeMeta(await vault.openMeta(JSON.parse(text))));
       } catch {
         // Skip corrupt entries
         console.warn(`[Filesystem] Skipping corrupt entry file: ${name}`);
@@ -154,12 +159,21 @@ export class FilesystemStorage implements IStorageProvider {
           create: true,
         });
         const writable = await videoFile.createWritable();
-        await writable.write(updates.videoBlob);
-        await writable.close();
+        await vault.sealStream(updates.videoBlob).pipeTo(writable);
+
+        // A re-encoded video can change container — drop the old file
+        const previousExt = getExtensionForMimeType(existing.mimeType);
+        if (previousExt !== ext) {
+          try {
+            await this.videosDir.removeEntry(`${entry.id}${previousExt}`);
+          } catch {
+            // Already gone
+          }
+        }
       }
 
       // Write updated metadata
-      const meta = entryToMeta(updated);
+      const meta = await vault.sealMeta(entryToMeta(updated));
       const metaFile = await this.entriesDir.getFileHandle(`${entry.id}.json`, {
         create: true,
       });
@@ -171,6 +185,14 @@ export class FilesystemStorage implements IStorageProvider {
     }
   }
 
+  async readVaultKeyCheck(): Promise<string | null> {
+    return readKeyCheckFile(this.root);
+  }
+
+  async writeVaultKeyCheck(json: string | null): Promise<void> {
+    await writeKeyCheckFile(this.root, json);
+  }
+
   async delete(entry: DiaryEntry): Promise<void> {
     this.assertInitialized();
     this.pendingOwnWrites.add(entry.id);
@@ -206,17 +228,33 @@ export class FilesystemStorage implements IStorageProvider {
    * Returns the Blob, or null if the video file doesn't exist.
    */
   async loadVideoBlob(entry: DiaryEntry): Promise<Blob | null> {
+    const file = await this.loadStoredVideo(entry);
+    if (!file) return null;
+    try {
+      return await vault.openBlob(file, entry.mimeType);
+    } catch {
+      return null;
+    }
+  }
+
+  /** The video file as stored, or null if it doesn't exist */
+  async loadStoredVideo(entry: DiaryEntry): Promise<Blob | null> {
     this.assertInitialized();
     try {
       const ext = getExtensionForMimeType(entry.mimeType);
       const videoFile = await this.videosDir.getFileHandle(`${entry.id}${ext}`);
-      const file = await videoFile.getFile();
-      return file;
+      return await videoFile.getFile();
     } catch {
       return null;
     }
   }
 
+  /** Get (or create) the partials/ directory used for crash-safe recording spools. */
+  async getSpoolDirectory(): Promise<FileSystemDirectoryHandle> {
+    this.assertInitialized();
+    return this.root.getDirectoryHandle("partials", { create: true });
+  }
+
   /**
    * Scan for orphan video files (videos without matching metadata JSON)
    * and remove them. Returns count of orphans cleaned up.
@@ -0,0 +1,332 @@
+import type { DiaryEntry } from "~/models/types";
+import type { IStorageProvider, StorageCapabilities } from "./types";
+import { deserializeMeta, entryToMeta } from "./types";
+import { vault } from "./vault";
+
+/**
+ * IndexedDB Storage Provider — persists diary entries in an IndexedDB database.
+ *
+ * Used where OPFS is missing or blocked (older Safari, some private-mode
+ * sessions), so entries still survive a refresh.
+ *
+ * Database layout (vidlog-entries):
+ *   entries  {id} → serialized DiaryEntryMeta
+ *   chunks   [id, index] → 4 MB slice of the video blob
+ *   vault    "keyCheck" → the vault's KeyCheck, when it's enabled (version 2)
+ *
+ * Videos are split into chunks so no single record is huge — some engines
+ * fail or stall on multi-hundred-MB values. The chunks and the metadata are
+ * written in one transaction, so an entry is never left half-saved.
+ *
+ * Video blobs are lazy-loaded: null on initial getAll(), reassembled from
+ * chunks only when loadVideoBlob() is called.
+ *
+ * With the encrypted vault enabled (see vault.ts), the video is sealed before
+ * chunking and metadata is sealed on write; plaintext records still read normally.
+ */
+
+const DB_NAME = "vidlog-entries";
+const DB_VERSION = 2;
+const ENTRIES_STORE = "entries";
+const CHUNKS_STORE = "chunks";
+const VAULT_STORE = "vault";
+const KEY_CHECK_KEY = "keyCheck";
+
+/** Size of each stored video slice */
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+/** Key range covering every chunk of one entry */
+function chunkRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound([id, 0], [id, Infinity]);
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE);
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        db.createObjectStore(CHUNKS_STORE);
+      }
+      if (!db.objectStoreNames.contains(VAULT_STORE)) {
+        db.createObjectStore(VAULT_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("IndexedDB is blocked by another tab"));
+  });
+}
+
+/** Resolve with a request's result */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Resolve when a transaction commits; reject if it errors or aborts */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+export class IndexedDBStorage implements IStorageProvider {
+  readonly name = "indexeddb";
+  readonly capabilities: StorageCapabilities = {
+    persistent: true,
+    lazyBlobs: true,
+    quota: true,
+    requiresPermission: false,
+    userVisibleFiles: false,
+  };
+
+  private db: IDBDatabase | null = null;
+
+  /** Open the database. Must be called before any other method. */
+  async init(): Promise<void> {
+    this.db = await openDB();
+    // Another tab upgrading the schema — let it, and fail our next call loudly
+    this.db.onversionchange = () => {
+      this.db?.close();
+      this.db = null;
+    };
+
+    // Request persistent storage so the browser won't evict the database
+    // under storage pressure. Fails silently if user denies or API unavailable.
+    try {
+      if (navigator.storage?.persist) {
+        const persisted = await navigator.storage.persist();
+        if (!persisted) {
+          console.warn("[IndexedDB] Persistent storage request denied by browser");
+        }
+      }
+    } catch {
+      // persist() not available — non-critical
+    }
+  }
+
+  private requireDB(): IDBDatabase {
+    if (!this.db) {
+      throw new Error("IndexedDBStorage not initialized. Call init() first.");
+    }
+    return this.db;
+  }
+
+  /**
+   * Write metadata and (optionally) the video in a single transaction.
+   * A new video replaces all of the entry's previous chunks.
+   */
+  private async write(entry: DiaryEntry, videoBlob: Blob | null): Promise<void> {
+    const db = this.requireDB();
+
+    // Seal before opening the transaction — it would auto-commit while we
+    // await. Sealing streams into the browser's blob storage a chunk at a time.
+    const sealedVideo = videoBlob ? await vault.sealBlob(videoBlob) : null;
+    const meta = await vault.sealMeta(entryToMeta(entry));
+
+    try {
+      const tx = db.transaction([ENTRIES_STORE, CHUNKS_STORE], "readwrite");
+      const done = transactionDone(tx);
+      if (sealedVideo) {
+        const chunks = tx.objectStore(CHUNKS_STORE);
+        chunks.delete(chunkRange(entry.id));
+        for (let offset = 0, index = 0; offset < sealedVideo.size; offset += CHUNK_SIZE, index++) {
+          chunks.put(sealedVideo.slice(offset, offset + CHUNK_SIZE), [entry.id, index]);
+        }
+      }
+      tx.objectStore(ENTRIES_STORE).put(meta, entry.id);
+      await done;
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "QuotaExceededError") {
+        throw new Error(
+          "Storage quota exceeded. Try downloading or deleting some recordings to free up space.",
+        );
+      }
+      throw err;
+    }
+  }
+
+  async save(entry: DiaryEntry): Promise<void> {
+    await this.write(entry, entry.videoBlob);
+  }
+
+  async get(id: string): Promise<DiaryEntry | null> {
+    const db = this.requireDB();
+    try {
+      const tx = db.transaction(ENTRIES_STORE, "readonly");
+      const raw = await requestResult(tx.objectStore(ENTRIES_STORE).get(id));
+      if (!raw) return null;
+      return deserializeMeta(await vault.openMeta(raw));
+    } catch {
+      return null;
+    }
+  }
+
+  async getAll(): Promise<DiaryEntry[]> {
+    const db = this.requireDB();
+    const tx = db.transaction(ENTRIES_STORE, "readonly");
+    const records = await requestResult(tx.objectStore(ENTRIES_STORE).getAll());
+
+    const entries: DiaryEntry[] = [];
+    for (const raw of records) {
+      try {
+        entries.push(deserializeMeta(await vault.openMeta(raw)));
+      } catch {
+        // Skip corrupt entries
+        console.warn("[IndexedDB] Skipping corrupt entry record");
+      }
+    }
+
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async update(entry: DiaryEntry, updates: Partial<DiaryEntry>): Promise<void> {
+    const existing = await this.get(entry.id);
+    if (!existing) return;
+
+    await this.write({ ...existing, ...updates }, updates.videoBlob ?? null);
+  }
+
+  async readVaultKeyCheck(): Promise<string | null> {
+    const tx = this.requireDB().transaction(VAULT_STORE, "readonly");
+    const raw = await requestResult(tx.objectStore(VAULT_STORE).get(KEY_CHECK_KEY));
+    return typeof raw === "string" ? raw : null;
+  }
+
+  async writeVaultKeyCheck(json: string | null): Promise<void> {
+    const tx = this.requireDB().transaction(VAULT_STORE, "readwrite");
+    const done = transactionDone(tx);
+    if (json === null) {
+      tx.objectStore(VAULT_STORE).delete(KEY_CHECK_KEY);
+    } else {
+      tx.objectStore(VAULT_STORE).put(json, KEY_CHECK_KEY);
+    }
+    await done;
+  }
+
+  async delete(entry: DiaryEntry): Promise<void> {
+    const db = this.requireDB();
+
+    // Revoke blob URL if somehow still in memory
+    if (entry.videoBlobUrl) {
+      URL.revokeObjectURL(entry.videoBlobUrl);
+    }
+
+    const tx = db.transaction([ENTRIES_STORE, CHUNKS_STORE], "readwrite");
+    const done = transactionDone(tx);
+    tx.objectStore(ENTRIES_STORE).delete(entry.id);
+    tx.objectStore(CHUNKS_STORE).delete(chunkRange(entry.id));
+    await done;
+  }
+
+  /**
+   * Lazy-load a video blob by reassembling its chunks.
+   * Returns the Blob, or null if the entry has no stored video.
+   */
+  async loadVideoBlob(entry: DiaryEntry): Promise<Blob | null> {
+    const stored = await this.loadStoredVideo(entry);
+    if (!stored) return null;
+    try {
+      return await vault.openBlob(stored, entry.mimeType);
+    } catch {
+      return null;
+    }
+  }
+
+  /** The entry's chunks joined as stored, or null if it has none */
+  async loadStoredVideo(entry: DiaryEntry): Promise<Blob | null> {
+    const db = this.requireDB();
+    try {
+      const tx = db.transaction(CHUNKS_STORE, "readonly");
+      const chunks = await requestResult(tx.objectStore(CHUNKS_STORE).getAll(chunkRange(entry.id)));
+      return chunks.length > 0 ? new Blob(chunks as Blob[]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Total size of the entry's stored chunks, or null if there are none */
+  async getVideoSize(entry: DiaryEntry): Promise<number | null> {
+    const db = this.requireDB();
+    const tx = db.transaction(CHUNKS_STORE, "readonly");
+    const chunks = await requestResult(tx.objectStore(CHUNKS_STORE).getAll(chunkRange(entry.id)));
+    if (chunks.length === 0) return null;
+    return (chunks as Blob[]).reduce((sum, chunk) => sum + chunk.size, 0);
+  }
+
+  /** Remove the video's chunks, keeping the entry's metadata */
+  async evictVideo(entry: DiaryEntry): Promise<void> {
+    const db = this.requireDB();
+    const tx = db.transaction(CHUNKS_STORE, "readwrite");
+    const done = transactionDone(tx);
+    tx.objectStore(CHUNKS_STORE).delete(chunkRange(entry.id));
+    await done;
+  }
+
+  /**
+   * Scan for orphan chunks (videos without metadata, e.g. from a deleted
+   * entry whose chunk delete failed) and remove them.
+   * Returns the number of orphaned videos cleaned up.
+   */
+  async cleanup(): Promise<{ orphansRemoved: number }> {
+    const db = this.requireDB();
+
+    const tx = db.transaction([ENTRIES_STORE, CHUNKS_STORE], "readonly");
+    const entryKeys = await requestResult(tx.objectStore(ENTRIES_STORE).getAllKeys());
+    const chunkKeys = await requestResult(tx.objectStore(CHUNKS_STORE).getAllKeys());
+
+    const entryIds = new Set(entryKeys.map(String));
+    const orphanIds = new Set<string>();
+    for (const key of chunkKeys) {
+      const id = String((key as [string, number])[0]);
+      if (!entryIds.has(id)) orphanIds.add(id);
+    }
+    if (orphanIds.size === 0) return { orphansRemoved: 0 };
+
+    const deleteTx = db.transaction(CHUNKS_STORE, "readwrite");
+    const done = transactionDone(deleteTx);
+    for (const id of orphanIds) {
+      deleteTx.objectStore(CHUNKS_STORE).delete(chunkRange(id));
+    }
+    await done;
+    console.info(`[IndexedDB] Removed ${orphanIds.size} orphan video(s)`);
+
+    return { orphansRemoved: orphanIds.size };
+  }
+
+  /**
+   * Get storage quota info. IndexedDB shares the origin's quota with OPFS
+   * and caches, so this is origin-wide usage.
+   */
+  async getQuota(): Promise<{ usageBytes: number; quotaBytes: number } | null> {
+    try {
+      if (!navigator.storage?.estimate) return null;
+      const estimate = await navigator.storage.estimate();
+      return {
+        usageBytes: estimate.usage ?? 0,
+        quotaBytes: estimate.quota ?? 0,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /** Close the database connection */
+  async dispose(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+}
+
+/** Check if the IndexedDB API is available in this browser */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
@@ -1,6 +1,9 @@
 import type { DiaryEntry } from "~/models/types";
 import type { IStorageProvider } from "./types";
 import { EphemeralStorage } from "./ephemeral";
+import { vault } from "./vault";
+import { isEncryptedBlob } from "~/services/crypto/cipher";
+import { cloudStreaming, type CloudStream } from "~/services/cloud/stream";
 
 /**
  * StorageManager — multi-provider storage with active provider for writes.
@@ -136,6 +139,17 @@ class StorageManager {
     return entry.videoBlob;
   }
 
+  /**
+   * Play a video sealed in the vault without opening it whole: the player's
+   * range requests decrypt only the chunks they cover.
+   * @returns The stream, or null if the video isn't sealed or the page can't stream
+   */
+  async openSealedVideo(entry: DiaryEntry): Promise<CloudStream | null> {
+    const stored = await this.getProviderForEntry(entry).loadStoredVideo?.(entry);
+    if (!stored || !(await isEncryptedBlob(stored))) return null;
+    return cloudStreaming.openReader((start, end) => vault.readRange(stored, start, end), entry.mimeType);
+  }
+
   /**
    * Save an entry via the active provider and notify other tabs.
    */
@@ -0,0 +1,324 @@
+import { createSignal } from "solid-js";
+import type { CloudSyncInfo, DiaryEntry, StorageProviderType } from "~/models/types";
+import type { IStorageProvider } from "./types";
+import { storageManager } from "./manager";
+import { getStorageProviderLabel } from "./registry";
+import { generateFilesystemId, generateId, isFilesystemId } from "~/utils/id";
+import { isCloudOnly } from "~/services/cloud/records";
+import { cloudConnections } from "~/services/cloud/connections";
+
+/**
+ * Moving entries between storage providers.
+ *
+ * Each entry is copied to the target — video, metadata and thumbnail — read
+ * back, and compared by video size before the source copy is deleted.
+ * Entries move one at a time, so only a single video is in memory at once.
+ *
+ * The job is saved to localStorage after every step. A move cut short by a
+ * closed tab or crash resumes on the next start (see initializeApp): entries
+ * already copied are verified again and their source deleted, the rest are
+ * copied as usual.
+ *
+ * IDs follow the target's format — date-prefixed in filesystem folders,
+ * UUIDs elsewhere (see utils/id.ts) — and an entry whose ID is taken in the
+ * target gets a new one. Cloud copies are keyed by entry ID, so a re-keyed
+ * entry's cloud copy is replaced by a fresh upload under the new ID.
+ */
+
+const STORAGE_KEY = "vidlog_storage_migration";
+
+type MoveStep = "pending" | "copied" | "done" | "failed";
+
+interface MoveItem {
+  /** Entry ID in the source provider */
+  id: string;
+  title: string;
+  from: StorageProviderType;
+  /** ID in the target — chosen before the first write so a resume reuses it */
+  targetId?: string;
+  step: MoveStep;
+  error?: string;
+  /** Cloud links of a re-keyed entry, replaced once the move finishes */
+  staleCloudSyncs?: CloudSyncInfo[];
+}
+
+export interface MigrationJob {
+  target: StorageProviderType;
+  items: MoveItem[];
+  startedAt: number;
+}
+
+export interface MigrationProgress {
+  done: number;
+  total: number;
+  /** Title of the entry being moved */
+  current: string | null;
+}
+
+export interface MigrationResult {
+  moved: number;
+  failed: { title: string; error: string }[];
+  /** Source ID → target ID of every moved entry */
+  ids: Record<string, string>;
+}
+
+/** Cloud fields cleared on a re-keyed copy */
+const NO_CLOUD: Partial<DiaryEntry> = {
+  cloudStatus: "none",
+  cloudProvider: null,
+  cloudFileId: null,
+  cloudUrl: null,
+  cloudError: null,
+  cloudSyncs: undefined,
+};
+
+function loadJob(): MigrationJob | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as MigrationJob;
+      if (typeof parsed.target === "string" && Array.isArray(parsed.items)) return parsed;
+    }
+  } catch {
+    // Corrupted data — nothing to resume
+  }
+  return null;
+}
+
+function persistJob(job: MigrationJob | null): void {
+  try {
+    if (job) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(job));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // localStorage full or unavailable — silently ignore
+  }
+}
+
+const [job, setJob] = createSignal<MigrationJob | null>(loadJob());
+const [running, setRunning] = createSignal(false);
+const [progress, setProgress] = createSignal<MigrationProgress | null>(null);
+
+/** Persist the job and publish a fresh copy, so readers see in-place item changes */
+function saveJob(next: MigrationJob | null): void {
+  persistJob(next);
+  setJob(next ? { ...next, items: next.items.map((item) => ({ ...item })) } : null);
+}
+
+function isUnfinished(item: MoveItem): boolean {
+  return item.step === "pending" || item.step === "copied";
+}
+
+function requireProvider(name: string): IStorageProvider {
+  const provider = storageManager.getProvider(name);
+  if (!provider) throw new Error(`${getStorageProviderLabel(name)} isn't available`);
+  return provider;
+}
+
+async function readVideo(provider: IStorageProvider, entry: DiaryEntry): Promise<Blob | null> {
+  return provider.loadVideoBlob ? provider.loadVideoBlob(entry) : entry.videoBlob;
+}
+
+/** Keep the entry's ID if it fits the target's format and is free there */
+async function chooseTargetId(entry: DiaryEntry, target: IStorageProvider): Promise<string> {
+  const wantsFilesystemId = target.name === "filesystem";
+  if (isFilesystemId(entry.id) === wantsFilesystemId && !(await target.get(entry.id))) {
+    return entry.id;
+  }
+  for (;;) {
+    const id = wantsFilesystemId ? generateFilesystemId(new Date(entry.createdAt)) : generateId();
+    if (!(await target.get(id))) return id;
+  }
+}
+
+/** Read the copy back and check its video is complete */
+async function verifyCopy(target: IStorageProvider, id: string, expectedSize: number): Promise<void> {
+  const copy = await target.get(id);
+  if (!copy) throw new Error("The copy could not be read back");
+  const video = await readVideo(target, copy);
+  if (!video || video.size !== expectedSize) {
+    throw new Error(
+      `The copied video is incomplete (${video?.size ?? 0} of ${expectedSize} bytes)`,
+    );
+  }
+}
+
+/**
+ * Move one entry, advancing `item.step` as it goes. `checkpoint` persists the
+ * job between steps.
+ */
+async function moveItem(
+  item: MoveItem,
+  target: IStorageProvider,
+  checkpoint: () => void,
+): Promise<void> {
+  const source = requireProvider(item.from);
+  const entry = await source.get(item.id);
+
+  if (!entry) {
+    // An interrupted run may have deleted the source right after copying
+    if (item.step === "copied" && item.targetId && (await target.get(item.targetId))) {
+      item.step = "done";
+      return;
+    }
+    throw new Error("The entry no longer exists");
+  }
+
+  const video = await readVideo(source, entry);
+  if (!video) throw new Error("The video isn't stored on this device");
+
+  if (item.step === "pending") {
+    if (!item.targetId) {
+      item.targetId = await chooseTargetId(entry, target);
+      if (item.targetId !== entry.id && entry.cloudSyncs) {
+        item.staleCloudSyncs = entry.cloudSyncs;
+      }
+      checkpoint();
+    }
+    const rekeyed = item.targetId !== entry.id;
+    await target.save({
+      ...entry,
+      ...(rekeyed ? NO_CLOUD : {}),
+      id: item.targetId,
+      storageProvider: target.name as StorageProviderType,
+      videoBlob: video,
+      videoBlobUrl: null,
+    });
+  }
+
+  await verifyCopy(target, item.targetId!, video.size);
+  item.step = "copied";
+  checkpoint();
+
+  await source.delete(entry);
+  item.step = "done";
+}
+
+/**
+ * Replace the cloud copies of re-keyed entries with uploads under their new
+ * IDs. Connections that are signed out get theirs when they're back: the
+ * upload waits in the queue, the old copy's tombstone with the cloud manager.
+ */
+async function relinkCloud(items: MoveItem[]): Promise<void> {
+  const stale = items.filter((i) => i.step === "done" && i.staleCloudSyncs);
+  if (stale.length === 0) return;
+
+  const { cloudSyncManager } = await import("~/services/cloud/manager");
+  for (const item of stale) {
+    cloudSyncManager.dequeueUpload(item.id);
+    for (const record of item.staleCloudSyncs!) {
+      // A connection removed meanwhile has nothing left to relink
+      if (!cloudConnections.get(record.connectionId)) continue;
+      // A tombstone under the old ID, so other devices drop their copy of it
+      await cloudSyncManager.deleteCloudFilesLater(item.id, record);
+      cloudSyncManager.queueUpload(item.targetId!, record.connectionId);
+    }
+  }
+}
+
+async function run(current: MigrationJob): Promise<MigrationResult> {
+  const target = requireProvider(current.target);
+  const total = current.items.length;
+  let done = current.items.filter((i) => !isUnfinished(i)).length;
+
+  setRunning(true);
+  try {
+    for (const item of current.items) {
+      if (!isUnfinished(item)) continue;
+      setProgress({ done, total, current: item.title });
+      try {
+        await moveItem(item, target, () => saveJob(current));
+      } catch (err) {
+        console.warn(`[Migration] Failed to move entry ${item.id}:`, err);
+        item.step = "failed";
+        item.error = err instanceof Error ? err.message : "Unknown error";
+      }
+      saveJob(current);
+      done++;
+    }
+  } finally {
+    setRunning(false);
+    setProgress(null);
+    storageManager.notifyChange();
+    const { diaryStore } = await import("~/stores/diary");
+    await diaryStore.loadEntries();
+  }
+
+  await relinkCloud(current.items);
+  saveJob(null);
+
+  const result: MigrationResult = { moved: 0, failed: [], ids: {} };
+  for (const item of current.items) {
+    if (item.step === "done") {
+      result.moved++;
+      result.ids[item.id] = item.targetId!;
+    } else {
+      result.failed.push({ title: item.title, error: item.error ?? "Not moved" });
+    }
+  }
+  return result;
+}
+
+export const migrationManager = {
+  /** An interrupted move waiting to be resumed, or the running one (reactive) */
+  job,
+
+  /** Whether a move is running (reactive) — auto-lock waits for it */
+  isRunning: running,
+
+  /** Progress of the running move (reactive) */
+  progress,
+
+  /** Why `entry` can't be moved to `target`, or null if it can */
+  cannotMove(entry: DiaryEntry, target: StorageProviderType): string | null {
+    if (entry.storageProvider === target) return "Already stored there";
+    if (isCloudOnly(entry)) return "Cloud-only entries have no video on this device";
+    return null;
+  },
+
+  /**
+   * Move entries to another provider. Entries that can't be moved there
+   * (see cannotMove) are left out.
+   *
+   * @throws If a move is already running or waiting to be resumed, or the target can't be used
+   */
+  async move(entries: DiaryEntry[], target: StorageProviderType): Promise<MigrationResult> {
+    if (running()) throw new Error("A move is already in progress");
+    if (job()) throw new Error("Resume or discard the interrupted move first");
+
+    const provider = requireProvider(target);
+    if (!provider.capabilities.persistent) {
+      throw new Error("Entries can only be moved to storage that survives a refresh");
+    }
+
+    const items: MoveItem[] = entries
+      .filter((e) => migrationManager.cannotMove(e, target) === null)
+      .map((e) => ({ id: e.id, title: e.title, from: e.storageProvider, step: "pending" }));
+    if (items.length === 0) throw new Error("None of these entries can be moved there");
+
+    const next: MigrationJob = { target, items, startedAt: Date.now() };
+    saveJob(next);
+    return run(next);
+  },
+
+  /**
+   * Continue an interrupted move.
+   * @returns The result, or null if there was nothing to resume
+   */
+  async resume(): Promise<MigrationResult | null> {
+    const current = job();
+    if (!current || running()) return null;
+    return run(current);
+  },
+
+  /**
+   * Forget an interrupted move. Entries not yet moved stay where they were;
+   * an entry caught between copy and delete exists in both places.
+   */
+  discard(): void {
+    if (running()) return;
+    saveJob(null);
+  },
+};
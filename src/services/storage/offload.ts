@@ -0,0 +1,347 @@
+import { createSignal } from "solid-js";
+import type { DiaryEntry, OffloadOrder } from "~/models/types";
+import { storageManager } from "./manager";
+import { settingsStore } from "~/stores/settings";
+import { isBackedUp, isCloudOnly, videoRecords } from "~/services/cloud/records";
+
+/**
+ * Offloading synced videos to the cloud to free local space.
+ *
+ * When storage usage crosses the threshold set in Settings (or on demand),
+ * the local videos of synced entries are deleted — oldest or least-watched
+ * first — until usage is comfortably below it again. Metadata and
+ * thumbnails stay, and the entry becomes "cloud-only". Playing an offloaded
+ * entry, or marking it "keep on this device", downloads the video again.
+ *
+ * Only providers that can evict a video (OPFS, IndexedDB) take part; files
+ * in a user-picked folder are the user's to manage.
+ *
+ * Play counts and "keep on this device" choices are per device, so they're
+ * kept in localStorage rather than in the (synced) entry metadata.
+ */
+
+const STORAGE_KEY = "vidlog_offload";
+
+/** Offloading stops this far (percentage points) below the threshold */
+const THRESHOLD_MARGIN = 10;
+
+interface WatchStats {
+  plays: number;
+  lastPlayedAt: number;
+}
+
+interface OffloadState {
+  watched: Record<string, WatchStats>;
+  /** Entries never to offload */
+  kept: string[];
+}
+
+export interface OffloadCandidate {
+  entry: DiaryEntry;
+  bytes: number;
+}
+
+export interface OffloadEstimate {
+  usageBytes: number;
+  quotaBytes: number;
+  /** Usage to offload down to — null when the threshold is off */
+  targetBytes: number | null;
+  /** What reaching the target frees with each order */
+  byOrder: Record<OffloadOrder, { count: number; bytes: number }>;
+  /** What offloading every synced video frees */
+  all: { count: number; bytes: number };
+}
+
+function loadState(): OffloadState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<OffloadState>;
+      return { watched: parsed.watched ?? {}, kept: parsed.kept ?? [] };
+    }
+  } catch {
+    // Corrupted data — start fresh
+  }
+  return { watched: {}, kept: [] };
+}
+
+function persistState(state: OffloadState): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // localStorage full or unavailable — silently ignore
+  }
+}
+
+const [state, setState] = createSignal<OffloadState>(loadState());
+const [running, setRunning] = createSignal(false);
+/** IDs of entries being downloaded back */
+const [rehydrating, setRehydrating] = createSignal<string[]>([]);
+
+function updateState(updater: (prev: OffloadState) => OffloadState): void {
+  setState((prev) => {
+    const next = updater(prev);
+    persistState(next);
+    return next;
+  });
+}
+
+/** Origin-wide usage — OPFS and IndexedDB share one quota */
+async function getUsage(): Promise<{ usageBytes: number; quotaBytes: number } | null> {
+  for (const name of storageManager.getProviderNames()) {
+    const provider = storageManager.getProvider(name);
+    if (provider?.capabilities.quota && provider.getQuota) {
+      const quota = await provider.getQuota();
+      if (quota && quota.quotaBytes > 0) return quota;
+    }
+  }
+  return null;
+}
+
+function sortCandidates(candidates: OffloadCandidate[], order: OffloadOrder): OffloadCandidate[] {
+  const watched = state().watched;
+  return [...candidates].sort((a, b) => {
+    if (order === "least-watched") {
+      const wa = watched[a.entry.id];
+      const wb = watched[b.entry.id];
+      const byPlays = (wa?.plays ?? 0) - (wb?.plays ?? 0);
+      if (byPlays !== 0) return byPlays;
+      const byLastPlay = (wa?.lastPlayedAt ?? 0) - (wb?.lastPlayedAt ?? 0);
+      if (byLastPlay !== 0) return byLastPlay;
+    }
+    return a.entry.createdAt - b.entry.createdAt;
+  });
+}
+
+/** Take candidates in order until `bytesNeeded` is covered */
+function pick(sorted: OffloadCandidate[], bytesNeeded: number): OffloadCandidate[] {
+  const picked: OffloadCandidate[] = [];
+  let freed = 0;
+  for (const candidate of sorted) {
+    if (freed >= bytesNeeded) break;
+    picked.push(candidate);
+    freed += candidate.bytes;
+  }
+  return picked;
+}
+
+function total(candidates: OffloadCandidate[]): { count: number; bytes: number } {
+  return { count: candidates.length, bytes: candidates.reduce((sum, c) => sum + c.bytes, 0) };
+}
+
+/** Usage to offload down to, or null when the threshold is off */
+function targetBytes(quotaBytes: number): number | null {
+  const threshold = settingsStore.settings().offloadThreshold;
+  if (threshold <= 0) return null;
+  return (quotaBytes * Math.max(threshold - THRESHOLD_MARGIN, 0)) / 100;
+}
+
+async function evict(candidate: OffloadCandidate): Promise<void> {
+  const { entry } = candidate;
+  const provider = storageManager.getProviderForEntry(entry);
+  if (!provider.evictVideo || !isBackedUp(entry)) return;
+
+  // Mark it first: an entry marked cloud-only without a local video still
+  // plays from the cloud, a local video without the mark just takes space.
+  // Every connection with a copy can play it back.
+  const offloadedAt = Date.now();
+  const { diaryStore } = await import("~/stores/diary");
+  await diaryStore.updateEntry(entry.id, {
+    videoBlob: null,
+    cloudSyncs: entry.cloudSyncs?.map((r) =>
+      r.status === "synced" && r.videoFileRef ? { ...r, status: "cloud-only" as const, offloadedAt } : r,
+    ),
+  });
+  await provider.evictVideo(entry);
+  if (entry.videoBlobUrl) {
+    URL.revokeObjectURL(entry.videoBlobUrl);
+    await diaryStore.updateEntry(entry.id, { videoBlobUrl: null });
+  }
+}
+
+async function offloadCandidates(picked: OffloadCandidate[]): Promise<{ count: number; bytes: number }> {
+  setRunning(true);
+  let count = 0;
+  let bytes = 0;
+  try {
+    for (const candidate of picked) {
+      try {
+        await evict(candidate);
+        count++;
+        bytes += candidate.bytes;
+      } catch (err) {
+        console.warn(`[Offload] Failed to offload entry ${candidate.entry.id}:`, err);
+      }
+    }
+  } finally {
+    setRunning(false);
+    if (count > 0) storageManager.notifyChange();
+  }
+  return { count, bytes };
+}
+
+export const offloadManager = {
+  /** Whether an offload is running (reactive) */
+  isRunning: running,
+
+  /** Whether an entry's video is being downloaded back (reactive) */
+  isRehydrating: (entryId: string) => rehydrating().includes(entryId),
+
+  /** Whether an entry is excluded from offloading (reactive) */
+  isKept: (entryId: string) => state().kept.includes(entryId),
+
+  /** Count a playback — least-watched offloading goes by these */
+  recordPlay(entryId: string): void {
+    updateState((prev) => {
+      const stats = prev.watched[entryId];
+      return {
+        ...prev,
+        watched: {
+          ...prev.watched,
+          [entryId]: { plays: (stats?.plays ?? 0) + 1, lastPlayedAt: Date.now() },
+        },
+      };
+    });
+  },
+
+  /**
+   * Keep an entry's video on this device (or stop keeping it). Keeping an
+   * offloaded entry downloads its video again.
+   */
+  async setKept(entry: DiaryEntry, kept: boolean): Promise<void> {
+    updateState((prev) => ({
+      ...prev,
+      kept: kept ? [...new Set([...prev.kept, entry.id])] : prev.kept.filter((id) => id !== entry.id),
+    }));
+    if (kept && isCloudOnly(entry)) {
+      await offloadManager.rehydrate(entry);
+    }
+  },
+
+  /** Synced videos that could be offloaded, with their local sizes */
+  async candidates(): Promise<OffloadCandidate[]> {
+    const { diaryStore } = await import("~/stores/diary");
+    const { cloudSyncManager } = await import("~/services/cloud/manager");
+    const queued = new Set(cloudSyncManager.syncQueue().map((i) => i.entryId));
+    const kept = new Set(state().kept);
+
+    const candidates: OffloadCandidate[] = [];
+    for (const entry of diaryStore.entries()) {
+      if (!isBackedUp(entry) || isCloudOnly(entry)) continue;
+      if (kept.has(entry.id) || queued.has(entry.id)) continue;
+      const provider = storageManager.getProviderForEntry(entry);
+      if (!provider.evictVideo || !provider.getVideoSize) continue;
+      const bytes = await provider.getVideoSize(entry);
+      if (bytes) candidates.push({ entry, bytes });
+    }
+    return candidates;
+  },
+
+  /** How much each order would free — shown in Settings */
+  async estimate(): Promise<OffloadEstimate | null> {
+    const usage = await getUsage();
+    if (!usage) return null;
+
+    const candidates = await offloadManager.candidates();
+    const target = targetBytes(usage.quotaBytes);
+    const needed = target === null ? 0 : Math.max(usage.usageBytes - target, 0);
+    return {
+      ...usage,
+      targetBytes: target,
+      byOrder: {
+        oldest: total(pick(sortCandidates(candidates, "oldest"), needed)),
+        "least-watched": total(pick(sortCandidates(candidates, "least-watched"), needed)),
+      },
+      all: total(candidates),
+    };
+  },
+
+  /**
+   * Offload if usage is over the threshold. Called after saves and uploads,
+   * and on start.
+   * @returns What was freed, or null if nothing needed to be
+   */
+  async checkThreshold(): Promise<{ count: number; bytes: number } | null> {
+    const { offloadThreshold } = settingsStore.settings();
+    if (offloadThreshold <= 0 || running()) return null;
+
+    const usage = await getUsage();
+    if (!usage || usage.usageBytes / usage.quotaBytes < offloadThreshold / 100) return null;
+    return offloadManager.freeSpace();
+  },
+
+  /**
+   * Offload synced videos in the configured order until usage is below the
+   * threshold (less a margin, so the next recording doesn't trip it again).
+   */
+  async freeSpace(): Promise<{ count: number; bytes: number }> {
+    if (running()) return { count: 0, bytes: 0 };
+    const usage = await getUsage();
+    const target = usage ? targetBytes(usage.quotaBytes) : null;
+    if (!usage || target === null) return { count: 0, bytes: 0 };
+
+    const sorted = sortCandidates(await offloadManager.candidates(), settingsStore.settings().offloadOrder);
+    return offloadCandidates(pick(sorted, usage.usageBytes - target));
+  },
+
+  /** Offload every synced video that isn't kept on this device */
+  async offloadAll(): Promise<{ count: number; bytes: number }> {
+    if (running()) return { count: 0, bytes: 0 };
+    return offloadCandidates(await offloadManager.candidates());
+  },
+
+  /**
+   * Download an offloaded entry's video back into local storage, from the
+   * first connection that has it and is signed in and unlocked.
+   * @returns The video
+   * @throws If none is ready or the download fails
+   */
+  async rehydrate(entry: DiaryEntry): Promise<Blob> {
+    const { cloudSyncManager } = await import("~/services/cloud/manager");
+    const source = videoRecords(entry)
+      .map((r) => ({ record: r, provider: cloudSyncManager.readyProvider(r.connectionId) }))
+      .find((s) => s.provider && s.record.videoFileRef);
+    if (!source?.provider || !source.record.videoFileRef) {
+      throw new Error("Connect to the cloud (and unlock its encryption) to download this video");
+    }
+
+    setRehydrating((prev) => [...prev, entry.id]);
+    try {
+      const blob = await source.provider.downloadVideo(source.record.videoFileRef);
+      await offloadManager.restore(entry, blob);
+      return blob;
+    } finally {
+      setRehydrating((prev) => prev.filter((id) => id !== entry.id));
+    }
+  },
+
+  /**
+   * Store a cloud-only entry's video on this device — downloaded whole, or
+   * put together from a stream that played to the end (see cloud/stream.ts).
+   */
+  async restore(entry: DiaryEntry, blob: Blob): Promise<void> {
+    if (!isCloudOnly(entry)) return;
+    const cloudSyncs = entry.cloudSyncs?.map((r) =>
+      r.status === "cloud-only" ? { ...r, status: "synced" as const, offloadedAt: undefined } : r,
+    );
+
+    const { diaryStore } = await import("~/stores/diary");
+    // Write the video through storage, then refresh the in-memory entry
+    await storageManager.update(entry, { videoBlob: blob, cloudSyncs });
+    await diaryStore.updateEntry(entry.id, {
+      cloudSyncs,
+      videoBlob: storageManager.getProviderForEntry(entry).capabilities.lazyBlobs ? null : blob,
+    });
+  },
+
+  /** Forget per-device state for a deleted entry */
+  forget(entryId: string): void {
+    const current = state();
+    if (!current.watched[entryId] && !current.kept.includes(entryId)) return;
+    updateState((prev) => {
+      const watched = { ...prev.watched };
+      delete watched[entryId];
+      return { watched, kept: prev.kept.filter((id) => id !== entryId) };
+    });
+  },
+};
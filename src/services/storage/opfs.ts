@@ -2,6 +2,7 @@ import type { DiaryEntry } from "~/models/types";
 import type { IStorageProvider, StorageCapabilities } from "./types";
 import { deserializeMeta, entryToMeta } from "./types";
 import { getExtensionForMimeType } from "~/utils/format";
+import { readKeyCheckFile, vault, writeKeyCheckFile } from "./vault";
 
 /**
  * OPFS Storage Provider — persists diary entries to the Origin Private File System.
@@ -10,12 +11,17 @@ import { getExtensionForMimeType } from "~/utils/format";
  *   /vidlog/
  *     entries/{id}.json          — serialized DiaryEntryMeta
  *     videos/{id}.{mp4|webm}    — video blob (extension derived from mimeType)
+ *     partials/{sessionId}/      — chunk spool of an in-progress recording
+ *     vault.json                 — the vault's KeyCheck, when it's enabled
  *
  * Thumbnails are stored inline as base64 data URLs in the metadata JSON
  * to avoid extra file I/O for the common "load library grid" path.
  *
  * Video blobs are lazy-loaded: null on initial getAll(), populated
  * only when loadVideoBlob() is called (e.g. when user opens an entry).
+ *
+ * With the encrypted vault enabled (see vault.ts), videos and metadata are
+ * sealed on write and opened on read; plaintext files still read normally.
  */
 export class OPFSStorage implements IStorageProvider {
   readonly name = "opfs";
@@ -76,12 +82,12 @@ export class OPFSStorage implements IStorageProvider {
           { create: true },
         );
         const writable = await videoFile.createWritable();
-        await writable.write(entry.videoBlob);
-        await writable.close();
+        // pipeTo() closes the file once the video is written, and discards it on failure
+        await vault.sealStream(entry.videoBlob).pipeTo(writable);
       }
 
       // Write metadata JSON last (after video blob succeeds)
-      const meta = entryToMeta(entry);
+      const meta = await vault.sealMeta(entryToMeta(entry));
       const metaFile = await this.entriesDir!.getFileHandle(
         `${entry.id}.json`,
         { create: true },
@@ -109,7 +115,7 @@ export class OPFSStorage implements IStorageProvider {
       const metaFile = await this.entriesDir!.getFileHandle(`${id}.json`);
       const file = await metaFile.getFile();
       const text = await file.text();
-      return deserializeMeta(JSON.parse(text));
+      return deserializeMeta(await vault.openMeta(JSON.parse(text)));
     } catch {
       return null;
     }
@@ -124,7 +130,7 @@ export class OPFSStorage implements IStorageProvider {
       try {
         const file = await (handle as FileSystemFileHandle).getFile();
         const text = await file.text();
-        entries.push(deserializeMeta(JSON.parse(text)));
+        entries.push(deserializeMeta(await vault.openMeta(JSON.parse(text))));
       } catch {
         // Skip corrupt entries
         console.warn(`[OPFS] Skipping corrupt entry file: ${name}`);
@@ -148,12 +154,21 @@ export class OPFSStorage implements IStorageProvider {
         create: true,
       });
       const writable = await videoFile.createWritable();
-      await writable.write(updates.videoBlob);
-      await writable.close();
+      await vault.sealStream(updates.videoBlob).pipeTo(writable);
+
+      // A re-encoded video can change container — drop the old file
+      const previousExt = getExtensionForMimeType(existing.mimeType);
+      if (previousExt !== ext) {
+        try {
+          await this.videosDir!.removeEntry(`${entry.id}${previousExt}`);
+        } catch {
+          // Already gone
+        }
+      }
     }
 
     // Write updated metadata
-    const meta = entryToMeta(updated);
+    const meta = await vault.sealMeta(entryToMeta(updated));
     const metaFile = await this.entriesDir!.getFileHandle(`${entry.id}.json`, {
       create: true,
     });
@@ -162,6 +177,16 @@ export class OPFSStorage implements IStorageProvider {
     await writable.close();
   }
 
+  async readVaultKeyCheck(): Promise<string | null> {
+    this.assertInitialized();
+    return readKeyCheckFile(this.root!);
+  }
+
+  async writeVaultKeyCheck(json: string | null): Promise<void> {
+    this.assertInitialized();
+    await writeKeyCheckFile(this.root!, json);
+  }
+
   async delete(entry: DiaryEntry): Promise<void> {
     this.assertInitialized();
 
@@ -223,17 +248,56 @@ export class OPFSStorage implements IStorageProvider {
    * Returns the Blob, or null if the video file doesn't exist.
    */
   async loadVideoBlob(entry: DiaryEntry): Promise<Blob | null> {
+    const file = await this.loadStoredVideo(entry);
+    if (!file) return null;
+    try {
+      return await vault.openBlob(file, entry.mimeType);
+    } catch {
+      return null;
+    }
+  }
+
+  /** The video file as stored, or null if it doesn't exist */
+  async loadStoredVideo(entry: DiaryEntry): Promise<Blob | null> {
     this.assertInitialized();
     try {
       const ext = getExtensionForMimeType(entry.mimeType);
       const videoFile = await this.videosDir!.getFileHandle(`${entry.id}${ext}`);
-      const file = await videoFile.getFile();
-      return file;
+      return await videoFile.getFile();
     } catch {
       return null;
     }
   }
 
+  /** Size of the stored video file, or null if there is none */
+  async getVideoSize(entry: DiaryEntry): Promise<number | null> {
+    this.assertInitialized();
+    try {
+      const ext = getExtensionForMimeType(entry.mimeType);
+      const videoFile = await this.videosDir!.getFileHandle(`${entry.id}${ext}`);
+      return (await videoFile.getFile()).size;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Remove the video file, keeping the entry's metadata */
+  async evictVideo(entry: DiaryEntry): Promise<void> {
+    this.assertInitialized();
+    try {
+      const ext = getExtensionForMimeType(entry.mimeType);
+      await this.videosDir!.removeEntry(`${entry.id}${ext}`);
+    } catch {
+      // Already gone
+    }
+  }
+
+  /** Get (or create) the partials/ directory used for crash-safe recording spools. */
+  async getSpoolDirectory(): Promise<FileSystemDirectoryHandle> {
+    this.assertInitialized();
+    return this.root!.getDirectoryHandle("partials", { create: true });
+  }
+
   /**
    * Get storage quota info for OPFS.
    */
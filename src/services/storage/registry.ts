@@ -1,9 +1,26 @@
+import type { StorageProviderType } from "~/models/types";
 import type { IStorageProvider } from "./types";
 import { EphemeralStorage } from "./ephemeral";
 import { OPFSStorage, isOPFSAvailable } from "./opfs";
+import { IndexedDBStorage, isIndexedDBAvailable } from "./indexeddb";
 import { FilesystemStorage, isFilesystemAvailable } from "./filesystem";
 import { getStoredDirectoryHandle } from "./handle-store";
 
+/** User-facing names for each storage provider */
+export const STORAGE_PROVIDER_LABELS: Record<StorageProviderType, string> = {
+  ephemeral: "In-Memory",
+  opfs: "Local Storage (OPFS)",
+  indexeddb: "Browser Database (IndexedDB)",
+  filesystem: "Filesystem Folder",
+};
+
+/** Display label for a provider name, falling back to the name itself */
+export function getStorageProviderLabel(name: string): string {
+  return name in STORAGE_PROVIDER_LABELS
+    ? STORAGE_PROVIDER_LABELS[name as StorageProviderType]
+    : name;
+}
+
 /**
  * A factory that can create and initialize a storage provider.
  * Each provider has one factory; all are explicitly imported in init.ts.
@@ -37,6 +54,20 @@ export const opfsFactory: ProviderFactory = {
   },
 };
 
+/**
+ * IndexedDB — available wherever the IndexedDB API exists. Opening the
+ * database still fails in some private-mode sessions; create() throws then.
+ */
+export const indexeddbFactory: ProviderFactory = {
+  name: "indexeddb",
+  isAvailable: () => isIndexedDBAvailable(),
+  create: async () => {
+    const idb = new IndexedDBStorage();
+    await idb.init();
+    return idb;
+  },
+};
+
 /**
  * Filesystem — available if the File System Access API exists.
  *
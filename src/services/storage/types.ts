@@ -4,7 +4,12 @@ import type {
   CloudStatus,
   CloudSyncInfo,
   StorageProviderType,
+  Transcript,
+  EntryEdit,
+  CloudSyncOverride,
+  ScreenLayout,
 } from "~/models/types";
+import { LEGACY_CONNECTION_ID } from "~/services/cloud/connections";
 
 /** Declares what a storage provider can do — used by consumer code instead of type-casting. */
 export interface StorageCapabilities {
@@ -50,9 +55,32 @@ export interface IStorageProvider {
   /** Lazy-load a video blob by entry. Providers with lazyBlobs capability must implement this. */
   loadVideoBlob?(entry: DiaryEntry): Promise<Blob | null>;
 
+  /**
+   * An entry's video exactly as stored — sealed while the vault is on — so
+   * parts of it can be read without opening it whole (see vault.readRange).
+   * Optional; lazy providers implement it.
+   */
+  loadStoredVideo?(entry: DiaryEntry): Promise<Blob | null>;
+
   /** Get storage quota info. Providers with quota capability must implement this. */
   getQuota?(): Promise<{ usageBytes: number; quotaBytes: number } | null>;
 
+  /**
+   * Directory where in-progress recordings are spooled chunk-by-chunk so they
+   * survive a crash or tab close (see services/recorder/spool.ts).
+   * Optional — providers without it keep recordings in memory only.
+   */
+  getSpoolDirectory?(): Promise<FileSystemDirectoryHandle>;
+
+  /** Size in bytes of an entry's stored video, or null if it has none. Optional. */
+  getVideoSize?(entry: DiaryEntry): Promise<number | null>;
+
+  /**
+   * Delete an entry's stored video but keep its metadata and thumbnail —
+   * used to offload synced videos to the cloud (see offload.ts). Optional.
+   */
+  evictVideo?(entry: DiaryEntry): Promise<void>;
+
   /** Scan for orphan files (video without metadata) and remove them. Optional. */
   cleanup?(): Promise<{ orphansRemoved: number }>;
 
@@ -65,6 +93,16 @@ export interface IStorageProvider {
 
   /** Stop observing the storage directory for external changes. */
   stopObserving?(): void;
+
+  /**
+   * The vault's KeyCheck as stored next to this provider's data (JSON), or
+   * null if it has none — see vault.ts. Optional: only providers that can
+   * hold sealed entries keep one.
+   */
+  readVaultKeyCheck?(): Promise<string | null>;
+
+  /** Store the vault's KeyCheck next to this provider's data, or remove it (null). */
+  writeVaultKeyCheck?(json: string | null): Promise<void>;
 }
 
 /**
@@ -83,6 +121,7 @@ export function deserializeMeta(raw: Record<string, unknown>): DiaryEntry {
     tags: Array.isArray(raw.tags) ? (raw.tags as string[]) : [],
     templateId: String(raw.templateId ?? "holographic"),
     storageProvider: (raw.storageProvider as StorageProviderType) ?? "ephemeral",
+    mediaKind: raw.mediaKind === "audio" ? "audio" : "video",
     mimeType: String(raw.mimeType ?? "video/webm"),
     videoWidth: typeof raw.videoWidth === "number" ? raw.videoWidth : null,
     videoHeight: typeof raw.videoHeight === "number" ? raw.videoHeight : null,
@@ -92,12 +131,30 @@ export function deserializeMeta(raw: Record<string, unknown>): DiaryEntry {
     cloudFileId: (raw.cloudFileId as string | null) ?? null,
     cloudUrl: (raw.cloudUrl as string | null) ?? null,
     cloudError: (raw.cloudError as string | null) ?? null,
-    cloudSync: (raw.cloudSync as CloudSyncInfo | undefined) ?? undefined,
+    cloudSyncs: deserializeSyncRecords(raw),
+    transcript: (raw.transcript as Transcript | undefined) ?? undefined,
+    edit: (raw.edit as EntryEdit | undefined) ?? undefined,
+    syncOverride: (raw.syncOverride as CloudSyncOverride | undefined) ?? undefined,
+    screenLayout: (raw.screenLayout as ScreenLayout | undefined) ?? undefined,
+    waveform: Array.isArray(raw.waveform) ? (raw.waveform as number[]) : undefined,
     videoBlob: null,
     videoBlobUrl: null,
   };
 }
 
+/**
+ * Sync records of stored metadata. Entries synced before there could be
+ * several connections have a single `cloudSync` — it belongs to the
+ * connection migrated from that time.
+ */
+function deserializeSyncRecords(raw: Record<string, unknown>): CloudSyncInfo[] | undefined {
+  if (Array.isArray(raw.cloudSyncs)) {
+    return raw.cloudSyncs.length > 0 ? (raw.cloudSyncs as CloudSyncInfo[]) : undefined;
+  }
+  const legacy = raw.cloudSync as Omit<CloudSyncInfo, "connectionId"> | undefined;
+  return legacy ? [{ ...legacy, connectionId: LEGACY_CONNECTION_ID }] : undefined;
+}
+
 /**
  * Convert a DiaryEntry to its serializable metadata subset.
  * Strips Blob and object URL fields that can't be JSON-serialized.
@@ -112,6 +169,7 @@ export function entryToMeta(entry: DiaryEntry): DiaryEntryMeta {
     tags: entry.tags,
     templateId: entry.templateId,
     storageProvider: entry.storageProvider,
+    mediaKind: entry.mediaKind,
     mimeType: entry.mimeType,
     videoWidth: entry.videoWidth,
     videoHeight: entry.videoHeight,
@@ -121,6 +179,11 @@ export function entryToMeta(entry: DiaryEntry): DiaryEntryMeta {
     cloudFileId: entry.cloudFileId,
     cloudUrl: entry.cloudUrl,
     cloudError: entry.cloudError,
-    cloudSync: entry.cloudSync,
+    cloudSyncs: entry.cloudSyncs,
+    transcript: entry.transcript,
+    edit: entry.edit,
+    syncOverride: entry.syncOverride,
+    screenLayout: entry.screenLayout,
+    waveform: entry.waveform,
   };
 }
@@ -0,0 +1,92 @@
+import { createSignal } from "solid-js";
+import { storageManager } from "./manager";
+import { vault } from "./vault";
+
+/**
+ * One-time migration of existing local entries into or out of the vault.
+ *
+ * Both directions work the same way: every entry of every vault-capable
+ * provider is read (opening sealed files) and saved again, which seals or
+ * unseals it according to the vault's current write mode. Entries are
+ * rewritten one at a time, so only a single video is in memory at once and
+ * an interrupted migration can simply be run again.
+ */
+
+/** Providers whose files the vault covers */
+const VAULT_PROVIDERS = ["opfs", "indexeddb", "filesystem"];
+
+export interface VaultMigrationProgress {
+  done: number;
+  total: number;
+}
+
+const [migrating, setMigrating] = createSignal(false);
+
+/** Whether a migration is running (reactive) — auto-lock waits for it */
+export const isVaultMigrating = migrating;
+
+async function rewriteAllEntries(
+  onProgress?: (progress: VaultMigrationProgress) => void,
+): Promise<number> {
+  const providers = VAULT_PROVIDERS.map((name) => storageManager.getProvider(name)).filter(
+    (p) => p !== undefined,
+  );
+
+  const work = [];
+  for (const provider of providers) {
+    const entries = await provider.getAll();
+    work.push(...entries.map((entry) => ({ provider, entry })));
+  }
+
+  let done = 0;
+  onProgress?.({ done, total: work.length });
+
+  for (const { provider, entry } of work) {
+    const videoBlob = provider.loadVideoBlob ? await provider.loadVideoBlob(entry) : null;
+    await provider.save({ ...entry, videoBlob });
+    done++;
+    onProgress?.({ done, total: work.length });
+  }
+
+  storageManager.notifyChange();
+  return done;
+}
+
+/**
+ * Create the vault and seal every existing entry.
+ * @returns Number of entries migrated
+ */
+export async function migrateIntoVault(
+  passphrase: string,
+  onProgress?: (progress: VaultMigrationProgress) => void,
+): Promise<number> {
+  setMigrating(true);
+  try {
+    await vault.enable(passphrase);
+    return await rewriteAllEntries(onProgress);
+  } finally {
+    setMigrating(false);
+  }
+}
+
+/**
+ * Unseal every entry and remove the vault. If anything fails the vault
+ * stays enabled — entries already rewritten are plaintext, which it reads fine.
+ * @returns Number of entries migrated
+ */
+export async function migrateOutOfVault(
+  onProgress?: (progress: VaultMigrationProgress) => void,
+): Promise<number> {
+  setMigrating(true);
+  vault.beginDisable();
+  try {
+    const count = await rewriteAllEntries(onProgress);
+    await vault.finishDisable();
+    return count;
+  } catch (err) {
+    vault.cancelDisable();
+    throw err;
+  } finally {
+    setMigrating(false);
+  }
+}
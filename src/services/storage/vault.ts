@@ -0,0 +1,402 @@
+/**
+ * Encrypted-at-rest vault for the persistent local providers (OPFS, IndexedDB,
+ * filesystem).
+ *
+ * When the vault is enabled, OPFSStorage, IndexedDBStorage and FilesystemStorage
+ * seal everything they write through this module (IndexedDB stores the same
+ * containers as records):
+ *   videos/{id}.{ext}    — chunked AES-256-GCM container (services/crypto/cipher.ts)
+ *   entries/{id}.json    — VaultEnvelope { id, vault } wrapping the whole
+ *                          DiaryEntryMeta, inline thumbnail included
+ *   partials/.../*.chunk — each recording chunk sealed on its own, and the
+ *                          manifest.json beside them as a VaultEnvelope
+ *
+ * Reads are transparent in both directions: sealed files are opened when the
+ * vault is unlocked, plaintext files pass through untouched. That is what lets
+ * migration into or out of the vault rewrite entries one at a time. Videos
+ * are sealed and opened a chunk at a time, and playback decrypts only the
+ * ranges the player reads (readRange(), through the stream proxy).
+ *
+ * The KeyCheck (salt + iterations + encrypted known plaintext) is stored
+ * next to the data it protects — vault.json in the OPFS and folder roots, a
+ * record in IndexedDB — so clearing site data or opening the folder in
+ * another browser still leaves the passphrase enough to get in. localStorage
+ * only caches it, so the unlock screen can show before storage is opened.
+ * The derived key only ever lives in memory. While locked, the app shows the
+ * unlock screen and any attempt to read or write sealed data throws.
+ */
+
+import { createSignal } from "solid-js";
+import type { DiaryEntryMeta } from "~/models/types";
+import {
+  CONTAINER_HEADER_SIZE,
+  decryptBlob,
+  decryptRange,
+  decryptString,
+  encryptBlob,
+  encryptStream,
+  encryptString,
+  isEncryptedBlob,
+  readLayout,
+  storedRange,
+} from "~/services/crypto/cipher";
+import { createKey, parseKeyCheck, unlockKey, type KeyCheck } from "~/services/crypto/keys";
+import type { IStorageProvider } from "./types";
+
+/** On-disk shape of a sealed metadata file. `id` stays readable for file bookkeeping. */
+export interface VaultEnvelope {
+  id: string;
+  /** Base64 encrypted container of the DiaryEntryMeta JSON */
+  vault: string;
+}
+
+export function isVaultEnvelope(value: unknown): value is VaultEnvelope {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as VaultEnvelope).id === "string" &&
+    typeof (value as VaultEnvelope).vault === "string"
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = "vidlog_vault";
+
+function loadKeyCheck(): KeyCheck | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return parseKeyCheck(raw);
+  } catch {
+    // Corrupted data
+  }
+  return null;
+}
+
+function persistKeyCheck(keyCheck: KeyCheck | null): void {
+  try {
+    if (keyCheck) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(keyCheck));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // localStorage full or unavailable
+  }
+}
+
+/** File holding the KeyCheck in the OPFS and folder roots */
+const VAULT_FILE = "vault.json";
+
+/** Read vault.json from a storage root — null if there is none */
+export async function readKeyCheckFile(dir: FileSystemDirectoryHandle): Promise<string | null> {
+  try {
+    const handle = await dir.getFileHandle(VAULT_FILE);
+    return await (await handle.getFile()).text();
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "NotFoundError") return null;
+    throw err;
+  }
+}
+
+/** Write vault.json to a storage root, or remove it (null) */
+export async function writeKeyCheckFile(dir: FileSystemDirectoryHandle, json: string | null): Promise<void> {
+  if (json === null) {
+    try {
+      await dir.removeEntry(VAULT_FILE);
+    } catch {
+      // Already deleted or doesn't exist
+    }
+    return;
+  }
+  const handle = await dir.getFileHandle(VAULT_FILE, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(json);
+  await writable.close();
+}
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+let keyCheck = loadKeyCheck();
+let key: CryptoKey | null = null;
+
+/** Providers holding a copy of the KeyCheck, by name */
+const keyStores = new Map<string, IStorageProvider>();
+
+/**
+ * Write the KeyCheck (or its removal) to every attached provider.
+ * @throws If any provider couldn't store it
+ */
+async function writeKeyStores(json: string | null): Promise<void> {
+  await Promise.all([...keyStores.values()].map((provider) => provider.writeVaultKeyCheck!(json)));
+}
+
+/**
+ * Set while migrating out of the vault: writes go out as plaintext but the
+ * key stays available so sealed entries can still be read.
+ */
+let writePlaintext = false;
+
+const [enabled, setEnabled] = createSignal(keyCheck !== null);
+const [unlocked, setUnlocked] = createSignal(false);
+
+function requireKey(): CryptoKey {
+  if (!key) {
+    throw new Error("The vault is locked. Unlock it to access your entries.");
+  }
+  return key;
+}
+
+/** Whether new writes must be sealed */
+function sealing(): boolean {
+  return keyCheck !== null && !writePlaintext;
+}
+
+// ---------------------------------------------------------------------------
+// Auto-lock
+// ---------------------------------------------------------------------------
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+let autoLockMs = 0;
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+let isBusy: () => boolean = () => false;
+let listening = false;
+
+function scheduleAutoLock(): void {
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = null;
+  if (!key || autoLockMs <= 0) return;
+
+  autoLockTimer = setTimeout(() => {
+    // Never lock mid-recording or mid-migration — check again later
+    if (isBusy()) {
+      scheduleAutoLock();
+      return;
+    }
+    vault.lock();
+  }, autoLockMs);
+}
+
+function handleActivity(): void {
+  if (key) scheduleAutoLock();
+}
+
+function listenForActivity(): void {
+  if (listening || typeof window === "undefined") return;
+  listening = true;
+  for (const event of ACTIVITY_EVENTS) {
+    window.addEventListener(event, handleActivity, { passive: true, capture: true });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const vault = {
+  /** Whether local entries are encrypted at rest (reactive) */
+  isEnabled: enabled,
+
+  /** Whether the key is in memory (reactive) */
+  isUnlocked: unlocked,
+
+  /** Whether the app must show the unlock screen before touching storage */
+  isLocked(): boolean {
+    return enabled() && !unlocked();
+  },
+
+  /**
+   * Create the vault with a new passphrase and unlock it. Existing entries
+   * stay plaintext until migrated (see vault-migration.ts).
+   */
+  async enable(passphrase: string): Promise<void> {
+    if (keyCheck) {
+      throw new Error("The vault is already enabled");
+    }
+    const created = await createKey(passphrase);
+    // On disk first — nothing may be sealed with a key the data can't be opened with later
+    await writeKeyStores(JSON.stringify(created.keyCheck));
+    keyCheck = created.keyCheck;
+    key = created.key;
+    writePlaintext = false;
+    persistKeyCheck(keyCheck);
+    setEnabled(true);
+    setUnlocked(true);
+    scheduleAutoLock();
+  },
+
+  /**
+   * Derive the key from a passphrase and verify it against the stored KeyCheck.
+   * @returns false if the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    if (!keyCheck) {
+      throw new Error("The vault isn't enabled");
+    }
+    const derived = await unlockKey(passphrase, keyCheck);
+    if (!derived) return false;
+
+    key = derived;
+    setUnlocked(true);
+    scheduleAutoLock();
+    return true;
+  },
+
+  /** Forget the key. The app returns to the unlock screen. */
+  lock(): void {
+    if (!keyCheck) return;
+    if (autoLockTimer) clearTimeout(autoLockTimer);
+    autoLockTimer = null;
+    key = null;
+    setUnlocked(false);
+  },
+
+  /**
+   * Start writing plaintext while keeping the key for reads.
+   * Called at the start of a migration out of the vault.
+   */
+  beginDisable(): void {
+    requireKey();
+    writePlaintext = true;
+  },
+
+  /** Undo beginDisable() after a failed migration — the vault stays enabled. */
+  cancelDisable(): void {
+    writePlaintext = false;
+  },
+
+  /** Forget the vault entirely. Only safe once every entry has been migrated out. */
+  async finishDisable(): Promise<void> {
+    try {
+      await writeKeyStores(null);
+    } catch (err) {
+      // With no sealed data left, a stray copy at worst asks for the old passphrase again
+      console.warn("[Vault] Failed to remove the key check from storage:", err);
+    }
+    if (autoLockTimer) clearTimeout(autoLockTimer);
+    autoLockTimer = null;
+    keyCheck = null;
+    key = null;
+    writePlaintext = false;
+    persistKeyCheck(null);
+    setEnabled(false);
+    setUnlocked(false);
+  },
+
+  /**
+   * Keep the KeyCheck next to these providers' data. A provider that has
+   * one while this browser doesn't (site data cleared, or a folder from
+   * another browser) enables the vault, locked; one without gets a copy.
+   * Called whenever providers are registered, before entries are loaded.
+   */
+  async attachKeyStores(providers: IStorageProvider[]): Promise<void> {
+    for (const provider of providers) {
+      if (!provider.readVaultKeyCheck || !provider.writeVaultKeyCheck) continue;
+      keyStores.set(provider.name, provider);
+
+      try {
+        const raw = await provider.readVaultKeyCheck();
+        const stored = raw ? parseKeyCheck(raw) : null;
+        if (stored && !keyCheck) {
+          keyCheck = stored;
+          persistKeyCheck(keyCheck);
+          setEnabled(true);
+        } else if (!stored && keyCheck) {
+          await provider.writeVaultKeyCheck(JSON.stringify(keyCheck));
+        } else if (stored && keyCheck && stored.salt !== keyCheck.salt) {
+          console.warn(`[Vault] "${provider.name}" holds another vault's key check — its sealed entries won't open`);
+        }
+      } catch (err) {
+        console.warn(`[Vault] Failed to sync the key check with "${provider.name}":`, err);
+      }
+    }
+  },
+
+  /**
+   * Lock automatically after `minutes` without user input (0 = never).
+   * `busy` defers the lock while it returns true (e.g. during a recording).
+   */
+  configureAutoLock(minutes: number, busy?: () => boolean): void {
+    autoLockMs = Math.max(0, minutes) * 60_000;
+    if (busy) isBusy = busy;
+    listenForActivity();
+    scheduleAutoLock();
+  },
+
+  // -------------------------------------------------------------------------
+  // Codec — used by the storage providers
+  // -------------------------------------------------------------------------
+
+  /** Serialize metadata for disk, sealing it when the vault is enabled. */
+  async sealMeta(meta: DiaryEntryMeta): Promise<DiaryEntryMeta | VaultEnvelope> {
+    return vault.sealRecord(meta.id, meta);
+  },
+
+  /**
+   * Serialize any JSON record for disk (e.g. a spool manifest), sealing it
+   * when the vault is enabled. `id` is what stays readable. Open it with openMeta().
+   */
+  async sealRecord<T>(id: string, record: T): Promise<T | VaultEnvelope> {
+    if (!sealing()) return record;
+    return { id, vault: await encryptString(requireKey(), JSON.stringify(record)) };
+  },
+
+  /** Open parsed metadata JSON from disk. Plaintext metadata is returned as-is. */
+  async openMeta(raw: unknown): Promise<Record<string, unknown>> {
+    if (!isVaultEnvelope(raw)) return raw as Record<string, unknown>;
+    return JSON.parse(await decryptString(requireKey(), raw.vault)) as Record<string, unknown>;
+  },
+
+  /** Seal a recording chunk (or a video bound for IndexedDB) when the vault is enabled. */
+  async sealBlob(blob: Blob): Promise<Blob> {
+    if (!sealing()) return blob;
+    return encryptBlob(requireKey(), blob);
+  },
+
+  /**
+   * A video as it should be written to disk — sealed a chunk at a time when
+   * the vault is enabled, so it can be piped to a file without a sealed copy.
+   */
+  sealStream(blob: Blob): ReadableStream<Uint8Array> {
+    if (!sealing()) return blob.stream();
+    return encryptStream(requireKey(), blob);
+  },
+
+  /**
+   * Open a blob from disk. Plaintext blobs are returned as-is; sealed ones
+   * are decrypted a chunk at a time. Playback reads ranges instead (readRange()).
+   */
+  async openBlob(blob: Blob, type: string): Promise<Blob> {
+    if (!(await isEncryptedBlob(blob))) return blob;
+    return decryptBlob(requireKey(), blob, type);
+  },
+
+  /**
+   * Read bytes [start, end) of a video as stored on disk, decrypting only the
+   * chunks covering them when it's sealed.
+   */
+  async readRange(
+    blob: Blob,
+    start: number,
+    end: number,
+  ): Promise<{ bytes: Uint8Array<ArrayBuffer>; totalSize: number }> {
+    const head = new Uint8Array(await blob.slice(0, CONTAINER_HEADER_SIZE).arrayBuffer());
+    const layout = readLayout(head, blob.size);
+    if (!layout) {
+      return { bytes: new Uint8Array(await blob.slice(start, end).arrayBuffer()), totalSize: blob.size };
+    }
+    end = Math.min(end, layout.plainSize);
+    if (start >= end) return { bytes: new Uint8Array(0), totalSize: layout.plainSize };
+    const stored = storedRange(layout, start, end);
+    const bytes = new Uint8Array(await blob.slice(stored.start, stored.end).arrayBuffer());
+    return {
+      bytes: await decryptRange(requireKey(), layout, bytes, start, end),
+      totalSize: layout.plainSize,
+    };
+  },
+};
@@ -0,0 +1,105 @@
+import { createSignal } from "solid-js";
+import type { DiaryEntry } from "~/models/types";
+import { storageManager } from "./manager";
+import { isCloudOnly, videoRecords } from "~/services/cloud/records";
+import { repairVideoIndex } from "~/services/recorder/mux/repair";
+
+/**
+ * Bulk repair of stored videos recorded before the duration and seek index
+ * were added at save time (see recorder/mux/repair.ts).
+ *
+ * Entries are checked one at a time. A repaired video is read into memory
+ * before it's written back: it's made of slices of the stored file, which
+ * the write replaces. Synced entries are uploaded again so the cloud copy
+ * gets the index too. Cloud-only entries are skipped — they have no video
+ * on this device.
+ */
+
+export interface VideoRepairProgress {
+  done: number;
+  total: number;
+  /** Title of the entry being checked */
+  current: string | null;
+}
+
+export interface VideoRepairResult {
+  checked: number;
+  repaired: number;
+  failed: { title: string; error: string }[];
+}
+
+const [running, setRunning] = createSignal(false);
+const [progress, setProgress] = createSignal<VideoRepairProgress | null>(null);
+
+/** @returns Whether the entry's video was rewritten */
+async function repairEntry(entry: DiaryEntry): Promise<boolean> {
+  const source = entry.videoBlob ?? (await storageManager.loadVideoBlob(entry));
+  if (!source) return false;
+
+  const repaired = await repairVideoIndex(source, entry.duration);
+  if (repaired === source) return false;
+  const blob = new Blob([await repaired.arrayBuffer()], { type: source.type || entry.mimeType });
+
+  const updates: Partial<DiaryEntry> = {
+    videoBlob: storageManager.getProviderForEntry(entry).capabilities.lazyBlobs ? null : blob,
+  };
+  if (entry.videoBlobUrl) {
+    URL.revokeObjectURL(entry.videoBlobUrl);
+    updates.videoBlobUrl = URL.createObjectURL(blob);
+  }
+
+  const { diaryStore } = await import("~/stores/diary");
+  // Write the new video through storage, then refresh the in-memory entry
+  await storageManager.update(entry, { videoBlob: blob });
+  await diaryStore.updateEntry(entry.id, updates);
+
+  const { cloudSyncManager } = await import("~/services/cloud/manager");
+  // Restart uploads of the broken video too — the repaired one may have
+  // the same size and would otherwise resume their sessions
+  const connectionIds = new Set([
+    ...videoRecords(entry).map((r) => r.connectionId),
+    ...cloudSyncManager.syncQueue().filter((i) => i.entryId === entry.id).map((i) => i.connectionId),
+  ]);
+  for (const connectionId of connectionIds) {
+    cloudSyncManager.requeueUpload(entry.id, connectionId);
+  }
+  return true;
+}
+
+export const videoRepairManager = {
+  /** Whether a repair is running (reactive) — auto-lock waits for it */
+  isRunning: running,
+
+  /** Progress of the running repair (reactive) */
+  progress,
+
+  /**
+   * Add the duration and seek index to every local video that lacks them.
+   * @throws If a repair is already running
+   */
+  async repairAll(): Promise<VideoRepairResult> {
+    if (running()) throw new Error("A repair is already in progress");
+
+    const { diaryStore } = await import("~/stores/diary");
+    const entries = diaryStore.entries().filter((e) => !isCloudOnly(e));
+    const result: VideoRepairResult = { checked: 0, repaired: 0, failed: [] };
+
+    setRunning(true);
+    try {
+      for (const entry of entries) {
+        setProgress({ done: result.checked, total: entries.length, current: entry.title || null });
+        try {
+          if (await repairEntry(entry)) result.repaired++;
+        } catch (err) {
+          console.warn(`[VideoRepair] Failed to repair entry ${entry.id}:`, err);
+          result.failed.push({ title: entry.title, error: err instanceof Error ? err.message : String(err) });
+        }
+        result.checked++;
+      }
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+    return result;
+  },
+};
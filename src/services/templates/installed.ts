@@ -0,0 +1,92 @@
+import type { InstalledTemplate } from "./types";
+import { validateManifest } from "./package";
+
+/**
+ * OPFS persistence for user-installed templates.
+ *
+ * Directory layout:
+ *   /vidlog/templates/
+ *     {id}.zip    — the package exactly as imported
+ *     {id}.json   — InstalledTemplate record (manifest + enabled flag)
+ *
+ * Templates live in OPFS regardless of the active storage provider —
+ * they're app configuration, not diary data.
+ */
+
+export function isTemplateStorageAvailable(): boolean {
+  return typeof navigator !== "undefined" && typeof navigator.storage?.getDirectory === "function";
+}
+
+async function getTemplatesDir(): Promise<FileSystemDirectoryHandle> {
+  if (!isTemplateStorageAvailable()) {
+    throw new Error("Installing templates requires OPFS, which this browser doesn't support");
+  }
+  const opfsRoot = await navigator.storage.getDirectory();
+  const root = await opfsRoot.getDirectoryHandle("vidlog", { create: true });
+  return root.getDirectoryHandle("templates", { create: true });
+}
+
+async function writeFile(dir: FileSystemDirectoryHandle, name: string, data: Blob | string): Promise<void> {
+  const handle = await dir.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(data);
+  await writable.close();
+}
+
+/** Load every installed template record. Unreadable records are skipped. */
+export async function listInstalledTemplates(): Promise<InstalledTemplate[]> {
+  if (!isTemplateStorageAvailable()) return [];
+
+  const dir = await getTemplatesDir();
+  const records: InstalledTemplate[] = [];
+
+  for await (const [name, handle] of dir.entries()) {
+    if (handle.kind !== "file" || !name.endsWith(".json")) continue;
+    try {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      const raw = JSON.parse(await file.text()) as Partial<InstalledTemplate>;
+      records.push({
+        manifest: validateManifest(raw.manifest),
+        enabled: raw.enabled !== false,
+        installedAt: typeof raw.installedAt === "number" ? raw.installedAt : 0,
+      });
+    } catch (err) {
+      console.warn(`[Templates] Skipping unreadable template record ${name}:`, err);
+    }
+  }
+
+  return records.sort((a, b) => a.installedAt - b.installedAt);
+}
+
+/** Store a package and its record, replacing any previous version */
+export async function saveInstalledTemplate(record: InstalledTemplate, pkg: Blob): Promise<void> {
+  const dir = await getTemplatesDir();
+  // Package first, so a record never points at a missing package
+  await writeFile(dir, `${record.manifest.id}.zip`, pkg);
+  await writeFile(dir, `${record.manifest.id}.json`, JSON.stringify(record));
+}
+
+/** Rewrite a record (e.g. after toggling enabled) without touching its package */
+export async function updateInstalledTemplate(record: InstalledTemplate): Promise<void> {
+  const dir = await getTemplatesDir();
+  await writeFile(dir, `${record.manifest.id}.json`, JSON.stringify(record));
+}
+
+/** Read an installed template's package */
+export async function loadTemplatePackageBlob(id: string): Promise<Blob> {
+  const dir = await getTemplatesDir();
+  const handle = await dir.getFileHandle(`${id}.zip`);
+  return handle.getFile();
+}
+
+/** Remove a template's record and package */
+export async function deleteInstalledTemplate(id: string): Promise<void> {
+  const dir = await getTemplatesDir();
+  for (const name of [`${id}.json`, `${id}.zip`]) {
+    try {
+      await dir.removeEntry(name);
+    } catch {
+      // Already gone
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import type { TemplateConfig } from "~/models/types";
+import { readZip } from "~/utils/zip";
+import {
+  TEMPLATE_SDK_VERSION,
+  type TemplateManifest,
+  type TemplatePackage,
+} from "./types";
+
+/**
+ * Template package parsing and validation.
+ *
+ * Everything in a package is untrusted input: the manifest is checked
+ * field by field and sizes are capped before anything reaches the sandbox.
+ */
+
+const MAX_PACKAGE_SIZE = 10 * 1024 * 1024;
+const MAX_SOURCE_SIZE = 512 * 1024;
+const MAX_ASSETS = 32;
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,47}$/;
+
+/** Image types createImageBitmap() can decode inside a worker */
+const ASSET_EXTENSIONS = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".avif"];
+
+const CORNER_STYLES: TemplateConfig["cornerStyle"][] = ["brackets", "rounded", "angular", "none"];
+
+/**
+ * Module syntax that loads other code: `import(…)`, `import … from`,
+ * `import "…"` and `export … from`. A render module is a single file, and
+ * anything it loaded would come over the network, past the sandbox.
+ * Comments between the keyword and the rest are allowed for.
+ */
+const GAP = String.raw`(?:\s|\/\*[\s\S]*?\*\/|\/\/[^\n]*\n)*`;
+const IMPORT_PATTERNS = [
+  new RegExp(String.raw`\bimport${GAP}\(`),
+  new RegExp(String.raw`\bimport${GAP}["'\x60{*]`),
+  new RegExp(String.raw`\bimport${GAP}[\w$]+${GAP}(?:,|from\b)`),
+  new RegExp(String.raw`\bexport${GAP}(?:\*|\{[^}]*\})${GAP}(?:as${GAP}[\w$]+${GAP})?from\b`),
+];
+
+/**
+ * Reject render modules that import other code. Runs on import and again
+ * in the sandbox, since installed packages predate the check.
+ * @throws If the source contains an import or re-export
+ */
+export function checkRenderSource(source: string): void {
+  if (IMPORT_PATTERNS.some((pattern) => pattern.test(source))) {
+    throw new Error("The render module can't import other modules — bundle it into one file");
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Package-relative path without traversal or absolute components */
+function isSafePath(path: string): boolean {
+  return (
+    path.length > 0 &&
+    path.length <= 200 &&
+    !path.startsWith("/") &&
+    !path.includes("\\") &&
+    path.split("/").every((part) => part !== "" && part !== "." && part !== "..")
+  );
+}
+
+function requireString(raw: Record<string, unknown>, field: string, maxLength: number): string {
+  const value = raw[field];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`manifest.json: "${field}" must be a non-empty string`);
+  }
+  if (value.length > maxLength) {
+    throw new Error(`manifest.json: "${field}" is longer than ${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+function validateConfig(raw: unknown): Partial<TemplateConfig> {
+  if (raw === undefined) return {};
+  if (!isPlainObject(raw)) {
+    throw new Error('manifest.json: "config" must be an object');
+  }
+
+  const config: Partial<TemplateConfig> = {};
+  for (const key of ["colorPrimary", "colorSecondary", "colorBackground", "fontFamily"] as const) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== "string") {
+      throw new Error(`manifest.json: "config.${key}" must be a string`);
+    }
+    config[key] = raw[key] as string;
+  }
+  for (const key of ["showTimestamp", "showElapsed", "showRecordingIndicator", "showScanLines"] as const) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== "boolean") {
+      throw new Error(`manifest.json: "config.${key}" must be a boolean`);
+    }
+    config[key] = raw[key] as boolean;
+  }
+  if (raw.cornerStyle !== undefined) {
+    if (!CORNER_STYLES.includes(raw.cornerStyle as TemplateConfig["cornerStyle"])) {
+      throw new Error(`manifest.json: "config.cornerStyle" must be one of ${CORNER_STYLES.join(", ")}`);
+    }
+    config.cornerStyle = raw.cornerStyle as TemplateConfig["cornerStyle"];
+  }
+  return config;
+}
+
+/**
+ * Validate a parsed manifest.json.
+ * @throws With a message naming the offending field
+ */
+export function validateManifest(raw: unknown): TemplateManifest {
+  if (!isPlainObject(raw)) {
+    throw new Error("manifest.json must contain a JSON object");
+  }
+
+  if (raw.sdkVersion !== TEMPLATE_SDK_VERSION) {
+    throw new Error(
+      `This template targets SDK version ${String(raw.sdkVersion)}; VidLog supports version ${TEMPLATE_SDK_VERSION}`,
+    );
+  }
+
+  const id = requireString(raw, "id", 48);
+  if (!ID_PATTERN.test(id)) {
+    throw new Error('manifest.json: "id" may only contain lowercase letters, digits and dashes');
+  }
+
+  const entry = requireString(raw, "entry", 200);
+  if (!isSafePath(entry) || !/\.m?js$/.test(entry)) {
+    throw new Error('manifest.json: "entry" must be a .js file inside the package');
+  }
+
+  const assets = raw.assets ?? [];
+  if (!Array.isArray(assets) || assets.some((a) => typeof a !== "string")) {
+    throw new Error('manifest.json: "assets" must be a list of paths');
+  }
+  if (assets.length > MAX_ASSETS) {
+    throw new Error(`A template can include at most ${MAX_ASSETS} assets`);
+  }
+  for (const asset of assets as string[]) {
+    const lower = asset.toLowerCase();
+    if (!isSafePath(asset) || !ASSET_EXTENSIONS.some((ext) => lower.endsWith(ext))) {
+      throw new Error(`Unsupported asset "${asset}" — use PNG, JPEG, WebP, GIF or AVIF images`);
+    }
+  }
+
+  const author = raw.author === undefined ? undefined : requireString(raw, "author", 80);
+
+  return {
+    id,
+    name: requireString(raw, "name", 40),
+    description: typeof raw.description === "string" ? raw.description.slice(0, 200) : "",
+    version: requireString(raw, "version", 20),
+    author,
+    sdkVersion: TEMPLATE_SDK_VERSION,
+    entry,
+    assets: assets as string[],
+    config: validateConfig(raw.config),
+  };
+}
+
+/**
+ * Read and validate a template package.
+ * @throws If the archive is unreadable, too large, or its manifest is invalid
+ */
+export async function parseTemplatePackage(blob: Blob): Promise<TemplatePackage> {
+  if (blob.size > MAX_PACKAGE_SIZE) {
+    throw new Error("Template packages are limited to 10 MB");
+  }
+
+  const files = await readZip(blob);
+
+  const manifestFile = files.get("manifest.json");
+  if (!manifestFile) {
+    throw new Error("The package has no manifest.json at its root");
+  }
+  let rawManifest: unknown;
+  try {
+    rawManifest = JSON.parse(await manifestFile.text());
+  } catch {
+    throw new Error("manifest.json is not valid JSON");
+  }
+  const manifest = validateManifest(rawManifest);
+
+  const entryFile = files.get(manifest.entry);
+  if (!entryFile) {
+    throw new Error(`Render module "${manifest.entry}" is missing from the package`);
+  }
+  if (entryFile.size > MAX_SOURCE_SIZE) {
+    throw new Error("The render module is larger than 512 KB");
+  }
+
+  const assets: Record<string, Blob> = {};
+  for (const path of manifest.assets) {
+    const file = files.get(path);
+    if (!file) {
+      throw new Error(`Asset "${path}" is missing from the package`);
+    }
+    assets[path] = file;
+  }
+
+  const source = await entryFile.text();
+  checkRenderSource(source);
+  return { manifest, source, assets };
+}
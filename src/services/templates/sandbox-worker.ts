@@ -0,0 +1,204 @@
+/**
+ * Template sandbox worker.
+ *
+ * Runs one user-installed template's render module against an
+ * OffscreenCanvas and ships each finished overlay back as an ImageBitmap.
+ * The module never sees the document, the webcam pixels or the app's
+ * state — only the per-frame data, its config and its own assets.
+ *
+ * Before any template code is evaluated, the worker strips the APIs a
+ * template could use to reach the network or this origin's storage. The
+ * module system is the one way in it can't strip: sources that import are
+ * rejected (see checkRenderSource()), and every way of compiling a string
+ * into code — which could hide an import() — is disabled and checked.
+ */
+
+import type { TemplateConfig, TemplateFrame } from "~/models/types";
+import type {
+  TemplateRenderEnv,
+  TemplateSandboxMessage,
+  TemplateSandboxRequest,
+} from "./types";
+import { checkRenderSource } from "./package";
+
+type RenderFn = (
+  ctx: OffscreenCanvasRenderingContext2D,
+  frame: TemplateFrame,
+  env: TemplateRenderEnv,
+) => void;
+
+// Keep our own references before the globals are locked down
+const post = self.postMessage.bind(self);
+const createObjectURL = URL.createObjectURL.bind(URL);
+const revokeObjectURL = URL.revokeObjectURL.bind(URL);
+const decodeImage = self.createImageBitmap.bind(self);
+
+const BLOCKED_GLOBALS = [
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "WebTransport",
+  "EventSource",
+  "importScripts",
+  "indexedDB",
+  "caches",
+  "BroadcastChannel",
+  "Worker",
+  "SharedWorker",
+  "RTCPeerConnection",
+  "WebSocketStream",
+  // FontFace sources are fetched — url() would reach any server
+  "FontFace",
+  "fonts",
+];
+
+function refuseDynamicCode(): never {
+  throw new Error("Templates can't compile code at runtime");
+}
+
+/** Every way of turning a string into code, each hiding a remote import() */
+const PROBE = 'return import("https://vidlog.invalid/probe.js")';
+const DYNAMIC_CODE_PROBES: (() => unknown)[] = [
+  () => (0, self.eval)(PROBE),
+  () => Function(PROBE)(),
+  () => new (Object.getPrototypeOf(async () => {}).constructor)(PROBE)(),
+  () => new (Object.getPrototypeOf(function* () {}).constructor)(PROBE)().next(),
+  () => new (Object.getPrototypeOf(async function* () {}).constructor)(PROBE)().next(),
+  () => (setTimeout as (handler: unknown) => number)(PROBE),
+  () => (setInterval as (handler: unknown) => number)(PROBE),
+];
+
+function lockDown(): void {
+  for (const name of BLOCKED_GLOBALS) {
+    try {
+      Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+    } catch {
+      // Not present in this browser
+    }
+  }
+  try {
+    Object.defineProperty(self.navigator, "storage", { value: undefined, configurable: false });
+  } catch {
+    // Not present in this browser
+  }
+  // Nothing after init may post to the host except the worker itself
+  Object.defineProperty(self, "postMessage", { value: () => {}, writable: false, configurable: false });
+
+  // No compiling strings into code: eval, the function constructors
+  // (reachable from any function's prototype) and string timers
+  Object.defineProperty(self, "eval", { value: refuseDynamicCode, writable: false, configurable: false });
+  const functionPrototypes = [
+    Function.prototype,
+    Object.getPrototypeOf(async () => {}),
+    Object.getPrototypeOf(function* () {}),
+    Object.getPrototypeOf(async function* () {}),
+  ];
+  for (const proto of functionPrototypes) {
+    Object.defineProperty(proto, "constructor", { value: refuseDynamicCode, writable: false, configurable: false });
+  }
+  Object.defineProperty(self, "Function", { value: refuseDynamicCode, writable: false, configurable: false });
+  for (const name of ["setTimeout", "setInterval"] as const) {
+    const timer = self[name].bind(self);
+    const guarded = (handler: unknown, ...rest: unknown[]) =>
+      typeof handler === "function" ? timer(handler as TimerHandler, ...(rest as [number?])) : refuseDynamicCode();
+    Object.defineProperty(self, name, { value: guarded, writable: false, configurable: false });
+  }
+}
+
+/**
+ * Check the lock-down held: each probe must throw rather than start its
+ * import(). A browser that still allows one gets no template at all.
+ */
+function assertLockedDown(): void {
+  for (const probe of DYNAMIC_CODE_PROBES) {
+    let refused = false;
+    try {
+      const pending = probe();
+      // Async constructors would hand back a promise — don't leave it unhandled
+      if (pending instanceof Promise) pending.catch(() => {});
+    } catch {
+      refused = true;
+    }
+    if (!refused) throw new Error("The template sandbox can't block dynamic code in this browser");
+  }
+}
+
+let render: RenderFn | null = null;
+let env: TemplateRenderEnv | null = null;
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+function send(message: TemplateSandboxMessage, transfer: Transferable[] = []): void {
+  post(message, { transfer });
+}
+
+async function init(source: string, assetBlobs: Record<string, Blob>, config: TemplateConfig): Promise<void> {
+  const assets: Record<string, ImageBitmap> = {};
+  for (const [path, blob] of Object.entries(assetBlobs)) {
+    try {
+      assets[path] = await decodeImage(blob);
+    } catch {
+      throw new Error(`Asset "${path}" could not be decoded`);
+    }
+  }
+
+  checkRenderSource(source);
+  lockDown();
+  assertLockedDown();
+
+  const url = createObjectURL(new Blob([source], { type: "text/javascript" }));
+  let mod: { default?: unknown; render?: unknown };
+  try {
+    mod = await import(/* @vite-ignore */ url);
+  } finally {
+    revokeObjectURL(url);
+  }
+
+  const fn = mod.default ?? mod.render;
+  if (typeof fn !== "function") {
+    throw new Error("The render module must export a render function (default export)");
+  }
+  render = fn as RenderFn;
+  env = { config: Object.freeze({ ...config }), assets: Object.freeze(assets) };
+}
+
+function drawFrame(frame: TemplateFrame): void {
+  if (!render || !env) return;
+
+  if (!canvas || canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas = new OffscreenCanvas(frame.width, frame.height);
+    ctx = canvas.getContext("2d");
+  }
+  if (!ctx) throw new Error("OffscreenCanvas 2D context unavailable");
+
+  ctx.clearRect(0, 0, frame.width, frame.height);
+  ctx.save();
+  try {
+    render(ctx, frame, env);
+  } finally {
+    ctx.restore();
+  }
+
+  const bitmap = canvas.transferToImageBitmap();
+  send({ type: "frame", bitmap }, [bitmap]);
+}
+
+self.onmessage = (e: MessageEvent<TemplateSandboxRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case "init":
+      init(msg.source, msg.assets, msg.config).then(
+        () => send({ type: "ready" }),
+        (err: unknown) => send({ type: "error", message: err instanceof Error ? err.message : String(err) }),
+      );
+      break;
+    case "frame":
+      try {
+        drawFrame(msg.frame);
+      } catch (err) {
+        render = null;
+        send({ type: "error", message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+  }
+};
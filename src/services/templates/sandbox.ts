@@ -0,0 +1,221 @@
+import type { TemplateConfig, TemplateFrame } from "~/models/types";
+import type {
+  TemplatePackage,
+  TemplateSandboxMessage,
+  TemplateSandboxRequest,
+} from "./types";
+
+/**
+ * Host side of the template sandbox (see sandbox-worker.ts).
+ *
+ * The recorder's render loop is synchronous, so an installed template
+ * can't draw straight onto the recording canvas. Instead each render()
+ * call draws the most recent overlay the worker produced and, if the
+ * worker is idle, hands it the next frame. Overlays therefore trail the
+ * video by one frame, and a slow template drops frames rather than
+ * stalling the recorder.
+ */
+
+/** A frame the worker hasn't answered within this long means a hung template */
+const FRAME_TIMEOUT = 2_000;
+
+/** Tear the worker down once the template hasn't been drawn for this long */
+const IDLE_TIMEOUT = 5_000;
+
+/** Startup (module evaluation + asset decoding) must finish within this long */
+const INIT_TIMEOUT = 10_000;
+
+function createSandboxWorker(): Worker {
+  return new Worker(new URL("./sandbox-worker.ts", import.meta.url), { type: "module" });
+}
+
+/**
+ * Start a sandbox worker, load the package into it, and wait for it to
+ * report ready.
+ * @throws With the worker's error (bad module, undecodable asset, timeout)
+ */
+function startSandbox(pkg: TemplatePackage, config: TemplateConfig): Promise<Worker> {
+  return new Promise((resolve, reject) => {
+    const worker = createSandboxWorker();
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new Error("The template took too long to start"));
+    }, INIT_TIMEOUT);
+
+    worker.onmessage = (e: MessageEvent<TemplateSandboxMessage>) => {
+      clearTimeout(timer);
+      if (e.data.type === "ready") {
+        resolve(worker);
+      } else {
+        worker.terminate();
+        reject(new Error(e.data.type === "error" ? e.data.message : "Unexpected sandbox message"));
+      }
+    };
+    worker.onerror = (e) => {
+      clearTimeout(timer);
+      worker.terminate();
+      reject(new Error(e.message || "The template crashed while starting"));
+    };
+
+    const request: TemplateSandboxRequest = {
+      type: "init",
+      source: pkg.source,
+      assets: pkg.assets,
+      config,
+    };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Load a package in a throwaway sandbox and render one frame, so broken
+ * templates are rejected at install time rather than mid-recording.
+ */
+export async function verifyTemplatePackage(pkg: TemplatePackage, config: TemplateConfig): Promise<void> {
+  const worker = await startSandbox(pkg, config);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("The template took too long to render")), FRAME_TIMEOUT);
+      worker.onmessage = (e: MessageEvent<TemplateSandboxMessage>) => {
+        clearTimeout(timer);
+        if (e.data.type === "frame") {
+          e.data.bitmap.close();
+          resolve();
+        } else {
+          reject(new Error(e.data.type === "error" ? e.data.message : "Unexpected sandbox message"));
+        }
+      };
+      const request: TemplateSandboxRequest = {
+        type: "frame",
+        frame: {
+          width: 1280,
+          height: 720,
+          timestamp: Date.now(),
+          elapsed: 0,
+          isRecording: false,
+          title: "Preview",
+          audioLevel: 0,
+          audioFrequencyData: null,
+        },
+      };
+      worker.postMessage(request);
+    });
+  } finally {
+    worker.terminate();
+  }
+}
+
+/** Renders one installed template through its sandbox worker */
+export class TemplateSandbox {
+  private worker: Worker | null = null;
+  private starting: Promise<void> | null = null;
+  private bitmap: ImageBitmap | null = null;
+  private inFlightSince: number | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private failed = false;
+  /** Bumped on dispose() so a start that finishes afterwards is discarded */
+  private generation = 0;
+
+  constructor(
+    private readonly templateId: string,
+    private readonly config: TemplateConfig,
+    private readonly loadPackage: () => Promise<TemplatePackage>,
+  ) {}
+
+  /** Draw the latest overlay and queue the next frame. Safe to call every animation frame. */
+  render(ctx: CanvasRenderingContext2D, frame: TemplateFrame): void {
+    this.touch();
+    if (this.failed) return;
+
+    if (this.bitmap) {
+      ctx.drawImage(this.bitmap, 0, 0, frame.width, frame.height);
+    }
+
+    if (!this.worker) {
+      this.start();
+      return;
+    }
+
+    if (this.inFlightSince !== null) {
+      if (performance.now() - this.inFlightSince > FRAME_TIMEOUT) {
+        this.fail(new Error("Render timed out"));
+      }
+      return;
+    }
+
+    this.inFlightSince = performance.now();
+    const request: TemplateSandboxRequest = {
+      type: "frame",
+      frame: {
+        ...frame,
+        // The analyser reuses its buffer between frames
+        audioFrequencyData: frame.audioFrequencyData ? frame.audioFrequencyData.slice() : null,
+      },
+    };
+    this.worker.postMessage(request);
+  }
+
+  /** Stop the worker and drop the cached overlay. The next render() starts over. */
+  dispose(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.generation++;
+    this.worker?.terminate();
+    this.worker = null;
+    this.starting = null;
+    this.inFlightSince = null;
+    this.bitmap?.close();
+    this.bitmap = null;
+    this.failed = false;
+  }
+
+  private touch(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => this.dispose(), IDLE_TIMEOUT);
+  }
+
+  private start(): void {
+    if (this.starting) return;
+    const generation = this.generation;
+    this.starting = this.spawn(generation).catch((err: unknown) => {
+      if (this.generation === generation) {
+        this.fail(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+  }
+
+  private async spawn(generation: number): Promise<void> {
+    const pkg = await this.loadPackage();
+    const worker = await startSandbox(pkg, this.config);
+    // Disposed while starting
+    if (this.generation !== generation) {
+      worker.terminate();
+      return;
+    }
+    worker.onmessage = (e: MessageEvent<TemplateSandboxMessage>) => this.handleMessage(e.data);
+    worker.onerror = (e) => this.fail(new Error(e.message || "Template worker crashed"));
+    this.worker = worker;
+  }
+
+  private handleMessage(msg: TemplateSandboxMessage): void {
+    switch (msg.type) {
+      case "frame":
+        this.inFlightSince = null;
+        this.bitmap?.close();
+        this.bitmap = msg.bitmap;
+        break;
+      case "error":
+        this.fail(new Error(msg.message));
+        break;
+    }
+  }
+
+  /** A broken template draws nothing until it goes idle (e.g. is switched away from) */
+  private fail(err: Error): void {
+    console.warn(`[TemplateSandbox] Template "${this.templateId}" failed:`, err);
+    this.dispose();
+    this.failed = true;
+  }
+}
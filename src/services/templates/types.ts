@@ -0,0 +1,73 @@
+import type { TemplateConfig, TemplateFrame } from "~/models/types";
+
+/** Package format revision this build understands */
+export const TEMPLATE_SDK_VERSION = 1;
+
+/**
+ * `manifest.json` at the root of a template package (.zip).
+ *
+ * A package holds the manifest, one ES module that renders the overlay,
+ * and optional image assets:
+ *
+ *   manifest.json
+ *   render.js          — `export default function render(ctx, frame, env)`
+ *   assets/logo.png    — listed in `assets`, decoded before the first frame
+ */
+export interface TemplateManifest {
+  /** Lowercase slug, unique across built-in and installed templates */
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  author?: string;
+  sdkVersion: number;
+  /** Path of the render module inside the package */
+  entry: string;
+  /** Paths of image assets inside the package */
+  assets: string[];
+  /** Overrides for the default style values handed to the renderer */
+  config?: Partial<TemplateConfig>;
+}
+
+/** A package read into memory, ready to hand to the sandbox */
+export interface TemplatePackage {
+  manifest: TemplateManifest;
+  /** Source of the render module */
+  source: string;
+  /** Asset contents keyed by their manifest path */
+  assets: Record<string, Blob>;
+}
+
+/** Installed template record persisted next to its package in OPFS */
+export interface InstalledTemplate {
+  manifest: TemplateManifest;
+  enabled: boolean;
+  installedAt: number;
+}
+
+/**
+ * What a template's render module receives alongside the frame.
+ * Assets are keyed by their manifest path.
+ */
+export interface TemplateRenderEnv {
+  config: TemplateConfig;
+  assets: Record<string, ImageBitmap>;
+}
+
+// ---------------------------------------------------------------------------
+// Sandbox worker protocol
+// ---------------------------------------------------------------------------
+
+export type TemplateSandboxRequest =
+  | {
+      type: "init";
+      source: string;
+      assets: Record<string, Blob>;
+      config: TemplateConfig;
+    }
+  | { type: "frame"; frame: TemplateFrame };
+
+export type TemplateSandboxMessage =
+  | { type: "ready" }
+  | { type: "frame"; bitmap: ImageBitmap }
+  | { type: "error"; message: string };
@@ -0,0 +1,37 @@
+import { TRANSCRIPTION_SAMPLE_RATE } from "./types";
+
+/**
+ * Decode a recording's audio track into mono PCM at the model's sample rate.
+ *
+ * decodeAudioData() on an OfflineAudioContext resamples to the context's
+ * rate, so the full-rate decode never has to be held in memory.
+ *
+ * @throws If the recording has no decodable audio track
+ */
+export async function extractAudio(blob: Blob): Promise<Float32Array> {
+  const ctx = new OfflineAudioContext(1, 1, TRANSCRIPTION_SAMPLE_RATE);
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+  } catch {
+    throw new Error("This recording has no audio track to transcribe");
+  }
+
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0);
+  }
+
+  // Downmix to mono
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) {
+      mono[i] += channel[i];
+    }
+  }
+  for (let i = 0; i < mono.length; i++) {
+    mono[i] /= buffer.numberOfChannels;
+  }
+  return mono;
+}
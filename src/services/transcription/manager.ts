@@ -0,0 +1,212 @@
+import { createSignal } from "solid-js";
+import type { Transcript } from "~/models/types";
+import { storageManager } from "~/services/storage/manager";
+import { cloudSyncManager } from "~/services/cloud/manager";
+import { extractAudio } from "./audio";
+import {
+  TRANSCRIPTION_MODEL,
+  type TranscribeRequest,
+  type TranscriptionJob,
+  type TranscriptionWorkerMessage,
+} from "./types";
+
+/**
+ * Transcription queue — turns saved entries into transcripts one at a time.
+ *
+ * Audio is decoded on the main thread (Web Audio isn't available in
+ * workers) and handed to the speech-to-text worker, which is spawned on
+ * demand and terminated after the queue has been idle for a while so the
+ * model doesn't sit in memory.
+ */
+
+/** Keep the worker (and loaded model) around this long after the last job */
+const WORKER_IDLE_TIMEOUT = 60_000;
+
+// ---------------------------------------------------------------------------
+// Signals
+// ---------------------------------------------------------------------------
+
+const [jobs, setJobs] = createSignal<Record<string, TranscriptionJob>>({});
+
+/** Set once the model files turn out to be missing — auto-transcribe stops queuing */
+const [modelMissing, setModelMissing] = createSignal(false);
+
+function setJob(entryId: string, job: TranscriptionJob | null): void {
+  setJobs((prev) => {
+    const next = { ...prev };
+    if (job) {
+      next[entryId] = job;
+    } else {
+      delete next[entryId];
+    }
+    return next;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Worker
+// ---------------------------------------------------------------------------
+
+let worker: Worker | null = null;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+let pending: {
+  jobId: string;
+  resolve: (result: { text: string; words: Transcript["words"] }) => void;
+  reject: (err: Error) => void;
+} | null = null;
+
+function getWorker(): Worker {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  if (worker) return worker;
+
+  worker = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (e: MessageEvent<TranscriptionWorkerMessage>) => {
+    const msg = e.data;
+    if (!pending || msg.jobId !== pending.jobId) return;
+
+    switch (msg.type) {
+      case "loading":
+        setJob(msg.jobId, { stage: "loading-model", progress: Math.round(msg.progress) });
+        break;
+      case "transcribing":
+        setJob(msg.jobId, { stage: "transcribing", progress: null });
+        break;
+      case "result":
+        pending.resolve({ text: msg.text, words: msg.words });
+        pending = null;
+        break;
+      case "error":
+        pending.reject(new Error(msg.message));
+        pending = null;
+        break;
+    }
+  };
+  worker.onerror = (e) => {
+    pending?.reject(new Error(e.message || "Transcription worker crashed"));
+    pending = null;
+    terminateWorker();
+  };
+  return worker;
+}
+
+function terminateWorker(): void {
+  worker?.terminate();
+  worker = null;
+}
+
+function runInWorker(entryId: string, audio: Float32Array): Promise<{ text: string; words: Transcript["words"] }> {
+  return new Promise((resolve, reject) => {
+    pending = { jobId: entryId, resolve, reject };
+    const request: TranscribeRequest = {
+      type: "transcribe",
+      jobId: entryId,
+      model: TRANSCRIPTION_MODEL,
+      audio,
+    };
+    getWorker().postMessage(request, [audio.buffer]);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Queue
+// ---------------------------------------------------------------------------
+
+const queue: string[] = [];
+let processing = false;
+
+/** Missing model files surface as a failed file lookup from transformers.js */
+function isModelMissingError(message: string): boolean {
+  return /could not locate file|404|not found/i.test(message);
+}
+
+async function transcribeEntry(entryId: string): Promise<void> {
+  const { diaryStore } = await import("~/stores/diary");
+  const entry = diaryStore.entries().find((e) => e.id === entryId);
+  if (!entry) return; // Deleted while queued
+
+  let blob = entry.videoBlob;
+  if (!blob) {
+    blob = await storageManager.loadVideoBlob(entry);
+  }
+  if (!blob) {
+    throw new Error("The video isn't available on this device");
+  }
+
+  const audio = await extractAudio(blob);
+  const result = await runInWorker(entryId, audio);
+
+  const transcript: Transcript = {
+    text: result.text,
+    words: result.words,
+    model: TRANSCRIPTION_MODEL,
+    createdAt: Date.now(),
+  };
+  await diaryStore.updateEntry(entryId, { transcript });
+  void cloudSyncManager.syncMeta(entryId);
+}
+
+async function processQueue(): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  while (queue.length > 0) {
+    const entryId = queue.shift()!;
+    try {
+      await transcribeEntry(entryId);
+      setJob(entryId, null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      console.warn(`[Transcription] Failed to transcribe ${entryId}:`, err);
+      if (isModelMissingError(message)) {
+        setModelMissing(true);
+        setJob(entryId, {
+          stage: "failed",
+          progress: null,
+          error: "Speech model not installed — see README",
+        });
+      } else {
+        setJob(entryId, { stage: "failed", progress: null, error: message });
+      }
+    }
+  }
+
+  processing = false;
+  idleTimer = setTimeout(() => {
+    idleTimer = null;
+    terminateWorker();
+  }, WORKER_IDLE_TIMEOUT);
+}
+
+// ---------------------------------------------------------------------------
+// Exported Singleton
+// ---------------------------------------------------------------------------
+
+export const transcriptionManager = {
+  /** Active and failed jobs keyed by entry ID (reactive) */
+  jobs,
+
+  /** Whether the speech model's files were missing on the last attempt (reactive) */
+  modelMissing,
+
+  /** Queue an entry for transcription. Re-queuing a failed entry retries it. */
+  queue(entryId: string): void {
+    const existing = jobs()[entryId];
+    if (existing && existing.stage !== "failed") return;
+
+    setModelMissing(false);
+    setJob(entryId, { stage: "queued", progress: null });
+    queue.push(entryId);
+    void processQueue();
+  },
+
+  /** Drop a queued entry (e.g. when it's deleted). A running job finishes on its own. */
+  dequeue(entryId: string): void {
+    const index = queue.indexOf(entryId);
+    if (index === -1) return;
+    queue.splice(index, 1);
+    setJob(entryId, null);
+  },
+};
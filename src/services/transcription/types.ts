@@ -0,0 +1,40 @@
+import type { TranscriptWord } from "~/models/types";
+
+/** Sample rate Whisper-class models expect (Hz, mono) */
+export const TRANSCRIPTION_SAMPLE_RATE = 16_000;
+
+/**
+ * Default speech-to-text model. Must be served locally from
+ * `public/models/{id}/` — the worker never fetches from the network.
+ * The `_timestamped` export includes the cross-attention outputs needed
+ * for word-level timestamps.
+ */
+export const TRANSCRIPTION_MODEL = "onnx-community/whisper-base_timestamped";
+
+/** Per-entry job state shown in the UI */
+export type TranscriptionStage = "queued" | "loading-model" | "transcribing" | "failed";
+
+export interface TranscriptionJob {
+  stage: TranscriptionStage;
+  /** 0–100 while the model loads; null otherwise */
+  progress: number | null;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Worker protocol
+// ---------------------------------------------------------------------------
+
+export interface TranscribeRequest {
+  type: "transcribe";
+  jobId: string;
+  model: string;
+  /** Mono PCM at TRANSCRIPTION_SAMPLE_RATE (transferred, not copied) */
+  audio: Float32Array;
+}
+
+export type TranscriptionWorkerMessage =
+  | { type: "loading"; jobId: string; progress: number }
+  | { type: "transcribing"; jobId: string }
+  | { type: "result"; jobId: string; text: string; words: TranscriptWord[] }
+  | { type: "error"; jobId: string; message: string };
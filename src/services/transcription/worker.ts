@@ -0,0 +1,109 @@
+/**
+ * Speech-to-text worker.
+ *
+ * Runs a Whisper-class model through transformers.js on the ONNX Runtime
+ * WASM backend. Everything is loaded from this origin: the model from
+ * `/models/` and the ORT runtime from the app's own bundled assets, so
+ * transcription works offline and audio never leaves the device.
+ *
+ * The pipeline is created on the first request and kept for later jobs;
+ * the main thread terminates the worker when the queue drains.
+ */
+
+import {
+  env,
+  pipeline,
+  type AutomaticSpeechRecognitionPipeline,
+  type PretrainedModelOptions,
+} from "@huggingface/transformers";
+import ortWasmUrl from "@ort-dist/ort-wasm-simd-threaded.jsep.wasm?url";
+import ortMjsUrl from "@ort-dist/ort-wasm-simd-threaded.jsep.mjs?url";
+import type { TranscriptWord } from "~/models/types";
+import type { TranscribeRequest, TranscriptionWorkerMessage } from "./types";
+
+env.allowRemoteModels = false;
+env.allowLocalModels = true;
+env.localModelPath = `${import.meta.env.BASE_URL}models/`;
+if (env.backends.onnx.wasm) {
+  env.backends.onnx.wasm.wasmPaths = { wasm: ortWasmUrl, mjs: ortMjsUrl };
+}
+
+/** Seconds of audio per window; windows overlap so words at the seams survive */
+const CHUNK_LENGTH_S = 30;
+const STRIDE_LENGTH_S = 5;
+
+/**
+ * pipeline() narrowed to the one task we use — its generic signature over
+ * every task is too large for the compiler to resolve.
+ */
+const createTranscriber = pipeline as unknown as (
+  task: "automatic-speech-recognition",
+  model: string,
+  options: PretrainedModelOptions,
+) => Promise<AutomaticSpeechRecognitionPipeline>;
+
+let transcriber: Promise<AutomaticSpeechRecognitionPipeline> | null = null;
+let loadedModel: string | null = null;
+
+function post(message: TranscriptionWorkerMessage): void {
+  self.postMessage(message);
+}
+
+function loadPipeline(model: string, jobId: string): Promise<AutomaticSpeechRecognitionPipeline> {
+  if (!transcriber || loadedModel !== model) {
+    loadedModel = model;
+    transcriber = createTranscriber("automatic-speech-recognition", model, {
+      device: "wasm",
+      dtype: "q8",
+      progress_callback: (info) => {
+        if (info.status === "progress") {
+          post({ type: "loading", jobId, progress: info.progress });
+        }
+      },
+    });
+    // A failed load (e.g. model files missing) must not poison later attempts
+    transcriber.catch(() => {
+      transcriber = null;
+      loadedModel = null;
+    });
+  }
+  return transcriber;
+}
+
+async function transcribe(request: TranscribeRequest): Promise<void> {
+  const { jobId } = request;
+  try {
+    post({ type: "loading", jobId, progress: 0 });
+    const asr = await loadPipeline(request.model, jobId);
+
+    post({ type: "transcribing", jobId });
+    const output = await asr(request.audio, {
+      return_timestamps: "word",
+      chunk_length_s: CHUNK_LENGTH_S,
+      stride_length_s: STRIDE_LENGTH_S,
+    });
+    const result = Array.isArray(output) ? output[0] : output;
+
+    const words: TranscriptWord[] = [];
+    for (const chunk of result.chunks ?? []) {
+      const text = chunk.text.trim();
+      if (!text) continue;
+      const [start, end] = chunk.timestamp;
+      words.push({ text, start, end: end ?? start });
+    }
+
+    post({ type: "result", jobId, text: result.text.trim(), words });
+  } catch (err) {
+    post({
+      type: "error",
+      jobId,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+self.onmessage = (e: MessageEvent<TranscribeRequest>) => {
+  if (e.data.type === "transcribe") {
+    void transcribe(e.data);
+  }
+};
@@ -2,7 +2,12 @@ import { createSignal } from "solid-js";
 import { cloudSyncManager } from "~/services/cloud/manager";
 import { settingsStore } from "~/stores/settings";
 import { toastStore } from "~/stores/toast";
+import { createCloudProvider, getConnectionLabel } from "~/services/cloud/registry";
+import { cloudConnections } from "~/services/cloud/connections";
+import { cloudEncryption } from "~/services/cloud/encryption";
 import type {
+  CloudConnection,
+  CloudProviderType,
   ICloudProvider,
   SyncStatus,
   SyncProgress,
@@ -10,44 +15,41 @@ import type {
 } from "~/services/cloud/types";
 
 // ---------------------------------------------------------------------------
-// Persistence — remember which cloud provider was connected
+// Provider Instances — one per connection, kept so its auth state survives
 // ---------------------------------------------------------------------------
 
-const CLOUD_STATE_KEY = "vidlog_cloud_state";
+const instances = new Map<string, ICloudProvider>();
 
-interface PersistedCloudState {
-  /** Which provider is connected (null if none) */
-  connectedProvider: string | null;
-}
-
-function loadCloudState(): PersistedCloudState {
-  try {
-    const raw = localStorage.getItem(CLOUD_STATE_KEY);
-    if (raw) return JSON.parse(raw) as PersistedCloudState;
-  } catch {
-    // Corrupted data
-  }
-  return { connectedProvider: null };
-}
-
-function persistCloudState(state: PersistedCloudState): void {
-  try {
-    localStorage.setItem(CLOUD_STATE_KEY, JSON.stringify(state));
-  } catch {
-    // localStorage full or unavailable
+/** The provider instance for a connection, created on first use */
+function providerFor(connection: CloudConnection): ICloudProvider {
+  let provider = instances.get(connection.id);
+  if (!provider) {
+    provider = createCloudProvider(connection);
+    instances.set(connection.id, provider);
   }
+  return provider;
 }
 
 // ---------------------------------------------------------------------------
 // Signals
 // ---------------------------------------------------------------------------
 
-const [isConnected, setIsConnected] = createSignal(false);
-const [connectedProviderName, setConnectedProviderName] = createSignal<string | null>(
-  loadCloudState().connectedProvider,
-);
-const [userEmail, setUserEmail] = createSignal<string | null>(null);
-const [isConnecting, setIsConnecting] = createSignal(false);
+/** ID of the connection signing in, if any */
+const [connectingId, setConnectingId] = createSignal<string | null>(null);
+
+/**
+ * Attach a signed-in provider and start syncing with it.
+ * Learns whether its folder is encrypted before anything syncs.
+ */
+async function attach(provider: ICloudProvider): Promise<void> {
+  await cloudEncryption.detect(provider);
+  cloudSyncManager.attach(provider);
+
+  // Enable sync if the user has auto-sync on
+  if (settingsStore.settings().cloudAutoSync) {
+    cloudSyncManager.enable();
+  }
+}
 
 // ---------------------------------------------------------------------------
 // Cloud Store
@@ -55,10 +57,28 @@ const [isConnecting, setIsConnecting] = createSignal(false);
 
 export const cloudStore = {
   // -- Read-only signals ----------------------------------------------------
-  isConnected,
-  connectedProviderName,
-  userEmail,
-  isConnecting,
+
+  /** Every cloud connection, signed in or not (reactive) */
+  connections: cloudConnections.list,
+
+  /** Whether any connection is signed in (reactive) */
+  isConnected: cloudSyncManager.isConnected,
+
+  /** Whether a connection is signing in — a given one, or any (reactive) */
+  isConnecting(connectionId?: string): boolean {
+    const id = connectingId();
+    return connectionId === undefined ? id !== null : id === connectionId;
+  },
+
+  /** Whether a connection is signed in (reactive) */
+  isSignedIn(connectionId: string): boolean {
+    return cloudSyncManager.provider(connectionId)?.isAuthenticated() ?? false;
+  },
+
+  /** Account or server a connection is signed in as (reactive) */
+  userDisplayName(connectionId: string): string | null {
+    return cloudSyncManager.provider(connectionId)?.userDisplayName() ?? null;
+  },
 
   /** Delegate to cloudSyncManager signals */
   get syncStatus(): () => SyncStatus {
@@ -77,27 +97,18 @@ export const cloudStore = {
   // -- Actions --------------------------------------------------------------
 
   /**
-   * Connect to a cloud provider.
-   * Triggers the OAuth sign-in flow.
+   * Sign in to a connection — a new one, or one whose session expired.
+   * Triggers the provider's sign-in flow (OAuth popup or credential check).
    */
-  async connect(provider: ICloudProvider): Promise<void> {
-    setIsConnecting(true);
+  async connect(connection: CloudConnection): Promise<void> {
+    const provider = providerFor(connection);
+    setConnectingId(connection.id);
     try {
       await provider.signIn();
 
       if (provider.isAuthenticated()) {
-        cloudSyncManager.setProvider(provider);
-        setIsConnected(true);
-        setConnectedProviderName(provider.name);
-        setUserEmail(provider.userDisplayName());
-        persistCloudState({ connectedProvider: provider.name });
-
-        // Enable sync if the user has auto-sync on
-        if (settingsStore.settings().cloudAutoSync) {
-          cloudSyncManager.enable();
-        }
-
-        toastStore.success("Connected to Google Drive");
+        await attach(provider);
+        toastStore.success(`Connected to ${getConnectionLabel(connection)}`);
 
         // Fetch cloud entries in background
         void cloudSyncManager.fetchCloudEntries();
@@ -108,51 +119,76 @@ export const cloudStore = {
       toastStore.error(`Failed to connect: ${msg}`);
       throw err;
     } finally {
-      setIsConnecting(false);
+      setConnectingId(null);
     }
   },
 
   /**
-   * Disconnect from the cloud provider.
-   * Does NOT delete cloud files — just clears the local auth state.
+   * Add a connection and sign in to it. A connection that fails to sign in
+   * isn't kept.
+   * @param configure Store the connection's credentials before signing in
+   *   (e.g. a WebDAV server) — Google Drive signs in through its popup
    */
-  async disconnect(): Promise<void> {
-    const p = cloudSyncManager.provider();
-    if (p) {
-      try {
-        await p.signOut();
-      } catch {
-        // Ignore sign-out errors — we're disconnecting anyway
-      }
+  async addConnection(
+    provider: CloudProviderType,
+    label: string,
+    configure?: (connection: CloudConnection) => void,
+  ): Promise<CloudConnection> {
+    const connection = cloudConnections.add(provider, label);
+    configure?.(connection);
+    try {
+      await cloudStore.connect(connection);
+    } catch (err) {
+      await providerFor(connection).signOut().catch(() => {});
+      instances.delete(connection.id);
+      cloudConnections.remove(connection.id);
+      throw err;
+    }
+    return connection;
+  },
+
+  /**
+   * Remove a connection: sign out, forget its credentials and drop its
+   * records from entries.
+   * Does NOT delete cloud files — adding the account again links them back.
+   */
+  async removeConnection(connectionId: string): Promise<void> {
+    const connection = cloudConnections.get(connectionId);
+    if (!connection) return;
+
+    try {
+      await providerFor(connection).signOut();
+    } catch {
+      // Ignore sign-out errors — we're disconnecting anyway
     }
 
-    cloudSyncManager.clearProvider();
-    setIsConnected(false);
-    setConnectedProviderName(null);
-    setUserEmail(null);
-    persistCloudState({ connectedProvider: null });
-    toastStore.info("Disconnected from cloud");
+    cloudSyncManager.detach(connectionId);
+    await cloudSyncManager.forgetConnection(connectionId);
+    instances.delete(connectionId);
+    cloudConnections.remove(connectionId);
+    toastStore.info(`Disconnected from ${getConnectionLabel(connection)}`);
   },
 
   /**
-   * Try to restore a previous cloud session on app boot.
-   * @param provider The cloud provider to try restoring
+   * Try to restore a connection's previous session on app boot.
    * @returns true if session was restored
    */
-  async tryRestore(provider: ICloudProvider): Promise<boolean> {
-    const state = loadCloudState();
-    if (state.connectedProvider !== provider.name) return false;
-
+  async tryRestore(connection: CloudConnection): Promise<boolean> {
+    const provider = providerFor(connection);
     try {
       const restored = await provider.tryRestoreSession();
       if (restored) {
-        cloudSyncManager.setProvider(provider);
-        setIsConnected(true);
-        setConnectedProviderName(provider.name);
-        setUserEmail(provider.userDisplayName());
+        await attach(provider);
 
         if (settingsStore.settings().cloudAutoSync) {
-          cloudSyncManager.enable();
+          // Pick up renames, edits and deletions made on other devices
+          void cloudSyncManager.fetchCloudEntries();
+        }
+
+        if (cloudEncryption.isLocked(connection.id)) {
+          toastStore.info(
+            `Cloud sync to ${getConnectionLabel(connection)} is encrypted — unlock it in Settings to resume syncing.`,
+          );
         }
 
         return true;
@@ -162,8 +198,8 @@ export const cloudStore = {
     }
 
     // Session couldn't be restored (token expired or missing).
-    // Keep connectedProvider in localStorage so the UI can show a
-    // "reconnect" prompt instead of acting like the user was never connected.
+    // The connection stays in the list so the UI can show a "reconnect"
+    // prompt instead of acting like the user was never connected.
     return false;
   },
 
@@ -173,14 +209,30 @@ export const cloudStore = {
     settingsStore.updateSettings({ cloudAutoSync: !current });
     if (!current) {
       cloudSyncManager.enable();
+      // Catch up on entries saved while auto-sync was off
+      void cloudSyncManager.queueMatchingEntries();
     } else {
       cloudSyncManager.disable();
     }
   },
 
+  /** Rename a connection (an empty label shows the provider's name). */
+  renameConnection(connectionId: string, label: string): void {
+    cloudConnections.update(connectionId, { label: label.trim() });
+  },
+
+  /**
+   * Choose whether auto-sync uploads to a connection. Turning it on catches
+   * the connection up on entries the sync rule selects.
+   */
+  setConnectionAutoSync(connectionId: string, autoSync: boolean): void {
+    cloudConnections.update(connectionId, { autoSync });
+    if (autoSync) void cloudSyncManager.queueMatchingEntries();
+  },
+
   /** Force a full sync cycle now. */
   async syncNow(): Promise<void> {
-    if (!isConnected()) {
+    if (!cloudSyncManager.isConnected()) {
       toastStore.warning("Not connected to cloud");
       return;
     }
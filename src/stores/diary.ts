@@ -2,8 +2,11 @@ import { createSignal } from "solid-js";
 import type { DiaryEntry } from "~/models/types";
 import { storageManager } from "~/services/storage/manager";
 import { cloudSyncManager } from "~/services/cloud/manager";
+import { shouldAutoSync } from "~/services/cloud/rules";
+import { transcriptionManager } from "~/services/transcription/manager";
 import { settingsStore } from "~/stores/settings";
 import { OPFSStorage } from "~/services/storage/opfs";
+import { offloadManager } from "~/services/storage/offload";
 
 const [entries, setEntries] = createSignal<DiaryEntry[]>([]);
 const [activeEntry, setActiveEntry] = createSignal<DiaryEntry | null>(null);
@@ -18,16 +21,21 @@ export const diaryStore = {
     await storageManager.save(entry);
     setEntries((prev) => [entry, ...prev]);
 
-    // Queue for cloud sync if:
-    // 1. Cloud provider is connected
-    // 2. Auto-sync is enabled
-    // 3. The entry is stored in OPFS (not filesystem, not ephemeral for auto-sync)
-    if (
-      cloudSyncManager.provider()?.isAuthenticated() &&
-      settingsStore.settings().cloudAutoSync &&
-      entry.storageProvider === "opfs"
-    ) {
-      cloudSyncManager.queueUpload(entry.id);
+    // Queue for cloud sync to each auto-sync connection if auto-sync wants
+    // this entry (persistent storage, matches the sync rule or pinned)
+    const targets = cloudSyncManager.autoSyncTargets();
+    if (targets.length > 0 && (await shouldAutoSync(entry))) {
+      for (const target of targets) {
+        cloudSyncManager.queueUpload(entry.id, target.connectionId);
+      }
+    }
+
+    // The new video may push storage over the offload threshold
+    void offloadManager.checkThreshold();
+
+    // Transcribe on-device in the background (skipped once the model is known to be missing)
+    if (settingsStore.settings().autoTranscribe && !transcriptionManager.modelMissing()) {
+      transcriptionManager.queue(entry.id);
     }
   },
 
@@ -49,18 +57,23 @@ export const diaryStore = {
     }
   },
 
-  /** Delete an entry — routes to the entry's own provider */
-  async deleteEntry(id: string): Promise<void> {
+  /**
+   * Delete an entry — routes to the entry's own provider.
+   * `localOnly` keeps the cloud copy (used when the cloud deleted it first).
+   */
+  async deleteEntry(id: string, options?: { localOnly?: boolean }): Promise<void> {
     const entry = entries().find((e) => e.id === id);
     if (entry?.videoBlobUrl) {
       URL.revokeObjectURL(entry.videoBlobUrl);
     }
     if (entry) {
       await storageManager.deleteEntry(entry);
+      transcriptionManager.dequeue(id);
+      offloadManager.forget(id);
       // Remove from cloud sync queue if pending
       cloudSyncManager.dequeueUpload(id);
       // Delete cloud files if entry was synced or cloud-only
-      if (entry.cloudSync?.videoFileRef || entry.cloudSync?.metaFileRef) {
+      if (!options?.localOnly && entry.cloudSyncs?.some((r) => r.videoFileRef || r.metaFileRef)) {
         void cloudSyncManager.deleteCloudFiles(entry);
       }
     }
@@ -76,6 +89,20 @@ export const diaryStore = {
     setEntries(all);
   },
 
+  /**
+   * Drop every entry from memory (e.g. when the vault locks) without touching
+   * storage. loadEntries() brings them back.
+   */
+  unloadEntries(): void {
+    for (const entry of entries()) {
+      if (entry.videoBlobUrl) {
+        URL.revokeObjectURL(entry.videoBlobUrl);
+      }
+    }
+    setEntries([]);
+    setActiveEntry(null);
+  },
+
   /**
    * Delete all OPFS-stored entries in bulk.
    * Uses OPFSStorage.clearAll() for efficient bulk deletion.
@@ -101,7 +128,7 @@ export const diaryStore = {
     // 3. Clean up cloud sync state for OPFS entries (sequential to avoid rate limits)
     for (const entry of opfsEntries) {
       cloudSyncManager.dequeueUpload(entry.id);
-      if (entry.cloudSync?.videoFileRef || entry.cloudSync?.metaFileRef) {
+      if (entry.cloudSyncs?.some((r) => r.videoFileRef || r.metaFileRef)) {
         try {
           await cloudSyncManager.deleteCloudFiles(entry);
         } catch {
@@ -1,11 +1,13 @@
 import { createSignal } from "solid-js";
-import type { RecordingStatus } from "~/models/types";
+import type { CaptureSource, RecordingStatus } from "~/models/types";
 
 const [status, setStatus] = createSignal<RecordingStatus>("idle");
 const [elapsed, setElapsed] = createSignal(0);
 const [error, setError] = createSignal<string | null>(null);
 const [stream, setStream] = createSignal<MediaStream | null>(null);
-const [selectedDeviceId, setSelectedDeviceId] = createSignal<string | null>(null);
+const [source, setSource] = createSignal<CaptureSource>("camera");
+/** The shared screen while the source is "screen" */
+const [screenStream, setScreenStream] = createSignal<MediaStream | null>(null);
 
 export const recorderStore = {
   // Getters (signals)
@@ -13,20 +15,22 @@ export const recorderStore = {
   elapsed,
   error,
   stream,
-  selectedDeviceId,
+  source,
+  screenStream,
 
   // Setters
   setStatus,
   setElapsed,
   setError,
   setStream,
-  setSelectedDeviceId,
+  setSource,
+  setScreenStream,
 
   /** Reset all recording state to idle */
   reset() {
     setStatus("idle");
     setElapsed(0);
     setError(null);
-    // Don't reset stream — camera stays active
+    // Don't reset streams — the camera (and any shared screen) stay active
   },
 };
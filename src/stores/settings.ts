@@ -1,5 +1,7 @@
 import { createSignal } from "solid-js";
-import type { AppSettings, VideoQuality } from "~/models/types";
+import type { AppSettings, MicrophoneSettings, VideoQuality } from "~/models/types";
+import { DEFAULT_BUBBLE } from "~/services/recorder/layout";
+import { DEFAULT_MICROPHONE_SETTINGS } from "~/services/recorder/audio-processing";
 
 const STORAGE_KEY = "vidlog_settings";
 
@@ -8,10 +10,24 @@ const defaultSettings: AppSettings = {
   videoQuality: "medium",
   recordingProfile: "standard",
   recordingFormat: "av1",
+  recordingEncoder: "mediarecorder",
+  screenLayout: "bubble",
+  screenAudio: true,
+  pipBubble: DEFAULT_BUBBLE,
+  audioVisualizer: false,
+  cameraDeviceId: null,
+  microphoneDeviceId: null,
+  microphoneSettings: {},
   maxDuration: 1800, // 30 minutes
   autoGenerateTitle: true,
   activeStorageProvider: "ephemeral",
   cloudAutoSync: true,
+  cloudSyncRule: { mode: "all", tags: [], maxMinutes: 5, maxMegabytes: 100 },
+  autoTranscribe: true,
+  vaultAutoLockMinutes: 15,
+  offloadThreshold: 0,
+  offloadOrder: "least-watched",
+  keepStreamedVideos: true,
 };
 
 /** Read settings from localStorage synchronously on boot */
@@ -42,7 +58,8 @@ const [settings, setSettings] = createSignal<AppSettings>(loadSettings());
 
 /**
  * Transient (non-persisted) signal that tracks why the active storage provider
- * fell back to ephemeral during boot. Null when no fallback occurred.
+ * fell back during boot — to IndexedDB if it could be opened, else to
+ * ephemeral. Null when no fallback occurred.
  *
  * Possible reasons:
  * - "permission-denied"  — filesystem handle exists but user denied re-auth
@@ -70,6 +87,25 @@ export const settingsStore = {
     return settings().videoQuality;
   },
 
+  /** A microphone's audio settings (null for the browser's default) — the defaults until changed */
+  getMicrophoneSettings(deviceId: string | null): MicrophoneSettings {
+    const saved = settings().microphoneSettings[deviceId ?? "default"];
+    return {
+      ...DEFAULT_MICROPHONE_SETTINGS,
+      ...saved,
+      // Merge the chain too, for settings saved before a stage existed
+      processing: { ...DEFAULT_MICROPHONE_SETTINGS.processing, ...saved?.processing },
+    };
+  },
+
+  /** Change some of a microphone's audio settings, keeping the rest */
+  updateMicrophoneSettings(deviceId: string | null, updates: Partial<MicrophoneSettings>): void {
+    const next = { ...settingsStore.getMicrophoneSettings(deviceId), ...updates };
+    settingsStore.updateSettings({
+      microphoneSettings: { ...settings().microphoneSettings, [deviceId ?? "default"]: next },
+    });
+  },
+
   /** Reset all settings to defaults and remove persisted state */
   reset(): void {
     setSettings({ ...defaultSettings });
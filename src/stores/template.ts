@@ -1,23 +1,300 @@
 import { createSignal } from "solid-js";
-import type { DiaryTemplate } from "~/models/types";
+import type { DiaryTemplate, TemplateConfig, TemplateVariant } from "~/models/types";
 import { templateRegistry } from "~/components/templates/registry";
+import { settingsStore } from "~/stores/settings";
+import { parseTemplatePackage } from "~/services/templates/package";
+import { TemplateSandbox, verifyTemplatePackage } from "~/services/templates/sandbox";
+import {
+  deleteInstalledTemplate,
+  listInstalledTemplates,
+  loadTemplatePackageBlob,
+  saveInstalledTemplate,
+  updateInstalledTemplate,
+} from "~/services/templates/installed";
+import type { InstalledTemplate, TemplateManifest } from "~/services/templates/types";
+import { generateId } from "~/utils/id";
+
+const VARIANTS_STORAGE_KEY = "vidlog_template_variants";
+
+/** Read saved variants from localStorage. Variants of unknown templates are dropped. */
+function loadVariants(): TemplateVariant[] {
+  try {
+    const raw = localStorage.getItem(VARIANTS_STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as TemplateVariant[];
+      return parsed
+        .filter((v) => templateRegistry.some((t) => t.id === v.baseId))
+        .map((v) => ({
+          ...v,
+          // Fill config keys added since the variant was saved
+          config: { ...templateRegistry.find((t) => t.id === v.baseId)!.config, ...v.config },
+        }));
+    }
+  } catch {
+    // Corrupted data — start with no variants
+  }
+  return [];
+}
+
+function persistVariants(variants: TemplateVariant[]): void {
+  try {
+    localStorage.setItem(VARIANTS_STORAGE_KEY, JSON.stringify(variants));
+  } catch {
+    // localStorage full or unavailable — silently ignore
+  }
+}
 
 const [activeTemplate, setActiveTemplate] = createSignal<DiaryTemplate>(
   templateRegistry[0],
 );
 
+/** User-installed templates, enabled or not */
+const [installed, setInstalled] = createSignal<InstalledTemplate[]>([]);
+
+/** User-saved variants of built-in templates */
+const [variants, setVariants] = createSignal<TemplateVariant[]>(loadVariants());
+
+/** DiaryTemplate objects for variants, rebuilt only when a variant changes */
+const variantTemplates = new Map<string, { updatedAt: number; template: DiaryTemplate }>();
+
+function toTemplate(variant: TemplateVariant): DiaryTemplate {
+  const cached = variantTemplates.get(variant.id);
+  if (cached && cached.updatedAt === variant.updatedAt) return cached.template;
+
+  const base = templateRegistry.find((t) => t.id === variant.baseId) ?? templateRegistry[0];
+  const template: DiaryTemplate = {
+    id: variant.id,
+    name: variant.name,
+    description: `Custom ${base.name}`,
+    previewImageUrl: "",
+    render: base.render,
+    config: variant.config,
+  };
+  variantTemplates.set(variant.id, { updatedAt: variant.updatedAt, template });
+  return template;
+}
+
+/**
+ * DiaryTemplate adapters for installed templates, keyed by ID. Kept stable
+ * across list updates so the recorder's reference and its sandbox survive.
+ */
+const adapters = new Map<string, { template: DiaryTemplate; sandbox: TemplateSandbox }>();
+
+function templateConfig(manifest: TemplateManifest): DiaryTemplate["config"] {
+  return { ...templateRegistry[0].config, ...manifest.config };
+}
+
+function getAdapter(manifest: TemplateManifest): DiaryTemplate {
+  const existing = adapters.get(manifest.id);
+  if (existing) return existing.template;
+
+  const config = templateConfig(manifest);
+  const sandbox = new TemplateSandbox(manifest.id, config, async () =>
+    parseTemplatePackage(await loadTemplatePackageBlob(manifest.id)),
+  );
+  const template: DiaryTemplate = {
+    id: manifest.id,
+    name: manifest.name,
+    description: manifest.description,
+    previewImageUrl: "",
+    render: (ctx, frame) => sandbox.render(ctx, frame),
+    config,
+  };
+  adapters.set(manifest.id, { template, sandbox });
+  return template;
+}
+
+function dropAdapter(id: string): void {
+  adapters.get(id)?.sandbox.dispose();
+  adapters.delete(id);
+}
+
+/** Fall back to the default template if `id` is active or the saved default */
+function releaseTemplate(id: string): void {
+  if (activeTemplate().id === id) {
+    setActiveTemplate(templateRegistry[0]);
+  }
+  if (settingsStore.settings().defaultTemplateId === id) {
+    settingsStore.updateSettings({ defaultTemplateId: templateRegistry[0].id });
+  }
+}
+
+function findInstalled(id: string): InstalledTemplate {
+  const record = installed().find((t) => t.manifest.id === id);
+  if (!record) throw new Error(`Template "${id}" is not installed`);
+  return record;
+}
+
 export const templateStore = {
   activeTemplate,
   setActiveTemplate,
 
-  /** Get all available templates */
+  /** Installed templates, including disabled ones (reactive) */
+  installed,
+
+  /** Saved variants of built-in templates (reactive) */
+  variants,
+
+  /** Get all available templates — built-in, then variants, then enabled installed ones (reactive) */
   getTemplates(): DiaryTemplate[] {
-    return templateRegistry;
+    return [
+      ...templateRegistry,
+      ...variants().map(toTemplate),
+      ...installed()
+        .filter((t) => t.enabled)
+        .map((t) => getAdapter(t.manifest)),
+    ];
   },
 
   /** Set template by ID */
   setTemplateById(id: string): void {
-    const t = templateRegistry.find((t) => t.id === id);
+    const t = templateStore.getTemplates().find((t) => t.id === id);
     if (t) setActiveTemplate(t);
   },
+
+  /** Built-in templates only — the ones variants can be forked from */
+  getBuiltInTemplates(): DiaryTemplate[] {
+    return templateRegistry;
+  },
+
+  /** A DiaryTemplate for an unsaved config, e.g. the editor's live preview */
+  previewTemplate(baseId: string, config: TemplateConfig): DiaryTemplate {
+    const base = templateRegistry.find((t) => t.id === baseId) ?? templateRegistry[0];
+    return { ...base, config };
+  },
+
+  /**
+   * Create or update a variant (a new one unless `id` names a saved
+   * variant). If the variant is the active template, the active template
+   * is swapped for the updated one.
+   */
+  saveVariant(input: { id?: string; name: string; baseId: string; config: TemplateConfig }): TemplateVariant {
+    const name = input.name.trim();
+    if (!name) throw new Error("Give the variant a name");
+    if (!templateRegistry.some((t) => t.id === input.baseId)) {
+      throw new Error(`Unknown base template "${input.baseId}"`);
+    }
+
+    const now = Date.now();
+    const existing = input.id ? variants().find((v) => v.id === input.id) : undefined;
+    const variant: TemplateVariant = {
+      id: existing?.id ?? `custom-${generateId()}`,
+      name,
+      baseId: input.baseId,
+      config: { ...input.config },
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    const next = existing
+      ? variants().map((v) => (v.id === variant.id ? variant : v))
+      : [...variants(), variant];
+    setVariants(next);
+    persistVariants(next);
+
+    if (activeTemplate().id === variant.id) {
+      setActiveTemplate(toTemplate(variant));
+    }
+    return variant;
+  },
+
+  /** Delete a saved variant */
+  deleteVariant(id: string): void {
+    const next = variants().filter((v) => v.id !== id);
+    setVariants(next);
+    persistVariants(next);
+    variantTemplates.delete(id);
+    releaseTemplate(id);
+  },
+
+  /**
+   * Merge variants from elsewhere (e.g. a backup) by ID — the more recently
+   * updated copy wins. Variants of unknown templates are dropped.
+   * @returns Number of variants added or updated
+   */
+  mergeVariants(incoming: TemplateVariant[]): number {
+    const byId = new Map(variants().map((v) => [v.id, v]));
+    let changed = 0;
+    for (const v of incoming) {
+      const base = templateRegistry.find((t) => t.id === v.baseId);
+      if (!base || typeof v.id !== "string" || typeof v.name !== "string") continue;
+      const current = byId.get(v.id);
+      if (current && current.updatedAt >= v.updatedAt) continue;
+      byId.set(v.id, { ...v, config: { ...base.config, ...v.config } });
+      changed++;
+    }
+    if (changed === 0) return 0;
+
+    const next = [...byId.values()];
+    setVariants(next);
+    persistVariants(next);
+    const active = next.find((v) => v.id === activeTemplate().id);
+    if (active) setActiveTemplate(toTemplate(active));
+    return changed;
+  },
+
+  /** Load installed templates from OPFS and apply the saved default template */
+  async loadInstalled(): Promise<void> {
+    try {
+      setInstalled(await listInstalledTemplates());
+    } catch (err) {
+      console.warn("[Templates] Failed to load installed templates:", err);
+    }
+    templateStore.setTemplateById(settingsStore.settings().defaultTemplateId);
+  },
+
+  /**
+   * Validate, test-render, and install a template package. Installing a
+   * package whose ID is already installed replaces it (keeping its
+   * enabled state).
+   *
+   * @throws If the package is invalid or fails to render
+   */
+  async install(file: Blob): Promise<InstalledTemplate> {
+    const pkg = await parseTemplatePackage(file);
+    const { manifest } = pkg;
+
+    if (templateRegistry.some((t) => t.id === manifest.id)) {
+      throw new Error(`"${manifest.id}" is the ID of a built-in template`);
+    }
+
+    await verifyTemplatePackage(pkg, templateConfig(manifest));
+
+    const previous = installed().find((t) => t.manifest.id === manifest.id);
+    const record: InstalledTemplate = {
+      manifest,
+      enabled: previous?.enabled ?? true,
+      installedAt: previous?.installedAt ?? Date.now(),
+    };
+    await saveInstalledTemplate(record, file);
+
+    if (previous) {
+      releaseTemplate(manifest.id);
+      dropAdapter(manifest.id);
+    }
+    setInstalled((prev) => [...prev.filter((t) => t.manifest.id !== manifest.id), record]);
+    return record;
+  },
+
+  /** Show or hide an installed template in the pickers */
+  async setEnabled(id: string, enabled: boolean): Promise<void> {
+    const record = { ...findInstalled(id), enabled };
+    await updateInstalledTemplate(record);
+
+    if (!enabled) {
+      releaseTemplate(id);
+      dropAdapter(id);
+    }
+    setInstalled((prev) => prev.map((t) => (t.manifest.id === id ? record : t)));
+  },
+
+  /** Uninstall a template and delete its package */
+  async remove(id: string): Promise<void> {
+    findInstalled(id);
+    await deleteInstalledTemplate(id);
+
+    releaseTemplate(id);
+    dropAdapter(id);
+    setInstalled((prev) => prev.filter((t) => t.manifest.id !== id));
+  },
 };
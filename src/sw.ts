@@ -0,0 +1,310 @@
+/// <reference lib="webworker" />
+
+/**
+ * VidLog service worker.
+ *
+ * Besides the app shell precache and the runtime caches (what generateSW
+ * used to emit), it carries cloud uploads that outlive the page:
+ *
+ * - Background Fetch: the page hands a video upload to the browser
+ *   (see services/cloud/background.ts). When it ends — even with every tab
+ *   closed — the outcome is stored for the page to finish the entry, and a
+ *   notification says the batch is done.
+ * - Background Sync: when connectivity returns, open pages are told to run
+ *   the sync queue.
+ *
+ * It also serves streaming playback of cloud videos: range requests for
+ * stream URLs are answered with bytes the page reads from the provider
+ * (see services/cloud/stream.ts).
+ */
+
+import { clientsClaim } from "workbox-core";
+import {
+  cleanupOutdatedCaches,
+  createHandlerBoundToURL,
+  precacheAndRoute,
+  type PrecacheEntry,
+} from "workbox-precaching";
+import { NavigationRoute, registerRoute } from "workbox-routing";
+import { CacheFirst } from "workbox-strategies";
+import { ExpirationPlugin } from "workbox-expiration";
+import { CacheableResponsePlugin } from "workbox-cacheable-response";
+import {
+  SYNC_QUEUE_TAG,
+  UPLOAD_FETCH_PREFIX,
+  getUploadResults,
+  putUploadResult,
+  type BackgroundMessage,
+} from "./services/cloud/background-results";
+import {
+  MAX_RANGE_SIZE,
+  STREAM_PATH,
+  type StreamRangeReply,
+  type StreamRangeRequest,
+} from "./services/cloud/stream-protocol";
+
+declare const self: ServiceWorkerGlobalScope & {
+  __WB_MANIFEST: Array<PrecacheEntry | string>;
+};
+
+// ---------------------------------------------------------------------------
+// App shell & runtime caching
+// ---------------------------------------------------------------------------
+
+// registerType "autoUpdate" — take over as soon as a new version installs
+self.skipWaiting();
+clientsClaim();
+
+cleanupOutdatedCaches();
+precacheAndRoute(self.__WB_MANIFEST);
+registerRoute(new NavigationRoute(createHandlerBoundToURL("index.html")));
+
+// Speech-to-text model and ONNX runtime — too large to precache,
+// so they're cached on first use for offline transcription
+registerRoute(
+  ({ url }) => url.pathname.startsWith("/models/") || /\.(wasm|mjs)$/.test(url.pathname),
+  new CacheFirst({
+    cacheName: "transcription-runtime",
+    plugins: [new CacheableResponsePlugin({ statuses: [200] })],
+  }),
+);
+
+// Google Fonts stylesheets
+registerRoute(
+  /^https:\/\/fonts\.googleapis\.com\/.*/i,
+  new CacheFirst({
+    cacheName: "google-fonts-stylesheets",
+    plugins: [new ExpirationPlugin({ maxEntries: 10, maxAgeSeconds: 60 * 60 * 24 * 365 })],
+  }),
+);
+
+// Google Fonts webfont files
+registerRoute(
+  /^https:\/\/fonts\.gstatic\.com\/.*/i,
+  new CacheFirst({
+    cacheName: "google-fonts-webfonts",
+    plugins: [
+      new ExpirationPlugin({ maxEntries: 30, maxAgeSeconds: 60 * 60 * 24 * 365 }),
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+    ],
+  }),
+);
+
+// ---------------------------------------------------------------------------
+// Streaming playback
+// ---------------------------------------------------------------------------
+
+/** How long a range waits for the page before the request fails */
+const STREAM_REPLY_TIMEOUT = 60_000;
+
+/** Ask the page playing a stream for some of its bytes */
+function requestRange(client: Client, request: StreamRangeRequest): Promise<StreamRangeReply> {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => {
+      channel.port1.close();
+      resolve({ ok: false, status: 504, error: "The page didn't answer" });
+    }, STREAM_REPLY_TIMEOUT);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      channel.port1.close();
+      resolve(event.data as StreamRangeReply);
+    };
+    client.postMessage(request, [channel.port2]);
+  });
+}
+
+/** Parse "bytes=start-" or "bytes=start-last" into [start, end) */
+function parseRange(header: string | null): { start: number; end: number | null } | null {
+  const match = header?.match(/^bytes=(\d+)-(\d*)$/);
+  if (!match) return null;
+  return { start: parseInt(match[1], 10), end: match[2] ? parseInt(match[2], 10) + 1 : null };
+}
+
+async function streamResponse(request: Request, clientId: string): Promise<Response> {
+  const streamId = new URL(request.url).pathname.slice(STREAM_PATH.length);
+  // The page that owns the stream is the one playing it
+  const client = clientId ? await self.clients.get(clientId) : undefined;
+  if (!client) return new Response("Stream closed", { status: 404 });
+
+  const range = parseRange(request.headers.get("Range"));
+  const start = range?.start ?? 0;
+  const end = Math.min(range?.end ?? Infinity, start + MAX_RANGE_SIZE);
+  const reply = await requestRange(client, { type: "stream-range", streamId, start, end });
+  if (!reply.ok) return new Response(reply.error, { status: reply.status });
+
+  const headers = {
+    "Content-Type": reply.mimeType,
+    "Accept-Ranges": "bytes",
+  };
+  // An empty video has no bytes to name a range of
+  if (reply.totalSize === 0) {
+    return new Response(null, { status: 200, headers: { ...headers, "Content-Length": "0" } });
+  }
+  if (range && (start >= reply.totalSize || reply.bytes.byteLength === 0)) {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, "Content-Range": `bytes */${reply.totalSize}` },
+    });
+  }
+  if (range) {
+    // Possibly less than asked for — the element requests the rest
+    return new Response(reply.bytes, {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Length": String(reply.bytes.byteLength),
+        "Content-Range": `bytes ${start}-${start + reply.bytes.byteLength - 1}/${reply.totalSize}`,
+      },
+    });
+  }
+
+  // No Range header — send the whole video, a range at a time
+  let offset = reply.bytes.byteLength;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(reply.bytes));
+      if (offset >= reply.totalSize) controller.close();
+    },
+    async pull(controller) {
+      const next = await requestRange(client, {
+        type: "stream-range",
+        streamId,
+        start: offset,
+        end: offset + MAX_RANGE_SIZE,
+      });
+      if (!next.ok || next.bytes.byteLength === 0) {
+        controller.error(new Error(next.ok ? "Stream ended early" : next.error));
+        return;
+      }
+      controller.enqueue(new Uint8Array(next.bytes));
+      offset += next.bytes.byteLength;
+      if (offset >= next.totalSize) controller.close();
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, "Content-Length": String(reply.totalSize) },
+  });
+}
+
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && url.pathname.startsWith(STREAM_PATH),
+  ({ request, event }) => streamResponse(request, (event as FetchEvent).clientId),
+);
+
+// ---------------------------------------------------------------------------
+// Background uploads
+// ---------------------------------------------------------------------------
+
+async function postToClients(message: BackgroundMessage): Promise<void> {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  for (const client of clients) {
+    client.postMessage(message);
+  }
+}
+
+/** Whether the user is looking at the app right now */
+async function hasVisibleClient(): Promise<boolean> {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  return clients.some((c) => c.visibilityState === "visible");
+}
+
+/**
+ * Once the last upload of a batch ends, say how it went — unless the app is
+ * on screen and shows it itself.
+ */
+async function notifyIfBatchDone(finishedId: string): Promise<void> {
+  const ids = (await self.registration.backgroundFetch?.getIds()) ?? [];
+  if (ids.some((id) => id !== finishedId && id.startsWith(UPLOAD_FETCH_PREFIX))) return;
+  if (Notification.permission !== "granted" || (await hasVisibleClient())) return;
+
+  const results = await getUploadResults();
+  if (results.length === 0) return;
+  const uploaded = results.filter((r) => r.ok).length;
+  const failed = results.length - uploaded;
+
+  const title = failed === 0
+    ? `${uploaded === 1 ? "1 video" : `${uploaded} videos`} uploaded`
+    : `${failed === 1 ? "1 upload" : `${failed} uploads`} failed`;
+  await self.registration.showNotification(title, {
+    body: failed === 0
+      ? "Your entries are backed up to the cloud."
+      : "Open VidLog to retry.",
+    icon: "/pwa-192x192.png",
+    tag: "vidlog-uploads",
+  });
+}
+
+async function finishUpload(event: BackgroundFetchEvent): Promise<void> {
+  const { registration } = event;
+  if (!registration.id.startsWith(UPLOAD_FETCH_PREFIX)) return;
+  const uploadId = registration.id.slice(UPLOAD_FETCH_PREFIX.length);
+
+  let status = 0;
+  let body = "";
+  if (registration.recordsAvailable) {
+    try {
+      const [record] = await registration.matchAll();
+      const response = await record.responseReady;
+      status = response.status;
+      body = await response.text();
+    } catch {
+      // No response — the failure reason says why
+    }
+  }
+
+  await putUploadResult({
+    uploadId,
+    ok: registration.result === "success" && status >= 200 && status < 300,
+    status,
+    body,
+    failureReason: registration.failureReason,
+    finishedAt: Date.now(),
+  });
+
+  if ("updateUI" in event) {
+    const ui = event as BackgroundFetchUpdateUIEvent;
+    await ui.updateUI({ title: registration.result === "success" ? "Upload complete" : "Upload failed" });
+  }
+
+  await postToClients({ type: "background-upload-finished", uploadId });
+  await notifyIfBatchDone(registration.id);
+}
+
+self.addEventListener("backgroundfetchsuccess", (event) => {
+  event.waitUntil(finishUpload(event));
+});
+
+self.addEventListener("backgroundfetchfail", (event) => {
+  event.waitUntil(finishUpload(event));
+});
+
+self.addEventListener("backgroundfetchabort", (event) => {
+  event.waitUntil(finishUpload(event));
+});
+
+/** Bring the app forward — or open it — from a notification or the download UI */
+async function focusApp(path: string): Promise<void> {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  if (clients.length > 0) {
+    await clients[0].focus();
+    return;
+  }
+  await self.clients.openWindow(path);
+}
+
+self.addEventListener("backgroundfetchclick", (event) => {
+  event.waitUntil(focusApp("/settings"));
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(focusApp("/library"));
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SYNC_QUEUE_TAG) {
+    event.waitUntil(postToClients({ type: "process-sync-queue" }));
+  }
+});
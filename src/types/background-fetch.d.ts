@@ -0,0 +1,90 @@
+/// <reference lib="webworker" />
+
+/**
+ * Type declarations for the Background Fetch and Background Sync APIs.
+ * Chromium-only, and not in the default TypeScript lib.
+ *
+ * References:
+ * - https://developer.mozilla.org/en-US/docs/Web/API/Background_Fetch_API
+ * - https://developer.mozilla.org/en-US/docs/Web/API/Background_Synchronization_API
+ */
+
+type BackgroundFetchResult = "" | "success" | "failure";
+
+type BackgroundFetchFailureReason =
+  | ""
+  | "aborted"
+  | "bad-status"
+  | "fetch-error"
+  | "quota-exceeded"
+  | "download-total-exceeded";
+
+interface BackgroundFetchUIOptions {
+  icons?: Array<{ src: string; sizes?: string; type?: string; label?: string }>;
+  title?: string;
+}
+
+interface BackgroundFetchOptions extends BackgroundFetchUIOptions {
+  downloadTotal?: number;
+}
+
+interface BackgroundFetchRecord {
+  readonly request: Request;
+  readonly responseReady: Promise<Response>;
+}
+
+interface BackgroundFetchRegistration extends EventTarget {
+  readonly id: string;
+  readonly uploadTotal: number;
+  readonly uploaded: number;
+  readonly downloadTotal: number;
+  readonly downloaded: number;
+  readonly result: BackgroundFetchResult;
+  readonly failureReason: BackgroundFetchFailureReason;
+  readonly recordsAvailable: boolean;
+  abort(): Promise<boolean>;
+  match(request: RequestInfo, options?: CacheQueryOptions): Promise<BackgroundFetchRecord | undefined>;
+  matchAll(request?: RequestInfo, options?: CacheQueryOptions): Promise<BackgroundFetchRecord[]>;
+  onprogress: ((this: BackgroundFetchRegistration, ev: Event) => unknown) | null;
+}
+
+interface BackgroundFetchManager {
+  fetch(
+    id: string,
+    requests: RequestInfo | RequestInfo[],
+    options?: BackgroundFetchOptions,
+  ): Promise<BackgroundFetchRegistration>;
+  get(id: string): Promise<BackgroundFetchRegistration | undefined>;
+  getIds(): Promise<string[]>;
+}
+
+interface SyncManager {
+  register(tag: string): Promise<void>;
+  getTags(): Promise<string[]>;
+}
+
+interface ServiceWorkerRegistration {
+  readonly backgroundFetch?: BackgroundFetchManager;
+  readonly sync?: SyncManager;
+}
+
+interface BackgroundFetchEvent extends ExtendableEvent {
+  readonly registration: BackgroundFetchRegistration;
+}
+
+interface BackgroundFetchUpdateUIEvent extends BackgroundFetchEvent {
+  updateUI(options?: BackgroundFetchUIOptions): Promise<void>;
+}
+
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+  readonly lastChance: boolean;
+}
+
+interface ServiceWorkerGlobalScopeEventMap {
+  backgroundfetchsuccess: BackgroundFetchUpdateUIEvent;
+  backgroundfetchfail: BackgroundFetchUpdateUIEvent;
+  backgroundfetchabort: BackgroundFetchEvent;
+  backgroundfetchclick: BackgroundFetchEvent;
+  sync: SyncEvent;
+}
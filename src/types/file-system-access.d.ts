@@ -4,6 +4,7 @@
  *
  * References:
  * - https://developer.mozilla.org/en-US/docs/Web/API/Window/showDirectoryPicker
+ * - https://developer.mozilla.org/en-US/docs/Web/API/Window/showSaveFilePicker
  * - https://developer.mozilla.org/en-US/docs/Web/API/FileSystemHandle/queryPermission
  * - https://developer.mozilla.org/en-US/docs/Web/API/FileSystemHandle/requestPermission
  * - https://developer.mozilla.org/en-US/docs/Web/API/FileSystemObserver
@@ -35,10 +36,20 @@ interface ShowDirectoryPickerOptions {
     | FileSystemHandle;
 }
 
+interface SaveFilePickerOptions {
+  id?: string;
+  suggestedName?: string;
+  startIn?: ShowDirectoryPickerOptions["startIn"];
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}
+
 interface Window {
   showDirectoryPicker(
     options?: ShowDirectoryPickerOptions,
   ): Promise<FileSystemDirectoryHandle>;
+  showSaveFilePicker(
+    options?: SaveFilePickerOptions,
+  ): Promise<FileSystemFileHandle>;
 }
 
 // ---------------------------------------------------------------------------
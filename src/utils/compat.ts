@@ -55,31 +55,32 @@ export function checkBrowserCompat(): CompatCheck[] {
   return checks;
 }
 
-/** Returns human-friendly camera error messages. */
-export function getCameraErrorMessage(err: unknown): string {
-  if (!(err instanceof Error)) return "Failed to access camera.";
+/** Returns human-friendly camera (or, for audio recordings, microphone) error messages. */
+export function getCameraErrorMessage(err: unknown, device: "camera" | "microphone" = "camera"): string {
+  const Device = device === "camera" ? "Camera" : "Microphone";
+  if (!(err instanceof Error)) return `Failed to access ${device}.`;
 
   const name = err.name;
   const msg = err.message.toLowerCase();
 
   if (name === "NotAllowedError" || name === "PermissionDeniedError") {
-    return "Camera permission was denied. Please allow camera access in your browser settings and try again.";
+    return `${Device} permission was denied. Please allow ${device} access in your browser settings and try again.`;
   }
   if (name === "NotFoundError" || name === "DevicesNotFoundError") {
-    return "No camera found. Please connect a camera and try again.";
+    return `No ${device} found. Please connect a ${device} and try again.`;
   }
   if (name === "NotReadableError" || name === "TrackStartError") {
-    return "Camera is already in use by another application. Please close other apps using your camera.";
+    return `${Device} is already in use by another application. Please close other apps using your ${device}.`;
   }
   if (name === "OverconstrainedError") {
-    return "Camera does not support the requested resolution. Try a lower quality setting.";
+    return `${Device} does not support the requested resolution. Try a lower quality setting.`;
   }
   if (name === "AbortError") {
-    return "Camera access was interrupted. Please try again.";
+    return `${Device} access was interrupted. Please try again.`;
   }
   if (msg.includes("secure") || msg.includes("https")) {
-    return "Camera access requires a secure connection (HTTPS). Please access the app via HTTPS.";
+    return `${Device} access requires a secure connection (HTTPS). Please access the app via HTTPS.`;
   }
 
-  return `Camera error: ${err.message}`;
+  return `${Device} error: ${err.message}`;
 }
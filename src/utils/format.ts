@@ -16,9 +16,11 @@ export function formatBytes(bytes: number): string {
 /**
  * Derive a file extension from a MIME type string.
  * Returns the extension WITH the leading dot (e.g. ".mp4", ".webm").
+ * Audio entries keep their container's extension, so every stored or
+ * uploaded recording is a .mp4 or .webm file.
  */
 export function getExtensionForMimeType(mime: string): string {
-  if (mime.startsWith("video/mp4")) return ".mp4";
-  if (mime.startsWith("video/webm")) return ".webm";
+  if (mime.startsWith("video/mp4") || mime.startsWith("audio/mp4")) return ".mp4";
+  if (mime.startsWith("video/webm") || mime.startsWith("audio/webm")) return ".webm";
   return ".webm"; // safe default — WebM is universally supported for recording
 }
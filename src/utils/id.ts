@@ -9,11 +9,17 @@ export function generateId(): string {
  *
  * Structurally different from UUIDs, making cross-provider ID collision impossible.
  * The 4-char hex suffix avoids collisions for entries created in the same second.
+ * Pass `at` to key an entry by its original creation time (e.g. recovered recordings).
  */
-export function generateFilesystemId(): string {
-  const now = new Date();
+export function generateFilesystemId(at: Date = new Date()): string {
+  const now = at;
   const date = now.toISOString().slice(0, 10); // 2026-02-23
   const time = now.toTimeString().slice(0, 8).replace(/:/g, ""); // 143207
   const hex = Math.random().toString(16).slice(2, 6); // a3f7
   return `${date}_${time}_${hex}`;
 }
+
+/** Whether `id` has the generateFilesystemId() format rather than a UUID */
+export function isFilesystemId(id: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}_\d{6}_[0-9a-f]{1,4}$/.test(id);
+}
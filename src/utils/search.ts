@@ -1,20 +1,233 @@
-import type { DiaryEntry } from "~/models/types";
+import type { DiaryEntry, MediaKind } from "~/models/types";
 
 /**
- * Simple client-side search. Matches substring in title or tags.
- * Case-insensitive.
+ * Ranked full-text search over titles, tags, and transcripts.
+ *
+ * buildSearchIndex() tokenizes every entry into an inverted index
+ * (term → postings with token positions); searchIndex() scores entries
+ * with BM25 per field, weighting title over tags over transcript. All query
+ * terms must match; the last term also matches as a prefix so results
+ * update while typing. Transcript hits carry the timestamp of the first
+ * matching word so the UI can jump straight to it.
+ */
+
+const FIELD_WEIGHTS = { title: 3, tags: 2, transcript: 1 } as const;
+type Field = keyof typeof FIELD_WEIGHTS;
+const FIELDS = Object.keys(FIELD_WEIGHTS) as Field[];
+
+/** BM25 parameters (standard defaults) */
+const K1 = 1.2;
+const B = 0.75;
+
+/** Words of context shown around a transcript match */
+const SNIPPET_BEFORE = 6;
+const SNIPPET_AFTER = 10;
+
+interface Posting {
+  doc: number;
+  field: Field;
+  /** Token positions within the field */
+  positions: number[];
+}
+
+interface IndexedDoc {
+  entry: DiaryEntry;
+  lengths: Record<Field, number>;
+  /** Transcript token position → index into entry.transcript.words */
+  wordOf: number[];
+}
+
+export interface SearchIndex {
+  docs: IndexedDoc[];
+  terms: Map<string, Posting[]>;
+  avgLengths: Record<Field, number>;
+}
+
+/** Where a query matched inside an entry's transcript */
+export interface TranscriptMatch {
+  /** Seconds into the video */
+  start: number;
+  snippet: string;
+}
+
+export interface SearchResult {
+  entry: DiaryEntry;
+  score: number;
+  match: TranscriptMatch | null;
+}
+
+/** Lowercase, strip diacritics, split on anything that isn't a letter or digit. */
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  );
+}
+
+/** Build the inverted index. Cheap enough to rebuild whenever entries change. */
+export function buildSearchIndex(entries: DiaryEntry[]): SearchIndex {
+  const docs: IndexedDoc[] = [];
+  const terms = new Map<string, Posting[]>();
+  const totals: Record<Field, number> = { title: 0, tags: 0, transcript: 0 };
+
+  entries.forEach((entry, doc) => {
+    const wordOf: number[] = [];
+    const transcriptTokens: string[] = [];
+    entry.transcript?.words.forEach((word, i) => {
+      for (const token of tokenize(word.text)) {
+        transcriptTokens.push(token);
+        wordOf.push(i);
+      }
+    });
+
+    const fields: Record<Field, string[]> = {
+      title: tokenize(entry.title),
+      tags: tokenize(entry.tags.join(" ")),
+      transcript: transcriptTokens,
+    };
+
+    for (const field of FIELDS) {
+      const positions = new Map<string, number[]>();
+      fields[field].forEach((token, pos) => {
+        const list = positions.get(token);
+        if (list) list.push(pos);
+        else positions.set(token, [pos]);
+      });
+      for (const [term, list] of positions) {
+        const postings = terms.get(term);
+        const posting = { doc, field, positions: list };
+        if (postings) postings.push(posting);
+        else terms.set(term, [posting]);
+      }
+      totals[field] += fields[field].length;
+    }
+
+    docs.push({
+      entry,
+      lengths: {
+        title: fields.title.length,
+        tags: fields.tags.length,
+        transcript: fields.transcript.length,
+      },
+      wordOf,
+    });
+  });
+
+  const n = Math.max(1, docs.length);
+  return {
+    docs,
+    terms,
+    avgLengths: {
+      title: totals.title / n || 1,
+      tags: totals.tags / n || 1,
+      transcript: totals.transcript / n || 1,
+    },
+  };
+}
+
+/** Index terms a query term matches: itself, or every term it prefixes. */
+function expandTerm(index: SearchIndex, term: string, prefix: boolean): string[] {
+  if (!prefix) return index.terms.has(term) ? [term] : [];
+  const matches: string[] = [];
+  for (const candidate of index.terms.keys()) {
+    if (candidate.startsWith(term)) matches.push(candidate);
+  }
+  return matches;
+}
+
+function buildSnippet(entry: DiaryEntry, wordIndex: number): TranscriptMatch | null {
+  const words = entry.transcript?.words;
+  if (!words?.[wordIndex]) return null;
+  const from = Math.max(0, wordIndex - SNIPPET_BEFORE);
+  const to = Math.min(words.length, wordIndex + SNIPPET_AFTER + 1);
+  const text = words.slice(from, to).map((w) => w.text).join(" ");
+  return {
+    start: words[wordIndex].start,
+    snippet: `${from > 0 ? "\u2026" : ""}${text}${to < words.length ? "\u2026" : ""}`,
+  };
+}
+
+/**
+ * Rank indexed entries against a query.
+ * An empty query returns every entry unscored, in index order.
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchResult[] {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) {
+    return index.docs.map((d) => ({ entry: d.entry, score: 0, match: null }));
+  }
+
+  // Typing "job off" should already find "job offer"
+  const lastIsPrefix = !/\s$/.test(query);
+  const n = index.docs.length;
+  const scores = new Map<number, number>();
+  const firstTranscriptHit = new Map<number, number>();
+  let candidates: Set<number> | null = null;
+
+  queryTerms.forEach((queryTerm, qi) => {
+    const matched = new Set<number>();
+    const expanded = expandTerm(index, queryTerm, lastIsPrefix && qi === queryTerms.length - 1);
+
+    for (const term of expanded) {
+      const postings = index.terms.get(term)!;
+      const df = new Set(postings.map((p) => p.doc)).size;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+
+      for (const posting of postings) {
+        const doc = index.docs[posting.doc];
+        const tf = posting.positions.length;
+        const norm = 1 - B + B * (doc.lengths[posting.field] / index.avgLengths[posting.field]);
+        const score = FIELD_WEIGHTS[posting.field] * idf * ((tf * (K1 + 1)) / (tf + K1 * norm));
+        scores.set(posting.doc, (scores.get(posting.doc) ?? 0) + score);
+        matched.add(posting.doc);
+
+        if (posting.field === "transcript") {
+          const word = doc.wordOf[posting.positions[0]];
+          const prev = firstTranscriptHit.get(posting.doc);
+          if (prev === undefined || word < prev) firstTranscriptHit.set(posting.doc, word);
+        }
+      }
+    }
+
+    // Every query term must match somewhere
+    const previous: Set<number> | null = candidates;
+    candidates = previous ? new Set([...previous].filter((d) => matched.has(d))) : matched;
+  });
+
+  const results: SearchResult[] = [];
+  for (const doc of candidates ?? []) {
+    const entry = index.docs[doc].entry;
+    const hit = firstTranscriptHit.get(doc);
+    results.push({
+      entry,
+      score: scores.get(doc) ?? 0,
+      match: hit === undefined ? null : buildSnippet(entry, hit),
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score || b.entry.createdAt - a.entry.createdAt);
+}
+
+/**
+ * Convenience wrapper: rank entries against a query without keeping the index.
+ * Prefer buildSearchIndex() + searchIndex() when searching repeatedly.
  */
 export function searchEntries(
   entries: DiaryEntry[],
   query: string,
 ): DiaryEntry[] {
-  if (!query.trim()) return entries;
-  const q = query.toLowerCase().trim();
-  return entries.filter(
-    (entry) =>
-      entry.title.toLowerCase().includes(q) ||
-      entry.tags.some((tag) => tag.toLowerCase().includes(q)),
-  );
+  return searchIndex(buildSearchIndex(entries), query).map((r) => r.entry);
+}
+
+/**
+ * Filter entries by media kind — videos or audio entries.
+ */
+export function filterByKind(entries: DiaryEntry[], kind: MediaKind | "all"): DiaryEntry[] {
+  if (kind === "all") return entries;
+  return entries.filter((e) => e.mediaKind === kind);
 }
 
 /**
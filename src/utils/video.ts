@@ -62,6 +62,57 @@ export async function generateThumbnail(
   });
 }
 
+/**
+ * Capture `count` evenly spaced frames of a video for a timeline strip.
+ * Frames are small JPEG data URLs, `height` pixels tall. If a seek fails
+ * or times out, the frames captured so far are returned.
+ */
+export async function generateThumbnailStrip(
+  blob: Blob,
+  duration: number,
+  count: number = 10,
+  height: number = 48,
+): Promise<string[]> {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  const url = URL.createObjectURL(blob);
+  video.src = url;
+
+  const waitFor = (event: string) =>
+    new Promise<boolean>((resolve) => {
+      const timeout = setTimeout(() => resolve(false), 5_000);
+      video.addEventListener(event, () => { clearTimeout(timeout); resolve(true); }, { once: true });
+      video.addEventListener("error", () => { clearTimeout(timeout); resolve(false); }, { once: true });
+    });
+
+  const frames: string[] = [];
+  try {
+    if (!(await waitFor("loadedmetadata"))) return frames;
+
+    const vw = video.videoWidth || 320;
+    const vh = video.videoHeight || 180;
+    const canvas = document.createElement("canvas");
+    canvas.height = height;
+    canvas.width = Math.round((vw / vh) * height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return frames;
+
+    for (let i = 0; i < count; i++) {
+      // Sample the middle of each slot
+      video.currentTime = ((i + 0.5) / count) * duration;
+      if (!(await waitFor("seeked"))) break;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push(canvas.toDataURL("image/jpeg", 0.6));
+    }
+    return frames;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
 /**
  * Format a blob size to a human-readable string.
  * @deprecated Use `formatBytes` from `~/utils/format` directly.
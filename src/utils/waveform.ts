@@ -0,0 +1,71 @@
+import type { EditSegment } from "~/models/types";
+
+/**
+ * Waveforms of audio entries — peak levels across the recording, stored on
+ * the entry (so cloud-only entries have one too) and drawn as bars: the
+ * library thumbnail, the scrubber in DiaryDetail, and the editor timeline.
+ *
+ * They're measured while recording rather than decoded afterwards: decoding
+ * a half-hour recording takes hundreds of megabytes of PCM.
+ */
+
+/** Bars stored per entry */
+export const WAVEFORM_BARS = 120;
+
+/** Seconds of recording per measured peak */
+export const WAVEFORM_STEP = 0.1;
+
+/**
+ * Resample peaks to `bars` bars (each the loudest peak it covers),
+ * normalized so the loudest bar is 1.
+ */
+export function resampleWaveform(peaks: number[], bars: number = WAVEFORM_BARS): number[] {
+  if (peaks.length === 0) return [];
+  const out: number[] = [];
+  for (let i = 0; i < bars; i++) {
+    const from = Math.floor((i * peaks.length) / bars);
+    const to = Math.max(from + 1, Math.floor(((i + 1) * peaks.length) / bars));
+    let peak = 0;
+    for (let j = from; j < to; j++) peak = Math.max(peak, peaks[j] ?? 0);
+    out.push(peak);
+  }
+  const loudest = Math.max(...out);
+  // Two decimals is plenty for bars a few pixels tall, and keeps the metadata small
+  return out.map((peak) => (loudest > 0 ? Math.round((peak / loudest) * 100) / 100 : 0));
+}
+
+/** The waveform of a rendered edit — the bars of the kept spans, back to back */
+export function trimWaveform(waveform: number[], duration: number, segments: EditSegment[]): number[] {
+  if (waveform.length === 0 || duration <= 0) return waveform;
+  const kept: number[] = [];
+  for (const segment of segments) {
+    const from = Math.floor((segment.start / duration) * waveform.length);
+    const to = Math.ceil((segment.end / duration) * waveform.length);
+    kept.push(...waveform.slice(from, Math.max(from + 1, to)));
+  }
+  return resampleWaveform(kept, waveform.length);
+}
+
+/** A 16:9 JPEG data URL of the waveform, for the library card */
+export function generateWaveformThumbnail(waveform: number[], width: number = 320, height: number = 180): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.fillStyle = "#0a0a0f";
+  ctx.fillRect(0, 0, width, height);
+
+  const bars = Math.max(1, waveform.length);
+  const slot = width / bars;
+  const barWidth = Math.max(1, slot * 0.6);
+  const maxHeight = height * 0.7;
+  ctx.fillStyle = "#00ffff";
+  waveform.forEach((peak, i) => {
+    // Silence still shows as a thin line
+    const h = Math.max(2, peak * maxHeight);
+    ctx.fillRect(i * slot + (slot - barWidth) / 2, (height - h) / 2, barWidth, h);
+  });
+  return canvas.toDataURL("image/jpeg", 0.7);
+}
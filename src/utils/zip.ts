@@ -0,0 +1,357 @@
+/**
+ * Minimal ZIP reader and writer.
+ *
+ * The reader supports stored and deflated entries (deflate is decoded with
+ * the browser's DecompressionStream) and ZIP64 archives. Encryption and
+ * multi-disk archives are rejected. Stored entries come back as lazy
+ * slices of the source blob, so reading a multi-GB archive from a File
+ * doesn't load it into memory.
+ *
+ * The writer only stores (no compression — videos don't compress) and
+ * switches to ZIP64 records as soon as sizes or offsets need them.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+
+/** End-of-central-directory record (22 bytes) plus the max comment length */
+const EOCD_MAX_SEARCH = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** Sentinel meaning "the real value is in the ZIP64 record" */
+const U32_MAX = 0xffffffff;
+const U16_MAX = 0xffff;
+
+/** General purpose flag: file names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+// ---------------------------------------------------------------------------
+
+/** Central directory location, from the (ZIP64) end-of-central-directory record */
+async function readDirectoryLocation(
+  blob: Blob,
+): Promise<{ entryCount: number; cdOffset: number; cdSize: number }> {
+  // Locate the end-of-central-directory record by scanning backwards
+  const tailStart = Math.max(0, blob.size - EOCD_MAX_SEARCH);
+  const tail = await readBytes(blob, tailStart, blob.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const cdSize = tail.getUint32(eocd + 12, true);
+  const cdOffset = tail.getUint32(eocd + 16, true);
+  if (entryCount !== U16_MAX && cdSize !== U32_MAX && cdOffset !== U32_MAX) {
+    return { entryCount, cdOffset, cdSize };
+  }
+
+  // ZIP64 — the locator sits immediately before the classic record
+  if (eocd < 20 || tail.getUint32(eocd - 20, true) !== ZIP64_LOCATOR_SIGNATURE) {
+    throw new Error("Corrupted ZIP64 archive");
+  }
+  const recordOffset = Number(tail.getBigUint64(eocd - 20 + 8, true));
+  const record = await readBytes(blob, recordOffset, recordOffset + 56);
+  if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+    throw new Error("Corrupted ZIP64 archive");
+  }
+  return {
+    entryCount: Number(record.getBigUint64(32, true)),
+    cdSize: Number(record.getBigUint64(40, true)),
+    cdOffset: Number(record.getBigUint64(48, true)),
+  };
+}
+
+/**
+ * Read every file in a ZIP archive.
+ *
+ * @returns Map of path (as stored in the archive, "/"-separated) to contents.
+ *          Directory entries are skipped.
+ * @throws If the archive is malformed or uses an unsupported feature
+ */
+export async function readZip(blob: Blob): Promise<Map<string, Blob>> {
+  const { entryCount, cdOffset, cdSize } = await readDirectoryLocation(blob);
+
+  const cd = await readBytes(blob, cdOffset, cdOffset + cdSize);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Blob>();
+
+  let pos = 0;
+  for (let n = 0; n < entryCount; n++) {
+    if (cd.getUint32(pos, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupted ZIP central directory");
+    }
+    const flags = cd.getUint16(pos + 8, true);
+    const method = cd.getUint16(pos + 10, true);
+    let compressedSize = cd.getUint32(pos + 20, true);
+    const uncompressedSize = cd.getUint32(pos + 24, true);
+    const nameLength = cd.getUint16(pos + 28, true);
+    const extraLength = cd.getUint16(pos + 30, true);
+    const commentLength = cd.getUint16(pos + 32, true);
+    let localOffset = cd.getUint32(pos + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(cd.buffer, cd.byteOffset + pos + 46, nameLength),
+    );
+
+    // ZIP64 extra field holds the values whose 32-bit slots are saturated, in order
+    let extra = pos + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = cd.getUint16(extra, true);
+      const size = cd.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA_ID) {
+        let field = extra + 4;
+        if (uncompressedSize === U32_MAX) field += 8;
+        if (compressedSize === U32_MAX) {
+          compressedSize = Number(cd.getBigUint64(field, true));
+          field += 8;
+        }
+        if (localOffset === U32_MAX) {
+          localOffset = Number(cd.getBigUint64(field, true));
+        }
+      }
+      extra += 4 + size;
+    }
+
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x1) {
+      throw new Error(`Encrypted ZIP entries are not supported (${name})`);
+    }
+
+    // The local header's name/extra lengths can differ from the central copy
+    const local = await readBytes(blob, localOffset, localOffset + 30);
+    if (local.getUint32(0, true) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupted ZIP entry (${name})`);
+    }
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const data = blob.slice(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      files.set(name, data);
+    } else if (method === METHOD_DEFLATE) {
+      const inflated = data.stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      files.set(name, await new Response(inflated).blob());
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} (${name})`);
+    }
+  }
+
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+// Writer
+// ---------------------------------------------------------------------------
+
+/** Where a ZipWriter sends its output, in order */
+export interface ZipSink {
+  write(data: Blob): Promise<void>;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 of a blob, read as a stream so large files never sit in memory */
+async function crc32(blob: Blob): Promise<number> {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS date/time fields used by ZIP headers (local time, 2-second precision) */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface CentralRecord {
+  name: Uint8Array<ArrayBuffer>;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * Streaming ZIP writer. Each file is CRC'd in one streaming pass and then
+ * handed to the sink as the original Blob, so sinks that accept Blobs
+ * (a file on disk, or a Blob assembled from parts) never need the file's
+ * bytes in memory.
+ */
+export class ZipWriter {
+  private offset = 0;
+  private records: CentralRecord[] = [];
+  private finished = false;
+  private readonly encoder = new TextEncoder();
+
+  constructor(private readonly sink: ZipSink) {}
+
+  /** Bytes written so far */
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  /** Append a file. Strings are stored as UTF-8. */
+  async add(path: string, content: Blob | string, modified: Date = new Date()): Promise<void> {
+    if (this.finished) throw new Error("ZIP archive already finished");
+
+    const data = typeof content === "string" ? new Blob([content]) : content;
+    const name = this.encoder.encode(path) as Uint8Array<ArrayBuffer>;
+    const crc = await crc32(data);
+    const { time, date } = dosDateTime(modified);
+    const size = data.size;
+    const zip64 = size >= U32_MAX;
+
+    const header = new DataView(new ArrayBuffer(30 + name.length + (zip64 ? 20 : 0)));
+    header.setUint32(0, LOCAL_SIGNATURE, true);
+    header.setUint16(4, zip64 ? 45 : 20, true);
+    header.setUint16(6, FLAG_UTF8, true);
+    header.setUint16(8, METHOD_STORED, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, zip64 ? U32_MAX : size, true);
+    header.setUint32(22, zip64 ? U32_MAX : size, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, zip64 ? 20 : 0, true);
+    new Uint8Array(header.buffer).set(name, 30);
+    if (zip64) {
+      const extra = 30 + name.length;
+      header.setUint16(extra, ZIP64_EXTRA_ID, true);
+      header.setUint16(extra + 2, 16, true);
+      header.setBigUint64(extra + 4, BigInt(size), true);
+      header.setBigUint64(extra + 12, BigInt(size), true);
+    }
+
+    this.records.push({ name, crc, size, offset: this.offset, time, date });
+    await this.sink.write(new Blob([header.buffer]));
+    await this.sink.write(data);
+    this.offset += header.byteLength + size;
+  }
+
+  /** Write the central directory. No more files can be added afterwards. */
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const parts: ArrayBuffer[] = [];
+    const cdOffset = this.offset;
+    let cdSize = 0;
+
+    for (const r of this.records) {
+      const bigSize = r.size >= U32_MAX;
+      const bigOffset = r.offset >= U32_MAX;
+      const extraLength = (bigSize || bigOffset ? 4 : 0) + (bigSize ? 16 : 0) + (bigOffset ? 8 : 0);
+
+      const entry = new DataView(new ArrayBuffer(46 + r.name.length + extraLength));
+      entry.setUint32(0, CENTRAL_SIGNATURE, true);
+      entry.setUint16(4, 45, true);
+      entry.setUint16(6, bigSize || bigOffset ? 45 : 20, true);
+      entry.setUint16(8, FLAG_UTF8, true);
+      entry.setUint16(10, METHOD_STORED, true);
+      entry.setUint16(12, r.time, true);
+      entry.setUint16(14, r.date, true);
+      entry.setUint32(16, r.crc, true);
+      entry.setUint32(20, bigSize ? U32_MAX : r.size, true);
+      entry.setUint32(24, bigSize ? U32_MAX : r.size, true);
+      entry.setUint16(28, r.name.length, true);
+      entry.setUint16(30, extraLength, true);
+      entry.setUint32(42, bigOffset ? U32_MAX : r.offset, true);
+      new Uint8Array(entry.buffer).set(r.name, 46);
+
+      if (extraLength > 0) {
+        let field = 46 + r.name.length;
+        entry.setUint16(field, ZIP64_EXTRA_ID, true);
+        entry.setUint16(field + 2, extraLength - 4, true);
+        field += 4;
+        if (bigSize) {
+          entry.setBigUint64(field, BigInt(r.size), true);
+          entry.setBigUint64(field + 8, BigInt(r.size), true);
+          field += 16;
+        }
+        if (bigOffset) {
+          entry.setBigUint64(field, BigInt(r.offset), true);
+        }
+      }
+
+      parts.push(entry.buffer);
+      cdSize += entry.byteLength;
+    }
+
+    const count = this.records.length;
+    const needsZip64 = count >= U16_MAX || cdOffset >= U32_MAX || cdSize >= U32_MAX;
+
+    if (needsZip64) {
+      const zip64EocdOffset = cdOffset + cdSize;
+
+      const record = new DataView(new ArrayBuffer(56));
+      record.setUint32(0, ZIP64_EOCD_SIGNATURE, true);
+      record.setBigUint64(4, 44n, true);
+      record.setUint16(12, 45, true);
+      record.setUint16(14, 45, true);
+      record.setBigUint64(24, BigInt(count), true);
+      record.setBigUint64(32, BigInt(count), true);
+      record.setBigUint64(40, BigInt(cdSize), true);
+      record.setBigUint64(48, BigInt(cdOffset), true);
+      parts.push(record.buffer);
+
+      const locator = new DataView(new ArrayBuffer(20));
+      locator.setUint32(0, ZIP64_LOCATOR_SIGNATURE, true);
+      locator.setBigUint64(8, BigInt(zip64EocdOffset), true);
+      locator.setUint32(16, 1, true);
+      parts.push(locator.buffer);
+    }
+
+    const eocd = new DataView(new ArrayBuffer(22));
+    eocd.setUint32(0, EOCD_SIGNATURE, true);
+    eocd.setUint16(8, needsZip64 ? U16_MAX : count, true);
+    eocd.setUint16(10, needsZip64 ? U16_MAX : count, true);
+    eocd.setUint32(12, needsZip64 ? U32_MAX : cdSize, true);
+    eocd.setUint32(16, needsZip64 ? U32_MAX : cdOffset, true);
+    parts.push(eocd.buffer);
+
+    const trailer = new Blob(parts);
+    await this.sink.write(trailer);
+    this.offset += trailer.size;
+  }
+}
@@ -46,50 +46,46 @@ export default defineConfig({
           },
         ],
       },
-      workbox: {
+      // Custom service worker (src/sw.ts): precaching and runtime caching,
+      // plus background uploads that outlive the page
+      strategies: "injectManifest",
+      srcDir: "src",
+      filename: "sw.ts",
+      injectManifest: {
         // Precache app shell assets (JS, CSS, HTML, fonts, icons)
         globPatterns: ["**/*.{js,css,html,svg,png,woff2}"],
         // Do NOT cache video blobs or large files
         maximumFileSizeToCacheInBytes: 5 * 1024 * 1024, // 5MB max per file
-        runtimeCaching: [
-          {
-            // Cache Google Fonts stylesheets
-            urlPattern:
-              /^https:\/\/fonts\.googleapis\.com\/.*/i,
-            handler: "CacheFirst",
-            options: {
-              cacheName: "google-fonts-stylesheets",
-              expiration: {
-                maxEntries: 10,
-                maxAgeSeconds: 60 * 60 * 24 * 365, // 1 year
-              },
-            },
-          },
-          {
-            // Cache Google Fonts webfont files
-            urlPattern:
-              /^https:\/\/fonts\.gstatic\.com\/.*/i,
-            handler: "CacheFirst",
-            options: {
-              cacheName: "google-fonts-webfonts",
-              expiration: {
-                maxEntries: 30,
-                maxAgeSeconds: 60 * 60 * 24 * 365, // 1 year
-              },
-              cacheableResponse: {
-                statuses: [0, 200],
-              },
-            },
-          },
-        ],
       },
     }),
   ],
   resolve: {
     alias: {
       "~": resolve(__dirname, "src"),
+      // ONNX Runtime WASM files shipped with transformers.js — bundled as our
+      // own assets so transcription never loads them from a CDN
+      "@ort-dist": resolve(__dirname, "node_modules/@huggingface/transformers/dist"),
     },
   },
+  worker: {
+    // transformers.js code-splits; classic (iife) workers can't
+    format: "es",
+  },
+  server: {
+    // Optional proxy for testing the WebDAV provider against a local server
+    // that doesn't send CORS headers, e.g.:
+    //   VIDLOG_WEBDAV_PROXY=http://localhost:8080 npm run dev
+    // then use http://localhost:5173/webdav/ as the server URL in Settings.
+    proxy: process.env.VIDLOG_WEBDAV_PROXY
+      ? {
+          "/webdav": {
+            target: process.env.VIDLOG_WEBDAV_PROXY,
+            changeOrigin: true,
+            rewrite: (path) => path.replace(/^\/webdav/, ""),
+          },
+        }
+      : undefined,
+  },
   build: {
     target: "esnext",
   },